@@ -0,0 +1,336 @@
+/**
+ * ModuleService implementations from Zod schemas and an async generator
+ *
+ * defineModule derives the twelve rpcs of ModuleService from a definition:
+ * - the schema rpcs return the JSON Schemas of the definition's Zod schemas,
+ *   in raw or LLM format (see module-schemas.ts)
+ * - StartModule validates the input, starts a job with a `jobs:<uuid>` id and
+ *   streams each chunk `run` yields, validated with the output schema, as
+ *   StartModuleResponse.output
+ * - StopModule aborts the job's AbortSignal and GetModuleStatus and
+ *   GetModuleJobs report the jobs
+ * - ConfigSetupModule validates the content, lets `configure` compute the
+ *   setup, and validates it with the setup schema
+ *
+ * Jobs go from STARTING to PROCESSING once `run` is called, then end
+ * SUCCESS, FAILED, STOPPED (by StopModule) or CANCELED (by the client
+ * cancelling StartModule). An aborted `run` is not waited for: its stream
+ * ends at once, and what it yields afterwards is dropped. An output failing
+ * validateResponses ends the call with its error and the job FAILED. Requests are
+ * validated with the generated schemas, and payloads that do not match the
+ * definition fail with INVALID_ARGUMENT, with JSON pointers into the request.
+ */
+
+import { randomUUID } from "node:crypto";
+import { status, type ServerWritableStream } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type {
+  StartModuleRequest,
+  StartModuleResponse,
+} from "../../../gen/typescript/agentic_mesh_protocol/module/v1/lifecycle.js";
+import {
+  ModuleServiceService,
+  type ModuleServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/module/v1/module_service.js";
+import { withModuleServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/module/v1/module_service_server.js";
+import { ModuleStatus, type JobInfo } from "../../../gen/typescript/agentic_mesh_protocol/module/v1/monitoring.js";
+import type { SetupVersion } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup.js";
+import { ServiceStatusError, notFound, toJsonPointer, toStatus, unary, type ServiceBinding } from "../../runtime/src/index.js";
+import { toModuleJsonSchema, type JsonSchemaObject, type ModuleJsonSchemas } from "./module-schemas.js";
+
+/**
+ * Schema of a Struct payload
+ */
+export type StructSchema = z.ZodType<{ [key: string]: unknown }>;
+
+/**
+ * What `run` knows of the job it runs
+ */
+export interface JobContext {
+  jobId: string;
+  setupId: string;
+  missionId: string;
+  /** Aborted when the job is stopped or its StartModule call cancelled */
+  signal: AbortSignal;
+}
+
+/**
+ * What `configure` knows of the setup version it configures
+ */
+export interface ConfigureContext {
+  setupVersion: SetupVersion;
+  missionId: string;
+}
+
+/**
+ * A module: the schemas of its payloads and the functions running its jobs
+ */
+export interface ModuleDefinition<
+  Input extends StructSchema,
+  Output extends StructSchema,
+  Setup extends StructSchema,
+  ConfigSetup extends StructSchema = Setup,
+> {
+  input: Input;
+  output: Output;
+  setup: Setup;
+  /** Secrets the module needs, none by default */
+  secret?: StructSchema;
+  /** Input of GetModuleSelectInput, the input schema by default */
+  selectInput?: StructSchema;
+  /** Content of ConfigSetupModule, the setup schema by default */
+  configSetup?: ConfigSetup;
+  /** Cost configuration of the module, none by default */
+  cost?: StructSchema;
+  /** Runs a job, yielding the chunks of its output */
+  run(input: z.output<Input>, context: JobContext): AsyncIterable<z.input<Output>>;
+  /** Computes the setup from a ConfigSetupModule content, the content itself by default */
+  configure?(content: z.output<ConfigSetup>, context: ConfigureContext): z.input<Setup> | Promise<z.input<Setup>>;
+}
+
+/**
+ * Options of the module services
+ */
+export interface ModuleServiceOptions {
+  /** Whether to validate the responses with their generated schemas as well */
+  validateResponses?: boolean;
+  /** Finished jobs GetModuleJobs keeps reporting, the oldest are forgotten first (1000 by default) */
+  maxFinishedJobs?: number;
+}
+
+/**
+ * The ModuleService binding of a module, with access to its jobs
+ */
+export interface ModuleService extends ServiceBinding<ModuleServiceServer> {
+  jobs(): JobInfo[];
+  /** JSON Schemas of the payloads in raw format, named as in a ModuleDescriptor */
+  schemas(): ModuleJsonSchemas;
+}
+
+/**
+ * A job and what is needed to stop it
+ */
+interface Job {
+  info: JobInfo;
+  controller: AbortController;
+}
+
+const FINISHED = [
+  ModuleStatus.MODULE_STATUS_SUCCESS,
+  ModuleStatus.MODULE_STATUS_FAILED,
+  ModuleStatus.MODULE_STATUS_STOPPED,
+  ModuleStatus.MODULE_STATUS_CANCELED,
+  ModuleStatus.MODULE_STATUS_EXPIRED,
+];
+
+export function defineModule<
+  Input extends StructSchema,
+  Output extends StructSchema,
+  Setup extends StructSchema,
+  ConfigSetup extends StructSchema = Setup,
+>(definition: ModuleDefinition<Input, Output, Setup, ConfigSetup>, options: ModuleServiceOptions = {}): ModuleService {
+  const maxFinishedJobs = options.maxFinishedJobs ?? 1000;
+  const configSetup: StructSchema = definition.configSetup ?? definition.setup;
+  const jobs = new Map<string, Job>();
+
+  // Converted on first use, by payload and format
+  const jsonSchemas = new Map<string, JsonSchemaObject>();
+  const jsonSchema = (kind: string, schema: StructSchema | undefined, io: "input" | "output", llmFormat: boolean) => {
+    const key = `${kind}:${llmFormat}`;
+    let converted = jsonSchemas.get(key);
+    if (!converted) {
+      converted = schema ? toModuleJsonSchema(schema, io, llmFormat) : { type: "object", properties: {} };
+      jsonSchemas.set(key, converted);
+    }
+    return structuredClone(converted);
+  };
+
+  const getJob = (jobId: string) => {
+    const job = jobs.get(jobId);
+    if (!job) {
+      throw notFound("job", jobId);
+    }
+    return job;
+  };
+  const finish = (job: Job, jobStatus: ModuleStatus) => {
+    if (FINISHED.includes(job.info.jobStatus)) {
+      return false;
+    }
+    job.info.jobStatus = jobStatus;
+    const finished = Array.from(jobs.values()).filter(({ info }) => FINISHED.includes(info.jobStatus));
+    for (const { info } of finished.slice(0, Math.max(0, finished.length - maxFinishedJobs))) {
+      jobs.delete(info.jobId);
+    }
+    return true;
+  };
+
+  const startJob = async (call: ServerWritableStream<StartModuleRequest, StartModuleResponse>, input: z.output<Input>) => {
+    const job: Job = {
+      info: { jobId: `jobs:${randomUUID()}`, jobStatus: ModuleStatus.MODULE_STATUS_STARTING },
+      controller: new AbortController(),
+    };
+    jobs.set(job.info.jobId, job);
+    const { signal } = job.controller;
+    const aborted = new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve(), { once: true }));
+    call.on("cancelled", () => {
+      if (finish(job, ModuleStatus.MODULE_STATUS_CANCELED)) {
+        job.controller.abort(new Error("StartModule call cancelled"));
+      }
+    });
+    // An invalid response (validateResponses) ends the call with an error, and no "drain" follows
+    let callError: unknown;
+    call.once("error", (error) => {
+      callError = error;
+    });
+
+    let iterator: AsyncIterator<z.input<Output>> | undefined;
+    try {
+      job.info.jobStatus = ModuleStatus.MODULE_STATUS_PROCESSING;
+      const context: JobContext = {
+        jobId: job.info.jobId,
+        setupId: call.request.setupId,
+        missionId: call.request.missionId,
+        signal,
+      };
+      iterator = definition.run(input, context)[Symbol.asyncIterator]();
+      for (;;) {
+        const next = await Promise.race([iterator.next(), aborted]);
+        if (!next || next.done || signal.aborted) {
+          break;
+        }
+        const output = definition.output.safeParse(next.value);
+        if (!output.success) {
+          throw new ServiceStatusError(status.INTERNAL, `invalid output: ${describeIssues(output.error, [])}`);
+        }
+        if (!call.write({ success: true, output: output.data, jobId: job.info.jobId }) && callError === undefined) {
+          await Promise.race([drained(call), aborted]);
+        }
+        if (callError !== undefined) {
+          finish(job, ModuleStatus.MODULE_STATUS_FAILED);
+          job.controller.abort(callError);
+          return;
+        }
+      }
+      finish(job, ModuleStatus.MODULE_STATUS_SUCCESS);
+      call.end();
+    } catch (error) {
+      if (!finish(job, ModuleStatus.MODULE_STATUS_FAILED)) {
+        // Stopped or cancelled while failing: the stream ends as for the abort
+        call.end();
+        return;
+      }
+      call.emit("error", toStatus(error));
+    } finally {
+      if (signal.aborted) {
+        // Not awaited: the generator returns once its pending step settles
+        iterator?.return?.().catch(() => undefined);
+      }
+    }
+  };
+
+  const implementation: ModuleServiceServer = {
+    startModule: (call) => {
+      const input = definition.input.safeParse(call.request.input);
+      if (!input.success) {
+        call.emit("error", toStatus(invalidPayload("input", input.error)));
+        return;
+      }
+      void startJob(call, input.data);
+    },
+    stopModule: unary((request) => {
+      const job = jobs.get(request.jobId);
+      if (!job || !finish(job, ModuleStatus.MODULE_STATUS_STOPPED)) {
+        return { success: false, jobId: request.jobId };
+      }
+      job.controller.abort(new Error("job stopped"));
+      return { success: true, jobId: request.jobId };
+    }),
+    getModuleStatus: unary((request) => ({ success: true, status: getJob(request.jobId).info.jobStatus, jobId: request.jobId })),
+    getModuleJobs: unary(() => ({ success: true, jobs: Array.from(jobs.values()).map(({ info }) => ({ ...info })) })),
+    getModuleInput: unary((request) => ({
+      success: true,
+      inputSchema: jsonSchema("input", definition.input, "input", request.llmFormat),
+    })),
+    getModuleSelectInput: unary(() => ({
+      success: true,
+      selectInputSchema: jsonSchema("selectInput", definition.selectInput ?? definition.input, "input", false),
+    })),
+    getModuleOutput: unary((request) => ({
+      success: true,
+      outputSchema: jsonSchema("output", definition.output, "output", request.llmFormat),
+    })),
+    getModuleSetup: unary((request) => ({
+      success: true,
+      setupSchema: jsonSchema("setup", definition.setup, "input", request.llmFormat),
+    })),
+    getModuleSecret: unary((request) => ({
+      success: true,
+      secretSchema: jsonSchema("secret", definition.secret, "input", request.llmFormat),
+    })),
+    getConfigSetupModule: unary((request) => ({
+      success: true,
+      configSetupSchema: jsonSchema("configSetup", configSetup, "input", request.llmFormat),
+    })),
+    getModuleCost: unary((request) => ({
+      success: true,
+      costSchema: jsonSchema("cost", definition.cost, "input", request.llmFormat),
+    })),
+    configSetupModule: unary(async (request) => {
+      const content = configSetup.safeParse(request.content);
+      if (!content.success) {
+        throw invalidPayload("content", content.error);
+      }
+      const setupVersion = request.setupVersion!;
+      const configured = definition.configure
+        ? await definition.configure(content.data as z.output<ConfigSetup>, { setupVersion, missionId: request.missionId })
+        : content.data;
+      const setup = definition.setup.safeParse(configured);
+      if (!setup.success) {
+        throw new ServiceStatusError(status.INTERNAL, `invalid setup: ${describeIssues(setup.error, [])}`);
+      }
+      return { success: true, setupVersion: { ...setupVersion, content: setup.data } };
+    }),
+  };
+
+  return {
+    definition: ModuleServiceService,
+    implementation: withModuleServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    jobs: () => Array.from(jobs.values()).map(({ info }) => ({ ...info })),
+    schemas: () => ({
+      inputSchema: jsonSchema("input", definition.input, "input", false),
+      outputSchema: jsonSchema("output", definition.output, "output", false),
+      setupSchema: jsonSchema("setup", definition.setup, "input", false),
+      secretSchema: jsonSchema("secret", definition.secret, "input", false),
+      costSchema: jsonSchema("cost", definition.cost, "input", false),
+    }),
+  };
+}
+
+/**
+ * Resolves once the stream drains, or closes without draining
+ */
+function drained(call: ServerWritableStream<StartModuleRequest, StartModuleResponse>): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      call.off("drain", done);
+      call.off("close", done);
+      resolve();
+    };
+    call.on("drain", done);
+    call.on("close", done);
+  });
+}
+
+/**
+ * INVALID_ARGUMENT error for a payload field of the request that does not match its schema
+ */
+function invalidPayload(field: string, error: z.ZodError): ServiceStatusError {
+  return new ServiceStatusError(status.INVALID_ARGUMENT, `invalid ${field}: ${describeIssues(error, [field])}`);
+}
+
+/**
+ * The issues of a ZodError, e.g. "/input/items/0: Required", with JSON pointers from the path
+ */
+function describeIssues(error: z.ZodError, path: PropertyKey[]): string {
+  return error.issues.map((issue) => `${toJsonPointer([...path, ...issue.path]) || "/"}: ${issue.message}`).join("; ");
+}
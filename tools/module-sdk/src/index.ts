@@ -0,0 +1,32 @@
+/**
+ * SDK for implementing Agentic Mesh Protocol modules in TypeScript
+ *
+ * Built on the ts-proto grpc-js code of gen/typescript (`npm run generate` first).
+ */
+
+export {
+  defineModule,
+  type ConfigureContext,
+  type JobContext,
+  type ModuleDefinition,
+  type ModuleService,
+  type ModuleServiceOptions,
+  type StructSchema,
+} from "./define-module.js";
+export {
+  buildModuleDescriptor,
+  type ModuleEndpoint,
+  type ModuleMetadata,
+} from "./module-descriptor.js";
+export {
+  toModuleJsonSchema,
+  type JsonSchemaObject,
+  type ModuleJsonSchemas,
+} from "./module-schemas.js";
+export {
+  createRegistrationAgent,
+  type BackoffOptions,
+  type RegistrationAgent,
+  type RegistrationAgentOptions,
+  type RegistrationStatus,
+} from "./registration-agent.js";
@@ -0,0 +1,59 @@
+/**
+ * ModuleDescriptors of modules defined with the SDK
+ *
+ * A descriptor combines the metadata of a module, the endpoint it serves on
+ * and the JSON Schemas of its payloads. It is checked with the generated
+ * ModuleDescriptorSchema, so a module with incomplete metadata fails before
+ * it reaches the registry.
+ */
+
+import { ModuleStatus, type ModuleType, type Visibility } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_enums.js";
+import type { ModuleDescriptor } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models.js";
+import { ModuleDescriptorSchema } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models_zod.js";
+import type { ModuleService } from "./define-module.js";
+
+/**
+ * What the platform knows of a module besides its schemas
+ */
+export interface ModuleMetadata {
+  /** `modules:` id of the module in the platform database */
+  id: string;
+  name: string;
+  moduleType: ModuleType;
+  /** Runtime version of the deployed module */
+  version: string;
+  visibility: Visibility;
+  organizationId: string;
+  ownerId: string;
+  documentation: string;
+}
+
+/**
+ * Host and port the module serves on
+ */
+export interface ModuleEndpoint {
+  address: string;
+  port: number;
+}
+
+/**
+ * Builds the descriptor of a module, READY until a registry registers it
+ * Throws a ZodError when the metadata or endpoint do not make a valid descriptor.
+ */
+export function buildModuleDescriptor(
+  module: Pick<ModuleService, "schemas">,
+  metadata: ModuleMetadata,
+  endpoint: ModuleEndpoint,
+  now: Date = new Date()
+): ModuleDescriptor {
+  const descriptor: ModuleDescriptor = {
+    ...metadata,
+    ...endpoint,
+    ...module.schemas(),
+    status: ModuleStatus.MODULE_STATUS_READY,
+    createdAt: now,
+    updatedAt: now,
+  };
+  ModuleDescriptorSchema.parse(descriptor);
+  return descriptor;
+}
@@ -0,0 +1,35 @@
+/**
+ * JSON Schemas of the payloads a module declares with Zod
+ *
+ * The schema RPCs of ModuleService return a Struct holding a JSON Schema,
+ * in one of two formats chosen by `llm_format`:
+ * - raw: draft 2020-12, with the subschemas used more than once in `$defs`,
+ *   as pydantic generates them (and compileJsonSchema of the runtime reads)
+ * - LLM: every subschema inlined where it is used, without `$schema`, for
+ *   tool definitions of LLM APIs (recursive schemas keep their `$ref`s)
+ */
+
+import { z } from "zod";
+import type { PayloadKind } from "../../runtime/src/index.js";
+
+/**
+ * A JSON Schema document, as carried by a Struct
+ */
+export type JsonSchemaObject = { [key: string]: unknown };
+
+/**
+ * The JSON Schemas of a module's payloads, named after the `<kind>_schema` fields of a ModuleDescriptor
+ */
+export type ModuleJsonSchemas = { [K in PayloadKind as `${K}Schema`]: JsonSchemaObject };
+
+/**
+ * Converts the schema of a payload to JSON Schema
+ * `io` is "input" for the payloads the module receives, "output" for the ones it produces.
+ */
+export function toModuleJsonSchema(schema: z.ZodType, io: "input" | "output", llmFormat: boolean): JsonSchemaObject {
+  if (!llmFormat) {
+    return z.toJSONSchema(schema, { target: "draft-2020-12", io, reused: "ref", unrepresentable: "any" }) as JsonSchemaObject;
+  }
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { io, reused: "inline", unrepresentable: "any" });
+  return jsonSchema as JsonSchemaObject;
+}
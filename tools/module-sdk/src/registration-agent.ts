@@ -0,0 +1,215 @@
+/**
+ * Keeps a module registered with the RegistryService
+ *
+ * The agent registers the module's descriptor, retrying failures the
+ * registry may recover from (UNAVAILABLE, DEADLINE_EXCEEDED, ...) with
+ * exponential backoff and jitter, then sends heartbeats on an interval.
+ * A heartbeat answered NOT_FOUND, or with any status but
+ * MODULE_STATUS_ACTIVE, means the registry forgot the module or let its
+ * registration expire: the agent registers it again. Failed heartbeats are
+ * reported and retried at the next interval.
+ *
+ * stop() ends the heartbeats and cancels the calls in flight, and runs on
+ * SIGTERM by default. RegistryService has no deregistration rpc, so the
+ * module is not deregistered: the registry shows it offline once its last
+ * heartbeat is older than the registry's heartbeat TTL. After a signal
+ * the agent re-raises it once stopped, unless another listener handles it.
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+import { status as grpcStatus } from "@grpc/grpc-js";
+import { ModuleStatus } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_enums.js";
+import type { ModuleDescriptor } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models.js";
+import type { RegistryServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service_client.js";
+
+/**
+ * Where the agent is: registering (again), registered and sending heartbeats, or done
+ * "failed" follows an error retrying cannot fix, e.g. NOT_FOUND for a module the platform does not know.
+ */
+export type RegistrationStatus = "idle" | "registering" | "registered" | "failed" | "stopped";
+
+/**
+ * Delays between registration attempts: initialDelayMs, multiplied by multiplier after each failure, up to maxDelayMs
+ */
+export interface BackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+}
+
+export interface RegistrationAgentOptions {
+  client: Pick<RegistryServicePromiseClient, "registerModule" | "heartbeat">;
+  /** Descriptor of the module, see buildModuleDescriptor */
+  descriptor: ModuleDescriptor;
+  /** 10s by default, to be well within the registry's heartbeat TTL */
+  heartbeatIntervalMs?: number;
+  backoff?: BackoffOptions;
+  /** Registration attempts before giving up, unlimited by default */
+  maxAttempts?: number;
+  /** Deadline of each call, 5s by default */
+  callTimeoutMs?: number;
+  /** Signals stopping the agent, SIGTERM by default (none with []) */
+  shutdownSignals?: NodeJS.Signals[];
+  onStatusChange?(status: RegistrationStatus, previous: RegistrationStatus): void;
+  /** Called with the failures that are retried, and the one the agent fails with once started; logged as warnings by default */
+  onError?(error: unknown): void;
+}
+
+export interface RegistrationAgent {
+  readonly status: RegistrationStatus;
+  /** The module as the registry last described or reported it */
+  readonly registeredModule: ModuleDescriptor | undefined;
+  /** Registers the module, resolving once registered, and starts the heartbeats */
+  start(): Promise<ModuleDescriptor>;
+  stop(): Promise<void>;
+}
+
+// Codes of the failures a later attempt may not run into
+const RETRYABLE = [
+  grpcStatus.UNAVAILABLE,
+  grpcStatus.DEADLINE_EXCEEDED,
+  grpcStatus.RESOURCE_EXHAUSTED,
+  grpcStatus.ABORTED,
+  grpcStatus.INTERNAL,
+  grpcStatus.UNKNOWN,
+];
+
+export function createRegistrationAgent(options: RegistrationAgentOptions): RegistrationAgent {
+  const { client, descriptor } = options;
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10_000;
+  const initialDelayMs = options.backoff?.initialDelayMs ?? 500;
+  const maxDelayMs = options.backoff?.maxDelayMs ?? 30_000;
+  const multiplier = options.backoff?.multiplier ?? 2;
+  const maxAttempts = options.maxAttempts ?? Infinity;
+  const callTimeoutMs = options.callTimeoutMs ?? 5_000;
+  const shutdownSignals = options.shutdownSignals ?? ["SIGTERM"];
+  const onError = options.onError ?? ((error: unknown) => console.error(`Warning: module registration: ${errorMessage(error)}`));
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  let status: RegistrationStatus = "idle";
+  let registeredModule: ModuleDescriptor | undefined;
+  let heartbeats: Promise<void> | undefined;
+
+  const setStatus = (next: RegistrationStatus) => {
+    const previous = status;
+    if (next !== previous) {
+      status = next;
+      options.onStatusChange?.(next, previous);
+    }
+  };
+  const settings = () => ({ signal, options: { deadline: Date.now() + callTimeoutMs } });
+
+  const register = async () => {
+    setStatus("registering");
+    const request = { moduleId: descriptor.id, address: descriptor.address, port: descriptor.port, version: descriptor.version };
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await client.registerModule(request, settings());
+        registeredModule = response.module;
+        setStatus("registered");
+        return response.module ?? descriptor;
+      } catch (error) {
+        const code = codeOf(error);
+        if (signal.aborted || code === undefined || !RETRYABLE.includes(code) || attempt >= maxAttempts) {
+          throw error;
+        }
+        onError(error);
+        const backoff = Math.min(maxDelayMs, initialDelayMs * multiplier ** (attempt - 1));
+        await delay(backoff / 2 + (Math.random() * backoff) / 2, undefined, { signal });
+      }
+    }
+  };
+
+  const sendHeartbeats = async () => {
+    for (;;) {
+      await delay(heartbeatIntervalMs, undefined, { signal });
+      let forgotten: boolean;
+      try {
+        const response = await client.heartbeat({ moduleId: descriptor.id }, settings());
+        if (registeredModule) {
+          registeredModule = { ...registeredModule, status: response.status };
+        }
+        forgotten = response.status !== ModuleStatus.MODULE_STATUS_ACTIVE;
+      } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
+        forgotten = codeOf(error) === grpcStatus.NOT_FOUND;
+        if (!forgotten) {
+          onError(error);
+        }
+      }
+      if (forgotten) {
+        await register();
+      }
+    }
+  };
+
+  const onSignal = (received: NodeJS.Signals) => {
+    void stop().finally(() => {
+      if (process.listenerCount(received) === 0) {
+        process.kill(process.pid, received);
+      }
+    });
+  };
+
+  const stop = async () => {
+    if (status === "stopped") {
+      return;
+    }
+    for (const shutdownSignal of shutdownSignals) {
+      process.off(shutdownSignal, onSignal);
+    }
+    controller.abort(new Error("registration agent stopped"));
+    await heartbeats;
+    setStatus("stopped");
+  };
+
+  return {
+    get status() {
+      return status;
+    },
+    get registeredModule() {
+      return registeredModule;
+    },
+    start: async () => {
+      if (status !== "idle") {
+        throw new Error(`registration agent already ${status}`);
+      }
+      for (const shutdownSignal of shutdownSignals) {
+        process.once(shutdownSignal, onSignal);
+      }
+      let module: ModuleDescriptor;
+      try {
+        module = await register();
+      } catch (error) {
+        for (const shutdownSignal of shutdownSignals) {
+          process.off(shutdownSignal, onSignal);
+        }
+        setStatus(signal.aborted ? "stopped" : "failed");
+        throw error;
+      }
+      heartbeats = sendHeartbeats().catch((error: unknown) => {
+        if (!signal.aborted) {
+          setStatus("failed");
+          onError(error);
+        }
+      });
+      return module;
+    },
+    stop,
+  };
+}
+
+/**
+ * gRPC status code of a failed call, undefined for other errors
+ */
+function codeOf(error: unknown): grpcStatus | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "number" ? code : undefined;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,215 @@
+/**
+ * Tests of defineModule, served by an in-process server
+ *
+ * Run with `npm run test:module-sdk`, after `npm run generate`.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { credentials, status } from "@grpc/grpc-js";
+import { z } from "zod";
+import { ModuleServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/module/v1/module_service.js";
+import {
+  createModuleServicePromiseClient,
+  type ModuleServicePromiseClient,
+} from "../../../gen/typescript/agentic_mesh_protocol/module/v1/module_service_client.js";
+import { ModuleStatus } from "../../../gen/typescript/agentic_mesh_protocol/module/v1/monitoring.js";
+import type { StartModuleResponse } from "../../../gen/typescript/agentic_mesh_protocol/module/v1/lifecycle.js";
+import { startInProcessServer, type StartedServer } from "../../reference/src/server.js";
+import { defineModule, type ModuleService } from "../src/define-module.js";
+
+const Item = z.object({ name: z.string() });
+
+/** Counts up to `count`, or fails with an invalid output at `invalidAt` */
+const counter = (options: Parameters<typeof defineModule>[1] = {}) =>
+  defineModule(
+    {
+      input: z.object({
+        count: z.number().int().min(1),
+        items: z.array(Item).optional(),
+        first: Item.optional(),
+        invalidAt: z.number().optional(),
+      }),
+      output: z.object({ index: z.number() }),
+      setup: z.object({ model: z.string().default("gpt") }),
+      configSetup: z.object({ model: z.string().optional(), temperature: z.number() }),
+      async *run(input, { signal }) {
+        for (let index = 0; index < input.count && !signal.aborted; index++) {
+          yield index === input.invalidAt ? ({ index: "invalid" } as never) : { index };
+          await delay(5);
+        }
+      },
+      configure: (content) => ({ model: content.model ?? `gpt@${content.temperature}` }),
+    },
+    options
+  );
+
+const startRequest = (input: { [key: string]: unknown }) => ({ input, setupId: "setups:1", missionId: "missions:1" });
+
+/** The responses of a StartModule call, and the error it ends with */
+async function collect(stream: AsyncIterable<StartModuleResponse>, onResponse?: (response: StartModuleResponse) => unknown) {
+  const responses: StartModuleResponse[] = [];
+  try {
+    for await (const response of stream) {
+      responses.push(response);
+      await onResponse?.(response);
+    }
+  } catch (error) {
+    return { responses, error: error as { code?: number; details?: string } };
+  }
+  return { responses, error: undefined };
+}
+
+/** Waits for the job to reach a status, as the server may finish it after the client saw the stream end */
+async function jobStatus(module: ModuleService, jobId: string, expected: ModuleStatus) {
+  for (let attempt = 0; attempt < 50 && module.jobs().find((job) => job.jobId === jobId)?.jobStatus !== expected; attempt++) {
+    await delay(10);
+  }
+  return module.jobs().find((job) => job.jobId === jobId)?.jobStatus;
+}
+
+function serve(module: ModuleService) {
+  const context: { server?: StartedServer; client?: ModuleServicePromiseClient; grpcClient?: ModuleServiceClient } = {};
+  before(async () => {
+    context.server = await startInProcessServer([module]);
+    context.grpcClient = new ModuleServiceClient(context.server.address, credentials.createInsecure());
+    context.client = createModuleServicePromiseClient(context.grpcClient);
+  });
+  after(async () => {
+    context.grpcClient?.close();
+    await context.server?.close();
+  });
+  return () => context.client!;
+}
+
+describe("StartModule", () => {
+  const module = counter();
+  const client = serve(module);
+
+  it("streams the chunks of a job, which then succeeds", async () => {
+    const { responses, error } = await collect(client().startModule(startRequest({ count: 3 })));
+    assert.equal(error, undefined);
+    assert.deepEqual(responses.map((response) => response.output), [{ index: 0 }, { index: 1 }, { index: 2 }]);
+    const { jobId } = responses[0];
+    assert.match(jobId, /^jobs:/);
+    assert.ok(responses.every((response) => response.jobId === jobId && response.success));
+    assert.equal(await jobStatus(module, jobId, ModuleStatus.MODULE_STATUS_SUCCESS), ModuleStatus.MODULE_STATUS_SUCCESS);
+  });
+
+  it("rejects an input that does not match the input schema", async () => {
+    const { responses, error } = await collect(client().startModule(startRequest({ count: 0, items: [{}] })));
+    assert.deepEqual(responses, []);
+    assert.equal(error?.code, status.INVALID_ARGUMENT);
+    assert.match(error?.details ?? "", /\/input\/count: /);
+    assert.match(error?.details ?? "", /\/input\/items\/0\/name: /);
+  });
+
+  it("fails the job on an output that does not match the output schema", async () => {
+    const { responses, error } = await collect(client().startModule(startRequest({ count: 3, invalidAt: 1 })));
+    assert.equal(responses.length, 1);
+    assert.equal(error?.code, status.INTERNAL);
+    assert.match(error?.details ?? "", /^invalid output: \/index: /);
+    assert.equal(await jobStatus(module, responses[0].jobId, ModuleStatus.MODULE_STATUS_FAILED), ModuleStatus.MODULE_STATUS_FAILED);
+  });
+
+  it("reports the jobs", async () => {
+    const { jobs } = await client().getModuleJobs({});
+    assert.ok(jobs.length >= 2);
+    const { status: jobStatus } = await client().getModuleStatus({ jobId: jobs[0].jobId });
+    assert.equal(jobStatus, jobs[0].jobStatus);
+    await assert.rejects(client().getModuleStatus({ jobId: "jobs:unknown" }), { code: status.NOT_FOUND });
+  });
+});
+
+describe("StartModule with validateResponses", () => {
+  const module = defineModule(
+    {
+      input: z.object({}),
+      // Passes the output schema, but not StartModuleResponse's Struct
+      output: z.custom<{ [key: string]: unknown }>(() => true),
+      setup: z.object({}),
+      async *run() {
+        yield { index: 0 };
+        yield "not a struct" as never;
+        yield { index: 2 };
+      },
+    },
+    { validateResponses: true }
+  );
+  const client = serve(module);
+
+  it("fails the job when a response fails validation", async () => {
+    const { responses, error } = await collect(client().startModule(startRequest({})));
+    assert.deepEqual(responses.map((response) => response.output), [{ index: 0 }]);
+    assert.equal(error?.code, status.INTERNAL);
+    assert.equal(await jobStatus(module, responses[0].jobId, ModuleStatus.MODULE_STATUS_FAILED), ModuleStatus.MODULE_STATUS_FAILED);
+  });
+});
+
+describe("StopModule", () => {
+  const module = counter();
+  const client = serve(module);
+
+  it("aborts the job, whose stream then ends", async () => {
+    const stopped: boolean[] = [];
+    const { responses, error } = await collect(client().startModule(startRequest({ count: 10_000 })), async (response) => {
+      if (response.output?.index === 2) {
+        stopped.push((await client().stopModule({ jobId: response.jobId })).success);
+      }
+    });
+    assert.equal(error, undefined);
+    assert.deepEqual(stopped, [true]);
+    assert.ok(responses.length < 100);
+    const { jobId } = responses[0];
+    assert.equal(await jobStatus(module, jobId, ModuleStatus.MODULE_STATUS_STOPPED), ModuleStatus.MODULE_STATUS_STOPPED);
+    assert.equal((await client().stopModule({ jobId })).success, false);
+    assert.equal((await client().stopModule({ jobId: "jobs:unknown" })).success, false);
+  });
+});
+
+describe("schemas", () => {
+  const module = counter();
+  const client = serve(module);
+
+  it("returns draft 2020-12 schemas with shared definitions in raw format", async () => {
+    const { inputSchema } = await client().getModuleInput({ moduleId: "modules:counter", llmFormat: false });
+    assert.equal(inputSchema?.$schema, "https://json-schema.org/draft/2020-12/schema");
+    assert.equal(Object.keys(inputSchema?.$defs as object).length, 1);
+    assert.deepEqual(module.schemas().inputSchema, inputSchema);
+  });
+
+  it("inlines the schemas without $schema in LLM format", async () => {
+    const { inputSchema } = await client().getModuleInput({ moduleId: "modules:counter", llmFormat: true });
+    assert.equal(inputSchema?.$schema, undefined);
+    assert.equal(inputSchema?.$defs, undefined);
+    const item = { type: "object", properties: { name: { type: "string" } }, required: ["name"] };
+    const { items, first } = inputSchema?.properties as { [key: string]: unknown };
+    assert.deepEqual(items, { type: "array", items: item });
+    assert.deepEqual(first, item);
+  });
+
+  it("describes an undeclared payload as an empty object", async () => {
+    const { secretSchema } = await client().getModuleSecret({ moduleId: "modules:counter", llmFormat: true });
+    assert.deepEqual(secretSchema, { type: "object", properties: {} });
+  });
+});
+
+describe("ConfigSetupModule", () => {
+  const module = counter();
+  const client = serve(module);
+  const setupVersion = { id: "setup_versions:1", setupId: "setups:1", version: "v1", content: {}, creationDate: new Date(0) };
+
+  it("configures the setup from the content", async () => {
+    const response = await client().configSetupModule({ setupVersion, content: { temperature: 0.5 }, missionId: "missions:1" });
+    assert.deepEqual(response.setupVersion?.content, { model: "gpt@0.5" });
+    assert.equal(response.setupVersion?.id, setupVersion.id);
+  });
+
+  it("rejects a content that does not match the config setup schema", async () => {
+    await assert.rejects(client().configSetupModule({ setupVersion, content: { temperature: "warm" }, missionId: "missions:1" }), {
+      code: status.INVALID_ARGUMENT,
+      details: /^invalid content: \/content\/temperature: /,
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests of the registration agent, against the in-memory RegistryService
+ *
+ * Run with `npm run test:module-sdk`, after `npm run generate`.
+ */
+
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { credentials, status } from "@grpc/grpc-js";
+import { ModuleStatus, ModuleType, Visibility } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_enums.js";
+import { ModuleDescriptor } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models.js";
+import { RegistryServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service.js";
+import {
+  createRegistryServicePromiseClient,
+  type RegistryServicePromiseClient,
+} from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service_client.js";
+import { createInMemoryRegistryService } from "../../reference/src/registry-service.js";
+import { startInProcessServer, type StartedServer } from "../../reference/src/server.js";
+import {
+  createRegistrationAgent,
+  type RegistrationAgent,
+  type RegistrationAgentOptions,
+  type RegistrationStatus,
+} from "../src/registration-agent.js";
+
+const descriptor = ModuleDescriptor.fromPartial({
+  id: "modules:agent",
+  name: "Agent",
+  moduleType: ModuleType.MODULE_TYPE_TOOL,
+  version: "1.0.0",
+  address: "127.0.0.1",
+  port: 50051,
+  status: ModuleStatus.MODULE_STATUS_READY,
+  visibility: Visibility.VISIBILITY_PUBLIC,
+  organizationId: "organizations:1",
+});
+
+/** Registry time, moved forward by the tests to expire registrations */
+let time = 0;
+const registry = createInMemoryRegistryService({ now: () => new Date(time), heartbeatTtlMs: 1_000 });
+
+/** Status codes the next calls of each method fail with, before reaching the registry */
+const faults: { registerModule: number[]; heartbeat: number[] } = { registerModule: [], heartbeat: [] };
+const calls = { registerModule: 0, heartbeat: 0 };
+
+async function until(condition: () => boolean, timeoutMs = 5_000) {
+  for (const start = Date.now(); !condition(); await delay(5)) {
+    assert.ok(Date.now() - start < timeoutMs, "timed out");
+  }
+}
+
+describe("RegistrationAgent", () => {
+  let server: StartedServer | undefined;
+  let registryClient: RegistryServiceClient | undefined;
+  let client: Pick<RegistryServicePromiseClient, "registerModule" | "heartbeat">;
+
+  before(async () => {
+    server = await startInProcessServer([registry]);
+    registryClient = new RegistryServiceClient(server.address, credentials.createInsecure());
+    const promiseClient = createRegistryServicePromiseClient(registryClient);
+    const inject = (method: keyof typeof faults) => {
+      calls[method]++;
+      const code = faults[method].shift();
+      if (code !== undefined) {
+        throw Object.assign(new Error(`injected ${status[code]}`), { code });
+      }
+    };
+    client = {
+      registerModule: async (request, settings) => (inject("registerModule"), promiseClient.registerModule(request, settings)),
+      heartbeat: async (request, settings) => (inject("heartbeat"), promiseClient.heartbeat(request, settings)),
+    };
+  });
+  after(async () => {
+    registryClient?.close();
+    await server?.close();
+  });
+  beforeEach(() => {
+    registry.clear();
+    registry.addModule(descriptor);
+    faults.registerModule = [];
+    faults.heartbeat = [];
+    calls.registerModule = 0;
+    calls.heartbeat = 0;
+  });
+  const agents: RegistrationAgent[] = [];
+  afterEach(async () => {
+    await Promise.all(agents.splice(0).map((agent) => agent.stop()));
+  });
+
+  /** An agent recording its status changes and errors, stopped by the test */
+  const createAgent = (options: Partial<RegistrationAgentOptions> = {}) => {
+    const transitions: RegistrationStatus[] = [];
+    const errors: unknown[] = [];
+    const agent = createRegistrationAgent({
+      client,
+      descriptor,
+      heartbeatIntervalMs: 20,
+      backoff: { initialDelayMs: 40, maxDelayMs: 1_000 },
+      shutdownSignals: [],
+      onStatusChange: (next) => transitions.push(next),
+      onError: (error) => errors.push(error),
+      ...options,
+    });
+    agents.push(agent);
+    return { agent, transitions, errors };
+  };
+
+  it("registers the module, then keeps it live with heartbeats", async () => {
+    const { agent, transitions } = createAgent();
+    const module = await agent.start();
+    assert.equal(module.status, ModuleStatus.MODULE_STATUS_ACTIVE);
+    assert.equal(agent.status, "registered");
+    assert.deepEqual(transitions, ["registering", "registered"]);
+
+    // Heartbeats are counted when sent, so the clock may move twice before one is answered: 800ms, within the TTL
+    for (let i = 0; i < 4; i++) {
+      const heartbeats = calls.heartbeat;
+      await until(() => calls.heartbeat > heartbeats);
+      time += 400;
+    }
+    assert.ok(registry.isLive(descriptor.id));
+    assert.equal(calls.registerModule, 1);
+    await agent.stop();
+    assert.equal(agent.status, "stopped");
+  });
+
+  it("retries UNAVAILABLE with exponential backoff", async () => {
+    faults.registerModule = [status.UNAVAILABLE, status.UNAVAILABLE, status.UNAVAILABLE];
+    const { agent, errors } = createAgent();
+    const start = Date.now();
+    await agent.start();
+    // Delays of 40, 80 and 160ms, of which jitter keeps at least half
+    assert.ok(Date.now() - start >= 140);
+    assert.equal(calls.registerModule, 4);
+    assert.deepEqual(errors.map((error) => (error as { code: number }).code), [status.UNAVAILABLE, status.UNAVAILABLE, status.UNAVAILABLE]);
+    assert.ok(registry.isLive(descriptor.id));
+    await agent.stop();
+  });
+
+  it("gives up after maxAttempts", async () => {
+    faults.registerModule = [status.UNAVAILABLE, status.UNAVAILABLE];
+    const { agent } = createAgent({ maxAttempts: 2, backoff: { initialDelayMs: 1 } });
+    await assert.rejects(agent.start(), { code: status.UNAVAILABLE });
+    assert.equal(calls.registerModule, 2);
+    assert.equal(agent.status, "failed");
+  });
+
+  it("gives up at once on a code retrying cannot fix", async () => {
+    registry.clear();
+    const { agent, transitions, errors } = createAgent();
+    await assert.rejects(agent.start(), { code: status.NOT_FOUND });
+    assert.equal(calls.registerModule, 1);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(transitions, ["registering", "failed"]);
+  });
+
+  it("registers again once the registration expired", async () => {
+    const { agent, transitions } = createAgent();
+    await agent.start();
+    time += 1_000;
+    assert.ok(!registry.isLive(descriptor.id));
+
+    await until(() => calls.registerModule === 2 && agent.status === "registered");
+    assert.ok(registry.isLive(descriptor.id));
+    assert.deepEqual(transitions, ["registering", "registered", "registering", "registered"]);
+    await agent.stop();
+  });
+
+  it("registers again when a heartbeat is answered NOT_FOUND, and keeps going after other failures", async () => {
+    const { agent, errors } = createAgent();
+    await agent.start();
+    faults.heartbeat = [status.UNAVAILABLE, status.NOT_FOUND];
+    await until(() => calls.registerModule === 2 && agent.status === "registered");
+    assert.deepEqual(errors.map((error) => (error as { code: number }).code), [status.UNAVAILABLE]);
+
+    registry.forget(descriptor.id);
+    await until(() => calls.registerModule === 3 && agent.status === "registered");
+    assert.ok(registry.isLive(descriptor.id));
+    await agent.stop();
+  });
+
+  it("stops on SIGTERM, leaving the registration to expire", async (t) => {
+    // Keeps the agent from re-raising the signal once stopped
+    const listener = () => {};
+    process.on("SIGTERM", listener);
+    t.after(() => process.off("SIGTERM", listener));
+
+    const { agent, transitions } = createAgent({ shutdownSignals: ["SIGTERM"] });
+    await agent.start();
+    process.emit("SIGTERM", "SIGTERM");
+    await until(() => agent.status === "stopped");
+    assert.deepEqual(transitions, ["registering", "registered", "stopped"]);
+    assert.equal(process.listenerCount("SIGTERM"), 1);
+
+    // RegistryService has no deregistration rpc: the module stays live until its last heartbeat is older than the TTL
+    assert.ok(registry.isLive(descriptor.id));
+    const heartbeats = calls.heartbeat;
+    await delay(60);
+    assert.equal(calls.heartbeat, heartbeats);
+    time += 1_000;
+    assert.ok(!registry.isLive(descriptor.id));
+    assert.equal((await client.heartbeat({ moduleId: descriptor.id })).status, ModuleStatus.MODULE_STATUS_READY);
+    assert.equal(calls.registerModule, 1);
+  });
+
+  it("stops before registering, without calling the registry", async () => {
+    const { agent } = createAgent();
+    await agent.stop();
+    assert.equal(agent.status, "stopped");
+    assert.deepEqual(calls, { registerModule: 0, heartbeat: 0 });
+    await assert.rejects(agent.start(), /already stopped/);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * In-memory CostService
+ *
+ * Costs are kept in the order they were added. GetCosts filters them by
+ * mission and by each criteria of the CostFilter that is set (any of its
+ * names, cost types and setup versions), and reports the number and sum of
+ * the costs matching before pagination. GetCost sums the costs of a name.
+ * SetCostConfig replaces the configuration of a setup version, and
+ * GetCostConfig reports in `success` whether one was set.
+ */
+
+import type { Cost, CostConfig, CostFilter } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost.js";
+import { CostServiceService, type CostServiceServer } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost_service.js";
+import { withCostServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost_service_server.js";
+import { paginate, unary, type InMemoryServiceOptions, type ServiceBinding } from "./service.js";
+
+/**
+ * The CostService binding, with access to the recorded costs
+ */
+export interface InMemoryCostService extends ServiceBinding<CostServiceServer> {
+  /** Costs of all missions, in the order they were added */
+  costs(): Cost[];
+  clear(): void;
+}
+
+export function createInMemoryCostService(options: InMemoryServiceOptions = {}): InMemoryCostService {
+  const costs: Cost[] = [];
+  const configs = new Map<string, CostConfig[]>();
+
+  const implementation: CostServiceServer = {
+    addCost: unary((request) => {
+      costs.push({ ...request });
+      return { success: true };
+    }),
+    getCost: unary((request) => {
+      const matching = costs.filter((cost) => cost.missionId === request.missionId && cost.name === request.name);
+      return { costs: matching.map((cost) => ({ ...cost })), totalCost: sumCosts(matching) };
+    }),
+    getCosts: unary((request) => {
+      const matching = costs.filter((cost) => cost.missionId === request.missionId && matches(cost, request.filter));
+      return {
+        costs: paginate(matching, request.offset, request.limit).map((cost) => ({ ...cost })),
+        totalCount: matching.length,
+        totalCost: sumCosts(matching),
+      };
+    }),
+    getCostConfig: unary((request) => {
+      const config = configs.get(request.setupVersionId);
+      return { success: config !== undefined, configs: (config ?? []).map((entry) => ({ ...entry })) };
+    }),
+    setCostConfig: unary((request) => {
+      configs.set(request.setupVersionId, request.configs.map((entry) => ({ ...entry })));
+      return { success: true };
+    }),
+  };
+
+  return {
+    definition: CostServiceService,
+    implementation: withCostServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    costs: () => costs.map((cost) => ({ ...cost })),
+    clear: () => {
+      costs.length = 0;
+      configs.clear();
+    },
+  };
+}
+
+function sumCosts(costs: readonly Cost[]): number {
+  return costs.reduce((total, cost) => total + cost.cost, 0);
+}
+
+/**
+ * Whether a cost matches a CostFilter, whose empty lists match any cost
+ */
+function matches(cost: Cost, filter: CostFilter | undefined): boolean {
+  return (
+    !filter ||
+    ((filter.names.length === 0 || filter.names.includes(cost.name)) &&
+      (filter.costTypes.length === 0 || filter.costTypes.includes(cost.costType)) &&
+      (filter.setupVersionIds.length === 0 || filter.setupVersionIds.includes(cost.setupVersionId)))
+  );
+}
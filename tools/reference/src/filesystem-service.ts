@@ -0,0 +1,246 @@
+/**
+ * In-memory FilesystemService
+ *
+ * Files get `files:<uuid>` ids and are unique by name within their context.
+ * Uploads and updates report per-file failures in FileResult.error rather
+ * than failing the call: a name taken without replace_if_exists, or an
+ * unknown file. The size and SHA-256 checksum are computed from the content,
+ * which responses only carry with include_content.
+ *
+ * DeleteFiles marks the files as FILE_STATUS_DELETED, or removes them with
+ * `permanent`. Deleted files are only listed when filtering on that status,
+ * and files still uploading or processing are in use, which only `force`
+ * deletes. GetFiles orders by upload unless `order` names name, content_type,
+ * size_bytes, created_at or updated_at, prefixed with "-" for descending order.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { status } from "@grpc/grpc-js";
+import {
+  FileStatus,
+  type File,
+  type FileFilter,
+  type FileResult,
+  type UploadFileData,
+} from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem.js";
+import {
+  FilesystemServiceService,
+  type FilesystemServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem_service.js";
+import { withFilesystemServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem_service_server.js";
+import {
+  copyStruct,
+  notFound,
+  paginate,
+  ServiceStatusError,
+  unary,
+  type InMemoryServiceOptions,
+  type ServiceBinding,
+} from "./service.js";
+
+/**
+ * A stored file, with the dates the filters compare
+ */
+interface StoredFile {
+  file: File;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The FilesystemService binding, with access to the stored files
+ */
+export interface InMemoryFilesystemService extends ServiceBinding<FilesystemServiceServer> {
+  /** Files of all contexts, including soft-deleted ones, with their content */
+  files(): File[];
+  clear(): void;
+}
+
+// Files being written to, which only a forced deletion removes
+const IN_USE = [FileStatus.FILE_STATUS_UPLOADING, FileStatus.FILE_STATUS_PROCESSING];
+
+const ORDERS: Record<string, (a: StoredFile, b: StoredFile) => number> = {
+  name: (a, b) => a.file.name.localeCompare(b.file.name),
+  content_type: (a, b) => a.file.contentType.localeCompare(b.file.contentType),
+  size_bytes: (a, b) => Number(BigInt(a.file.sizeBytes) - BigInt(b.file.sizeBytes)),
+  created_at: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  updated_at: (a, b) => a.updatedAt.getTime() - b.updatedAt.getTime(),
+};
+
+export function createInMemoryFilesystemService(options: InMemoryServiceOptions = {}): InMemoryFilesystemService {
+  const now = options.now ?? (() => new Date());
+  const files = new Map<string, StoredFile>();
+
+  const findByName = (context: string, name: string) =>
+    Array.from(files.values()).find(
+      ({ file }) => file.context === context && file.name === name && file.status !== FileStatus.FILE_STATUS_DELETED
+    );
+
+  const upload = (data: UploadFileData): FileResult => {
+    const existing = findByName(data.context, data.name);
+    if (existing && !data.replaceIfExists) {
+      return { error: `file ${JSON.stringify(data.name)} already exists in ${data.context}` };
+    }
+    const date = now();
+    const fileId = existing?.file.fileId ?? `files:${randomUUID()}`;
+    const stored: StoredFile = {
+      file: {
+        fileId,
+        context: data.context,
+        name: data.name,
+        fileType: data.fileType,
+        contentType: data.contentType,
+        sizeBytes: "0",
+        checksum: "",
+        metadata: copyStruct(data.metadata),
+        storageUri: `memory://${fileId}`,
+        fileUrl: `memory://${data.context}/${encodeURIComponent(data.name)}`,
+        status: data.status,
+        content: Buffer.alloc(0),
+      },
+      createdAt: existing?.createdAt ?? date,
+      updatedAt: date,
+    };
+    setContent(stored.file, data.content);
+    files.set(fileId, stored);
+    return { file: toResponseFile(stored.file, false) };
+  };
+
+  const select = (context: string, filters: FileFilter | undefined) => {
+    if (filters && filters.context !== context) {
+      throw new ServiceStatusError(status.INVALID_ARGUMENT, "filters.context must be the context of the request");
+    }
+    return Array.from(files.values()).filter((stored) => stored.file.context === context && matches(stored, filters));
+  };
+
+  const implementation: FilesystemServiceServer = {
+    uploadFiles: unary((request) => {
+      const results = request.files.map(upload);
+      const failed = results.filter((result) => result.error !== undefined).length;
+      return { results, totalUploaded: results.length - failed, totalFailed: failed };
+    }),
+    getFile: unary((request) => {
+      const stored = files.get(request.fileId);
+      if (!stored || (request.context && stored.file.context !== request.context)) {
+        throw notFound("file", request.fileId);
+      }
+      return {
+        file: toResponseFile(stored.file, request.includeContent),
+        content: request.includeContent ? Buffer.from(stored.file.content) : Buffer.alloc(0),
+      };
+    }),
+    getFiles: unary((request) => {
+      const selected = select(request.context, request.filters);
+      const order = request.order.replace(/^-/, "");
+      if (order) {
+        const compare = ORDERS[order];
+        if (!compare) {
+          throw new ServiceStatusError(status.INVALID_ARGUMENT, `unknown order ${JSON.stringify(request.order)}`);
+        }
+        selected.sort(request.order.startsWith("-") ? (a, b) => compare(b, a) : compare);
+      }
+      return {
+        files: paginate(selected, request.offset, request.listSize).map(({ file }) => toResponseFile(file, request.includeContent)),
+        totalCount: selected.length,
+      };
+    }),
+    updateFile: unary((request) => {
+      const stored = files.get(request.fileId);
+      if (!stored || stored.file.context !== request.context) {
+        return { result: { error: `file ${JSON.stringify(request.fileId)} not found in ${request.context}` } };
+      }
+      const file = stored.file;
+      if (request.newName && request.newName !== file.name) {
+        if (findByName(file.context, request.newName)) {
+          return { result: { error: `file ${JSON.stringify(request.newName)} already exists in ${file.context}` } };
+        }
+        file.name = request.newName;
+        file.fileUrl = `memory://${file.context}/${encodeURIComponent(file.name)}`;
+      }
+      if (request.fileType) {
+        file.fileType = request.fileType;
+      }
+      if (request.contentType) {
+        file.contentType = request.contentType;
+      }
+      if (request.content.length > 0) {
+        setContent(file, request.content);
+      }
+      if (request.metadata) {
+        file.metadata = { ...file.metadata, ...copyStruct(request.metadata) };
+      }
+      file.status = request.status;
+      stored.updatedAt = now();
+      return { result: { file: toResponseFile(file, false) } };
+    }),
+    deleteFiles: unary((request) => {
+      const results: { [key: string]: boolean } = {};
+      for (const stored of select(request.context, request.filters)) {
+        const fileId = stored.file.fileId;
+        if (IN_USE.includes(stored.file.status) && !request.force) {
+          results[fileId] = false;
+          continue;
+        }
+        if (request.permanent) {
+          files.delete(fileId);
+        } else {
+          stored.file.status = FileStatus.FILE_STATUS_DELETED;
+          stored.updatedAt = now();
+        }
+        results[fileId] = true;
+      }
+      const deleted = Object.values(results).filter(Boolean).length;
+      return { results, totalDeleted: deleted, totalFailed: Object.keys(results).length - deleted };
+    }),
+  };
+
+  return {
+    definition: FilesystemServiceService,
+    implementation: withFilesystemServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    files: () => Array.from(files.values()).map(({ file }) => toResponseFile(file, true)),
+    clear: () => files.clear(),
+  };
+}
+
+function setContent(file: File, content: Uint8Array): void {
+  file.content = Buffer.from(content);
+  file.sizeBytes = String(content.length);
+  file.checksum = createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Copy of a file for a response, with its content only when asked for
+ */
+function toResponseFile(file: File, includeContent: boolean): File {
+  return {
+    ...file,
+    metadata: copyStruct(file.metadata),
+    content: includeContent ? Buffer.from(file.content) : Buffer.alloc(0),
+  };
+}
+
+/**
+ * Whether a file matches the criteria of a FileFilter, whose unset fields match any file
+ */
+function matches({ file, createdAt, updatedAt }: StoredFile, filter: FileFilter | undefined): boolean {
+  if (!filter) {
+    return file.status !== FileStatus.FILE_STATUS_DELETED;
+  }
+  const size = BigInt(file.sizeBytes);
+  return (
+    (filter.names.length === 0 || filter.names.includes(file.name)) &&
+    (filter.fileIds.length === 0 || filter.fileIds.includes(file.fileId)) &&
+    (filter.fileTypes.length === 0 || filter.fileTypes.includes(file.fileType)) &&
+    (!filter.createdAfter || createdAt > filter.createdAfter) &&
+    (!filter.createdBefore || createdAt < filter.createdBefore) &&
+    (!filter.updatedAfter || updatedAt > filter.updatedAfter) &&
+    (!filter.updatedBefore || updatedAt < filter.updatedBefore) &&
+    // Deleted files are only listed when asked for
+    (filter.status ? file.status === filter.status : file.status !== FileStatus.FILE_STATUS_DELETED) &&
+    file.contentType.startsWith(filter.contentTypePrefix) &&
+    (!filter.contentType || file.contentType === filter.contentType) &&
+    size >= BigInt(filter.minSizeBytes || "0") &&
+    (BigInt(filter.maxSizeBytes || "0") === 0n || size <= BigInt(filter.maxSizeBytes)) &&
+    file.name.startsWith(filter.prefix)
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * In-memory reference implementations of the Agentic Mesh Protocol services
+ *
+ * They implement the ts-proto grpc-js server interfaces of gen/typescript
+ * (`npm run generate` first), validate requests with the generated schemas,
+ * and keep their state in memory, for testing modules without the platform.
+ */
+
+export {
+  createInMemoryCostService,
+  type InMemoryCostService,
+} from "./cost-service.js";
+export {
+  createInMemoryFilesystemService,
+  type InMemoryFilesystemService,
+} from "./filesystem-service.js";
+export {
+  createInMemoryModuleRegistryService,
+  type InMemoryModuleRegistryService,
+  type InMemoryModuleRegistryServiceOptions,
+} from "./module-registry-service.js";
+export {
+  createInMemoryRegistryService,
+  type InMemoryRegistryService,
+  type InMemoryRegistryServiceOptions,
+} from "./registry-service.js";
+export {
+  startInProcessServer,
+  startServer,
+  type StartedServer,
+  type StartServerOptions,
+} from "./server.js";
+export {
+  alreadyExists,
+  notFound,
+  ServiceStatusError,
+  unary,
+  type InMemoryServiceOptions,
+  type ServiceBinding,
+} from "./service.js";
+export {
+  createInMemorySetupService,
+  type InMemorySetupService,
+} from "./setup-service.js";
+export {
+  createInMemoryStorageService,
+  type InMemoryStorageService,
+} from "./storage-service.js";
+export {
+  createInMemoryUserProfileService,
+  type InMemoryUserProfileService,
+} from "./user-profile-service.js";
@@ -0,0 +1,204 @@
+/**
+ * In-memory ModuleRegistryService (module_registry/v1)
+ *
+ * Registered modules start MODULE_STATUS_RUNNING, and re-registering replaces
+ * their endpoint and metadata. Deregistering removes a module, after
+ * announcing it MODULE_STATUS_ENDED. UpdateModuleStatus reports in `success`
+ * whether the module is registered. DiscoverSearchModule matches the module
+ * type, the name and description as case-insensitive substrings of the
+ * metadata, and modules carrying all of the tags.
+ *
+ * GetAllModuleStatus streams the status of every module, then each change
+ * until the client cancels or endStreams is called. Every open stream gets
+ * every change, so dashboards and orchestrators can subscribe instead of
+ * polling. A stream that falls `maxBufferedStatuses` behind is not written
+ * to until it drains, and meanwhile only the latest pending status of each
+ * module is kept, so a slow client skips intermediate statuses rather than
+ * growing a queue. Streams are dropped as soon as their call ends.
+ */
+
+import type { ServerWritableStream } from "@grpc/grpc-js";
+import type { DiscoverInfoResponse } from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/discover.js";
+import {
+  ModuleRegistryServiceService,
+  type ModuleRegistryServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/module_registry_service.js";
+import { withModuleRegistryServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/module_registry_service_server.js";
+import {
+  ModuleStatus,
+  type GetAllModulesStatusRequest,
+  type ModuleStatusResponse,
+} from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/status.js";
+import { copyStruct, notFound, paginate, unary, type InMemoryServiceOptions, type ServiceBinding } from "./service.js";
+
+/**
+ * Options of the in-memory ModuleRegistryService
+ */
+export interface InMemoryModuleRegistryServiceOptions extends InMemoryServiceOptions {
+  /** Statuses a stream may have buffered before updates to it are coalesced, 1024 by default (and at least the stream's high water mark) */
+  maxBufferedStatuses?: number;
+}
+
+/**
+ * The ModuleRegistryService binding, with access to the modules and status streams
+ */
+export interface InMemoryModuleRegistryService extends ServiceBinding<ModuleRegistryServiceServer> {
+  /** Registered modules, in the order they were first registered */
+  modules(): DiscoverInfoResponse[];
+  /** Status of the registered modules */
+  statuses(): ModuleStatusResponse[];
+  /** Number of open GetAllModuleStatus streams */
+  subscribers(): number;
+  /** Ends the open GetAllModuleStatus streams, e.g. before shutting the server down */
+  endStreams(): void;
+  clear(): void;
+}
+
+/**
+ * An open GetAllModuleStatus stream, with the statuses waiting for it to drain
+ */
+interface Subscriber {
+  call: ServerWritableStream<GetAllModulesStatusRequest, ModuleStatusResponse>;
+  pending: Map<string, ModuleStatusResponse>;
+  draining: boolean;
+}
+
+export function createInMemoryModuleRegistryService(
+  options: InMemoryModuleRegistryServiceOptions = {}
+): InMemoryModuleRegistryService {
+  const maxBuffered = options.maxBufferedStatuses ?? 1024;
+  const modules = new Map<string, DiscoverInfoResponse>();
+  const statuses = new Map<string, ModuleStatusResponse>();
+  const subscribers = new Set<Subscriber>();
+
+  const flush = (subscriber: Subscriber) => {
+    // "drain" only follows a write past the stream's high water mark (16 messages),
+    // so a stream is not paused before it reaches that mark
+    const limit = Math.max(maxBuffered, subscriber.call.writableHighWaterMark);
+    for (const [moduleId, update] of subscriber.pending) {
+      if (subscriber.call.writableLength >= limit) {
+        subscriber.draining = true;
+        return;
+      }
+      subscriber.pending.delete(moduleId);
+      subscriber.call.write({ ...update });
+    }
+  };
+  const publish = (update: ModuleStatusResponse) => {
+    for (const subscriber of subscribers) {
+      // Re-inserted so the pending statuses stay in the order of their latest change
+      subscriber.pending.delete(update.moduleId);
+      subscriber.pending.set(update.moduleId, update);
+      if (!subscriber.draining) {
+        flush(subscriber);
+      }
+    }
+  };
+  const setStatus = (moduleId: string, status: ModuleStatus, message?: string) => {
+    const update: ModuleStatusResponse = { moduleId, status, message };
+    statuses.set(moduleId, update);
+    publish(update);
+  };
+
+  const implementation: ModuleRegistryServiceServer = {
+    registerModule: unary((request) => {
+      modules.set(request.moduleId, {
+        moduleId: request.moduleId,
+        moduleType: request.moduleType,
+        address: request.address,
+        port: request.port,
+        version: request.version,
+        metadata: copyStruct(request.metadata),
+      });
+      setStatus(request.moduleId, ModuleStatus.MODULE_STATUS_RUNNING);
+      return { success: true };
+    }),
+    deregisterModule: unary((request) => {
+      if (!modules.delete(request.moduleId)) {
+        return { success: false };
+      }
+      setStatus(request.moduleId, ModuleStatus.MODULE_STATUS_ENDED, "deregistered");
+      statuses.delete(request.moduleId);
+      return { success: true };
+    }),
+    discoverInfoModule: unary((request) => {
+      const module = modules.get(request.moduleId);
+      if (!module) {
+        throw notFound("module", request.moduleId);
+      }
+      return copyStruct(module);
+    }),
+    discoverSearchModule: unary((request) => ({
+      modules: Array.from(modules.values())
+        .filter((module) => {
+          const tags = new Set(module.metadata?.tags.map(({ tag }) => tag));
+          return (
+            (request.moduleType === undefined || module.moduleType === request.moduleType) &&
+            contains(module.metadata?.name, request.name) &&
+            contains(module.metadata?.description, request.description) &&
+            request.tags.every(({ tag }) => tags.has(tag))
+          );
+        })
+        .map(copyStruct),
+    })),
+    getModuleStatus: unary((request) => {
+      const status = statuses.get(request.moduleId);
+      if (!status) {
+        throw notFound("module", request.moduleId);
+      }
+      return { ...status };
+    }),
+    listModuleStatus: unary((request) => {
+      const page = paginate(Array.from(statuses.values()), request.offset ?? 0, request.listSize ?? 0);
+      return { listSize: page.length, modulesStatuses: page.map((status) => ({ ...status })) };
+    }),
+    getAllModuleStatus: (call) => {
+      const subscriber: Subscriber = { call, pending: new Map(statuses), draining: false };
+      const drop = () => subscribers.delete(subscriber);
+      call.on("cancelled", drop);
+      call.on("close", drop);
+      call.on("error", drop);
+      call.on("drain", () => {
+        subscriber.draining = false;
+        flush(subscriber);
+      });
+      subscribers.add(subscriber);
+      flush(subscriber);
+    },
+    updateModuleStatus: unary((request) => {
+      if (!modules.has(request.moduleId)) {
+        return { success: false };
+      }
+      setStatus(request.moduleId, request.status);
+      return { success: true };
+    }),
+  };
+
+  const endStreams = () => {
+    for (const subscriber of subscribers) {
+      subscribers.delete(subscriber);
+      subscriber.call.end();
+    }
+  };
+
+  return {
+    definition: ModuleRegistryServiceService,
+    implementation: withModuleRegistryServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    modules: () => Array.from(modules.values()).map(copyStruct),
+    statuses: () => Array.from(statuses.values()).map((status) => ({ ...status })),
+    subscribers: () => subscribers.size,
+    endStreams,
+    clear: () => {
+      endStreams();
+      modules.clear();
+      statuses.clear();
+    },
+  };
+}
+
+/**
+ * Whether a text contains a searched string, ignoring case, or nothing is searched
+ */
+function contains(text: string | undefined, searched: string | undefined): boolean {
+  return searched === undefined || (text ?? "").toLowerCase().includes(searched.toLowerCase());
+}
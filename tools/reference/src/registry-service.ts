@@ -0,0 +1,192 @@
+/**
+ * In-memory RegistryService
+ *
+ * The registry knows the modules and setups of the platform database, which
+ * tests seed with addModule and addSetup: RegisterModule only declares the
+ * endpoint of a known module, and fails with NOT_FOUND for others, or with
+ * FAILED_PRECONDITION for archived ones.
+ *
+ * A registered module is MODULE_STATUS_ACTIVE until no heartbeat renewed its
+ * registration for `heartbeatTtlMs`, and MODULE_STATUS_READY (offline) from
+ * then on. Liveness is evaluated against the clock on every call, so tests
+ * can expire modules with a fake `now`. Heartbeats only renew a live
+ * registration: an expired or forgotten module is told it is READY and has to
+ * register again.
+ *
+ * Discovery matches each filter that is set: the organization, any of the
+ * module types, statuses and visibilities, the modules of the setups, and the
+ * query as a case-insensitive substring of the name or documentation. The
+ * discovery requests carry no owner, so ownership is only matched through the
+ * organization. Results are in the order the descriptors were added.
+ */
+
+import { status } from "@grpc/grpc-js";
+import { ModuleStatus } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_enums.js";
+import type {
+  ModuleDescriptor,
+  SetupDescriptor,
+} from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models.js";
+import {
+  RegistryServiceService,
+  type RegistryServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service.js";
+import { withRegistryServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service_server.js";
+import {
+  copyStruct,
+  notFound,
+  paginate,
+  ServiceStatusError,
+  unary,
+  type InMemoryServiceOptions,
+  type ServiceBinding,
+} from "./service.js";
+
+/**
+ * Options of the in-memory RegistryService
+ */
+export interface InMemoryRegistryServiceOptions extends InMemoryServiceOptions {
+  /** Time after the last heartbeat (or registration) after which a module is offline, 30s by default */
+  heartbeatTtlMs?: number;
+}
+
+/**
+ * The RegistryService binding, with the modules and setups it knows
+ */
+export interface InMemoryRegistryService extends ServiceBinding<RegistryServiceServer> {
+  /** Adds or replaces a module of the platform database, not registered yet */
+  addModule(module: ModuleDescriptor): void;
+  /** Adds or replaces a setup of a known module, whose descriptor is resolved on responses */
+  addSetup(setup: Omit<SetupDescriptor, "module">): void;
+  /** Modules with their current status */
+  modules(): ModuleDescriptor[];
+  /** Whether a module is registered and its registration has not expired */
+  isLive(moduleId: string): boolean;
+  /** Drops the registration of a module, as a registry restart would */
+  forget(moduleId: string): void;
+  clear(): void;
+}
+
+/**
+ * A known module, with the time its registration expires when registered
+ */
+interface StoredModule {
+  module: ModuleDescriptor;
+  expiresAt?: number;
+}
+
+export function createInMemoryRegistryService(options: InMemoryRegistryServiceOptions = {}): InMemoryRegistryService {
+  const now = options.now ?? (() => new Date());
+  const ttl = options.heartbeatTtlMs ?? 30_000;
+  const modules = new Map<string, StoredModule>();
+  const setups = new Map<string, Omit<SetupDescriptor, "module">>();
+
+  const getModule = (moduleId: string) => {
+    const stored = modules.get(moduleId);
+    if (!stored) {
+      throw notFound("module", moduleId);
+    }
+    return stored;
+  };
+  const isLive = (stored: StoredModule) => stored.expiresAt !== undefined && now().getTime() < stored.expiresAt;
+  const statusOf = (stored: StoredModule) => {
+    if (stored.module.status === ModuleStatus.MODULE_STATUS_ARCHIVED) {
+      return ModuleStatus.MODULE_STATUS_ARCHIVED;
+    }
+    return isLive(stored) ? ModuleStatus.MODULE_STATUS_ACTIVE : ModuleStatus.MODULE_STATUS_READY;
+  };
+  const toModule = (stored: StoredModule): ModuleDescriptor => ({ ...copyStruct(stored.module), status: statusOf(stored) });
+  const toSetup = (setup: Omit<SetupDescriptor, "module">): SetupDescriptor => ({
+    ...copyStruct(setup),
+    module: toModule(getModule(setup.moduleId)),
+  });
+
+  const implementation: RegistryServiceServer = {
+    registerModule: unary((request) => {
+      const stored = getModule(request.moduleId);
+      if (stored.module.status === ModuleStatus.MODULE_STATUS_ARCHIVED) {
+        throw new ServiceStatusError(status.FAILED_PRECONDITION, `module ${JSON.stringify(request.moduleId)} is archived`);
+      }
+      const date = now();
+      stored.module = { ...stored.module, address: request.address, port: request.port, version: request.version, updatedAt: date };
+      stored.expiresAt = date.getTime() + ttl;
+      return { module: toModule(stored) };
+    }),
+    heartbeat: unary((request) => {
+      const stored = getModule(request.moduleId);
+      if (isLive(stored)) {
+        stored.expiresAt = now().getTime() + ttl;
+      }
+      return { status: statusOf(stored) };
+    }),
+    discoverSetups: unary((request) => {
+      const matching = Array.from(setups.values()).filter((setup) => {
+        const module = modules.get(setup.moduleId)?.module;
+        return (
+          (!request.organizationId || setup.organizationId === request.organizationId) &&
+          (request.visibility.length === 0 || request.visibility.includes(setup.visibility)) &&
+          (request.status.length === 0 || request.status.includes(setup.status)) &&
+          (request.moduleTypes.length === 0 || (module !== undefined && request.moduleTypes.includes(module.moduleType))) &&
+          (request.moduleIds.length === 0 || request.moduleIds.includes(setup.moduleId)) &&
+          matchesQuery(setup, request.query)
+        );
+      });
+      return { setups: paginate(matching, request.offset, request.limit).map(toSetup) };
+    }),
+    discoverModules: unary((request) => {
+      const matching = Array.from(modules.values()).filter((stored) => {
+        const { module } = stored;
+        return (
+          (!request.organizationId || module.organizationId === request.organizationId) &&
+          (request.moduleTypes.length === 0 || request.moduleTypes.includes(module.moduleType)) &&
+          (request.status.length === 0 || request.status.includes(statusOf(stored))) &&
+          (request.visibility.length === 0 || request.visibility.includes(module.visibility)) &&
+          matchesQuery(module, request.query)
+        );
+      });
+      return { modules: paginate(matching, request.offset, request.limit).map(toModule) };
+    }),
+    getSetup: unary((request) => {
+      const setup = setups.get(request.setupId);
+      if (!setup) {
+        throw notFound("setup", request.setupId);
+      }
+      return toSetup(setup);
+    }),
+    getModule: unary((request) => toModule(getModule(request.moduleId))),
+  };
+
+  return {
+    definition: RegistryServiceService,
+    implementation: withRegistryServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    addModule: (module) => {
+      modules.set(module.id, { module: copyStruct(module), expiresAt: modules.get(module.id)?.expiresAt });
+    },
+    addSetup: (setup) => {
+      getModule(setup.moduleId);
+      setups.set(setup.id, copyStruct(setup));
+    },
+    modules: () => Array.from(modules.values()).map(toModule),
+    isLive: (moduleId) => {
+      const stored = modules.get(moduleId);
+      return stored !== undefined && isLive(stored);
+    },
+    forget: (moduleId) => {
+      const stored = modules.get(moduleId);
+      if (stored) {
+        stored.expiresAt = undefined;
+      }
+    },
+    clear: () => {
+      modules.clear();
+      setups.clear();
+    },
+  };
+}
+
+/**
+ * Whether a descriptor's name or documentation contains the query, ignoring case
+ */
+function matchesQuery(descriptor: { name: string; documentation: string }, query: string): boolean {
+  const needle = query.toLowerCase();
+  return descriptor.name.toLowerCase().includes(needle) || descriptor.documentation.toLowerCase().includes(needle);
+}
@@ -0,0 +1,101 @@
+/**
+ * Boots in-memory services on a grpc-js Server
+ *
+ * `startServer` listens on a local TCP port (a free one by default), and
+ * `startInProcessServer` on a Unix socket of a temporary directory, which
+ * clients of the same process (or machine) reach without taking a port:
+ *
+ *   const server = await startInProcessServer([createInMemoryStorageService()]);
+ *   const client = new StorageServiceClient(server.address, credentials.createInsecure());
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Server, ServerCredentials } from "@grpc/grpc-js";
+import type { ServiceBinding } from "./service.js";
+
+export interface StartServerOptions {
+  /** Host to listen on, 127.0.0.1 by default */
+  host?: string;
+  /** Port to listen on, a free port by default */
+  port?: number;
+}
+
+/**
+ * A started server and the address its clients connect to
+ */
+export interface StartedServer {
+  server: Server;
+  /** Target of the clients, e.g. "127.0.0.1:50051" or "unix:/tmp/.../grpc.sock" */
+  address: string;
+  /** Shuts the server down, cancelling the calls in progress after the grace period */
+  close(gracePeriodMs?: number): Promise<void>;
+}
+
+/**
+ * Starts a server of the services on a local TCP port
+ */
+export async function startServer(
+  services: readonly ServiceBinding[],
+  options: StartServerOptions = {}
+): Promise<StartedServer> {
+  const host = options.host ?? "127.0.0.1";
+  const server = createServer(services);
+  const port = await bind(server, `${host}:${options.port ?? 0}`);
+  return {
+    server,
+    address: `${host.includes(":") ? `[${host}]` : host}:${port}`,
+    close: (gracePeriodMs) => shutdown(server, gracePeriodMs),
+  };
+}
+
+/**
+ * Starts a server of the services on a Unix socket, removed when the server is closed
+ */
+export async function startInProcessServer(services: readonly ServiceBinding[]): Promise<StartedServer> {
+  const dir = await mkdtemp(join(tmpdir(), "amp-reference-"));
+  const address = `unix:${join(dir, "grpc.sock")}`;
+  const server = createServer(services);
+  try {
+    await bind(server, address);
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+  return {
+    server,
+    address,
+    close: async (gracePeriodMs) => {
+      await shutdown(server, gracePeriodMs);
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+function createServer(services: readonly ServiceBinding[]): Server {
+  const server = new Server();
+  for (const { definition, implementation } of services) {
+    server.addService(definition, implementation);
+  }
+  return server;
+}
+
+function bind(server: Server, address: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.bindAsync(address, ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+  });
+}
+
+/**
+ * Waits for the calls in progress to end, for at most the grace period (1s by default)
+ */
+function shutdown(server: Server, gracePeriodMs = 1000): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => server.forceShutdown(), gracePeriodMs);
+    server.tryShutdown(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
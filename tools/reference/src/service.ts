@@ -0,0 +1,41 @@
+/**
+ * Plumbing shared by the in-memory services
+ *
+ * Handlers are written with the service plumbing of the runtime package
+ * (unary, ServiceStatusError, ...), re-exported here. The services are
+ * wrapped with the generated `with<Service>Validation` wrappers, so handlers
+ * only receive requests that pass the `*RequestSchema` of their rpc.
+ */
+
+export {
+  alreadyExists,
+  notFound,
+  ServiceStatusError,
+  toStatus,
+  unary,
+  type ServiceBinding,
+} from "../../runtime/src/index.js";
+
+/**
+ * Options of the in-memory services
+ */
+export interface InMemoryServiceOptions {
+  /** Clock of the creation and update dates, for reproducible tests */
+  now?: () => Date;
+  /** Whether to validate the responses as well, with their generated schemas */
+  validateResponses?: boolean;
+}
+
+/**
+ * Items of a page, all of them from the offset when the limit is 0
+ */
+export function paginate<T>(items: readonly T[], offset: number, limit: number): T[] {
+  return items.slice(offset, limit > 0 ? offset + limit : undefined);
+}
+
+/**
+ * Copy of a Struct (or any JSON value), so stored values do not alias the requests
+ */
+export function copyStruct<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,217 @@
+/**
+ * In-memory SetupService
+ *
+ * Setups get `setups:<uuid>` ids, and the versions CreateSetupVersion creates
+ * `setup_versions:<uuid>` ids. Version labels are unique within a setup
+ * (ALREADY_EXISTS otherwise), and versions are listed in the order they
+ * were created.
+ *
+ * A setup's current version is embedded in it as it is at the time of the
+ * response. CreateSetup and UpdateSetup take a current_setup_version: an
+ * existing version of the setup, or a new version stored with its id, label
+ * and content. The first version of a setup becomes its current version,
+ * and deleting the current version leaves the setup without one. GetSetup
+ * returns the current version, or the version whose id or label is given.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Setup, SetupVersion } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup.js";
+import { SetupServiceService, type SetupServiceServer } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup_service.js";
+import { withSetupServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup_service_server.js";
+import {
+  alreadyExists,
+  copyStruct,
+  notFound,
+  paginate,
+  unary,
+  type InMemoryServiceOptions,
+  type ServiceBinding,
+} from "./service.js";
+
+/**
+ * A stored setup, referencing its current version by id
+ */
+interface StoredSetup {
+  setup: Omit<Setup, "currentSetupVersion">;
+  currentVersionId?: string;
+}
+
+/**
+ * The SetupService binding, with access to the stored setups and versions
+ */
+export interface InMemorySetupService extends ServiceBinding<SetupServiceServer> {
+  setups(): Setup[];
+  setupVersions(): SetupVersion[];
+  clear(): void;
+}
+
+export function createInMemorySetupService(options: InMemoryServiceOptions = {}): InMemorySetupService {
+  const now = options.now ?? (() => new Date());
+  const setups = new Map<string, StoredSetup>();
+  const versions = new Map<string, SetupVersion>();
+
+  const getSetup = (setupId: string) => {
+    const stored = setups.get(setupId);
+    if (!stored) {
+      throw notFound("setup", setupId);
+    }
+    return stored;
+  };
+  const getVersion = (setupVersionId: string) => {
+    const version = versions.get(setupVersionId);
+    if (!version) {
+      throw notFound("setup version", setupVersionId);
+    }
+    return version;
+  };
+  const versionsOf = (setupId: string) => Array.from(versions.values()).filter((version) => version.setupId === setupId);
+  const toSetup = ({ setup, currentVersionId }: StoredSetup): Setup => ({
+    ...setup,
+    currentSetupVersion: currentVersionId ? copyStruct(versions.get(currentVersionId)) : undefined,
+  });
+
+  const checkNewVersion = (setupId: string, label: string, id?: string) => {
+    if (id && versions.has(id)) {
+      throw alreadyExists("setup version", id);
+    }
+    if (versionsOf(setupId).some((version) => version.version === label)) {
+      throw alreadyExists("setup version", `${setupId}@${label}`);
+    }
+  };
+  const createVersion = (setupId: string, label: string, content: SetupVersion["content"], id?: string) => {
+    checkNewVersion(setupId, label, id);
+    const version: SetupVersion = {
+      id: id || `setup_versions:${randomUUID()}`,
+      setupId,
+      version: label,
+      content: copyStruct(content ?? {}),
+      creationDate: now(),
+    };
+    versions.set(version.id, version);
+    const stored = setups.get(setupId)!;
+    stored.currentVersionId ??= version.id;
+    return version;
+  };
+
+  /**
+   * Checks that setCurrentVersion can make a version current, before the setup is written
+   */
+  const checkCurrentVersion = (setupId: string, version: SetupVersion) => {
+    const existing = versions.get(version.id);
+    if (!existing) {
+      checkNewVersion(setupId, version.version, version.id);
+    } else if (existing.setupId !== setupId) {
+      throw alreadyExists("setup version", version.id);
+    }
+  };
+  /**
+   * Makes a version of the setup current: an existing one, or a new one stored with its id
+   */
+  const setCurrentVersion = (stored: StoredSetup, version: SetupVersion) => {
+    stored.currentVersionId = (versions.get(version.id) ?? createVersion(stored.setup.id, version.version, version.content, version.id)).id;
+  };
+
+  const implementation: SetupServiceServer = {
+    createSetup: unary((request) => {
+      const stored: StoredSetup = {
+        setup: {
+          id: `setups:${randomUUID()}`,
+          name: request.name,
+          organisationId: request.organisationId,
+          ownerId: request.ownerId,
+          moduleId: request.moduleId,
+          status: request.status,
+        },
+      };
+      if (request.currentSetupVersion) {
+        checkCurrentVersion(stored.setup.id, request.currentSetupVersion);
+      }
+      setups.set(stored.setup.id, stored);
+      if (request.currentSetupVersion) {
+        setCurrentVersion(stored, request.currentSetupVersion);
+      }
+      return { success: true, setup: toSetup(stored) };
+    }),
+    getSetup: unary((request) => {
+      const stored = getSetup(request.setupId);
+      if (request.version === undefined) {
+        return { setup: toSetup(stored), setupVersion: copyStruct(stored.currentVersionId ? versions.get(stored.currentVersionId) : undefined) };
+      }
+      const version = versionsOf(stored.setup.id).find(({ id, version }) => id === request.version || version === request.version);
+      if (!version) {
+        throw notFound("setup version", `${request.setupId}@${request.version}`);
+      }
+      return { setup: toSetup(stored), setupVersion: copyStruct(version) };
+    }),
+    updateSetup: unary((request) => {
+      const stored = getSetup(request.setupId);
+      if (request.currentSetupVersion) {
+        checkCurrentVersion(stored.setup.id, request.currentSetupVersion);
+      }
+      stored.setup.name = request.name;
+      stored.setup.status = request.status;
+      if (request.ownerId) {
+        stored.setup.ownerId = request.ownerId;
+      }
+      if (request.currentSetupVersion) {
+        setCurrentVersion(stored, request.currentSetupVersion);
+      }
+      return { success: true, setup: toSetup(stored) };
+    }),
+    deleteSetup: unary((request) => {
+      getSetup(request.setupId);
+      for (const version of versionsOf(request.setupId)) {
+        versions.delete(version.id);
+      }
+      setups.delete(request.setupId);
+      return { success: true };
+    }),
+    createSetupVersion: unary((request) => {
+      getSetup(request.setupId);
+      return { success: true, setupVersion: copyStruct(createVersion(request.setupId, request.version, request.content)) };
+    }),
+    getSetupVersion: unary((request) => ({ setupVersion: copyStruct(getVersion(request.setupVersionId)) })),
+    searchSetupVersions: unary((request) => ({
+      setupVersions: Array.from(versions.values())
+        .filter((version) => (!request.setupId || version.setupId === request.setupId) &&
+          (request.version === undefined || version.version === request.version))
+        .map(copyStruct),
+    })),
+    updateSetupVersion: unary((request) => {
+      const version = getVersion(request.setupVersionId);
+      const taken = versionsOf(version.setupId).some((other) => other.id !== version.id && other.version === request.version);
+      if (taken) {
+        throw alreadyExists("setup version", `${version.setupId}@${request.version}`);
+      }
+      version.version = request.version;
+      version.content = copyStruct(request.content);
+      return { success: true, setupVersion: copyStruct(version) };
+    }),
+    deleteSetupVersion: unary((request) => {
+      const version = getVersion(request.setupVersionId);
+      versions.delete(version.id);
+      const stored = setups.get(version.setupId);
+      if (stored?.currentVersionId === version.id) {
+        stored.currentVersionId = undefined;
+      }
+      return { success: true };
+    }),
+    listSetups: unary((request) => {
+      const matching = Array.from(setups.values()).filter(({ setup }) =>
+        (request.organisationId === undefined || setup.organisationId === request.organisationId) &&
+        (request.ownerId === undefined || setup.ownerId === request.ownerId));
+      return { setups: paginate(matching, request.offset, request.limit).map(toSetup), totalCount: matching.length };
+    }),
+  };
+
+  return {
+    definition: SetupServiceService,
+    implementation: withSetupServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    setups: () => Array.from(setups.values()).map(toSetup),
+    setupVersions: () => Array.from(versions.values()).map(copyStruct),
+    clear: () => {
+      setups.clear();
+      versions.clear();
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * In-memory StorageService
+ *
+ * Records are keyed by mission, collection and record id. StoreRecord upserts:
+ * storing an existing record replaces its data and type and keeps its creation
+ * date. ReadRecord and UpdateRecord fail with NOT_FOUND for a missing record,
+ * while RemoveRecord and RemoveCollection report whether anything was removed
+ * in `success`. ListRecords lists a collection in the order its records were
+ * first stored.
+ */
+
+import type { StorageRecord } from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/data.js";
+import {
+  StorageServiceService,
+  type StorageServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/storage_service.js";
+import { withStorageServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/storage_service_server.js";
+import { copyStruct, notFound, unary, type InMemoryServiceOptions, type ServiceBinding } from "./service.js";
+
+/**
+ * The StorageService binding, with access to the stored records
+ */
+export interface InMemoryStorageService extends ServiceBinding<StorageServiceServer> {
+  /** Records of all missions, in the order they were first stored */
+  records(): StorageRecord[];
+  clear(): void;
+}
+
+export function createInMemoryStorageService(options: InMemoryServiceOptions = {}): InMemoryStorageService {
+  const now = options.now ?? (() => new Date());
+  const records = new Map<string, StorageRecord>();
+  const keyOf = (request: { missionId: string; collection: string; recordId: string }) =>
+    JSON.stringify([request.missionId, request.collection, request.recordId]);
+  const get = (request: { missionId: string; collection: string; recordId: string }) => {
+    const record = records.get(keyOf(request));
+    if (!record) {
+      throw notFound("record", `${request.missionId}/${request.collection}/${request.recordId}`);
+    }
+    return record;
+  };
+
+  const implementation: StorageServiceServer = {
+    storeRecord: unary((request) => {
+      const date = now();
+      const existing = records.get(keyOf(request));
+      const record: StorageRecord = {
+        data: copyStruct(request.data),
+        missionId: request.missionId,
+        collection: request.collection,
+        recordId: request.recordId,
+        creationDate: existing?.creationDate ?? date,
+        updateDate: date,
+        dataType: request.dataType,
+      };
+      records.set(keyOf(request), record);
+      return { success: true, storedData: copyStruct(record) };
+    }),
+    readRecord: unary((request) => ({ success: true, storedData: copyStruct(get(request)) })),
+    updateRecord: unary((request) => {
+      const record = get(request);
+      record.data = copyStruct(request.data);
+      record.updateDate = now();
+      return { success: true, storedData: copyStruct(record) };
+    }),
+    removeRecord: unary((request) => ({ success: records.delete(keyOf(request)) })),
+    listRecords: unary((request) => ({
+      records: Array.from(records.values())
+        .filter((record) => record.missionId === request.missionId && record.collection === request.collection)
+        .map(copyStruct),
+    })),
+    removeCollection: unary((request) => {
+      let removed = false;
+      for (const [key, record] of records) {
+        if (record.missionId === request.missionId && record.collection === request.collection) {
+          records.delete(key);
+          removed = true;
+        }
+      }
+      return { success: removed };
+    }),
+  };
+
+  return {
+    definition: StorageServiceService,
+    implementation: withStorageServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    records: () => Array.from(records.values()).map(copyStruct),
+    clear: () => records.clear(),
+  };
+}
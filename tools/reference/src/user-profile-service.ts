@@ -0,0 +1,44 @@
+/**
+ * In-memory UserProfileService
+ *
+ * GetUserProfile looks profiles up by mission, as the request only carries the
+ * mission id: tests register the profile of the user behind each mission with
+ * setUserProfile. Missions without a profile fail with NOT_FOUND.
+ */
+
+import type { UserProfile } from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile.js";
+import {
+  UserProfileServiceService,
+  type UserProfileServiceServer,
+} from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile_service.js";
+import { withUserProfileServiceValidation } from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile_service_server.js";
+import { copyStruct, notFound, unary, type InMemoryServiceOptions, type ServiceBinding } from "./service.js";
+
+/**
+ * The UserProfileService binding, with the profiles of the missions
+ */
+export interface InMemoryUserProfileService extends ServiceBinding<UserProfileServiceServer> {
+  setUserProfile(missionId: string, profile: UserProfile): void;
+  clear(): void;
+}
+
+export function createInMemoryUserProfileService(options: InMemoryServiceOptions = {}): InMemoryUserProfileService {
+  const profiles = new Map<string, UserProfile>();
+
+  const implementation: UserProfileServiceServer = {
+    getUserProfile: unary((request) => {
+      const profile = profiles.get(request.missionId);
+      if (!profile) {
+        throw notFound("user profile of mission", request.missionId);
+      }
+      return { success: true, userProfile: copyStruct(profile) };
+    }),
+  };
+
+  return {
+    definition: UserProfileServiceService,
+    implementation: withUserProfileServiceValidation(implementation, { validateResponses: options.validateResponses }),
+    setUserProfile: (missionId, profile) => profiles.set(missionId, copyStruct(profile)),
+    clear: () => profiles.clear(),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Tests of the in-memory CostService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CostType, type AddCostRequest } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost.js";
+import { CostServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost_service.js";
+import { createCostServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/cost/v1/cost_service_client.js";
+import { createInMemoryCostService } from "../src/cost-service.js";
+import { serve } from "./serve.js";
+
+describe("CostService", () => {
+  const costs = createInMemoryCostService();
+  const client = serve([costs], CostServiceClient, createCostServicePromiseClient);
+  const cost = (name: string, costType: CostType, value: number, missionId = "missions:1"): AddCostRequest => ({
+    cost: value,
+    missionId,
+    name,
+    costType,
+    unit: "token",
+    rate: 0.5,
+    setupVersionId: `setup_versions:${name}`,
+    quantity: value * 2,
+  });
+
+  it("sums the costs of a name", async () => {
+    await client().addCost(cost("llm", CostType.TOKEN_INPUT, 1));
+    await client().addCost(cost("llm", CostType.TOKEN_OUTPUT, 2));
+    await client().addCost(cost("search", CostType.API_CALL, 4));
+    await client().addCost(cost("llm", CostType.TOKEN_INPUT, 8, "missions:2"));
+    const { costs: matching, totalCost } = await client().getCost({ missionId: "missions:1", name: "llm" });
+    assert.deepEqual(matching.map((entry) => entry.cost), [1, 2]);
+    assert.equal(totalCost, 3);
+  });
+
+  it("filters the costs of a mission, counting them before pagination", async () => {
+    const all = await client().getCosts({ missionId: "missions:1", offset: 0, limit: 2 });
+    assert.deepEqual(all.costs.map((entry) => entry.cost), [1, 2]);
+    assert.equal(all.totalCount, 3);
+    assert.equal(all.totalCost, 7);
+
+    const filter = { names: [], costTypes: [CostType.TOKEN_INPUT, CostType.API_CALL], setupVersionIds: [] };
+    const filtered = await client().getCosts({ missionId: "missions:1", filter, offset: 1, limit: 10 });
+    assert.deepEqual(filtered.costs.map((entry) => entry.name), ["search"]);
+    assert.equal(filtered.totalCount, 2);
+    assert.equal(filtered.totalCost, 5);
+    assert.equal(costs.costs().length, 4);
+  });
+
+  it("sets and replaces the cost configuration of a setup version", async () => {
+    const setupVersionId = "setup_versions:1";
+    assert.deepEqual(await client().getCostConfig({ setupVersionId }), { success: false, configs: [] });
+    const config = { name: "llm", costType: CostType.TOKEN_INPUT, description: "Input tokens", unit: "token", rate: 0.5 };
+    await client().setCostConfig({ setupVersionId, configs: [config, { ...config, costType: CostType.TOKEN_OUTPUT }] });
+    await client().setCostConfig({ setupVersionId, configs: [config] });
+    assert.deepEqual(await client().getCostConfig({ setupVersionId }), { success: true, configs: [config] });
+  });
+});
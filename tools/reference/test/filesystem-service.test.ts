@@ -0,0 +1,112 @@
+/**
+ * Tests of the in-memory FilesystemService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { status } from "@grpc/grpc-js";
+import {
+  FileFilter,
+  FileStatus,
+  FileType,
+  type UploadFileData,
+} from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem.js";
+import { FilesystemServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem_service.js";
+import { createFilesystemServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/filesystem/v1/filesystem_service_client.js";
+import { createInMemoryFilesystemService } from "../src/filesystem-service.js";
+import { serve } from "./serve.js";
+
+describe("FilesystemService", () => {
+  let time = 0;
+  const filesystem = createInMemoryFilesystemService({ now: () => new Date(++time * 1000) });
+  const client = serve([filesystem], FilesystemServiceClient, createFilesystemServicePromiseClient);
+  const context = "missions:1";
+  const upload = (name: string, content: string, overrides: Partial<UploadFileData> = {}): UploadFileData => ({
+    context,
+    name,
+    fileType: FileType.FILE_TYPE_DOCUMENT,
+    contentType: "text/plain",
+    content: Buffer.from(content),
+    metadata: {},
+    status: FileStatus.FILE_STATUS_ACTIVE,
+    replaceIfExists: false,
+    ...overrides,
+  });
+  const list = async (filters: Partial<FileFilter> = {}, order = "") => {
+    const response = await client().getFiles({
+      context,
+      filters: FileFilter.fromPartial({ context, ...filters }),
+      listSize: 100,
+      offset: 0,
+      order,
+      includeContent: false,
+    });
+    return response.files.map((file) => file.name);
+  };
+
+  it("uploads files, computing their size and checksum", async () => {
+    const response = await client().uploadFiles({ files: [upload("notes.txt", "hello"), upload("notes.txt", "again")] });
+    assert.equal(response.totalUploaded, 1);
+    assert.equal(response.totalFailed, 1);
+    const file = response.results[0].file!;
+    assert.match(file.fileId, /^files:/);
+    assert.equal(file.sizeBytes, "5");
+    assert.equal(file.checksum, createHash("sha256").update("hello").digest("hex"));
+    assert.equal(file.content.length, 0);
+    assert.match(response.results[1].error ?? "", /already exists/);
+
+    const { content } = await client().getFile({ context, fileId: file.fileId, includeContent: true });
+    assert.equal(Buffer.from(content).toString(), "hello");
+  });
+
+  it("replaces a file of the same name when asked to, keeping its id", async () => {
+    const [before] = filesystem.files();
+    const response = await client().uploadFiles({ files: [upload("notes.txt", "replaced", { replaceIfExists: true })] });
+    assert.equal(response.results[0].file?.fileId, before.fileId);
+    assert.equal(response.results[0].file?.sizeBytes, "8");
+  });
+
+  it("updates a file, reporting failures in the result", async () => {
+    await client().uploadFiles({ files: [upload("image.png", "png", { fileType: FileType.FILE_TYPE_IMAGE, contentType: "image/png" })] });
+    const [notes] = filesystem.files();
+    const request = {
+      context,
+      fileId: notes.fileId,
+      fileType: FileType.FILE_TYPE_DOCUMENT,
+      contentType: "text/plain",
+      content: Buffer.alloc(0),
+      status: FileStatus.FILE_STATUS_ACTIVE,
+    };
+    const taken = await client().updateFile({ ...request, newName: "image.png" });
+    assert.match(taken.result?.error ?? "", /already exists/);
+    const missing = await client().updateFile({ ...request, fileId: "files:missing", newName: "missing.txt" });
+    assert.match(missing.result?.error ?? "", /not found/);
+
+    const renamed = await client().updateFile({ ...request, newName: "renamed.txt", metadata: { tag: "a" } });
+    assert.equal(renamed.result?.file?.name, "renamed.txt");
+    assert.deepEqual(renamed.result?.file?.metadata, { tag: "a" });
+  });
+
+  it("filters and orders the files of a context", async () => {
+    assert.deepEqual(await list(), ["renamed.txt", "image.png"]);
+    assert.deepEqual(await list({}, "name"), ["image.png", "renamed.txt"]);
+    assert.deepEqual(await list({}, "-size_bytes"), ["renamed.txt", "image.png"]);
+    assert.deepEqual(await list({ contentTypePrefix: "image/" }), ["image.png"]);
+    assert.deepEqual(await list({ fileTypes: [FileType.FILE_TYPE_DOCUMENT] }), ["renamed.txt"]);
+    await assert.rejects(list({}, "color"), { code: status.INVALID_ARGUMENT });
+  });
+
+  it("soft-deletes files unless permanent, sparing files in use unless forced", async () => {
+    await client().uploadFiles({ files: [upload("draft.txt", "wip", { status: FileStatus.FILE_STATUS_UPLOADING })] });
+    const deleted = await client().deleteFiles({ context, filters: FileFilter.fromPartial({ context, names: ["image.png", "draft.txt"] }), force: false, permanent: false });
+    assert.equal(deleted.totalDeleted, 1);
+    assert.equal(deleted.totalFailed, 1);
+    assert.deepEqual(await list(), ["renamed.txt", "draft.txt"]);
+    assert.deepEqual(await list({ status: FileStatus.FILE_STATUS_DELETED }), ["image.png"]);
+
+    const forced = await client().deleteFiles({ context, filters: FileFilter.fromPartial({ context, names: ["draft.txt"] }), force: true, permanent: true });
+    assert.equal(forced.totalDeleted, 1);
+    assert.ok(!filesystem.files().some((file) => file.name === "draft.txt"));
+  });
+});
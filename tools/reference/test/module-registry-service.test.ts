@@ -0,0 +1,121 @@
+/**
+ * Tests of the in-memory ModuleRegistryService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { status } from "@grpc/grpc-js";
+import { ModuleRegistryServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/module_registry_service.js";
+import {
+  createModuleRegistryServicePromiseClient,
+  type ModuleRegistryServicePromiseClient,
+} from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/module_registry_service_client.js";
+import { ModuleStatus } from "../../../gen/typescript/agentic_mesh_protocol/module_registry/v1/status.js";
+import { createInMemoryModuleRegistryService } from "../src/module-registry-service.js";
+import { serve } from "./serve.js";
+
+const register = (client: ModuleRegistryServicePromiseClient, moduleId: string, tags: string[] = []) =>
+  client.registerModule({
+    moduleId,
+    moduleType: "tool",
+    address: "127.0.0.1",
+    port: 50051,
+    version: "1.0.0",
+    metadata: { name: `Module ${moduleId}`, tags: tags.map((tag) => ({ tag })), description: "Answers questions" },
+  });
+
+/**
+ * Reads a GetAllModuleStatus stream until aborted, keeping the latest status of each module
+ */
+function watchStatuses(client: ModuleRegistryServicePromiseClient, signal: AbortSignal) {
+  const latest = new Map<string, ModuleStatus>();
+  const done = (async () => {
+    try {
+      for await (const update of client.getAllModuleStatus({}, { signal })) {
+        latest.set(update.moduleId, update.status);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw error;
+      }
+    }
+  })();
+  return { latest, done };
+}
+
+async function until(condition: () => boolean, timeoutMs = 5_000) {
+  for (const start = Date.now(); !condition(); await delay(10)) {
+    assert.ok(Date.now() - start < timeoutMs, "timed out");
+  }
+}
+
+describe("ModuleRegistryService", () => {
+  const registry = createInMemoryModuleRegistryService();
+  const client = serve([registry], ModuleRegistryServiceClient, createModuleRegistryServicePromiseClient);
+
+  it("registers, discovers and deregisters modules", async () => {
+    await register(client(), "modules:a", ["search", "web"]);
+    await register(client(), "modules:b", ["search"]);
+    assert.equal((await client().discoverInfoModule({ moduleId: "modules:a" })).metadata?.name, "Module modules:a");
+    const search = { moduleType: "tool", name: "MODULE", description: "questions" };
+    assert.equal((await client().discoverSearchModule({ ...search, tags: [] })).modules.length, 2);
+    const tagged = await client().discoverSearchModule({ ...search, tags: [{ tag: "web" }, { tag: "search" }] });
+    assert.deepEqual(tagged.modules.map((module) => module.moduleId), ["modules:a"]);
+    assert.deepEqual((await client().discoverSearchModule({ ...search, moduleType: "kin", tags: [] })).modules, []);
+
+    assert.equal((await client().getModuleStatus({ moduleId: "modules:a" })).status, ModuleStatus.MODULE_STATUS_RUNNING);
+    assert.equal((await client().deregisterModule({ moduleId: "modules:a" })).success, true);
+    assert.equal((await client().deregisterModule({ moduleId: "modules:a" })).success, false);
+    await assert.rejects(client().discoverInfoModule({ moduleId: "modules:a" }), { code: status.NOT_FOUND });
+    assert.equal((await client().updateModuleStatus({ moduleId: "modules:a", status: ModuleStatus.MODULE_STATUS_IDLE })).success, false);
+  });
+
+  it("streams the current statuses, then each change", async () => {
+    const controller = new AbortController();
+    const { latest, done } = watchStatuses(client(), controller.signal);
+    await until(() => latest.get("modules:b") === ModuleStatus.MODULE_STATUS_RUNNING);
+    assert.equal(registry.subscribers(), 1);
+
+    await client().updateModuleStatus({ moduleId: "modules:b", status: ModuleStatus.MODULE_STATUS_IDLE });
+    await until(() => latest.get("modules:b") === ModuleStatus.MODULE_STATUS_IDLE);
+    await client().deregisterModule({ moduleId: "modules:b" });
+    await until(() => latest.get("modules:b") === ModuleStatus.MODULE_STATUS_ENDED);
+
+    controller.abort();
+    await done;
+    await until(() => registry.subscribers() === 0);
+  });
+});
+
+describe("ModuleRegistryService with maxBufferedStatuses", () => {
+  // Below the high water mark of the streams (16 messages)
+  const registry = createInMemoryModuleRegistryService({ maxBufferedStatuses: 1 });
+  const client = serve([registry], ModuleRegistryServiceClient, createModuleRegistryServicePromiseClient);
+  const moduleIds = ["modules:1", "modules:2", "modules:3", "modules:4"];
+
+  it("keeps streaming through a burst of changes, ending on the latest status of each module", async () => {
+    for (const moduleId of moduleIds) {
+      await register(client(), moduleId);
+    }
+    const controller = new AbortController();
+    const { latest, done } = watchStatuses(client(), controller.signal);
+    await until(() => moduleIds.every((moduleId) => latest.has(moduleId)));
+
+    const statuses = [ModuleStatus.MODULE_STATUS_IDLE, ModuleStatus.MODULE_STATUS_RUNNING];
+    await Promise.all(
+      Array.from({ length: 50 }, (_, round) =>
+        moduleIds.map((moduleId) => client().updateModuleStatus({ moduleId, status: statuses[round % 2] }))
+      ).flat()
+    );
+    await client().updateModuleStatus({ moduleId: "modules:1", status: ModuleStatus.MODULE_STATUS_IDLE });
+    await until(() =>
+      moduleIds.every((moduleId) => latest.get(moduleId) === registry.statuses().find((entry) => entry.moduleId === moduleId)?.status)
+    );
+    assert.equal(latest.get("modules:1"), ModuleStatus.MODULE_STATUS_IDLE);
+
+    registry.endStreams();
+    await done;
+    controller.abort();
+  });
+});
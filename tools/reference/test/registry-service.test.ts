@@ -0,0 +1,105 @@
+/**
+ * Tests of the in-memory RegistryService: registration, heartbeat TTL and liveness
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { status } from "@grpc/grpc-js";
+import {
+  ModuleStatus,
+  ModuleType,
+  Visibility,
+} from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_enums.js";
+import { ModuleDescriptor } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_models.js";
+import { RegistryServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service.js";
+import { createRegistryServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/registry/v1/registry_service_client.js";
+import { createInMemoryRegistryService } from "../src/registry-service.js";
+import { serve } from "./serve.js";
+
+describe("RegistryService", () => {
+  let time = 0;
+  const registry = createInMemoryRegistryService({ now: () => new Date(time), heartbeatTtlMs: 1_000 });
+  const client = serve([registry], RegistryServiceClient, createRegistryServicePromiseClient);
+  const addModule = (id: string, overrides: Partial<ModuleDescriptor> = {}) =>
+    registry.addModule(
+      ModuleDescriptor.fromPartial({
+        id,
+        name: `Module ${id}`,
+        moduleType: ModuleType.MODULE_TYPE_TOOL,
+        status: ModuleStatus.MODULE_STATUS_READY,
+        visibility: Visibility.VISIBILITY_PUBLIC,
+        organizationId: "organizations:1",
+        ...overrides,
+      })
+    );
+  const register = (moduleId: string) => client().registerModule({ moduleId, address: "127.0.0.1", port: 50051, version: "1.0.0" });
+  const heartbeat = async (moduleId: string) => (await client().heartbeat({ moduleId })).status;
+  const discover = async (moduleStatus: ModuleStatus) => {
+    const { modules } = await client().discoverModules({
+      organizationId: "organizations:1",
+      moduleTypes: [],
+      status: [moduleStatus],
+      visibility: [],
+      query: "module",
+      limit: 100,
+      offset: 0,
+    });
+    return modules.map((module) => module.id);
+  };
+
+  it("registers known modules only, refusing archived ones", async () => {
+    addModule("modules:a");
+    addModule("modules:archived", { status: ModuleStatus.MODULE_STATUS_ARCHIVED });
+    await assert.rejects(register("modules:unknown"), { code: status.NOT_FOUND });
+    await assert.rejects(register("modules:archived"), { code: status.FAILED_PRECONDITION });
+
+    const { module } = await register("modules:a");
+    assert.equal(module?.status, ModuleStatus.MODULE_STATUS_ACTIVE);
+    assert.equal(module?.address, "127.0.0.1");
+    assert.deepEqual(module?.updatedAt, new Date(time));
+    assert.equal((await client().getModule({ moduleId: "modules:archived" })).status, ModuleStatus.MODULE_STATUS_ARCHIVED);
+  });
+
+  it("keeps a module live while heartbeats arrive within the TTL", async () => {
+    for (let i = 0; i < 3; i++) {
+      time += 900;
+      assert.equal(await heartbeat("modules:a"), ModuleStatus.MODULE_STATUS_ACTIVE);
+    }
+    assert.ok(registry.isLive("modules:a"));
+    assert.deepEqual(await discover(ModuleStatus.MODULE_STATUS_ACTIVE), ["modules:a"]);
+  });
+
+  it("takes a module offline once the TTL has passed, until it registers again", async () => {
+    time += 1_000;
+    assert.ok(!registry.isLive("modules:a"));
+    assert.equal((await client().getModule({ moduleId: "modules:a" })).status, ModuleStatus.MODULE_STATUS_READY);
+    assert.deepEqual(await discover(ModuleStatus.MODULE_STATUS_ACTIVE), []);
+    assert.deepEqual(await discover(ModuleStatus.MODULE_STATUS_READY), ["modules:a"]);
+
+    // A late heartbeat does not revive the registration
+    assert.equal(await heartbeat("modules:a"), ModuleStatus.MODULE_STATUS_READY);
+    time += 1;
+    assert.ok(!registry.isLive("modules:a"));
+
+    await register("modules:a");
+    assert.equal(await heartbeat("modules:a"), ModuleStatus.MODULE_STATUS_ACTIVE);
+  });
+
+  it("tells a forgotten module to register again", async () => {
+    registry.forget("modules:a");
+    assert.equal(await heartbeat("modules:a"), ModuleStatus.MODULE_STATUS_READY);
+    await assert.rejects(heartbeat("modules:unknown"), { code: status.NOT_FOUND });
+
+    await register("modules:a");
+    assert.ok(registry.isLive("modules:a"));
+  });
+
+  it("keeps the registration of a module added again", async () => {
+    addModule("modules:a", { name: "Renamed module" });
+    assert.ok(registry.isLive("modules:a"));
+    assert.deepEqual(
+      registry.modules().map((module) => [module.id, module.status]),
+      [["modules:a", ModuleStatus.MODULE_STATUS_ACTIVE], ["modules:archived", ModuleStatus.MODULE_STATUS_ARCHIVED]]
+    );
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Serves in-memory services for the tests of a describe block
+ *
+ *   const client = serve([storage], StorageServiceClient, createStorageServicePromiseClient);
+ *   it("...", async () => { await client().readRecord(...); });
+ */
+
+import { after, before } from "node:test";
+import { credentials, type ChannelCredentials, type Client } from "@grpc/grpc-js";
+import { startInProcessServer, type StartedServer } from "../src/server.js";
+import type { ServiceBinding } from "../src/service.js";
+
+export function serve<GrpcClient extends Client, PromiseClient>(
+  services: readonly ServiceBinding[],
+  ClientClass: new (address: string, channelCredentials: ChannelCredentials) => GrpcClient,
+  createPromiseClient: (client: GrpcClient) => PromiseClient
+): () => PromiseClient {
+  let server: StartedServer | undefined;
+  let grpcClient: GrpcClient | undefined;
+  let client: PromiseClient | undefined;
+  before(async () => {
+    server = await startInProcessServer(services);
+    grpcClient = new ClientClass(server.address, credentials.createInsecure());
+    client = createPromiseClient(grpcClient);
+  });
+  after(async () => {
+    grpcClient?.close();
+    await server?.close();
+  });
+  return () => client!;
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests of the in-memory SetupService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { status } from "@grpc/grpc-js";
+import { SetupStatus, type SetupVersion } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup.js";
+import { SetupServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup_service.js";
+import { createSetupServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/setup/v1/setup_service_client.js";
+import { createInMemorySetupService } from "../src/setup-service.js";
+import { serve } from "./serve.js";
+
+describe("SetupService", () => {
+  const setups = createInMemorySetupService();
+  const client = serve([setups], SetupServiceClient, createSetupServicePromiseClient);
+  const newSetup = (name: string, currentSetupVersion?: SetupVersion) => ({
+    name,
+    organisationId: "organizations:1",
+    ownerId: "users:1",
+    moduleId: "modules:1",
+    status: SetupStatus.DRAFT,
+    currentSetupVersion,
+  });
+  const newVersion = (version: string, content: { [key: string]: unknown } = {}, id = ""): SetupVersion => ({
+    id,
+    setupId: "",
+    version,
+    content,
+  });
+
+  it("creates a setup with its current version", async () => {
+    const { setup } = await client().createSetup(newSetup("first", newVersion("v1", { model: "a" })));
+    assert.match(setup!.id, /^setups:/);
+    assert.match(setup!.currentSetupVersion!.id, /^setup_versions:/);
+    assert.equal(setup!.currentSetupVersion!.setupId, setup!.id);
+    assert.deepEqual(setup!.currentSetupVersion!.content, { model: "a" });
+  });
+
+  it("makes the first version of a setup current, and returns versions by id or label", async () => {
+    const { setup } = await client().createSetup(newSetup("versions"));
+    assert.equal(setup!.currentSetupVersion, undefined);
+    const v1 = (await client().createSetupVersion({ setupId: setup!.id, version: "v1", content: { n: 1 } })).setupVersion!;
+    const v2 = (await client().createSetupVersion({ setupId: setup!.id, version: "v2", content: { n: 2 } })).setupVersion!;
+    assert.equal((await client().getSetup({ setupId: setup!.id })).setupVersion?.id, v1.id);
+    assert.equal((await client().getSetup({ setupId: setup!.id, version: "v2" })).setupVersion?.id, v2.id);
+    assert.equal((await client().getSetup({ setupId: setup!.id, version: v1.id })).setupVersion?.version, "v1");
+    await assert.rejects(client().getSetup({ setupId: setup!.id, version: "v3" }), { code: status.NOT_FOUND });
+
+    const { setupVersions } = await client().searchSetupVersions({ setupId: setup!.id });
+    assert.deepEqual(setupVersions.map((version) => version.version), ["v1", "v2"]);
+  });
+
+  it("rejects a label taken within the setup", async () => {
+    const { setup } = await client().createSetup(newSetup("labels", newVersion("v1")));
+    await assert.rejects(client().createSetupVersion({ setupId: setup!.id, version: "v1", content: {} }), { code: status.ALREADY_EXISTS });
+    const v2 = (await client().createSetupVersion({ setupId: setup!.id, version: "v2", content: {} })).setupVersion!;
+    await assert.rejects(client().updateSetupVersion({ setupVersionId: v2.id, version: "v1", content: {} }), { code: status.ALREADY_EXISTS });
+  });
+
+  it("stores nothing when the current version of a new setup is rejected", async () => {
+    const { setup } = await client().createSetup(newSetup("owner", newVersion("v1")));
+    const taken = setup!.currentSetupVersion!;
+    const before = setups.setups().length;
+    await assert.rejects(client().createSetup(newSetup("orphan", newVersion("v1", {}, taken.id))), { code: status.ALREADY_EXISTS });
+    assert.equal(setups.setups().length, before);
+    assert.ok(!setups.setups().some((stored) => stored.name === "orphan"));
+  });
+
+  it("leaves a setup unchanged when its new current version is rejected", async () => {
+    const { setup: other } = await client().createSetup(newSetup("other", newVersion("v1")));
+    const { setup } = await client().createSetup(newSetup("unchanged", newVersion("v1")));
+    const request = { setupId: setup!.id, name: "renamed", ownerId: "users:2", status: SetupStatus.READY };
+    await assert.rejects(client().updateSetup({ ...request, currentSetupVersion: other!.currentSetupVersion }), { code: status.ALREADY_EXISTS });
+    await assert.rejects(client().updateSetup({ ...request, currentSetupVersion: newVersion("v1") }), { code: status.ALREADY_EXISTS });
+    assert.deepEqual((await client().getSetup({ setupId: setup!.id })).setup, setup);
+
+    const { setup: updated } = await client().updateSetup({ ...request, currentSetupVersion: newVersion("v2", { n: 2 }) });
+    assert.equal(updated!.name, "renamed");
+    assert.equal(updated!.currentSetupVersion!.version, "v2");
+  });
+
+  it("deletes versions and setups", async () => {
+    const { setup } = await client().createSetup(newSetup("deleted", newVersion("v1")));
+    const current = setup!.currentSetupVersion!;
+    await client().deleteSetupVersion({ setupVersionId: current.id });
+    assert.equal((await client().getSetup({ setupId: setup!.id })).setup!.currentSetupVersion, undefined);
+    await assert.rejects(client().getSetupVersion({ setupVersionId: current.id }), { code: status.NOT_FOUND });
+
+    await client().deleteSetup({ setupId: setup!.id });
+    await assert.rejects(client().getSetup({ setupId: setup!.id }), { code: status.NOT_FOUND });
+  });
+
+  it("lists setups by owner, a page at a time", async () => {
+    setups.clear();
+    for (const name of ["a", "b", "c"]) {
+      await client().createSetup(newSetup(name));
+    }
+    await client().createSetup({ ...newSetup("d"), ownerId: "users:2" });
+    const page = await client().listSetups({ ownerId: "users:1", offset: 1, limit: 1 });
+    assert.deepEqual(page.setups.map((setup) => setup.name), ["b"]);
+    assert.equal(page.totalCount, 3);
+    assert.equal((await client().listSetups({ offset: 0, limit: 10 })).setups.length, 4);
+  });
+});
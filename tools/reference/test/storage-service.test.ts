@@ -0,0 +1,57 @@
+/**
+ * Tests of the in-memory StorageService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { status } from "@grpc/grpc-js";
+import { DataType } from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/data.js";
+import { StorageServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/storage_service.js";
+import { createStorageServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/storage/v1/storage_service_client.js";
+import { createInMemoryStorageService } from "../src/storage-service.js";
+import { serve } from "./serve.js";
+
+describe("StorageService", () => {
+  let time = 0;
+  const storage = createInMemoryStorageService({ now: () => new Date(++time * 1000) });
+  const client = serve([storage], StorageServiceClient, createStorageServicePromiseClient);
+  const key = { missionId: "missions:1", collection: "notes", recordId: "a" };
+
+  it("stores, reads and updates a record", async () => {
+    const stored = await client().storeRecord({ ...key, data: { text: "hello" }, dataType: DataType.OUTPUT });
+    assert.deepEqual(stored.storedData?.data, { text: "hello" });
+    assert.deepEqual((await client().readRecord(key)).storedData, stored.storedData);
+
+    const updated = await client().updateRecord({ ...key, data: { text: "bye" } });
+    assert.deepEqual(updated.storedData?.data, { text: "bye" });
+    assert.deepEqual(updated.storedData?.creationDate, stored.storedData?.creationDate);
+    assert.ok(updated.storedData!.updateDate! > stored.storedData!.updateDate!);
+  });
+
+  it("replaces a record stored again, keeping its creation date", async () => {
+    const first = (await client().readRecord(key)).storedData!;
+    const replaced = await client().storeRecord({ ...key, data: { items: [1, 2] }, dataType: DataType.VIEW });
+    assert.deepEqual(replaced.storedData?.data, { items: [1, 2] });
+    assert.equal(replaced.storedData?.dataType, DataType.VIEW);
+    assert.deepEqual(replaced.storedData?.creationDate, first.creationDate);
+  });
+
+  it("fails with NOT_FOUND for a missing record", async () => {
+    const missing = { ...key, recordId: "missing" };
+    await assert.rejects(client().readRecord(missing), { code: status.NOT_FOUND });
+    await assert.rejects(client().updateRecord({ ...missing, data: {} }), { code: status.NOT_FOUND });
+  });
+
+  it("lists and removes the records of a collection", async () => {
+    await client().storeRecord({ ...key, recordId: "b", data: {}, dataType: DataType.LOGS });
+    await client().storeRecord({ ...key, collection: "other", data: {}, dataType: DataType.LOGS });
+    const { records } = await client().listRecords({ missionId: key.missionId, collection: key.collection });
+    assert.deepEqual(records.map((record) => record.recordId), ["a", "b"]);
+
+    assert.equal((await client().removeRecord({ ...key, recordId: "b" })).success, true);
+    assert.equal((await client().removeRecord({ ...key, recordId: "b" })).success, false);
+    assert.equal((await client().removeCollection({ missionId: key.missionId, collection: key.collection })).success, true);
+    assert.equal((await client().removeCollection({ missionId: key.missionId, collection: key.collection })).success, false);
+    assert.deepEqual(storage.records().map((record) => record.collection), ["other"]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests of the in-memory UserProfileService
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { status } from "@grpc/grpc-js";
+import { UserProfile } from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile.js";
+import { UserProfileServiceClient } from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile_service.js";
+import { createUserProfileServicePromiseClient } from "../../../gen/typescript/agentic_mesh_protocol/user_profile/v1/user_profile_service_client.js";
+import { createInMemoryUserProfileService } from "../src/user-profile-service.js";
+import { serve } from "./serve.js";
+
+describe("UserProfileService", () => {
+  const profiles = createInMemoryUserProfileService();
+  const client = serve([profiles], UserProfileServiceClient, createUserProfileServicePromiseClient);
+  const profile = UserProfile.fromPartial({
+    userId: "users:1",
+    organisationId: "organisations:1",
+    email: "ada@example.com",
+    firstName: "Ada",
+    lastName: "Lovelace",
+    locale: "en",
+    credits: [{ source: "signup", total: "100", remaining: 40 }],
+    metadata: { plan: "trial" },
+  });
+
+  it("returns the profile of the user behind a mission", async () => {
+    profiles.setUserProfile("missions:1", profile);
+    const response = await client().getUserProfile({ missionId: "missions:1" });
+    assert.equal(response.success, true);
+    assert.deepEqual(response.userProfile, profile);
+  });
+
+  it("fails with NOT_FOUND for a mission without a profile", async () => {
+    await assert.rejects(client().getUserProfile({ missionId: "missions:2" }), { code: status.NOT_FOUND });
+    profiles.clear();
+    await assert.rejects(client().getUserProfile({ missionId: "missions:1" }), { code: status.NOT_FOUND });
+  });
+});
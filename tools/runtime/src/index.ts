@@ -0,0 +1,40 @@
+/**
+ * Runtime helpers for Agentic Mesh Protocol services and clients
+ */
+
+export {
+  compileJsonSchema,
+  JsonSchemaUnsupportedError,
+  type JsonSchema,
+} from "./json-schema-compiler.js";
+export {
+  assertValidPayload,
+  getPayloadSchema,
+  toJsonPointer,
+  validateModulePayload,
+  validatePayload,
+  validateSetupContent,
+  validateStartModuleRequest,
+  PayloadValidationError,
+  type ModuleSchemas,
+  type PayloadKind,
+  type PayloadValidationResult,
+  type PayloadViolation,
+} from "./payload-validator.js";
+export {
+  alreadyExists,
+  notFound,
+  ServiceStatusError,
+  toStatus,
+  unary,
+  type ServiceBinding,
+} from "./service-handlers.js";
+export {
+  checkViolations,
+  formatFieldPath,
+  toViolations,
+  type FieldPath,
+  type FieldPathElement,
+  type Violation,
+  type Violations,
+} from "./violations.js";
@@ -0,0 +1,409 @@
+/**
+ * Compiles JSON Schema documents into Zod schemas at runtime
+ *
+ * Modules describe their payloads with the JSON Schema pydantic generates
+ * (draft 2020-12, or `definitions` for pydantic v1): objects with `$defs` and
+ * local `$ref`s, `anyOf` for optional and union types, `enum`/`const` for
+ * literals and enums, `allOf` wrapping a single `$ref`. Annotations (title,
+ * description, default, examples, ...) are ignored; unknown formats too, as
+ * formats are annotations in JSON Schema. Validation keywords outside this
+ * subset are rejected with a JsonSchemaUnsupportedError rather than skipped,
+ * so that a payload is never reported valid against rules that were not
+ * checked.
+ */
+
+import { z } from "zod";
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+type JsonSchemaObject = { [keyword: string]: unknown };
+
+/**
+ * Thrown when a schema uses a keyword or reference this compiler does not support
+ */
+export class JsonSchemaUnsupportedError extends Error {
+  constructor(message: string, readonly pointer: string) {
+    super(`${message} (at "${pointer}")`);
+    this.name = "JsonSchemaUnsupportedError";
+  }
+}
+
+/**
+ * Keywords without effect on validation
+ */
+const ANNOTATIONS = new Set([
+  "$schema", "$id", "$comment", "$defs", "definitions", "title", "description", "default", "examples",
+  "deprecated", "readOnly", "writeOnly", "discriminator", "contentEncoding", "contentMediaType", "format",
+]);
+
+/**
+ * Keywords compiled by typedSchema, by the type they apply to
+ */
+const TYPE_KEYWORDS: Record<string, string[]> = {
+  string: ["minLength", "maxLength", "pattern"],
+  number: ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"],
+  object: ["properties", "required", "additionalProperties", "minProperties", "maxProperties", "propertyNames"],
+  array: ["items", "prefixItems", "minItems", "maxItems", "uniqueItems"],
+};
+
+const APPLICATORS = ["$ref", "enum", "const", "anyOf", "oneOf", "allOf", "not", "type", "nullable"];
+
+const SUPPORTED = new Set([...ANNOTATIONS, ...APPLICATORS, ...Object.values(TYPE_KEYWORDS).flat()]);
+
+interface CompileContext {
+  root: JsonSchema;
+  /** Compiled references, by JSON pointer (z.lazy, so that they may be recursive) */
+  refs: Map<string, z.ZodType>;
+}
+
+/**
+ * Compiles a JSON Schema into a Zod schema accepting the same JSON values
+ */
+export function compileJsonSchema(schema: JsonSchema): z.ZodType {
+  return compile(schema, "", { root: schema, refs: new Map() });
+}
+
+function compile(schema: JsonSchema, pointer: string, context: CompileContext): z.ZodType {
+  if (schema === true) {
+    return z.any();
+  }
+  if (schema === false) {
+    return z.never();
+  }
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new JsonSchemaUnsupportedError("a schema must be an object or a boolean", pointer);
+  }
+
+  for (const keyword of Object.keys(schema)) {
+    if (!SUPPORTED.has(keyword)) {
+      throw new JsonSchemaUnsupportedError(`keyword "${keyword}" is not supported`, pointer);
+    }
+  }
+
+  // Each applicator constrains the value independently, they all have to hold
+  const parts: z.ZodType[] = [];
+  if (typeof schema.$ref === "string") {
+    parts.push(compileRef(schema.$ref, pointer, context));
+  }
+  if (Array.isArray(schema.enum)) {
+    parts.push(literalSchema(schema.enum, `${pointer}/enum`));
+  }
+  if ("const" in schema) {
+    parts.push(literalSchema([schema.const], `${pointer}/const`));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    parts.push(unionSchema(schema.anyOf, `${pointer}/anyOf`, context));
+  }
+  if (Array.isArray(schema.oneOf)) {
+    parts.push(exactlyOneSchema(schema.oneOf, `${pointer}/oneOf`, context));
+  }
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((member, i) => parts.push(compile(member as JsonSchema, `${pointer}/allOf/${i}`, context)));
+  }
+  if (schema.not !== undefined) {
+    const not = compile(schema.not as JsonSchema, `${pointer}/not`, context);
+    parts.push(z.any().refine((v) => !not.safeParse(v).success, { message: "Must not match the schema" }));
+  }
+
+  const types = schemaTypes(schema, pointer);
+  if (types) {
+    const typed = types.map((type) => typedSchema(type, schema, pointer, context));
+    parts.push(typed.length === 1 ? typed[0] : z.union(typed));
+  }
+
+  let result = parts.length === 0 ? z.any() : parts.reduce((a, b) => z.intersection(a, b));
+  // OpenAPI 3.0 style, used by some LLM-formatted schemas
+  if (schema.nullable === true) {
+    result = result.nullable();
+  }
+  return result;
+}
+
+/**
+ * Types a schema is restricted to, from `type` or, without it, from the
+ * type-specific keywords it uses (pydantic omits `type` in a few places)
+ */
+function schemaTypes(schema: JsonSchemaObject, pointer: string): string[] | undefined {
+  if (typeof schema.type === "string") {
+    return [schema.type];
+  }
+  if (Array.isArray(schema.type) && schema.type.every((type) => typeof type === "string")) {
+    return schema.type;
+  }
+  if (schema.type !== undefined) {
+    throw new JsonSchemaUnsupportedError("type must be a string or an array of strings", pointer);
+  }
+  const implied = Object.keys(TYPE_KEYWORDS).filter((type) => TYPE_KEYWORDS[type].some((keyword) => keyword in schema));
+  return implied.length === 1 ? implied : undefined;
+}
+
+function typedSchema(type: string, schema: JsonSchemaObject, pointer: string, context: CompileContext): z.ZodType {
+  switch (type) {
+    case "string":
+      return stringSchema(schema, pointer);
+    case "integer":
+      return numberSchema(z.int(), schema, pointer);
+    case "number":
+      return numberSchema(z.number(), schema, pointer);
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "object":
+      return objectSchema(schema, pointer, context);
+    case "array":
+      return arraySchema(schema, pointer, context);
+    default:
+      throw new JsonSchemaUnsupportedError(`unknown type "${type}"`, pointer);
+  }
+}
+
+/**
+ * String formats checked by the compiler, the others are annotations
+ */
+const STRING_FORMATS: Record<string, () => z.ZodString | z.ZodStringFormat> = {
+  // pydantic serializes naive datetimes without an offset
+  "date-time": () => z.iso.datetime({ offset: true, local: true }),
+  date: () => z.iso.date(),
+  time: () => z.iso.time(),
+  email: () => z.email(),
+  uri: () => z.url(),
+  uuid: () => z.uuid(),
+  ipv4: () => z.ipv4(),
+  ipv6: () => z.ipv6(),
+};
+
+function stringSchema(schema: JsonSchemaObject, pointer: string): z.ZodType {
+  const format = typeof schema.format === "string" ? STRING_FORMATS[schema.format] : undefined;
+  let result: z.ZodType<string> = format ? format() : z.string();
+
+  // Lengths count code points, not UTF-16 code units
+  const min = numberKeyword(schema, "minLength", pointer);
+  if (min !== undefined) {
+    result = result.refine((s) => codePoints(s) >= min, { message: `Must be at least ${min} characters` });
+  }
+  const max = numberKeyword(schema, "maxLength", pointer);
+  if (max !== undefined) {
+    result = result.refine((s) => codePoints(s) <= max, { message: `Must be at most ${max} characters` });
+  }
+  const source = schema.pattern;
+  if (typeof source === "string") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, "u");
+    } catch {
+      throw new JsonSchemaUnsupportedError(`invalid pattern "${source}"`, `${pointer}/pattern`);
+    }
+    result = result.refine((s) => pattern.test(s), { message: `Must match pattern: ${source}` });
+  }
+  return result;
+}
+
+function numberSchema(base: z.ZodNumber, schema: JsonSchemaObject, pointer: string): z.ZodType {
+  // Draft-04 booleans modify minimum/maximum, ignoring them would accept the bounds
+  for (const keyword of ["exclusiveMinimum", "exclusiveMaximum"]) {
+    if (typeof schema[keyword] === "boolean") {
+      throw new JsonSchemaUnsupportedError(`draft-04 boolean ${keyword} is not supported, use a number`, `${pointer}/${keyword}`);
+    }
+  }
+
+  let result = base;
+  const minimum = numberKeyword(schema, "minimum", pointer);
+  if (minimum !== undefined) {
+    result = result.gte(minimum);
+  }
+  const maximum = numberKeyword(schema, "maximum", pointer);
+  if (maximum !== undefined) {
+    result = result.lte(maximum);
+  }
+  const exclusiveMinimum = numberKeyword(schema, "exclusiveMinimum", pointer);
+  if (exclusiveMinimum !== undefined) {
+    result = result.gt(exclusiveMinimum);
+  }
+  const exclusiveMaximum = numberKeyword(schema, "exclusiveMaximum", pointer);
+  if (exclusiveMaximum !== undefined) {
+    result = result.lt(exclusiveMaximum);
+  }
+  const multipleOf = numberKeyword(schema, "multipleOf", pointer);
+  if (multipleOf !== undefined) {
+    result = result.multipleOf(multipleOf);
+  }
+  return result;
+}
+
+function objectSchema(schema: JsonSchemaObject, pointer: string, context: CompileContext): z.ZodType {
+  const required = new Set(Array.isArray(schema.required) ? schema.required.filter((name) => typeof name === "string") : []);
+  const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, property] of Object.entries(properties)) {
+    const propertySchema = compile(property as JsonSchema, `${pointer}/properties/${escapePointer(name)}`, context);
+    shape[name] = required.has(name) ? propertySchema : propertySchema.optional();
+  }
+  // Required properties without a schema of their own accept any value
+  for (const name of required) {
+    shape[name] ??= z.any().refine((v) => v !== undefined, { message: "Required" });
+  }
+
+  // Properties are open unless additionalProperties says otherwise
+  let result: z.ZodType<Record<string, unknown>>;
+  const additional = schema.additionalProperties;
+  if (additional === undefined || additional === true) {
+    result = z.looseObject(shape);
+  } else if (additional === false) {
+    result = z.strictObject(shape);
+  } else {
+    result = z.object(shape).catchall(compile(additional as JsonSchema, `${pointer}/additionalProperties`, context));
+  }
+
+  const min = numberKeyword(schema, "minProperties", pointer);
+  if (min !== undefined) {
+    result = result.refine((o) => Object.keys(o).length >= min, { message: `Must have at least ${min} properties` });
+  }
+  const max = numberKeyword(schema, "maxProperties", pointer);
+  if (max !== undefined) {
+    result = result.refine((o) => Object.keys(o).length <= max, { message: `Must have at most ${max} properties` });
+  }
+  if (schema.propertyNames !== undefined) {
+    const names = compile(schema.propertyNames as JsonSchema, `${pointer}/propertyNames`, context);
+    result = result.superRefine((o, ctx) => {
+      for (const name of Object.keys(o)) {
+        if (!names.safeParse(name).success) {
+          ctx.addIssue({ code: "custom", message: `Invalid property name "${name}"`, path: [name] });
+        }
+      }
+    });
+  }
+  return result;
+}
+
+function arraySchema(schema: JsonSchemaObject, pointer: string, context: CompileContext): z.ZodType {
+  const items = schema.items === undefined ? z.any() : compile(schema.items as JsonSchema, `${pointer}/items`, context);
+  let result: z.ZodType<unknown[]>;
+  if (Array.isArray(schema.prefixItems)) {
+    // Arrays may be shorter than prefixItems
+    const prefix: z.ZodType[] = schema.prefixItems.map((item, i) => compile(item as JsonSchema, `${pointer}/prefixItems/${i}`, context).optional());
+    result = z.tuple(prefix as [z.ZodType, ...z.ZodType[]], items);
+  } else {
+    result = z.array(items);
+  }
+
+  const min = numberKeyword(schema, "minItems", pointer);
+  if (min !== undefined) {
+    result = result.refine((a) => a.length >= min, { message: `Must have at least ${min} items` });
+  }
+  const max = numberKeyword(schema, "maxItems", pointer);
+  if (max !== undefined) {
+    result = result.refine((a) => a.length <= max, { message: `Must have at most ${max} items` });
+  }
+  if (schema.uniqueItems === true) {
+    result = result.refine((a) => new Set(a.map(canonicalJson)).size === a.length, { message: "Items must be unique" });
+  }
+  return result;
+}
+
+/**
+ * Resolves a local reference ("#", "#/$defs/Name", "#/definitions/Name")
+ */
+function compileRef(ref: string, pointer: string, context: CompileContext): z.ZodType {
+  const existing = context.refs.get(ref);
+  if (existing) {
+    return existing;
+  }
+  if (!ref.startsWith("#")) {
+    throw new JsonSchemaUnsupportedError(`only local references are supported, got "${ref}"`, `${pointer}/$ref`);
+  }
+
+  let target: z.ZodType | undefined;
+  const lazy = z.lazy(() => target!);
+  context.refs.set(ref, lazy);
+
+  let segments: string[];
+  try {
+    segments = ref.slice(1).split("/").slice(1).map(unescapePointer);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new JsonSchemaUnsupportedError(`invalid reference "${ref}"`, `${pointer}/$ref`);
+    }
+    throw error;
+  }
+  let resolved: unknown = context.root;
+  for (const segment of segments) {
+    resolved = typeof resolved === "object" && resolved !== null ? (resolved as Record<string, unknown>)[segment] : undefined;
+  }
+  if (resolved === undefined) {
+    throw new JsonSchemaUnsupportedError(`cannot resolve reference "${ref}"`, `${pointer}/$ref`);
+  }
+  target = compile(resolved as JsonSchema, ref.slice(1), context);
+  return lazy;
+}
+
+function literalSchema(values: unknown[], pointer: string): z.ZodType {
+  if (values.length === 0) {
+    throw new JsonSchemaUnsupportedError("enum must not be empty", pointer);
+  }
+  const primitives = values.every((v) => v === null || ["string", "number", "boolean"].includes(typeof v));
+  if (primitives) {
+    return z.literal(values as (string | number | boolean | null)[]);
+  }
+  // Objects and arrays compare as JSON values
+  const allowed = new Set(values.map(canonicalJson));
+  return z.any().refine((v) => allowed.has(canonicalJson(v)), { message: `Must be one of: ${values.map((v) => JSON.stringify(v)).join(", ")}` });
+}
+
+function unionSchema(members: unknown[], pointer: string, context: CompileContext): z.ZodType {
+  const options = members.map((member, i) => compile(member as JsonSchema, `${pointer}/${i}`, context));
+  return options.length === 1 ? options[0] : z.union(options);
+}
+
+function exactlyOneSchema(members: unknown[], pointer: string, context: CompileContext): z.ZodType {
+  const options = members.map((member, i) => compile(member as JsonSchema, `${pointer}/${i}`, context));
+  const union = options.length === 1 ? options[0] : z.union(options);
+  return union.superRefine((v, ctx) => {
+    if (options.filter((option) => option.safeParse(v).success).length > 1) {
+      ctx.addIssue({ code: "custom", message: "Must match exactly one schema" });
+    }
+  });
+}
+
+/**
+ * JSON text with sorted keys, for comparing values structurally
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    isSchemaObject(v) ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]])) : v
+  );
+}
+
+/**
+ * Plain objects, i.e. JSON objects rather than arrays or null
+ */
+function isSchemaObject(value: unknown): value is JsonSchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a numeric keyword, rejecting values of another type rather than ignoring the keyword
+ */
+function numberKeyword(schema: JsonSchemaObject, keyword: string, pointer: string): number | undefined {
+  const value = schema[keyword];
+  if (value !== undefined && typeof value !== "number") {
+    throw new JsonSchemaUnsupportedError(`${keyword} must be a number`, `${pointer}/${keyword}`);
+  }
+  return value;
+}
+
+function codePoints(value: string): number {
+  let count = 0;
+  for (const _ of value) {
+    count++;
+  }
+  return count;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+}
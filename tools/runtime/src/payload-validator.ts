@@ -0,0 +1,150 @@
+/**
+ * Validates module payloads against the JSON Schemas a module declares
+ *
+ * `StartModuleRequest.input`, `ConfigSetupModuleRequest.content` and
+ * `SetupVersion.content` are free-form Structs. Their schemas come from the
+ * module: the `*_schema` Structs of its ModuleDescriptor, or the responses of
+ * GetModuleInput, GetModuleSetup, ... which use the same field names. The
+ * schemas are compiled to Zod once and cached, and violations are reported
+ * with JSON pointers into the validated request.
+ */
+
+import type { z } from "zod";
+import { compileJsonSchema, type JsonSchema } from "./json-schema-compiler.js";
+
+/**
+ * Payloads a module declares a schema for, named after the `<kind>_schema` fields
+ */
+export type PayloadKind = "input" | "output" | "setup" | "secret" | "cost";
+
+/**
+ * Anything carrying module schemas: a ModuleDescriptor, or a GetModuleInputResponse,
+ * GetModuleSetupResponse, ... (Structs are plain objects in ts-proto and protobuf-es)
+ */
+export type ModuleSchemas = {
+  [K in PayloadKind as `${K}Schema`]?: { [key: string]: unknown } | undefined;
+};
+
+export interface PayloadViolation {
+  /** JSON pointer to the invalid value, e.g. "/input/items/0/name" ("" for the payload itself) */
+  pointer: string;
+  message: string;
+}
+
+export type PayloadValidationResult =
+  | { success: true }
+  | { success: false; violations: PayloadViolation[] };
+
+/**
+ * Thrown by the assert functions when a payload does not match its schema
+ */
+export class PayloadValidationError extends Error {
+  constructor(readonly violations: PayloadViolation[]) {
+    super(`Invalid payload: ${violations.map((v) => `${v.pointer || "/"}: ${v.message}`).join("; ")}`);
+    this.name = "PayloadValidationError";
+  }
+}
+
+// Descriptors are usually reused, identical schemas fetched again share their text
+const MAX_CACHED_SCHEMAS = 256;
+const schemasByObject = new WeakMap<object, z.ZodType>();
+const schemasByText = new Map<string, z.ZodType>();
+
+/**
+ * Returns the Zod schema compiled from a JSON Schema, from the cache when possible
+ * Throws JsonSchemaUnsupportedError for schemas outside the supported subset.
+ */
+export function getPayloadSchema(schema: { [key: string]: unknown }): z.ZodType {
+  let compiled = schemasByObject.get(schema);
+  if (compiled) {
+    return compiled;
+  }
+
+  const text = JSON.stringify(schema);
+  compiled = schemasByText.get(text);
+  if (compiled) {
+    // Refresh its position, the oldest schema is evicted first
+    schemasByText.delete(text);
+  } else {
+    compiled = compileJsonSchema(schema as JsonSchema);
+    if (schemasByText.size >= MAX_CACHED_SCHEMAS) {
+      schemasByText.delete(schemasByText.keys().next().value!);
+    }
+  }
+  schemasByText.set(text, compiled);
+  schemasByObject.set(schema, compiled);
+  return compiled;
+}
+
+/**
+ * Validates a payload against a JSON Schema
+ * `pointer` prefixes the reported pointers, e.g. "/input" for StartModuleRequest.input.
+ */
+export function validatePayload(
+  schema: { [key: string]: unknown },
+  payload: unknown,
+  pointer = ""
+): PayloadValidationResult {
+  const result = getPayloadSchema(schema).safeParse(payload);
+  if (result.success) {
+    return { success: true };
+  }
+  return {
+    success: false,
+    violations: result.error.issues.map((issue) => ({
+      pointer: pointer + toJsonPointer(issue.path),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Validates a payload against the schema a module declares for it
+ * Modules without a schema for the payload accept any value.
+ */
+export function validateModulePayload(
+  module: ModuleSchemas,
+  kind: PayloadKind,
+  payload: unknown,
+  pointer = ""
+): PayloadValidationResult {
+  const schema = module[`${kind}Schema`];
+  return schema ? validatePayload(schema, payload, pointer) : { success: true };
+}
+
+/**
+ * Validates StartModuleRequest.input against the module's input schema
+ */
+export function validateStartModuleRequest(
+  module: ModuleSchemas,
+  request: { input?: { [key: string]: unknown } | undefined }
+): PayloadValidationResult {
+  return validateModulePayload(module, "input", request.input ?? {}, "/input");
+}
+
+/**
+ * Validates ConfigSetupModuleRequest.content or SetupVersion.content against
+ * the module's setup schema
+ */
+export function validateSetupContent(
+  module: ModuleSchemas,
+  message: { content?: { [key: string]: unknown } | undefined }
+): PayloadValidationResult {
+  return validateModulePayload(module, "setup", message.content ?? {}, "/content");
+}
+
+/**
+ * Throws a PayloadValidationError unless the validation succeeded, for use before dispatch
+ */
+export function assertValidPayload(result: PayloadValidationResult): void {
+  if (!result.success) {
+    throw new PayloadValidationError(result.violations);
+  }
+}
+
+/**
+ * Formats a Zod issue path as a JSON pointer (RFC 6901)
+ */
+export function toJsonPointer(path: readonly PropertyKey[]): string {
+  return path.map((segment) => `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
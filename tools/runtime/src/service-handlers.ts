@@ -0,0 +1,75 @@
+/**
+ * Plumbing for grpc-js service implementations
+ *
+ * Handlers are written as functions of the request returning the response, or
+ * throwing a ServiceStatusError for the status of the call. Used by the module
+ * SDK and the in-memory reference services.
+ */
+
+import {
+  status,
+  type handleUnaryCall,
+  type ServerUnaryCall,
+  type ServiceDefinition,
+  type StatusObject,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+
+/**
+ * A service implementation and the definition to add it to a grpc-js Server with
+ */
+export interface ServiceBinding<Impl extends UntypedServiceImplementation = UntypedServiceImplementation> {
+  definition: ServiceDefinition;
+  implementation: Impl;
+}
+
+/**
+ * Thrown by handlers to end the call with a status other than OK
+ */
+export class ServiceStatusError extends Error {
+  constructor(readonly code: status, details: string) {
+    super(details);
+    this.name = "ServiceStatusError";
+  }
+}
+
+/**
+ * NOT_FOUND error for a missing entity, e.g. notFound("setup", "setups:1")
+ */
+export function notFound(kind: string, id: string): ServiceStatusError {
+  return new ServiceStatusError(status.NOT_FOUND, `${kind} ${JSON.stringify(id)} not found`);
+}
+
+/**
+ * ALREADY_EXISTS error for an entity that conflicts with another
+ */
+export function alreadyExists(kind: string, id: string): ServiceStatusError {
+  return new ServiceStatusError(status.ALREADY_EXISTS, `${kind} ${JSON.stringify(id)} already exists`);
+}
+
+/**
+ * Adapts a handler function to a grpc-js unary handler
+ * ServiceStatusErrors end the call with their code, other errors with INTERNAL.
+ */
+export function unary<Req, Res>(
+  handle: (request: Req, call: ServerUnaryCall<Req, Res>) => Res | Promise<Res>
+): handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    Promise.resolve()
+      .then(() => handle(call.request, call))
+      .then(
+        (response) => callback(null, response),
+        (error: unknown) => callback(toStatus(error))
+      );
+  };
+}
+
+/**
+ * Status of a call that failed with an error
+ */
+export function toStatus(error: unknown): Partial<StatusObject> {
+  if (error instanceof ServiceStatusError) {
+    return { code: error.code, details: error.message };
+  }
+  return { code: status.INTERNAL, details: error instanceof Error ? error.message : String(error) };
+}
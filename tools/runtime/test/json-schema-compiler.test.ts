@@ -0,0 +1,107 @@
+/**
+ * Tests of the JSON Schema to Zod compiler, on the pydantic-flavoured schemas modules return
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileJsonSchema, JsonSchemaUnsupportedError, type JsonSchema } from "../src/json-schema-compiler.js";
+
+const accepts = (schema: JsonSchema, value: unknown) => compileJsonSchema(schema).safeParse(value).success;
+
+describe("compileJsonSchema", () => {
+  it("resolves $defs references, recursive ones included", () => {
+    const schema = {
+      $defs: {
+        Node: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            children: { type: "array", items: { $ref: "#/$defs/Node" } },
+          },
+          required: ["name"],
+        },
+      },
+      $ref: "#/$defs/Node",
+    };
+    assert.ok(accepts(schema, { name: "root", children: [{ name: "leaf", children: [] }] }));
+    assert.ok(!accepts(schema, { name: "root", children: [{ children: [] }] }));
+    assert.ok(!accepts(schema, { name: "root", children: [{ name: "leaf", children: [{ name: 1 }] }] }));
+  });
+
+  it("resolves pydantic v1 definitions, the root and escaped names", () => {
+    const schema = {
+      definitions: { "a/b~c": { type: "integer" } },
+      type: "object",
+      properties: {
+        value: { allOf: [{ $ref: "#/definitions/a~1b~0c" }] },
+        self: { $ref: "#" },
+      },
+    };
+    assert.ok(accepts(schema, { value: 1, self: { value: 2 } }));
+    assert.ok(!accepts(schema, { value: 1.5 }));
+    assert.ok(!accepts(schema, { self: { value: "2" } }));
+  });
+
+  it("compiles anyOf, enum and const", () => {
+    const optional = { anyOf: [{ type: "string" }, { type: "null" }] };
+    assert.ok(accepts(optional, "text"));
+    assert.ok(accepts(optional, null));
+    assert.ok(!accepts(optional, 1));
+
+    const color = { enum: ["red", "green", 1, null] };
+    assert.ok(accepts(color, "green"));
+    assert.ok(accepts(color, null));
+    assert.ok(!accepts(color, "blue"));
+
+    const structured = { enum: [{ a: 1, b: [2] }] };
+    assert.ok(accepts(structured, { b: [2], a: 1 }));
+    assert.ok(!accepts(structured, { a: 1, b: [3] }));
+    assert.ok(accepts({ const: "fixed" }, "fixed"));
+    assert.ok(!accepts({ const: "fixed" }, "other"));
+  });
+
+  it("checks the keywords of each type", () => {
+    assert.ok(!accepts({ type: "string", minLength: 2 }, "😀"));
+    assert.ok(accepts({ type: "string", maxLength: 1 }, "😀"));
+    assert.ok(!accepts({ type: "string", pattern: "^a+$" }, "ab"));
+    assert.ok(!accepts({ type: "integer", exclusiveMinimum: 0 }, 0));
+    assert.ok(accepts({ type: "number", maximum: 1, multipleOf: 0.5 }, 0.5));
+    assert.ok(!accepts({ type: "object", additionalProperties: false, properties: {} }, { a: 1 }));
+    assert.ok(!accepts({ type: "object", additionalProperties: { type: "string" } }, { a: 1 }));
+    assert.ok(!accepts({ type: "array", uniqueItems: true }, [{ a: 1 }, { a: 1 }]));
+    assert.ok(accepts({ type: "array", prefixItems: [{ type: "string" }], items: { type: "integer" } }, ["a", 1]));
+  });
+
+  it("accepts the datetimes pydantic emits, naive or with an offset", () => {
+    const schema = {
+      type: "object",
+      properties: { created_at: { type: "string", format: "date-time", title: "Created At" } },
+      required: ["created_at"],
+    };
+    for (const createdAt of ["2024-01-01T00:00:00", "2024-01-01T00:00:00.123456", "2024-01-01T00:00:00Z", "2024-01-01T00:00:00+02:00"]) {
+      assert.ok(accepts(schema, { created_at: createdAt }), createdAt);
+    }
+    assert.ok(!accepts(schema, { created_at: "2024-01-01" }));
+    assert.ok(!accepts(schema, { created_at: "yesterday" }));
+  });
+
+  it("rejects schemas outside the supported subset", () => {
+    const unsupported = (schema: JsonSchema, pointer: string) =>
+      assert.throws(() => compileJsonSchema(schema), (error) => error instanceof JsonSchemaUnsupportedError && error.pointer === pointer);
+    unsupported({ type: "object", properties: { a: { if: {} } } }, "/properties/a");
+    unsupported({ $ref: "https://example.com/schema.json" }, "/$ref");
+    unsupported({ $ref: "#/$defs/Missing" }, "/$ref");
+    unsupported({ $ref: "#/$defs/%E0%A4%A" }, "/$ref");
+    unsupported({ type: "string", minLength: "2" }, "/minLength");
+    unsupported({ type: "string", pattern: "(" }, "/pattern");
+  });
+
+  it("rejects draft-04 boolean exclusiveMinimum and exclusiveMaximum", () => {
+    for (const keyword of ["exclusiveMinimum", "exclusiveMaximum"]) {
+      assert.throws(
+        () => compileJsonSchema({ type: "number", minimum: 0, maximum: 1, [keyword]: true }),
+        (error) => error instanceof JsonSchemaUnsupportedError && error.pointer === `/${keyword}`
+      );
+    }
+  });
+});
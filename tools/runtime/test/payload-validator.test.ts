@@ -0,0 +1,80 @@
+/**
+ * Tests of the module payload validator: JSON pointers to violations, and the schema cache
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertValidPayload,
+  getPayloadSchema,
+  PayloadValidationError,
+  toJsonPointer,
+  validatePayload,
+  validateSetupContent,
+  validateStartModuleRequest,
+} from "../src/payload-validator.js";
+
+const descriptor = {
+  inputSchema: {
+    $defs: { Item: { type: "object", properties: { name: { type: "string", minLength: 1 } }, required: ["name"] } },
+    type: "object",
+    properties: {
+      items: { type: "array", items: { $ref: "#/$defs/Item" } },
+      "a/b~c": { type: "integer" },
+    },
+    required: ["items"],
+  },
+};
+
+describe("validatePayload", () => {
+  it("reports violations with JSON pointers into the request", () => {
+    const result = validateStartModuleRequest(descriptor, { input: { items: [{ name: "a" }, { name: "" }], "a/b~c": "1" } });
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      !result.success && result.violations.map((violation) => violation.pointer).sort(),
+      ["/input/a~1b~0c", "/input/items/1/name"]
+    );
+    const unprefixed = validatePayload(descriptor.inputSchema, {});
+    assert.deepEqual(!unprefixed.success && unprefixed.violations.map((violation) => violation.pointer), ["/items"]);
+  });
+
+  it("accepts any payload the module declares no schema for", () => {
+    assert.deepEqual(validateSetupContent(descriptor, { content: { anything: true } }), { success: true });
+    assert.deepEqual(validateStartModuleRequest(descriptor, { input: { items: [] } }), { success: true });
+  });
+
+  it("throws a PayloadValidationError from assertValidPayload", () => {
+    assert.throws(
+      () => assertValidPayload(validateStartModuleRequest(descriptor, {})),
+      (error) => error instanceof PayloadValidationError && error.violations[0].pointer === "/input/items"
+    );
+  });
+
+  it("formats Zod paths as JSON pointers", () => {
+    assert.equal(toJsonPointer([]), "");
+    assert.equal(toJsonPointer(["a/b", 0, "~"]), "/a~1b/0/~0");
+  });
+});
+
+describe("getPayloadSchema", () => {
+  it("compiles a schema once, by object and by text", () => {
+    const schema = { type: "object", properties: { cached: { type: "boolean" } } };
+    const compiled = getPayloadSchema(schema);
+    assert.equal(getPayloadSchema(schema), compiled);
+    assert.equal(getPayloadSchema(structuredClone(schema)), compiled);
+    assert.notEqual(getPayloadSchema({ ...schema, required: ["cached"] }), compiled);
+  });
+
+  it("evicts the least recently used schemas past 256", () => {
+    const kept = { type: "string", description: "kept" };
+    const evicted = { type: "string", description: "evicted" };
+    const compiledKept = getPayloadSchema(kept);
+    const compiledEvicted = getPayloadSchema(evicted);
+    for (let i = 0; i < 255; i++) {
+      getPayloadSchema(structuredClone(kept));
+      getPayloadSchema({ type: "string", description: `filler ${i}` });
+    }
+    assert.equal(getPayloadSchema(structuredClone(kept)), compiledKept);
+    assert.notEqual(getPayloadSchema(structuredClone(evicted)), compiledEvicted);
+  });
+});
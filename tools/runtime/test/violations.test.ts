@@ -0,0 +1,157 @@
+/**
+ * Tests of the Zod issues to protovalidate Violations conversion
+ *
+ * Each message is validated both by its generated schema and by protovalidate,
+ * and the violations must be the same (the messages aside, which are worded
+ * differently). The schemas are the checked-in protoc-gen-zod output for
+ * protobuf-es (tools/zod/test/golden), so that both validate the same message.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createFileRegistry, fromBinary, fromJson, type JsonValue } from "@bufbuild/protobuf";
+import { FileDescriptorSetSchema } from "@bufbuild/protobuf/wkt";
+import { createValidator, violationsToProto } from "@bufbuild/protovalidate";
+import ts from "typescript";
+import type { z } from "zod";
+import { checkViolations, formatFieldPath, type FieldPathElement, type Violation } from "../src/violations.js";
+
+// Compiled to tools/runtime/dist/test/test, the golden files are read from the repository
+const ROOT = join(__dirname, "../../../../..");
+const GOLDEN_DIR = join(ROOT, "tools/zod/test/golden");
+const registry = createFileRegistry(fromBinary(FileDescriptorSetSchema, readFileSync(join(ROOT, "tools/zod/test/images/fixtures.binpb"))));
+const validator = createValidator({ registry });
+
+/**
+ * Loads the schemas of a golden file of a variant, which only imports zod
+ */
+function loadSchemas(variant: string, file: string): Record<string, z.ZodType> {
+  const source = readFileSync(join(GOLDEN_DIR, variant, "golden/v1", file), "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports: Record<string, z.ZodType> = {};
+  new Function("require", "exports", outputText)(require, exports);
+  return exports;
+}
+
+const schemas = Object.assign({}, ...["cel_zod.ts", "maps_zod.ts", "repeated_zod.ts"].map((file) => loadSchemas("fixtures_protobuf_es", file)));
+
+/**
+ * Returns the violations of protovalidate, then of the generated schema, without their messages
+ */
+function validate(typeName: string, json: JsonValue): [Omit<Violation, "message">[], Omit<Violation, "message">[]] {
+  const desc = registry.getMessage(typeName);
+  assert.ok(desc, typeName);
+  const message = fromJson(desc, json, { registry });
+
+  const result = validator.validate(desc, message);
+  assert.notEqual(result.kind, "error");
+  const [expected] = violationsToProto(result.kind === "invalid" ? result.violations : []);
+  type ElementProto = NonNullable<(typeof expected.violations)[number]["field"]>["elements"][number];
+  const toElement = ({ fieldName, subscript }: ElementProto): FieldPathElement => ({
+    fieldName,
+    ...(subscript.case === "index" && { index: String(subscript.value) }),
+    ...(subscript.case === "boolKey" && { boolKey: subscript.value }),
+    ...((subscript.case === "intKey" || subscript.case === "uintKey") && { intKey: String(subscript.value) }),
+    ...(subscript.case === "stringKey" && { stringKey: subscript.value }),
+  });
+  const reference = expected.violations.map((violation) => ({
+    ...(violation.field && { field: { elements: violation.field.elements.map(toElement) } }),
+    ...(violation.rule && { rule: { elements: violation.rule.elements.map(toElement) } }),
+    ruleId: violation.ruleId,
+    forKey: violation.forKey,
+  }));
+
+  const schema = schemas[`${desc.name.replace(/\./g, "_")}Schema`];
+  const actual = checkViolations(schema, message).violations.map(({ message: _, ...violation }) => violation);
+  const byPath = (a: Omit<Violation, "message">, b: Omit<Violation, "message">) => JSON.stringify(a).localeCompare(JSON.stringify(b));
+  return [reference.sort(byPath), actual.sort(byPath)];
+}
+
+/** Asserts the generated schema reports the violations protovalidate reports, and returns them */
+function assertSameViolations(typeName: string, json: JsonValue): Omit<Violation, "message">[] {
+  const [expected, actual] = validate(typeName, json);
+  assert.deepEqual(actual, expected);
+  return actual;
+}
+
+const paths = (violations: Omit<Violation, "message">[]) => violations.map((violation) => violation.field && formatFieldPath(violation.field));
+
+describe("checkViolations", () => {
+  it("reports no violations for a valid message", () => {
+    assert.deepEqual(assertSameViolations("golden.v1.Lists", { scores: [1], items: [{ id: "0b5c6a3e-8f2d-4c1a-9e7b-3d4f5a6b7c8d" }] }), []);
+  });
+
+  it("reports field violations", () => {
+    const violations = assertSameViolations("golden.v1.Lists", { scores: [] });
+    assert.deepEqual(paths(violations), ["items", "scores"]);
+    assert.deepEqual(violations.map((violation) => violation.ruleId), ["repeated.min_items", "repeated.min_items"]);
+  });
+
+  it("reports the violations of repeated items with their index", () => {
+    const violations = assertSameViolations("golden.v1.Lists", {
+      emails: ["a@example.com", "not an email"],
+      scores: [1, 101],
+      items: [{ id: "not a uuid" }],
+      tags: ["ok", "Not-OK"],
+    });
+    assert.deepEqual(paths(violations).sort(), ["emails[1]", "items[0].id", "scores[1]", "tags[1]"]);
+  });
+
+  it("reports the violations of nested messages and map values with their key", () => {
+    const violations = assertSameViolations("golden.v1.Maps", {
+      labels: { ok: "x".repeat(33) },
+      entries: { "7": { value: "" } },
+      counts: { a: -1 },
+    });
+    assert.deepEqual(paths(violations).sort(), ['counts["a"]', "entries[7].value", 'labels["ok"]']);
+  });
+
+  it("reports the violations of map keys as such", () => {
+    const violations = assertSameViolations("golden.v1.Maps", { labels: { Invalid: "x" }, entries: { "1": {} } });
+    const violation = violations.find((v) => v.forKey);
+    assert.equal(violation?.ruleId, "string.pattern");
+    assert.deepEqual(violation?.rule?.elements.map((element) => element.fieldName), ["map", "keys", "string", "pattern"]);
+  });
+
+  it("reports message CEL violations with their rule id and no field", () => {
+    const violations = assertSameViolations("golden.v1.RangeFilter", {
+      minSizeBytes: "10",
+      maxSizeBytes: "5",
+      createdAfter: "2024-01-02T00:00:00Z",
+      createdBefore: "2024-01-01T00:00:00Z",
+    });
+    assert.deepEqual(
+      violations.map((violation) => [violation.field, violation.ruleId, violation.rule?.elements]),
+      [
+        [undefined, "range_filter.created_range", undefined],
+        [undefined, "range_filter.size_range", undefined],
+      ]
+    );
+  });
+
+  it("reports field CEL violations with the path of the rule", () => {
+    const violations = assertSameViolations("golden.v1.Pages", { pageSize: 10, total: 20, cursors: ["x"], name: "ab1" });
+    assert.deepEqual(
+      violations.map((violation) => [formatFieldPath(violation.field!), violation.ruleId, violation.rule?.elements]),
+      [
+        ["cursors", "pages.first_cursor", [{ fieldName: "cel", index: "0" }]],
+        ["name", "pages.name", [{ fieldName: "cel", index: "0" }]],
+      ]
+    );
+  });
+
+  it("names oneof members after their case, and stops at a case no member matches", () => {
+    const { GetItemRequestSchema } = loadSchemas("fixtures_oneof_unions", "oneofs_zod.ts");
+    const [member] = checkViolations(GetItemRequestSchema, { key: { $case: "name", name: "" } }).violations;
+    assert.equal(formatFieldPath(member.field!), "name");
+    assert.equal(member.ruleId, "string.min_len");
+
+    const [unknown] = checkViolations(GetItemRequestSchema, { key: { $case: "other", other: "" } }).violations;
+    assert.equal(formatFieldPath(unknown.field!), "key");
+    assert.equal(unknown.ruleId, "");
+  });
+});
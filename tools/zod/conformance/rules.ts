@@ -0,0 +1,67 @@
+/**
+ * Lists the buf.validate rules a message declares, as protovalidate rule paths
+ * e.g. "string.min_len", "repeated.items.string.pattern", "message.cel"
+ */
+
+import { getExtension, hasExtension, type DescMessage } from "@bufbuild/protobuf";
+import { reflect, type ReflectMessage } from "@bufbuild/protobuf/reflect";
+import {
+  field as fieldExtension,
+  message as messageExtension,
+  oneof as oneofExtension,
+  FieldRulesSchema,
+  MessageRulesSchema,
+  OneofRulesSchema,
+} from "@buf/bufbuild_protovalidate.bufbuild_es/buf/validate/validate_pb.js";
+
+/**
+ * Rules of a message, its oneofs and its fields (nested messages excluded)
+ */
+export function listRuleIds(desc: DescMessage): string[] {
+  const ids = new Set<string>();
+
+  const messageOptions = desc.proto.options;
+  if (messageOptions && hasExtension(messageOptions, messageExtension)) {
+    collectRuleIds(reflect(MessageRulesSchema, getExtension(messageOptions, messageExtension)), "message.", ids);
+  }
+  for (const oneof of desc.oneofs) {
+    const options = oneof.proto.options;
+    if (options && hasExtension(options, oneofExtension)) {
+      collectRuleIds(reflect(OneofRulesSchema, getExtension(options, oneofExtension)), "oneof.", ids);
+    }
+  }
+  for (const field of desc.fields) {
+    const options = field.proto.options;
+    if (options && hasExtension(options, fieldExtension)) {
+      collectRuleIds(reflect(FieldRulesSchema, getExtension(options, fieldExtension)), "", ids);
+    }
+  }
+  return Array.from(ids).sort();
+}
+
+/**
+ * Adds the path of every rule set in a rules message
+ *
+ * Typed rules (the `type` oneof of FieldRules) are descended into, as are the
+ * nested FieldRules of repeated items and map keys and values. Enum rules are
+ * suffixed with their value, since e.g. IGNORE_ALWAYS and IGNORE_IF_ZERO_VALUE
+ * behave nothing alike.
+ */
+function collectRuleIds(rules: ReflectMessage, prefix: string, ids: Set<string>): void {
+  for (const field of rules.fields) {
+    if (!rules.isSet(field)) {
+      continue;
+    }
+    const path = `${prefix}${field.name}`;
+    if (field.fieldKind === "message" && field.message.typeName === FieldRulesSchema.typeName) {
+      collectRuleIds(rules.get(field) as ReflectMessage, `${path}.`, ids);
+    } else if (field.fieldKind === "message" && field.oneof?.name === "type") {
+      collectRuleIds(rules.get(field) as ReflectMessage, `${path}.`, ids);
+    } else if (field.fieldKind === "enum") {
+      const value = field.enum.values.find((v) => v.number === rules.get(field));
+      ids.add(`${path}=${value?.name ?? rules.get(field)}`);
+    } else {
+      ids.add(path);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * protovalidate conformance harness for the generated Zod schemas
+ *
+ * Every case of ./suites is validated twice: by the schema protoc-gen-zod
+ * generated for the vendored case protos, and by @bufbuild/protovalidate, the
+ * reference. The verdicts are compared and reported per buf.validate rule.
+ * A disagreement fails the run, unless every rule it is attributed to is
+ * listed in ./unsupported.ts: the rules the reference reports broken when the
+ * schema accepts the message, or the rules of the schema's issues when it
+ * rejects a valid one.
+ *
+ * Run with `npm run test:conformance`, which generates ./gen first from the
+ * checked-in descriptor set ./image.binpb, so the run needs no buf registry.
+ * Rebuild it with `npm run test:conformance:image` after changing ./proto.
+ * Options: --verbose lists every disagreement, --json <file> writes the report
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  createFileRegistry,
+  fromBinary,
+  fromJson,
+  toBinary,
+  type DescField,
+  type DescMessage,
+  type FileRegistry,
+  type JsonObject,
+} from "@bufbuild/protobuf";
+import { FileDescriptorSetSchema } from "@bufbuild/protobuf/wkt";
+import { createValidator, type Validator, type Violation } from "@bufbuild/protovalidate";
+import type { ZodType } from "zod";
+import { listRuleIds } from "./rules.js";
+import { CASES_PACKAGE, SUITES, type Suite } from "./suites/index.js";
+import { toTsProto } from "./to-ts-proto.js";
+import { UNSUPPORTED_RULES } from "./unsupported.js";
+
+// The harness runs from tools/zod/dist/conformance, the generated code is compiled next to it
+const GENERATED_DIR = join(__dirname, "gen");
+const IMAGE_PATH = join(__dirname, "../../conformance/image.binpb");
+
+type Verdict = "valid" | "invalid";
+
+interface CaseResult {
+  suite: string;
+  message: string;
+  input: JsonObject;
+  rules: string[];
+  /** Verdict of @bufbuild/protovalidate */
+  expected: Verdict;
+  /** Verdict of the generated schema, or "error" if it threw or is missing */
+  actual: Verdict | "error";
+  /**
+   * Rules the disagreement is attributed to: broken according to the reference
+   * (expected invalid) or the schema (actual invalid), or every rule of the
+   * case if the schema threw
+   */
+  broken: string[];
+  /** First Zod issue or the error, for disagreements */
+  detail?: string;
+}
+
+interface RuleReport {
+  rule: string;
+  passed: number;
+  failed: number;
+  unsupported?: string;
+}
+
+interface Report {
+  cases: number;
+  passed: number;
+  failed: number;
+  /** Failures attributed to unsupported rules only */
+  expectedFailures: number;
+  /** Cases the reference could not evaluate */
+  skipped: { message: string; input: JsonObject; error: string }[];
+  rules: RuleReport[];
+  failures: CaseResult[];
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const verbose = args.includes("--verbose");
+  const jsonIndex = args.indexOf("--json");
+  const jsonPath = jsonIndex === -1 ? undefined : args[jsonIndex + 1];
+
+  const registry = createFileRegistry(fromBinary(FileDescriptorSetSchema, readFileSync(IMAGE_PATH)));
+  const validator = createValidator({ registry });
+
+  const results: CaseResult[] = [];
+  const skipped: Report["skipped"] = [];
+  for (const [name, suite] of Object.entries(SUITES)) {
+    runSuite(name, suite, registry, validator, results, skipped);
+  }
+
+  const report = buildReport(results, skipped);
+  printReport(report, verbose);
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  }
+  if (report.failed > report.expectedFailures) {
+    process.exitCode = 1;
+  }
+}
+
+function runSuite(
+  name: string,
+  suite: Suite,
+  registry: FileRegistry,
+  validator: Validator,
+  results: CaseResult[],
+  skipped: Report["skipped"]
+): void {
+  const schemas = loadSchemas(suite.file);
+
+  for (const [messageName, inputs] of Object.entries(suite.cases)) {
+    const desc = registry.getMessage(`${CASES_PACKAGE}.${messageName}`);
+    if (!desc) {
+      throw new Error(`${suite.file} has no message ${messageName}`);
+    }
+    const rules = listRuleIds(desc);
+    const schema = schemas?.[`${messageName.replace(/\./g, "_")}Schema`];
+
+    for (const input of inputs) {
+      // A binary round trip gives float fields their 32-bit value, as a decoded message has
+      const message = fromBinary(desc, toBinary(desc, fromJson(desc, input, { registry })));
+      const reference = validator.validate(desc, message);
+      if (reference.kind === "error") {
+        skipped.push({ message: messageName, input, error: reference.error.message });
+        continue;
+      }
+
+      const result: CaseResult = {
+        suite: name,
+        message: messageName,
+        input,
+        rules,
+        expected: reference.kind,
+        actual: "error",
+        broken: reference.kind === "invalid" ? reference.violations.map(violationRule) : [],
+      };
+      if (!schema) {
+        result.detail = `no ${messageName}Schema generated in ${suite.file}`;
+        result.broken = [];
+      } else {
+        validateWithSchema(schema, desc, message, result);
+      }
+      results.push(result);
+    }
+  }
+}
+
+/**
+ * Loads the generated Zod module of a case file, if it was generated
+ */
+function loadSchemas(protoFile: string): Record<string, ZodType> | undefined {
+  try {
+    return require(join(GENERATED_DIR, protoFile.replace(/\.proto$/, "_zod.js")));
+  } catch (error) {
+    console.error(`Warning: Could not load the schemas of ${protoFile}:`, error);
+    return undefined;
+  }
+}
+
+function validateWithSchema(
+  schema: ZodType,
+  desc: DescMessage,
+  message: Parameters<typeof toTsProto>[1],
+  result: CaseResult
+): void {
+  try {
+    const parsed = schema.safeParse(toTsProto(desc, message));
+    result.actual = parsed.success ? "valid" : "invalid";
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      result.detail = `${issue.path.join(".") || "(root)"}: ${issue.message}`;
+      if (result.expected === "valid") {
+        // Issues without a rule (type errors) are attributed to their code, which no rule excuses
+        result.broken = parsed.error.issues.map((i) => String(i.code === "custom" ? i.params?.rule ?? i.params?.ruleId : i.code));
+      }
+    }
+  } catch (error) {
+    result.detail = `threw ${error instanceof Error ? error.message : String(error)}`;
+    // Any rule of the case may have thrown
+    result.broken = result.rules;
+  }
+}
+
+function buildReport(results: CaseResult[], skipped: Report["skipped"]): Report {
+  const rules = new Map<string, RuleReport>();
+  const failures = results.filter((r) => r.actual !== r.expected);
+
+  for (const result of results) {
+    for (const rule of result.rules.length > 0 ? result.rules : ["(no rules)"]) {
+      const entry = rules.get(rule) ?? { rule, passed: 0, failed: 0, unsupported: UNSUPPORTED_RULES[rule] };
+      if (result.actual === result.expected) {
+        entry.passed++;
+      } else {
+        entry.failed++;
+      }
+      rules.set(rule, entry);
+    }
+  }
+
+  return {
+    cases: results.length,
+    passed: results.length - failures.length,
+    failed: failures.length,
+    expectedFailures: failures.filter(isExpectedFailure).length,
+    skipped,
+    rules: Array.from(rules.values()).sort((a, b) => a.rule.localeCompare(b.rule)),
+    failures,
+  };
+}
+
+/**
+ * Whether a disagreement is explained by unsupported rules
+ * Every broken rule has to be unsupported, except that an unsupported `ignore`
+ * rule, which decides whether the others apply, explains the schema skipping them.
+ */
+function isExpectedFailure(result: CaseResult): boolean {
+  const ignores = result.rules.some((rule) => rule in UNSUPPORTED_RULES && rule.split(".").pop()!.startsWith("ignore="));
+  if (ignores && result.expected === "invalid" && result.actual === "valid") {
+    return true;
+  }
+  return result.broken.length > 0 && result.broken.every((rule) => rule in UNSUPPORTED_RULES);
+}
+
+/**
+ * Formats the rule of a reference violation as a rule path of rules.ts,
+ * e.g. "repeated.items.string.min_len", "message.oneof"
+ */
+function violationRule(violation: Violation): string {
+  const fields = violation.rule.filter((item): item is DescField => item.kind === "field");
+  if (fields.length === 0) {
+    return violation.ruleId;
+  }
+  const scope = fields[0].parent.typeName.replace(/^buf\.validate\./, "");
+  const prefix = scope === "MessageRules" ? "message." : scope === "OneofRules" ? "oneof." : "";
+  return prefix + fields.map((field) => field.name).join(".");
+}
+
+function printReport(report: Report, verbose: boolean): void {
+  console.log("Rules:");
+  for (const rule of report.rules.filter((r) => !r.unsupported)) {
+    const failures = report.failures.filter((f) => f.rules.includes(rule.rule) && !isExpectedFailure(f));
+    // XFAIL: the rule only fails on cases whose failures are attributed to unsupported rules
+    const status = rule.failed === 0 ? "PASS" : failures.length === 0 ? "XFAIL" : "FAIL";
+    console.log(`  ${status} ${rule.rule} (${rule.passed}/${rule.passed + rule.failed})`);
+    printFailures(failures, verbose);
+  }
+
+  console.log();
+  console.log("Unsupported rules (see unsupported.ts):");
+  for (const [rule, reason] of Object.entries(UNSUPPORTED_RULES)) {
+    const entry = report.rules.find((r) => r.rule === rule);
+    const counts = entry ? `${entry.passed}/${entry.passed + entry.failed}` : "no cases";
+    const note = entry && entry.failed === 0 ? " - now passes, remove it from the list" : "";
+    console.log(`  ${rule} (${counts}): ${reason}${note}`);
+    if (verbose && entry) {
+      printFailures(report.failures.filter((f) => f.rules.includes(rule)), verbose);
+    }
+  }
+
+  if (report.skipped.length > 0) {
+    console.log();
+    console.log("Skipped, the reference could not evaluate them:");
+    for (const skip of report.skipped) {
+      console.log(`  ${skip.message} ${JSON.stringify(skip.input)}: ${skip.error}`);
+    }
+  }
+
+  console.log();
+  console.log(
+    `${report.cases} cases: ${report.passed} passed, ${report.failed} failed ` +
+    `(${report.expectedFailures} on unsupported rules), ${report.skipped.length} skipped`
+  );
+}
+
+function printFailures(failures: CaseResult[], verbose: boolean): void {
+  const shown = verbose ? failures : failures.slice(0, 3);
+  for (const failure of shown) {
+    console.log(
+      `      ${failure.message} ${JSON.stringify(failure.input)}: ` +
+      `expected ${failure.expected}, got ${failure.actual}${failure.detail ? ` (${failure.detail})` : ""}`
+    );
+  }
+  if (shown.length < failures.length) {
+    console.log(`      ... ${failures.length - shown.length} more (--verbose)`);
+  }
+}
+
+main();
@@ -0,0 +1,10 @@
+import type { Suite } from "./suite.js";
+
+export const bool: Suite = {
+  file: "buf/validate/conformance/cases/bool.proto",
+  cases: {
+    BoolNone: [{}, { val: true }],
+    BoolConstTrue: [{ val: true }, { val: false }, {}],
+    BoolConstFalse: [{ val: false }, { val: true }, {}],
+  },
+};
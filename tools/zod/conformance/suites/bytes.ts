@@ -0,0 +1,23 @@
+import type { Suite } from "./suite.js";
+
+// Bytes are base64 in the protobuf JSON format
+export const bytes: Suite = {
+  file: "buf/validate/conformance/cases/bytes.proto",
+  cases: {
+    BytesNone: [{}, { val: "cXV1eA==" }],
+    BytesConst: [{ val: "Zm9v" }, { val: "YmFy" }, {}],
+    BytesIn: [{ val: "YmFy" }, { val: "cXV1eA==" }],
+    BytesNotIn: [{ val: "cXV1eA==" }, { val: "Zml6eg==" }],
+    BytesLen: [{ val: "YmF6" }, { val: "Z28=" }, { val: "aGVsbG8=" }],
+    BytesMinLen: [{ val: "Zml6eg==" }, { val: "Zm8=" }],
+    BytesMaxLen: [{ val: "Zm9v" }, { val: "MTIzNDU2Nzg5MA==" }],
+    BytesPattern: [{ val: "Zm9v" }, { val: "4pyT" }, {}],
+    BytesPrefix: [{ val: "mXg=" }, { val: "eJk=" }],
+    BytesContains: [{ val: "Y2FuZHkgYmFycw==" }, { val: "Y2FuZHkgYmFy" }, { val: "Y2FuZHkgY2FuZXM=" }],
+    BytesSuffix: [{ val: "Zm9vYnV6eg==" }, { val: "Zm9vYmFy" }],
+    BytesIP: [{ val: "wKgAAQ==" }, { val: "IAENuAAAAAAAAAAAAAAAAQ==" }, { val: "AQID" }],
+    BytesIPv4: [{ val: "wKgAAQ==" }, { val: "IAENuAAAAAAAAAAAAAAAAQ==" }],
+    BytesIPv6: [{ val: "IAENuAAAAAAAAAAAAAAAAQ==" }, { val: "wKgAAQ==" }],
+    BytesUUID: [{ val: "ixCDBQDoRGCkQF4NzYO7Cg==" }, { val: "ixCDBQDo" }],
+  },
+};
@@ -0,0 +1,20 @@
+import type { Suite } from "./suite.js";
+
+export const customRules: Suite = {
+  file: "buf/validate/conformance/cases/custom_rules.proto",
+  cases: {
+    NoExpressions: [{}, { a: 1, b: "ENUM_ONE", c: {} }],
+    MessageExpressions: [
+      { a: 3, b: 4, c: "ENUM_ONE", e: { a: 1, b: 0 }, f: { a: 1, b: 0 } },
+      { a: 4, b: 3 },
+      { a: 1, b: 2, c: "ENUM_ONE", d: "ENUM_ONE" },
+      { a: 1, b: 2, e: { a: 2, b: 1 }, f: { a: 3, b: 1 } },
+      { a: 1, b: 2, e: { a: 1, b: 2 }, f: { a: 1, b: 0 } },
+    ],
+    FieldExpressionScalar: [{ val: 43 }, {}],
+    FieldExpressionEnum: [{ val: "ENUM_ONE" }, {}],
+    FieldExpressionRepeatedScalar: [{ val: [1, 1] }, { val: [1, 2] }],
+    FieldExpressionMapString: [{ val: { a: "foo", b: "foo" } }, { val: { a: "foo", b: "bar" } }],
+    FieldExpressionStringFunctions: [{ val: "abcz" }, { val: "abc" }],
+  },
+};
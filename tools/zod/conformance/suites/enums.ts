@@ -0,0 +1,14 @@
+import type { Suite } from "./suite.js";
+
+export const enums: Suite = {
+  file: "buf/validate/conformance/cases/enums.proto",
+  cases: {
+    EnumNone: [{}, { val: "TEST_ENUM_ONE" }],
+    EnumConst: [{ val: "TEST_ENUM_TWO" }, { val: "TEST_ENUM_ONE" }, {}],
+    EnumDefined: [{ val: "TEST_ENUM_UNSPECIFIED" }, { val: "TEST_ENUM_TWO" }, { val: 2147483647 }, { val: -1 }],
+    EnumIn: [{ val: "TEST_ENUM_TWO" }, {}, { val: "TEST_ENUM_ONE" }],
+    EnumNotIn: [{ val: "TEST_ENUM_TWO" }, { val: "TEST_ENUM_ONE" }],
+    RepeatedEnumDefined: [{ val: ["TEST_ENUM_ONE", "TEST_ENUM_TWO"] }, { val: ["TEST_ENUM_ONE", 3] }],
+    MapEnumDefined: [{ val: { foo: "TEST_ENUM_TWO" } }, { val: { foo: 3 } }],
+  },
+};
@@ -0,0 +1,17 @@
+import type { Suite } from "./suite.js";
+
+export const ignore: Suite = {
+  file: "buf/validate/conformance/cases/ignore_proto3.proto",
+  cases: {
+    Proto3ScalarIgnoreUnspecified: [{ val: 1 }, {}, { val: -1 }],
+    Proto3ScalarIgnoreEmpty: [{ val: 1 }, {}, { val: -1 }],
+    Proto3ScalarIgnoreAlways: [{ val: 1 }, {}, { val: -1 }],
+    Proto3ScalarOptionalIgnoreUnspecified: [{ val: 1 }, {}, { val: 0 }],
+    Proto3ScalarOptionalIgnoreEmpty: [{ val: 1 }, {}, { val: 0 }, { val: -1 }],
+    Proto3StringIgnoreEmpty: [{ val: "foo" }, {}, { val: "x" }],
+    Proto3RepeatedIgnoreEmpty: [{ val: [1, 2, 3] }, {}, { val: [1] }],
+    Proto3MapIgnoreEmpty: [{ val: { "1": 1, "2": 2, "3": 3 } }, {}, { val: { "1": 1 } }],
+    Proto3MessageIgnoreAlways: [{ val: { val: "foo" } }, { val: { val: "bar" } }, {}],
+    Proto3RepeatedItemIgnoreEmpty: [{ val: [1, 0, 2] }, { val: [1, -1] }],
+  },
+};
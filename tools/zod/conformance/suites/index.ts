@@ -0,0 +1,38 @@
+/**
+ * The conformance suites, one per vendored case file
+ */
+
+import { bool } from "./bool.js";
+import { bytes } from "./bytes.js";
+import { customRules } from "./custom-rules.js";
+import { enums } from "./enums.js";
+import { ignore } from "./ignore.js";
+import { maps } from "./maps.js";
+import { numbers } from "./numbers.js";
+import { oneofs } from "./oneofs.js";
+import { repeated } from "./repeated.js";
+import { required } from "./required.js";
+import { strings } from "./strings.js";
+import type { Suite } from "./suite.js";
+import { wktDuration } from "./wkt-duration.js";
+import { wktTimestamp } from "./wkt-timestamp.js";
+import { wktWrappers } from "./wkt-wrappers.js";
+
+export { CASES_PACKAGE, type Suite } from "./suite.js";
+
+export const SUITES: Record<string, Suite> = {
+  bool,
+  bytes,
+  customRules,
+  enums,
+  ignore,
+  maps,
+  numbers,
+  oneofs,
+  repeated,
+  required,
+  strings,
+  wktDuration,
+  wktTimestamp,
+  wktWrappers,
+};
@@ -0,0 +1,18 @@
+import type { Suite } from "./suite.js";
+
+// Map keys are strings in the protobuf JSON format, whatever their type
+export const maps: Suite = {
+  file: "buf/validate/conformance/cases/maps.proto",
+  cases: {
+    MapNone: [{ val: { "123": true, "456": false } }],
+    MapMin: [{ val: { "1": 2, "3": 4 } }, { val: { "1": 2 } }],
+    MapMax: [{ val: { "1": 2, "3": 4 } }, { val: { "1": 2, "3": 4, "5": 6, "7": 8 } }],
+    MapMinMax: [{ val: { a: true, b: false } }, { val: { a: true } }, { val: { a: true, b: false, c: true, d: false, e: true } }],
+    MapKeys: [{ val: { "-1": "a", "-2": "b" } }, {}, { val: { "1": "a" } }],
+    MapValues: [{ val: { a: "Alpha", b: "Beta" } }, { val: { a: "A", b: "Beta" } }],
+    MapKeysPattern: [{ val: { A: "a" } }, { val: { A: "a", "!@#$%^&*()": "b" } }],
+    MapValuesPattern: [{ val: { a: "A" } }, { val: { a: "A", b: "!@#$%^&*()" } }],
+    MapBoolKeys: [{ val: { true: "yes" } }, {}],
+    MapRecursive: [{ val: { "1": { val: "abc" } } }, { val: { "1": {} } }],
+  },
+};
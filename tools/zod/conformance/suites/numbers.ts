@@ -0,0 +1,47 @@
+import type { Suite } from "./suite.js";
+
+// 64-bit integers are strings in the protobuf JSON format
+export const numbers: Suite = {
+  file: "buf/validate/conformance/cases/numbers.proto",
+  cases: {
+    FloatNone: [{}, { val: -1.5 }],
+    FloatConst: [{ val: 1.23 }, { val: 4.56 }],
+    FloatIn: [{ val: 7.89 }, { val: 10 }],
+    FloatNotIn: [{ val: 1 }, {}],
+    FloatLT: [{ val: -1 }, {}, { val: 1 }],
+    FloatGTE: [{ val: 128 }, { val: 256 }, { val: 127 }],
+    FloatGTLT: [{ val: 5 }, { val: 0 }, { val: 10 }, { val: "NaN" }],
+    FloatExLTGT: [{ val: -1 }, { val: 11 }, { val: 5 }, { val: 0 }],
+    FloatFinite: [{ val: 1 }, { val: "Infinity" }, { val: "NaN" }],
+    DoubleConst: [{ val: 1.23 }, { val: 3.21 }],
+    DoubleGT: [{ val: 17 }, { val: 16 }, { val: "NaN" }],
+    DoubleExGTELTE: [{ val: 300 }, { val: 100 }, { val: 256 }, { val: 200 }],
+    DoubleFinite: [{ val: -2 }, { val: "-Infinity" }],
+    Int32None: [{}, { val: 123 }],
+    Int32Const: [{ val: 1 }, { val: 2 }],
+    Int32ConstZero: [{}, { val: 1 }],
+    Int32In: [{ val: 3 }, { val: 5 }],
+    Int32NotIn: [{ val: 1 }, {}],
+    Int32LT: [{ val: -1 }, {}],
+    Int32LTE: [{ val: 64 }, { val: 65 }],
+    Int32GT: [{ val: 17 }, { val: 16 }],
+    Int32GTE: [{ val: 8 }, { val: 7 }],
+    Int32GTLT: [{ val: 5 }, { val: 0 }, { val: 10 }],
+    Int32ExLTGT: [{ val: -1 }, { val: 11 }, { val: 5 }, { val: 10 }],
+    Int64Const: [{ val: "1" }, { val: "2" }],
+    Int64In: [{ val: "3" }, { val: "5" }],
+    Int64GTLT: [{ val: "5" }, { val: "0" }, { val: "10" }],
+    Int64ExLTGT: [{ val: "-1" }, { val: "11" }, { val: "5" }],
+    Int64BigRules: [{ val: "9007199254740992" }, { val: "9007199254740993" }, { val: "-9007199254740993" }],
+    UInt32GTE: [{ val: 8 }, { val: 7 }],
+    UInt32ExGTELTE: [{ val: 300 }, { val: 100 }, { val: 200 }],
+    UInt64NotIn: [{ val: "1" }, {}],
+    UInt64LTE: [{ val: "64" }, { val: "65" }, { val: "18446744073709551615" }],
+    SInt32GT: [{ val: 17 }, { val: 16 }],
+    SInt64In: [{ val: "2" }, { val: "4" }],
+    Fixed32LT: [{ val: 4 }, { val: 5 }],
+    Fixed64GTE: [{ val: "8" }, { val: "7" }],
+    SFixed32Const: [{ val: 1 }, { val: 0 }],
+    SFixed64ExLTGT: [{ val: "-1" }, { val: "11" }, { val: "5" }],
+  },
+};
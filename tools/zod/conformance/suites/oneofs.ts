@@ -0,0 +1,13 @@
+import type { Suite } from "./suite.js";
+
+export const oneofs: Suite = {
+  file: "buf/validate/conformance/cases/oneofs.proto",
+  cases: {
+    OneofNone: [{ x: "foo" }, { y: 123 }, {}],
+    Oneof: [{ x: "foobar" }, { y: 123 }, { z: { val: true } }, {}, { x: "fizzbuzz" }, { y: -1 }, { z: {} }],
+    OneofRequired: [{ x: "" }, { y: 0 }, { nameWithUnderscores: 1 }, {}],
+    OneofIgnoreEmpty: [{ x: "" }, { y: "" }, { z: 0 }, { x: "abc" }, { x: "a" }, { y: "YQ==" }, { z: 1 }],
+    MessageOneofSingleField: [{}, { strField: "foo" }, { boolField: true }, { strField: "foo", boolField: true }],
+    MessageOneofRequired: [{ strField: "foo" }, {}, { strField: "foo", boolField: true }],
+  },
+};
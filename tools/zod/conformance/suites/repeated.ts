@@ -0,0 +1,19 @@
+import type { Suite } from "./suite.js";
+
+export const repeated: Suite = {
+  file: "buf/validate/conformance/cases/repeated.proto",
+  cases: {
+    RepeatedNone: [{}, { val: ["1", "2", "3"] }],
+    RepeatedEmbedNone: [{ val: [{ val: "1" }] }, { val: [{ val: "-1" }] }],
+    RepeatedMin: [{ val: [{ val: "1" }, { val: "2" }] }, { val: [{ val: "1" }] }, { val: [{ val: "1" }, { val: "-1" }] }],
+    RepeatedMax: [{ val: [1, 2] }, { val: [1, 2, 3, 4] }],
+    RepeatedMinMax: [{ val: [1, 2, 3] }, {}, { val: [1, 2, 3, 4, 5] }],
+    RepeatedExact: [{ val: [1, 2, 3] }, { val: [1, 2] }],
+    RepeatedUnique: [{ val: ["foo", "bar", "baz"] }, { val: ["foo", "Foo"] }, { val: ["foo", "bar", "foo"] }],
+    RepeatedUniqueBytes: [{ val: ["Zm9v", "YmFy"] }, { val: ["Zm9v", "Zm9v"] }],
+    RepeatedItemRule: [{ val: [1, 2, 3] }, { val: [1, -2, 3] }, { val: [1, 0] }],
+    RepeatedItemPattern: [{ val: ["Alpha", "Beta123"] }, { val: ["Alpha", "!@#$%^&*()"] }],
+    RepeatedItemIn: [{ val: ["foo"] }, { val: ["baz"] }],
+    RepeatedMinAndItemLen: [{ val: ["aaa", "bbb"] }, {}, { val: ["x"] }],
+  },
+};
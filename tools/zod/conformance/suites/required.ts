@@ -0,0 +1,13 @@
+import type { Suite } from "./suite.js";
+
+export const required: Suite = {
+  file: "buf/validate/conformance/cases/required_field_proto3.proto",
+  cases: {
+    RequiredProto3Scalar: [{ val: "foo" }, {}],
+    RequiredProto3OptionalScalar: [{ val: "" }, {}],
+    RequiredProto3Message: [{ val: {} }, {}],
+    RequiredProto3OneOf: [{ a: "foo" }, { b: "foo" }, { a: "" }, {}],
+    RequiredProto3Repeated: [{ val: ["foo"] }, {}],
+    RequiredProto3Map: [{ val: { foo: "bar" } }, {}],
+  },
+};
@@ -0,0 +1,77 @@
+import type { Suite } from "./suite.js";
+
+export const strings: Suite = {
+  file: "buf/validate/conformance/cases/strings.proto",
+  cases: {
+    StringNone: [{}, { val: "quux" }],
+    StringConst: [{ val: "foo" }, { val: "bar" }, {}],
+    StringIn: [{ val: "bar" }, { val: "quux" }],
+    StringNotIn: [{ val: "quux" }, { val: "fizz" }],
+    StringLen: [{ val: "baz" }, { val: "😅😄👾" }, { val: "ab" }, { val: "abcd" }],
+    StringMinLen: [{ val: "protoc" }, { val: "bar" }, { val: "pb" }, { val: "😅😄" }],
+    StringMaxLen: [{ val: "proto" }, { val: "😅😄👾😅😄" }, { val: "1234567890" }],
+    StringMinMaxLen: [{ val: "quux" }, { val: "pb" }, { val: "validate" }],
+    StringLenBytes: [{ val: "pace" }, { val: "😅" }, { val: "abc" }, { val: "ééé" }],
+    StringMinBytes: [{ val: "proto" }, { val: "😅" }, { val: "éé" }, { val: "abc" }],
+    StringMaxBytes: [{ val: "foo" }, { val: "😅😅" }, { val: "😅😅😅" }, { val: "123456789" }],
+    StringPattern: [{ val: "Foo123" }, { val: "foo bar" }, {}],
+    StringPatternEscapes: [{ val: "* \\ x" }, { val: "invalid" }],
+    StringPrefix: [{ val: "foo" }, { val: "foobar" }, { val: "bar" }, { val: "fo" }],
+    StringContains: [{ val: "foobarbaz" }, { val: "foo" }],
+    StringNotContains: [{ val: "foo" }, { val: "foobar" }],
+    StringSuffix: [{ val: "foobarbaz" }, { val: "baz" }, { val: "foobar" }],
+    StringEmail: [
+      { val: "foo@bar.com" },
+      { val: "foo@bar" },
+      { val: "John Smith <foo@bar.com>" },
+      { val: "foobar" },
+      { val: "foo@bar.com " },
+      {},
+    ],
+    StringAddress: [{ val: "example.com" }, { val: "127.0.0.1" }, { val: "::1" }, { val: "-foo.bar" }, { val: "ab:cd::ef:ab:cd::" }],
+    StringHostname: [
+      { val: "example.com" },
+      { val: "ASD.example.com" },
+      { val: "example.com." },
+      { val: "-foo.bar" },
+      { val: "foo.123" },
+      { val: "foo_bar.com" },
+      { val: "a".repeat(64) + ".com" },
+    ],
+    StringIP: [{ val: "192.168.0.1" }, { val: "3e::99" }, { val: "::ffff:192.168.0.1" }, { val: "foobar" }, { val: "1.2.3.256" }],
+    StringIPv4: [{ val: "192.168.0.1" }, { val: "3e::99" }, { val: "1.2.3" }, { val: "01.2.3.4" }],
+    StringIPv6: [{ val: "2001:db8::1" }, { val: "fe80::1%eth0" }, { val: "192.168.0.1" }, { val: "ff::fff::0b" }],
+    StringIPWithPrefixLen: [{ val: "192.168.0.1/24" }, { val: "fe80::1/64" }, { val: "192.168.0.1" }, { val: "10.0.0.0/33" }],
+    StringIPv4Prefix: [{ val: "192.168.0.0/24" }, { val: "192.168.0.1/24" }, { val: "fe80::/64" }],
+    StringIPv6Prefix: [{ val: "fe80::/64" }, { val: "fe80::1/64" }, { val: "192.168.0.0/24" }],
+    StringURI: [
+      { val: "https://example.com/foo/bar?baz=quux" },
+      { val: "https://[::1]:8080/" },
+      { val: "/foo/bar" },
+      { val: "!@#$%^&*" },
+      { val: "https://example.com/foo bar" },
+    ],
+    StringURIRef: [{ val: "/foo/bar?baz=quux" }, { val: "./foo" }, { val: "https://example.com" }, { val: "!@#$%^&*" }, { val: "foo:bar:baz" }],
+    StringUUID: [
+      { val: "00000000-0000-0000-0000-000000000000" },
+      { val: "8b208305-00e8-4460-a440-5e0dcd83bb0a" },
+      { val: "8B208305-00E8-4460-A440-5E0DCD83BB0A" },
+      { val: "8b20830500e84460a4405e0dcd83bb0a" },
+      { val: "foobar" },
+      {},
+    ],
+    StringTUUID: [{ val: "8b20830500e84460a4405e0dcd83bb0a" }, { val: "8b208305-00e8-4460-a440-5e0dcd83bb0a" }, { val: "x" }],
+    StringULID: [{ val: "01ARZ3NDEKTSV4RRFFQ69G5FAV" }, { val: "01arz3ndektsv4rrffq69g5fav" }, { val: "81ARZ3NDEKTSV4RRFFQ69G5FAV" }, { val: "01ARZ3NDEKTSV4RRFFQ69G5FAI" }],
+    StringHostAndPort: [
+      { val: "example.com:80" },
+      { val: "127.0.0.1:65535" },
+      { val: "[::1]:8080" },
+      { val: "example.com" },
+      { val: "example.com:65536" },
+      { val: "::1:8080" },
+    ],
+    StringHttpHeaderName: [{ val: "clustername" }, { val: ":authority" }, { val: "foo bar" }, { val: "foo\u0000bar" }, {}],
+    StringHttpHeaderValue: [{ val: "cluster name" }, { val: "foo\tbar" }, { val: "foo\u007fbar" }, { val: "foo\rbar" }],
+    StringHttpHeaderNameLoose: [{ val: "foo bar" }, { val: "foo\rbar" }, { val: "foo\u0000bar" }],
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Shape of the conformance suites
+ */
+
+import type { JsonObject } from "@bufbuild/protobuf";
+
+/** Package of the vendored protovalidate conformance cases */
+export const CASES_PACKAGE = "buf.validate.conformance.cases";
+
+export interface Suite {
+  /** Proto file the messages are declared in, e.g. "buf/validate/conformance/cases/strings.proto" */
+  file: string;
+  /**
+   * Inputs to validate, keyed by message name, in the protobuf JSON format
+   * The expected verdict is not recorded: @bufbuild/protovalidate decides it.
+   */
+  cases: Record<string, JsonObject[]>;
+}
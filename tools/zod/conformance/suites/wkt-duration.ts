@@ -0,0 +1,17 @@
+import type { Suite } from "./suite.js";
+
+// Durations are decimal seconds with an "s" suffix in the protobuf JSON format
+export const wktDuration: Suite = {
+  file: "buf/validate/conformance/cases/wkt_duration.proto",
+  cases: {
+    DurationNone: [{}, { val: "123s" }],
+    DurationRequired: [{ val: "0s" }, {}],
+    DurationConst: [{ val: "3s" }, { val: "3.000000001s" }, {}],
+    DurationIn: [{ val: "1s" }, { val: "0.000001s" }, { val: "0s" }],
+    DurationNotIn: [{ val: "0.000000001s" }, { val: "0s" }],
+    DurationLT: [{ val: "-0.000000001s" }, { val: "0s" }, { val: "1s" }],
+    DurationGTE: [{ val: "0.001s" }, { val: "0.000999999s" }, { val: "-1s" }],
+    DurationGTLT: [{ val: "0.5s" }, { val: "0s" }, { val: "1s" }],
+    DurationExLTGT: [{ val: "-1s" }, { val: "2s" }, { val: "0.5s" }, { val: "1s" }],
+  },
+};
@@ -0,0 +1,20 @@
+import type { Suite } from "./suite.js";
+
+// Timestamps are RFC 3339 strings in the protobuf JSON format
+export const wktTimestamp: Suite = {
+  file: "buf/validate/conformance/cases/wkt_timestamp.proto",
+  cases: {
+    TimestampNone: [{}, { val: "2009-11-10T23:00:00Z" }],
+    TimestampRequired: [{ val: "1970-01-01T00:00:00Z" }, {}],
+    TimestampConst: [{ val: "1970-01-01T00:00:03Z" }, { val: "1970-01-01T00:00:03.001Z" }, {}],
+    TimestampLT: [{ val: "1969-12-31T23:59:59Z" }, { val: "1970-01-01T00:00:00Z" }, {}],
+    TimestampLTE: [{ val: "1970-01-01T00:00:01Z" }, { val: "1970-01-01T00:00:01.5Z" }],
+    TimestampGT: [{ val: "1970-01-01T00:00:00.000001001Z" }, { val: "1970-01-01T00:00:00.000001Z" }, { val: "1970-01-01T00:00:00.0000005Z" }],
+    TimestampGTE: [{ val: "1970-01-01T00:00:00.001Z" }, { val: "1970-01-01T00:00:00.000999Z" }],
+    TimestampGTLT: [{ val: "1970-01-01T00:00:00.5Z" }, { val: "1970-01-01T00:00:00Z" }, { val: "1970-01-01T00:00:01Z" }],
+    TimestampExLTGT: [{ val: "1969-12-31T00:00:00Z" }, { val: "1970-01-01T00:00:02Z" }, { val: "1970-01-01T00:00:00.5Z" }],
+    TimestampLTNow: [{ val: "1970-01-01T00:00:00Z" }, { val: "2999-01-01T00:00:00Z" }, {}],
+    TimestampGTNow: [{ val: "2999-01-01T00:00:00Z" }, { val: "1970-01-01T00:00:00Z" }],
+    TimestampWithin: [{ val: "1970-01-01T00:00:00Z" }, { val: "2999-01-01T00:00:00Z" }],
+  },
+};
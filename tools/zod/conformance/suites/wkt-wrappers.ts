@@ -0,0 +1,15 @@
+import type { Suite } from "./suite.js";
+
+export const wktWrappers: Suite = {
+  file: "buf/validate/conformance/cases/wkt_wrappers.proto",
+  cases: {
+    WrapperNone: [{}, { val: 123 }],
+    WrapperDouble: [{ val: 1.5 }, { val: 0 }, {}],
+    WrapperInt64: [{ val: "42" }, { val: "0" }, {}],
+    WrapperUInt32: [{ val: 1 }, { val: 0 }],
+    WrapperBool: [{ val: true }, { val: false }, {}],
+    WrapperString: [{ val: "foobar" }, { val: "fizzbuzz" }, {}],
+    WrapperBytes: [{ val: "Zm9v" }, { val: "eA==" }],
+    WrapperRequiredString: [{ val: "bar" }, { val: "foo" }, {}],
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * Converts protobuf-es messages to the objects ts-proto decodes them into
+ *
+ * The generated schemas validate ts-proto objects (buf.gen.ts.yaml options:
+ * useOptionals=messages, useDate=true, forceLong=string, snakeToCamel=keys,
+ * env=node), while @bufbuild/protovalidate validates protobuf-es messages.
+ * Each case is parsed once with protobuf-es and converted here, so both sides
+ * see the same value.
+ */
+
+import {
+  ScalarType,
+  isFieldSet,
+  toJson,
+  type DescField,
+  type DescMessage,
+  type Message,
+} from "@bufbuild/protobuf";
+import { ListValueSchema, ValueSchema } from "@bufbuild/protobuf/wkt";
+
+/**
+ * Converts a message to its ts-proto shape
+ */
+export function toTsProto(desc: DescMessage, message: Message): Record<string, unknown> {
+  const fields = message as unknown as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const member of desc.members) {
+    // Oneof members are separate optional properties (ts-proto oneof=properties)
+    if (member.kind === "oneof") {
+      const selected = fields[member.localName] as { case?: string; value?: unknown };
+      for (const field of member.fields) {
+        result[tsProtoName(field)] = selected.case === field.localName
+          ? toTsProtoSingular(field, selected.value)
+          : undefined;
+      }
+      continue;
+    }
+
+    const field = member;
+    const value = fields[field.localName];
+    switch (field.fieldKind) {
+      case "list":
+        result[tsProtoName(field)] = (value as unknown[]).map((item) => toTsProtoSingular(field, item));
+        break;
+      case "map":
+        result[tsProtoName(field)] = Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, toTsProtoSingular(field, item)])
+        );
+        break;
+      default:
+        // Messages and fields with explicit presence are undefined when unset
+        result[tsProtoName(field)] = field.fieldKind === "message" || field.proto.proto3Optional
+          ? (isFieldSet(message, field) ? toTsProtoSingular(field, value) : undefined)
+          : toTsProtoSingular(field, value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a single value of a field (an item, for lists and maps)
+ */
+function toTsProtoSingular(field: DescField, value: unknown): unknown {
+  if (field.message) {
+    return toTsProtoMessage(field.message, value);
+  }
+  if (field.scalar !== undefined) {
+    return toTsProtoScalar(field.scalar, value);
+  }
+  // Enums are plain numbers
+  return value;
+}
+
+function toTsProtoMessage(desc: DescMessage, value: unknown): unknown {
+  switch (desc.typeName) {
+    case "google.protobuf.Timestamp": {
+      const { seconds, nanos } = value as { seconds: bigint; nanos: number };
+      return new Date(Number(seconds) * 1000 + nanos / 1000000);
+    }
+    case "google.protobuf.Duration": {
+      const { seconds, nanos } = value as { seconds: bigint; nanos: number };
+      return { seconds: seconds.toString(), nanos };
+    }
+    // protobuf-es unboxes wrappers and Struct like ts-proto, only 64-bit and bytes values differ
+    case "google.protobuf.Int64Value":
+    case "google.protobuf.UInt64Value":
+      return (value as bigint).toString();
+    case "google.protobuf.BytesValue":
+      return Buffer.from(value as Uint8Array);
+    case "google.protobuf.DoubleValue":
+    case "google.protobuf.FloatValue":
+    case "google.protobuf.Int32Value":
+    case "google.protobuf.UInt32Value":
+    case "google.protobuf.BoolValue":
+    case "google.protobuf.StringValue":
+    case "google.protobuf.Struct":
+      return value;
+    case "google.protobuf.Value":
+      return toJson(ValueSchema, value as Message<"google.protobuf.Value"> as never);
+    case "google.protobuf.ListValue":
+      return toJson(ListValueSchema, value as Message<"google.protobuf.ListValue"> as never);
+    default:
+      return toTsProto(desc, value as Message);
+  }
+}
+
+function toTsProtoScalar(scalar: ScalarType, value: unknown): unknown {
+  switch (scalar) {
+    // forceLong=string
+    case ScalarType.INT64:
+    case ScalarType.UINT64:
+    case ScalarType.SINT64:
+    case ScalarType.FIXED64:
+    case ScalarType.SFIXED64:
+      return (value as bigint).toString();
+    // env=node decodes bytes into Buffers
+    case ScalarType.BYTES:
+      return Buffer.from(value as Uint8Array);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Property name ts-proto uses for a field with snakeToCamel=keys
+ */
+function tsProtoName(field: DescField): string {
+  if (!field.name.includes("_")) {
+    return field.name;
+  }
+  const hasLowerCase = /[a-z]/.test(field.name);
+  return field.name
+    .split("_")
+    .map((word, i) => {
+      const normalized = hasLowerCase ? word : word.toLowerCase();
+      return i === 0 ? normalized : normalized.charAt(0).toUpperCase() + normalized.slice(1);
+    })
+    .join("");
+}
@@ -0,0 +1,21 @@
+/**
+ * buf.validate rules the generated schemas are known not to enforce
+ *
+ * Keyed by rule path (see rules.ts), with the reason. Disagreements with the
+ * reference on cases that use one of these rules are reported, but do not fail
+ * the conformance run. Remove an entry once validation-mapper.ts supports it.
+ */
+
+export const UNSUPPORTED_RULES: Record<string, string> = {
+  "float.const": "not generated for float fields",
+  "float.in": "not generated for float fields",
+  "float.not_in": "not generated for float fields",
+  "double.const": "not generated for double fields",
+  "int32.const": "const = 0 is not generated",
+  "enum.const": "not generated",
+  "required": "only checks presence, zero scalars and empty lists and maps pass",
+  "ignore=IGNORE_IF_ZERO_VALUE": "also skips set zero values of fields with presence, which protovalidate validates",
+  "message.oneof": "(buf.validate.message).oneof is not generated",
+  "repeated.unique": "compares items by identity, so equal bytes items pass",
+  "timestamp.gt": "Date has millisecond precision (useDate=true), sub-millisecond bounds are truncated",
+};
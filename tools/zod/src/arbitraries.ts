@@ -0,0 +1,806 @@
+/**
+ * Generates fast-check arbitraries of the messages and enums, for property-based tests
+ *
+ * With arbitraries=true, <file>_arbitraries.ts exports for each message and enum of the file:
+ * - `arbitrary<Message>(maxDepth = 2)`, an `fc.Arbitrary` of messages that satisfy
+ *   their buf.validate rules. References along a cycle, which the schemas wrap
+ *   in z.lazy(), are followed at most maxDepth times, optional ones being left
+ *   unset below that depth.
+ * - `arbitrary<Enum>()`, an `fc.Arbitrary` of the values of the enum
+ *
+ * Values follow the rules of each field as the fixtures do (see fixtures.ts),
+ * from fast-check combinators so that failing values shrink: strings from their
+ * pattern (parsed as for the fixtures), format or length, numbers from their
+ * range, enums from their allowed values, and lists and maps from their number
+ * of items. Optional fields are set or not at random, except the fields that
+ * CEL expressions read, which are left unset. Neither are
+ * (buf.validate.message).oneof rules taken into account.
+ *
+ * The files import fast-check, which the tests using them depend on.
+ */
+
+import type { Schema } from "@bufbuild/protoplugin";
+import { ScalarType, type DescEnum, type DescField, type DescFile, type DescMessage, type DescOneof } from "@bufbuild/protobuf";
+import { hasZodSchema } from "./clients.js";
+import {
+  addImport,
+  DAY_MS,
+  floorMillis,
+  getBounds,
+  getHelperSources,
+  getMinItems,
+  getValueType,
+  INTEGER_LIMITS,
+  isReadByCel,
+  MAX_SAFE,
+  parseRegex,
+  printLines,
+  scalarRuleType,
+  toEnumMember,
+  toIntegerLiteral,
+  typedRules,
+  WRAPPED_SCALARS,
+  type ExpressionContext,
+  type RegexNode,
+  type ValueType,
+} from "./fixtures.js";
+import type { PluginOptions } from "./generator.js";
+import { usesMapType } from "./type-mapper.js";
+import { durationNanos, getFieldRules, isFieldRequired, isOneofRequired, timestampMillis, toBytesLiteral, type FieldRules } from "./validation-mapper.js";
+import { getRelativeImportPath, toCamelCase, toTsTypeName } from "./utils.js";
+
+type ArbitraryHelper = "matching" | "toTimestamp" | "toDuration";
+
+interface ArbitraryContext extends ExpressionContext {
+  /** Whether a reference from a message to another is along a cycle */
+  isCycleEdge: (from: DescMessage, to: DescMessage) => boolean;
+  helpers: Set<ArbitraryHelper>;
+  /** Names of the printed patterns, by pattern */
+  patterns: Map<string, { name: string; node: RegexNode }>;
+}
+
+const MATCHING_SOURCE = `
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** Strings matching a parsed pattern */
+function matching(node: RegexNode): fc.Arbitrary<string> {
+  if (typeof node === "string") {
+    return fc.constant(node);
+  }
+  if (Array.isArray(node)) {
+    return fc.tuple(...node.map(matching)).map((parts) => parts.join(""));
+  }
+  if ("oneOf" in node) {
+    return fc.oneof(...node.oneOf.map(matching));
+  }
+  if ("set" in node) {
+    return fc.constantFrom(...Array.from(node.set));
+  }
+  return fc.array(matching(node.repeat), { minLength: node.min, maxLength: node.max }).map((parts) => parts.join(""));
+}`;
+
+// Patterns of the strings drawn for well-known formats, by StringRules.well_known case
+const OCTET = "(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])";
+const IPV4 = `${OCTET}\\.${OCTET}\\.${OCTET}\\.${OCTET}`;
+const LABEL = "[a-z][a-z0-9]{2,7}";
+const FORMAT_PATTERNS: Record<string, string> = {
+  email: `^${LABEL}@example\\.com$`,
+  ip: `^${IPV4}$`,
+  ipv4: `^${IPV4}$`,
+  ipv6: "^2001:db8::[0-9a-f]{1,4}$",
+  uri: "^https://example\\.com/[a-z0-9]{0,8}$",
+  uriRef: "^/[a-z0-9]{0,8}$",
+  uuid: "^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$",
+  tuuid: "^[0-9a-f]{32}$",
+  ulid: "^[0-7][0-9A-HJKMNP-TV-Z]{25}$",
+  ipWithPrefixlen: `^${IPV4}/(3[0-2]|[12]?[0-9])$`,
+  ipv4WithPrefixlen: `^${IPV4}/(3[0-2]|[12]?[0-9])$`,
+  ipv6WithPrefixlen: "^2001:db8::[0-9a-f]{1,4}/64$",
+  ipPrefix: `^10\\.${OCTET}\\.0\\.0/16$`,
+  ipv4Prefix: `^10\\.${OCTET}\\.0\\.0/16$`,
+  ipv6Prefix: "^2001:db8:[0-9a-f]{1,4}::/48$",
+  hostAndPort: `^${LABEL}\\.example\\.com:[1-9][0-9]{0,3}$`,
+  protobufFqn: "^example\\.v1\\.[A-Z][A-Za-z0-9]{0,8}$",
+  protobufDotFqn: "^\\.example\\.v1\\.[A-Z][A-Za-z0-9]{0,8}$",
+};
+
+// fc.integer() draws 32-bit integers
+const INT32_MIN = -2147483648n;
+const INT32_MAX = 2147483647n;
+
+// Timestamps without bounds are drawn from this century
+const TIMESTAMP_MIN = Date.UTC(2000, 0, 1);
+const TIMESTAMP_MAX = Date.UTC(2100, 0, 1);
+
+/**
+ * Generates the arbitraries file for the messages and enums of a proto file
+ */
+export function generateArbitraryFile(
+  schema: Schema<PluginOptions>,
+  file: DescFile,
+  isCycleEdge: (from: DescMessage, to: DescMessage) => boolean
+): void {
+  const types = Array.from(schema.typesInFile(file));
+  const enums = types.filter((desc): desc is DescEnum => desc.kind === "enum");
+  // The same messages as the Zod file, whose types the arbitraries draw
+  const messages = types.filter(
+    (desc): desc is DescMessage => desc.kind === "message" && hasZodSchema(desc, schema.options)
+  );
+  if (enums.length === 0 && messages.length === 0) {
+    return;
+  }
+
+  const ctx: ArbitraryContext = {
+    file,
+    options: schema.options,
+    isCycleEdge,
+    helpers: new Set(),
+    patterns: new Map(),
+    imports: new Map(),
+    usesLong: false,
+  };
+  const body: string[] = [];
+  for (const desc of enums) {
+    body.push(...enumArbitrary(desc, ctx));
+  }
+  for (const message of messages) {
+    body.push(...messageArbitrary(message, ctx));
+  }
+
+  const f = schema.generateFile(`${file.name}_arbitraries.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  f.print();
+  f.print('import fc from "fast-check";');
+  const usesLongSeconds = ctx.options.forceLong === "long" &&
+    (ctx.helpers.has("toDuration") || (ctx.helpers.has("toTimestamp") && ctx.options.useDate === "false"));
+  if (ctx.usesLong || usesLongSeconds) {
+    f.print('import Long from "long";');
+  }
+  if (messages.length > 0) {
+    const zodPath = getRelativeImportPath(file.name, file.name, "_zod.js");
+    f.print(`import type { ${messages.map(toTsTypeName).sort().join(", ")} } from "${zodPath}";`);
+  }
+  for (const [from, names] of ctx.imports) {
+    f.print(`import { ${Array.from(names).sort().join(", ")} } from "${from}";`);
+  }
+  f.print();
+
+  const sources = getHelperSources(ctx.options);
+  if (ctx.helpers.has("matching")) {
+    printLines(f, MATCHING_SOURCE.trimStart());
+    f.print();
+  }
+  for (const name of ["toTimestamp", "toDuration"] as const) {
+    if (ctx.helpers.has(name)) {
+      printLines(f, sources[name].source.trimStart());
+      f.print();
+    }
+  }
+  for (const { name, node } of ctx.patterns.values()) {
+    if (name) {
+      f.print(`const ${name}: RegexNode = ${JSON.stringify(node)};`);
+    }
+  }
+  if (Array.from(ctx.patterns.values()).some(({ name }) => name)) {
+    f.print();
+  }
+
+  for (const line of body) {
+    f.print(line);
+  }
+}
+
+function enumArbitrary(desc: DescEnum, ctx: ArbitraryContext): string[] {
+  const name = toTsTypeName(desc);
+  const numbers = Array.from(new Set(desc.values.map((value) => value.number)));
+  return [
+    "/**",
+    ` * Values of ${name}`,
+    ` * @generated from enum ${desc.typeName}`,
+    " */",
+    `export function arbitrary${name}(): fc.Arbitrary<${name}> {`,
+    `  return ${constantsOf(numbers.map((n) => toEnumMember(desc, n, ctx)))};`,
+    "}",
+    "",
+  ];
+}
+
+function messageArbitrary(message: DescMessage, ctx: ArbitraryContext): string[] {
+  const name = toTsTypeName(message);
+  const model: string[] = [];
+  const requiredKeys: string[] = [];
+  // Oneofs flattened into the message (oneof=properties) are drawn apart and spread into it
+  const spread: { name: string; arbitrary: string }[] = [];
+
+  if (ctx.options.runtime === "protobuf-es") {
+    model.push(`$typeName: fc.constant("${message.typeName}" as const)`);
+    requiredKeys.push("$typeName");
+  }
+  for (const member of message.members) {
+    if (member.kind === "oneof") {
+      const arbitrary = oneofArbitrary(member, ctx);
+      const oneofName = toCamelCase(member.name);
+      if (ctx.options.oneof === "properties") {
+        spread.push({ name: oneofName, arbitrary });
+        continue;
+      }
+      model.push(`${oneofName}: ${arbitrary}`);
+      // protobuf-es always has the oneof property, set to { case: undefined } when empty
+      if (isOneofRequired(member) || ctx.options.oneof === "case") {
+        requiredKeys.push(oneofName);
+      }
+      continue;
+    }
+    const arbitrary = fieldArbitrary(member, ctx);
+    if (arbitrary !== undefined) {
+      model.push(`${toCamelCase(member.name)}: ${arbitrary}`);
+      if (isFieldRequired(member)) {
+        requiredKeys.push(toCamelCase(member.name));
+      }
+    }
+  }
+
+  const lines = [
+    "/**",
+    ` * ${name} messages that satisfy their buf.validate rules, following references`,
+    " * along a cycle at most maxDepth times",
+    ` * @generated from message ${message.typeName}`,
+    " */",
+    `export function arbitrary${name}(maxDepth = 2): fc.Arbitrary<${name}> {`,
+  ];
+  const constraints = requiredKeys.length === model.length
+    ? ""
+    : `, { requiredKeys: [${requiredKeys.map((key) => `"${key}"`).join(", ")}] }`;
+  const record = model.length === 0
+    ? "fc.record({})"
+    : `fc.record({\n${model.map((entry) => `    ${entry},`).join("\n")}\n  }${constraints})`;
+  if (spread.length === 0) {
+    lines.push(`  return ${record};`, "}", "");
+    return lines;
+  }
+  lines.push(
+    `  const message = ${record};`,
+    `  return fc.tuple(message, ${spread.map(({ arbitrary }) => arbitrary).join(", ")})`,
+    `    .map(([message, ${spread.map(({ name: oneofName }) => oneofName).join(", ")}]) => ({ ...message, ${spread.map(({ name: oneofName }) => `...${oneofName}`).join(", ")} }));`,
+    "}",
+    ""
+  );
+  return lines;
+}
+
+/**
+ * Arbitrary of a field's values, undefined to leave the field unset
+ */
+function fieldArbitrary(field: DescField, ctx: ArbitraryContext): string | undefined {
+  const rules = getFieldRules(field);
+  const required = isFieldRequired(field);
+  // CEL expressions usually hold for unset fields, and empty lists and maps
+  if (!required && getMinItems(field, rules) === 0 && isReadByCel(field)) {
+    return undefined;
+  }
+  const cycle = field.message !== undefined && ctx.isCycleEdge(field.parent, field.message);
+  const depth = cycle ? "maxDepth - 1" : "maxDepth";
+
+  let arbitrary: string;
+  if (field.fieldKind === "list") {
+    const repeated = typedRules(rules, "repeated");
+    const item = valueArbitrary(getValueType(field), repeated?.items, ctx, depth, false);
+    const counts = countConstraints(repeated?.minItems, repeated?.maxItems, required, "Length");
+    if (repeated?.unique) {
+      const selector = uniqueSelector(field.scalar, ctx);
+      arbitrary = `fc.uniqueArray(${item}, ${toConstraints([...counts, ...(selector ? [`selector: ${selector}`] : [])])})`;
+    } else {
+      arbitrary = `fc.array(${item}${counts.length > 0 ? `, ${toConstraints(counts)}` : ""})`;
+    }
+  } else if (field.fieldKind === "map") {
+    arbitrary = mapArbitrary(field, rules, ctx, depth, required);
+  } else {
+    arbitrary = valueArbitrary(getValueType(field), rules, ctx, depth, required);
+  }
+
+  // Below maxDepth, references along a cycle are left unset when they may be
+  if (cycle && !required && getMinItems(field, rules) === 0) {
+    return `maxDepth > 0 ? ${arbitrary} : fc.constant(undefined)`;
+  }
+  return arbitrary;
+}
+
+/**
+ * Arbitrary of the values of a oneof: objects of the member that is set for
+ * oneof=properties, { $case } and { case } objects for the other styles
+ */
+function oneofArbitrary(oneof: DescOneof, ctx: ArbitraryContext): string {
+  const required = isOneofRequired(oneof);
+  const variants: { arbitrary: string; cycle: boolean }[] = oneof.fields.map((field) => {
+    const caseName = toCamelCase(field.name);
+    const cycle = field.message !== undefined && ctx.isCycleEdge(field.parent, field.message);
+    const value = valueArbitrary(getValueType(field), getFieldRules(field), ctx, cycle ? "maxDepth - 1" : "maxDepth", false);
+    const arbitrary = {
+      properties: () => `fc.record({ ${caseName}: ${value} })`,
+      unions: () => `fc.record({ $case: fc.constant("${caseName}" as const), ${caseName}: ${value} })`,
+      "unions-value": () => `fc.record({ $case: fc.constant("${caseName}" as const), value: ${value} })`,
+      case: () => `fc.record({ case: fc.constant("${caseName}" as const), value: ${value} })`,
+    }[ctx.options.oneof]();
+    return { arbitrary, cycle };
+  });
+  if (!required) {
+    const none = { properties: "fc.constant({})", unions: "", "unions-value": "", case: "fc.constant({ case: undefined })" }[ctx.options.oneof];
+    if (none) {
+      variants.push({ arbitrary: none, cycle: false });
+    }
+  }
+
+  // Members along a cycle are drawn down to maxDepth, unless there are no others
+  const always = variants.filter((variant) => !variant.cycle);
+  if (always.length === 0) {
+    return `fc.oneof(${variants.map((variant) => variant.arbitrary).join(", ")})`;
+  }
+  const deeper = variants.filter((variant) => variant.cycle);
+  const args = always.map((variant) => variant.arbitrary);
+  if (deeper.length > 0) {
+    args.push(`...(maxDepth > 0 ? [${deeper.map((variant) => variant.arbitrary).join(", ")}] : [])`);
+  }
+  return args.length === 1 && deeper.length === 0 ? args[0] : `fc.oneof(${args.join(", ")})`;
+}
+
+/**
+ * Arbitrary of a map field: an object, or a Map for ts-proto maps with 64-bit integer keys
+ */
+function mapArbitrary(
+  field: DescField & { fieldKind: "map" },
+  rules: FieldRules | undefined,
+  ctx: ArbitraryContext,
+  depth: string,
+  required: boolean
+): string {
+  const map = typedRules(rules, "map");
+  const key = scalarArbitrary(field.mapKey, map?.keys, ctx, false);
+  const value = valueArbitrary(getValueType(field), map?.values, ctx, depth, false);
+  if (usesMapType(field, ctx.options)) {
+    const counts = countConstraints(map?.minPairs, map?.maxPairs, required, "Length");
+    const constraints = toConstraints(["selector: ([key]) => String(key)", ...counts]);
+    return `fc.uniqueArray(fc.tuple(${key}, ${value}), ${constraints}).map((entries) => new Map(entries))`;
+  }
+  // Object keys are strings
+  const stringKey = field.mapKey === ScalarType.STRING ? key : `${key}.map(String)`;
+  const counts = countConstraints(map?.minPairs, map?.maxPairs, required, "Keys");
+  return `fc.dictionary(${stringKey}, ${value}, ${toConstraints([...counts, "noNullPrototype: true"])})`;
+}
+
+/**
+ * minLength and maxLength (or minKeys and maxKeys) constraints of a list or map
+ */
+function countConstraints(min: bigint | undefined, max: bigint | undefined, required: boolean, suffix: "Length" | "Keys"): string[] {
+  const counts: string[] = [];
+  // A required list or map has an item
+  const minCount = Math.max(Number(min ?? 0n), required ? 1 : 0);
+  if (minCount > 0) {
+    counts.push(`min${suffix}: ${minCount}`);
+  }
+  if (max !== undefined && max > 0n) {
+    counts.push(`max${suffix}: ${Number(max)}`);
+  }
+  return counts;
+}
+
+function toConstraints(entries: string[]): string {
+  return `{ ${entries.join(", ")} }`;
+}
+
+/**
+ * How unique lists compare their items, when not by value
+ */
+function uniqueSelector(scalar: ScalarType | undefined, ctx: ArbitraryContext): string | undefined {
+  if (scalar === ScalarType.BYTES) {
+    return "(bytes) => bytes.join()";
+  }
+  const is64 = scalar !== undefined && scalarRuleType(scalar).endsWith("64");
+  return is64 && ctx.options.forceLong === "long" ? "(n) => n.toString()" : undefined;
+}
+
+/**
+ * Arbitrary of a value of a type, following its rules
+ * @param depth expression of the maxDepth of a message's arbitrary
+ * @param required whether a value must be set, which excludes the zero value
+ */
+function valueArbitrary(type: ValueType, rules: FieldRules | undefined, ctx: ArbitraryContext, depth: string, required: boolean): string {
+  switch (type.kind) {
+    case "enum":
+      return enumValueArbitrary(type.desc, typedRules(rules, "enum"), ctx, required);
+    case "message":
+      return messageValueArbitrary(type.desc, rules, ctx, depth, required);
+    case "scalar":
+      return scalarArbitrary(type.scalar, rules, ctx, required);
+  }
+}
+
+function scalarArbitrary(scalar: ScalarType, rules: FieldRules | undefined, ctx: ArbitraryContext, required: boolean): string {
+  const type = scalarRuleType(scalar);
+  const typed = typedRules(rules, type) ?? {};
+  switch (scalar) {
+    case ScalarType.STRING:
+      return stringArbitrary(typed, ctx, required);
+    case ScalarType.BYTES:
+      return bytesArbitrary(typed, ctx, required);
+    case ScalarType.BOOL:
+      if (typed.const !== undefined) {
+        return `fc.constant(${typed.const})`;
+      }
+      return required ? "fc.constant(true)" : "fc.boolean()";
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return floatArbitrary(scalar, typed, required);
+    default:
+      return integerArbitrary(type, typed, ctx, required);
+  }
+}
+
+/**
+ * fc.constant() of a single value, fc.constantFrom() of several
+ */
+function constantsOf(values: string[]): string {
+  return values.length === 1 ? `fc.constant(${values[0]})` : `fc.constantFrom(${values.join(", ")})`;
+}
+
+function stringArbitrary(rules: any, ctx: ArbitraryContext, required: boolean): string {
+  if (rules.const) {
+    return `fc.constant(${JSON.stringify(rules.const)})`;
+  }
+  const notIn: string[] = rules.notIn ?? [];
+  const allowed: string[] = (rules.in ?? []).filter((value: string) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return constantsOf(allowed.map((value) => JSON.stringify(value)));
+  }
+
+  // Drawn strings are ASCII, so byte lengths are lengths
+  const lengths = [rules.len, rules.lenBytes].filter((n) => n !== undefined && n > 0n).map(Number);
+  const minLength = Math.max(...lengths, ...[rules.minLen, rules.minBytes].filter((n) => n !== undefined).map(Number), required ? 1 : 0);
+  const maxLength = Math.min(...lengths, ...[rules.maxLen, rules.maxBytes].filter((n) => n !== undefined && n > 0n).map(Number), Infinity);
+  const prefix: string = rules.prefix ?? "";
+  const contains: string = rules.contains ?? "";
+  const suffix: string = rules.suffix ?? "";
+
+  const checks: string[] = [];
+  const format = rules.wellKnown?.value ? (rules.wellKnown.case as string) : undefined;
+  let base = format ? formatArbitrary(format, rules.wellKnown.value, maxLength, ctx) : undefined;
+  base ??= rules.pattern ? patternArbitrary(rules.pattern, ctx) : undefined;
+  if (base !== undefined) {
+    if (minLength > 0) {
+      checks.push(`v.length >= ${minLength}`);
+    }
+    if (maxLength < Infinity) {
+      checks.push(`v.length <= ${maxLength}`);
+    }
+    if (prefix) {
+      checks.push(`v.startsWith(${JSON.stringify(prefix)})`);
+    }
+    if (contains) {
+      checks.push(`v.includes(${JSON.stringify(contains)})`);
+    }
+    if (suffix) {
+      checks.push(`v.endsWith(${JSON.stringify(suffix)})`);
+    }
+  } else {
+    const fixed = [...prefix, ...contains, ...suffix].length;
+    const textMin = Math.max(minLength - fixed, 0);
+    const textMax = Math.max(Math.min(maxLength - fixed, textMin + 16), textMin);
+    base = `fc.string(${toConstraints([...(textMin > 0 ? [`minLength: ${textMin}`] : []), `maxLength: ${textMax}`])})`;
+    if (fixed > 0) {
+      const parts = [prefix, contains].filter(Boolean).map((s) => JSON.stringify(s)).concat("s", suffix ? [JSON.stringify(suffix)] : []);
+      base = `${base}.map((s) => ${parts.join(" + ")})`;
+    }
+  }
+
+  if (notIn.length > 0) {
+    checks.push(`![${notIn.map((value) => JSON.stringify(value)).join(", ")}].includes(v)`);
+  }
+  if (rules.notContains) {
+    checks.push(`!v.includes(${JSON.stringify(rules.notContains)})`);
+  }
+  return checks.length === 0 ? base : `${base}.filter((v) => ${checks.join(" && ")})`;
+}
+
+/**
+ * Arbitrary of the strings of a well-known format (StringRules.well_known)
+ */
+function formatArbitrary(format: string, value: unknown, maxLength: number, ctx: ArbitraryContext): string | undefined {
+  if (format === "hostname" || format === "address") {
+    // A single label when the domain does not fit, starting with a letter as the last label may not be all digits
+    return patternArbitrary(maxLength < 20 ? `^h[a-z0-9]{0,${Math.max(maxLength - 1, 1)}}$` : `^${LABEL}\\.example\\.com$`, ctx);
+  }
+  if (format === "wellKnownRegex") {
+    // HTTP header names and values (KnownRegex)
+    return value === 1 || value === 2 ? patternArbitrary(`^x-${LABEL}$`, ctx) : undefined;
+  }
+  const pattern = FORMAT_PATTERNS[format];
+  return pattern === undefined ? undefined : patternArbitrary(pattern, ctx);
+}
+
+/**
+ * Arbitrary of the strings matching a pattern, undefined if the pattern is not supported
+ */
+function patternArbitrary(pattern: string, ctx: ArbitraryContext): string | undefined {
+  let entry = ctx.patterns.get(pattern);
+  if (!entry) {
+    try {
+      entry = { name: `PATTERN_${ctx.patterns.size + 1}`, node: parseRegex(pattern) };
+    } catch (error) {
+      console.error(`Warning: Arbitraries do not follow the pattern ${pattern}: ${(error as Error).message}`);
+      entry = { name: "", node: "" };
+    }
+    ctx.patterns.set(pattern, entry);
+  }
+  if (!entry.name) {
+    return undefined;
+  }
+  ctx.helpers.add("matching");
+  return `matching(${entry.name})`;
+}
+
+function bytesArbitrary(rules: any, ctx: ArbitraryContext, required: boolean): string {
+  if (rules.const?.length > 0) {
+    return `fc.constant(${toBytesLiteral(rules.const)})`;
+  }
+  const notIn: string[] = (rules.notIn ?? []).map((bytes: Uint8Array) => bytes.join());
+  const allowed: Uint8Array[] = (rules.in ?? []).filter((bytes: Uint8Array) => !notIn.includes(bytes.join()));
+  if (allowed.length > 0) {
+    return constantsOf(allowed.map(toBytesLiteral));
+  }
+
+  const length = { ip: 4, ipv4: 4, ipv6: 16, uuid: 16 }[rules.wellKnown?.value ? (rules.wellKnown.case as string) : ""];
+  if (length) {
+    return `fc.uint8Array({ minLength: ${length}, maxLength: ${length} })`;
+  }
+  if (rules.pattern) {
+    const text = patternArbitrary(rules.pattern, ctx);
+    if (text) {
+      return `${text}.map((s) => Uint8Array.from(s, (c) => c.charCodeAt(0)))`;
+    }
+  }
+
+  const affixes = [rules.prefix, rules.contains, rules.suffix].map((bytes?: Uint8Array) => Array.from(bytes ?? []));
+  const fixed = affixes.reduce((sum, bytes) => sum + bytes.length, 0);
+  const minLength = Math.max(Number(rules.len || rules.minLen || 0n), required ? 1 : 0);
+  const maxLength = Number(rules.len || rules.maxLen || 0n) || Infinity;
+  const randomMin = Math.max(minLength - fixed, 0);
+  const randomMax = Math.max(Math.min(maxLength - fixed, randomMin + 16), randomMin);
+  const random = `fc.uint8Array(${toConstraints([...(randomMin > 0 ? [`minLength: ${randomMin}`] : []), `maxLength: ${randomMax}`])})`;
+  if (fixed === 0) {
+    return random;
+  }
+  const [prefix, contains, suffix] = affixes.map((bytes) => bytes.map(String));
+  return `${random}.map((b) => Uint8Array.from([${[...prefix, ...contains, "...b", ...suffix].join(", ")}]))`;
+}
+
+/**
+ * Floats are drawn by fc.double(), rounded to 32 bits for float fields, and
+ * are finite as z.number() requires
+ */
+function floatArbitrary(scalar: ScalarType, rules: any, required: boolean): string {
+  if (rules.const) {
+    return `fc.constant(${rules.const})`;
+  }
+  const notIn: number[] = rules.notIn ?? [];
+  const allowed: number[] = (rules.in ?? []).filter((value: number) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return constantsOf(allowed.map(String));
+  }
+
+  const [lower, upper] = getBounds(rules, Number);
+  const lowerOf = (bound: NonNullable<typeof lower>) => [`min: ${bound.value}`, ...(bound.rule === "gt" ? ["minExcluded: true"] : [])];
+  const upperOf = (bound: NonNullable<typeof upper>) => [`max: ${bound.value}`, ...(bound.rule === "lt" ? ["maxExcluded: true"] : [])];
+  const double = (bounds: string[]) => `fc.double(${toConstraints([...bounds, "noNaN: true", "noDefaultInfinity: true"])})`;
+  let arbitrary: string;
+  // An upper bound below the lower one excludes the range between them
+  if (lower && upper && upper.value < lower.value) {
+    arbitrary = `fc.oneof(${double(upperOf(upper))}, ${double(lowerOf(lower))})`;
+  } else if (!lower && !upper && scalar === ScalarType.FLOAT) {
+    return filterValues("fc.float({ noNaN: true, noDefaultInfinity: true })", notIn.map(String), required ? "0" : undefined);
+  } else {
+    arbitrary = double([...(lower ? lowerOf(lower) : []), ...(upper ? upperOf(upper) : [])]);
+  }
+
+  const checks: string[] = [];
+  if (scalar === ScalarType.FLOAT && (lower || upper)) {
+    // Rounding may cross a bound
+    arbitrary = `${arbitrary}.map(Math.fround)`;
+    const inLower = lower && `n ${lower.rule === "gt" ? ">" : ">="} ${lower.value}`;
+    const inUpper = upper && `n ${upper.rule === "lt" ? "<" : "<="} ${upper.value}`;
+    checks.push(lower && upper && upper.value < lower.value ? `(${inUpper} || ${inLower})` : [inLower, inUpper].filter(Boolean).join(" && "));
+  }
+  const filtered = filterValues(arbitrary, notIn.map(String), required ? "0" : undefined);
+  return checks.length === 0 ? filtered : `${filtered}.filter((n) => ${checks.join(" && ")})`;
+}
+
+/**
+ * Filters out the values of not_in rules, and the zero value of required fields
+ */
+function filterValues(arbitrary: string, excluded: string[], zero: string | undefined): string {
+  const values = zero !== undefined && !excluded.includes(zero) ? [...excluded, zero] : excluded;
+  if (values.length === 0) {
+    return arbitrary;
+  }
+  return values.length === 1 ? `${arbitrary}.filter((n) => n !== ${values[0]})` : `${arbitrary}.filter((n) => ![${values.join(", ")}].includes(n))`;
+}
+
+/**
+ * Integers are drawn from their whole range, as 64-bit integers of the forceLong type
+ */
+function integerArbitrary(type: string, rules: any, ctx: ArbitraryContext, required: boolean): string {
+  const literal = (value: bigint) => toIntegerLiteral(type, value, ctx, false);
+  // An unset const reads as 0, which the schemas do not check
+  if (rules.const !== undefined && BigInt(rules.const) !== 0n) {
+    return `fc.constant(${literal(BigInt(rules.const))})`;
+  }
+  const notIn: bigint[] = (rules.notIn ?? []).map(BigInt);
+  const allowed: bigint[] = (rules.in ?? []).map(BigInt).filter((value: bigint) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return constantsOf(allowed.map(literal));
+  }
+
+  const is64 = type.endsWith("64");
+  // 64-bit integers are drawn as bigints, unless they are numbers
+  const asBigInt = is64 && ctx.options.forceLong !== "number";
+  const [typeMin, typeMax] = INTEGER_LIMITS[type];
+  const limitMin = asBigInt || typeMin > -MAX_SAFE ? typeMin : -MAX_SAFE;
+  const limitMax = asBigInt || typeMax < MAX_SAFE ? typeMax : MAX_SAFE;
+  const [lower, upper] = getBounds(rules, BigInt);
+  const min = lower ? (lower.rule === "gt" ? lower.value + 1n : lower.value) : limitMin;
+  const max = upper ? (upper.rule === "lt" ? upper.value - 1n : upper.value) : limitMax;
+  const range = (from: bigint, to: bigint) => (asBigInt ? bigIntRange(from, to) : numberRange(from, to));
+
+  let arbitrary: string;
+  // An upper bound below the lower one excludes the range between them
+  if (max < min) {
+    const ranges = [[limitMin, max], [min, limitMax]].filter(([from, to]) => from <= to).map(([from, to]) => range(from, to));
+    arbitrary = ranges.length === 1 ? ranges[0] : `fc.oneof(${ranges.join(", ")})`;
+  } else {
+    arbitrary = range(min > limitMin ? min : limitMin, max < limitMax ? max : limitMax);
+  }
+  const suffix = asBigInt ? "n" : "";
+  arbitrary = filterValues(arbitrary, notIn.map((n) => `${n}${suffix}`), required ? `0${suffix}` : undefined);
+  if (!asBigInt) {
+    return arbitrary;
+  }
+  switch (ctx.options.forceLong) {
+    case "string":
+      return `${arbitrary}.map(String)`;
+    case "long":
+      ctx.usesLong = true;
+      return `${arbitrary}.map((n) => Long.fromString(n.toString()${typeMin === 0n ? ", true" : ""}))`;
+    default:
+      return arbitrary;
+  }
+}
+
+function numberRange(min: bigint, max: bigint): string {
+  if (min >= INT32_MIN && max <= INT32_MAX) {
+    return min === INT32_MIN && max === INT32_MAX ? "fc.integer()" : `fc.integer({ min: ${min}, max: ${max} })`;
+  }
+  return `${bigIntRange(min, max)}.map(Number)`;
+}
+
+function bigIntRange(min: bigint, max: bigint): string {
+  return `fc.bigInt({ min: ${min}n, max: ${max}n })`;
+}
+
+/**
+ * Enums are drawn from their allowed values, other than the zero value when required
+ */
+function enumValueArbitrary(desc: DescEnum, rules: any, ctx: ArbitraryContext, required: boolean): string {
+  const member = (number: number) => toEnumMember(desc, number, ctx);
+  // An unset const reads as 0, which is not checked
+  if (rules?.const && desc.values.some((value) => value.number === rules.const)) {
+    return `fc.constant(${member(rules.const)})`;
+  }
+  const numbers = Array.from(new Set(desc.values.map((value) => value.number)));
+  const notIn: number[] = rules?.notIn ?? [];
+  const allowed = numbers.filter((n) => (!rules?.in?.length || rules.in.includes(n)) && !notIn.includes(n));
+  const nonZero = allowed.filter((n) => n !== 0);
+  const values = required ? (nonZero.length > 0 ? nonZero : allowed) : allowed;
+  return constantsOf((values.length > 0 ? values : [0]).map(member));
+}
+
+/**
+ * Messages follow the type mapping of well-known types, other messages are drawn
+ * by their own arbitrary
+ */
+function messageValueArbitrary(desc: DescMessage, rules: FieldRules | undefined, ctx: ArbitraryContext, depth: string, required: boolean): string {
+  const isMessage = ctx.options.runtime === "protobuf-es";
+  const wrapped = WRAPPED_SCALARS[desc.typeName];
+  if (wrapped !== undefined) {
+    return scalarArbitrary(wrapped, rules, ctx, false);
+  }
+  switch (desc.typeName) {
+    case "google.protobuf.Timestamp":
+      return timestampArbitrary(typedRules(rules, "timestamp"), ctx);
+    case "google.protobuf.Duration":
+      return durationArbitrary(typedRules(rules, "duration"), ctx, required);
+    case "google.protobuf.Struct":
+      return "fc.dictionary(fc.string(), fc.jsonValue(), { noNullPrototype: true })";
+    case "google.protobuf.Value":
+      return "fc.jsonValue()";
+    case "google.protobuf.ListValue":
+      return isMessage ? 'fc.constant({ $typeName: "google.protobuf.ListValue" as const, values: [] })' : "fc.array(fc.jsonValue())";
+    case "google.protobuf.Any":
+      return "fc.constant({})";
+    case "google.protobuf.Empty":
+      return isMessage ? 'fc.constant({ $typeName: "google.protobuf.Empty" as const })' : "fc.constant({})";
+  }
+  // Messages without a schema (e.g. responses) have no arbitrary to draw them from
+  if (!hasZodSchema(desc, ctx.options)) {
+    return "fc.constant({})";
+  }
+  const name = `arbitrary${toTsTypeName(desc)}`;
+  if (desc.file !== ctx.file) {
+    addImport(ctx, getRelativeImportPath(ctx.file.name, desc.file.name, "_arbitraries.js"), name);
+  }
+  return `${name}(${depth})`;
+}
+
+/**
+ * Timestamps are drawn relative to the time of the draw for gt_now, lt_now and
+ * within, and from this century without bounds
+ */
+function timestampArbitrary(rules: any, ctx: ArbitraryContext): string {
+  ctx.helpers.add("toTimestamp");
+  if (rules?.const) {
+    return `fc.constant(toTimestamp(${timestampMillis(rules.const)}))`;
+  }
+  if (rules?.greaterThan?.case === "gtNow" && rules.greaterThan.value) {
+    return `fc.integer({ min: 3600000, max: ${DAY_MS} }).map((ms) => toTimestamp(Date.now() + ms))`;
+  }
+  if (rules?.lessThan?.case === "ltNow" && rules.lessThan.value) {
+    return `fc.integer({ min: 3600000, max: ${DAY_MS} }).map((ms) => toTimestamp(Date.now() - ms))`;
+  }
+  if (rules?.within) {
+    // Within half of the window, as the time moves on before the check
+    const quarter = BigInt(Math.floor(Number(durationNanos(rules.within) / 1000000n) / 4));
+    return `${numberRange(-quarter, quarter)}.map((ms) => toTimestamp(Date.now() + ms))`;
+  }
+
+  const [lower, upper] = getBounds(rules, timestampMillis);
+  let min = lower && (lower.rule === "gt" ? lower.value + 1 : lower.value);
+  let max = upper && (upper.rule === "lt" ? upper.value - 1 : upper.value);
+  if (min !== undefined && max !== undefined && max < min) {
+    max = undefined;
+  }
+  min ??= max !== undefined ? Math.min(max, TIMESTAMP_MIN) : TIMESTAMP_MIN;
+  max ??= Math.max(min, TIMESTAMP_MAX);
+  return `fc.date({ min: new Date(${min}), max: new Date(${max}), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))`;
+}
+
+/**
+ * Durations are drawn in milliseconds, within a day either way without bounds
+ */
+function durationArbitrary(rules: any, ctx: ArbitraryContext, required: boolean): string {
+  ctx.helpers.add("toDuration");
+  const literal = (duration: any) => `toDuration(${Number(durationNanos(duration) / 1000000n)})`;
+  if (rules?.const) {
+    return `fc.constant(${literal(rules.const)})`;
+  }
+  const notIn: bigint[] = (rules?.notIn ?? []).map(durationNanos);
+  const allowed = (rules?.in ?? []).filter((duration: any) => !notIn.includes(durationNanos(duration)));
+  // Durations in whole milliseconds, which toDuration() represents
+  if (allowed.length > 0 && allowed.every((duration: any) => durationNanos(duration) % 1000000n === 0n)) {
+    return constantsOf(allowed.map(literal));
+  }
+
+  const [lower, upper] = getBounds(rules, durationNanos);
+  // Bounds are in nanoseconds, rounded inwards to milliseconds
+  let min = lower && (lower.rule === "gt" ? floorMillis(lower.value) + 1 : -floorMillis(-lower.value));
+  let max = upper && (upper.rule === "lt" ? -floorMillis(-upper.value) - 1 : floorMillis(upper.value));
+  if (min !== undefined && max !== undefined && max < min) {
+    max = undefined;
+  }
+  min ??= max !== undefined ? max - DAY_MS : -DAY_MS;
+  max ??= min + 2 * DAY_MS;
+  const excluded = notIn.filter((nanos) => nanos % 1000000n === 0n).map((nanos) => String(floorMillis(nanos)));
+  const ms = filterValues(numberRange(BigInt(min), BigInt(max)), excluded, required ? "0" : undefined);
+  return `${ms}.map(toDuration)`;
+}
@@ -0,0 +1,1241 @@
+/**
+ * Compiles protovalidate CEL expressions into JavaScript expressions
+ *
+ * Only a subset of CEL is supported: literals, `this`, `rules`, `now`, field
+ * selection, indexing, list literals, logical, comparison and arithmetic
+ * operators, `in`, the conditional operator, the size(), has(), matches(),
+ * startsWith(), endsWith(), contains(), unique(), isNan() and isInf()
+ * functions, the int()/uint()/double()/string()/duration()/timestamp()
+ * conversions and the all()/exists()/exists_one() macros.
+ *
+ * Anything outside the subset throws a CelUnsupportedError, which the
+ * generator reports as a diagnostic instead of emitting a partial check.
+ * Evaluation errors CEL raises at runtime (division by zero, an index out of
+ * range, a missing map key) are thrown by the celDivide, celModulo, celIndex and
+ * celMapValue helpers, and reported as violations by the generated check.
+ *
+ * Values are represented in the generated code as follows:
+ * - int/uint: bigint (64-bit safe, whatever the runtime representation)
+ * - double: number
+ * - timestamp/duration: number of milliseconds
+ * - list: array of converted elements
+ * - map: the plain record, values converted on access
+ * - message: the plain object (or undefined when unset)
+ */
+
+import type { DescField, DescMessage } from "@bufbuild/protobuf";
+import { ScalarType } from "@bufbuild/protobuf";
+import type { FormatHelper } from "./format-helpers.js";
+import type { PluginOptions } from "./generator.js";
+import { patternConstant, PatternUnsupportedError, type PatternTable } from "./patterns.js";
+import { usesMapType } from "./type-mapper.js";
+import { toCamelCase } from "./utils.js";
+
+export type CelType =
+  | { kind: "int" | "uint" | "double" | "string" | "bool" | "bytes" | "timestamp" | "duration" | "null" | "dyn" }
+  | { kind: "list"; element: CelType }
+  | { kind: "map"; key: CelType; value: CelType }
+  | { kind: "message"; message: DescMessage };
+
+export interface CompiledCel {
+  /** JavaScript expression evaluating to the CEL value */
+  js: string;
+  /** Static CEL type of the expression */
+  type: CelType;
+}
+
+export interface CelEnvironment {
+  /** Value bound to `this` */
+  self: CompiledCel;
+  /** Typed rules of the annotated field, bound to `rules` (field rules only) */
+  rules?: object;
+  /** Plugin options, for the shape of the generated objects */
+  options: PluginOptions;
+  /** Regex constants of the generated file, the matches() patterns are added to it */
+  patterns: PatternTable;
+  /** Runtime helpers the compiled expression calls (see format-helpers.ts) */
+  helpers: Set<FormatHelper>;
+}
+
+/**
+ * Thrown for expressions outside the supported CEL subset
+ */
+export class CelUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CelUnsupportedError";
+  }
+}
+
+/**
+ * Compiles a CEL expression, which must evaluate to a bool (false = violation)
+ * or a string (non-empty = violation message)
+ */
+export function compileCelExpression(expression: string, env: CelEnvironment): CompiledCel {
+  const parser = new Parser(tokenize(expression));
+  const ast = parser.parseRoot();
+  const compiled = new Compiler(env).compile(ast);
+  if (compiled.type.kind !== "bool" && compiled.type.kind !== "string") {
+    throw new CelUnsupportedError(`expression must evaluate to bool or string, got ${describeType(compiled.type)}`);
+  }
+  return compiled;
+}
+
+/**
+ * Creates the environment for a message-level rule, where `this` is the message
+ */
+export function createMessageEnvironment(
+  message: DescMessage,
+  valueExpr: string,
+  options: PluginOptions,
+  patterns: PatternTable,
+  helpers: Set<FormatHelper>
+): CelEnvironment {
+  return {
+    self: { js: valueExpr, type: { kind: "message", message } },
+    options,
+    patterns,
+    helpers,
+  };
+}
+
+/**
+ * Creates the environment for a field-level rule, where `this` is the field value
+ */
+export function createFieldEnvironment(
+  field: DescField,
+  messageExpr: string,
+  options: PluginOptions,
+  patterns: PatternTable,
+  helpers: Set<FormatHelper>,
+  rules?: object
+): CelEnvironment {
+  const type = accessibleFieldType(field, options);
+  return {
+    self: { js: materialize(fieldAccess(messageExpr, field, options), type, options), type },
+    rules,
+    options,
+    patterns,
+    helpers,
+  };
+}
+
+/**
+ * Returns the presence check guarding rules on fields with explicit presence,
+ * which protovalidate skips while the field is unset. With IGNORE_IF_ZERO_VALUE
+ * the rules are also skipped for the zero value.
+ */
+export function fieldPresenceGuard(
+  field: DescField,
+  messageExpr: string,
+  options: PluginOptions,
+  ignoreIfZero = false
+): string | undefined {
+  const access = fieldAccess(messageExpr, field, options);
+  const type = fieldCelType(field);
+  if (ignoreIfZero && type.kind !== "message" && type.kind !== "timestamp" && type.kind !== "duration") {
+    const value = materialize(access, type, options);
+    switch (type.kind) {
+      case "int":
+      case "uint":
+        return `${value} !== 0n`;
+      case "bytes":
+      case "list":
+        return `${value}.length !== 0`;
+      case "map":
+        return `Object.keys(${value}).length !== 0`;
+      default:
+        return `${value} !== ${type.kind === "string" ? '""' : type.kind === "bool" ? "false" : "0"}`;
+    }
+  }
+  if (field.fieldKind === "message" || field.oneof !== undefined || field.proto.proto3Optional) {
+    return `${access} !== undefined`;
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: "int" | "uint"; value: bigint; pos: number }
+  | { kind: "double"; value: number; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "ident" | "op"; value: string; pos: number }
+  | { kind: "eof"; value: ""; pos: number };
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "!", "+", "-", "*", "/", "%", "?", ":", ".", ",", "(", ")", "[", "]", "{", "}"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    // Line comments
+    if (source.startsWith("//", pos)) {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+      continue;
+    }
+
+    // Numbers
+    const numberMatch = /^(0[xX][0-9a-fA-F]+|\d+\.\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?|\d+[eE][+-]?\d+|\d+)([uU]?)/.exec(source.slice(pos));
+    if (numberMatch && (/\d/.test(ch) || (ch === "." && /\d/.test(source[pos + 1] ?? "")))) {
+      const [text, digits, unsigned] = numberMatch;
+      if (/[.eE]/.test(digits) && !digits.startsWith("0x") && !digits.startsWith("0X")) {
+        tokens.push({ kind: "double", value: Number(digits), pos });
+      } else {
+        tokens.push({ kind: unsigned ? "uint" : "int", value: BigInt(digits), pos });
+      }
+      pos += text.length;
+      continue;
+    }
+
+    // Strings, optionally raw (r"...")
+    const isRaw = (ch === "r" || ch === "R") && (source[pos + 1] === '"' || source[pos + 1] === "'");
+    if (ch === '"' || ch === "'" || isRaw) {
+      const start = pos;
+      if (isRaw) pos++;
+      const quote = source[pos];
+      if (source.startsWith(quote.repeat(3), pos)) {
+        throw new CelUnsupportedError(`triple-quoted strings are not supported (at ${start})`);
+      }
+      pos++;
+      let value = "";
+      while (pos < source.length && source[pos] !== quote) {
+        if (source[pos] === "\\" && !isRaw) {
+          const [decoded, length] = decodeEscape(source, pos);
+          value += decoded;
+          pos += length;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new CelUnsupportedError(`unterminated string literal (at ${start})`);
+      }
+      pos++;
+      tokens.push({ kind: "string", value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos))![0];
+      tokens.push({ kind: "ident", value: ident, pos });
+      pos += ident.length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, pos));
+    if (!op) {
+      throw new CelUnsupportedError(`unexpected character "${ch}" (at ${pos})`);
+    }
+    tokens.push({ kind: "op", value: op, pos });
+    pos += op.length;
+  }
+
+  tokens.push({ kind: "eof", value: "", pos });
+  return tokens;
+}
+
+/**
+ * Decodes a backslash escape, returning the decoded text and the consumed length
+ */
+function decodeEscape(source: string, pos: number): [string, number] {
+  const next = source[pos + 1];
+  const simple: Record<string, string> = {
+    n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", v: "\v", a: "\x07",
+    "\\": "\\", '"': '"', "'": "'", "`": "`", "?": "?",
+  };
+  if (next in simple) {
+    return [simple[next], 2];
+  }
+  const hex = /^(?:[xX]([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|([0-3][0-7]{2}))/.exec(source.slice(pos + 1));
+  if (hex) {
+    const code = hex[4] !== undefined ? parseInt(hex[4], 8) : parseInt(hex[1] ?? hex[2] ?? hex[3], 16);
+    return [String.fromCodePoint(code), hex[0].length + 1];
+  }
+  throw new CelUnsupportedError(`invalid escape sequence "\\${next}" (at ${pos})`);
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+type CelNode =
+  | { type: "literal"; value: bigint | number | string | boolean | null; kind: "int" | "uint" | "double" | "string" | "bool" | "null" }
+  | { type: "ident"; name: string }
+  | { type: "select"; operand: CelNode; field: string }
+  | { type: "index"; operand: CelNode; index: CelNode }
+  | { type: "call"; target?: CelNode; name: string; args: CelNode[] }
+  | { type: "list"; elements: CelNode[] }
+  | { type: "unary"; op: "!" | "-"; operand: CelNode }
+  | { type: "binary"; op: string; left: CelNode; right: CelNode }
+  | { type: "conditional"; condition: CelNode; then: CelNode; otherwise: CelNode };
+
+const RELATIONS = ["<", "<=", ">", ">=", "==", "!=", "in"];
+
+/**
+ * Recursive descent parser following the CEL grammar
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseRoot(): CelNode {
+    const node = this.parseExpr();
+    if (this.peek().kind !== "eof") {
+      this.fail(`unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseExpr(): CelNode {
+    const condition = this.parseOr();
+    if (this.acceptOp("?")) {
+      const then = this.parseOr();
+      this.expectOp(":");
+      const otherwise = this.parseExpr();
+      return { type: "conditional", condition, then, otherwise };
+    }
+    return condition;
+  }
+
+  private parseOr(): CelNode {
+    let left = this.parseAnd();
+    while (this.acceptOp("||")) {
+      left = { type: "binary", op: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): CelNode {
+    let left = this.parseRelation();
+    while (this.acceptOp("&&")) {
+      left = { type: "binary", op: "&&", left, right: this.parseRelation() };
+    }
+    return left;
+  }
+
+  private parseRelation(): CelNode {
+    let left = this.parseAddition();
+    for (;;) {
+      const token = this.peek();
+      const isRelation =
+        (token.kind === "op" && RELATIONS.includes(token.value)) ||
+        (token.kind === "ident" && token.value === "in");
+      if (!isRelation) return left;
+      this.index++;
+      left = { type: "binary", op: token.value, left, right: this.parseAddition() };
+    }
+  }
+
+  private parseAddition(): CelNode {
+    let left = this.parseMultiplication();
+    for (;;) {
+      const op = this.acceptOp("+") ?? this.acceptOp("-");
+      if (!op) return left;
+      left = { type: "binary", op, left, right: this.parseMultiplication() };
+    }
+  }
+
+  private parseMultiplication(): CelNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.acceptOp("*") ?? this.acceptOp("/") ?? this.acceptOp("%");
+      if (!op) return left;
+      left = { type: "binary", op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): CelNode {
+    if (this.acceptOp("!")) {
+      return { type: "unary", op: "!", operand: this.parseUnary() };
+    }
+    if (this.acceptOp("-")) {
+      // Fold negative literals so int64 minimum values stay representable
+      const operand = this.parseUnary();
+      if (operand.type === "literal" && operand.kind === "int") {
+        return { ...operand, value: -(operand.value as bigint) };
+      }
+      if (operand.type === "literal" && operand.kind === "double") {
+        return { ...operand, value: -(operand.value as number) };
+      }
+      return { type: "unary", op: "-", operand };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): CelNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.acceptOp(".")) {
+        const name = this.expectIdent();
+        if (this.acceptOp("(")) {
+          node = { type: "call", target: node, name, args: this.parseArgs(")") };
+        } else {
+          node = { type: "select", operand: node, field: name };
+        }
+      } else if (this.acceptOp("[")) {
+        const index = this.parseExpr();
+        this.expectOp("]");
+        node = { type: "index", operand: node, index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): CelNode {
+    const token = this.tokens[this.index++];
+    switch (token.kind) {
+      case "int":
+      case "uint":
+      case "double":
+      case "string":
+        return { type: "literal", value: token.value, kind: token.kind };
+      case "ident":
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true", kind: "bool" };
+        }
+        if (token.value === "null") {
+          return { type: "literal", value: null, kind: "null" };
+        }
+        if (this.acceptOp("(")) {
+          return { type: "call", name: token.value, args: this.parseArgs(")") };
+        }
+        return { type: "ident", name: token.value };
+      case "op":
+        if (token.value === "(") {
+          const node = this.parseExpr();
+          this.expectOp(")");
+          return node;
+        }
+        if (token.value === "[") {
+          return { type: "list", elements: this.parseArgs("]") };
+        }
+        if (token.value === "{") {
+          throw new CelUnsupportedError("map and message literals are not supported");
+        }
+        return this.fail(`unexpected "${token.value}"`, token);
+      default:
+        return this.fail("unexpected end of expression", token);
+    }
+  }
+
+  private parseArgs(closing: string): CelNode[] {
+    const args: CelNode[] = [];
+    if (this.acceptOp(closing)) return args;
+    do {
+      if (closing === "]" && this.peek().kind === "op" && this.peek().value === "]") break;
+      args.push(this.parseExpr());
+    } while (this.acceptOp(","));
+    this.expectOp(closing);
+    return args;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private acceptOp(op: string): string | undefined {
+    const token = this.peek();
+    if (token.kind === "op" && token.value === op) {
+      this.index++;
+      return op;
+    }
+    return undefined;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) {
+      this.fail(`expected "${op}"`);
+    }
+  }
+
+  private expectIdent(): string {
+    const token = this.tokens[this.index++];
+    if (token.kind !== "ident") {
+      this.fail("expected identifier", token);
+    }
+    return token.value as string;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new CelUnsupportedError(`syntax error: ${message} (at ${token.pos})`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Compiler
+// ---------------------------------------------------------------------------
+
+const INT: CelType = { kind: "int" };
+const UINT: CelType = { kind: "uint" };
+const DOUBLE: CelType = { kind: "double" };
+const STRING: CelType = { kind: "string" };
+const BOOL: CelType = { kind: "bool" };
+const BYTES: CelType = { kind: "bytes" };
+const TIMESTAMP: CelType = { kind: "timestamp" };
+const DURATION: CelType = { kind: "duration" };
+const DYN: CelType = { kind: "dyn" };
+
+const MACROS = ["all", "exists", "exists_one"];
+
+class Compiler {
+  private readonly variables = new Map<string, CompiledCel>();
+
+  constructor(private readonly env: CelEnvironment) {}
+
+  compile(node: CelNode): CompiledCel {
+    switch (node.type) {
+      case "literal":
+        return compileLiteral(node.value, node.kind);
+      case "ident":
+        return this.compileIdent(node.name);
+      case "select":
+        return this.compileSelect(node.operand, node.field);
+      case "index":
+        return this.compileIndex(node.operand, node.index);
+      case "list":
+        return this.compileList(node.elements);
+      case "unary":
+        return this.compileUnary(node.op, node.operand);
+      case "binary":
+        return this.compileBinary(node.op, node.left, node.right);
+      case "conditional":
+        return this.compileConditional(node.condition, node.then, node.otherwise);
+      case "call":
+        return this.compileCall(node.name, node.target, node.args);
+    }
+  }
+
+  private compileIdent(name: string): CompiledCel {
+    const variable = this.variables.get(name);
+    if (variable) return variable;
+
+    switch (name) {
+      case "this":
+        return this.env.self;
+      case "now":
+        return { js: "Date.now()", type: TIMESTAMP };
+      case "rules":
+        throw new CelUnsupportedError("`rules` can only be used to select a rule value, e.g. rules.max_len");
+      default:
+        throw new CelUnsupportedError(`unknown identifier "${name}"`);
+    }
+  }
+
+  private compileSelect(operandNode: CelNode, name: string): CompiledCel {
+    if (operandNode.type === "ident" && operandNode.name === "rules" && !this.variables.has("rules")) {
+      return this.compileRuleValue(name);
+    }
+
+    const operand = this.compile(operandNode);
+    switch (operand.type.kind) {
+      case "message": {
+        const field = operand.type.message.fields.find((candidate) => candidate.name === name);
+        if (!field) {
+          throw new CelUnsupportedError(`no field "${name}" in ${operand.type.message.typeName}`);
+        }
+        const type = accessibleFieldType(field, this.env.options);
+        return { js: materialize(fieldAccess(operand.js, field, this.env.options), type, this.env.options), type };
+      }
+      case "map":
+        this.env.helpers.add("celMapValue");
+        return { js: materialize(`celMapValue(${operand.js}, ${JSON.stringify(name)})`, operand.type.value, this.env.options), type: operand.type.value };
+      case "dyn":
+        return { js: `${operand.js}?.[${JSON.stringify(name)}]`, type: DYN };
+      default:
+        throw new CelUnsupportedError(`cannot select "${name}" from ${describeType(operand.type)}`);
+    }
+  }
+
+  /**
+   * Folds `rules.<name>` into a literal read from the field's typed rules
+   */
+  private compileRuleValue(name: string): CompiledCel {
+    const rules = this.env.rules as Record<string, unknown> | undefined;
+    if (!rules) {
+      throw new CelUnsupportedError("`rules` is only available in field rules with typed rules");
+    }
+    const key = toCamelCase(name);
+    let value = rules[key];
+    if (value === undefined) {
+      // Rule values inside oneofs (e.g. greater_than) are stored as { case, value }
+      for (const candidate of Object.values(rules)) {
+        if (isOneofValue(candidate) && candidate.case === key) {
+          value = candidate.value;
+        }
+      }
+    }
+    return compileConstant(value, `rules.${name}`);
+  }
+
+  private compileIndex(operandNode: CelNode, indexNode: CelNode): CompiledCel {
+    const operand = this.compile(operandNode);
+    const index = this.compile(indexNode);
+    switch (operand.type.kind) {
+      case "list":
+        expectKind(index, ["int", "uint"], "list index");
+        this.env.helpers.add("celIndex");
+        return { js: `celIndex(${operand.js}, ${index.js})`, type: operand.type.element };
+      case "map":
+        this.env.helpers.add("celMapValue");
+        return { js: materialize(`celMapValue(${operand.js}, String(${index.js}))`, operand.type.value, this.env.options), type: operand.type.value };
+      case "dyn":
+        return { js: `${operand.js}?.[String(${index.js})]`, type: DYN };
+      default:
+        throw new CelUnsupportedError(`cannot index ${describeType(operand.type)}`);
+    }
+  }
+
+  private compileList(elementNodes: CelNode[]): CompiledCel {
+    const elements = elementNodes.map((element) => this.compile(element));
+    const element = elements.length > 0 && elements.every((e) => sameType(e.type, elements[0].type)) ? elements[0].type : DYN;
+    return { js: `[${elements.map((e) => e.js).join(", ")}]`, type: { kind: "list", element } };
+  }
+
+  private compileUnary(op: "!" | "-", operandNode: CelNode): CompiledCel {
+    const operand = this.compile(operandNode);
+    if (op === "!") {
+      expectKind(operand, ["bool"], "operand of !");
+      return { js: `!${operand.js}`, type: BOOL };
+    }
+    expectKind(operand, ["int", "double", "duration"], "operand of unary -");
+    return { js: `(-${operand.js})`, type: operand.type };
+  }
+
+  private compileBinary(op: string, leftNode: CelNode, rightNode: CelNode): CompiledCel {
+    const left = this.compile(leftNode);
+    const right = this.compile(rightNode);
+    const l = left.type.kind;
+    const r = right.type.kind;
+
+    switch (op) {
+      case "&&":
+      case "||":
+        expectKind(left, ["bool", "dyn"], `operand of ${op}`);
+        expectKind(right, ["bool", "dyn"], `operand of ${op}`);
+        return { js: `(${left.js} ${op} ${right.js})`, type: BOOL };
+
+      case "<":
+      case "<=":
+      case ">":
+      case ">=":
+        if (!(isNumeric(l) && isNumeric(r)) && !(l === r && ["string", "bool", "timestamp", "duration"].includes(l))) {
+          throw mismatch(op, left, right);
+        }
+        return { js: `(${left.js} ${op} ${right.js})`, type: BOOL };
+
+      case "==":
+      case "!=":
+        return { js: compileEquality(op, left, right), type: BOOL };
+
+      case "in":
+        if (right.type.kind === "list") {
+          return { js: `${right.js}.includes(${left.js})`, type: BOOL };
+        }
+        if (right.type.kind === "map") {
+          return { js: `Object.prototype.hasOwnProperty.call(${right.js}, String(${left.js}))`, type: BOOL };
+        }
+        throw mismatch(op, left, right);
+
+      case "+":
+        if (l === r && ["int", "uint", "double", "string", "duration"].includes(l)) {
+          return { js: `(${left.js} + ${right.js})`, type: left.type };
+        }
+        if (left.type.kind === "list" && right.type.kind === "list") {
+          return { js: `[...${left.js}, ...${right.js}]`, type: left.type };
+        }
+        if ((l === "timestamp" && r === "duration") || (l === "duration" && r === "timestamp")) {
+          return { js: `(${left.js} + ${right.js})`, type: TIMESTAMP };
+        }
+        throw mismatch(op, left, right);
+
+      case "-":
+        if (l === r && ["int", "uint", "double", "duration"].includes(l)) {
+          return { js: `(${left.js} - ${right.js})`, type: left.type };
+        }
+        if (l === "timestamp" && r === "timestamp") {
+          return { js: `(${left.js} - ${right.js})`, type: DURATION };
+        }
+        if (l === "timestamp" && r === "duration") {
+          return { js: `(${left.js} - ${right.js})`, type: TIMESTAMP };
+        }
+        throw mismatch(op, left, right);
+
+      case "*":
+      case "/":
+      case "%":
+        if (l === r && isIntegral(l) && op !== "*") {
+          // Integer division and modulo raise an error for a zero divisor, BigInt would throw a RangeError
+          const helper = op === "/" ? "celDivide" : "celModulo";
+          this.env.helpers.add(helper);
+          return { js: `${helper}(${left.js}, ${right.js})`, type: left.type };
+        }
+        if (l === r && (l === "int" || l === "uint" || (l === "double" && op !== "%"))) {
+          return { js: `(${left.js} ${op} ${right.js})`, type: left.type };
+        }
+        throw mismatch(op, left, right);
+
+      default:
+        throw new CelUnsupportedError(`operator "${op}" is not supported`);
+    }
+  }
+
+  private compileConditional(conditionNode: CelNode, thenNode: CelNode, otherwiseNode: CelNode): CompiledCel {
+    const condition = this.compile(conditionNode);
+    expectKind(condition, ["bool"], "condition");
+    const then = this.compile(thenNode);
+    const otherwise = this.compile(otherwiseNode);
+    const type = sameType(then.type, otherwise.type) ? then.type : DYN;
+    return { js: `(${condition.js} ? ${then.js} : ${otherwise.js})`, type };
+  }
+
+  private compileCall(name: string, targetNode: CelNode | undefined, argNodes: CelNode[]): CompiledCel {
+    if (name === "has") {
+      return this.compileHas(targetNode, argNodes);
+    }
+    if (MACROS.includes(name) && targetNode) {
+      return this.compileMacro(name, targetNode, argNodes);
+    }
+
+    // Receiver-style and global calls are interchangeable, e.g. size(x) / x.size()
+    const args = [...(targetNode ? [targetNode] : []), ...argNodes].map((arg) => this.compile(arg));
+    const expectArgs = (count: number) => {
+      if (args.length !== count) {
+        throw new CelUnsupportedError(`${name}() expects ${count - (targetNode ? 1 : 0)} argument(s)`);
+      }
+    };
+
+    switch (name) {
+      case "size": {
+        expectArgs(1);
+        const [value] = args;
+        switch (value.type.kind) {
+          case "string":
+            // CEL counts code points, not UTF-16 units
+            return { js: `BigInt([...${value.js}].length)`, type: INT };
+          case "bytes":
+          case "list":
+            return { js: `BigInt(${value.js}.length)`, type: INT };
+          case "map":
+            return { js: `BigInt(Object.keys(${value.js}).length)`, type: INT };
+          default:
+            throw new CelUnsupportedError(`size() is not defined for ${describeType(value.type)}`);
+        }
+      }
+
+      case "matches": {
+        expectArgs(2);
+        const [value, pattern] = args;
+        expectKind(value, ["string"], "matches() receiver");
+        expectKind(pattern, ["string"], "matches() pattern");
+        const regex = this.compilePattern(targetNode ? argNodes[0] : argNodes[1]);
+        return { js: `${regex}.test(${value.js})`, type: BOOL };
+      }
+
+      case "startsWith":
+      case "endsWith":
+      case "contains": {
+        expectArgs(2);
+        const [value, part] = args;
+        expectKind(value, ["string"], `${name}() receiver`);
+        expectKind(part, ["string"], `${name}() argument`);
+        const method = name === "contains" ? "includes" : name;
+        return { js: `${value.js}.${method}(${part.js})`, type: BOOL };
+      }
+
+      case "unique": {
+        expectArgs(1);
+        const [value] = args;
+        if (value.type.kind !== "list" || !["int", "uint", "double", "string", "bool"].includes(value.type.element.kind)) {
+          throw new CelUnsupportedError(`unique() is not defined for ${describeType(value.type)}`);
+        }
+        return { js: `(new Set(${value.js}).size === ${value.js}.length)`, type: BOOL };
+      }
+
+      case "isNan":
+      case "isInf": {
+        expectArgs(1);
+        const [value] = args;
+        expectKind(value, ["double"], `${name}() receiver`);
+        const check = name === "isNan" ? `Number.isNaN(${value.js})` : `(Math.abs(${value.js}) === Infinity)`;
+        return { js: check, type: BOOL };
+      }
+
+      case "int":
+      case "uint": {
+        expectArgs(1);
+        const [value] = args;
+        const type = name === "int" ? INT : UINT;
+        switch (value.type.kind) {
+          case "int":
+          case "uint":
+            return { js: value.js, type };
+          case "double":
+            return { js: `BigInt(Math.trunc(${value.js}))`, type };
+          case "string":
+            return { js: `BigInt(${value.js})`, type };
+          case "timestamp":
+            return { js: `BigInt(Math.floor(${value.js} / 1000))`, type };
+          default:
+            throw new CelUnsupportedError(`${name}() is not defined for ${describeType(value.type)}`);
+        }
+      }
+
+      case "double": {
+        expectArgs(1);
+        const [value] = args;
+        expectKind(value, ["int", "uint", "double", "string"], "double() argument");
+        return { js: `Number(${value.js})`, type: DOUBLE };
+      }
+
+      case "string": {
+        expectArgs(1);
+        const [value] = args;
+        expectKind(value, ["int", "uint", "double", "string", "bool"], "string() argument");
+        return { js: `String(${value.js})`, type: STRING };
+      }
+
+      case "duration": {
+        expectArgs(1);
+        return { js: String(parseDuration(constantString(argNodes[0], "duration()"))), type: DURATION };
+      }
+
+      case "timestamp": {
+        expectArgs(1);
+        const text = constantString(argNodes[0], "timestamp()");
+        const millis = Date.parse(text);
+        if (Number.isNaN(millis)) {
+          throw new CelUnsupportedError(`invalid timestamp "${text}"`);
+        }
+        return { js: String(millis), type: TIMESTAMP };
+      }
+
+      default:
+        throw new CelUnsupportedError(`function "${name}" is not supported`);
+    }
+  }
+
+  /**
+   * Declares the regex of a matches() pattern, which must be a string literal or
+   * a rule value, so that it is compiled once and checked at generation time
+   */
+  private compilePattern(node: CelNode): string {
+    let pattern: string | undefined;
+    if (node.type === "literal" && node.kind === "string") {
+      pattern = node.value as string;
+    } else if (node.type === "select" && node.operand.type === "ident" && node.operand.name === "rules" && !this.variables.has("rules")) {
+      const value = this.compileRuleValue(node.field);
+      pattern = value.type.kind === "string" ? (JSON.parse(value.js) as string) : undefined;
+    }
+    if (pattern === undefined) {
+      throw new CelUnsupportedError("matches() only supports constant patterns");
+    }
+    try {
+      return patternConstant(this.env.patterns, pattern);
+    } catch (error) {
+      if (!(error instanceof PatternUnsupportedError)) {
+        throw error;
+      }
+      throw new CelUnsupportedError(`pattern "${pattern}" of matches(): ${error.message}`);
+    }
+  }
+
+  /**
+   * Compiles has(x.field) into a presence check following proto3 semantics
+   */
+  private compileHas(targetNode: CelNode | undefined, argNodes: CelNode[]): CompiledCel {
+    const [arg] = argNodes;
+    if (targetNode || argNodes.length !== 1 || arg.type !== "select") {
+      throw new CelUnsupportedError("has() expects a single field selection, e.g. has(this.field)");
+    }
+
+    const operand = this.compile(arg.operand);
+    if (operand.type.kind === "map" || operand.type.kind === "dyn") {
+      return { js: `Object.prototype.hasOwnProperty.call(${operand.js} ?? {}, ${JSON.stringify(arg.field)})`, type: BOOL };
+    }
+    if (operand.type.kind !== "message") {
+      throw new CelUnsupportedError(`has() is not defined for ${describeType(operand.type)}`);
+    }
+
+    const field = operand.type.message.fields.find((candidate) => candidate.name === arg.field);
+    if (!field) {
+      throw new CelUnsupportedError(`no field "${arg.field}" in ${operand.type.message.typeName}`);
+    }
+    const raw = fieldAccess(operand.js, field, this.env.options);
+    const type = accessibleFieldType(field, this.env.options);
+
+    // Explicit presence: messages, oneof members and proto3 optional fields
+    if (field.fieldKind === "message" || field.oneof !== undefined || field.proto.proto3Optional) {
+      return { js: `(${raw} !== undefined)`, type: BOOL };
+    }
+
+    // Implicit presence: set means "not the zero value"
+    const value = materialize(raw, type, this.env.options);
+    switch (type.kind) {
+      case "int":
+      case "uint":
+        return { js: `(${value} !== 0n)`, type: BOOL };
+      case "double":
+        return { js: `(${value} !== 0)`, type: BOOL };
+      case "string":
+        return { js: `(${value} !== "")`, type: BOOL };
+      case "bool":
+        return { js: value, type: BOOL };
+      case "bytes":
+      case "list":
+        return { js: `(${value}.length > 0)`, type: BOOL };
+      case "map":
+        return { js: `(Object.keys(${value}).length > 0)`, type: BOOL };
+      default:
+        return { js: `(${raw} !== undefined)`, type: BOOL };
+    }
+  }
+
+  /**
+   * Compiles the all()/exists()/exists_one() comprehension macros
+   */
+  private compileMacro(name: string, targetNode: CelNode, argNodes: CelNode[]): CompiledCel {
+    const [variableNode, predicateNode] = argNodes;
+    if (argNodes.length !== 2 || variableNode.type !== "ident") {
+      throw new CelUnsupportedError(`${name}() expects a variable name and a predicate`);
+    }
+
+    const target = this.compile(targetNode);
+    const variable = variableNode.name;
+    const param = `$${variable}`;
+    let items: string;
+    let itemType: CelType;
+    let item: string;
+    if (target.type.kind === "list") {
+      items = target.js;
+      itemType = target.type.element;
+      item = param;
+    } else if (target.type.kind === "map") {
+      // Map comprehensions iterate over keys, which are strings in plain objects
+      items = `Object.keys(${target.js})`;
+      itemType = target.type.key;
+      item = isIntegral(itemType.kind) ? `BigInt(${param})` : itemType.kind === "bool" ? `(${param} === "true")` : param;
+    } else {
+      throw new CelUnsupportedError(`${name}() is not defined for ${describeType(target.type)}`);
+    }
+
+    const shadowed = this.variables.get(variable);
+    this.variables.set(variable, { js: item, type: itemType });
+    const predicate = this.compile(predicateNode);
+    if (shadowed) {
+      this.variables.set(variable, shadowed);
+    } else {
+      this.variables.delete(variable);
+    }
+    expectKind(predicate, ["bool"], `${name}() predicate`);
+
+    switch (name) {
+      case "all":
+        return { js: `${items}.every((${param}) => ${predicate.js})`, type: BOOL };
+      case "exists":
+        return { js: `${items}.some((${param}) => ${predicate.js})`, type: BOOL };
+      default:
+        return { js: `(${items}.filter((${param}) => ${predicate.js}).length === 1)`, type: BOOL };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Maps a proto field to its CEL type
+ */
+export function fieldCelType(field: DescField): CelType {
+  switch (field.fieldKind) {
+    case "scalar":
+      return scalarCelType(field.scalar);
+    case "enum":
+      return INT;
+    case "message":
+      return messageCelType(field.message);
+    case "list":
+      return {
+        kind: "list",
+        element: field.listKind === "scalar" ? scalarCelType(field.scalar) : field.listKind === "enum" ? INT : messageCelType(field.message),
+      };
+    case "map":
+      return {
+        kind: "map",
+        key: scalarCelType(field.mapKey),
+        value: field.mapKind === "scalar" ? scalarCelType(field.scalar) : field.mapKind === "enum" ? INT : messageCelType(field.message),
+      };
+  }
+}
+
+function scalarCelType(scalar: ScalarType): CelType {
+  switch (scalar) {
+    case ScalarType.STRING:
+      return STRING;
+    case ScalarType.BOOL:
+      return BOOL;
+    case ScalarType.BYTES:
+      return BYTES;
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return DOUBLE;
+    case ScalarType.UINT32:
+    case ScalarType.UINT64:
+    case ScalarType.FIXED32:
+    case ScalarType.FIXED64:
+      return UINT;
+    default:
+      return INT;
+  }
+}
+
+function messageCelType(message: DescMessage): CelType {
+  switch (message.typeName) {
+    case "google.protobuf.Timestamp":
+      return TIMESTAMP;
+    case "google.protobuf.Duration":
+      return DURATION;
+    case "google.protobuf.Struct":
+      return { kind: "map", key: STRING, value: DYN };
+    case "google.protobuf.ListValue":
+      return { kind: "list", element: DYN };
+    case "google.protobuf.Value":
+    case "google.protobuf.Any":
+      return DYN;
+    case "google.protobuf.StringValue":
+      return STRING;
+    case "google.protobuf.BytesValue":
+      return BYTES;
+    case "google.protobuf.BoolValue":
+      return BOOL;
+    case "google.protobuf.FloatValue":
+    case "google.protobuf.DoubleValue":
+      return DOUBLE;
+    case "google.protobuf.Int32Value":
+    case "google.protobuf.Int64Value":
+      return INT;
+    case "google.protobuf.UInt32Value":
+    case "google.protobuf.UInt64Value":
+      return UINT;
+    default:
+      return { kind: "message", message };
+  }
+}
+
+/**
+ * Maps a field read by an expression to its CEL type; maps held in a JS Map
+ * (64-bit keys with forceLong=long or bigint) are not supported
+ */
+function accessibleFieldType(field: DescField, options: PluginOptions): CelType {
+  if (usesMapType(field, options)) {
+    throw new CelUnsupportedError(`map field "${field.name}" with 64-bit keys requires forceLong=string or number`);
+  }
+  return fieldCelType(field);
+}
+
+/**
+ * Builds the property access for a field, following the oneof shape
+ */
+function fieldAccess(base: string, field: DescField, options: PluginOptions): string {
+  // Bare identifiers (the validated object, comprehension variables) are always defined,
+  // nested message values may be unset
+  const dot = /^[A-Za-z_$][\w$]*$/.test(base) ? "." : "?.";
+  const name = toCamelCase(field.name);
+  if (field.oneof && options.oneof !== "properties") {
+    const group = `${base}${dot}${toCamelCase(field.oneof.name)}`;
+    const caseKey = options.oneof === "case" ? "case" : "$case";
+    const valueKey = options.oneof === "unions" ? name : "value";
+    return `(${group}?.${caseKey} === "${name}" ? ${group}.${valueKey} : undefined)`;
+  }
+  return `${base}${dot}${name}`;
+}
+
+/**
+ * Converts a raw (possibly undefined) generated value into its CEL representation,
+ * substituting the proto3 zero value for unset fields
+ */
+function materialize(raw: string, type: CelType, options: PluginOptions, depth = 0): string {
+  switch (type.kind) {
+    case "int":
+    case "uint":
+      // BigInt() rejects Long values (forceLong=long)
+      return options.forceLong === "long" ? `BigInt((${raw} ?? 0).toString())` : `BigInt(${raw} ?? 0)`;
+    case "double":
+      return `(${raw} ?? 0)`;
+    case "string":
+      return `(${raw} ?? "")`;
+    case "bool":
+      return `(${raw} ?? false)`;
+    case "bytes":
+      return `(${raw} ?? new Uint8Array(0))`;
+    case "timestamp":
+      switch (options.useDate) {
+        case "false":
+          return `(${raw} ? Number(${raw}.seconds) * 1000 + ${raw}.nanos / 1000000 : 0)`;
+        case "string":
+          return `(${raw} === undefined ? 0 : Date.parse(${raw}))`;
+        default:
+          return `(${raw}?.getTime() ?? 0)`;
+      }
+    case "duration":
+      // Duration seconds follow forceLong, Number() converts each of its types
+      return `(${raw} ? Number(${raw}.seconds) * 1000 + ${raw}.nanos / 1000000 : 0)`;
+    case "list": {
+      if (!needsConversion(type.element)) {
+        return `(${raw} ?? [])`;
+      }
+      const element = `e${depth}`;
+      return `(${raw} ?? []).map((${element}) => ${materialize(element, type.element, options, depth + 1)})`;
+    }
+    case "map":
+      return `(${raw} ?? {})`;
+    default:
+      return raw;
+  }
+}
+
+function needsConversion(type: CelType): boolean {
+  return isIntegral(type.kind) || type.kind === "timestamp" || type.kind === "duration" || type.kind === "list";
+}
+
+function compileLiteral(value: bigint | number | string | boolean | null, kind: string): CompiledCel {
+  switch (kind) {
+    case "int":
+      return { js: `${value}n`, type: INT };
+    case "uint":
+      return { js: `${value}n`, type: UINT };
+    case "double":
+      return { js: formatDouble(value as number), type: DOUBLE };
+    case "string":
+      return { js: JSON.stringify(value), type: STRING };
+    case "bool":
+      return { js: String(value), type: BOOL };
+    default:
+      return { js: "undefined", type: { kind: "null" } };
+  }
+}
+
+/**
+ * Compiles a value read from the typed rules into a literal
+ */
+function compileConstant(value: unknown, label: string): CompiledCel {
+  if (typeof value === "bigint") return compileLiteral(value, "int");
+  if (typeof value === "number") return compileLiteral(value, "double");
+  if (typeof value === "string") return compileLiteral(value, "string");
+  if (typeof value === "boolean") return compileLiteral(value, "bool");
+  if (Array.isArray(value)) {
+    const elements = value.map((element) => compileConstant(element, label));
+    const element = elements[0]?.type ?? DYN;
+    return { js: `[${elements.map((e) => e.js).join(", ")}]`, type: { kind: "list", element } };
+  }
+  throw new CelUnsupportedError(`cannot resolve ${label}`);
+}
+
+function compileEquality(op: "==" | "!=", left: CompiledCel, right: CompiledCel): string {
+  const l = left.type.kind;
+  const r = right.type.kind;
+  const strict = op === "==" ? "===" : "!==";
+
+  if (l === "null" || r === "null") {
+    const other = l === "null" ? right : left;
+    return `(${other.js} ${strict} undefined)`;
+  }
+  if (isNumeric(l) && isNumeric(r)) {
+    // bigint and number compare by value with loose equality
+    return l === r ? `(${left.js} ${strict} ${right.js})` : `(${left.js} ${op} ${right.js})`;
+  }
+  if (l === r && ["string", "bool", "timestamp", "duration", "dyn"].includes(l)) {
+    return `(${left.js} ${strict} ${right.js})`;
+  }
+  if (l === "bytes" && r === "bytes") {
+    const equal = `(${left.js}.length === ${right.js}.length && ${left.js}.every((b, i) => b === ${right.js}[i]))`;
+    return op === "==" ? equal : `!${equal}`;
+  }
+  throw mismatch(op, left, right);
+}
+
+/**
+ * Parses a Go-style duration string ("1h30m", "1.5s", "300ms") into milliseconds
+ */
+function parseDuration(text: string): number {
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1, us: 0.001, "µs": 0.001, ns: 0.000001 };
+  const match = /^([+-]?)((?:\d+(?:\.\d*)?|\.\d+)(?:h|ms|m|s|us|µs|ns))+$/.test(text);
+  if (!match) {
+    throw new CelUnsupportedError(`invalid duration "${text}"`);
+  }
+  const sign = text.startsWith("-") ? -1 : 1;
+  let total = 0;
+  for (const part of text.replace(/^[+-]/, "").matchAll(/(\d+(?:\.\d*)?|\.\d+)(h|ms|m|s|us|µs|ns)/g)) {
+    total += Number(part[1]) * units[part[2]];
+  }
+  return sign * total;
+}
+
+function constantString(node: CelNode, label: string): string {
+  if (node.type !== "literal" || node.kind !== "string") {
+    throw new CelUnsupportedError(`${label} only supports string literals`);
+  }
+  return node.value as string;
+}
+
+function formatDouble(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "Infinity" : "-Infinity";
+  return String(value);
+}
+
+function isOneofValue(value: unknown): value is { case: string; value: unknown } {
+  return typeof value === "object" && value !== null && "case" in value && "value" in value;
+}
+
+function isIntegral(kind: string): boolean {
+  return kind === "int" || kind === "uint";
+}
+
+function isNumeric(kind: string): boolean {
+  return kind === "int" || kind === "uint" || kind === "double";
+}
+
+function sameType(a: CelType, b: CelType): boolean {
+  if (a.kind !== b.kind) return false;
+  if (a.kind === "list" && b.kind === "list") return sameType(a.element, b.element);
+  if (a.kind === "map" && b.kind === "map") return sameType(a.key, b.key) && sameType(a.value, b.value);
+  if (a.kind === "message" && b.kind === "message") return a.message.typeName === b.message.typeName;
+  return true;
+}
+
+function expectKind(value: CompiledCel, kinds: string[], label: string): void {
+  if (!kinds.includes(value.type.kind)) {
+    throw new CelUnsupportedError(`${label} must be ${kinds.join(" or ")}, got ${describeType(value.type)}`);
+  }
+}
+
+function mismatch(op: string, left: CompiledCel, right: CompiledCel): CelUnsupportedError {
+  return new CelUnsupportedError(`operator "${op}" is not defined for ${describeType(left.type)} and ${describeType(right.type)}`);
+}
+
+function describeType(type: CelType): string {
+  switch (type.kind) {
+    case "list":
+      return `list(${describeType(type.element)})`;
+    case "map":
+      return `map(${describeType(type.key)}, ${describeType(type.value)})`;
+    case "message":
+      return type.message.typeName;
+    default:
+      return type.kind;
+  }
+}
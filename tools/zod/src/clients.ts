@@ -0,0 +1,298 @@
+/**
+ * Generates promise-based gRPC clients that validate with the Zod schemas
+ *
+ * ts-proto (outputServices=grpc-js) emits callback-style @grpc/grpc-js clients.
+ * For each service, <file>_client.ts wraps such a client: unary methods return
+ * promises, server-streaming methods return async iterables, and requests are
+ * validated with the generated `*RequestSchema` before they are sent. Responses
+ * are validated too when the client is created with `validateResponses` and
+ * their schemas are generated (include_responses). Calls are cancelled through
+ * an AbortSignal.
+ *
+ * Like the format helpers, the call helpers are printed into each file so the
+ * generated code does not depend on a runtime package.
+ */
+
+import type { GeneratedFile, Schema } from "@bufbuild/protoplugin";
+import type { DescFile, DescMessage, DescMethod, DescService } from "@bufbuild/protobuf";
+import type { PluginOptions } from "./generator.js";
+import { getRelativeImportPath, isResponseMessage, toSchemaName, toTsTypeName } from "./utils.js";
+
+type CallHelper = "unaryCall" | "serverStreamingCall";
+
+// Keys are in print order; String.raw keeps the source as written
+const HELPERS: Record<CallHelper, string> = {
+  unaryCall: String.raw`
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}`,
+  serverStreamingCall: String.raw`
+/** Validates the request, then yields the messages of a server-streaming call */
+async function* serverStreamingCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (metadata: Metadata, options: Partial<CallOptions>) => ClientReadableStream<Res>,
+): AsyncGenerator<Res, void, undefined> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const stream = start(settings.metadata ?? new Metadata(), settings.options ?? {});
+  const cancel = () => stream.cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    for await (const message of stream as AsyncIterable<Res>) {
+      responseSchema?.parse(message);
+      yield message;
+    }
+  } catch (error) {
+    throw signal?.aborted ? signal.reason : error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // Ends the call when the consumer stops iterating early
+    stream.cancel();
+  }
+}`,
+};
+
+/**
+ * Generates the client file for the services of a proto file
+ */
+export function generateClientFile(schema: Schema<PluginOptions>, file: DescFile): void {
+  const services = file.services
+    .map((service) => ({ service, methods: service.methods.filter(isSupportedMethod) }))
+    .filter(({ methods }) => methods.length > 0);
+  if (services.length === 0) {
+    return;
+  }
+
+  const f = schema.generateFile(`${file.name}_client.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  f.print();
+
+  const methods = services.flatMap(({ methods }) => methods);
+  const helpers = new Set<CallHelper>(
+    methods.map((method) => (method.methodKind === "unary" ? "unaryCall" : "serverStreamingCall"))
+  );
+  printImports(f, file, services.map(({ service }) => service), methods, schema.options, helpers);
+  f.print();
+
+  f.print("/**");
+  f.print(" * Settings of a single call");
+  f.print(" */");
+  f.print("export interface CallSettings {");
+  f.print("  /** Metadata sent with the request */");
+  f.print("  metadata?: Metadata;");
+  f.print("  /** grpc-js call options, e.g. the deadline */");
+  f.print("  options?: Partial<CallOptions>;");
+  f.print("  /** Cancels the call when aborted, which then rejects with the abort reason */");
+  f.print("  signal?: AbortSignal;");
+  f.print("}");
+  f.print();
+  f.print("/**");
+  f.print(" * Options of the promise clients");
+  f.print(" */");
+  f.print("export interface PromiseClientOptions {");
+  f.print("  /** Whether to validate responses as well, for the responses with a generated schema */");
+  f.print("  validateResponses?: boolean;");
+  f.print("}");
+  f.print();
+
+  for (const name of Object.keys(HELPERS) as CallHelper[]) {
+    if (!helpers.has(name)) {
+      continue;
+    }
+    for (const line of HELPERS[name].trimStart().split("\n")) {
+      f.print(line);
+    }
+    f.print();
+  }
+
+  for (const { service, methods } of services) {
+    printPromiseClient(f, service, methods, schema.options);
+  }
+}
+
+/**
+ * Client- and bidirectional-streaming methods are left to the grpc-js code
+ */
+export function isSupportedMethod(method: DescMethod): boolean {
+  return method.methodKind === "unary" || method.methodKind === "server_streaming";
+}
+
+/**
+ * Reports the methods of a file the promise clients and validation wrappers skip, once each
+ */
+export function warnUnsupportedMethods(file: DescFile, options: PluginOptions): void {
+  const outputs = [options.clients && "promise client", options.servers && "validation wrapper"].filter(Boolean).join(" and ");
+  for (const method of file.services.flatMap((service) => service.methods)) {
+    if (!isSupportedMethod(method)) {
+      console.error(`Warning: Skipping ${method.parent.typeName}.${method.name} in the ${outputs}: ${method.methodKind} calls are not supported`);
+    }
+  }
+}
+
+function printImports(
+  f: GeneratedFile,
+  file: DescFile,
+  services: readonly DescService[],
+  methods: readonly DescMethod[],
+  options: PluginOptions,
+  helpers: ReadonlySet<CallHelper>
+): void {
+  const grpcTypes = ["CallOptions"];
+  if (helpers.has("unaryCall")) {
+    grpcTypes.push("ClientUnaryCall", "ServiceError");
+  }
+  if (helpers.has("serverStreamingCall")) {
+    grpcTypes.push("ClientReadableStream");
+  }
+  f.print(`import { Metadata, ${grpcTypes.sort().map((name) => `type ${name}`).join(", ")} } from "@grpc/grpc-js";`);
+  f.print('import type { z } from "zod";');
+
+  // ts-proto clients and message types by file
+  const types = new Map<string, Set<string>>();
+  for (const service of services) {
+    addImport(types, getRelativeImportPath(file.name, file.name, ".js"), `${service.name}Client`);
+  }
+  for (const method of methods) {
+    for (const message of [method.input, method.output]) {
+      addImport(types, getRelativeImportPath(file.name, message.file.name, ".js"), toTsTypeName(message));
+    }
+  }
+  for (const [from, names] of types) {
+    f.print(`import type { ${Array.from(names).sort().join(", ")} } from "${from}";`);
+  }
+  printSchemaImports(f, file, methods, options);
+}
+
+/**
+ * Prints the imports of the request and response schemas the methods validate with
+ */
+export function printSchemaImports(
+  f: GeneratedFile,
+  file: DescFile,
+  methods: readonly DescMethod[],
+  options: PluginOptions
+): void {
+  const schemas = new Map<string, Set<string>>();
+  for (const method of methods) {
+    for (const message of [method.input, method.output]) {
+      if (hasZodSchema(message, options)) {
+        addImport(schemas, getRelativeImportPath(file.name, message.file.name, "_zod.js"), toSchemaName(toTsTypeName(message)));
+      }
+    }
+  }
+  for (const [from, names] of schemas) {
+    f.print(`import { ${Array.from(names).sort().join(", ")} } from "${from}";`);
+  }
+}
+
+function addImport(imports: Map<string, Set<string>>, from: string, name: string): void {
+  imports.set(from, (imports.get(from) ?? new Set()).add(name));
+}
+
+function printPromiseClient(
+  f: GeneratedFile,
+  service: DescService,
+  methods: readonly DescMethod[],
+  options: PluginOptions
+): void {
+  const clientName = `${service.name}PromiseClient`;
+
+  f.print("/**");
+  f.print(` * Promise-based ${service.name} client, validating requests with the Zod schemas`);
+  if (service.deprecated) {
+    f.print(" * @deprecated");
+  }
+  f.print(` * @generated from service ${service.typeName}`);
+  f.print(" */");
+  f.print(`export interface ${clientName} {`);
+  for (const method of methods) {
+    const result = method.methodKind === "unary" ? "Promise" : "AsyncIterable";
+    f.print("  /**");
+    f.print(`   * Calls ${service.name}.${method.name}${method.methodKind === "unary" ? "" : ", yielding the streamed responses"}`);
+    if (method.deprecated) {
+      f.print("   * @deprecated");
+    }
+    f.print(`   * @generated from rpc ${service.typeName}.${method.name}`);
+    f.print("   */");
+    f.print(`  ${toMethodName(method)}(request: ${toTsTypeName(method.input)}, settings?: CallSettings): ${result}<${toTsTypeName(method.output)}>;`);
+  }
+  f.print("}");
+  f.print();
+
+  f.print("/**");
+  f.print(` * Wraps a ts-proto ${service.name}Client, which owns the channel`);
+  f.print(` * @generated from service ${service.typeName}`);
+  f.print(" */");
+  f.print(`export function create${clientName}(`);
+  f.print(`  client: ${service.name}Client,`);
+  f.print("  clientOptions: PromiseClientOptions = {},");
+  f.print(`): ${clientName} {`);
+  if (methods.some((method) => hasZodSchema(method.output, options))) {
+    f.print("  const validateResponses = clientOptions.validateResponses ?? false;");
+  }
+  f.print("  return {");
+  for (const method of methods) {
+    const name = toMethodName(method);
+    const requestSchema = hasZodSchema(method.input, options) ? toSchemaName(toTsTypeName(method.input)) : "undefined";
+    const responseSchema = hasZodSchema(method.output, options)
+      ? `validateResponses ? ${toSchemaName(toTsTypeName(method.output))} : undefined`
+      : "undefined";
+    const start = method.methodKind === "unary"
+      ? `(metadata, options, callback) => client.${name}(request, metadata, options, callback)`
+      : `(metadata, options) => client.${name}(request, metadata, options)`;
+    f.print(`    ${name}: (request, settings = {}) =>`);
+    f.print(`      ${method.methodKind === "unary" ? "unaryCall" : "serverStreamingCall"}(request, ${requestSchema}, ${responseSchema}, settings, ${start}),`);
+  }
+  f.print("  };");
+  f.print("}");
+  f.print();
+}
+
+/**
+ * Whether generateFileSchemas emits a schema for the message
+ */
+export function hasZodSchema(message: DescMessage, options: PluginOptions): boolean {
+  if (message.file.proto.package === "buf.validate" || message.file.name.startsWith("google/")) {
+    return false;
+  }
+  return options.includeResponses || !isResponseMessage(message.name);
+}
+
+/**
+ * Method name on the ts-proto grpc-js client and server (lowerCamelCase)
+ */
+export function toMethodName(method: DescMethod): string {
+  return method.name.charAt(0).toLowerCase() + method.name.slice(1);
+}
@@ -0,0 +1,1973 @@
+/**
+ * Generates sample messages that satisfy their buf.validate rules, for tests
+ *
+ * With fixtures=true, <file>_fixtures.ts exports for each message of the file:
+ * - `sample<Message>(seed)`, a valid message, the same for the same seed
+ * - `invalid<Message>Fixtures(seed)`, variants of that sample that each break
+ *   one rule, with the protovalidate id of the rule and the path of the field
+ * - `build<Message>(random)`, which the fixtures of other files build on
+ *
+ * Values are drawn from the rules of each field: strings from their pattern
+ * (parsed here, and printed as data), format or length, numbers from their
+ * range, enums from their allowed values, and lists and maps get between their
+ * minimum and maximum number of items. Every field is set, except optional
+ * references along a cycle, which are left unset so that samples end, and
+ * optional fields other than maps that CEL expressions read: the expressions
+ * are not evaluated here, and usually hold for unset fields. Neither are
+ * (buf.validate.message).oneof rules taken into account.
+ *
+ * Like the format helpers, the random helpers a file uses are printed into it.
+ */
+
+import type { GeneratedFile, Schema } from "@bufbuild/protoplugin";
+import { ScalarType, type DescEnum, type DescField, type DescFile, type DescMessage } from "@bufbuild/protobuf";
+import { hasZodSchema } from "./clients.js";
+import type { PluginOptions } from "./generator.js";
+import { toRegExp } from "./patterns.js";
+import { getRuntimeImportSuffix, usesMapType } from "./type-mapper.js";
+import {
+  durationNanos,
+  getFieldCelRules,
+  getFieldRules,
+  getMessageCelRules,
+  IGNORE_IF_ZERO_VALUE,
+  isFieldRequired,
+  isOneofRequired,
+  timestampMillis,
+  toBytesLiteral,
+  toHex,
+  type FieldRules,
+  type RangeRule,
+} from "./validation-mapper.js";
+import { getRelativeImportPath, toCamelCase, toTsTypeName } from "./utils.js";
+
+export type FixtureHelper =
+  | "randomInt"
+  | "randomFloat"
+  | "randomText"
+  | "randomHex"
+  | "randomBytes"
+  | "pick"
+  | "draw"
+  | "sampleRegex"
+  | "randomList"
+  | "randomEntries"
+  | "replaceFirstEntry"
+  | "toTimestamp"
+  | "toDuration"
+  | "omit";
+
+export interface HelperSource {
+  /** Other helpers called by this one */
+  requires: FixtureHelper[];
+  source: string;
+}
+
+/**
+ * Type of the values of a field, of the items of a list, or of the keys or values of a map
+ */
+export type ValueType =
+  | { kind: "scalar"; scalar: ScalarType }
+  | { kind: "enum"; desc: DescEnum }
+  | { kind: "message"; desc: DescMessage };
+
+/**
+ * An invalid value of a field, breaking the rule with the given id
+ */
+interface InvalidValue {
+  ruleId: string;
+  value: string;
+  /** Whether the value is the zero value, which IGNORE_IF_ZERO_VALUE lets through */
+  zero?: boolean;
+  /** Subscript of the value as a map key in a field path, e.g. "key" or 5 */
+  subscript?: string;
+}
+
+/**
+ * Statements of an invalid fixtures function
+ */
+interface InvalidBody {
+  /** Declarations the fixtures refer to, e.g. the key of a map entry */
+  prelude: string[];
+  /** Fixture object literals */
+  entries: string[];
+  /** Loops adding the fixtures of nested messages */
+  loops: string[];
+}
+
+interface FixtureContext {
+  file: DescFile;
+  options: PluginOptions;
+  /** Whether a reference from a message to another is along a cycle */
+  isCycleEdge: (from: DescMessage, to: DescMessage) => boolean;
+  helpers: Set<FixtureHelper>;
+  /** Names of the printed patterns, by pattern */
+  patterns: Map<string, { name: string; node: RegexNode }>;
+  /** Names to import, by import path */
+  imports: Map<string, Set<string>>;
+  usesLong: boolean;
+}
+
+/**
+ * Context of the literals and imports that arbitraries.ts shares
+ */
+export type ExpressionContext = Pick<FixtureContext, "file" | "options" | "imports" | "usesLong">;
+
+// Types printed in every file, before the helpers
+const FIXTURE_TYPES = `
+/**
+ * Source of pseudo-random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * A message that breaks one buf.validate rule
+ */
+export interface InvalidFixture<T> {
+  /** protovalidate id of the broken rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Path of the invalid field, as protovalidate formats it, e.g. "items[0].name" */
+  field: string;
+  value: T;
+}
+
+/**
+ * Pseudo-random numbers, the same sequence for the same seed (mulberry32)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}`;
+
+/**
+ * Sources of the helpers, in print order
+ * Timestamps and Durations follow the useDate and forceLong options.
+ */
+export function getHelperSources(options: PluginOptions): Record<FixtureHelper, HelperSource> {
+  const seconds = int64FromNumber(options, "seconds", false);
+  const typeName = (name: string) => (options.runtime === "protobuf-es" ? `$typeName: "google.protobuf.${name}" as const, ` : "");
+  const timestamp = {
+    true: "return new Date(ms);",
+    string: "return new Date(ms).toISOString();",
+    false: `const seconds = Math.floor(ms / 1000);\n  return { ${typeName("Timestamp")}seconds: ${seconds}, nanos: (ms - seconds * 1000) * 1000000 };`,
+  }[options.useDate];
+
+  return {
+    randomInt: {
+      requires: [],
+      source: `
+/** Integer between min and max, both included */
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}`,
+    },
+    randomFloat: {
+      requires: [],
+      source: `
+/** Number strictly between min and max, rounded to two decimals when that keeps it inside */
+function randomFloat(random: Random, min: number, max: number): number {
+  const value = min + (max - min) * (0.05 + 0.9 * random());
+  const rounded = Math.round(value * 100) / 100;
+  return rounded > min && rounded < max ? rounded : value;
+}`,
+    },
+    randomText: {
+      requires: ["randomInt"],
+      source: `
+/** Lowercase letters and digits, between minLength and maxLength characters */
+function randomText(random: Random, minLength: number, maxLength: number): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: randomInt(random, minLength, maxLength) }, () => chars[randomInt(random, 0, chars.length - 1)]).join("");
+}`,
+    },
+    randomHex: {
+      requires: ["randomInt"],
+      source: `
+/** Lowercase hexadecimal digits */
+function randomHex(random: Random, length: number): string {
+  return Array.from({ length }, () => randomInt(random, 0, 15).toString(16)).join("");
+}`,
+    },
+    randomBytes: {
+      requires: ["randomInt"],
+      source: `
+/** Between minLength and maxLength random bytes */
+function randomBytes(random: Random, minLength: number, maxLength: number) {
+  return Uint8Array.from({ length: randomInt(random, minLength, maxLength) }, () => randomInt(random, 0, 255));
+}`,
+    },
+    pick: {
+      requires: ["randomInt"],
+      source: `
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[randomInt(random, 0, values.length - 1)];
+}`,
+    },
+    draw: {
+      requires: [],
+      source: `
+/** Draws values until one passes the check, for rules that are not satisfied by construction */
+function draw<T>(next: () => T, check: (value: T) => boolean): T {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const value = next();
+    if (check(value)) {
+      return value;
+    }
+  }
+  throw new Error("Could not draw a value satisfying the rules");
+}`,
+    },
+    sampleRegex: {
+      requires: ["pick", "randomInt"],
+      source: `
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** A string matching a parsed pattern */
+function sampleRegex(random: Random, node: RegexNode): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (Array.isArray(node)) {
+    return node.map((child) => sampleRegex(random, child)).join("");
+  }
+  if ("oneOf" in node) {
+    return sampleRegex(random, pick(random, node.oneOf));
+  }
+  if ("set" in node) {
+    return pick(random, Array.from(node.set));
+  }
+  return Array.from({ length: randomInt(random, node.min, node.max) }, () => sampleRegex(random, node.repeat)).join("");
+}`,
+    },
+    randomList: {
+      requires: ["randomInt", "draw"],
+      source: `
+/** Between min and max items, all different when unique */
+function randomList<T>(random: Random, min: number, max: number, item: () => T, unique = false): T[] {
+  const items: T[] = [];
+  const length = randomInt(random, min, max);
+  while (items.length < length) {
+    items.push(unique ? draw(item, (value) => !items.includes(value)) : item());
+  }
+  return items;
+}`,
+    },
+    randomEntries: {
+      requires: ["randomInt", "draw"],
+      source: `
+/** Between min and max map entries, with different keys */
+function randomEntries<K, V>(random: Random, min: number, max: number, key: () => K, value: () => V): [K, V][] {
+  const entries: [K, V][] = [];
+  const length = randomInt(random, min, max);
+  while (entries.length < length) {
+    // Keys compare as strings, which covers Long keys
+    const k = draw(key, (candidate) => entries.every(([other]) => String(other) !== String(candidate)));
+    entries.push([k, value()]);
+  }
+  return entries;
+}`,
+    },
+    replaceFirstEntry: {
+      requires: [],
+      source: `
+/** Map entries with the first one replaced, which keeps the number of entries */
+function replaceFirstEntry<K, V>(entries: Iterable<[K, V]>, replace: (first: [K, V]) => [K, V]): [K, V][] {
+  const [first, ...rest] = Array.from(entries);
+  return [replace(first), ...rest];
+}`,
+    },
+    toTimestamp: {
+      requires: [],
+      source: `
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  ${timestamp}
+}`,
+    },
+    toDuration: {
+      requires: [],
+      source: `
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { ${typeName("Duration")}seconds: ${seconds}, nanos: (ms - seconds * 1000) * 1000000 };
+}`,
+    },
+    omit: {
+      requires: [],
+      source: `
+/** Copy of a message without one of its fields */
+function omit<T extends object>(value: T, key: keyof T): T {
+  const copy = { ...value };
+  delete copy[key];
+  return copy;
+}`,
+    },
+  };
+}
+
+export const WRAPPED_SCALARS: Record<string, ScalarType> = {
+  "google.protobuf.StringValue": ScalarType.STRING,
+  "google.protobuf.BytesValue": ScalarType.BYTES,
+  "google.protobuf.BoolValue": ScalarType.BOOL,
+  "google.protobuf.FloatValue": ScalarType.DOUBLE,
+  "google.protobuf.DoubleValue": ScalarType.DOUBLE,
+  "google.protobuf.Int32Value": ScalarType.INT32,
+  "google.protobuf.UInt32Value": ScalarType.UINT32,
+  "google.protobuf.Int64Value": ScalarType.INT64,
+  "google.protobuf.UInt64Value": ScalarType.UINT64,
+};
+
+// Type ranges of the integer rules, by rule type
+const INT32_LIMITS: [bigint, bigint] = [-2147483648n, 2147483647n];
+const UINT32_LIMITS: [bigint, bigint] = [0n, 4294967295n];
+const INT64_LIMITS: [bigint, bigint] = [-9223372036854775808n, 9223372036854775807n];
+const UINT64_LIMITS: [bigint, bigint] = [0n, 18446744073709551615n];
+export const INTEGER_LIMITS: Record<string, [bigint, bigint]> = {
+  int32: INT32_LIMITS,
+  sint32: INT32_LIMITS,
+  sfixed32: INT32_LIMITS,
+  uint32: UINT32_LIMITS,
+  fixed32: UINT32_LIMITS,
+  int64: INT64_LIMITS,
+  sint64: INT64_LIMITS,
+  sfixed64: INT64_LIMITS,
+  uint64: UINT64_LIMITS,
+  fixed64: UINT64_LIMITS,
+};
+export const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+// Timestamps without bounds are drawn from 2024
+const TIMESTAMP_START = Date.UTC(2024, 0, 1);
+export const DAY_MS = 86400000;
+
+/**
+ * Generates the fixtures file for the messages of a proto file
+ */
+export function generateFixtureFile(
+  schema: Schema<PluginOptions>,
+  file: DescFile,
+  isCycleEdge: (from: DescMessage, to: DescMessage) => boolean
+): void {
+  // The same messages as the Zod file, whose types the fixtures return
+  const messages = Array.from(schema.typesInFile(file)).filter(
+    (desc): desc is DescMessage => desc.kind === "message" && hasZodSchema(desc, schema.options)
+  );
+  if (messages.length === 0) {
+    return;
+  }
+
+  const ctx: FixtureContext = {
+    file,
+    options: schema.options,
+    isCycleEdge,
+    helpers: new Set(),
+    patterns: new Map(),
+    imports: new Map(),
+    usesLong: false,
+  };
+  const body: string[] = [];
+  for (const message of messages) {
+    body.push(...buildMessageFunctions(message, ctx));
+  }
+
+  const f = schema.generateFile(`${file.name}_fixtures.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  f.print();
+
+  const usesLongSeconds = ctx.options.forceLong === "long" &&
+    (ctx.helpers.has("toDuration") || (ctx.helpers.has("toTimestamp") && ctx.options.useDate === "false"));
+  if (ctx.usesLong || usesLongSeconds) {
+    f.print('import Long from "long";');
+  }
+  const zodPath = getRelativeImportPath(file.name, file.name, "_zod.js");
+  f.print(`import type { ${messages.map(toTsTypeName).sort().join(", ")} } from "${zodPath}";`);
+  for (const [from, names] of ctx.imports) {
+    f.print(`import { ${Array.from(names).sort().join(", ")} } from "${from}";`);
+  }
+  f.print();
+
+  printLines(f, FIXTURE_TYPES.trimStart());
+  f.print();
+  printFixtureHelpers(f, ctx);
+
+  for (const { name, node } of ctx.patterns.values()) {
+    if (name) {
+      f.print(`const ${name}: RegexNode = ${JSON.stringify(node)};`);
+    }
+  }
+  if (Array.from(ctx.patterns.values()).some(({ name }) => name)) {
+    f.print();
+  }
+
+  for (const line of body) {
+    f.print(line);
+  }
+}
+
+export function printLines(f: GeneratedFile, text: string): void {
+  for (const line of text.split("\n")) {
+    f.print(line);
+  }
+}
+
+/**
+ * Prints the helpers used by the fixtures and the helpers they depend on
+ */
+function printFixtureHelpers(f: GeneratedFile, ctx: FixtureContext): void {
+  const sources = getHelperSources(ctx.options);
+  const needed = new Set<FixtureHelper>();
+  const visit = (name: FixtureHelper) => {
+    if (!needed.has(name)) {
+      needed.add(name);
+      sources[name].requires.forEach(visit);
+    }
+  };
+  ctx.helpers.forEach(visit);
+
+  for (const name of Object.keys(sources) as FixtureHelper[]) {
+    if (needed.has(name)) {
+      printLines(f, sources[name].source.trimStart());
+      f.print();
+    }
+  }
+}
+
+/**
+ * Lines of the build, sample and invalid fixtures functions of a message
+ */
+function buildMessageFunctions(message: DescMessage, ctx: FixtureContext): string[] {
+  const name = toTsTypeName(message);
+  const lines = [
+    "/**",
+    ` * Builds a valid ${name} from a source of random numbers`,
+    ` * @generated from message ${message.typeName}`,
+    " */",
+    `export function build${name}(random: Random): ${name} {`,
+    "  return {",
+  ];
+  if (ctx.options.runtime === "protobuf-es") {
+    lines.push(`    $typeName: "${message.typeName}",`);
+  }
+  for (const member of message.members) {
+    if (member.kind === "oneof") {
+      lines.push(...sampleOneof(member.fields, ctx));
+      continue;
+    }
+    const value = sampleField(member, ctx);
+    if (value !== undefined) {
+      lines.push(`    ${toCamelCase(member.name)}: ${value},`);
+    }
+  }
+  lines.push("  };", "}", "");
+
+  lines.push(
+    "/**",
+    ` * Valid ${name}, the same for the same seed`,
+    ` * @generated from message ${message.typeName}`,
+    " */",
+    `export function sample${name}(seed = 1): ${name} {`,
+    `  return build${name}(createRandom(seed));`,
+    "}",
+    ""
+  );
+
+  lines.push(
+    "/**",
+    ` * Variants of sample${name}(seed) that each break one buf.validate rule`,
+    ` * @generated from message ${message.typeName}`,
+    " */",
+    `export function invalid${name}Fixtures(seed = 1): InvalidFixture<${name}>[] {`
+  );
+  const invalid: InvalidBody = { prelude: [], entries: [], loops: [] };
+  for (const member of message.members) {
+    if (member.kind === "oneof") {
+      invalidOneof(member.fields, ctx, invalid);
+    }
+    for (const field of member.kind === "oneof" ? member.fields : [member]) {
+      invalidField(field, ctx, invalid);
+    }
+  }
+  if (invalid.entries.length === 0 && invalid.loops.length === 0) {
+    lines.push("  return [];", "}", "");
+    return lines;
+  }
+  lines.push("  const random = createRandom(seed);", `  const valid = build${name}(random);`, ...invalid.prelude);
+  if (invalid.entries.length === 0) {
+    lines.push(`  const fixtures: InvalidFixture<${name}>[] = [];`);
+  } else {
+    lines.push(`  const fixtures: InvalidFixture<${name}>[] = [`, ...invalid.entries.map((entry) => `    ${entry},`), "  ];");
+  }
+  lines.push(...invalid.loops, "  return fixtures;", "}", "");
+  return lines;
+}
+
+/**
+ * Expression of a valid value of a field, undefined to leave the field unset
+ */
+function sampleField(field: DescField, ctx: FixtureContext): string | undefined {
+  const rules = getFieldRules(field);
+  if (field.message && ctx.isCycleEdge(field.parent, field.message) && !isFieldRequired(field) && getMinItems(field, rules) === 0) {
+    return undefined;
+  }
+  // Invalid map fixtures are set on the first entry of the sample
+  if (field.fieldKind !== "map" && !isFieldRequired(field) && getMinItems(field, rules) === 0 && isReadByCel(field)) {
+    return undefined;
+  }
+
+  if (field.fieldKind === "list") {
+    const repeated = typedRules(rules, "repeated");
+    const { min, max } = getItemCounts(repeated?.minItems, repeated?.maxItems);
+    const item = sampleValue(getValueType(field), repeated?.items, ctx);
+    ctx.helpers.add("randomList");
+    return `randomList(random, ${min}, ${max}, () => ${item}${repeated?.unique ? ", true" : ""})`;
+  }
+  if (field.fieldKind === "map") {
+    const map = typedRules(rules, "map");
+    const counts = getItemCounts(map?.minPairs, map?.maxPairs);
+    // Bool keys have two values
+    const max = field.mapKey === ScalarType.BOOL ? Math.min(counts.max, 2) : counts.max;
+    return toMapExpression(field, ctx, `randomEntries(random, ${counts.min}, ${max}, ${mapEntryFunctions(field, map, ctx)})`);
+  }
+  return sampleValue(getValueType(field), rules, ctx);
+}
+
+/**
+ * Whether CEL rules of the field, or of its message through `this.<field>`, read the field
+ */
+export function isReadByCel(field: DescField): boolean {
+  const reference = new RegExp(`\\bthis\\.${field.name}\\b`);
+  return getFieldCelRules(field).length > 0 || getMessageCelRules(field.parent).some((rule) => reference.test(rule.expression));
+}
+
+/**
+ * Entries of a oneof group in the object literal of a message, setting one of its members
+ */
+function sampleOneof(fields: readonly DescField[], ctx: FixtureContext): string[] {
+  const oneof = fields[0].oneof!;
+  const required = isOneofRequired(oneof);
+  // Members along a cycle are only picked when one must be set
+  const candidates = fields.filter((field) => !(field.message && ctx.isCycleEdge(field.parent, field.message)));
+  const members = candidates.length > 0 || !required ? candidates : fields;
+  const oneofName = toCamelCase(oneof.name);
+  const style = ctx.options.oneof;
+
+  if (members.length === 0) {
+    return style === "case" ? [`    ${oneofName}: { case: undefined },`] : [];
+  }
+  const variants = members.map((field) => {
+    const caseName = toCamelCase(field.name);
+    const value = sampleValue(getValueType(field), getFieldRules(field), ctx);
+    switch (style) {
+      case "properties":
+        return `({ ${caseName}: ${value} })`;
+      case "unions":
+        return `({ $case: "${caseName}" as const, ${caseName}: ${value} })`;
+      case "unions-value":
+        return `({ $case: "${caseName}" as const, value: ${value} })`;
+      case "case":
+        return `({ case: "${caseName}" as const, value: ${value} })`;
+    }
+  });
+  if (variants.length === 1) {
+    // Without the parentheses, and for flattened members without the braces
+    const variant = variants[0].slice(1, -1);
+    return style === "properties" ? [`    ${variant.slice(2, -2)},`] : [`    ${oneofName}: ${variant},`];
+  }
+  const choice = `${pickCall(ctx, variants.map((variant) => `() => ${variant}`))}()`;
+  return style === "properties" ? [`    ...${choice},`] : [`    ${oneofName}: ${choice},`];
+}
+
+function pickCall(ctx: FixtureContext, values: string[]): string {
+  ctx.helpers.add("pick");
+  return `pick(random, [${values.join(", ")}])`;
+}
+
+/**
+ * Number of items of lists and entries of maps: at least one, and at most two more than the minimum
+ */
+function getItemCounts(minRule: bigint | undefined, maxRule: bigint | undefined): { min: number; max: number } {
+  const min = Math.max(Number(minRule ?? 0n), 1);
+  const max = maxRule ? Math.min(Number(maxRule), min + 2) : min + 2;
+  return { min: Math.min(min, max), max };
+}
+
+export function getMinItems(field: DescField, rules: FieldRules | undefined): number {
+  const typed = field.fieldKind === "list" ? typedRules(rules, "repeated") : field.fieldKind === "map" ? typedRules(rules, "map") : undefined;
+  return Number(typed?.minItems ?? typed?.minPairs ?? 0n);
+}
+
+/**
+ * The key and value functions of randomEntries() for a map field
+ */
+function mapEntryFunctions(field: DescField & { fieldKind: "map" }, map: any, ctx: FixtureContext): string {
+  const key = sampleValue({ kind: "scalar", scalar: field.mapKey! }, map?.keys, ctx, true);
+  const value = sampleValue(getValueType(field), map?.values, ctx);
+  return `() => ${key}, () => ${value}`;
+}
+
+/**
+ * Map field value of entries: an object, or a Map for ts-proto maps with 64-bit integer keys
+ */
+function toMapExpression(field: DescField & { fieldKind: "map" }, ctx: FixtureContext, entries: string): string {
+  ctx.helpers.add("randomEntries");
+  return usesMapType(field, ctx.options) ? `new Map(${entries})` : `Object.fromEntries(${entries})`;
+}
+
+/**
+ * Type of the values of a field (of its items for lists, of its values for maps)
+ */
+export function getValueType(field: DescField): ValueType {
+  if (field.enum) {
+    return { kind: "enum", desc: field.enum };
+  }
+  if (field.message) {
+    return { kind: "message", desc: field.message };
+  }
+  return { kind: "scalar", scalar: field.scalar! };
+}
+
+/**
+ * The typed rules of a FieldRules (e.g. the StringRules), if of the given type
+ */
+export function typedRules(rules: FieldRules | undefined, type: string): any {
+  return rules?.type?.case === type ? rules.type.value : undefined;
+}
+
+export function scalarRuleType(scalar: ScalarType): string {
+  return ScalarType[scalar].toLowerCase();
+}
+
+/**
+ * Expression of a valid value of a type, following its rules
+ */
+function sampleValue(type: ValueType, rules: FieldRules | undefined, ctx: FixtureContext, isMapKey = false): string {
+  switch (type.kind) {
+    case "enum":
+      return sampleEnum(type.desc, typedRules(rules, "enum"), ctx);
+    case "message":
+      return sampleMessage(type.desc, rules, ctx);
+    case "scalar":
+      return sampleScalar(type.scalar, rules, ctx, isMapKey);
+  }
+}
+
+function sampleScalar(scalar: ScalarType, rules: FieldRules | undefined, ctx: FixtureContext, isMapKey: boolean): string {
+  const type = scalarRuleType(scalar);
+  const typed = typedRules(rules, type);
+  switch (scalar) {
+    case ScalarType.STRING:
+      return sampleString(typed ?? {}, ctx);
+    case ScalarType.BYTES:
+      return sampleBytes(typed ?? {}, ctx);
+    case ScalarType.BOOL:
+      // Map keys are "true" or "false"
+      if (typed?.const !== undefined) {
+        return isMapKey ? `"${typed.const}"` : String(typed.const);
+      }
+      return isMapKey ? pickCall(ctx, ['"true"', '"false"']) : "random() < 0.5";
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return sampleFloat(typed ?? {}, ctx);
+    default:
+      return sampleInteger(type, typed ?? {}, ctx, isMapKey);
+  }
+}
+
+/**
+ * Strings are drawn from their format, pattern, or lowercase letters and digits
+ * with the prefix, contains and suffix rules. The rules that these do not
+ * satisfy by construction are checked on the drawn value.
+ */
+function sampleString(rules: any, ctx: FixtureContext): string {
+  if (rules.const) {
+    return JSON.stringify(rules.const);
+  }
+  const notIn: string[] = rules.notIn ?? [];
+  const allowed = (rules.in ?? []).filter((value: string) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return allowed.length === 1 ? JSON.stringify(allowed[0]) : pickCall(ctx, allowed.map((value: string) => JSON.stringify(value)));
+  }
+
+  // Samples are ASCII, so byte lengths are lengths
+  const lengths = [rules.len, rules.lenBytes].filter((n) => n !== undefined && n > 0n).map(Number);
+  const minLength = Math.max(...lengths, ...[rules.minLen, rules.minBytes].filter((n) => n !== undefined).map(Number), 0);
+  const maxLength = Math.min(...lengths, ...[rules.maxLen, rules.maxBytes].filter((n) => n !== undefined && n > 0n).map(Number), Infinity);
+  const prefix: string = rules.prefix ?? "";
+  const contains: string = rules.contains ?? "";
+  const suffix: string = rules.suffix ?? "";
+
+  const checks: string[] = [];
+  let base = rules.wellKnown?.value ? sampleFormat(rules.wellKnown.case, rules.wellKnown.value, maxLength, ctx) : undefined;
+  base ??= rules.pattern ? samplePattern(rules.pattern, ctx) : undefined;
+  if (base !== undefined) {
+    if (minLength > 0) {
+      checks.push(`v.length >= ${minLength}`);
+    }
+    if (maxLength < Infinity) {
+      checks.push(`v.length <= ${maxLength}`);
+    }
+    if (prefix) {
+      checks.push(`v.startsWith(${JSON.stringify(prefix)})`);
+    }
+    if (contains) {
+      checks.push(`v.includes(${JSON.stringify(contains)})`);
+    }
+    if (suffix) {
+      checks.push(`v.endsWith(${JSON.stringify(suffix)})`);
+    }
+  } else {
+    const fixed = [...prefix, ...contains, ...suffix].length;
+    const textMin = Math.max(minLength - fixed, fixed > 0 ? 0 : 1);
+    const textMax = Math.max(Math.min(maxLength - fixed, textMin + 7), textMin);
+    ctx.helpers.add("randomText");
+    base = [prefix, contains].filter(Boolean).map((s) => JSON.stringify(s))
+      .concat(`randomText(random, ${textMin}, ${textMax})`, suffix ? [JSON.stringify(suffix)] : [])
+      .join(" + ");
+  }
+
+  if (notIn.length > 0) {
+    checks.push(`![${notIn.map((value) => JSON.stringify(value)).join(", ")}].includes(v)`);
+  }
+  if (rules.notContains) {
+    checks.push(`!v.includes(${JSON.stringify(rules.notContains)})`);
+  }
+  if (checks.length === 0) {
+    return base;
+  }
+  ctx.helpers.add("draw");
+  return `draw(() => ${base}, (v) => ${checks.join(" && ")})`;
+}
+
+/**
+ * Expression of a string in a well-known format (StringRules.well_known)
+ */
+function sampleFormat(format: string, value: unknown, maxLength: number, ctx: FixtureContext): string | undefined {
+  const text = (min: number, max: number) => {
+    ctx.helpers.add("randomText");
+    return `\${randomText(random, ${min}, ${max})}`;
+  };
+  const int = (min: number, max: number) => {
+    ctx.helpers.add("randomInt");
+    return `\${randomInt(random, ${min}, ${max})}`;
+  };
+  const hex = (length: number) => {
+    ctx.helpers.add("randomHex");
+    return `\${randomHex(random, ${length})}`;
+  };
+  const ipv4 = () => `${int(1, 223)}.${int(0, 255)}.${int(0, 255)}.${int(1, 254)}`;
+  const ipv6 = () => `2001:db8::${hex(4)}`;
+  // A single label when the domain does not fit, starting with a letter as the last label may not be all digits
+  const hostname = () => (maxLength < 20 ? `h${text(1, Math.max(maxLength - 1, 1))}` : `${text(3, 8)}.example.com`);
+  const templates: Record<string, () => string | undefined> = {
+    email: () => `${text(3, 8)}@example.com`,
+    hostname,
+    address: hostname,
+    ip: ipv4,
+    ipv4,
+    ipv6,
+    uri: () => `https://example.com/${text(1, 8)}`,
+    uriRef: () => `/${text(1, 8)}`,
+    uuid: () => `${hex(8)}-${hex(4)}-4${hex(3)}-8${hex(3)}-${hex(12)}`,
+    tuuid: () => hex(32),
+    ulid: () => `0${hex(25)}`,
+    ipWithPrefixlen: () => `${ipv4()}/24`,
+    ipv4WithPrefixlen: () => `${ipv4()}/24`,
+    ipv6WithPrefixlen: () => `${ipv6()}/64`,
+    ipPrefix: () => `10.${int(0, 255)}.0.0/16`,
+    ipv4Prefix: () => `10.${int(0, 255)}.0.0/16`,
+    ipv6Prefix: () => `2001:db8:${hex(4)}::/48`,
+    hostAndPort: () => `${text(3, 8)}.example.com:${int(1, 65535)}`,
+    protobufFqn: () => `example.v1.Sample${text(0, 4)}`,
+    protobufDotFqn: () => `.example.v1.Sample${text(0, 4)}`,
+    // HTTP header names and values (KnownRegex)
+    wellKnownRegex: () => (value === 1 || value === 2 ? `x-${text(3, 8)}` : undefined),
+  };
+  const template = templates[format]?.();
+  return template === undefined ? undefined : `\`${template}\``;
+}
+
+/**
+ * Expression of a string matching a pattern, undefined if the pattern is not supported
+ */
+function samplePattern(pattern: string, ctx: FixtureContext): string | undefined {
+  let entry = ctx.patterns.get(pattern);
+  if (!entry) {
+    try {
+      entry = { name: `PATTERN_${ctx.patterns.size + 1}`, node: parseRegex(pattern) };
+    } catch (error) {
+      console.error(`Warning: Fixtures do not follow the pattern ${pattern}: ${(error as Error).message}`);
+      entry = { name: "", node: "" };
+    }
+    ctx.patterns.set(pattern, entry);
+  }
+  if (!entry.name) {
+    return undefined;
+  }
+  ctx.helpers.add("sampleRegex");
+  return `sampleRegex(random, ${entry.name})`;
+}
+
+function sampleBytes(rules: any, ctx: FixtureContext): string {
+  if (rules.const?.length > 0) {
+    return toBytesLiteral(rules.const);
+  }
+  const notIn: string[] = (rules.notIn ?? []).map(toHex);
+  const allowed: Uint8Array[] = (rules.in ?? []).filter((value: Uint8Array) => !notIn.includes(toHex(value)));
+  if (allowed.length > 0) {
+    return allowed.length === 1 ? toBytesLiteral(allowed[0]) : pickCall(ctx, allowed.map(toBytesLiteral));
+  }
+
+  ctx.helpers.add("randomBytes");
+  const length = { ip: 4, ipv4: 4, ipv6: 16, uuid: 16 }[rules.wellKnown?.value ? (rules.wellKnown.case as string) : ""];
+  if (length) {
+    return `randomBytes(random, ${length}, ${length})`;
+  }
+  if (rules.pattern) {
+    const text = samplePattern(rules.pattern, ctx);
+    if (text) {
+      return `Uint8Array.from(${text}, (c) => c.charCodeAt(0))`;
+    }
+  }
+
+  const affixes = [rules.prefix, rules.contains, rules.suffix].map((bytes?: Uint8Array) => Array.from(bytes ?? []));
+  const fixed = affixes.reduce((sum, bytes) => sum + bytes.length, 0);
+  const minLength = Number(rules.len || rules.minLen || 0n);
+  const maxLength = Number(rules.len || rules.maxLen || 0n) || Infinity;
+  const randomMin = Math.max(minLength - fixed, fixed > 0 ? 0 : 1);
+  const randomMax = Math.max(Math.min(maxLength - fixed, randomMin + 7), randomMin);
+  const random = `randomBytes(random, ${randomMin}, ${randomMax})`;
+  if (fixed === 0) {
+    return random;
+  }
+  const [prefix, contains, suffix] = affixes.map((bytes) => bytes.map(String));
+  return `Uint8Array.from([${[...prefix, ...contains, `...${random}`, ...suffix].join(", ")}])`;
+}
+
+function sampleFloat(rules: any, ctx: FixtureContext): string {
+  if (rules.const) {
+    return String(rules.const);
+  }
+  const notIn: number[] = rules.notIn ?? [];
+  const allowed = (rules.in ?? []).filter((value: number) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return pickCall(ctx, allowed.map(String));
+  }
+
+  const [lower, upper] = getBounds(rules, Number);
+  let min = lower?.value;
+  let max = upper?.value;
+  // An upper bound below the lower one excludes the range between them, values above the lower bound are valid
+  if (min !== undefined && max !== undefined && max < min) {
+    max = undefined;
+  }
+  if (min !== undefined && min === max) {
+    return String(min);
+  }
+  min ??= max !== undefined ? max - 100 : 0;
+  max ??= min + 100;
+  ctx.helpers.add("randomFloat");
+  const value = `randomFloat(random, ${min}, ${max})`;
+  if (notIn.length === 0) {
+    return value;
+  }
+  ctx.helpers.add("draw");
+  return `draw(() => ${value}, (n) => ![${notIn.join(", ")}].includes(n))`;
+}
+
+export interface Bound<T> {
+  rule: RangeRule;
+  value: T;
+}
+
+/**
+ * Lower and upper bounds of numeric, Timestamp and Duration rules (the
+ * greater_than and less_than oneofs), converted to numbers or bigints
+ */
+export function getBounds<T>(rules: any, convert: (value: any) => T): [Bound<T> | undefined, Bound<T> | undefined] {
+  const toBound = (bound: { case?: string; value?: unknown } | undefined): Bound<T> | undefined =>
+    bound?.case === "gt" || bound?.case === "gte" || bound?.case === "lt" || bound?.case === "lte"
+      ? { rule: bound.case, value: convert(bound.value) }
+      : undefined;
+  return [toBound(rules?.greaterThan), toBound(rules?.lessThan)];
+}
+
+/**
+ * Integers are drawn from their range, at most 100 values from the bounds,
+ * as 64-bit integers of the forceLong type
+ */
+function sampleInteger(type: string, rules: any, ctx: FixtureContext, isMapKey: boolean): string {
+  const unsigned = INTEGER_LIMITS[type][0] === 0n;
+  const literal = (value: bigint) => toIntegerLiteral(type, value, ctx, isMapKey);
+  // An unset const reads as 0, which the schemas do not check
+  if (rules.const !== undefined && BigInt(rules.const) !== 0n) {
+    return literal(BigInt(rules.const));
+  }
+  const notIn: bigint[] = (rules.notIn ?? []).map(BigInt);
+  const allowed = (rules.in ?? []).map(BigInt).filter((value: bigint) => !notIn.includes(value));
+  if (allowed.length > 0) {
+    return allowed.length === 1 ? literal(allowed[0]) : pickCall(ctx, allowed.map(literal));
+  }
+
+  const [min, max] = getIntegerRange(type, rules);
+  ctx.helpers.add("randomInt");
+  let value = `randomInt(random, ${min}, ${max})`;
+  const excluded = notIn.filter((n) => n >= min && n <= max);
+  if (excluded.length > 0) {
+    ctx.helpers.add("draw");
+    value = `draw(() => ${value}, (n) => ![${excluded.join(", ")}].includes(n))`;
+  }
+  return type.endsWith("64") ? toInt64(value, unsigned, ctx, isMapKey) : value;
+}
+
+/**
+ * Range integers are drawn from, within the rules, the type and safe integers
+ */
+function getIntegerRange(type: string, rules: any): [bigint, bigint] {
+  const [typeMin, typeMax] = INTEGER_LIMITS[type];
+  const limitMin = typeMin > -MAX_SAFE ? typeMin : -MAX_SAFE;
+  const limitMax = typeMax < MAX_SAFE ? typeMax : MAX_SAFE;
+  const [lower, upper] = getBounds(rules, BigInt);
+  let min = lower && (lower.rule === "gt" ? lower.value + 1n : lower.value);
+  let max = upper && (upper.rule === "lt" ? upper.value - 1n : upper.value);
+  // An upper bound below the lower one excludes the range between them: draw above the lower bound if possible
+  if (min !== undefined && max !== undefined && max < min) {
+    if (min <= limitMax) {
+      max = undefined;
+    } else {
+      min = undefined;
+    }
+  }
+  min ??= max !== undefined ? max - 99n : 1n;
+  max ??= min + 99n;
+  return [min > limitMin ? min : limitMin, max < limitMax ? max : limitMax];
+}
+
+/**
+ * An integer literal, as a 64-bit integer of the forceLong type for 64-bit types
+ */
+export function toIntegerLiteral(type: string, value: bigint, ctx: ExpressionContext, isMapKey: boolean): string {
+  if (!type.endsWith("64")) {
+    return String(value);
+  }
+  // protobuf-es map keys are strings
+  if (isMapKey && ctx.options.runtime === "protobuf-es") {
+    return `"${value}"`;
+  }
+  switch (ctx.options.forceLong) {
+    case "string":
+      return `"${value}"`;
+    case "number":
+      return String(value);
+    case "bigint":
+      return `${value}n`;
+    case "long":
+      ctx.usesLong = true;
+      return `Long.fromString("${value}"${INTEGER_LIMITS[type][0] === 0n ? ", true" : ""})`;
+  }
+}
+
+/**
+ * A 64-bit integer of the forceLong type, from a number expression
+ */
+function toInt64(value: string, unsigned: boolean, ctx: FixtureContext, isMapKey: boolean): string {
+  if (isMapKey && ctx.options.runtime === "protobuf-es") {
+    return `String(${value})`;
+  }
+  if (ctx.options.forceLong === "long") {
+    ctx.usesLong = true;
+  }
+  return int64FromNumber(ctx.options, value, unsigned);
+}
+
+function int64FromNumber(options: PluginOptions, value: string, unsigned: boolean): string {
+  switch (options.forceLong) {
+    case "string":
+      return `String(${value})`;
+    case "number":
+      return value;
+    case "bigint":
+      return `BigInt(${value})`;
+    case "long":
+      return `Long.fromNumber(${value}${unsigned ? ", true" : ""})`;
+  }
+}
+
+/**
+ * Enums are drawn from their allowed values, other than the zero value when possible
+ */
+function sampleEnum(desc: DescEnum, rules: any, ctx: FixtureContext): string {
+  const member = (number: number) => toEnumMember(desc, number, ctx);
+  // An unset const reads as 0, which is not checked
+  if (rules?.const && desc.values.some((value) => value.number === rules.const)) {
+    return member(rules.const);
+  }
+  const numbers = Array.from(new Set(desc.values.map((value) => value.number)));
+  const notIn: number[] = rules?.notIn ?? [];
+  const allowed = numbers.filter((n) => (!rules?.in?.length || rules.in.includes(n)) && !notIn.includes(n));
+  const nonZero = allowed.filter((n) => n !== 0);
+  const values = nonZero.length > 0 ? nonZero : allowed.length > 0 ? allowed : [0];
+  return values.length === 1 ? member(values[0]) : pickCall(ctx, values.map(member));
+}
+
+/**
+ * Reference to an enum member, importing the enum from the runtime's file
+ */
+export function toEnumMember(desc: DescEnum, number: number, ctx: ExpressionContext): string {
+  const name = toTsTypeName(desc);
+  addImport(ctx, getRelativeImportPath(ctx.file.name, desc.file.name, getRuntimeImportSuffix(ctx.options)), name);
+  const value = desc.values.find((v) => v.number === number);
+  if (!value) {
+    return String(number);
+  }
+  // protobuf-es strips the shared prefix from the member names
+  return `${name}.${ctx.options.runtime === "protobuf-es" ? value.localName : value.name}`;
+}
+
+export function addImport(ctx: ExpressionContext, from: string, name: string): void {
+  ctx.imports.set(from, (ctx.imports.get(from) ?? new Set()).add(name));
+}
+
+/**
+ * Messages follow the type mapping of well-known types, other messages are built
+ * by their own build function
+ */
+function sampleMessage(desc: DescMessage, rules: FieldRules | undefined, ctx: FixtureContext): string {
+  const isMessage = ctx.options.runtime === "protobuf-es";
+  const wrapped = WRAPPED_SCALARS[desc.typeName];
+  if (wrapped !== undefined) {
+    return sampleScalar(wrapped, rules, ctx, false);
+  }
+  switch (desc.typeName) {
+    case "google.protobuf.Timestamp":
+      return sampleTimestamp(typedRules(rules, "timestamp"), ctx);
+    case "google.protobuf.Duration":
+      return sampleDuration(typedRules(rules, "duration"), ctx);
+    case "google.protobuf.Struct":
+    case "google.protobuf.Any":
+      return "{}";
+    case "google.protobuf.Value":
+      return '"value"';
+    case "google.protobuf.ListValue":
+      return isMessage ? '{ $typeName: "google.protobuf.ListValue" as const, values: [] }' : "[]";
+    case "google.protobuf.Empty":
+      return isMessage ? '{ $typeName: "google.protobuf.Empty" as const }' : "{}";
+  }
+  // Messages without a schema (e.g. responses) have no fixtures to build them from
+  return hasZodSchema(desc, ctx.options) ? `${toFunctionRef(desc, "build", ctx)}(random)` : "{}";
+}
+
+/**
+ * Name of a function of the fixtures of a message, imported when the message is in another file
+ */
+function toFunctionRef(desc: DescMessage, kind: "build" | "invalid", ctx: FixtureContext): string {
+  const name = kind === "build" ? `build${toTsTypeName(desc)}` : `invalid${toTsTypeName(desc)}Fixtures`;
+  if (desc.file !== ctx.file) {
+    addImport(ctx, getRelativeImportPath(ctx.file.name, desc.file.name, "_fixtures.js"), name);
+  }
+  return name;
+}
+
+/**
+ * Timestamps are drawn in milliseconds, relative to the time of the call for
+ * gt_now, lt_now and within, and from 2024 without bounds
+ */
+function sampleTimestamp(rules: any, ctx: FixtureContext): string {
+  ctx.helpers.add("toTimestamp");
+  if (rules?.const) {
+    return `toTimestamp(${timestampMillis(rules.const)})`;
+  }
+  ctx.helpers.add("randomInt");
+  if (rules?.greaterThan?.case === "gtNow" && rules.greaterThan.value) {
+    return `toTimestamp(Date.now() + randomInt(random, 3600000, ${DAY_MS}))`;
+  }
+  if (rules?.lessThan?.case === "ltNow" && rules.lessThan.value) {
+    return `toTimestamp(Date.now() - randomInt(random, 3600000, ${DAY_MS}))`;
+  }
+  if (rules?.within) {
+    const half = Math.floor(Number(durationNanos(rules.within) / 1000000n) / 2);
+    return `toTimestamp(Date.now() + randomInt(random, ${-half}, ${half}))`;
+  }
+
+  const [lower, upper] = getBounds(rules, timestampMillis);
+  let min = lower && (lower.rule === "gt" ? lower.value + 1 : lower.value);
+  let max = upper && (upper.rule === "lt" ? upper.value - 1 : upper.value);
+  if (min !== undefined && max !== undefined && max < min) {
+    max = undefined;
+  }
+  min ??= max !== undefined ? max - 30 * DAY_MS : TIMESTAMP_START;
+  max ??= min + 365 * DAY_MS;
+  return `toTimestamp(randomInt(random, ${min}, ${max}))`;
+}
+
+/**
+ * Durations are drawn in milliseconds, between one second and one hour without bounds
+ */
+function sampleDuration(rules: any, ctx: FixtureContext): string {
+  const literal = (duration: any) => toDurationLiteral(duration, ctx);
+  if (rules?.const) {
+    return literal(rules.const);
+  }
+  const notIn: bigint[] = (rules?.notIn ?? []).map(durationNanos);
+  const allowed = (rules?.in ?? []).filter((duration: any) => !notIn.includes(durationNanos(duration)));
+  if (allowed.length > 0) {
+    return allowed.length === 1 ? literal(allowed[0]) : pickCall(ctx, allowed.map(literal));
+  }
+
+  const [lower, upper] = getBounds(rules, durationNanos);
+  // Bounds are in nanoseconds, rounded inwards to milliseconds
+  let min = lower && (lower.rule === "gt" ? floorMillis(lower.value) + 1 : -floorMillis(-lower.value));
+  let max = upper && (upper.rule === "lt" ? -floorMillis(-upper.value) - 1 : floorMillis(upper.value));
+  if (min !== undefined && max !== undefined && max < min) {
+    max = undefined;
+  }
+  min ??= max !== undefined ? max - 3600000 : 1000;
+  max ??= min + 3600000;
+  ctx.helpers.add("toDuration");
+  ctx.helpers.add("randomInt");
+  let value = `randomInt(random, ${min}, ${max})`;
+  const excluded = notIn.filter((nanos) => nanos % 1000000n === 0n).map(floorMillis);
+  if (excluded.length > 0) {
+    ctx.helpers.add("draw");
+    value = `draw(() => ${value}, (ms) => ![${excluded.join(", ")}].includes(ms))`;
+  }
+  return `toDuration(${value})`;
+}
+
+export function floorMillis(nanos: bigint): number {
+  const ms = nanos / 1000000n;
+  return Number(ms * 1000000n > nanos ? ms - 1n : ms);
+}
+
+function toDurationLiteral(duration: { seconds: bigint; nanos: number }, ctx: FixtureContext): string {
+  const typeName = ctx.options.runtime === "protobuf-es" ? '$typeName: "google.protobuf.Duration" as const, ' : "";
+  return `{ ${typeName}seconds: ${toIntegerLiteral("int64", BigInt(duration.seconds), ctx, false)}, nanos: ${duration.nanos} }`;
+}
+
+/**
+ * Adds the fixtures of a field to an invalid fixtures function: one per rule a
+ * value breaks, and those of the message it holds, set on the field of the sample
+ */
+function invalidField(field: DescField, ctx: FixtureContext, invalid: InvalidBody): void {
+  const rules = getFieldRules(field);
+  const name = toCamelCase(field.name);
+  const path = JSON.stringify(field.name);
+  const add = (ruleId: string, fieldPath: string, value: string) => {
+    invalid.entries.push(`{ ruleId: "${ruleId}", field: ${fieldPath}, value: ${value} }`);
+  };
+
+  if (isFieldRequired(field) && !field.oneof) {
+    ctx.helpers.add("omit");
+    add("required", path, `omit(valid, "${name}")`);
+  }
+  if (field.fieldKind === "list") {
+    invalidList(field, rules, ctx, invalid, add);
+    return;
+  }
+  if (field.fieldKind === "map") {
+    invalidMap(field, rules, ctx, invalid, add);
+    return;
+  }
+
+  const ignoreZero = rules?.ignore === IGNORE_IF_ZERO_VALUE;
+  for (const { ruleId, value, zero } of invalidValues(getValueType(field), rules, ctx)) {
+    if (!(ignoreZero && zero)) {
+      add(ruleId, path, withField(field, value, ctx));
+    }
+  }
+  const nested = nestedFixtures(field, ctx);
+  if (nested) {
+    invalid.loops.push(...fixtureLoop(nested, `\`${field.name}.\${fixture.field}\``, withField(field, "fixture.value", ctx)));
+  }
+}
+
+/**
+ * Fixtures breaking the number of items of a list, and the rules of its first item
+ */
+function invalidList(
+  field: DescField,
+  rules: FieldRules | undefined,
+  ctx: FixtureContext,
+  invalid: InvalidBody,
+  add: (ruleId: string, fieldPath: string, value: string) => void
+): void {
+  const repeated = typedRules(rules, "repeated");
+  const name = toCamelCase(field.name);
+  const items = `(valid.${name} ?? [])`;
+  const ignoreZero = rules?.ignore === IGNORE_IF_ZERO_VALUE;
+  const path = JSON.stringify(field.name);
+  const minItems = Number(repeated?.minItems ?? 0n);
+  const maxItems = Number(repeated?.maxItems ?? 0n);
+
+  if (minItems > 0 && !(ignoreZero && minItems === 1)) {
+    add("repeated.min_items", path, `{ ...valid, ${name}: ${minItems === 1 ? "[]" : `${items}.slice(0, ${minItems - 1})`} }`);
+  }
+  if (maxItems > 0) {
+    const item = sampleValue(getValueType(field), repeated?.items, ctx);
+    ctx.helpers.add("randomList");
+    add("repeated.max_items", path, `{ ...valid, ${name}: randomList(random, ${maxItems + 1}, ${maxItems + 1}, () => ${item}) }`);
+  }
+  if (repeated?.unique && maxItems !== 1) {
+    const item = sampleValue(getValueType(field), repeated.items, ctx);
+    add("repeated.unique", path, `{ ...valid, ${name}: Array(${Math.max(minItems, 2)}).fill(${item}) }`);
+  }
+
+  const first = JSON.stringify(`${field.name}[0]`);
+  const itemsIgnoreZero = repeated?.items?.ignore === IGNORE_IF_ZERO_VALUE;
+  for (const { ruleId, value, zero } of invalidValues(getValueType(field), repeated?.items, ctx)) {
+    if (!(itemsIgnoreZero && zero)) {
+      add(ruleId, first, `{ ...valid, ${name}: [${value}, ...${items}.slice(1)] }`);
+    }
+  }
+  const nested = nestedFixtures(field, ctx);
+  if (nested) {
+    invalid.loops.push(...fixtureLoop(nested, `\`${field.name}[0].\${fixture.field}\``, `{ ...valid, ${name}: [fixture.value, ...${items}.slice(1)] }`));
+  }
+}
+
+/**
+ * Fixtures breaking the number of entries of a map, and the rules of its keys
+ * and values, on its first entry
+ */
+function invalidMap(
+  field: DescField & { fieldKind: "map" },
+  rules: FieldRules | undefined,
+  ctx: FixtureContext,
+  invalid: InvalidBody,
+  add: (ruleId: string, fieldPath: string, value: string) => void
+): void {
+  const map = typedRules(rules, "map");
+  const name = toCamelCase(field.name);
+  const isRecord = !usesMapType(field, ctx.options);
+  const entries = isRecord ? `Object.entries(valid.${name} ?? {})` : `Array.from(valid.${name} ?? new Map())`;
+  const toMap = (expression: string) => (isRecord ? `Object.fromEntries(${expression})` : `new Map(${expression})`);
+  const path = JSON.stringify(field.name);
+  const minPairs = Number(map?.minPairs ?? 0n);
+  const maxPairs = Number(map?.maxPairs ?? 0n);
+
+  if (minPairs > 0 && !(rules?.ignore === IGNORE_IF_ZERO_VALUE && minPairs === 1)) {
+    const fewer = minPairs === 1 ? (isRecord ? "{}" : "new Map()") : toMap(`${entries}.slice(0, ${minPairs - 1})`);
+    add("map.min_pairs", path, `{ ...valid, ${name}: ${fewer} }`);
+  }
+  // Bool keys have two values
+  if (maxPairs > 0 && !(field.mapKey === ScalarType.BOOL && maxPairs >= 2)) {
+    ctx.helpers.add("randomEntries");
+    const pairs = `randomEntries(random, ${maxPairs + 1}, ${maxPairs + 1}, ${mapEntryFunctions(field, map, ctx)})`;
+    add("map.max_pairs", path, `{ ...valid, ${name}: ${toMap(pairs)} }`);
+  }
+
+  const keyType: ValueType = { kind: "scalar", scalar: field.mapKey! };
+  for (const { ruleId, value, zero, subscript } of invalidValues(keyType, map?.keys, ctx, true)) {
+    if (subscript === undefined || (map.keys.ignore === IGNORE_IF_ZERO_VALUE && zero)) {
+      continue;
+    }
+    // Object keys are strings
+    const key = isRecord && field.mapKey !== ScalarType.STRING ? `String(${value})` : value;
+    ctx.helpers.add("replaceFirstEntry");
+    const replaced = `replaceFirstEntry(${entries}, ([, value]) => [${key}, value])`;
+    add(ruleId, JSON.stringify(`${field.name}[${subscript}]`), `{ ...valid, ${name}: ${toMap(replaced)} }`);
+  }
+
+  const values = invalidValues(getValueType(field), map?.values, ctx)
+    .filter(({ zero }) => !(map.values.ignore === IGNORE_IF_ZERO_VALUE && zero));
+  if (values.length === 0) {
+    return;
+  }
+  // Invalid values are set on the key of the first entry
+  const keyName = `${name}Key`;
+  invalid.prelude.push(`  const ${keyName} = ${entries}[0][0];`);
+  const subscript = field.mapKey === ScalarType.STRING ? `\${JSON.stringify(${keyName})}` : `\${${keyName}}`;
+  ctx.helpers.add("replaceFirstEntry");
+  for (const { ruleId, value } of values) {
+    const replaced = `replaceFirstEntry(${entries}, ([key]) => [key, ${value}])`;
+    add(ruleId, `\`${field.name}[${subscript}]\``, `{ ...valid, ${name}: ${toMap(replaced)} }`);
+  }
+}
+
+/**
+ * Name of the invalid fixtures function of the message a field holds, if it
+ * has one and does not lead back to the field's message
+ */
+function nestedFixtures(field: DescField, ctx: FixtureContext): string | undefined {
+  const message = field.message;
+  if (!message || !hasZodSchema(message, ctx.options) || ctx.isCycleEdge(field.parent, message)) {
+    return undefined;
+  }
+  return toFunctionRef(message, "invalid", ctx);
+}
+
+function fixtureLoop(invalidFunction: string, fieldPath: string, value: string): string[] {
+  return [
+    `  for (const fixture of ${invalidFunction}(seed)) {`,
+    `    fixtures.push({ ...fixture, field: ${fieldPath}, value: ${value} });`,
+    "  }",
+  ];
+}
+
+/**
+ * Adds the fixture of a required oneof group with none of its members set
+ */
+function invalidOneof(fields: readonly DescField[], ctx: FixtureContext, invalid: InvalidBody): void {
+  const oneof = fields[0].oneof!;
+  if (!isOneofRequired(oneof)) {
+    return;
+  }
+  let value: string;
+  if (ctx.options.oneof === "properties") {
+    value = `{ ...valid, ${fields.map((field) => `${toCamelCase(field.name)}: undefined`).join(", ")} }`;
+  } else {
+    ctx.helpers.add("omit");
+    value = `omit(valid, "${toCamelCase(oneof.name)}")`;
+  }
+  invalid.entries.push(`{ ruleId: "required", field: "${oneof.name}", value: ${value} }`);
+}
+
+/**
+ * The sample with a field set to a value, selecting the field in its oneof group
+ */
+function withField(field: DescField, value: string, ctx: FixtureContext): string {
+  const name = toCamelCase(field.name);
+  const oneof = field.oneof;
+  if (!oneof) {
+    return `{ ...valid, ${name}: ${value} }`;
+  }
+  const oneofName = toCamelCase(oneof.name);
+  switch (ctx.options.oneof) {
+    case "properties": {
+      const others = oneof.fields.filter((other) => other !== field).map((other) => `${toCamelCase(other.name)}: undefined, `);
+      return `{ ...valid, ${others.join("")}${name}: ${value} }`;
+    }
+    case "unions":
+      return `{ ...valid, ${oneofName}: { $case: "${name}" as const, ${name}: ${value} } }`;
+    case "unions-value":
+      return `{ ...valid, ${oneofName}: { $case: "${name}" as const, value: ${value} } }`;
+    case "case":
+      return `{ ...valid, ${oneofName}: { case: "${name}" as const, value: ${value} } }`;
+  }
+}
+
+/**
+ * Values of a type that each break one of its rules
+ */
+function invalidValues(type: ValueType, rules: FieldRules | undefined, ctx: FixtureContext, isMapKey = false): InvalidValue[] {
+  switch (type.kind) {
+    case "enum":
+      return invalidEnum(type.desc, typedRules(rules, "enum"), ctx);
+    case "scalar":
+      return invalidScalar(type.scalar, rules, ctx, isMapKey);
+    case "message": {
+      const wrapped = WRAPPED_SCALARS[type.desc.typeName];
+      if (wrapped !== undefined) {
+        return invalidScalar(wrapped, rules, ctx, false);
+      }
+      if (type.desc.typeName === "google.protobuf.Timestamp") {
+        return invalidTimestamp(typedRules(rules, "timestamp"), ctx);
+      }
+      if (type.desc.typeName === "google.protobuf.Duration") {
+        return invalidDuration(typedRules(rules, "duration"), ctx);
+      }
+      return [];
+    }
+  }
+}
+
+function invalidScalar(scalar: ScalarType, rules: FieldRules | undefined, ctx: FixtureContext, isMapKey: boolean): InvalidValue[] {
+  const type = scalarRuleType(scalar);
+  const typed = typedRules(rules, type);
+  if (!typed) {
+    return [];
+  }
+  switch (scalar) {
+    case ScalarType.STRING:
+      return narrowedConst(invalidStrings(typed));
+    case ScalarType.BYTES:
+      return invalidBytes(typed);
+    case ScalarType.BOOL:
+      if (typed.const === undefined) {
+        return [];
+      }
+      return [{ ruleId: "bool.const", value: isMapKey ? `"${!typed.const}"` : String(!typed.const), zero: typed.const, subscript: String(!typed.const) }];
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return narrowedConst(invalidFloats(type, typed));
+    default:
+      return narrowedConst(invalidIntegers(type, typed, ctx, isMapKey));
+  }
+}
+
+/**
+ * The const checks of strings and numbers narrow the type of the schema to the const value
+ */
+function narrowedConst(values: InvalidValue[]): InvalidValue[] {
+  return values.map((value) => (value.ruleId.endsWith(".const") ? { ...value, value: `${value.value} as never` } : value));
+}
+
+/**
+ * Strings breaking each string rule, by construction or out of a few candidates
+ */
+function invalidStrings(rules: any): InvalidValue[] {
+  const values: { ruleId: string; value: string }[] = [];
+  const add = (rule: string, value: string) => values.push({ ruleId: `string.${rule}`, value });
+  const lengthRules: [string, bigint | undefined, number][] = [
+    ["len", rules.len, 1],
+    ["min_len", rules.minLen, -1],
+    ["max_len", rules.maxLen, 1],
+    ["len_bytes", rules.lenBytes, 1],
+    ["min_bytes", rules.minBytes, -1],
+    ["max_bytes", rules.maxBytes, 1],
+  ];
+
+  if (rules.const) {
+    add("const", `${rules.const}_`);
+  }
+  for (const [rule, length, offset] of lengthRules) {
+    if (length !== undefined && length > 0n) {
+      add(rule, "a".repeat(Number(length) + offset));
+    }
+  }
+  if (rules.pattern) {
+    const value = findInvalid(rules.pattern);
+    if (value !== undefined) {
+      add("pattern", value);
+    }
+  }
+  if (rules.prefix) {
+    add("prefix", `${rules.prefix.startsWith("_") ? "-" : "_"}${rules.prefix}`);
+  }
+  if (rules.suffix) {
+    add("suffix", `${rules.suffix}${rules.suffix.endsWith("_") ? "-" : "_"}`);
+  }
+  if (rules.contains) {
+    add("contains", rules.contains.includes("_") ? "-" : "_");
+  }
+  if (rules.notContains) {
+    add("not_contains", rules.notContains);
+  }
+  if (rules.in?.length > 0) {
+    let value = "_";
+    while (rules.in.includes(value)) {
+      value += "_";
+    }
+    add("in", value);
+  }
+  if (rules.notIn?.length > 0) {
+    add("not_in", rules.notIn[0]);
+  }
+
+  const format = rules.wellKnown?.value ? (rules.wellKnown.case as string) : undefined;
+  if (format === "wellKnownRegex") {
+    // KnownRegex: 1 = HTTP_HEADER_NAME, 2 = HTTP_HEADER_VALUE
+    const rule = { 1: "well_known_regex.header_name", 2: "well_known_regex.header_value" }[rules.wellKnown.value as number];
+    if (rule) {
+      add(rule, "bad\nvalue");
+    }
+  } else if (format) {
+    add(format.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`), "not a valid value");
+  }
+
+  return values.map(({ ruleId, value }) => ({
+    ruleId,
+    value: /^a{8,}$/.test(value) ? `"a".repeat(${value.length})` : JSON.stringify(value),
+    zero: value === "",
+    subscript: JSON.stringify(value),
+  }));
+}
+
+/**
+ * A short string that does not match a pattern, undefined if all candidates match
+ * or the pattern is not supported (the schemas skip it as well)
+ */
+function findInvalid(pattern: string): string | undefined {
+  const candidates = ["!", " ", "-", "_", "0", "a", "A", "invalid value", ""];
+  try {
+    const regex = toRegExp(pattern);
+    return candidates.find((candidate) => !regex.test(candidate));
+  } catch {
+    return undefined;
+  }
+}
+
+function invalidBytes(rules: any): InvalidValue[] {
+  const values: { ruleId: string; bytes: number[] }[] = [];
+  const add = (rule: string, bytes: number[]) => values.push({ ruleId: `bytes.${rule}`, bytes });
+  const flip = (bytes: Uint8Array, index: number) => Array.from(bytes, (b, i) => (i === index ? b ^ 0xff : b));
+
+  if (rules.const?.length > 0) {
+    add("const", [...rules.const, 0]);
+  }
+  for (const [rule, length, offset] of [["len", rules.len, 1], ["min_len", rules.minLen, -1], ["max_len", rules.maxLen, 1]] as const) {
+    if (length !== undefined && length > 0n) {
+      add(rule, Array(Number(length) + offset).fill(0));
+    }
+  }
+  if (rules.pattern) {
+    // Invalid UTF-8 never matches
+    add("pattern", [0xff]);
+  }
+  if (rules.prefix?.length > 0) {
+    add("prefix", flip(rules.prefix, 0));
+  }
+  if (rules.suffix?.length > 0) {
+    add("suffix", flip(rules.suffix, rules.suffix.length - 1));
+  }
+  if (rules.contains?.length > 0) {
+    add("contains", [rules.contains[0] ^ 0xff]);
+  }
+  if (rules.in?.length > 0) {
+    const allowed = rules.in.map(toHex);
+    const bytes = [...rules.in[0]];
+    while (allowed.includes(toHex(Uint8Array.from(bytes)))) {
+      bytes.push(0);
+    }
+    add("in", bytes);
+  }
+  if (rules.notIn?.length > 0) {
+    add("not_in", [...rules.notIn[0]]);
+  }
+  const format = rules.wellKnown?.value ? (rules.wellKnown.case as string) : undefined;
+  if (format === "ip" || format === "ipv4" || format === "ipv6" || format === "uuid") {
+    add(format, [0, 0, 0]);
+  }
+
+  return values.map(({ ruleId, bytes }) => ({
+    ruleId,
+    value: bytes.length > 8 && bytes.every((b) => b === 0) ? `new Uint8Array(${bytes.length})` : toBytesLiteral(Uint8Array.from(bytes)),
+    zero: bytes.length === 0,
+  }));
+}
+
+/**
+ * Numbers breaking the range rules (z.number() already rejects the values breaking finite)
+ */
+function invalidFloats(type: string, rules: any): InvalidValue[] {
+  return rangeViolations(type, ...getBounds(rules, Number), 1).map(({ ruleId, value }) => ({
+    ruleId,
+    value: String(value),
+    zero: value === 0,
+  }));
+}
+
+function invalidIntegers(type: string, rules: any, ctx: FixtureContext, isMapKey: boolean): InvalidValue[] {
+  const values: { ruleId: string; value: bigint }[] = rangeViolations(type, ...getBounds(rules, BigInt), 1n);
+  // The schemas do not check const = 0
+  if (rules.const !== undefined && BigInt(rules.const) !== 0n) {
+    values.push({ ruleId: `${type}.const`, value: BigInt(rules.const) + 1n });
+  }
+  if (rules.in?.length > 0) {
+    const allowed: bigint[] = rules.in.map(BigInt);
+    values.push({ ruleId: `${type}.in`, value: allowed.reduce((max, n) => (n > max ? n : max)) + 1n });
+  }
+  if (rules.notIn?.length > 0) {
+    values.push({ ruleId: `${type}.not_in`, value: BigInt(rules.notIn[0]) });
+  }
+
+  // Values the type cannot hold fail its own checks rather than the rule
+  const [min, max] = INTEGER_LIMITS[type];
+  const unsafe = !type.endsWith("64") || ctx.options.forceLong === "number";
+  return values
+    .filter(({ value }) => value >= min && value <= max && !(unsafe && (value > MAX_SAFE || value < -MAX_SAFE)))
+    .map(({ ruleId, value }) => ({
+      ruleId,
+      value: toIntegerLiteral(type, value, ctx, isMapKey),
+      zero: value === 0n,
+      subscript: String(value),
+    }));
+}
+
+/**
+ * Values breaking the range rules, as protovalidate identifies them: both
+ * bounds make a single rule ("int32.gt_lt"), and an upper bound below the
+ * lower one makes an exclusive range ("int32.gt_lt_exclusive")
+ */
+function rangeViolations<T extends number | bigint>(
+  type: string,
+  lower: Bound<T> | undefined,
+  upper: Bound<T> | undefined,
+  one: T
+): { ruleId: string; value: T }[] {
+  const add = (a: T, b: T) => ((a as any) + b) as T;
+  const subtract = (a: T, b: T) => ((a as any) - b) as T;
+  const below = (bound: Bound<T>) => (bound.rule === "gt" ? bound.value : subtract(bound.value, one));
+  const above = (bound: Bound<T>) => (bound.rule === "lt" ? bound.value : add(bound.value, one));
+
+  if (lower && upper) {
+    const ruleId = `${type}.${lower.rule}_${upper.rule}`;
+    if (upper.value >= lower.value) {
+      return [{ ruleId, value: below(lower) }, { ruleId, value: above(upper) }];
+    }
+    // The first value that is not below the upper bound, if it is not above the lower one
+    const gap = above(upper);
+    const inside = lower.rule === "gt" ? gap <= lower.value : gap < lower.value;
+    return inside ? [{ ruleId: `${ruleId}_exclusive`, value: gap }] : [];
+  }
+  return [
+    ...(lower ? [{ ruleId: `${type}.${lower.rule}`, value: below(lower) }] : []),
+    ...(upper ? [{ ruleId: `${type}.${upper.rule}`, value: above(upper) }] : []),
+  ];
+}
+
+/**
+ * Enum values breaking the enum rules, a number the enum does not define for defined_only
+ */
+function invalidEnum(desc: DescEnum, rules: any, ctx: FixtureContext): InvalidValue[] {
+  if (!rules) {
+    return [];
+  }
+  const values: InvalidValue[] = [];
+  const add = (ruleId: string, number: number) => values.push({ ruleId, value: toEnumMember(desc, number, ctx), zero: number === 0 });
+  const defined = desc.values.map((value) => value.number);
+
+  if (rules.definedOnly) {
+    // ts-proto's UNRECOGNIZED (-1) passes the enum schema, only the rule rejects it
+    const undefinedNumber = defined.includes(-1) ? Math.max(...defined) + 1 : -1;
+    values.push({ ruleId: "enum.defined_only", value: `${undefinedNumber} as never` });
+  }
+  if (rules.in?.length > 0) {
+    const outside = defined.filter((n) => !rules.in.includes(n));
+    if (outside.length > 0) {
+      // The zero value may also break required
+      add("enum.in", outside.find((n) => n !== 0) ?? outside[0]);
+    }
+  }
+  if (rules.notIn?.length > 0 && defined.includes(rules.notIn[0])) {
+    add("enum.not_in", rules.notIn[0]);
+  }
+  return values;
+}
+
+/**
+ * Timestamps breaking the timestamp rules, in milliseconds like the schemas
+ */
+function invalidTimestamp(rules: any, ctx: FixtureContext): InvalidValue[] {
+  if (!rules) {
+    return [];
+  }
+  const values: { ruleId: string; ms: string }[] = rangeViolations("timestamp", ...getBounds(rules, timestampMillis), 1)
+    .map(({ ruleId, value }) => ({ ruleId, ms: String(value) }));
+  if (rules.const) {
+    values.unshift({ ruleId: "timestamp.const", ms: String(timestampMillis(rules.const) + 1) });
+  }
+  if (rules.greaterThan?.case === "gtNow" && rules.greaterThan.value) {
+    values.push({ ruleId: "timestamp.gt_now", ms: "Date.now() - 3600000" });
+  }
+  if (rules.lessThan?.case === "ltNow" && rules.lessThan.value) {
+    values.push({ ruleId: "timestamp.lt_now", ms: "Date.now() + 3600000" });
+  }
+  if (rules.within) {
+    values.push({ ruleId: "timestamp.within", ms: `Date.now() + ${Number(durationNanos(rules.within) / 1000000n) + 3600000}` });
+  }
+  if (values.length > 0) {
+    ctx.helpers.add("toTimestamp");
+  }
+  return values.map(({ ruleId, ms }) => ({ ruleId, value: `toTimestamp(${ms})` }));
+}
+
+/**
+ * Durations breaking the duration rules, which compare nanoseconds
+ */
+function invalidDuration(rules: any, ctx: FixtureContext): InvalidValue[] {
+  if (!rules) {
+    return [];
+  }
+  const values = rangeViolations("duration", ...getBounds(rules, durationNanos), 1n);
+  if (rules.const) {
+    values.unshift({ ruleId: "duration.const", value: durationNanos(rules.const) + 1n });
+  }
+  if (rules.in?.length > 0) {
+    const allowed: bigint[] = rules.in.map(durationNanos);
+    values.push({ ruleId: "duration.in", value: allowed.reduce((max, n) => (n > max ? n : max)) + 1n });
+  }
+  if (rules.notIn?.length > 0) {
+    values.push({ ruleId: "duration.not_in", value: durationNanos(rules.notIn[0]) });
+  }
+  return values.map(({ ruleId, value }) => ({
+    ruleId,
+    value: toDurationLiteral({ seconds: value / 1000000000n, nanos: Number(value % 1000000000n) }, ctx),
+  }));
+}
+
+/**
+ * A parsed pattern, printed as data for sampleRegex(): a literal, a sequence,
+ * alternatives, a character out of a set, or a repetition
+ */
+export type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+// Characters drawn for ".", "\w" and negated classes, when they allow them
+const SAMPLED = "abcdefghijklmnopqrstuvwxyz0123456789";
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join("");
+const DIGITS = "0123456789";
+const WORD = `${DIGITS}ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz`;
+const SPACES = " \t\n\f\r\v";
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: WORD.replace("_", ""),
+  alpha: WORD.replace(/[0-9_]/g, ""),
+  digit: DIGITS,
+  lower: "abcdefghijklmnopqrstuvwxyz",
+  upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  space: SPACES,
+  word: WORD,
+  xdigit: "0123456789ABCDEFabcdef",
+  punct: PRINTABLE.replace(/[0-9A-Za-z ]/g, ""),
+};
+// Unbounded repetitions repeat at most this many more times than their minimum
+const MAX_EXTRA_REPEATS = 8;
+// Ranges of a class contribute at most this many characters
+const MAX_RANGE = 256;
+
+/**
+ * Parses the RE2 syntax of buf.validate patterns, for the samples
+ *
+ * Anchors, word boundaries and flags are skipped (samples are lowercase, which
+ * (?i) patterns match as well). Unicode classes (\p) are not supported.
+ */
+export function parseRegex(pattern: string): RegexNode {
+  const chars = Array.from(pattern);
+  let pos = 0;
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos}`);
+  };
+
+  const parseAlternation = (): RegexNode => {
+    const options = [parseSequence()];
+    while (chars[pos] === "|") {
+      pos++;
+      options.push(parseSequence());
+    }
+    return options.length === 1 ? options[0] : { oneOf: options };
+  };
+
+  const parseSequence = (): RegexNode => {
+    const items: RegexNode[] = [];
+    while (pos < chars.length && chars[pos] !== "|" && chars[pos] !== ")") {
+      const atom = parseAtom();
+      if (atom === undefined) {
+        continue;
+      }
+      const node = parseRepeat(atom);
+      const last = items[items.length - 1];
+      if (typeof node === "string" && typeof last === "string") {
+        items[items.length - 1] = last + node;
+      } else {
+        items.push(node);
+      }
+    }
+    return items.length === 1 ? items[0] : items;
+  };
+
+  // undefined for the parts that match the empty string: anchors and flags
+  const parseAtom = (): RegexNode | undefined => {
+    const char = chars[pos++];
+    switch (char) {
+      case "^":
+      case "$":
+        return undefined;
+      case ".":
+        return { set: SAMPLED };
+      case "[":
+        return { set: parseClass() };
+      case "\\":
+        return parseEscape(false);
+      case "*":
+      case "+":
+      case "?":
+        return fail("Missing repetition argument");
+      case "(":
+        return parseGroup();
+      default:
+        return char;
+    }
+  };
+
+  const parseGroup = (): RegexNode | undefined => {
+    if (chars[pos] === "?") {
+      pos++;
+      if (chars[pos] === "P" || chars[pos] === "<") {
+        // Named group
+        while (pos < chars.length && chars[pos] !== ">") {
+          pos++;
+        }
+        pos++;
+      } else {
+        // Flags, for the rest of the group or for its content
+        while (pos < chars.length && /[-imsU]/.test(chars[pos])) {
+          pos++;
+        }
+        if (chars[pos] === ")") {
+          pos++;
+          return undefined;
+        }
+        if (chars[pos] !== ":") {
+          fail("Unsupported group");
+        }
+        pos++;
+      }
+    }
+    const node = parseAlternation();
+    if (chars[pos] !== ")") {
+      fail("Missing closing parenthesis");
+    }
+    pos++;
+    return node;
+  };
+
+  const parseRepeat = (atom: RegexNode): RegexNode => {
+    let min: number;
+    let max: number;
+    const char = chars[pos];
+    const counted = char === "{" ? /^\{(\d+)(,(\d*))?\}/.exec(chars.slice(pos).join("")) : null;
+    if (char === "*" || char === "+" || char === "?") {
+      pos++;
+      min = char === "+" ? 1 : 0;
+      max = char === "?" ? 1 : min + MAX_EXTRA_REPEATS;
+    } else if (counted) {
+      pos += counted[0].length;
+      min = Number(counted[1]);
+      max = counted[2] === undefined ? min : counted[3] ? Number(counted[3]) : min + MAX_EXTRA_REPEATS;
+    } else {
+      return atom;
+    }
+    // Non-greedy repetitions match the same strings
+    if (chars[pos] === "?") {
+      pos++;
+    }
+    if ("*+?{".includes(chars[pos] ?? "") && !(chars[pos] === "{" && !/^\{\d/.test(chars.slice(pos).join("")))) {
+      fail("Invalid nested repetition");
+    }
+    return { repeat: atom, min, max: Math.min(max, min + MAX_EXTRA_REPEATS) };
+  };
+
+  // A character, a set for the escapes of classes, undefined for the anchors
+  const parseEscape = (inClass: boolean): RegexNode | undefined => {
+    const char = chars[pos++];
+    if (char === undefined) {
+      return fail("Trailing backslash");
+    }
+    switch (char) {
+      case "d":
+        return { set: DIGITS };
+      case "D":
+        return { set: except(DIGITS) };
+      case "w":
+        return { set: inClass ? WORD : SAMPLED };
+      case "W":
+        return { set: except(WORD) };
+      case "s":
+        return { set: inClass ? SPACES : " " };
+      case "S":
+        return { set: SAMPLED };
+      case "A":
+      case "z":
+      case "b":
+      case "B":
+        return inClass ? fail(`Invalid escape \\${char} in a class`) : undefined;
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "f":
+        return "\f";
+      case "v":
+        return "\v";
+      case "x": {
+        const hex = /^(\{([0-9A-Fa-f]+)\}|[0-9A-Fa-f]{2})/.exec(chars.slice(pos).join(""));
+        if (!hex) {
+          return fail("Invalid \\x escape");
+        }
+        pos += hex[0].length;
+        return String.fromCodePoint(parseInt(hex[2] ?? hex[1], 16));
+      }
+      default:
+        if (/[0-9A-Za-z]/.test(char)) {
+          return fail(`Unsupported escape \\${char}`);
+        }
+        return char;
+    }
+  };
+
+  // The characters of a class, after its "["
+  const parseClass = (): string => {
+    const negated = chars[pos] === "^";
+    if (negated) {
+      pos++;
+    }
+    let members = "";
+    let first = true;
+    while (pos < chars.length && (chars[pos] !== "]" || first)) {
+      first = false;
+      const posix = /^\[:(\^?)([a-z]+):\]/.exec(chars.slice(pos).join(""));
+      if (posix) {
+        pos += posix[0].length;
+        const set = POSIX_CLASSES[posix[2]] ?? fail(`Unknown class [:${posix[2]}:]`);
+        members += posix[1] ? except(set) : set;
+        continue;
+      }
+      const start = readClassChar();
+      if (typeof start !== "string" || chars[pos] !== "-" || chars[pos + 1] === "]" || chars[pos + 1] === undefined) {
+        members += typeof start === "string" ? start : start.set;
+        continue;
+      }
+      pos++;
+      const end = readClassChar();
+      if (typeof end !== "string" || end.codePointAt(0)! < start.codePointAt(0)!) {
+        fail("Invalid class range");
+      }
+      members += charRange(start, end as string);
+    }
+    if (chars[pos] !== "]") {
+      fail("Missing closing ]");
+    }
+    pos++;
+    if (!negated) {
+      return members;
+    }
+    const sampled = Array.from(SAMPLED).filter((c) => !members.includes(c)).join("");
+    return sampled || except(members) || fail("Empty class");
+  };
+
+  const readClassChar = (): string | { set: string } => {
+    const char = chars[pos++];
+    if (char !== "\\") {
+      return char;
+    }
+    return parseEscape(true) as string | { set: string };
+  };
+
+  const node = parseAlternation();
+  if (pos < chars.length) {
+    fail("Unexpected )");
+  }
+  return node;
+}
+
+/**
+ * Printable ASCII characters that are not in a set
+ */
+function except(set: string): string {
+  return Array.from(PRINTABLE).filter((c) => !set.includes(c)).join("");
+}
+
+/**
+ * The characters of a class range, preferring printable ASCII ones
+ */
+function charRange(start: string, end: string): string {
+  const from = start.codePointAt(0)!;
+  const to = end.codePointAt(0)!;
+  const printable = Array.from(PRINTABLE).filter((c) => c.codePointAt(0)! >= from && c.codePointAt(0)! <= to);
+  if (printable.length > 0) {
+    return printable.join("");
+  }
+  return Array.from({ length: Math.min(to - from + 1, MAX_RANGE) }, (_, i) => String.fromCodePoint(from + i)).join("");
+}
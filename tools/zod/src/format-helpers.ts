@@ -0,0 +1,319 @@
+/**
+ * Runtime helpers for buf.validate rules that Zod has no built-in check for
+ *
+ * Well-known string formats (hostname, IP prefixes, URI references, ...),
+ * bytes, Timestamp and Duration rules need real parsing rather than a regex,
+ * and CEL rules raise evaluation errors where JavaScript would not. Rather than
+ * depend on a runtime package, the generator prints the helpers a file uses
+ * right after its imports, so generated files stay self-contained. The checks
+ * follow the protovalidate reference implementation.
+ */
+
+import type { GeneratedFile } from "@bufbuild/protoplugin";
+
+export type FormatHelper =
+  | "utf8Length"
+  | "durationNanos"
+  | "timestampMillis"
+  | "isHostname"
+  | "parseIpv6"
+  | "isIp"
+  | "isIpPrefix"
+  | "isHostAndPort"
+  | "isUriReference"
+  | "bytesMatchAt"
+  | "matchesUtf8"
+  | "celDivide"
+  | "celModulo"
+  | "celIndex"
+  | "celMapValue"
+  | "celErrorMessage";
+
+interface HelperSource {
+  /** Other helpers called by this one */
+  requires: FormatHelper[];
+  source: string;
+}
+
+// Keys are in print order; String.raw keeps regex escapes as written
+const HELPERS: Record<FormatHelper, HelperSource> = {
+  utf8Length: {
+    requires: [],
+    source: String.raw`
+/** Number of bytes in the UTF-8 encoding of a string */
+function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).length;
+}`,
+  },
+  durationNanos: {
+    requires: [],
+    source: String.raw`
+/** Total nanoseconds of a google.protobuf.Duration */
+function durationNanos(value: { seconds: { toString(): string }; nanos: number }): bigint {
+  return BigInt(value.seconds.toString()) * 1000000000n + BigInt(value.nanos);
+}`,
+  },
+  timestampMillis: {
+    requires: [],
+    source: String.raw`
+/** Milliseconds since the epoch of a google.protobuf.Timestamp message (useDate=false) */
+function timestampMillis(value: { seconds: { toString(): string }; nanos: number }): number {
+  return Number(value.seconds.toString()) * 1000 + Math.floor(value.nanos / 1000000);
+}`,
+  },
+  isHostname: {
+    requires: [],
+    source: String.raw`
+/** RFC 1123 hostname: labels of 1-63 alphanumerics or inner hyphens, last label not all digits */
+function isHostname(value: string): boolean {
+  if (value.length > 253) {
+    return false;
+  }
+  const labels = (value.endsWith(".") ? value.slice(0, -1) : value).split(".");
+  return labels.every((label) => /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(label))
+    && !/^[0-9]+$/.test(labels[labels.length - 1]);
+}`,
+  },
+  parseIpv6: {
+    requires: [],
+    source: String.raw`
+/** Parses an RFC 4291 IPv6 address (without zone) into its eight 16-bit pieces */
+function parseIpv6(value: string): number[] | undefined {
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const pieces: number[][] = [];
+  for (let h = 0; h < halves.length; h++) {
+    const part: number[] = [];
+    const groups = halves[h] === "" ? [] : halves[h].split(":");
+    for (let g = 0; g < groups.length; g++) {
+      const group = groups[g];
+      const last = h === halves.length - 1 && g === groups.length - 1;
+      if (last && /^(?:(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])$/.test(group)) {
+        const octets = group.split(".").map(Number);
+        part.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+      } else if (/^[0-9A-Fa-f]{1,4}$/.test(group)) {
+        part.push(parseInt(group, 16));
+      } else {
+        return undefined;
+      }
+    }
+    pieces.push(part);
+  }
+  if (pieces.length === 1) {
+    return pieces[0].length === 8 ? pieces[0] : undefined;
+  }
+  // "::" stands for at least one piece of zeros
+  const missing = 8 - pieces[0].length - pieces[1].length;
+  return missing >= 1 ? [...pieces[0], ...new Array<number>(missing).fill(0), ...pieces[1]] : undefined;
+}`,
+  },
+  isIp: {
+    requires: ["parseIpv6"],
+    source: String.raw`
+/** IPv4 in dotted decimal or IPv6 with an optional zone id; version 0 accepts both */
+function isIp(value: string, version: 0 | 4 | 6): boolean {
+  if (version !== 6 && /^(?:(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])$/.test(value)) {
+    return true;
+  }
+  if (version === 4) {
+    return false;
+  }
+  const zone = value.indexOf("%");
+  if (zone === -1) {
+    return parseIpv6(value) !== undefined;
+  }
+  return zone < value.length - 1 && parseIpv6(value.slice(0, zone)) !== undefined;
+}`,
+  },
+  isIpPrefix: {
+    requires: ["isIp", "parseIpv6"],
+    source: String.raw`
+/** IP address with a prefix length; strict requires the host bits to be zero */
+function isIpPrefix(value: string, version: 0 | 4 | 6, strict: boolean): boolean {
+  const slash = value.indexOf("/");
+  const length = value.slice(slash + 1);
+  if (slash === -1 || !/^(?:0|[1-9][0-9]{0,2})$/.test(length)) {
+    return false;
+  }
+  const address = value.slice(0, slash);
+  let pieces: number[] | undefined;
+  let width = 16;
+  if (version !== 6 && isIp(address, 4)) {
+    pieces = address.split(".").map(Number);
+    width = 8;
+  } else if (version !== 4) {
+    pieces = parseIpv6(address);
+  }
+  const prefixLength = Number(length);
+  if (!pieces || prefixLength > pieces.length * width) {
+    return false;
+  }
+  return !strict || pieces.every((piece, i) => {
+    const hostBits = Math.min(width, Math.max(0, (i + 1) * width - prefixLength));
+    return (piece & ((1 << hostBits) - 1)) === 0;
+  });
+}`,
+  },
+  isHostAndPort: {
+    requires: ["isHostname", "isIp"],
+    source: String.raw`
+/** Hostname, IPv4 or bracketed IPv6 followed by a port in 0-65535 */
+function isHostAndPort(value: string, portRequired: boolean): boolean {
+  const isPort = (port: string) => /^(?:0|[1-9][0-9]{0,4})$/.test(port) && Number(port) <= 65535;
+  const split = value.lastIndexOf(":");
+  if (value.startsWith("[")) {
+    const end = value.lastIndexOf("]");
+    if (end === value.length - 1) {
+      return !portRequired && isIp(value.slice(1, end), 6);
+    }
+    return end + 1 === split && isIp(value.slice(1, end), 6) && isPort(value.slice(split + 1));
+  }
+  if (split === -1) {
+    return !portRequired && (isHostname(value) || isIp(value, 4));
+  }
+  const host = value.slice(0, split);
+  return (isHostname(host) || isIp(host, 4)) && isPort(value.slice(split + 1));
+}`,
+  },
+  isUriReference: {
+    requires: ["parseIpv6"],
+    source: String.raw`
+/** RFC 3986 URI, or when the scheme is optional a URI reference such as "./foo?bar" */
+function isUriReference(value: string, schemeRequired: boolean): boolean {
+  const match = /^(?:([^:/?#]+):)?(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, scheme, authority, path, query, fragment] = match;
+  if (scheme === undefined ? schemeRequired || /^[^/]*:/.test(path) : !/^[A-Za-z][A-Za-z0-9+.-]*$/.test(scheme)) {
+    return false;
+  }
+  const pathChars = /^(?:[A-Za-z0-9\-._~!$&'()*+,;=:@/]|%[0-9A-Fa-f]{2})*$/;
+  const queryChars = /^(?:[A-Za-z0-9\-._~!$&'()*+,;=:@/?]|%[0-9A-Fa-f]{2})*$/;
+  if (!pathChars.test(path) || !queryChars.test(query ?? "") || !queryChars.test(fragment ?? "")) {
+    return false;
+  }
+  if (authority === undefined) {
+    return true;
+  }
+  const parts = /^(?:([^@]*)@)?(\[[^\]]*\]|[^:]*)(?::[0-9]*)?$/.exec(authority);
+  if (!parts || !/^(?:[A-Za-z0-9\-._~!$&'()*+,;=:]|%[0-9A-Fa-f]{2})*$/.test(parts[1] ?? "")) {
+    return false;
+  }
+  const host = parts[2];
+  if (!host.startsWith("[")) {
+    return /^(?:[A-Za-z0-9\-._~!$&'()*+,;=]|%[0-9A-Fa-f]{2})*$/.test(host);
+  }
+  const literal = host.slice(1, -1);
+  if (/^[vV][0-9A-Fa-f]+\.[A-Za-z0-9\-._~!$&'()*+,;=:]+$/.test(literal)) {
+    return true;
+  }
+  // RFC 6874 zone identifiers are introduced by an encoded "%"
+  const zone = literal.indexOf("%25");
+  if (zone === -1) {
+    return parseIpv6(literal) !== undefined;
+  }
+  return parseIpv6(literal.slice(0, zone)) !== undefined
+    && /^(?:[A-Za-z0-9\-._~]|%[0-9A-Fa-f]{2})+$/.test(literal.slice(zone + 3));
+}`,
+  },
+  bytesMatchAt: {
+    requires: [],
+    source: String.raw`
+/** Whether "search" occurs in "value" at the given offset */
+function bytesMatchAt(value: Uint8Array, search: Uint8Array, offset: number): boolean {
+  return offset >= 0 && offset + search.length <= value.length && search.every((b, i) => value[offset + i] === b);
+}`,
+  },
+  matchesUtf8: {
+    requires: [],
+    source: String.raw`
+/** Whether bytes are valid UTF-8 and the decoded text matches the pattern */
+function matchesUtf8(value: Uint8Array, pattern: RegExp): boolean {
+  try {
+    return pattern.test(new TextDecoder("utf-8", { fatal: true }).decode(value));
+  } catch {
+    return false;
+  }
+}`,
+  },
+  celDivide: {
+    requires: [],
+    source: String.raw`
+/** CEL integer division, an evaluation error for a zero divisor */
+function celDivide(left: bigint, right: bigint): bigint {
+  if (right === 0n) {
+    throw new Error("division by zero");
+  }
+  return left / right;
+}`,
+  },
+  celModulo: {
+    requires: [],
+    source: String.raw`
+/** CEL integer modulo, an evaluation error for a zero divisor */
+function celModulo(left: bigint, right: bigint): bigint {
+  if (right === 0n) {
+    throw new Error("modulus by zero");
+  }
+  return left % right;
+}`,
+  },
+  celIndex: {
+    requires: [],
+    source: String.raw`
+/** Element of a CEL list, an evaluation error out of range */
+function celIndex<T>(list: readonly T[], index: bigint): T {
+  if (index < 0n || index >= BigInt(list.length)) {
+    throw new Error("index out of range: " + index);
+  }
+  return list[Number(index)];
+}`,
+  },
+  celMapValue: {
+    requires: [],
+    source: String.raw`
+/** Value of a CEL map, an evaluation error for a missing key */
+function celMapValue<T>(map: Record<string, T>, key: string): T {
+  if (!Object.prototype.hasOwnProperty.call(map, key)) {
+    throw new Error("no such key: " + key);
+  }
+  return map[key];
+}`,
+  },
+  celErrorMessage: {
+    requires: [],
+    source: String.raw`
+/** Violation message of a CEL rule whose evaluation failed */
+function celErrorMessage(error: unknown): string {
+  return "evaluation error: " + (error instanceof Error ? error.message : String(error));
+}`,
+  },
+};
+
+/**
+ * Prints the given helpers and the helpers they depend on
+ */
+export function printFormatHelpers(f: GeneratedFile, used: ReadonlySet<FormatHelper>): void {
+  const needed = new Set<FormatHelper>();
+  const visit = (name: FormatHelper) => {
+    if (needed.has(name)) {
+      return;
+    }
+    needed.add(name);
+    HELPERS[name].requires.forEach(visit);
+  };
+  used.forEach(visit);
+
+  for (const name of Object.keys(HELPERS) as FormatHelper[]) {
+    if (!needed.has(name)) {
+      continue;
+    }
+    for (const line of HELPERS[name].source.trimStart().split("\n")) {
+      f.print(line);
+    }
+    f.print();
+  }
+}
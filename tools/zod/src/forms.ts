@@ -0,0 +1,316 @@
+/**
+ * Generates form models of the request messages, for UI builders
+ *
+ * With forms=true, <file>_form.ts exports a `<Message>Form` constant for each
+ * request message of the file, and for the messages of the file they embed.
+ * A form model lists the fields in declaration order, with a label derived
+ * from the field name, the help text of its leading comment, the input kind
+ * of its type, and whether buf.validate requires it. Enum fields carry the
+ * `*_MAP` helper of their enum as options, and the bounds of the field's rules
+ * are given as constraint hints, so the forms follow the protos.
+ *
+ * Like the other outputs, the form types are printed into each file.
+ */
+
+import type { GeneratedFile, Schema } from "@bufbuild/protoplugin";
+import { ScalarType, type DescEnum, type DescField, type DescFile, type DescMessage } from "@bufbuild/protobuf";
+import type { PluginOptions } from "./generator.js";
+import { getValidationChain, isFieldRequired, isOneofRequired, type ConstraintHints } from "./validation-mapper.js";
+import {
+  getLeadingComment,
+  getRelativeImportPath,
+  isRequestMessage,
+  toCamelCase,
+  toScreamingSnakeCase,
+  toTsTypeName,
+} from "./utils.js";
+
+type FormInput = "text" | "integer" | "number" | "checkbox" | "select" | "file" | "datetime" | "duration" | "json" | "group";
+
+// Printed in every file, before the form models
+const FORM_TYPES = `
+/**
+ * Input of a form field, from the type of its values
+ * - text, integer, number, checkbox: string, integer, float and bool scalars (and their wrappers)
+ * - select: enums, with the options of the enum's *_MAP helper
+ * - file: bytes
+ * - datetime, duration: google.protobuf.Timestamp and Duration
+ * - json: google.protobuf.Struct, Value and ListValue
+ * - group: other messages, described by the form of \`message\`
+ */
+export type FormInput = "text" | "integer" | "number" | "checkbox" | "select" | "file" | "datetime" | "duration" | "json" | "group";
+
+/**
+ * Bounds of the buf.validate rules of a value
+ */
+export interface FormConstraints {
+  min?: number;
+  exclusiveMin?: boolean;
+  max?: number;
+  exclusiveMax?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  /** RE2 syntax, as in the proto */
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface FormField {
+  /** Property of the field on the message */
+  name: string;
+  label: string;
+  /** Leading comment of the field */
+  help?: string;
+  /** Input of the value, or of each item or map value */
+  input: FormInput;
+  /** Lists and maps take several values */
+  container?: "list" | "map";
+  /** Input of the keys of a map */
+  keyInput?: FormInput;
+  required: boolean;
+  /** Values and labels of an enum, including the zero value */
+  options?: Record<number, string>;
+  /** Full name of the message of a group input */
+  message?: string;
+  /** oneof group the field belongs to */
+  oneof?: string;
+  constraints?: FormConstraints;
+  /** Constraints on each item or map value */
+  itemConstraints?: FormConstraints;
+}
+
+export interface FormOneof {
+  name: string;
+  label: string;
+  help?: string;
+  /** Whether one of the fields must be set */
+  required: boolean;
+  /** Names of the member fields */
+  fields: string[];
+}
+
+export interface FormModel {
+  /** Full name of the message */
+  typeName: string;
+  /** Leading comment of the message */
+  help?: string;
+  fields: FormField[];
+  oneofs: FormOneof[];
+}`;
+
+const WELL_KNOWN_INPUTS: Record<string, FormInput> = {
+  "google.protobuf.Timestamp": "datetime",
+  "google.protobuf.Duration": "duration",
+  "google.protobuf.Struct": "json",
+  "google.protobuf.Value": "json",
+  "google.protobuf.ListValue": "json",
+  "google.protobuf.StringValue": "text",
+  "google.protobuf.BytesValue": "file",
+  "google.protobuf.BoolValue": "checkbox",
+  "google.protobuf.FloatValue": "number",
+  "google.protobuf.DoubleValue": "number",
+  "google.protobuf.Int32Value": "integer",
+  "google.protobuf.UInt32Value": "integer",
+  "google.protobuf.Int64Value": "integer",
+  "google.protobuf.UInt64Value": "integer",
+};
+
+/**
+ * Generates the form file for the request messages of a proto file
+ */
+export function generateFormFile(schema: Schema<PluginOptions>, file: DescFile): void {
+  const messages = collectFormMessages(schema, file);
+  if (messages.length === 0) {
+    return;
+  }
+
+  const f = schema.generateFile(`${file.name}_form.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  f.print();
+
+  // Enum options come from the *_MAP helpers of the Zod files
+  const maps = new Map<string, Set<string>>();
+  for (const message of messages) {
+    for (const field of message.fields) {
+      const enumDesc = field.enum;
+      if (enumDesc && hasEnumMap(enumDesc)) {
+        const from = getRelativeImportPath(file.name, enumDesc.file.name, "_zod.js");
+        maps.set(from, (maps.get(from) ?? new Set()).add(toEnumMapName(enumDesc)));
+      }
+    }
+  }
+  for (const [from, names] of maps) {
+    f.print(`import { ${Array.from(names).sort().join(", ")} } from "${from}";`);
+  }
+  if (maps.size > 0) {
+    f.print();
+  }
+
+  for (const line of FORM_TYPES.trimStart().split("\n")) {
+    f.print(line);
+  }
+  f.print();
+
+  for (const message of messages) {
+    printFormModel(f, message, schema.options);
+  }
+}
+
+/**
+ * Request messages, and the messages of the same file they embed, in file order
+ */
+function collectFormMessages(schema: Schema<PluginOptions>, file: DescFile): DescMessage[] {
+  const messages = Array.from(schema.typesInFile(file)).filter((desc): desc is DescMessage => desc.kind === "message");
+  const selected = new Set<DescMessage>();
+  const visit = (message: DescMessage) => {
+    if (message.file !== file || selected.has(message)) {
+      return;
+    }
+    selected.add(message);
+    for (const field of message.fields) {
+      if (field.message) {
+        visit(field.message);
+      }
+    }
+  };
+  messages.filter((message) => isRequestMessage(message.name)).forEach(visit);
+  return messages.filter((message) => selected.has(message));
+}
+
+function printFormModel(f: GeneratedFile, message: DescMessage, options: PluginOptions): void {
+  f.print("/**");
+  f.print(` * Form model of ${toTsTypeName(message)}`);
+  f.print(` * @generated from message ${message.typeName}`);
+  f.print(" */");
+  f.print(`export const ${toTsTypeName(message)}Form: FormModel = {`);
+  f.print(`  typeName: "${message.typeName}",`);
+  printHelp(f, "  ", getLeadingComment(message));
+
+  f.print(message.fields.length > 0 ? "  fields: [" : "  fields: [],");
+  for (const field of message.fields) {
+    printFormField(f, field, options);
+  }
+  if (message.fields.length > 0) {
+    f.print("  ],");
+  }
+
+  if (message.oneofs.length === 0) {
+    f.print("  oneofs: [],");
+    f.print("};");
+    f.print();
+    return;
+  }
+  f.print("  oneofs: [");
+  for (const oneof of message.oneofs) {
+    f.print("    {");
+    f.print(`      name: "${toCamelCase(oneof.name)}",`);
+    f.print(`      label: ${JSON.stringify(toLabel(oneof.name))},`);
+    printHelp(f, "      ", getLeadingComment(oneof), oneof.name);
+    f.print(`      required: ${isOneofRequired(oneof)},`);
+    f.print(`      fields: [${oneof.fields.map((field) => `"${toCamelCase(field.name)}"`).join(", ")}],`);
+    f.print("    },");
+  }
+  f.print("  ],");
+  f.print("};");
+  f.print();
+}
+
+function printFormField(f: GeneratedFile, field: DescField, options: PluginOptions): void {
+  const chain = getValidationChain(field, options);
+  const enumDesc = field.enum;
+  const messageDesc = field.message;
+
+  f.print("    {");
+  f.print(`      name: "${toCamelCase(field.name)}",`);
+  f.print(`      label: ${JSON.stringify(toLabel(field.name))},`);
+  printHelp(f, "      ", getLeadingComment(field), field.name);
+  f.print(`      input: "${getFieldInput(field)}",`);
+  if (field.fieldKind === "list" || field.fieldKind === "map") {
+    f.print(`      container: "${field.fieldKind}",`);
+  }
+  if (field.fieldKind === "map") {
+    f.print(`      keyInput: "${toScalarInput(field.mapKey)}",`);
+  }
+  f.print(`      required: ${isFieldRequired(field)},`);
+  if (enumDesc && hasEnumMap(enumDesc)) {
+    f.print(`      options: ${toEnumMapName(enumDesc)},`);
+  }
+  if (messageDesc && !WELL_KNOWN_INPUTS[messageDesc.typeName]) {
+    f.print(`      message: "${messageDesc.typeName}",`);
+  }
+  if (field.oneof) {
+    f.print(`      oneof: "${toCamelCase(field.oneof.name)}",`);
+  }
+  printConstraints(f, "constraints", chain.hints);
+  printConstraints(f, "itemConstraints", (chain.items ?? chain.values)?.hints);
+  f.print("    },");
+}
+
+/**
+ * Prints the help text from a comment, without the "<field_name>:" prefix our protos often start with
+ */
+function printHelp(f: GeneratedFile, indent: string, comment: string | undefined, name?: string): void {
+  const help = name && comment?.startsWith(`${name}:`) ? comment.slice(name.length + 1).trim() : comment;
+  if (help) {
+    f.print(`${indent}help: ${JSON.stringify(help)},`);
+  }
+}
+
+function printConstraints(f: GeneratedFile, key: string, hints: ConstraintHints | undefined): void {
+  const entries = Object.entries(hints ?? {}).filter(([, value]) => value !== undefined);
+  if (entries.length > 0) {
+    f.print(`      ${key}: { ${entries.map(([name, value]) => `${name}: ${JSON.stringify(value)}`).join(", ")} },`);
+  }
+}
+
+/**
+ * Input of a field's values (of its items for lists, of its values for maps)
+ */
+function getFieldInput(field: DescField): FormInput {
+  const kind = field.fieldKind === "list" ? field.listKind : field.fieldKind === "map" ? field.mapKind : field.fieldKind;
+  switch (kind) {
+    case "enum":
+      return "select";
+    case "message":
+      return WELL_KNOWN_INPUTS[field.message!.typeName] ?? "group";
+    default:
+      return toScalarInput(field.scalar!);
+  }
+}
+
+function toScalarInput(scalar: ScalarType): FormInput {
+  switch (scalar) {
+    case ScalarType.STRING:
+      return "text";
+    case ScalarType.BOOL:
+      return "checkbox";
+    case ScalarType.BYTES:
+      return "file";
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return "number";
+    default:
+      return "integer";
+  }
+}
+
+/**
+ * Whether the enum's file has a Zod file, with the *_MAP helper
+ */
+function hasEnumMap(enumDesc: DescEnum): boolean {
+  return enumDesc.file.proto.package !== "buf.validate" && !enumDesc.file.name.startsWith("google/");
+}
+
+function toEnumMapName(enumDesc: DescEnum): string {
+  return `${toScreamingSnakeCase(toTsTypeName(enumDesc))}_MAP`;
+}
+
+/**
+ * Label from a field name, e.g. "list_size" -> "List size"
+ */
+function toLabel(name: string): string {
+  const words = name.split("_").filter(Boolean).join(" ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -3,18 +3,112 @@
  */
 
 import type { Schema, GeneratedFile } from "@bufbuild/protoplugin";
-import type { DescFile, DescMessage, DescEnum, DescField } from "@bufbuild/protobuf";
+import type { AnyDesc, DescFile, DescMessage, DescEnum, DescField, DescOneof } from "@bufbuild/protobuf";
+import { ScalarType } from "@bufbuild/protobuf";
 import {
   mapFieldToZod,
   isFieldOptional,
+  fieldUsesLong,
+  usesMapType,
+  getRuntimeImportSuffix,
   type TypeMapperContext,
 } from "./type-mapper.js";
-import { getValidationChain, isFieldRequired } from "./validation-mapper.js";
-import { toCamelCase, toSchemaName, getRelativeImportPath, toScreamingSnakeCase, stripEnumPrefix } from "./utils.js";
+import {
+  getValidationChain,
+  isFieldRequired,
+  isOneofRequired,
+  getFieldCelRules,
+  getFieldTypedRules,
+  getMessageCelRules,
+  getDefinedEnumValues,
+  ruleRefinement,
+  type CelRule,
+  type ValidationChain,
+} from "./validation-mapper.js";
+import {
+  compileCelExpression,
+  createFieldEnvironment,
+  createMessageEnvironment,
+  fieldPresenceGuard,
+  CelUnsupportedError,
+  type CelEnvironment,
+  type CompiledCel,
+} from "./cel-compiler.js";
+import { printFormatHelpers, type FormatHelper } from "./format-helpers.js";
+import { patternConstant, printPatternConstants, PatternUnsupportedError, type PatternTable } from "./patterns.js";
+import { generateJsonSchemaFile } from "./json-schema.js";
+import { generateClientFile, warnUnsupportedMethods } from "./clients.js";
+import { generateServerFile, generateViolationsFile } from "./servers.js";
+import { generateFormFile } from "./forms.js";
+import { generateFixtureFile } from "./fixtures.js";
+import { generateArbitraryFile } from "./arbitraries.js";
+import { toCamelCase, toSchemaName, toTsTypeName, getRelativeImportPath, toScreamingSnakeCase, stripEnumPrefix, escapeString, getLeadingComment } from "./utils.js";
+
+/**
+ * Shape of oneof groups, mirroring the ts-proto `oneof` option
+ * - properties: every member is a separate optional property (ts-proto default)
+ * - unions: `{ $case: "member"; member: T }` under the oneof name
+ * - unions-value: `{ $case: "member"; value: T }` under the oneof name
+ * - case: `{ case: "member"; value: T }` under the oneof name (protobuf-es, not a ts-proto option)
+ */
+export type OneofStyle = "properties" | "unions" | "unions-value" | "case";
+
+/**
+ * Runtime library whose message shapes the schemas validate
+ * - ts-proto: plain objects, with the options of buf.gen.ts.yaml
+ * - protobuf-es: protobuf-es v2 messages, with `$typeName` and bigint 64-bit integers
+ *   (as forceLong=bigint and useDate=false)
+ */
+export type Runtime = "ts-proto" | "protobuf-es";
+
+/**
+ * Type of 64-bit integers, mirroring the ts-proto `forceLong` option
+ * - string: decimal strings
+ * - number: numbers, limited to safe integers
+ * - long: Long instances from the long package
+ * - bigint: bigints (protobuf-es)
+ */
+export type ForceLong = "string" | "number" | "long" | "bigint";
+
+/**
+ * Type of google.protobuf.Timestamp, mirroring the ts-proto `useDate` option
+ * - true: Date objects
+ * - false: Timestamp messages, `{ seconds, nanos }` (protobuf-es)
+ * - string: RFC 3339 strings
+ */
+export type UseDate = "true" | "false" | "string";
+
+/**
+ * JSON Schema output, next to the Zod schemas (see json-schema.ts)
+ * - none: no output
+ * - json: <file>_schema.json, an object of the message schemas by full name
+ * - ts: <file>_jsonschema.ts, a `<Message>JsonSchema` constant per message
+ */
+export type JsonSchemaOutput = "none" | "json" | "ts";
 
 export interface PluginOptions {
   /** Whether to include Response messages (usually not needed for form validation) */
   includeResponses: boolean;
+  /** Shape of oneof groups, must match the ts-proto `oneof` option */
+  oneof: OneofStyle;
+  /** Runtime library of the validated messages */
+  runtime: Runtime;
+  /** Type of 64-bit integers, must match the ts-proto `forceLong` option */
+  forceLong: ForceLong;
+  /** Type of Timestamps, must match the ts-proto `useDate` option */
+  useDate: UseDate;
+  /** JSON Schema output */
+  jsonSchema: JsonSchemaOutput;
+  /** Whether to generate promise clients wrapping the ts-proto grpc-js clients (see clients.ts) */
+  clients: boolean;
+  /** Whether to generate validation wrappers for the grpc-js service implementations (see servers.ts) */
+  servers: boolean;
+  /** Whether to generate form models of the request messages (see forms.ts) */
+  forms: boolean;
+  /** Whether to generate valid and invalid sample messages for tests (see fixtures.ts) */
+  fixtures: boolean;
+  /** Whether to generate fast-check arbitraries of the messages and enums (see arbitraries.ts) */
+  arbitraries: boolean;
 }
 
 /**
@@ -23,12 +117,48 @@ export interface PluginOptions {
 export function generateZodSchemas(
   schema: Schema<PluginOptions>
 ): void {
-  for (const file of schema.files) {
-    // Skip third-party dependencies - only generate for local proto files
-    if (file.name.startsWith("buf/") || file.name.startsWith("google/")) {
-      continue;
+  // Skip third-party dependencies - only generate for local proto files
+  // (buf.validate itself, but not the vendored buf.validate.conformance cases)
+  const files = schema.files.filter(
+    (file) => file.proto.package !== "buf.validate" && !file.name.startsWith("google/")
+  );
+
+  // Cycles may span files and packages, so they are found over all files at once
+  const messages: DescMessage[] = [];
+  for (const file of files) {
+    for (const desc of schema.typesInFile(file)) {
+      if (desc.kind === "message") {
+        messages.push(desc);
+      }
+    }
+  }
+  const cycles = findMessageCycles(messages);
+
+  // The server files share the violations file, generated once
+  let hasServerFiles = false;
+  for (const file of files) {
+    generateFileSchemas(schema, file, cycles);
+    if (schema.options.clients || schema.options.servers) {
+      warnUnsupportedMethods(file, schema.options);
+    }
+    if (schema.options.clients) {
+      generateClientFile(schema, file);
+    }
+    if (schema.options.servers) {
+      hasServerFiles = generateServerFile(schema, file) || hasServerFiles;
     }
-    generateFileSchemas(schema, file);
+    if (schema.options.forms) {
+      generateFormFile(schema, file);
+    }
+    if (schema.options.fixtures) {
+      generateFixtureFile(schema, file, (from, to) => isCycleEdge(cycles, from, to));
+    }
+    if (schema.options.arbitraries) {
+      generateArbitraryFile(schema, file, (from, to) => isCycleEdge(cycles, from, to));
+    }
+  }
+  if (hasServerFiles) {
+    generateViolationsFile(schema);
   }
 }
 
@@ -37,10 +167,22 @@ export function generateZodSchemas(
  */
 function generateFileSchemas(
   schema: Schema<PluginOptions>,
-  file: DescFile
+  file: DescFile,
+  cycles: MessageCycles
 ): void {
+  // Flatten nested declarations - ts-proto emits them as top-level Outer_Inner types
+  const allMessages: DescMessage[] = [];
+  const localEnums: DescEnum[] = [];
+  for (const desc of schema.typesInFile(file)) {
+    if (desc.kind === "message") {
+      allMessages.push(desc);
+    } else if (desc.kind === "enum") {
+      localEnums.push(desc);
+    }
+  }
+
   // Filter messages first to check if we have anything to generate
-  const messages = file.messages.filter((msg) => {
+  const messages = allMessages.filter((msg) => {
     // Skip Response messages unless option is set
     if (!schema.options.includeResponses && msg.name.endsWith("Response")) {
       return false;
@@ -48,13 +190,16 @@ function generateFileSchemas(
     return true;
   });
 
-  const localEnums = file.enums;
-
   // Skip generating file if there are no messages or enums to export
   if (messages.length === 0 && localEnums.length === 0) {
     return;
   }
 
+  // JSON Schema from the same messages, in its own file
+  if (schema.options.jsonSchema !== "none") {
+    generateJsonSchemaFile(schema, file, messages);
+  }
+
   // Preserve directory structure: mirai/v1/auth -> mirai/v1/auth_zod.ts
   // Note: file.name excludes the .proto suffix
   const outputFileName = `${file.name}_zod.ts`;
@@ -70,25 +215,32 @@ function generateFileSchemas(
   const imports = new Map<string, Set<string>>();
   const context: TypeMapperContext = {
     currentProtoPath: file.name,
+    options: schema.options,
+    patterns: new Map(),
   };
 
-  // Collect imports from all messages
+  // Collect imports from all messages (nested ones are already flattened)
   for (const message of messages) {
-    collectMessageImports(message, context, imports);
+    collectMessageImports(message, context, cycles, imports);
   }
 
   // Collect enum imports - local enums need to be imported for z.enum to work
-  // ts-proto generates files with .js suffix for ES modules
-  const pbImportPath = getRelativeImportPath(file.name, file.name, ".js");
+  // Generated files are imported with the .js suffix for ES modules
+  const pbImportPath = getRelativeImportPath(file.name, file.name, getRuntimeImportSuffix(context.options));
   for (const enumDesc of localEnums) {
     const existing = imports.get(pbImportPath) ?? new Set();
-    existing.add(enumDesc.name);
+    existing.add(toTsTypeName(enumDesc));
     imports.set(pbImportPath, existing);
   }
 
   // Write zod import
   f.print('import { z } from "zod";');
 
+  // Long, for 64-bit integers with forceLong=long (as imported by ts-proto)
+  if (messages.some((message) => message.fields.some((field) => fieldUsesLong(field, context.options)))) {
+    f.print('import Long from "long";');
+  }
+
   // Write imports from *_pb.ts files (for enums)
   for (const [importPath, names] of imports) {
     const sortedNames = Array.from(names).sort();
@@ -97,27 +249,66 @@ function generateFileSchemas(
 
   f.print();
 
+  // Print the runtime helpers used by buf.validate rules in this file, then the regexes of their patterns.
+  // CEL rules are compiled here, as they may use both
+  const helpers = new Set<FormatHelper>();
+  const celChecks = new Map<DescMessage, CelCheck[]>();
+  for (const message of messages) {
+    for (const field of message.fields) {
+      const chain = getValidationChain(field, context.options);
+      chain.helpers.forEach((helper) => helpers.add(helper));
+      collectPatterns(field, chain, context.patterns);
+    }
+    celChecks.set(message, compileCelChecks(message, context, helpers));
+  }
+  printFormatHelpers(f, helpers);
+  printPatternConstants(f, context.patterns);
+
   // Generate enum schemas for enums defined in this file
   for (const enumDesc of localEnums) {
-    generateEnumSchema(f, enumDesc);
+    generateEnumSchema(f, enumDesc, context);
   }
 
-  // Generate message schemas
-  // Sort by dependency order and identify recursive types
-  const { sortedMessages, recursiveTypes } = analyzeMessageDependencies(messages, file.name);
+  // Generate message schemas in dependency order
+  const sortedMessages = sortMessagesByDependencies(messages, cycles);
 
   for (const message of sortedMessages) {
-    generateMessageSchema(f, message, context, recursiveTypes);
+    generateMessageSchema(f, message, context, cycles, celChecks.get(message) ?? []);
     f.print();
   }
 }
 
+/**
+ * Declares the regexes of the patterns of a field's rules
+ * Patterns JavaScript cannot match are reported, and their rule is skipped
+ */
+function collectPatterns(field: DescField, chain: ValidationChain, patterns: PatternTable): void {
+  const rules: [string, string | undefined][] = [["string.pattern", chain.stringPattern], ["bytes.pattern", chain.bytesPattern]];
+  for (const [rule, pattern] of rules) {
+    if (pattern === undefined) continue;
+    try {
+      patternConstant(patterns, pattern);
+    } catch (error) {
+      if (!(error instanceof PatternUnsupportedError)) {
+        throw error;
+      }
+      console.error(`Warning: Skipping ${chain.rulePrefix}${rule} on ${field.parent.typeName}.${field.name}: ${error.message}`);
+    }
+  }
+  for (const nested of [chain.items, chain.keys, chain.values]) {
+    if (nested) {
+      collectPatterns(field, nested, patterns);
+    }
+  }
+}
+
 /**
  * Collects all imports needed for a message's fields
  */
 function collectMessageImports(
   message: DescMessage,
   context: TypeMapperContext,
+  cycles: MessageCycles,
   imports: Map<string, Set<string>>
 ): void {
   for (const field of message.fields) {
@@ -125,14 +316,13 @@ function collectMessageImports(
     if (typeInfo.needsImport) {
       const existing = imports.get(typeInfo.needsImport.from) ?? new Set();
       existing.add(typeInfo.needsImport.name);
+      // The declared type of a recursive message names the types it references
+      if (cycles.has(message.typeName) && field.message) {
+        existing.add(`type ${toTsTypeName(field.message)}`);
+      }
       imports.set(typeInfo.needsImport.from, existing);
     }
   }
-
-  // Recurse into nested messages
-  for (const nested of message.nestedMessages) {
-    collectMessageImports(nested, context, imports);
-  }
 }
 
 /**
@@ -140,23 +330,22 @@ function collectMessageImports(
  */
 function generateEnumSchema(
   f: GeneratedFile,
-  enumDesc: DescEnum
+  enumDesc: DescEnum,
+  context: TypeMapperContext
 ): void {
-  const enumName = enumDesc.name;
+  const enumName = toTsTypeName(enumDesc);
   const schemaName = toSchemaName(enumName);
   const screaming = toScreamingSnakeCase(enumName);
 
   // Add JSDoc
-  f.print("/**");
-  f.print(` * Zod schema for ${enumName} enum`);
-  if (enumDesc.deprecated) {
-    f.print(" * @deprecated");
-  }
-  f.print(` * @generated from enum ${enumDesc.typeName}`);
-  f.print(" */");
+  printJsDoc(f, "", [
+    ...docLines(enumDesc, `Zod schema for ${enumName} enum`),
+    ...(enumDesc.deprecated ? ["@deprecated"] : []),
+    `@generated from enum ${enumDesc.typeName}`,
+  ]);
 
   // Enum is already imported at the top of the file
-  f.print(`export const ${schemaName} = z.enum(${enumName});`);
+  f.print(`export const ${schemaName} = z.enum(${enumName})${describeCall(enumDesc)};`);
   f.print(`export type ${enumName}Type = z.infer<typeof ${schemaName}>;`);
   f.print();
 
@@ -167,7 +356,8 @@ function generateEnumSchema(
   f.print(" */");
   f.print(`export const ${screaming}_MAP: Record<number, string> = {`);
   for (const value of enumDesc.values) {
-    const strippedName = stripEnumPrefix(value.name, enumName);
+    const strippedName = stripEnumPrefix(value.name, enumDesc.name);
+    printJsDoc(f, "  ", docLines(value));
     f.print(`  ${value.number}: "${strippedName}",`);
   }
   f.print("};");
@@ -182,8 +372,11 @@ function generateEnumSchema(
   for (const value of enumDesc.values) {
     // Skip UNSPECIFIED (value 0) for the reverse map
     if (value.number === 0) continue;
-    const strippedName = stripEnumPrefix(value.name, enumName);
-    f.print(`  ${strippedName}: ${enumName}.${value.name},`);
+    const strippedName = stripEnumPrefix(value.name, enumDesc.name);
+    // protobuf-es strips the shared prefix from the member names as well
+    const memberName = context.options.runtime === "protobuf-es" ? value.localName : value.name;
+    printJsDoc(f, "  ", docLines(value));
+    f.print(`  ${strippedName}: ${enumName}.${memberName},`);
   }
   f.print("};");
   f.print();
@@ -196,104 +389,340 @@ function generateMessageSchema(
   f: GeneratedFile,
   message: DescMessage,
   context: TypeMapperContext,
-  recursiveTypes: Set<string>
+  cycles: MessageCycles,
+  celChecks: CelCheck[]
 ): void {
-  const schemaName = toSchemaName(message.name);
-  const isRecursive = recursiveTypes.has(message.name);
+  const messageName = toTsTypeName(message);
+  const schemaName = toSchemaName(messageName);
+  const isRecursive = cycles.has(message.typeName);
 
   // Add JSDoc
-  f.print("/**");
-  f.print(` * Zod schema for ${message.name}`);
-  if (message.deprecated) {
-    f.print(" * @deprecated");
-  }
-  f.print(` * @generated from message ${message.typeName}`);
-  f.print(" */");
+  printJsDoc(f, "", [
+    ...docLines(message, `Zod schema for ${messageName}`),
+    ...(message.deprecated ? ["@deprecated"] : []),
+    `@generated from message ${message.typeName}`,
+  ]);
+  const describe = describeCall(message);
 
   if (isRecursive) {
     // For recursive types, we need to use z.lazy() with explicit type annotation
-    f.print(`export type ${message.name} = {`);
-    for (const field of message.fields) {
+    f.print(`export type ${messageName} = {`);
+    if (context.options.runtime === "protobuf-es") {
+      f.print(`  $typeName: "${message.typeName}";`);
+    }
+    for (const member of message.members) {
+      if (member.kind === "oneof") {
+        generateOneofTsType(f, member, context);
+        continue;
+      }
+      const field = member;
       const fieldName = toCamelCase(field.name);
       const fieldIsOptional = isFieldOptional(field);
-      const validation = getValidationChain(field);
+      const validation = getValidationChain(field, context.options);
       const fieldIsRequired = isFieldRequired(field) || validation.required;
       const optional = fieldIsOptional && !fieldIsRequired ? "?" : "";
 
-      // Generate TypeScript type based on field kind
-      const tsType = inferTsType(field);
-      f.print(`  ${fieldName}${optional}: ${tsType};`);
+      printJsDoc(f, "  ", fieldDocLines(field));
+      f.print(`  ${fieldName}${optional}: ${mapFieldToZod(field, context).tsType};`);
     }
     f.print("};");
     f.print();
 
     // Generate the schema using z.lazy for the base
-    f.print(`export const ${schemaName}: z.ZodType<${message.name}> = z.lazy(() => z.object({`);
-    for (const field of message.fields) {
-      generateFieldSchema(f, field, context, recursiveTypes);
-    }
-    f.print("}));");
+    f.print(`export const ${schemaName}: z.ZodType<${messageName}> = z.lazy(() => z.object({`);
+    generateMemberSchemas(f, message, context, cycles);
+    closeObjectSchema(f, message, context, celChecks, `})${describe});`);
   } else {
     // Start schema definition
     f.print(`export const ${schemaName} = z.object({`);
+    generateMemberSchemas(f, message, context, cycles);
+    closeObjectSchema(f, message, context, celChecks, `})${describe};`);
 
-    for (const field of message.fields) {
-      generateFieldSchema(f, field, context, recursiveTypes);
+    // Export inferred type
+    f.print();
+    f.print(`export type ${messageName} = z.infer<typeof ${schemaName}>;`);
+  }
+}
+
+/**
+ * Generates the object entries for all fields and oneof groups, in source order
+ */
+function generateMemberSchemas(
+  f: GeneratedFile,
+  message: DescMessage,
+  context: TypeMapperContext,
+  cycles: MessageCycles
+): void {
+  // protobuf-es messages carry their type name
+  if (context.options.runtime === "protobuf-es") {
+    f.print(`  $typeName: z.literal("${message.typeName}"),`);
+  }
+  for (const member of message.members) {
+    if (member.kind === "oneof") {
+      generateOneofSchema(f, member, context, cycles);
+    } else {
+      generateFieldSchema(f, member, context, cycles);
+    }
+  }
+}
+
+/**
+ * Closes a z.object() definition, attaching the object-level refinement for
+ * oneof exclusivity and CEL rules when needed
+ *
+ * The union shapes enforce exclusivity structurally, but with oneof=properties
+ * ts-proto types every member as an independent optional property, so the
+ * "at most one" (or "exactly one" with buf.validate.oneof.required) rule has
+ * to be checked at runtime to keep the inferred type identical.
+ */
+function closeObjectSchema(
+  f: GeneratedFile,
+  message: DescMessage,
+  context: TypeMapperContext,
+  celChecks: CelCheck[],
+  closing: string
+): void {
+  const flattenedOneofs = context.options.oneof === "properties" ? message.oneofs : [];
+  if (flattenedOneofs.length === 0 && celChecks.length === 0) {
+    f.print(closing);
+    return;
+  }
+
+  f.print("}).superRefine((v, ctx) => {");
+  for (const oneof of flattenedOneofs) {
+    const oneofName = toCamelCase(oneof.name);
+    const memberNames = oneof.fields.map((field) => toCamelCase(field.name));
+    const countName = `${oneofName}Count`;
+    f.print(`  const ${countName} = [${memberNames.map((name) => `v.${name}`).join(", ")}].filter((m) => m !== undefined).length;`);
+    f.print(`  if (${countName} > 1) {`);
+    f.print(`    ctx.addIssue({ code: "custom", message: "Only one of ${memberNames.join(", ")} may be set", path: ["${oneofName}"] });`);
+    f.print("  }");
+    if (isOneofRequired(oneof)) {
+      f.print(`  if (${countName} === 0) {`);
+      f.print(`    ctx.addIssue({ code: "custom", message: "Exactly one of ${memberNames.join(", ")} must be set", path: ["${oneofName}"], params: { ruleId: "required" } });`);
+      f.print("  }");
     }
+  }
+  for (const check of celChecks) {
+    generateCelCheck(f, check);
+  }
+  f.print(closing);
+}
 
-    f.print("});");
+/**
+ * A CEL rule compiled for the object-level refinement
+ */
+interface CelCheck {
+  rule: CelRule;
+  compiled: CompiledCel;
+  /** Path of the violation, relative to the object */
+  path: string[];
+  /** Condition under which the rule is evaluated (fields with explicit presence) */
+  guard?: string;
+}
 
-    // Export inferred type
-    f.print();
-    f.print(`export type ${message.name} = z.infer<typeof ${schemaName}>;`);
+/**
+ * Compiles the field and message CEL rules of a message, adding the helpers and
+ * patterns they use to the file's. Rules outside the supported CEL subset are
+ * reported and skipped
+ */
+function compileCelChecks(message: DescMessage, context: TypeMapperContext, helpers: Set<FormatHelper>): CelCheck[] {
+  const checks: CelCheck[] = [];
+  const { options } = context;
+
+  type CreateEnv = (patterns: PatternTable, helpers: Set<FormatHelper>) => CelEnvironment;
+  const compile = (rule: CelRule, location: string, createEnv: CreateEnv, path: string[], guard?: string) => {
+    // A skipped rule leaves no helper or pattern behind
+    const ruleHelpers = new Set<FormatHelper>(["celErrorMessage"]);
+    const rulePatterns: PatternTable = new Map(context.patterns);
+    try {
+      checks.push({ rule, compiled: compileCelExpression(rule.expression, createEnv(rulePatterns, ruleHelpers)), path, guard });
+      ruleHelpers.forEach((helper) => helpers.add(helper));
+      rulePatterns.forEach((entry, pattern) => context.patterns.set(pattern, entry));
+    } catch (error) {
+      if (!(error instanceof CelUnsupportedError)) {
+        throw error;
+      }
+      console.error(`Warning: Skipping CEL rule "${rule.id}" on ${location}: ${error.message}`);
+    }
+  };
+
+  for (const field of message.fields) {
+    const rules = getFieldCelRules(field);
+    if (rules.length === 0) continue;
+
+    const path = field.oneof && options.oneof !== "properties" ? [toCamelCase(field.oneof.name)] : [toCamelCase(field.name)];
+    const guard = fieldPresenceGuard(field, "v", options, getValidationChain(field, options).ignoreIfZero);
+    const typedRules = getFieldTypedRules(field);
+    for (const rule of rules) {
+      compile(
+        rule,
+        `${message.typeName}.${field.name}`,
+        (patterns, helpers) => createFieldEnvironment(field, "v", options, patterns, helpers, typedRules),
+        path,
+        guard
+      );
+    }
   }
+
+  for (const rule of getMessageCelRules(message)) {
+    compile(rule, message.typeName, (patterns, helpers) => createMessageEnvironment(message, "v", options, patterns, helpers), []);
+  }
+
+  return checks;
 }
 
 /**
- * Infers the TypeScript type for a field (used for recursive type declarations)
+ * Generates the statements reporting a CEL rule violation
+ * A bool result fails when false, a string result is the violation message when non-empty.
+ * An evaluation error is reported as a violation of the rule, so safeParse never throws
  */
-function inferTsType(field: DescField): string {
-  const wrapArray = (inner: string) => field.fieldKind === "list" ? `${inner}[]` : inner;
+function generateCelCheck(f: GeneratedFile, check: CelCheck): void {
+  const { rule, compiled, path, guard } = check;
+  const pathLiteral = `[${path.map((p) => `"${p}"`).join(", ")}]`;
+  // Field rules are reported with their path in the field's rules; as in protovalidate, message rules have none
+  const params = path.length > 0 ? `{ ruleId: "${escapeString(rule.id)}", rule: "${rule.path}" }` : `{ ruleId: "${escapeString(rule.id)}" }`;
+
+  if (rule.id) {
+    f.print(`  // ${rule.id.replace(/\n/g, " ")}`);
+  }
+  const indent = guard ? "    " : "  ";
+  if (guard) {
+    f.print(`  if (${guard}) {`);
+  }
+  f.print(`${indent}try {`);
+  if (compiled.type.kind === "bool") {
+    f.print(`${indent}  if (!${compiled.js}) {`);
+    f.print(`${indent}    ctx.addIssue({ code: "custom", message: "${escapeString(rule.message || rule.id)}", path: ${pathLiteral}, params: ${params} });`);
+    f.print(`${indent}  }`);
+  } else {
+    f.print(`${indent}  const message = ${compiled.js};`);
+    f.print(`${indent}  if (message !== "") {`);
+    f.print(`${indent}    ctx.addIssue({ code: "custom", message, path: ${pathLiteral}, params: ${params} });`);
+    f.print(`${indent}  }`);
+  }
+  f.print(`${indent}} catch (error) {`);
+  f.print(`${indent}  ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: ${pathLiteral}, params: ${params} });`);
+  f.print(`${indent}}`);
+  if (guard) {
+    f.print("  }");
+  }
+}
 
-  if (field.fieldKind === "scalar" || (field.fieldKind === "list" && field.listKind === "scalar")) {
-    const scalarKind = field.fieldKind === "scalar" ? field.scalar : field.scalar;
-    switch (scalarKind) {
-      case 9: return wrapArray("string"); // STRING
-      case 8: return wrapArray("boolean"); // BOOL
-      case 12: return wrapArray("Uint8Array"); // BYTES
-      default: return wrapArray("number"); // All numeric types
+/**
+ * Generates the object entry (or entries) for a oneof group
+ */
+function generateOneofSchema(
+  f: GeneratedFile,
+  oneof: DescOneof,
+  context: TypeMapperContext,
+  cycles: MessageCycles
+): void {
+  // Flattened members are plain optional fields, exclusivity is checked in closeObjectSchema
+  if (context.options.oneof === "properties") {
+    for (const field of oneof.fields) {
+      generateFieldSchema(f, field, context, cycles);
     }
+    return;
   }
 
-  if (field.fieldKind === "enum" || (field.fieldKind === "list" && field.listKind === "enum")) {
-    const enumName = field.enum.name;
-    return wrapArray(enumName);
+  const oneofName = toCamelCase(oneof.name);
+  const caseKey = context.options.oneof === "case" ? "case" : "$case";
+  const variants = oneof.fields.map((field) => {
+    const caseName = toCamelCase(field.name);
+    const valueKey = context.options.oneof === "unions" ? caseName : "value";
+    // A selected member is always present, so its rules apply to the zero value too
+    const valueSchema = buildFieldExpression(field, context, cycles) + describeCall(field);
+    return `z.object({ ${caseKey}: z.literal("${caseName}"), ${valueKey}: ${valueSchema} })`;
+  });
+
+  // protobuf-es always sets the group, to { case: undefined } when no member is selected
+  const isRequired = isOneofRequired(oneof);
+  if (context.options.oneof === "case" && !isRequired) {
+    variants.push("z.object({ case: z.undefined(), value: z.undefined().optional() })");
   }
 
-  if (field.fieldKind === "message" || (field.fieldKind === "list" && field.listKind === "message")) {
-    const msgName = field.message.name;
-    const msgTypeName = field.message.typeName;
+  let zodExpression = `z.discriminatedUnion("${caseKey}", [${variants.join(", ")}])`;
+  if (!isRequired && context.options.oneof !== "case") {
+    zodExpression += ".optional()";
+  }
+  zodExpression += describeCall(oneof);
+
+  printJsDoc(f, "  ", fieldDocLines(oneof));
+
+  f.print(`  ${oneofName}: ${zodExpression},`);
+}
 
-    // Handle well-known types
-    if (msgTypeName === "google.protobuf.Timestamp") {
-      return wrapArray("string"); // Timestamps are serialized as ISO strings
+/**
+ * Generates the TypeScript declaration for a oneof group (used for recursive type declarations)
+ */
+function generateOneofTsType(
+  f: GeneratedFile,
+  oneof: DescOneof,
+  context: TypeMapperContext
+): void {
+  if (context.options.oneof === "properties") {
+    for (const field of oneof.fields) {
+      printJsDoc(f, "  ", fieldDocLines(field));
+      f.print(`  ${toCamelCase(field.name)}?: ${mapFieldToZod(field, context).tsType};`);
     }
+    return;
+  }
 
-    return wrapArray(msgName);
+  const caseKey = context.options.oneof === "case" ? "case" : "$case";
+  const variants = oneof.fields.map((field) => {
+    const caseName = toCamelCase(field.name);
+    const valueKey = context.options.oneof === "unions" ? caseName : "value";
+    return `{ ${caseKey}: "${caseName}"; ${valueKey}: ${mapFieldToZod(field, context).tsType} }`;
+  });
+  const isRequired = isOneofRequired(oneof);
+  if (context.options.oneof === "case" && !isRequired) {
+    variants.push("{ case: undefined; value?: undefined }");
   }
+  const optional = isRequired || context.options.oneof === "case" ? "" : "?";
+  printJsDoc(f, "  ", fieldDocLines(oneof));
+  f.print(`  ${toCamelCase(oneof.name)}${optional}: ${variants.join(" | ")};`);
+}
 
-  if (field.fieldKind === "map") {
-    return "Record<string, unknown>";
+/**
+ * Lines of the JSDoc of a declaration: its leading comment, or the fallback
+ */
+function docLines(desc: Exclude<AnyDesc, DescFile>, fallback?: string): string[] {
+  const comment = getLeadingComment(desc);
+  if (comment) {
+    return comment.replace(/\*\//g, "*\\/").split("\n");
   }
+  return fallback ? [fallback] : [];
+}
 
-  return "unknown";
+/**
+ * Lines of the JSDoc of a field or oneof group
+ */
+function fieldDocLines(desc: DescField | DescOneof): string[] {
+  return [...docLines(desc), ...(desc.deprecated ? ["@deprecated"] : [])];
+}
+
+/**
+ * Prints a JSDoc block, on a single line when it has one line
+ */
+function printJsDoc(f: GeneratedFile, indent: string, lines: string[]): void {
+  if (lines.length === 1) {
+    f.print(`${indent}/** ${lines[0]} */`);
+  } else if (lines.length > 1) {
+    f.print(`${indent}/**`);
+    for (const line of lines) {
+      f.print(line ? `${indent} * ${line}` : `${indent} *`);
+    }
+    f.print(`${indent} */`);
+  }
 }
 
 /**
- * Escapes a regex pattern for use in generated code
+ * `.describe()` call attaching the leading comment of a declaration to its schema
  */
-function escapePattern(pattern: string): string {
-  return pattern.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+function describeCall(desc: Exclude<AnyDesc, DescFile>): string {
+  const comment = getLeadingComment(desc);
+  return comment ? `.describe("${escapeString(comment)}")` : "";
 }
 
 /**
@@ -303,180 +732,279 @@ function generateFieldSchema(
   f: GeneratedFile,
   field: DescField,
   context: TypeMapperContext,
-  recursiveTypes: Set<string>
+  cycles: MessageCycles
 ): void {
   const fieldName = toCamelCase(field.name);
-  const typeInfo = mapFieldToZod(field, context);
-  const validation = getValidationChain(field);
+  const validation = getValidationChain(field, context.options);
 
-  // Determine if field is required early (needed for pattern handling)
   const fieldIsOptional = isFieldOptional(field);
   const fieldIsRequired = isFieldRequired(field) || validation.required;
 
-  // Build the Zod type with validation chain
-  let zodExpression = typeInfo.zodType;
-
-  // Check if this field references a recursive type (including self-reference)
-  if (field.fieldKind === "message" || (field.fieldKind === "list" && field.listKind === "message")) {
-    const refMsgName = field.message.name;
-    if (recursiveTypes.has(refMsgName)) {
-      // Use z.lazy() for references to recursive types
-      const schemaRef = toSchemaName(refMsgName);
-      if (field.fieldKind === "list") {
-        zodExpression = `z.array(z.lazy(() => ${schemaRef}))`;
-      } else {
-        zodExpression = `z.lazy(() => ${schemaRef})`;
-      }
-    }
-  }
+  let zodExpression = buildFieldExpression(field, context, cycles);
 
-  // For list fields, apply item-level constraints from buf.validate
-  if (field.fieldKind === "list" && (validation.itemMethods.length > 0 || validation.itemEnumNotIn.length > 0 || validation.itemStringPattern)) {
-    // Extract the item type from z.array(itemType)
-    const match = zodExpression.match(/^z\.array\((.+)\)$/);
-    if (match) {
-      let itemType = match[1];
+  // Handle optional fields
+  if (fieldIsOptional && !fieldIsRequired) {
+    zodExpression += ".optional()";
+  }
+  zodExpression += describeCall(field);
 
-      // Apply item methods (e.g., .uuid(), .min(), .max())
-      for (const method of validation.itemMethods) {
-        itemType += method;
-      }
+  printJsDoc(f, "  ", fieldDocLines(field));
 
-      // Apply item string pattern - items in arrays should validate if non-empty
-      // (empty strings in arrays are typically not valid items)
-      if (validation.itemStringPattern) {
-        const escapedPattern = escapePattern(validation.itemStringPattern);
-        itemType += `.refine((v) => v === "" || new RegExp("${escapedPattern}").test(v), { message: "Must match pattern: ${escapedPattern}" })`;
-      }
+  f.print(`  ${fieldName}: ${zodExpression},`);
+}
 
-      // Apply enum notIn constraint for items
-      if (validation.itemEnumNotIn.length > 0) {
-        const values = validation.itemEnumNotIn.join(", ");
-        itemType += `.refine((e) => ![${values}].includes(e), { message: "Must not be one of: ${values}" })`;
-      }
+/**
+ * Builds the Zod expression for a field's value, including buf.validate rules
+ * but excluding optionality
+ */
+function buildFieldExpression(
+  field: DescField,
+  context: TypeMapperContext,
+  cycles: MessageCycles
+): string {
+  const typeInfo = mapFieldToZod(field, context);
+  const validation = getValidationChain(field, context.options);
+
+  // Use z.lazy() for references along a cycle (including self-reference), which
+  // may not be initialized yet - in this file or in a module still being loaded
+  // field.message is set for message fields and for lists and maps of messages
+  let messageRef: string | undefined;
+  if (field.message && isCycleEdge(cycles, field.parent, field.message)) {
+    messageRef = `z.lazy(() => ${toSchemaName(toTsTypeName(field.message))})`;
+  }
 
-      zodExpression = `z.array(${itemType})`;
+  let zodExpression: string;
+  if (field.fieldKind === "list") {
+    // Apply item-level constraints from buf.validate
+    let itemType = messageRef ?? typeInfo.itemType!;
+    if (validation.items) {
+      itemType = applyValidationRules(itemType, validation.items, zeroValueSchema(field.listKind === "scalar" ? field.scalar : field.listKind, context.options), context.patterns, field.enum);
+    }
+    zodExpression = `z.array(${itemType})`;
+  } else if (field.fieldKind === "map") {
+    let keyType = typeInfo.mapKeyType!;
+    let valueType = messageRef ?? typeInfo.mapValueType!;
+    if (validation.keys) {
+      keyType = applyValidationRules(keyType, validation.keys, zeroValueSchema(field.mapKey, context.options, true), context.patterns);
     }
+    if (validation.values) {
+      valueType = applyValidationRules(valueType, validation.values, zeroValueSchema(field.mapKind === "scalar" ? field.scalar : field.mapKind, context.options), context.patterns, field.enum);
+    }
+    zodExpression = `${usesMapType(field, context.options) ? "z.map" : "z.record"}(${keyType}, ${valueType})`;
+  } else {
+    zodExpression = messageRef ?? typeInfo.zodType;
   }
 
+  const zeroSchema = usesMapType(field, context.options)
+    ? "z.map(z.never(), z.never())"
+    : zeroValueSchema(field.fieldKind === "scalar" ? field.scalar : field.fieldKind, context.options);
+  return applyValidationRules(zodExpression, validation, zeroSchema, context.patterns, field.enum);
+}
+
+/**
+ * Appends the buf.validate rules of a chain to a Zod expression
+ *
+ * Patterns are tested with the regexes of `patterns`, the empty string included
+ * as protovalidate does. With IGNORE_IF_ZERO_VALUE, the zero value bypasses the
+ * rules through a union. `enumType` is the enum of the values, for defined_only.
+ */
+function applyValidationRules(
+  expression: string,
+  validation: ValidationChain,
+  zeroSchema: string | undefined,
+  patterns: PatternTable,
+  enumType?: DescEnum
+): string {
+  let zodExpression = expression;
+
   // Add validation methods from buf.validate annotations
   for (const method of validation.methods) {
     zodExpression += method;
   }
 
-  // Handle string pattern constraint
-  // If required: use strict .regex()
-  // If optional: use .refine() that allows empty strings (Proto3 default value)
-  if (validation.stringPattern) {
-    const escapedPattern = escapePattern(validation.stringPattern);
-    if (fieldIsRequired) {
-      zodExpression += `.regex(new RegExp("${escapedPattern}"))`;
-    } else {
-      zodExpression += `.refine((v) => v === "" || new RegExp("${escapedPattern}").test(v), { message: "Must match pattern: ${escapedPattern}" })`;
-    }
-  }
+  // Patterns JavaScript cannot match have no regex, and were reported by collectPatterns
+  const patternRefinement = (rule: string, pattern: string | undefined, predicate: (regex: string) => string) => {
+    const regex = pattern === undefined ? undefined : patterns.get(pattern);
+    return pattern === undefined || !regex ? "" : ruleRefinement(validation, rule, predicate(regex.name), `Must match pattern: ${escapeString(pattern)}`);
+  };
+  zodExpression += patternRefinement("string.pattern", validation.stringPattern, (regex) => `(v) => ${regex}.test(v)`);
+  zodExpression += patternRefinement("bytes.pattern", validation.bytesPattern, (regex) => `(b) => matchesUtf8(b, ${regex})`);
 
   // Handle enum defined_only constraint
-  if (validation.enumDefinedOnly && field.fieldKind === "enum") {
-    zodExpression += `.refine((v) => v !== 0, "Value is required")`;
+  // Values missing from the enum (ts-proto's UNRECOGNIZED is -1) fail, the zero value is left to required
+  if (validation.enumDefinedOnly && enumType) {
+    const values = getDefinedEnumValues(enumType).join(", ");
+    zodExpression += ruleRefinement(validation, "enum.defined_only", `(v) => [${values}].includes(v)`, "Must be a defined enum value");
   }
 
-  // Handle optional fields
-  if (fieldIsOptional && !fieldIsRequired) {
-    zodExpression += ".optional()";
+  if (validation.ignoreIfZero && zeroSchema && zodExpression !== expression) {
+    zodExpression = `z.union([${zeroSchema}, ${zodExpression}])`;
   }
 
-  // Add field comment if deprecated
-  if (field.deprecated) {
-    f.print(`  /** @deprecated */`);
-  }
-
-  f.print(`  ${fieldName}: ${zodExpression},`);
+  return zodExpression;
 }
 
 /**
- * Analyzes message dependencies and returns sorted list plus recursive types
+ * Zod schema accepting only the zero value of a field kind or scalar type
+ * Mismatches abort, so a union with the ruled schema reports the rule's issues.
+ * Messages have no zero value besides being unset.
  */
-interface DependencyAnalysis {
-  sortedMessages: DescMessage[];
-  recursiveTypes: Set<string>;
+function zeroValueSchema(
+  kind: ScalarType | "enum" | "message" | "list" | "map",
+  options: PluginOptions,
+  isMapKey = false
+): string | undefined {
+  switch (kind) {
+    case "message":
+      return undefined;
+    case "list":
+      return "z.array(z.never())";
+    case "map":
+      return "z.record(z.string(), z.never())";
+    case "enum":
+      return "z.literal(0)";
+    case ScalarType.STRING:
+      return 'z.literal("")';
+    case ScalarType.BOOL:
+      return "z.literal(false)";
+    case ScalarType.BYTES:
+      return "z.instanceof(Uint8Array).refine((b) => b.length === 0, { abort: true })";
+    case ScalarType.INT64:
+    case ScalarType.UINT64:
+    case ScalarType.SINT64:
+    case ScalarType.FIXED64:
+    case ScalarType.SFIXED64:
+      // protobuf-es map keys are strings, other 64-bit integers follow forceLong
+      if (isMapKey && options.runtime === "protobuf-es") {
+        return 'z.literal("0")';
+      }
+      switch (options.forceLong) {
+        case "string":
+          return 'z.literal("0")';
+        case "number":
+          return "z.literal(0)";
+        case "long":
+          return 'z.custom<Long>((v) => Long.isLong(v) && v.isZero(), { abort: true })';
+        case "bigint":
+          return "z.literal(0n)";
+      }
+    default:
+      return "z.literal(0)";
+  }
 }
 
-function analyzeMessageDependencies(
-  messages: readonly DescMessage[],
-  currentProtoPath: string
-): DependencyAnalysis {
-  const messageNames = new Set(messages.map((m) => m.name));
-  // Map: message name -> messages it depends on (references)
-  const dependencies = new Map<string, Set<string>>();
-  const recursiveTypes = new Set<string>();
-
-  // Initialize dependencies
-  for (const msg of messages) {
-    dependencies.set(msg.name, new Set());
-  }
+/**
+ * Messages on a reference cycle, mapped to the id of their strongly connected
+ * component. Messages that are not on a cycle are absent.
+ */
+type MessageCycles = Map<string, number>;
 
-  // Build dependency graph (for messages in the same file)
-  for (const msg of messages) {
-    for (const field of msg.fields) {
-      if (field.fieldKind === "message") {
-        const refMsgName = field.message.name;
-        if (messageNames.has(refMsgName) && field.message.file.name === currentProtoPath) {
-          // msg depends on refMsgName (msg references refMsgName)
-          dependencies.get(msg.name)!.add(refMsgName);
-
-          // Check for self-reference (recursive type)
-          if (refMsgName === msg.name) {
-            recursiveTypes.add(msg.name);
-          }
-        }
-      } else if (field.fieldKind === "list" && field.listKind === "message") {
-        const refMsgName = field.message.name;
-        if (messageNames.has(refMsgName) && field.message.file.name === currentProtoPath) {
-          dependencies.get(msg.name)!.add(refMsgName);
-
-          if (refMsgName === msg.name) {
-            recursiveTypes.add(msg.name);
-          }
-        }
+/**
+ * Finds the messages on reference cycles (Tarjan's algorithm)
+ *
+ * A reference from one message to another in the same component is a cycle
+ * edge: the referenced schema may not be initialized yet, so it gets z.lazy(),
+ * and the messages get explicit type annotations.
+ */
+function findMessageCycles(messages: readonly DescMessage[]): MessageCycles {
+  const known = new Set(messages.map((m) => m.typeName));
+  const cycles: MessageCycles = new Map();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  let componentId = 0;
+
+  const references = (msg: DescMessage): string[] =>
+    msg.fields
+      .map((field) => field.message?.typeName)
+      .filter((name): name is string => name !== undefined && known.has(name));
+  const byName = new Map(messages.map((m) => [m.typeName, m]));
+
+  const visit = (name: string): void => {
+    index.set(name, index.size);
+    lowLink.set(name, index.get(name)!);
+    stack.push(name);
+    onStack.add(name);
+
+    const refs = references(byName.get(name)!);
+    for (const ref of refs) {
+      if (!index.has(ref)) {
+        visit(ref);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(ref)!));
+      } else if (onStack.has(ref)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(ref)!));
       }
     }
-  }
 
-  // Detect cycles (multi-step recursion)
-  for (const msgName of messageNames) {
-    if (hasCycle(msgName, dependencies, new Set())) {
-      recursiveTypes.add(msgName);
+    if (lowLink.get(name) !== index.get(name)) {
+      return;
     }
-  }
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== name);
+
+    // A single message is only on a cycle if it references itself
+    if (component.length > 1 || refs.includes(name)) {
+      for (const m of component) {
+        cycles.set(m, componentId);
+      }
+    }
+    componentId++;
+  };
 
-  // Kahn's algorithm - remove self-loops for sorting purposes
-  const inDegree = new Map<string, number>();
   for (const msg of messages) {
-    inDegree.set(msg.name, 0);
+    if (!index.has(msg.typeName)) {
+      visit(msg.typeName);
+    }
   }
+  return cycles;
+}
+
+/**
+ * Whether a reference from one message to another closes a cycle
+ */
+function isCycleEdge(cycles: MessageCycles, from: DescMessage, to: DescMessage): boolean {
+  const component = cycles.get(from.typeName);
+  return component !== undefined && component === cycles.get(to.typeName);
+}
 
-  for (const [msgName, deps] of dependencies) {
-    for (const dep of deps) {
-      if (dep !== msgName && !recursiveTypes.has(dep)) {
-        // Don't count self-references or references to recursive types
-        inDegree.set(dep, (inDegree.get(dep) ?? 0) + 1);
+/**
+ * Sorts the messages of a file so that schemas are declared before they are
+ * referenced. Cycle edges are lazy and do not constrain the order.
+ */
+function sortMessagesByDependencies(
+  messages: readonly DescMessage[],
+  cycles: MessageCycles
+): DescMessage[] {
+  const messageNames = new Set(messages.map((m) => m.typeName));
+  // Map: message name -> messages it depends on (references)
+  const dependencies = new Map<string, Set<string>>();
+
+  // Build dependency graph (for messages in the same file)
+  for (const msg of messages) {
+    const deps = new Set<string>();
+    for (const field of msg.fields) {
+      const refMsg = field.message;
+      if (refMsg && messageNames.has(refMsg.typeName) && !isCycleEdge(cycles, msg, refMsg)) {
+        deps.add(refMsg.typeName);
       }
     }
+    dependencies.set(msg.typeName, deps);
   }
 
-  // Start with messages that are not referenced by others (leaves)
-  // Actually we need the opposite - start with messages that don't depend on others
+  // Kahn's algorithm - start with messages that don't depend on others
   const result: DescMessage[] = [];
   const visited = new Set<string>();
   const queue: string[] = [];
 
-  // Find messages with no dependencies (except self-refs and recursive)
   for (const msg of messages) {
-    const deps = dependencies.get(msg.name)!;
-    const nonSelfDeps = Array.from(deps).filter(d => d !== msg.name && !recursiveTypes.has(d));
-    if (nonSelfDeps.length === 0) {
-      queue.push(msg.name);
+    if (dependencies.get(msg.typeName)!.size === 0) {
+      queue.push(msg.typeName);
     }
   }
 
@@ -485,49 +1013,17 @@ function analyzeMessageDependencies(
     if (visited.has(name)) continue;
     visited.add(name);
 
-    const msg = messages.find((m) => m.name === name)!;
+    const msg = messages.find((m) => m.typeName === name)!;
     result.push(msg);
 
     // Find messages that depend on this one and now have all deps satisfied
     for (const [otherName, deps] of dependencies) {
       if (visited.has(otherName)) continue;
-      if (deps.has(name)) {
-        // Check if all non-recursive deps are now satisfied
-        const nonSelfDeps = Array.from(deps).filter(d => d !== otherName && !recursiveTypes.has(d));
-        if (nonSelfDeps.every(d => visited.has(d))) {
-          queue.push(otherName);
-        }
+      if (deps.has(name) && Array.from(deps).every((d) => visited.has(d))) {
+        queue.push(otherName);
       }
     }
   }
 
-  // Append any remaining (circular dependencies handled by z.lazy)
-  for (const msg of messages) {
-    if (!result.includes(msg)) {
-      result.push(msg);
-    }
-  }
-
-  return { sortedMessages: result, recursiveTypes };
-}
-
-/**
- * Checks if there's a cycle starting from the given node
- */
-function hasCycle(
-  node: string,
-  dependencies: Map<string, Set<string>>,
-  visiting: Set<string>
-): boolean {
-  if (visiting.has(node)) return true;
-  visiting.add(node);
-
-  for (const dep of dependencies.get(node) ?? []) {
-    if (hasCycle(dep, dependencies, visiting)) {
-      return true;
-    }
-  }
-
-  visiting.delete(node);
-  return false;
+  return result;
 }
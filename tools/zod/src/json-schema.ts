@@ -0,0 +1,504 @@
+/**
+ * Generates JSON Schema (draft 2020-12) from proto messages
+ *
+ * The schemas describe the proto3 JSON mapping of a message, the form shared
+ * with other languages and the registry, rather than the ts-proto objects the
+ * Zod schemas validate: lowerCamelCase JSON names, 64-bit integers as decimal
+ * strings, enums by name, bytes as base64 and Timestamps as RFC 3339 strings.
+ * The buf.validate rules that JSON Schema can express are carried over, the
+ * others (CEL, 64-bit ranges, Timestamp and Duration bounds, ...) are left to
+ * the Zod schemas.
+ *
+ * Each message schema is self-contained: the messages and enums it references
+ * are in its `$defs`, keyed by their full name, and references to the message
+ * itself point to the root ("#").
+ */
+
+import type { GeneratedFile, Schema } from "@bufbuild/protoplugin";
+import type { DescEnum, DescField, DescFile, DescMessage, DescOneof } from "@bufbuild/protobuf";
+import { ScalarType } from "@bufbuild/protobuf";
+import type { PluginOptions } from "./generator.js";
+import { isInt64 } from "./type-mapper.js";
+import { getFieldRules, isFieldRequired, isOneofRequired, IGNORE_IF_ZERO_VALUE, type FieldRules } from "./validation-mapper.js";
+import { getLeadingComment, toTsTypeName } from "./utils.js";
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+interface SchemaContext {
+  /** Message the schema is built for, referenced as "#" */
+  root: DescMessage;
+  /** Referenced messages and enums, by full name */
+  defs: Map<string, JsonSchema>;
+}
+
+/**
+ * Generates the JSON Schema file for the messages of a proto file
+ */
+export function generateJsonSchemaFile(
+  schema: Schema<PluginOptions>,
+  file: DescFile,
+  messages: readonly DescMessage[]
+): void {
+  if (messages.length === 0) {
+    return;
+  }
+
+  if (schema.options.jsonSchema === "json") {
+    const bundle = Object.fromEntries(messages.map((message) => [message.typeName, buildMessageJsonSchema(message)]));
+    schema.generateFile(`${file.name}_schema.json`).print(JSON.stringify(bundle, null, 2));
+    return;
+  }
+
+  const f = schema.generateFile(`${file.name}_jsonschema.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  for (const message of messages) {
+    printJsonSchemaConstant(f, message);
+  }
+}
+
+function printJsonSchemaConstant(f: GeneratedFile, message: DescMessage): void {
+  f.print();
+  f.print("/**");
+  f.print(` * JSON Schema for ${toTsTypeName(message)}`);
+  f.print(` * @generated from message ${message.typeName}`);
+  f.print(" */");
+  f.print(`export const ${toTsTypeName(message)}JsonSchema = ${JSON.stringify(buildMessageJsonSchema(message), null, 2)} as const;`);
+}
+
+/**
+ * Builds the self-contained JSON Schema of a message
+ */
+export function buildMessageJsonSchema(message: DescMessage): JsonSchema {
+  const context: SchemaContext = { root: message, defs: new Map() };
+  const root = messageObjectSchema(message, context);
+  const defs = Array.from(context.defs).sort(([a], [b]) => a.localeCompare(b));
+  return {
+    $schema: DRAFT_2020_12,
+    ...root,
+    ...(defs.length > 0 ? { $defs: Object.fromEntries(defs) } : {}),
+  };
+}
+
+function messageObjectSchema(message: DescMessage, context: SchemaContext): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const field of message.fields) {
+    properties[field.jsonName] = fieldSchema(field, context);
+    if (isFieldRequired(field)) {
+      required.push(field.jsonName);
+    }
+  }
+
+  // Oneof members are flattened in JSON, at most one of them may be set
+  const oneofs = message.oneofs.map(oneofSchema).filter((s): s is JsonSchema => s !== undefined);
+
+  return {
+    title: message.name,
+    ...describe(message),
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    ...(oneofs.length === 1 ? oneofs[0] : oneofs.length > 1 ? { allOf: oneofs } : {}),
+    additionalProperties: false,
+  };
+}
+
+function oneofSchema(oneof: DescOneof): JsonSchema | undefined {
+  const names = oneof.fields.map((field) => field.jsonName);
+  const members = names.map((name) => ({ required: [name] }));
+  if (isOneofRequired(oneof)) {
+    return { oneOf: members };
+  }
+  if (names.length < 2) {
+    return undefined;
+  }
+  return { oneOf: [...members, { not: { anyOf: members } }] };
+}
+
+function fieldSchema(field: DescField, context: SchemaContext): JsonSchema {
+  const rules = getFieldRules(field);
+  let schema: JsonSchema;
+  switch (field.fieldKind) {
+    case "list": {
+      const items = withRules(
+        valueSchema(field.listKind, field, context),
+        rules?.type?.case === "repeated" ? (rules.type.value as { items?: FieldRules }).items : undefined,
+        field.listKind === "scalar" ? field.scalar : field.listKind,
+        field.enum
+      );
+      schema = withRules({ type: "array", items }, rules, "list", undefined);
+      break;
+    }
+    case "map": {
+      const mapRules = rules?.type?.case === "map" ? rules.type.value as { keys?: FieldRules; values?: FieldRules } : undefined;
+      const propertyNames = withRules(mapKeySchema(field.mapKey), mapRules?.keys, field.mapKey, undefined);
+      const values = withRules(
+        valueSchema(field.mapKind, field, context),
+        mapRules?.values,
+        field.mapKind === "scalar" ? field.scalar : field.mapKind,
+        field.enum
+      );
+      schema = withRules({ type: "object", propertyNames, additionalProperties: values }, rules, "map", undefined);
+      break;
+    }
+    default:
+      schema = withRules(
+        valueSchema(field.fieldKind, field, context),
+        rules,
+        field.fieldKind === "scalar" ? field.scalar : field.fieldKind,
+        field.enum
+      );
+  }
+  return {
+    ...schema,
+    ...describe(field),
+    ...(field.deprecated ? { deprecated: true } : {}),
+  };
+}
+
+/**
+ * Schema of a single value of a field (an item of a list, a value of a map)
+ */
+function valueSchema(kind: "scalar" | "enum" | "message", field: DescField, context: SchemaContext): JsonSchema {
+  if (kind === "scalar" && field.scalar !== undefined) {
+    return scalarSchema(field.scalar);
+  }
+  if (kind === "enum" && field.enum) {
+    return enumRef(field.enum, context);
+  }
+  if (kind === "message" && field.message) {
+    return messageRef(field.message, context);
+  }
+  return {};
+}
+
+function scalarSchema(scalar: ScalarType): JsonSchema {
+  switch (scalar) {
+    case ScalarType.STRING:
+      return { type: "string" };
+    case ScalarType.BOOL:
+      return { type: "boolean" };
+    case ScalarType.BYTES:
+      return { type: "string", contentEncoding: "base64" };
+    case ScalarType.FLOAT:
+    case ScalarType.DOUBLE:
+      return { type: "number" };
+    case ScalarType.INT32:
+    case ScalarType.SINT32:
+    case ScalarType.SFIXED32:
+      return { type: "integer", minimum: -2147483648, maximum: 2147483647 };
+    case ScalarType.UINT32:
+    case ScalarType.FIXED32:
+      return { type: "integer", minimum: 0, maximum: 4294967295 };
+    case ScalarType.UINT64:
+    case ScalarType.FIXED64:
+      return { type: "string", pattern: "^[0-9]+$" };
+    default:
+      return { type: "string", pattern: "^-?[0-9]+$" };
+  }
+}
+
+/**
+ * JSON object keys are strings, integer and bool keys are written as such
+ */
+function mapKeySchema(scalar: ScalarType): JsonSchema {
+  switch (scalar) {
+    case ScalarType.STRING:
+      return { type: "string" };
+    case ScalarType.BOOL:
+      return { enum: ["true", "false"] };
+    case ScalarType.UINT32:
+    case ScalarType.FIXED32:
+    case ScalarType.UINT64:
+    case ScalarType.FIXED64:
+      return { type: "string", pattern: "^[0-9]+$" };
+    default:
+      return { type: "string", pattern: "^-?[0-9]+$" };
+  }
+}
+
+function messageRef(message: DescMessage, context: SchemaContext): JsonSchema {
+  const wellKnown = wellKnownSchema(message);
+  if (wellKnown) {
+    return wellKnown;
+  }
+  if (message === context.root) {
+    return { $ref: "#" };
+  }
+  if (!context.defs.has(message.typeName)) {
+    // Registered before it is built, for cycles
+    context.defs.set(message.typeName, {});
+    context.defs.set(message.typeName, messageObjectSchema(message, context));
+  }
+  return { $ref: `#/$defs/${message.typeName}` };
+}
+
+function enumRef(enumDesc: DescEnum, context: SchemaContext): JsonSchema {
+  // NullValue is written as null
+  if (enumDesc.typeName === "google.protobuf.NullValue") {
+    return { type: "null" };
+  }
+  if (!context.defs.has(enumDesc.typeName)) {
+    context.defs.set(enumDesc.typeName, {
+      title: enumDesc.name,
+      ...describe(enumDesc),
+      type: "string",
+      enum: enumDesc.values.map((value) => value.name),
+    });
+  }
+  return { $ref: `#/$defs/${enumDesc.typeName}` };
+}
+
+/**
+ * Well-known types have a special JSON mapping
+ */
+function wellKnownSchema(message: DescMessage): JsonSchema | undefined {
+  switch (message.typeName) {
+    case "google.protobuf.Timestamp":
+      return { type: "string", format: "date-time" };
+    case "google.protobuf.Duration":
+      return { type: "string", pattern: "^-?[0-9]+(\\.[0-9]{1,9})?s$" };
+    case "google.protobuf.FieldMask":
+      return { type: "string" };
+    case "google.protobuf.Struct":
+      return { type: "object" };
+    case "google.protobuf.ListValue":
+      return { type: "array" };
+    case "google.protobuf.Value":
+      return {};
+    case "google.protobuf.Empty":
+      return { type: "object", maxProperties: 0 };
+    case "google.protobuf.Any":
+      return { type: "object", properties: { "@type": { type: "string" } }, required: ["@type"] };
+    case "google.protobuf.StringValue":
+      return scalarSchema(ScalarType.STRING);
+    case "google.protobuf.BytesValue":
+      return scalarSchema(ScalarType.BYTES);
+    case "google.protobuf.BoolValue":
+      return scalarSchema(ScalarType.BOOL);
+    case "google.protobuf.FloatValue":
+    case "google.protobuf.DoubleValue":
+      return scalarSchema(ScalarType.DOUBLE);
+    case "google.protobuf.Int32Value":
+      return scalarSchema(ScalarType.INT32);
+    case "google.protobuf.UInt32Value":
+      return scalarSchema(ScalarType.UINT32);
+    case "google.protobuf.Int64Value":
+      return scalarSchema(ScalarType.INT64);
+    case "google.protobuf.UInt64Value":
+      return scalarSchema(ScalarType.UINT64);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Adds the keywords for the buf.validate rules of a value
+ *
+ * As in the Zod schemas, with IGNORE_IF_ZERO_VALUE the zero value is accepted
+ * as an alternative.
+ */
+function withRules(
+  schema: JsonSchema,
+  rules: FieldRules | undefined,
+  kind: ScalarType | "enum" | "message" | "list" | "map",
+  enumDesc: DescEnum | undefined
+): JsonSchema {
+  const keywords = rules?.type ? ruleKeywords(rules.type.case, rules.type.value, enumDesc) : {};
+  if (Object.keys(keywords).length === 0) {
+    return schema;
+  }
+  // Keywords of the value schema are kept, unless a rule narrows them (e.g. minimum)
+  const ruled = { ...schema, ...keywords };
+  const zero = zeroValueSchema(kind, enumDesc);
+  return rules?.ignore === IGNORE_IF_ZERO_VALUE && zero ? { anyOf: [zero, ruled] } : ruled;
+}
+
+function ruleKeywords(ruleCase: string | undefined, value: unknown, enumDesc: DescEnum | undefined): JsonSchema {
+  const r = value as any;
+  switch (ruleCase) {
+    case "string":
+      return stringKeywords(r);
+    case "int32":
+    case "uint32":
+    case "sint32":
+    case "fixed32":
+    case "sfixed32":
+    case "float":
+    case "double":
+      return numericKeywords(r);
+    case "int64":
+    case "uint64":
+    case "sint64":
+    case "fixed64":
+    case "sfixed64":
+      // Decimal strings: only the sets of values can be expressed
+      return setKeywords(r, (v) => String(v));
+    case "bool":
+      return r.const ? { const: true } : {};
+    case "enum": {
+      const names = (numbers: number[]) => numbers
+        .map((n) => enumDesc?.values.find((v) => v.number === n)?.name)
+        .filter((name): name is string => name !== undefined);
+      const keywords: JsonSchema = {};
+      if (r.const !== undefined && r.const !== 0) {
+        keywords.const = names([r.const])[0];
+      }
+      if (r.in?.length > 0) {
+        keywords.enum = names(r.in);
+      }
+      if (r.notIn?.length > 0) {
+        keywords.not = { enum: names(r.notIn) };
+      }
+      return keywords;
+    }
+    case "repeated": {
+      const keywords: JsonSchema = {};
+      if (r.minItems > 0n) {
+        keywords.minItems = Number(r.minItems);
+      }
+      if (r.maxItems > 0n) {
+        keywords.maxItems = Number(r.maxItems);
+      }
+      if (r.unique) {
+        keywords.uniqueItems = true;
+      }
+      return keywords;
+    }
+    case "map": {
+      const keywords: JsonSchema = {};
+      if (r.minPairs > 0n) {
+        keywords.minProperties = Number(r.minPairs);
+      }
+      if (r.maxPairs > 0n) {
+        keywords.maxProperties = Number(r.maxPairs);
+      }
+      return keywords;
+    }
+    default:
+      return {};
+  }
+}
+
+function stringKeywords(r: any): JsonSchema {
+  const keywords: JsonSchema = {};
+  if (r.const) {
+    keywords.const = r.const;
+  }
+  if (r.len > 0n) {
+    keywords.minLength = Number(r.len);
+    keywords.maxLength = Number(r.len);
+  }
+  if (r.minLen > 0n) {
+    keywords.minLength = Number(r.minLen);
+  }
+  if (r.maxLen > 0n) {
+    keywords.maxLength = Number(r.maxLen);
+  }
+
+  const patterns: string[] = [];
+  if (r.pattern) {
+    patterns.push(r.pattern);
+  }
+  if (r.prefix) {
+    patterns.push(`^${escapeRegExp(r.prefix)}`);
+  }
+  if (r.suffix) {
+    patterns.push(`${escapeRegExp(r.suffix)}$`);
+  }
+  if (r.contains) {
+    patterns.push(escapeRegExp(r.contains));
+  }
+  if (patterns.length > 0) {
+    keywords.pattern = patterns[0];
+  }
+  if (patterns.length > 1) {
+    keywords.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+  }
+
+  Object.assign(keywords, setKeywords(r, (v) => v));
+
+  const format = r.wellKnown?.value ? STRING_FORMATS[r.wellKnown.case] : undefined;
+  if (format) {
+    keywords.format = format;
+  }
+  return keywords;
+}
+
+/**
+ * JSON Schema formats of the buf.validate well-known string rules
+ */
+const STRING_FORMATS: Record<string, string> = {
+  email: "email",
+  hostname: "hostname",
+  ipv4: "ipv4",
+  ipv6: "ipv6",
+  uri: "uri",
+  uriRef: "uri-reference",
+  uuid: "uuid",
+};
+
+function numericKeywords(r: any): JsonSchema {
+  const keywords: JsonSchema = {};
+  const lower = r.greaterThan?.case ? { case: r.greaterThan.case as string, value: Number(r.greaterThan.value) } : undefined;
+  const upper = r.lessThan?.case ? { case: r.lessThan.case as string, value: Number(r.lessThan.value) } : undefined;
+  // Exclusive ranges (upper bound below the lower bound) are left to the Zod schemas
+  if (!(lower && upper && upper.value < lower.value)) {
+    if (lower) {
+      keywords[lower.case === "gt" ? "exclusiveMinimum" : "minimum"] = lower.value;
+    }
+    if (upper) {
+      keywords[upper.case === "lt" ? "exclusiveMaximum" : "maximum"] = upper.value;
+    }
+  }
+  if (r.const !== undefined && Number(r.const) !== 0) {
+    keywords.const = Number(r.const);
+  }
+  return { ...keywords, ...setKeywords(r, (v) => Number(v)) };
+}
+
+function setKeywords(r: any, convert: (value: any) => unknown): JsonSchema {
+  const keywords: JsonSchema = {};
+  if (r.in?.length > 0) {
+    keywords.enum = r.in.map(convert);
+  }
+  if (r.notIn?.length > 0) {
+    keywords.not = { enum: r.notIn.map(convert) };
+  }
+  return keywords;
+}
+
+function zeroValueSchema(kind: ScalarType | "enum" | "message" | "list" | "map", enumDesc?: DescEnum): JsonSchema | undefined {
+  switch (kind) {
+    case "message":
+      return undefined;
+    case "list":
+      return { type: "array", maxItems: 0 };
+    case "map":
+      return { type: "object", maxProperties: 0 };
+    case "enum":
+      return { const: enumDesc?.values.find((v) => v.number === 0)?.name };
+    case ScalarType.STRING:
+    case ScalarType.BYTES:
+      return { const: "" };
+    case ScalarType.BOOL:
+      return { const: false };
+    default:
+      return isInt64(kind) ? { const: "0" } : { const: 0 };
+  }
+}
+
+/**
+ * Description from the leading comments of a declaration
+ */
+function describe(desc: DescMessage | DescField | DescEnum): JsonSchema {
+  const comment = getLeadingComment(desc);
+  return comment ? { description: comment } : {};
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
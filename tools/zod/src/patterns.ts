@@ -0,0 +1,254 @@
+/**
+ * Translates the RE2 patterns of buf.validate rules into JavaScript regexes
+ *
+ * protovalidate matches `pattern` rules and the CEL matches() function with
+ * RE2. Inline flags at the start of a pattern, e.g. (?i), become JavaScript
+ * flags, and the RE2 syntax JavaScript reads differently is rewritten. Syntax
+ * with no JavaScript equivalent throws a PatternUnsupportedError: without the
+ * u flag, JavaScript would read an escape such as \z as the letter itself.
+ *
+ * Generated files declare each regex once, at module scope, under the name
+ * given by a PatternTable.
+ */
+
+import type { GeneratedFile } from "@bufbuild/protoplugin";
+
+/**
+ * Thrown for patterns outside the RE2 syntax JavaScript can match
+ */
+export class PatternUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatternUnsupportedError";
+  }
+}
+
+/**
+ * Names of the regex constants of a generated file, by pattern
+ */
+export type PatternTable = Map<string, { name: string; regex: RegExp }>;
+
+// RE2 flags with a JavaScript equivalent; U (ungreedy) has none
+const FLAGS = ["i", "m", "s"];
+
+// ASCII classes of RE2, as the contents of a JavaScript character class
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "0-9A-Za-z",
+  alpha: "A-Za-z",
+  ascii: "\\x00-\\x7F",
+  blank: "\\t ",
+  cntrl: "\\x00-\\x1F\\x7F",
+  digit: "0-9",
+  graph: "!-~",
+  lower: "a-z",
+  print: " -~",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: "\\t\\n\\v\\f\\r ",
+  upper: "A-Z",
+  word: "0-9A-Za-z_",
+  xdigit: "0-9A-Fa-f",
+};
+
+/**
+ * Compiles an RE2 pattern into the JavaScript regex matching the same strings
+ */
+export function toRegExp(pattern: string): RegExp {
+  let rest = pattern;
+  let flags = "";
+  // Flags set at the start apply to the whole pattern, as JavaScript flags do
+  for (let match = /^\(\?([A-Za-z]+)\)/.exec(rest); match; match = /^\(\?([A-Za-z]+)\)/.exec(rest)) {
+    for (const flag of match[1]) {
+      if (!FLAGS.includes(flag)) {
+        throw new PatternUnsupportedError(`flag "${flag}" is not supported`);
+      }
+      if (!flags.includes(flag)) {
+        flags += flag;
+      }
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  const source = translate(rest, flags.includes("s"));
+  try {
+    return new RegExp(source, [...flags].sort().join(""));
+  } catch (error) {
+    throw new PatternUnsupportedError((error as Error).message);
+  }
+}
+
+/**
+ * Returns the name of the constant holding the regex of a pattern, adding it to the table
+ */
+export function patternConstant(table: PatternTable, pattern: string): string {
+  let entry = table.get(pattern);
+  if (!entry) {
+    entry = { name: `PATTERN_${table.size + 1}`, regex: toRegExp(pattern) };
+    table.set(pattern, entry);
+  }
+  return entry.name;
+}
+
+/**
+ * Prints the declarations of the regex constants of a table
+ */
+export function printPatternConstants(f: GeneratedFile, table: PatternTable): void {
+  if (table.size === 0) {
+    return;
+  }
+  for (const [pattern, { name, regex }] of table) {
+    f.print(`/** ${pattern.replace(/\*\//g, "*\\/")} */`);
+    f.print(`const ${name} = /${regex.source}/${regex.flags};`);
+  }
+  f.print();
+}
+
+/**
+ * Rewrites the RE2 syntax of a pattern (its leading flags removed) for JavaScript
+ */
+function translate(pattern: string, dotAll: boolean): string {
+  let out = "";
+  // Index of the first character of the current class, -1 outside classes
+  let classStart = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const inClass = classStart !== -1;
+
+    if (ch === "\\") {
+      const next = pattern[i + 1];
+      if (next === undefined) {
+        throw new PatternUnsupportedError("trailing backslash");
+      }
+      if (next === "Q") {
+        // \Q...\E quotes the text up to \E, or to the end
+        const end = pattern.indexOf("\\E", i + 2);
+        const text = pattern.slice(i + 2, end === -1 ? undefined : end);
+        out += text.replace(/[\\^$.*+?()[\]{}|/-]/g, "\\$&");
+        i = end === -1 ? pattern.length : end + 1;
+        continue;
+      }
+      const [escape, length] = translateEscape(pattern, i, inClass);
+      out += escape;
+      i += length - 1;
+      continue;
+    }
+
+    if (inClass) {
+      if (ch === "]" && i > classStart) {
+        classStart = -1;
+        out += ch;
+      } else if (ch === "]") {
+        // A ] first in the class is a literal in RE2, an empty class in JavaScript
+        out += "\\]";
+      } else if (ch === "[" && pattern[i + 1] === ":") {
+        const match = /^\[:(\^?)([a-z]+):\]/.exec(pattern.slice(i));
+        if (!match || !(match[2] in POSIX_CLASSES)) {
+          throw new PatternUnsupportedError(`invalid character class at ${i}`);
+        }
+        if (match[1]) {
+          throw new PatternUnsupportedError(`negated class [:^${match[2]}:] is not supported`);
+        }
+        out += POSIX_CLASSES[match[2]];
+        i += match[0].length - 1;
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === "[") {
+      out += pattern[i + 1] === "^" ? "[^" : "[";
+      i += pattern[i + 1] === "^" ? 1 : 0;
+      classStart = i + 1;
+    } else if (ch === "(" && pattern[i + 1] === "?") {
+      out += translateGroup(pattern, i);
+      i += pattern.startsWith("(?P<", i) ? 2 : 1;
+    } else if (ch === "." && !dotAll) {
+      // RE2 dots match anything but \n, JavaScript dots also exclude \r, \u2028 and \u2029
+      out += "[^\\n]";
+    } else {
+      out += ch;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Translates the `(?` opening a group: non-capturing and named groups only
+ */
+function translateGroup(pattern: string, pos: number): string {
+  if (pattern.startsWith("(?:", pos)) {
+    return "(?";
+  }
+  if (pattern.startsWith("(?P<", pos)) {
+    return "(?";
+  }
+  if (/^\(\?<[A-Za-z_]/.test(pattern.slice(pos))) {
+    return "(?";
+  }
+  if (/^\(\?[A-Za-z-]+[:)]/.test(pattern.slice(pos))) {
+    throw new PatternUnsupportedError(`inline flags are only supported at the start of the pattern (at ${pos})`);
+  }
+  throw new PatternUnsupportedError(`unsupported group syntax at ${pos}`);
+}
+
+/**
+ * Translates the escape at `pos`, returning its JavaScript form and the consumed length
+ */
+function translateEscape(pattern: string, pos: number, inClass: boolean): [string, number] {
+  const next = pattern[pos + 1];
+  if (!/[A-Za-z0-9]/.test(next)) {
+    // Escaped punctuation is the character itself in both syntaxes
+    return [`\\${next}`, 2];
+  }
+  switch (next) {
+    case "d":
+    case "D":
+    case "s":
+    case "S":
+    case "w":
+    case "W":
+    case "f":
+    case "n":
+    case "r":
+    case "t":
+    case "v":
+      return [`\\${next}`, 2];
+    case "b":
+    case "B":
+      // Inside a JavaScript class, \b is a backspace
+      if (inClass) {
+        throw new PatternUnsupportedError(`\\${next} is not allowed in a class (at ${pos})`);
+      }
+      return [`\\${next}`, 2];
+    case "a":
+      return ["\\x07", 2];
+    case "A":
+    case "z":
+      if (inClass) {
+        throw new PatternUnsupportedError(`\\${next} is not allowed in a class (at ${pos})`);
+      }
+      // Start and end of the text, whatever the m flag
+      return [next === "A" ? "(?<![\\s\\S])" : "(?![\\s\\S])", 2];
+    case "x": {
+      const braced = /^\\x\{([0-9A-Fa-f]{1,6})\}/.exec(pattern.slice(pos));
+      if (braced) {
+        const code = parseInt(braced[1], 16);
+        if (code > 0xffff) {
+          throw new PatternUnsupportedError(`\\x{${braced[1]}} is outside the Basic Multilingual Plane (at ${pos})`);
+        }
+        return [`\\u${code.toString(16).padStart(4, "0")}`, braced[0].length];
+      }
+      if (/^\\x[0-9A-Fa-f]{2}/.test(pattern.slice(pos))) {
+        return [pattern.slice(pos, pos + 4), 4];
+      }
+      throw new PatternUnsupportedError(`invalid escape \\x at ${pos}`);
+    }
+    case "p":
+    case "P":
+      throw new PatternUnsupportedError(`Unicode classes (\\${next}) are not supported (at ${pos})`);
+    default:
+      throw new PatternUnsupportedError(`escape \\${next} is not supported (at ${pos})`);
+  }
+}
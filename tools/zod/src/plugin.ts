@@ -0,0 +1,108 @@
+/**
+ * protoc-gen-zod plugin definition, run by index.ts
+ */
+
+import { createEcmaScriptPlugin } from "@bufbuild/protoplugin";
+import {
+  generateZodSchemas,
+  type ForceLong,
+  type JsonSchemaOutput,
+  type OneofStyle,
+  type PluginOptions,
+  type Runtime,
+  type UseDate,
+} from "./generator.js";
+
+const ONEOF_STYLES: readonly OneofStyle[] = ["properties", "unions", "unions-value"];
+const RUNTIMES: readonly Runtime[] = ["ts-proto", "protobuf-es"];
+const FORCE_LONG_TYPES: readonly ForceLong[] = ["string", "number", "long", "bigint"];
+const USE_DATE_TYPES: readonly UseDate[] = ["true", "false", "string"];
+const JSON_SCHEMA_OUTPUTS: readonly JsonSchemaOutput[] = ["none", "json", "ts"];
+
+/**
+ * Plugin definition
+ */
+export const protocGenZod = createEcmaScriptPlugin<PluginOptions>({
+  name: "protoc-gen-zod",
+  version: "v0.1.0",
+  generateTs: generateZodSchemas,
+  parseOptions(rawOptions): PluginOptions {
+    // Defaults follow buf.gen.ts.yaml rather than the ts-proto defaults
+    const options: PluginOptions = {
+      includeResponses: false,
+      oneof: "properties",
+      runtime: "ts-proto",
+      forceLong: "string",
+      useDate: "true",
+      jsonSchema: "none",
+      clients: false,
+      servers: false,
+      forms: false,
+      fixtures: false,
+      arbitraries: false,
+    };
+    // Options found that only apply to ts-proto, which protobuf-es has no equivalent for
+    const tsProtoOptions: string[] = [];
+
+    for (const opt of rawOptions) {
+      if (opt.key === "include_responses" && opt.value === "true") {
+        options.includeResponses = true;
+      }
+      if (opt.key === "oneof") {
+        options.oneof = parseChoice(opt.key, opt.value, ONEOF_STYLES);
+        tsProtoOptions.push(opt.key);
+      }
+      if (opt.key === "forceLong") {
+        options.forceLong = parseChoice(opt.key, opt.value, FORCE_LONG_TYPES);
+        tsProtoOptions.push(opt.key);
+      }
+      if (opt.key === "useDate") {
+        options.useDate = parseChoice(opt.key, opt.value, USE_DATE_TYPES);
+        tsProtoOptions.push(opt.key);
+      }
+      if (opt.key === "clients" && opt.value === "true") {
+        options.clients = true;
+        tsProtoOptions.push(opt.key);
+      }
+      if (opt.key === "servers" && opt.value === "true") {
+        options.servers = true;
+        tsProtoOptions.push(opt.key);
+      }
+      if (opt.key === "forms" && opt.value === "true") {
+        options.forms = true;
+      }
+      if (opt.key === "fixtures" && opt.value === "true") {
+        options.fixtures = true;
+      }
+      if (opt.key === "arbitraries" && opt.value === "true") {
+        options.arbitraries = true;
+      }
+      if (opt.key === "json_schema") {
+        options.jsonSchema = parseChoice(opt.key, opt.value, JSON_SCHEMA_OUTPUTS);
+      }
+      if (opt.key === "runtime") {
+        options.runtime = parseChoice(opt.key, opt.value, RUNTIMES);
+      }
+      // Ignore target option (handled by protoplugin)
+    }
+
+    // protobuf-es has a single oneof, 64-bit integer and Timestamp shape
+    if (options.runtime === "protobuf-es") {
+      if (tsProtoOptions.length > 0) {
+        throw new Error(`the ${tsProtoOptions[0]} option only applies to runtime=ts-proto`);
+      }
+      options.oneof = "case";
+      options.forceLong = "bigint";
+      options.useDate = "false";
+    }
+
+    return options;
+  },
+});
+
+function parseChoice<T extends string>(key: string, value: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`invalid ${key} option "${value}", expected one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
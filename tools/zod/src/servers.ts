@@ -0,0 +1,278 @@
+/**
+ * Generates validation wrappers for the grpc-js service implementations
+ *
+ * For each service, <file>_server.ts exports `with<Service>Validation(impl)`,
+ * which wraps a ts-proto `<Service>Server` so the handlers only see requests
+ * that match the generated `*RequestSchema`. Invalid requests are answered with
+ * INVALID_ARGUMENT and a google.rpc.BadRequest detail (the rich error model,
+ * in the `grpc-status-details-bin` trailer) listing the field violations,
+ * with their protovalidate rule ids as reasons.
+ * Responses, including streamed messages, are validated on request, and
+ * invalid ones fail the call with INTERNAL instead of reaching the client.
+ *
+ * As in the client files, the helpers are printed into each file, including
+ * the few lines of protobuf encoding the error details need. The violations
+ * are converted by the Violations converter of the runtime package, so they
+ * name fields by their proto path (`file_ids[0]`) as protovalidate does. The
+ * generated code does not import from the repository: the converter is copied
+ * into the output, as buf/validate/violations.ts, next to the server files
+ * (generated once per run, hence `strategy: all` in buf.gen.ts.yaml).
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { GeneratedFile, Schema } from "@bufbuild/protoplugin";
+import type { DescFile, DescMethod, DescService } from "@bufbuild/protobuf";
+import type { PluginOptions } from "./generator.js";
+import { hasZodSchema, isSupportedMethod, printSchemaImports, toMethodName } from "./clients.js";
+import { getRelativeImportPath, toSchemaName, toTsTypeName } from "./utils.js";
+
+type ServerHelper = "validateUnaryCall" | "validateServerStreamingCall";
+
+// Source of the converter in the repository, and the output file it is copied to (without .ts)
+const VIOLATIONS_SOURCE = "tools/runtime/src/violations.ts";
+const VIOLATIONS_FILE = "buf/validate/violations";
+
+// Printed in every file, before the wrappers of the methods used
+const ERROR_HELPERS = String.raw`
+/** Protobuf encoding of a length-delimited field (string or message) */
+function lengthDelimited(fieldNumber: number, value: string | Buffer): Buffer {
+  const bytes = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+  return Buffer.concat([varint((fieldNumber << 3) | 2), varint(bytes.length), bytes]);
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  for (; value > 0x7f; value >>>= 7) {
+    bytes.push((value & 0x7f) | 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+/** INVALID_ARGUMENT status with a google.rpc.BadRequest detail listing the violations */
+function invalidArgument(schema: z.ZodType, request: unknown, error: z.ZodError): Partial<StatusObject> {
+  // The reason is the protovalidate rule id the generated checks carry
+  const violations = toViolations(schema, request, error).violations.map((violation) => ({
+    field: violation.field ? formatFieldPath(violation.field) : "",
+    description: violation.message,
+    reason: violation.ruleId,
+  }));
+  const details = "invalid request: " + violations.map((v) => (v.field ? v.field + ": " : "") + v.description).join("; ");
+  // google.rpc.BadRequest { repeated FieldViolation field_violations = 1 }
+  // google.rpc.BadRequest.FieldViolation { string field = 1; string description = 2; string reason = 3 }
+  const badRequest = Buffer.concat(
+    violations.map((v) =>
+      lengthDelimited(1, Buffer.concat([lengthDelimited(1, v.field), lengthDelimited(2, v.description), lengthDelimited(3, v.reason)])),
+    ),
+  );
+  // google.rpc.Status { int32 code = 1; string message = 2; repeated google.protobuf.Any details = 3 }
+  const statusDetails = Buffer.concat([
+    Buffer.from([0x08, status.INVALID_ARGUMENT]),
+    lengthDelimited(2, details),
+    lengthDelimited(3, Buffer.concat([lengthDelimited(1, "type.googleapis.com/google.rpc.BadRequest"), lengthDelimited(2, badRequest)])),
+  ]);
+  const metadata = new Metadata();
+  metadata.set("grpc-status-details-bin", statusDetails);
+  return { code: status.INVALID_ARGUMENT, details, metadata };
+}
+
+/** INTERNAL status for a response the handler should not have sent */
+function invalidResponse(schema: z.ZodType, response: unknown, error: z.ZodError): Partial<StatusObject> {
+  const violations = toViolations(schema, response, error).violations.map(
+    (violation) => (violation.field ? formatFieldPath(violation.field) + ": " : "") + violation.message,
+  );
+  return { code: status.INTERNAL, details: "invalid response: " + violations.join("; ") };
+}`;
+
+// Keys are in print order
+const HELPERS: Record<ServerHelper, string> = {
+  validateUnaryCall: String.raw`
+/** Validates the request before the handler runs, and its response when a schema is given */
+function validateUnaryCall<Req, Res>(
+  handler: handleUnaryCall<Req, Res>,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+): handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    const request = requestSchema?.safeParse(call.request);
+    if (requestSchema && request && !request.success) {
+      callback(invalidArgument(requestSchema, call.request, request.error));
+      return;
+    }
+    if (!responseSchema) {
+      handler(call, callback);
+      return;
+    }
+    handler(call, (error, value, ...rest) => {
+      const response = error ? undefined : responseSchema.safeParse(value);
+      if (response && !response.success) {
+        callback(invalidResponse(responseSchema, value, response.error));
+        return;
+      }
+      callback(error, value, ...rest);
+    });
+  };
+}`,
+  validateServerStreamingCall: String.raw`
+/** Validates the request before the handler runs, and each message written when a schema is given */
+function validateServerStreamingCall<Req, Res>(
+  handler: handleServerStreamingCall<Req, Res>,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+): handleServerStreamingCall<Req, Res> {
+  return (call) => {
+    const request = requestSchema?.safeParse(call.request);
+    if (requestSchema && request && !request.success) {
+      call.emit("error", invalidArgument(requestSchema, call.request, request.error));
+      return;
+    }
+    if (responseSchema) {
+      const write = call.write.bind(call) as (...args: unknown[]) => boolean;
+      let failed = false;
+      call.write = ((message: Res, ...rest: unknown[]) => {
+        if (failed) {
+          return false;
+        }
+        const response = responseSchema.safeParse(message);
+        if (!response.success) {
+          // The call ends with the first invalid message, later writes are dropped
+          failed = true;
+          call.emit("error", invalidResponse(responseSchema, message, response.error));
+          return false;
+        }
+        return write(message, ...rest);
+      }) as typeof call.write;
+    }
+    handler(call);
+  };
+}`,
+};
+
+/**
+ * Generates the server file for the services of a proto file
+ * Returns whether the file was generated, i.e. whether it imports the violations file.
+ */
+export function generateServerFile(schema: Schema<PluginOptions>, file: DescFile): boolean {
+  const services = file.services
+    .map((service) => ({ service, methods: service.methods.filter(isSupportedMethod) }))
+    .filter(({ methods }) => methods.length > 0);
+  if (services.length === 0) {
+    return false;
+  }
+
+  const f = schema.generateFile(`${file.name}_server.ts`);
+  f.print(`// @generated from file ${file.name}.proto`);
+  f.print("/* eslint-disable */");
+  f.print();
+
+  const methods = services.flatMap(({ methods }) => methods);
+  const helpers = new Set<ServerHelper>(
+    methods.map((method) => (method.methodKind === "unary" ? "validateUnaryCall" : "validateServerStreamingCall"))
+  );
+  const grpcTypes = ["StatusObject"];
+  if (helpers.has("validateUnaryCall")) {
+    grpcTypes.push("handleUnaryCall");
+  }
+  if (helpers.has("validateServerStreamingCall")) {
+    grpcTypes.push("handleServerStreamingCall");
+  }
+  f.print(`import { Metadata, status, ${grpcTypes.sort().map((name) => `type ${name}`).join(", ")} } from "@grpc/grpc-js";`);
+  f.print('import type { z } from "zod";');
+  const servers = services.map(({ service }) => `${service.name}Server`).sort();
+  f.print(`import type { ${servers.join(", ")} } from "${getRelativeImportPath(file.name, file.name, ".js")}";`);
+  printSchemaImports(f, file, methods, schema.options);
+  f.print(`import { formatFieldPath, toViolations } from "${getRelativeImportPath(file.name, VIOLATIONS_FILE, ".js")}";`);
+  f.print();
+
+  f.print("/**");
+  f.print(" * Options of the validation wrappers");
+  f.print(" */");
+  f.print("export interface ServerValidationOptions {");
+  f.print("  /** Whether to validate responses as well, for the responses with a generated schema */");
+  f.print("  validateResponses?: boolean;");
+  f.print("}");
+
+  for (const line of ERROR_HELPERS.split("\n")) {
+    f.print(line);
+  }
+  f.print();
+  for (const name of Object.keys(HELPERS) as ServerHelper[]) {
+    if (!helpers.has(name)) {
+      continue;
+    }
+    for (const line of HELPERS[name].trimStart().split("\n")) {
+      f.print(line);
+    }
+    f.print();
+  }
+
+  for (const { service, methods } of services) {
+    printValidationWrapper(f, service, methods, schema.options);
+  }
+  return true;
+}
+
+/**
+ * Generates the violations file the server files import, a copy of the runtime package's converter
+ */
+export function generateViolationsFile(schema: Schema<PluginOptions>): void {
+  const f = schema.generateFile(`${VIOLATIONS_FILE}.ts`);
+  f.print(`// @generated from ${VIOLATIONS_SOURCE}`);
+  f.print("/* eslint-disable */");
+  f.print();
+  for (const line of readViolationsSource().trimEnd().split("\n")) {
+    f.print(line);
+  }
+}
+
+/**
+ * Reads the converter from the repository the plugin runs from (tools/zod/dist, or its test build)
+ */
+function readViolationsSource(): string {
+  for (let dir = __dirname; ; dir = dirname(dir)) {
+    const path = join(dir, VIOLATIONS_SOURCE);
+    if (existsSync(path)) {
+      return readFileSync(path, "utf8");
+    }
+    if (dirname(dir) === dir) {
+      throw new Error(`the servers option needs ${VIOLATIONS_SOURCE}, which was not found above ${__dirname}`);
+    }
+  }
+}
+
+function printValidationWrapper(
+  f: GeneratedFile,
+  service: DescService,
+  methods: readonly DescMethod[],
+  options: PluginOptions
+): void {
+  f.print("/**");
+  f.print(` * Wraps a ${service.name} implementation so its handlers only receive valid requests`);
+  if (service.deprecated) {
+    f.print(" * @deprecated");
+  }
+  f.print(` * @generated from service ${service.typeName}`);
+  f.print(" */");
+  f.print(`export function with${service.name}Validation(`);
+  f.print(`  impl: ${service.name}Server,`);
+  f.print("  validationOptions: ServerValidationOptions = {},");
+  f.print(`): ${service.name}Server {`);
+  if (methods.some((method) => hasZodSchema(method.output, options))) {
+    f.print("  const validateResponses = validationOptions.validateResponses ?? false;");
+  }
+  f.print("  return {");
+  f.print("    ...impl,");
+  for (const method of methods) {
+    const name = toMethodName(method);
+    const requestSchema = hasZodSchema(method.input, options) ? toSchemaName(toTsTypeName(method.input)) : "undefined";
+    const responseSchema = hasZodSchema(method.output, options)
+      ? `validateResponses ? ${toSchemaName(toTsTypeName(method.output))} : undefined`
+      : "undefined";
+    const helper = method.methodKind === "unary" ? "validateUnaryCall" : "validateServerStreamingCall";
+    f.print(`    ${name}: ${helper}(impl.${name}, ${requestSchema}, ${responseSchema}),`);
+  }
+  f.print("  };");
+  f.print("}");
+  f.print();
+}
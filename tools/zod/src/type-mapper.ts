@@ -1,14 +1,22 @@
 /**
  * Maps Protocol Buffer types to Zod schema types
+ *
+ * Each mapping also gives the TypeScript type the Zod type infers, which the
+ * generator declares for recursive messages, so that their types match the
+ * z.infer types of other messages.
  */
 
 import type { DescField, DescEnum, DescMessage } from "@bufbuild/protobuf";
 import { ScalarType } from "@bufbuild/protobuf";
-import { getRelativeImportPath, toSchemaName } from "./utils.js";
+import { getRelativeImportPath, toSchemaName, toTsTypeName } from "./utils.js";
+import type { ForceLong, PluginOptions } from "./generator.js";
+import type { PatternTable } from "./patterns.js";
 
 export interface ZodTypeInfo {
   /** The Zod type expression, e.g., "z.string()", "z.number().int()" */
   zodType: string;
+  /** The TypeScript type inferred from zodType, e.g., "string", "number" */
+  tsType: string;
   /** Import needed from another file (for enums or nested messages) */
   needsImport?: {
     name: string;
@@ -17,11 +25,22 @@ export interface ZodTypeInfo {
   };
   /** Whether this is a nested message reference */
   isNestedMessage?: boolean;
+  /** Zod type of the items, for list fields */
+  itemType?: string;
+  /** Zod types of the keys and values, for map fields */
+  mapKeyType?: string;
+  mapValueType?: string;
 }
 
+const UNKNOWN: ZodTypeInfo = { zodType: "z.unknown()", tsType: "unknown" };
+
 export interface TypeMapperContext {
   /** The proto file path we're generating from */
   currentProtoPath: string;
+  /** Parsed plugin options */
+  options: PluginOptions;
+  /** Regex constants of the generated file (see patterns.ts) */
+  patterns: PatternTable;
 }
 
 /**
@@ -41,7 +60,9 @@ export function mapFieldToZod(
     const itemType = mapListItemToZod(field, context);
     return {
       zodType: `z.array(${itemType.zodType})`,
+      tsType: `${itemType.tsType}[]`,
       needsImport: itemType.needsImport,
+      itemType: itemType.zodType,
     };
   }
 
@@ -56,36 +77,40 @@ function mapListItemToZod(
   context: TypeMapperContext
 ): ZodTypeInfo {
   if (field.listKind === "scalar") {
-    return { zodType: mapScalarToZod(field.scalar) };
+    return mapScalarToZod(field.scalar, context.options);
   } else if (field.listKind === "enum") {
     return mapEnumToZod(field.enum, context);
   } else if (field.listKind === "message") {
     return mapMessageToZod(field.message, context);
   }
-  return { zodType: "z.unknown()" };
+  return UNKNOWN;
 }
 
 function mapMapFieldToZod(
   field: DescField & { fieldKind: "map" },
   context: TypeMapperContext
 ): ZodTypeInfo {
-  const keyType = mapScalarToZod(field.mapKey);
+  const keyType = mapMapKeyToZod(field.mapKey, context.options);
 
   // Map value can be scalar, enum, or message
   let valueType: ZodTypeInfo;
   if (field.mapKind === "scalar") {
-    valueType = { zodType: mapScalarToZod(field.scalar) };
+    valueType = mapScalarToZod(field.scalar, context.options);
   } else if (field.mapKind === "enum") {
     valueType = mapEnumToZod(field.enum, context);
   } else if (field.mapKind === "message") {
     valueType = mapMessageToZod(field.message, context);
   } else {
-    valueType = { zodType: "z.unknown()" };
+    valueType = UNKNOWN;
   }
 
+  const isMap = usesMapType(field, context.options);
   return {
-    zodType: `z.record(${keyType}, ${valueType.zodType})`,
+    zodType: `${isMap ? "z.map" : "z.record"}(${keyType.zodType}, ${valueType.zodType})`,
+    tsType: `${isMap ? "Map" : "Record"}<${keyType.tsType}, ${valueType.tsType}>`,
     needsImport: valueType.needsImport,
+    mapKeyType: keyType.zodType,
+    mapValueType: valueType.zodType,
   };
 }
 
@@ -95,7 +120,7 @@ function mapSingleFieldToZod(
 ): ZodTypeInfo {
   switch (field.fieldKind) {
     case "scalar":
-      return { zodType: mapScalarToZod(field.scalar) };
+      return mapScalarToZod(field.scalar, context.options);
 
     case "enum":
       return mapEnumToZod(field.enum, context);
@@ -104,53 +129,170 @@ function mapSingleFieldToZod(
       return mapMessageToZod(field.message, context);
 
     default:
-      return { zodType: "z.unknown()" };
+      return UNKNOWN;
+  }
+}
+
+/**
+ * Maps a map key type to Zod
+ * Object keys are strings: both runtimes key bool maps by "true" and "false",
+ * and 64-bit integer keys are decimal strings in protobuf-es. ts-proto keys
+ * them like other 64-bit integers, in a Map with forceLong=long|bigint.
+ */
+export function mapMapKeyToZod(scalar: ScalarType, options: PluginOptions): ZodTypeInfo {
+  if (scalar === ScalarType.BOOL) {
+    return { zodType: "z.string()", tsType: "string" };
+  }
+  if (isInt64(scalar) && options.runtime === "protobuf-es") {
+    return mapInt64ToZod(scalar, "string");
   }
+  return mapScalarToZod(scalar, options);
+}
+
+/**
+ * Whether ts-proto represents a map field as a Map rather than an object,
+ * which it does for 64-bit integer keys that are not strings or numbers
+ */
+export function usesMapType(field: DescField, options: PluginOptions): boolean {
+  return field.fieldKind === "map" &&
+    isInt64(field.mapKey) &&
+    options.runtime === "ts-proto" &&
+    (options.forceLong === "long" || options.forceLong === "bigint");
 }
 
 /**
  * Maps a scalar proto type to Zod
  */
-export function mapScalarToZod(scalar: ScalarType): string {
+export function mapScalarToZod(scalar: ScalarType, options: PluginOptions): ZodTypeInfo {
   switch (scalar) {
     case ScalarType.STRING:
-      return "z.string()";
+      return { zodType: "z.string()", tsType: "string" };
 
     case ScalarType.BOOL:
-      return "z.boolean()";
+      return { zodType: "z.boolean()", tsType: "boolean" };
 
     case ScalarType.INT32:
     case ScalarType.SINT32:
     case ScalarType.SFIXED32:
-      return "z.number().int()";
+      return { zodType: "z.number().int()", tsType: "number" };
 
     case ScalarType.UINT32:
     case ScalarType.FIXED32:
-      return "z.number().int().nonnegative()";
+      return { zodType: "z.number().int().nonnegative()", tsType: "number" };
 
     case ScalarType.INT64:
     case ScalarType.SINT64:
     case ScalarType.SFIXED64:
-      // ts-proto with forceLong=string converts int64 to string
-      return "z.string()";
-
     case ScalarType.UINT64:
     case ScalarType.FIXED64:
-      // ts-proto with forceLong=string converts uint64 to string
-      return "z.string()";
+      return mapInt64ToZod(scalar, options.forceLong);
 
     case ScalarType.FLOAT:
     case ScalarType.DOUBLE:
-      return "z.number()";
+      return { zodType: "z.number()", tsType: "number" };
 
     case ScalarType.BYTES:
-      return "z.instanceof(Uint8Array)";
+      return { zodType: "z.instanceof(Uint8Array)", tsType: "Uint8Array" };
+
+    default:
+      return UNKNOWN;
+  }
+}
+
+/**
+ * Maps a 64-bit integer type to Zod, checking that the value is in range
+ *
+ * Zod's .int() only accepts safe integers, so numbers that lost precision are
+ * rejected. Strings are checked for their format first, aborting, so that
+ * rules can convert them with BigInt().
+ */
+export function mapInt64ToZod(scalar: ScalarType, forceLong: ForceLong): ZodTypeInfo {
+  const signed = scalar !== ScalarType.UINT64 && scalar !== ScalarType.FIXED64;
+  const tsType = { string: "string", number: "number", long: "Long", bigint: "bigint" }[forceLong];
+  return { zodType: int64ZodType(signed, forceLong), tsType };
+}
+
+function int64ZodType(signed: boolean, forceLong: ForceLong): string {
+  switch (forceLong) {
+    case "string":
+      return signed
+        ? 'z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" })'
+        : 'z.string().regex(/^[0-9]+$/, { message: "Must be a non-negative integer", abort: true }).refine((s) => BigInt.asUintN(64, BigInt(s)) === BigInt(s), { message: "Must be an unsigned 64-bit integer" })';
+    case "number":
+      return signed ? "z.number().int()" : "z.number().int().nonnegative()";
+    case "long":
+      // Long values are 64-bit by construction
+      return 'z.custom<Long>((v) => Long.isLong(v), { message: "Must be a Long" })';
+    case "bigint":
+      return signed
+        ? "z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n)"
+        : "z.bigint().gte(0n).lte(18446744073709551615n)";
+  }
+}
+
+/**
+ * Whether a field holds Long values (forceLong=long), which the generated file
+ * then imports from the long package
+ */
+export function fieldUsesLong(field: DescField, options: PluginOptions): boolean {
+  if (options.forceLong !== "long") {
+    return false;
+  }
+  switch (field.fieldKind) {
+    case "scalar":
+      return isInt64(field.scalar);
+    case "list":
+      return field.listKind === "scalar" ? isInt64(field.scalar) : field.listKind === "message" && messageUsesLong(field.message, options);
+    case "map":
+      return isInt64(field.mapKey) ||
+        (field.mapKind === "scalar" ? isInt64(field.scalar) : field.mapKind === "message" && messageUsesLong(field.message, options));
+    case "message":
+      return messageUsesLong(field.message, options);
+    default:
+      return false;
+  }
+}
 
+/**
+ * Whether the inline schema of a well-known type holds Long values
+ */
+function messageUsesLong(msgDesc: DescMessage, options: PluginOptions): boolean {
+  switch (msgDesc.typeName) {
+    case "google.protobuf.Timestamp":
+      return options.useDate === "false";
+    case "google.protobuf.Duration":
+    case "google.protobuf.Int64Value":
+    case "google.protobuf.UInt64Value":
+      return true;
     default:
-      return "z.unknown()";
+      return false;
   }
 }
 
+/**
+ * Whether a scalar type is a 64-bit integer
+ */
+export function isInt64(scalar: ScalarType): boolean {
+  switch (scalar) {
+    case ScalarType.INT64:
+    case ScalarType.UINT64:
+    case ScalarType.SINT64:
+    case ScalarType.FIXED64:
+    case ScalarType.SFIXED64:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Suffix of the runtime's generated files for a proto file, e.g. "_pb.js" for
+ * foo_pb.ts (protobuf-es) or ".js" for foo.ts (ts-proto)
+ */
+export function getRuntimeImportSuffix(options: PluginOptions): string {
+  return options.runtime === "protobuf-es" ? "_pb.js" : ".js";
+}
+
 /**
  * Maps an enum to Zod z.enum()
  */
@@ -158,18 +300,19 @@ function mapEnumToZod(
   enumDesc: DescEnum,
   context: TypeMapperContext
 ): ZodTypeInfo {
-  const enumName = enumDesc.name;
+  const enumName = toTsTypeName(enumDesc);
   const enumProtoPath = enumDesc.file.name;
 
-  // Import path to the ts-proto generated file (uses .js suffix for ES modules)
+  // Import path to the runtime's generated file (uses .js suffix for ES modules)
   const importPath = getRelativeImportPath(
     context.currentProtoPath,
     enumProtoPath,
-    ".js"
+    getRuntimeImportSuffix(context.options)
   );
 
   return {
     zodType: `z.enum(${enumName})`,
+    tsType: enumName,
     needsImport: {
       name: enumName,
       from: importPath,
@@ -185,69 +328,105 @@ function mapMessageToZod(
   context: TypeMapperContext
 ): ZodTypeInfo {
   const typeName = msgDesc.typeName;
+  const { options } = context;
+  // protobuf-es keeps Timestamp, Duration, ListValue and Empty as messages
+  const messageObject = (entries: [string, ZodTypeInfo][]): ZodTypeInfo => {
+    const all: [string, ZodTypeInfo][] = options.runtime === "protobuf-es"
+      ? [["$typeName", { zodType: `z.literal("${typeName}")`, tsType: `"${typeName}"` }], ...entries]
+      : entries;
+    if (all.length === 0) {
+      return { zodType: "z.object({})", tsType: "Record<string, never>" };
+    }
+    return {
+      zodType: `z.object({ ${all.map(([name, type]) => `${name}: ${type.zodType}`).join(", ")} })`,
+      tsType: `{ ${all.map(([name, type]) => `${name}: ${type.tsType}`).join("; ")} }`,
+    };
+  };
+  const secondsAndNanos: [string, ZodTypeInfo][] = [
+    ["seconds", mapInt64ToZod(ScalarType.INT64, options.forceLong)],
+    ["nanos", { zodType: "z.number().int()", tsType: "number" }],
+  ];
 
   // Handle well-known types
   if (typeName === "google.protobuf.Timestamp") {
-    // Convert to Date object - ts-proto with useDate=true converts Timestamps to Date
-    return { zodType: "z.coerce.date()" };
+    switch (options.useDate) {
+      case "true":
+        // Convert to Date object - ts-proto with useDate=true converts Timestamps to Date
+        return { zodType: "z.coerce.date()", tsType: "Date" };
+      case "string":
+        return { zodType: "z.iso.datetime({ offset: true })", tsType: "string" };
+      case "false":
+        return messageObject(secondsAndNanos);
+    }
   }
 
+  // Durations are messages in both runtimes, with 64-bit seconds
   if (typeName === "google.protobuf.Duration") {
-    return { zodType: "z.string()" };
+    return messageObject(secondsAndNanos);
   }
 
   if (typeName === "google.protobuf.Any") {
-    return { zodType: "z.unknown()" };
+    return UNKNOWN;
   }
 
   // Struct is a flexible JSON-like object
   if (typeName === "google.protobuf.Struct") {
-    return { zodType: "z.record(z.string(), z.any())" };
+    return { zodType: "z.record(z.string(), z.any())", tsType: "Record<string, any>" };
   }
 
   // Value is a flexible JSON value
   if (typeName === "google.protobuf.Value") {
-    return { zodType: "z.any()" };
+    return { zodType: "z.any()", tsType: "any" };
   }
 
   // ListValue is an array of values
   if (typeName === "google.protobuf.ListValue") {
-    return { zodType: "z.array(z.any())" };
+    const values: ZodTypeInfo = { zodType: "z.array(z.any())", tsType: "any[]" };
+    return options.runtime === "protobuf-es" ? messageObject([["values", values]]) : values;
   }
 
   // Empty message
   if (typeName === "google.protobuf.Empty") {
-    return { zodType: "z.object({})" };
+    return messageObject([]);
   }
 
   // For wrapper types
   if (typeName === "google.protobuf.StringValue") {
-    return { zodType: "z.string()" };
+    return mapScalarToZod(ScalarType.STRING, options);
+  }
+  if (typeName === "google.protobuf.Int32Value") {
+    return mapScalarToZod(ScalarType.INT32, options);
+  }
+  if (typeName === "google.protobuf.UInt32Value") {
+    return mapScalarToZod(ScalarType.UINT32, options);
   }
-  if (typeName === "google.protobuf.Int32Value" || typeName === "google.protobuf.Int64Value") {
-    return { zodType: "z.number().int()" };
+  // The 64-bit wrappers follow forceLong
+  if (typeName === "google.protobuf.Int64Value") {
+    return mapInt64ToZod(ScalarType.INT64, options.forceLong);
   }
-  if (typeName === "google.protobuf.UInt32Value" || typeName === "google.protobuf.UInt64Value") {
-    return { zodType: "z.number().int().nonnegative()" };
+  if (typeName === "google.protobuf.UInt64Value") {
+    return mapInt64ToZod(ScalarType.UINT64, options.forceLong);
   }
   if (typeName === "google.protobuf.FloatValue" || typeName === "google.protobuf.DoubleValue") {
-    return { zodType: "z.number()" };
+    return mapScalarToZod(ScalarType.DOUBLE, options);
   }
   if (typeName === "google.protobuf.BoolValue") {
-    return { zodType: "z.boolean()" };
+    return mapScalarToZod(ScalarType.BOOL, options);
   }
   if (typeName === "google.protobuf.BytesValue") {
-    return { zodType: "z.instanceof(Uint8Array)" };
+    return mapScalarToZod(ScalarType.BYTES, options);
   }
 
-  // For regular messages, reference the schema by name
-  const schemaName = toSchemaName(msgDesc.name);
+  // For regular messages, reference the schema and its type by name
+  const tsType = toTsTypeName(msgDesc);
+  const schemaName = toSchemaName(tsType);
   const msgProtoPath = msgDesc.file.name;
 
   // Check if it's in the same file
   if (msgProtoPath === context.currentProtoPath) {
     return {
       zodType: schemaName,
+      tsType,
       isNestedMessage: true,
     };
   }
@@ -261,6 +440,7 @@ function mapMessageToZod(
 
   return {
     zodType: schemaName,
+    tsType,
     isNestedMessage: true,
     needsImport: {
       name: schemaName,
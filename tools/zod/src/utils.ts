@@ -2,6 +2,21 @@
  * Utility functions for protoc-gen-zod
  */
 
+import type { AnyDesc, DescEnum, DescFile, DescMessage } from "@bufbuild/protobuf";
+import { getComments } from "@bufbuild/protoplugin";
+
+/**
+ * Leading comments of a declaration, with the indentation of each line removed
+ */
+export function getLeadingComment(desc: Exclude<AnyDesc, DescFile>): string | undefined {
+  const comment = getComments(desc).leading
+    ?.split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+  return comment || undefined;
+}
+
 /**
  * Converts snake_case to camelCase (matching protobuf-es generated field names)
  */
@@ -17,6 +32,17 @@ export function toSchemaName(messageName: string): string {
   return `${messageName}Schema`;
 }
 
+/**
+ * Gets the TypeScript identifier ts-proto generates for a message or enum
+ * Nested types are prefixed with their parents, joined by underscores
+ * e.g., "agentic_mesh_protocol.v1.Outer.Inner" -> "Outer_Inner"
+ */
+export function toTsTypeName(desc: DescMessage | DescEnum): string {
+  const packageName = desc.file.proto.package;
+  const localName = packageName ? desc.typeName.slice(packageName.length + 1) : desc.typeName;
+  return localName.replace(/\./g, "_");
+}
+
 /**
  * Escapes a string for use in generated code
  */
@@ -5,312 +5,558 @@
  * to equivalent Zod validation methods.
  */
 
-import type { DescField, DescEnum } from "@bufbuild/protobuf";
-import { getExtension, hasExtension } from "@bufbuild/protobuf";
-import { field as fieldExtension } from "@buf/bufbuild_protovalidate.bufbuild_es/buf/validate/validate_pb.js";
+import type { DescField, DescEnum, DescMessage, DescOneof } from "@bufbuild/protobuf";
+import { getExtension, hasExtension, isFieldSet } from "@bufbuild/protobuf";
+import { field as fieldExtension, message as messageExtension, oneof as oneofExtension, StringRulesSchema } from "@buf/bufbuild_protovalidate.bufbuild_es/buf/validate/validate_pb.js";
+import type { FormatHelper } from "./format-helpers.js";
+import type { PluginOptions } from "./generator.js";
+import { usesMapType } from "./type-mapper.js";
+import { escapeString } from "./utils.js";
 
 export interface ValidationChain {
   /** Zod methods to chain, e.g., [".min(1)", ".max(100)", ".email()"] */
   methods: string[];
   /** Whether the field is required (not optional) */
   required: boolean;
-  /** Whether enum should filter out UNSPECIFIED (value 0) */
+  /** Whether rules are skipped for the zero value (IGNORE_IF_ZERO_VALUE) */
+  ignoreIfZero: boolean;
+  /** Whether enum values must be one of the enum's defined numbers */
   enumDefinedOnly: boolean;
-  /** Zod methods to apply to array items (for repeated fields with items constraints) */
-  itemMethods: string[];
-  /** Whether enum items should filter out UNSPECIFIED (value 0) */
-  itemEnumNotIn: number[];
-  /** String pattern constraint (stored separately to handle optional fields) */
+  /** String pattern, in RE2 syntax (the generator declares its regex at module scope) */
   stringPattern?: string;
-  /** String pattern for array items */
-  itemStringPattern?: string;
+  /** Bytes pattern, in RE2 syntax (as stringPattern) */
+  bytesPattern?: string;
+  /** Rules for the items of a repeated field */
+  items?: ValidationChain;
+  /** Rules for the keys of a map field */
+  keys?: ValidationChain;
+  /** Rules for the values of a map field */
+  values?: ValidationChain;
+  /** Helper functions the methods call (see format-helpers.ts) */
+  helpers: Set<FormatHelper>;
+  /** Path of the rules in the field's rules, e.g. "repeated.items." for the items of a list */
+  rulePrefix: string;
+  /** Bounds of the rules, as hints for form inputs (see forms.ts) */
+  hints: ConstraintHints;
 }
 
 /**
- * Extracts buf.validate constraints from a field and returns Zod validation chain
+ * Bounds of the buf.validate rules of a value
+ * Exclusive ranges, whose bounds cannot both hold, are left out.
  */
-export function getValidationChain(field: DescField): ValidationChain {
-  const chain: ValidationChain = {
-    methods: [],
-    required: false,
-    enumDefinedOnly: false,
-    itemMethods: [],
-    itemEnumNotIn: [],
-  };
+export interface ConstraintHints {
+  /** Lower bound of numbers */
+  min?: number;
+  /** Whether `min` itself is excluded (gt rather than gte) */
+  exclusiveMin?: boolean;
+  /** Upper bound of numbers */
+  max?: number;
+  /** Whether `max` itself is excluded (lt rather than lte) */
+  exclusiveMax?: boolean;
+  /** Minimum length of strings (in characters) and bytes */
+  minLength?: number;
+  /** Maximum length of strings (in characters) and bytes */
+  maxLength?: number;
+  /** Pattern of strings, in RE2 syntax */
+  pattern?: string;
+  /** Minimum number of items of lists, or entries of maps */
+  minItems?: number;
+  /** Maximum number of items of lists, or entries of maps */
+  maxItems?: number;
+}
+
+/**
+ * The protovalidate `ignore` modes (buf.validate.Ignore)
+ */
+export const IGNORE_IF_ZERO_VALUE = 1;
+const IGNORE_ALWAYS = 3;
+
+export interface FieldRules {
+  required?: boolean;
+  ignore?: number;
+  type?: { case: string | undefined; value?: unknown };
+}
+
+/**
+ * A protovalidate CEL rule, from `cel` or the shorthand `cel_expression`
+ */
+export interface CelRule {
+  id: string;
+  message: string;
+  expression: string;
+  /** Path of the rule in the field or message rules, e.g. cel[0] */
+  path: string;
+}
 
+/**
+ * Extracts buf.validate constraints from a field and returns Zod validation chain
+ */
+export function getValidationChain(field: DescField, options: PluginOptions): ValidationChain {
   try {
     // Get field options - this is where extensions are stored
-    const options = field.proto.options;
-    if (!options) {
-      return chain;
+    const fieldOptions = field.proto.options;
+    if (!fieldOptions) {
+      return createChain(new Set());
     }
 
     // Check if field has buf.validate.field extension
-    if (!hasExtension(options, fieldExtension)) {
-      return chain;
-    }
-
-    const constraints = getExtension(options, fieldExtension) as {
-      required?: boolean;
-      type?: { case: string; value: unknown };
-    };
-    if (!constraints) {
-      return chain;
-    }
-
-    // Check required constraint
-    if (constraints.required) {
-      chain.required = true;
+    if (!hasExtension(fieldOptions, fieldExtension)) {
+      return createChain(new Set());
     }
 
-    // Process type-specific constraints
-    const type = constraints.type;
-    if (type) {
-      switch (type.case) {
-        case "string":
-          processStringConstraints(type.value, chain);
-          break;
-        case "bytes":
-          processBytesConstraints(type.value, chain);
-          break;
-        case "int32":
-        case "uint32":
-        case "sint32":
-        case "fixed32":
-        case "sfixed32":
-          processNumericConstraints(type.value, chain);
-          break;
-        case "int64":
-        case "uint64":
-        case "sint64":
-        case "fixed64":
-        case "sfixed64":
-          // int64/uint64 are strings in TypeScript (forceLong=string)
-          processInt64Constraints(type.value, chain);
-          break;
-        case "float":
-        case "double":
-          processFloatConstraints(type.value, chain);
-          break;
-        case "bool":
-          processBoolConstraints(type.value, chain);
-          break;
-        case "enum":
-          processEnumConstraints(type.value, chain);
-          break;
-        case "repeated":
-          processRepeatedConstraints(type.value, chain);
-          break;
-        case "map":
-          processMapConstraints(type.value, chain);
-          break;
-      }
-    }
+    return buildChain(getExtension(fieldOptions, fieldExtension) as FieldRules, new Set(), options, field);
   } catch (error) {
     // If we can't read the extension, return empty chain
     // This can happen if protovalidate types aren't fully loaded
     console.error(`Warning: Could not read validation constraints for field ${field.name}:`, error);
+    return createChain(new Set());
+  }
+}
+
+function createChain(helpers: Set<FormatHelper>, rulePrefix = ""): ValidationChain {
+  return {
+    methods: [],
+    required: false,
+    ignoreIfZero: false,
+    enumDefinedOnly: false,
+    helpers,
+    rulePrefix,
+    hints: {},
+  };
+}
+
+/**
+ * Builds the chain for a field, or for the items, keys or values of a field
+ * (nested chains share the helper set of the field)
+ */
+function buildChain(
+  constraints: FieldRules | undefined,
+  helpers: Set<FormatHelper>,
+  options: PluginOptions,
+  field?: DescField,
+  rulePrefix = ""
+): ValidationChain {
+  const chain = createChain(helpers, rulePrefix);
+
+  // IGNORE_ALWAYS disables every rule, including required
+  if (!constraints || constraints.ignore === IGNORE_ALWAYS) {
+    return chain;
+  }
+
+  // Check required constraint
+  if (constraints.required) {
+    chain.required = true;
+  }
+  chain.ignoreIfZero = constraints.ignore === IGNORE_IF_ZERO_VALUE;
+
+  // Process type-specific constraints
+  const type = constraints.type;
+  if (type) {
+    switch (type.case) {
+      case "string":
+        processStringConstraints(type.value, chain);
+        break;
+      case "bytes":
+        processBytesConstraints(type.value, chain);
+        break;
+      case "int32":
+      case "uint32":
+      case "sint32":
+      case "fixed32":
+      case "sfixed32":
+        processNumericConstraints(type.value, chain, type.case);
+        break;
+      case "int64":
+      case "uint64":
+      case "sint64":
+      case "fixed64":
+      case "sfixed64":
+        processInt64Constraints(type.value, chain, type.case, options);
+        break;
+      case "float":
+      case "double":
+        processFloatConstraints(type.value, chain, type.case);
+        break;
+      case "bool":
+        processBoolConstraints(type.value, chain);
+        break;
+      case "enum":
+        processEnumConstraints(type.value, chain);
+        break;
+      case "repeated":
+        processRepeatedConstraints(type.value, chain, options);
+        break;
+      case "map":
+        processMapConstraints(type.value, chain, options, field);
+        break;
+      case "timestamp":
+        processTimestampConstraints(type.value, chain, options);
+        break;
+      case "duration":
+        processDurationConstraints(type.value, chain);
+        break;
+    }
   }
 
   return chain;
 }
 
+/**
+ * Builds a refinement for a buf.validate rule, carrying its protovalidate ids
+ *
+ * `params.ruleId` is the id of the rule's CEL expression, as reported by
+ * protovalidate (e.g. "string.min_len", "int32.gt_lt", "string.email_empty").
+ * `params.rule` is the path of the rule in the field's rules when it differs,
+ * e.g. "repeated.items.string.min_len" for the items of a list.
+ */
+export function ruleRefinement(
+  chain: ValidationChain,
+  rule: string,
+  predicate: string,
+  message: string,
+  ruleId = rule
+): string {
+  const path = chain.rulePrefix + rule;
+  const params = path === ruleId ? `{ ruleId: "${ruleId}" }` : `{ ruleId: "${ruleId}", rule: "${path}" }`;
+  return `.refine(${predicate}, { message: "${message}", params: ${params} })`;
+}
+
 /**
  * Process string-specific constraints
+ * Checks follow the declaration order of StringRules.
  */
 function processStringConstraints(constraints: any, chain: ValidationChain): void {
+  const { methods, helpers } = chain;
+  const check = (rule: string, predicate: string, message: string) => {
+    methods.push(ruleRefinement(chain, `string.${rule}`, predicate, message));
+  };
+
+  if (constraints.const) {
+    check("const", `(v) => v === "${escapeString(constraints.const)}"`, `Must equal ${escapeString(constraints.const)}`);
+  }
+
   // Length constraints - handle BigInt, skip default values (0)
+  // Lengths count code points, as in protovalidate
+  if (constraints.len !== undefined && constraints.len > 0n) {
+    check("len", `(v) => [...v].length === ${Number(constraints.len)}`, `Must be exactly ${constraints.len} characters`);
+    chain.hints.minLength = chain.hints.maxLength = Number(constraints.len);
+  }
   if (constraints.minLen !== undefined && constraints.minLen > 0n) {
-    chain.methods.push(`.min(${Number(constraints.minLen)})`);
+    check("min_len", `(v) => [...v].length >= ${Number(constraints.minLen)}`, `Must be at least ${constraints.minLen} characters`);
+    chain.hints.minLength = Number(constraints.minLen);
   }
   if (constraints.maxLen !== undefined && constraints.maxLen > 0n) {
-    chain.methods.push(`.max(${Number(constraints.maxLen)})`);
-  }
-  if (constraints.len !== undefined && constraints.len > 0n) {
-    chain.methods.push(`.length(${Number(constraints.len)})`);
+    check("max_len", `(v) => [...v].length <= ${Number(constraints.maxLen)}`, `Must be at most ${constraints.maxLen} characters`);
+    chain.hints.maxLength = Number(constraints.maxLen);
   }
 
-  // Pattern/regex constraint - stored separately to handle optional fields
-  // The generator will decide whether to use .regex() or .refine() based on required
+  // The generator checks the pattern with a regex declared at module scope
   if (constraints.pattern) {
     chain.stringPattern = constraints.pattern;
+    chain.hints.pattern = constraints.pattern;
+  }
+
+  // Byte lengths count the UTF-8 encoding, not UTF-16 code units
+  if (constraints.lenBytes !== undefined && constraints.lenBytes > 0n) {
+    helpers.add("utf8Length");
+    check("len_bytes", `(v) => utf8Length(v) === ${Number(constraints.lenBytes)}`, `Must be exactly ${constraints.lenBytes} bytes`);
+  }
+  if (constraints.minBytes !== undefined && constraints.minBytes > 0n) {
+    helpers.add("utf8Length");
+    check("min_bytes", `(v) => utf8Length(v) >= ${Number(constraints.minBytes)}`, `Must be at least ${constraints.minBytes} bytes`);
+  }
+  if (constraints.maxBytes !== undefined && constraints.maxBytes > 0n) {
+    helpers.add("utf8Length");
+    check("max_bytes", `(v) => utf8Length(v) <= ${Number(constraints.maxBytes)}`, `Must be at most ${constraints.maxBytes} bytes`);
   }
 
   // Prefix/suffix constraints
   if (constraints.prefix) {
-    chain.methods.push(`.startsWith("${constraints.prefix}")`);
+    check("prefix", `(v) => v.startsWith("${escapeString(constraints.prefix)}")`, `Must start with ${escapeString(constraints.prefix)}`);
   }
   if (constraints.suffix) {
-    chain.methods.push(`.endsWith("${constraints.suffix}")`);
+    check("suffix", `(v) => v.endsWith("${escapeString(constraints.suffix)}")`, `Must end with ${escapeString(constraints.suffix)}`);
   }
   if (constraints.contains) {
-    chain.methods.push(`.includes("${constraints.contains}")`);
+    check("contains", `(v) => v.includes("${escapeString(constraints.contains)}")`, `Must contain ${escapeString(constraints.contains)}`);
+  }
+  if (constraints.notContains) {
+    check("not_contains", `(v) => !v.includes("${escapeString(constraints.notContains)}")`, `Must not contain ${escapeString(constraints.notContains)}`);
+  }
+
+  if (constraints.in && constraints.in.length > 0) {
+    const values = constraints.in.map((v: string) => `"${escapeString(v)}"`).join(", ");
+    check("in", `(v) => [${values}].includes(v)`, `Must be one of: ${escapeString(constraints.in.join(", "))}`);
+  }
+  if (constraints.notIn && constraints.notIn.length > 0) {
+    const values = constraints.notIn.map((v: string) => `"${escapeString(v)}"`).join(", ");
+    check("not_in", `(v) => ![${values}].includes(v)`, `Must not be one of: ${escapeString(constraints.notIn.join(", "))}`);
   }
 
   // Well-known format constraints (check wellKnown oneof)
   const wellKnown = constraints.wellKnown;
-  if (wellKnown) {
-    switch (wellKnown.case) {
-      case "email":
-        if (wellKnown.value) chain.methods.push(".email()");
-        break;
-      case "hostname":
-        if (wellKnown.value) chain.methods.push('.regex(/^[a-zA-Z0-9][a-zA-Z0-9-]*$/)');
-        break;
-      case "ip":
-        if (wellKnown.value) chain.methods.push(".ip()");
-        break;
-      case "ipv4":
-        if (wellKnown.value) chain.methods.push('.ip({ version: "v4" })');
-        break;
-      case "ipv6":
-        if (wellKnown.value) chain.methods.push('.ip({ version: "v6" })');
-        break;
-      case "uri":
-        if (wellKnown.value) chain.methods.push(".url()");
-        break;
-      case "uuid":
-        if (wellKnown.value) chain.methods.push(".uuid()");
-        break;
+  if (wellKnown && wellKnown.value) {
+    // An unset `strict` means strict header validation
+    const strict = !isFieldSet(constraints, StringRulesSchema.field.strict) || constraints.strict;
+    methods.push(...buildWellKnownStringMethods(wellKnown.case, wellKnown.value, strict, chain));
+  }
+
+}
+
+/**
+ * Builds the Zod methods for a StringRules.well_known format
+ *
+ * As in protovalidate, the empty string fails a separate `<rule>_empty` rule
+ * for the formats that have one.
+ */
+function buildWellKnownStringMethods(
+  format: string,
+  value: unknown,
+  strict: boolean,
+  chain: ValidationChain
+): string[] {
+  const rule = `string.${toSnakeCase(format)}`;
+  const check = (predicate: string, message: string, helper?: FormatHelper) => {
+    if (helper) {
+      chain.helpers.add(helper);
     }
+    return [
+      ruleRefinement(chain, rule, '(v) => v !== ""', message, `${rule}_empty`),
+      ruleRefinement(chain, rule, `(v) => v === "" || ${predicate}`, message),
+    ];
+  };
+
+  switch (format) {
+    case "email":
+      // protovalidate follows the HTML5 definition rather than RFC 5322
+      return check("z.regexes.html5Email.test(v)", "Must be a valid email address");
+    case "hostname":
+      return check("isHostname(v)", "Must be a valid hostname", "isHostname");
+    case "ip":
+      return check("isIp(v, 0)", "Must be a valid IP address", "isIp");
+    case "ipv4":
+      return check("isIp(v, 4)", "Must be a valid IPv4 address", "isIp");
+    case "ipv6":
+      return check("isIp(v, 6)", "Must be a valid IPv6 address", "isIp");
+    case "uri":
+      return check("isUriReference(v, true)", "Must be a valid URI", "isUriReference");
+    case "uriRef":
+      // The empty string is a valid (relative) URI reference
+      chain.helpers.add("isUriReference");
+      return [ruleRefinement(chain, rule, "(v) => isUriReference(v, false)", "Must be a valid URI reference")];
+    case "address":
+      chain.helpers.add("isHostname");
+      return check("(isHostname(v) || isIp(v, 0))", "Must be a valid hostname or IP address", "isIp");
+    case "uuid":
+      // Any hex UUID is accepted, regardless of version and variant bits
+      return check("z.regexes.guid.test(v)", "Must be a valid UUID");
+    case "tuuid":
+      return check("/^[0-9a-fA-F]{32}$/.test(v)", "Must be a valid trimmed UUID");
+    case "ipWithPrefixlen":
+      return check("isIpPrefix(v, 0, false)", "Must be a valid IP address with prefix length", "isIpPrefix");
+    case "ipv4WithPrefixlen":
+      return check("isIpPrefix(v, 4, false)", "Must be a valid IPv4 address with prefix length", "isIpPrefix");
+    case "ipv6WithPrefixlen":
+      return check("isIpPrefix(v, 6, false)", "Must be a valid IPv6 address with prefix length", "isIpPrefix");
+    case "ipPrefix":
+      return check("isIpPrefix(v, 0, true)", "Must be a valid IP prefix", "isIpPrefix");
+    case "ipv4Prefix":
+      return check("isIpPrefix(v, 4, true)", "Must be a valid IPv4 prefix", "isIpPrefix");
+    case "ipv6Prefix":
+      return check("isIpPrefix(v, 6, true)", "Must be a valid IPv6 prefix", "isIpPrefix");
+    case "hostAndPort":
+      return check("isHostAndPort(v, true)", "Must be a valid host and port pair", "isHostAndPort");
+    case "ulid":
+      return check("z.regexes.ulid.test(v)", "Must be a valid ULID");
+    case "protobufFqn":
+      return check("/^[A-Za-z_][A-Za-z_0-9]*(\\.[A-Za-z_][A-Za-z_0-9]*)*$/.test(v)", "Must be a valid fully-qualified Protobuf name");
+    case "protobufDotFqn":
+      return check("/^\\.[A-Za-z_][A-Za-z_0-9]*(\\.[A-Za-z_][A-Za-z_0-9]*)*$/.test(v)", "Must be a valid fully-qualified Protobuf name with a leading dot");
+    case "wellKnownRegex":
+      // KnownRegex: 1 = HTTP_HEADER_NAME, 2 = HTTP_HEADER_VALUE
+      if (value === 1) {
+        const pattern = strict ? "/^:?[0-9a-zA-Z!#$%&'*+-.^_|~\\x60]+$/" : "/^[^\\x00\\x0A\\x0D]+$/";
+        return [
+          ruleRefinement(chain, rule, '(v) => v !== ""', "Must be a valid HTTP header name", `${rule}.header_name_empty`),
+          ruleRefinement(chain, rule, `(v) => v === "" || ${pattern}.test(v)`, "Must be a valid HTTP header name", `${rule}.header_name`),
+        ];
+      }
+      if (value === 2) {
+        const pattern = strict ? "/^[^\\x00-\\x08\\x0A-\\x1F\\x7F]*$/" : "/^[^\\x00\\x0A\\x0D]*$/";
+        return [ruleRefinement(chain, rule, `(v) => ${pattern}.test(v)`, "Must be a valid HTTP header value", `${rule}.header_value`)];
+      }
+      return [];
   }
+  return [];
+}
+
+/**
+ * Converts a protobuf-es field name back to the name in validate.proto
+ * e.g., "ipv4WithPrefixlen" -> "ipv4_with_prefixlen"
+ */
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
 }
 
 /**
  * Process bytes-specific constraints
  */
 function processBytesConstraints(constraints: any, chain: ValidationChain): void {
+  const { methods, helpers } = chain;
+  const check = (rule: string, predicate: string, message: string) => {
+    methods.push(ruleRefinement(chain, `bytes.${rule}`, predicate, message));
+  };
+
+  if (constraints.const && constraints.const.length > 0) {
+    helpers.add("bytesMatchAt");
+    check("const", `(b) => b.length === ${constraints.const.length} && bytesMatchAt(b, ${toBytesLiteral(constraints.const)}, 0)`, `Must equal 0x${toHex(constraints.const)}`);
+  }
+  if (constraints.len !== undefined && constraints.len > 0n) {
+    check("len", `(b) => b.length === ${Number(constraints.len)}`, `Bytes must be exactly ${constraints.len} bytes`);
+    chain.hints.minLength = chain.hints.maxLength = Number(constraints.len);
+  }
   if (constraints.minLen !== undefined && constraints.minLen > 0n) {
-    chain.methods.push(`.refine((b) => b.length >= ${Number(constraints.minLen)}, { message: "Bytes must be at least ${constraints.minLen} bytes" })`);
+    check("min_len", `(b) => b.length >= ${Number(constraints.minLen)}`, `Bytes must be at least ${constraints.minLen} bytes`);
+    chain.hints.minLength = Number(constraints.minLen);
   }
   // Only generate maxLen if it's explicitly set (> 0), since 0 is the default value
   if (constraints.maxLen !== undefined && constraints.maxLen > 0n) {
-    chain.methods.push(`.refine((b) => b.length <= ${Number(constraints.maxLen)}, { message: "Bytes must be at most ${constraints.maxLen} bytes" })`);
+    check("max_len", `(b) => b.length <= ${Number(constraints.maxLen)}`, `Bytes must be at most ${constraints.maxLen} bytes`);
+    chain.hints.maxLength = Number(constraints.maxLen);
   }
-}
 
-/**
- * Process numeric (integer) constraints
- */
-function processNumericConstraints(constraints: any, chain: ValidationChain): void {
-  // Handle greaterThan oneof
-  const greaterThan = constraints.greaterThan;
-  if (greaterThan) {
-    switch (greaterThan.case) {
-      case "gt":
-        chain.methods.push(`.gt(${Number(greaterThan.value)})`);
-        break;
-      case "gte":
-        chain.methods.push(`.gte(${Number(greaterThan.value)})`);
-        break;
-    }
+  // The pattern applies to the bytes decoded as UTF-8; invalid UTF-8 never matches
+  if (constraints.pattern) {
+    helpers.add("matchesUtf8");
+    chain.bytesPattern = constraints.pattern;
   }
 
-  // Handle lessThan oneof
-  const lessThan = constraints.lessThan;
-  if (lessThan) {
-    switch (lessThan.case) {
-      case "lt":
-        chain.methods.push(`.lt(${Number(lessThan.value)})`);
-        break;
-      case "lte":
-        chain.methods.push(`.lte(${Number(lessThan.value)})`);
-        break;
+  if (constraints.prefix && constraints.prefix.length > 0) {
+    helpers.add("bytesMatchAt");
+    check("prefix", `(b) => bytesMatchAt(b, ${toBytesLiteral(constraints.prefix)}, 0)`, `Must start with 0x${toHex(constraints.prefix)}`);
+  }
+  if (constraints.suffix && constraints.suffix.length > 0) {
+    helpers.add("bytesMatchAt");
+    check("suffix", `(b) => bytesMatchAt(b, ${toBytesLiteral(constraints.suffix)}, b.length - ${constraints.suffix.length})`, `Must end with 0x${toHex(constraints.suffix)}`);
+  }
+  if (constraints.contains && constraints.contains.length > 0) {
+    helpers.add("bytesMatchAt");
+    check("contains", `(b) => b.some((_, i) => bytesMatchAt(b, ${toBytesLiteral(constraints.contains)}, i))`, `Must contain 0x${toHex(constraints.contains)}`);
+  }
+
+  if (constraints.in && constraints.in.length > 0) {
+    helpers.add("bytesMatchAt");
+    const values = constraints.in.map(toBytesLiteral).join(", ");
+    const display = constraints.in.map((v: Uint8Array) => `0x${toHex(v)}`).join(", ");
+    check("in", `(b) => [${values}].some((x) => x.length === b.length && bytesMatchAt(b, x, 0))`, `Must be one of: ${display}`);
+  }
+  if (constraints.notIn && constraints.notIn.length > 0) {
+    helpers.add("bytesMatchAt");
+    const values = constraints.notIn.map(toBytesLiteral).join(", ");
+    const display = constraints.notIn.map((v: Uint8Array) => `0x${toHex(v)}`).join(", ");
+    check("not_in", `(b) => ![${values}].some((x) => x.length === b.length && bytesMatchAt(b, x, 0))`, `Must not be one of: ${display}`);
+  }
+
+  // Well-known formats only constrain the length of the raw bytes, empty bytes fail `<rule>_empty`
+  const wellKnown = constraints.wellKnown;
+  if (wellKnown && wellKnown.value) {
+    const lengths = { ip: [4, 16], ipv4: [4], ipv6: [16], uuid: [16] }[wellKnown.case as string];
+    const display = { ip: "IP address", ipv4: "IPv4 address", ipv6: "IPv6 address", uuid: "UUID" }[wellKnown.case as string];
+    if (lengths) {
+      const rule = `bytes.${wellKnown.case}`;
+      const message = `Must be a valid ${display}`;
+      methods.push(ruleRefinement(chain, rule, "(b) => b.length !== 0", message, `${rule}_empty`));
+      methods.push(ruleRefinement(chain, rule, `(b) => ${["b.length === 0", ...lengths.map((n) => `b.length === ${n}`)].join(" || ")}`, message));
     }
   }
 
+}
+
+export function toBytesLiteral(bytes: Uint8Array): string {
+  return `new Uint8Array([${Array.from(bytes).join(", ")}])`;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Process numeric (integer) constraints
+ */
+function processNumericConstraints(constraints: any, chain: ValidationChain, type: string): void {
+  const toBound = (rule: RangeRule, value: unknown): RangeBound => ({
+    rule,
+    value: Number(value),
+    js: String(Number(value)),
+    display: String(Number(value)),
+  });
+  const bounds = getRangeBounds(constraints, toBound);
+  chain.methods.push(...buildRangeMethods(chain, type, "n", "n", ...bounds));
+  setRangeHints(chain, ...bounds);
+
   // Only generate const constraint if it's explicitly defined
   // Since 0 is the default value for numeric fields in protobuf, we check if const is truthy
   // or if it's actually 0n (checking via the presence of other constraints that would indicate intent)
   // For simplicity, we only generate const if the value is non-zero, as const=0 is extremely rare
   if (constraints.const !== undefined && Number(constraints.const) !== 0) {
-    chain.methods.push(`.refine((n) => n === ${Number(constraints.const)}, { message: "Must equal ${constraints.const}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.const`, `(n) => n === ${Number(constraints.const)}`, `Must equal ${constraints.const}`));
   }
   if (constraints.in && constraints.in.length > 0) {
     const values = constraints.in.map((v: any) => Number(v)).join(", ");
-    chain.methods.push(`.refine((n) => [${values}].includes(n), { message: "Must be one of: ${values}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.in`, `(n) => [${values}].includes(n)`, `Must be one of: ${values}`));
   }
   if (constraints.notIn && constraints.notIn.length > 0) {
     const values = constraints.notIn.map((v: any) => Number(v)).join(", ");
-    chain.methods.push(`.refine((n) => ![${values}].includes(n), { message: "Must not be one of: ${values}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.not_in`, `(n) => ![${values}].includes(n)`, `Must not be one of: ${values}`));
   }
 }
 
 /**
- * Process int64/uint64 constraints (these are strings in TypeScript with forceLong=string)
+ * Process int64/uint64 constraints
+ * Values are compared exactly, as bigints, whatever the forceLong type
  */
-function processInt64Constraints(constraints: any, chain: ValidationChain): void {
-  // Handle greaterThan oneof - use refine since value is a string
-  const greaterThan = constraints.greaterThan;
-  if (greaterThan) {
-    switch (greaterThan.case) {
-      case "gt":
-        chain.methods.push(`.refine((s) => BigInt(s) > ${greaterThan.value}n, { message: "Must be > ${greaterThan.value}" })`);
-        break;
-      case "gte":
-        chain.methods.push(`.refine((s) => BigInt(s) >= ${greaterThan.value}n, { message: "Must be >= ${greaterThan.value}" })`);
-        break;
-    }
-  }
-
-  // Handle lessThan oneof
-  const lessThan = constraints.lessThan;
-  if (lessThan) {
-    switch (lessThan.case) {
-      case "lt":
-        chain.methods.push(`.refine((s) => BigInt(s) < ${lessThan.value}n, { message: "Must be < ${lessThan.value}" })`);
-        break;
-      case "lte":
-        chain.methods.push(`.refine((s) => BigInt(s) <= ${lessThan.value}n, { message: "Must be <= ${lessThan.value}" })`);
-        break;
-    }
-  }
+function processInt64Constraints(constraints: any, chain: ValidationChain, type: string, options: PluginOptions): void {
+  // BigInt() takes strings, safe integers and bigints, but not Long values
+  const value = options.forceLong === "long" ? "BigInt(v.toString())" : "BigInt(v)";
+  const toBound = (rule: RangeRule, bound: unknown): RangeBound => ({
+    rule,
+    value: BigInt(bound as bigint),
+    js: `${bound}n`,
+    display: String(bound),
+  });
+  const bounds = getRangeBounds(constraints, toBound);
+  chain.methods.push(...buildRangeMethods(chain, type, "v", value, ...bounds));
+  setRangeHints(chain, ...bounds);
 
   if (constraints.const !== undefined && Number(constraints.const) !== 0) {
-    chain.methods.push(`.refine((s) => BigInt(s) === ${constraints.const}n, { message: "Must equal ${constraints.const}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.const`, `(v) => ${value} === ${constraints.const}n`, `Must equal ${constraints.const}`));
   }
   if (constraints.in && constraints.in.length > 0) {
     const values = constraints.in.map((v: any) => `${v}n`).join(", ");
-    chain.methods.push(`.refine((s) => [${values}].includes(BigInt(s)), { message: "Must be one of: ${constraints.in.join(", ")}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.in`, `(v) => [${values}].includes(${value})`, `Must be one of: ${constraints.in.join(", ")}`));
   }
   if (constraints.notIn && constraints.notIn.length > 0) {
     const values = constraints.notIn.map((v: any) => `${v}n`).join(", ");
-    chain.methods.push(`.refine((s) => ![${values}].includes(BigInt(s)), { message: "Must not be one of: ${constraints.notIn.join(", ")}" })`);
+    chain.methods.push(ruleRefinement(chain, `${type}.not_in`, `(v) => ![${values}].includes(${value})`, `Must not be one of: ${constraints.notIn.join(", ")}`));
   }
 }
 
 /**
  * Process float/double constraints
  */
-function processFloatConstraints(constraints: any, chain: ValidationChain): void {
-  // Handle greaterThan oneof
-  const greaterThan = constraints.greaterThan;
-  if (greaterThan) {
-    switch (greaterThan.case) {
-      case "gt":
-        chain.methods.push(`.gt(${greaterThan.value})`);
-        break;
-      case "gte":
-        chain.methods.push(`.gte(${greaterThan.value})`);
-        break;
-    }
-  }
-
-  // Handle lessThan oneof
-  const lessThan = constraints.lessThan;
-  if (lessThan) {
-    switch (lessThan.case) {
-      case "lt":
-        chain.methods.push(`.lt(${lessThan.value})`);
-        break;
-      case "lte":
-        chain.methods.push(`.lte(${lessThan.value})`);
-        break;
-    }
-  }
+function processFloatConstraints(constraints: any, chain: ValidationChain, type: string): void {
+  const toBound = (rule: RangeRule, value: unknown): RangeBound => ({
+    rule,
+    value: value as number,
+    js: String(value),
+    display: String(value),
+  });
+  const bounds = getRangeBounds(constraints, toBound);
+  chain.methods.push(...buildRangeMethods(chain, type, "n", "n", ...bounds));
+  setRangeHints(chain, ...bounds);
 
   if (constraints.finite) {
-    chain.methods.push(".finite()");
+    chain.methods.push(ruleRefinement(chain, `${type}.finite`, "(n) => Number.isFinite(n)", "Must be finite"));
   }
 }
 
@@ -319,7 +565,7 @@ function processFloatConstraints(constraints: any, chain: ValidationChain): void
  */
 function processBoolConstraints(constraints: any, chain: ValidationChain): void {
   if (constraints.const !== undefined) {
-    chain.methods.push(`.refine((b) => b === ${constraints.const}, { message: "Must be ${constraints.const}" })`);
+    chain.methods.push(ruleRefinement(chain, "bool.const", `(b) => b === ${constraints.const}`, `Must be ${constraints.const}`));
   }
 }
 
@@ -332,188 +578,227 @@ function processEnumConstraints(constraints: any, chain: ValidationChain): void
   }
   if (constraints.in && constraints.in.length > 0) {
     const values = constraints.in.join(", ");
-    chain.methods.push(`.refine((e) => [${values}].includes(e), { message: "Must be one of: ${values}" })`);
+    chain.methods.push(ruleRefinement(chain, "enum.in", `(e) => [${values}].includes(e)`, `Must be one of: ${values}`));
   }
   if (constraints.notIn && constraints.notIn.length > 0) {
     const values = constraints.notIn.join(", ");
-    chain.methods.push(`.refine((e) => ![${values}].includes(e), { message: "Must not be one of: ${values}" })`);
+    chain.methods.push(ruleRefinement(chain, "enum.not_in", `(e) => ![${values}].includes(e)`, `Must not be one of: ${values}`));
   }
 }
 
 /**
  * Process repeated (array) constraints
  */
-function processRepeatedConstraints(constraints: any, chain: ValidationChain): void {
+function processRepeatedConstraints(constraints: any, chain: ValidationChain, options: PluginOptions): void {
   if (constraints.minItems !== undefined && constraints.minItems > 0n) {
-    chain.methods.push(`.min(${Number(constraints.minItems)})`);
+    chain.methods.push(ruleRefinement(chain, "repeated.min_items", `(arr) => arr.length >= ${Number(constraints.minItems)}`, `Must have at least ${constraints.minItems} items`));
+    chain.hints.minItems = Number(constraints.minItems);
   }
   // Only generate maxItems if it's explicitly set (> 0), since 0 is the default value
   if (constraints.maxItems !== undefined && constraints.maxItems > 0n) {
-    chain.methods.push(`.max(${Number(constraints.maxItems)})`);
+    chain.methods.push(ruleRefinement(chain, "repeated.max_items", `(arr) => arr.length <= ${Number(constraints.maxItems)}`, `Must have at most ${constraints.maxItems} items`));
+    chain.hints.maxItems = Number(constraints.maxItems);
   }
   if (constraints.unique) {
-    chain.methods.push('.refine((arr) => new Set(arr).size === arr.length, { message: "Items must be unique" })');
+    chain.methods.push(ruleRefinement(chain, "repeated.unique", "(arr) => new Set(arr).size === arr.length", "Items must be unique"));
   }
 
   // Process item-level constraints (e.g., repeated.items.string.uuid)
-  const items = constraints.items;
-  if (items && items.type) {
-    const itemType = items.type;
-    switch (itemType.case) {
-      case "string":
-        processStringItemConstraints(itemType.value, chain);
-        break;
-      case "enum":
-        processEnumItemConstraints(itemType.value, chain);
-        break;
-      case "int32":
-      case "uint32":
-      case "sint32":
-      case "fixed32":
-      case "sfixed32":
-        processNumericItemConstraints(itemType.value, chain);
-        break;
-      case "int64":
-      case "uint64":
-      case "sint64":
-      case "fixed64":
-      case "sfixed64":
-        // int64/uint64 items are strings in TypeScript (forceLong=string)
-        processInt64ItemConstraints(itemType.value, chain);
-        break;
-    }
+  if (constraints.items) {
+    chain.items = buildChain(constraints.items, chain.helpers, options, undefined, `${chain.rulePrefix}repeated.items.`);
   }
 }
 
 /**
- * Process string constraints for array items
+ * Process map constraints
  */
-function processStringItemConstraints(constraints: any, chain: ValidationChain): void {
-  // Length constraints
-  if (constraints.minLen !== undefined && constraints.minLen > 0n) {
-    chain.itemMethods.push(`.min(${Number(constraints.minLen)})`);
+function processMapConstraints(constraints: any, chain: ValidationChain, options: PluginOptions, field?: DescField): void {
+  const size = field && usesMapType(field, options) ? "m.size" : "Object.keys(m).length";
+  if (constraints.minPairs !== undefined && constraints.minPairs > 0n) {
+    chain.methods.push(ruleRefinement(chain, "map.min_pairs", `(m) => ${size} >= ${Number(constraints.minPairs)}`, `Map must have at least ${constraints.minPairs} entries`));
+    chain.hints.minItems = Number(constraints.minPairs);
   }
-  if (constraints.maxLen !== undefined && constraints.maxLen > 0n) {
-    chain.itemMethods.push(`.max(${Number(constraints.maxLen)})`);
+  // Only generate maxPairs if it's explicitly set (> 0), since 0 is the default value
+  if (constraints.maxPairs !== undefined && constraints.maxPairs > 0n) {
+    chain.methods.push(ruleRefinement(chain, "map.max_pairs", `(m) => ${size} <= ${Number(constraints.maxPairs)}`, `Map must have at most ${constraints.maxPairs} entries`));
+    chain.hints.maxItems = Number(constraints.maxPairs);
   }
 
-  // Pattern constraint - stored separately to handle optional items
-  if (constraints.pattern) {
-    chain.itemStringPattern = constraints.pattern;
+  // Key and value rules (map.keys / map.values)
+  if (constraints.keys) {
+    chain.keys = buildChain(constraints.keys, chain.helpers, options, undefined, `${chain.rulePrefix}map.keys.`);
   }
+  if (constraints.values) {
+    chain.values = buildChain(constraints.values, chain.helpers, options, undefined, `${chain.rulePrefix}map.values.`);
+  }
+}
 
-  // Prefix/suffix constraints
-  if (constraints.prefix) {
-    chain.itemMethods.push(`.startsWith("${constraints.prefix}")`);
+/**
+ * Process google.protobuf.Timestamp constraints (Date values with useDate=true,
+ * ISO strings with useDate=string, Timestamp messages with useDate=false)
+ * Comparisons are in milliseconds, the precision of Date
+ */
+function processTimestampConstraints(constraints: any, chain: ValidationChain, options: PluginOptions): void {
+  const isMessage = options.useDate === "false";
+  const millis = { true: "d.getTime()", string: "Date.parse(d)", false: "timestampMillis(d)" }[options.useDate];
+  const methods: string[] = [];
+  const toBound = (rule: RangeRule, timestamp: any): RangeBound => {
+    const ms = timestampMillis(timestamp);
+    return { rule, value: BigInt(ms), js: String(ms), display: new Date(ms).toISOString() };
+  };
+
+  if (constraints.const) {
+    const bound = toBound("gt", constraints.const);
+    methods.push(ruleRefinement(chain, "timestamp.const", `(d) => ${millis} === ${bound.js}`, `Must equal ${bound.display}`));
   }
-  if (constraints.suffix) {
-    chain.itemMethods.push(`.endsWith("${constraints.suffix}")`);
+
+  methods.push(...buildRangeMethods(chain, "timestamp", "d", millis, ...getRangeBounds(constraints, toBound)));
+
+  // Relative to the current time, evaluated at validation time
+  if (constraints.greaterThan?.case === "gtNow" && constraints.greaterThan.value) {
+    methods.push(ruleRefinement(chain, "timestamp.gt_now", `(d) => ${millis} > Date.now()`, "Must be in the future"));
+  }
+  if (constraints.lessThan?.case === "ltNow" && constraints.lessThan.value) {
+    methods.push(ruleRefinement(chain, "timestamp.lt_now", `(d) => ${millis} < Date.now()`, "Must be in the past"));
+  }
+  if (constraints.within) {
+    const ms = Number(durationNanos(constraints.within) / 1000000n);
+    methods.push(ruleRefinement(chain, "timestamp.within", `(d) => Math.abs(${millis} - Date.now()) <= ${ms}`, `Must be within ${formatDuration(constraints.within)} of now`));
   }
 
-  // Well-known format constraints
-  const wellKnown = constraints.wellKnown;
-  if (wellKnown) {
-    switch (wellKnown.case) {
-      case "email":
-        if (wellKnown.value) chain.itemMethods.push(".email()");
-        break;
-      case "uuid":
-        if (wellKnown.value) chain.itemMethods.push(".uuid()");
-        break;
-      case "uri":
-        if (wellKnown.value) chain.itemMethods.push(".url()");
-        break;
-      case "ip":
-        if (wellKnown.value) chain.itemMethods.push(".ip()");
-        break;
-      case "ipv4":
-        if (wellKnown.value) chain.itemMethods.push('.ip({ version: "v4" })');
-        break;
-      case "ipv6":
-        if (wellKnown.value) chain.itemMethods.push('.ip({ version: "v6" })');
-        break;
-    }
+  if (isMessage && methods.length > 0) {
+    chain.helpers.add("timestampMillis");
   }
+  chain.methods.push(...methods);
 }
 
 /**
- * Process enum constraints for array items
+ * Process google.protobuf.Duration constraints
+ * Durations are compared exactly, as bigint nanoseconds
  */
-function processEnumItemConstraints(constraints: any, chain: ValidationChain): void {
+function processDurationConstraints(constraints: any, chain: ValidationChain): void {
+  const toBound = (rule: RangeRule, duration: any): RangeBound => {
+    const nanos = durationNanos(duration);
+    return { rule, value: nanos, js: `${nanos}n`, display: formatDuration(duration) };
+  };
+  const methods: string[] = [];
+
+  if (constraints.const) {
+    const bound = toBound("gt", constraints.const);
+    methods.push(ruleRefinement(chain, "duration.const", `(d) => durationNanos(d) === ${bound.js}`, `Must equal ${bound.display}`));
+  }
+
+  methods.push(...buildRangeMethods(chain, "duration", "d", "durationNanos(d)", ...getRangeBounds(constraints, toBound)));
+
+  if (constraints.in && constraints.in.length > 0) {
+    const values = constraints.in.map((d: any) => `${durationNanos(d)}n`).join(", ");
+    methods.push(ruleRefinement(chain, "duration.in", `(d) => [${values}].includes(durationNanos(d))`, `Must be one of: ${constraints.in.map(formatDuration).join(", ")}`));
+  }
   if (constraints.notIn && constraints.notIn.length > 0) {
-    chain.itemEnumNotIn = constraints.notIn.map((v: any) => Number(v));
+    const values = constraints.notIn.map((d: any) => `${durationNanos(d)}n`).join(", ");
+    methods.push(ruleRefinement(chain, "duration.not_in", `(d) => ![${values}].includes(durationNanos(d))`, `Must not be one of: ${constraints.notIn.map(formatDuration).join(", ")}`));
+  }
+
+  if (methods.length > 0) {
+    chain.helpers.add("durationNanos");
+    chain.methods.push(...methods);
   }
 }
 
+export type RangeRule = "gt" | "gte" | "lt" | "lte";
+
+const RANGE_OPERATORS: Record<RangeRule, string> = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+interface RangeBound {
+  /** Rule of the bound, which gives the comparison operator */
+  rule: RangeRule;
+  /** Bound value, to detect exclusive ranges */
+  value: bigint | number;
+  /** Bound as a JavaScript expression */
+  js: string;
+  /** Bound as shown in messages */
+  display: string;
+}
+
 /**
- * Process numeric constraints for array items
+ * Reads the greater_than and less_than oneofs of numeric, Timestamp and Duration rules
+ * (gt_now and lt_now are not bounds)
  */
-function processNumericItemConstraints(constraints: any, chain: ValidationChain): void {
+function getRangeBounds(
+  constraints: any,
+  toBound: (rule: RangeRule, value: unknown) => RangeBound
+): [RangeBound | undefined, RangeBound | undefined] {
   const greaterThan = constraints.greaterThan;
-  if (greaterThan) {
-    switch (greaterThan.case) {
-      case "gt":
-        chain.itemMethods.push(`.gt(${Number(greaterThan.value)})`);
-        break;
-      case "gte":
-        chain.itemMethods.push(`.gte(${Number(greaterThan.value)})`);
-        break;
-    }
-  }
-
   const lessThan = constraints.lessThan;
-  if (lessThan) {
-    switch (lessThan.case) {
-      case "lt":
-        chain.itemMethods.push(`.lt(${Number(lessThan.value)})`);
-        break;
-      case "lte":
-        chain.itemMethods.push(`.lte(${Number(lessThan.value)})`);
-        break;
-    }
-  }
+  const lower = greaterThan?.case === "gt" || greaterThan?.case === "gte" ? toBound(greaterThan.case, greaterThan.value) : undefined;
+  const upper = lessThan?.case === "lt" || lessThan?.case === "lte" ? toBound(lessThan.case, lessThan.value) : undefined;
+  return [lower, upper];
 }
 
 /**
- * Process int64/uint64 constraints for array items (strings with forceLong=string)
+ * Records the bounds of a number as hints, unless they describe an exclusive range
  */
-function processInt64ItemConstraints(constraints: any, chain: ValidationChain): void {
-  const greaterThan = constraints.greaterThan;
-  if (greaterThan) {
-    switch (greaterThan.case) {
-      case "gt":
-        chain.itemMethods.push(`.refine((s) => BigInt(s) > ${greaterThan.value}n, { message: "Must be > ${greaterThan.value}" })`);
-        break;
-      case "gte":
-        chain.itemMethods.push(`.refine((s) => BigInt(s) >= ${greaterThan.value}n, { message: "Must be >= ${greaterThan.value}" })`);
-        break;
-    }
+function setRangeHints(chain: ValidationChain, lower?: RangeBound, upper?: RangeBound): void {
+  if (lower && upper && upper.value < lower.value) {
+    return;
+  }
+  if (lower) {
+    chain.hints.min = Number(lower.value);
+    chain.hints.exclusiveMin = lower.rule === "gt";
   }
+  if (upper) {
+    chain.hints.max = Number(upper.value);
+    chain.hints.exclusiveMax = upper.rule === "lt";
+  }
+}
 
-  const lessThan = constraints.lessThan;
-  if (lessThan) {
-    switch (lessThan.case) {
-      case "lt":
-        chain.itemMethods.push(`.refine((s) => BigInt(s) < ${lessThan.value}n, { message: "Must be < ${lessThan.value}" })`);
-        break;
-      case "lte":
-        chain.itemMethods.push(`.refine((s) => BigInt(s) <= ${lessThan.value}n, { message: "Must be <= ${lessThan.value}" })`);
-        break;
+/**
+ * Builds the checks for a lower and an upper bound
+ *
+ * As in protovalidate, both bounds make a single rule on the lower one
+ * (e.g. "int32.gt_lt"), and an upper bound below the lower bound describes an
+ * exclusive range ("int32.gt_lt_exclusive"), so the value must lie outside of it.
+ */
+function buildRangeMethods(
+  chain: ValidationChain,
+  type: string,
+  param: string,
+  valueJs: string,
+  lower?: RangeBound,
+  upper?: RangeBound
+): string[] {
+  const condition = (bound: RangeBound) => `${valueJs} ${RANGE_OPERATORS[bound.rule]} ${bound.js}`;
+  const display = (bound: RangeBound) => `${RANGE_OPERATORS[bound.rule]} ${bound.display}`;
+
+  if (lower && upper) {
+    const rule = `${type}.${lower.rule}`;
+    const ruleId = `${rule}_${upper.rule}`;
+    if (upper.value < lower.value) {
+      return [ruleRefinement(chain, rule, `(${param}) => ${condition(upper)} || ${condition(lower)}`, `Must be ${display(upper)} or ${display(lower)}`, `${ruleId}_exclusive`)];
     }
+    return [ruleRefinement(chain, rule, `(${param}) => ${condition(lower)} && ${condition(upper)}`, `Must be ${display(lower)} and ${display(upper)}`, ruleId)];
   }
+  return [lower, upper]
+    .filter((bound): bound is RangeBound => bound !== undefined)
+    .map((bound) => ruleRefinement(chain, `${type}.${bound.rule}`, `(${param}) => ${condition(bound)}`, `Must be ${display(bound)}`));
+}
+
+export function timestampMillis(timestamp: { seconds: bigint; nanos: number }): number {
+  return Number(timestamp.seconds) * 1000 + Math.floor(timestamp.nanos / 1000000);
+}
+
+export function durationNanos(duration: { seconds: bigint; nanos: number }): bigint {
+  return duration.seconds * 1000000000n + BigInt(duration.nanos);
 }
 
 /**
- * Process map constraints
+ * Formats a duration like its protobuf JSON form, e.g. "1.5s"
  */
-function processMapConstraints(constraints: any, chain: ValidationChain): void {
-  if (constraints.minPairs !== undefined && constraints.minPairs > 0n) {
-    chain.methods.push(`.refine((m) => Object.keys(m).length >= ${Number(constraints.minPairs)}, { message: "Map must have at least ${constraints.minPairs} entries" })`);
-  }
-  // Only generate maxPairs if it's explicitly set (> 0), since 0 is the default value
-  if (constraints.maxPairs !== undefined && constraints.maxPairs > 0n) {
-    chain.methods.push(`.refine((m) => Object.keys(m).length <= ${Number(constraints.maxPairs)}, { message: "Map must have at most ${constraints.maxPairs} entries" })`);
-  }
+function formatDuration(duration: { seconds: bigint; nanos: number }): string {
+  const nanos = durationNanos(duration);
+  const abs = nanos < 0n ? -nanos : nanos;
+  const fraction = (abs % 1000000000n).toString().padStart(9, "0").replace(/0+$/, "");
+  return `${nanos < 0n ? "-" : ""}${abs / 1000000000n}${fraction ? `.${fraction}` : ""}s`;
 }
 
 /**
@@ -528,7 +813,26 @@ export function isFieldRequired(field: DescField): boolean {
     if (!hasExtension(options, fieldExtension)) {
       return false;
     }
-    const constraints = getExtension(options, fieldExtension) as { required?: boolean };
+    const constraints = getExtension(options, fieldExtension) as FieldRules;
+    return constraints?.ignore !== IGNORE_ALWAYS && (constraints?.required ?? false);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a oneof group is marked as required via buf.validate.oneof
+ */
+export function isOneofRequired(oneof: DescOneof): boolean {
+  try {
+    const options = oneof.proto.options;
+    if (!options) {
+      return false;
+    }
+    if (!hasExtension(options, oneofExtension)) {
+      return false;
+    }
+    const constraints = getExtension(options, oneofExtension) as { required?: boolean };
     return constraints?.required ?? false;
   } catch {
     return false;
@@ -536,8 +840,88 @@ export function isFieldRequired(field: DescField): boolean {
 }
 
 /**
- * Get enum values excluding UNSPECIFIED (value 0) for defined_only constraint
+ * Get the CEL rules of a field ((buf.validate.field).cel and cel_expression)
+ */
+export function getFieldCelRules(field: DescField): CelRule[] {
+  try {
+    const options = field.proto.options;
+    if (!options || !hasExtension(options, fieldExtension)) {
+      return [];
+    }
+    const constraints = getExtension(options, fieldExtension);
+    // IGNORE_ALWAYS disables CEL rules as well
+    return constraints.ignore === IGNORE_ALWAYS ? [] : toCelRules(constraints);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the buf.validate rules of a field, unless absent or ignored (IGNORE_ALWAYS)
+ */
+export function getFieldRules(field: DescField): FieldRules | undefined {
+  try {
+    const options = field.proto.options;
+    if (!options || !hasExtension(options, fieldExtension)) {
+      return undefined;
+    }
+    const constraints = getExtension(options, fieldExtension) as FieldRules;
+    return constraints.ignore === IGNORE_ALWAYS ? undefined : constraints;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the typed rules of a field (e.g. the StringRules for `string.min_len`),
+ * which CEL rules on the field can read through `rules`
+ */
+export function getFieldTypedRules(field: DescField): object | undefined {
+  try {
+    const options = field.proto.options;
+    if (!options || !hasExtension(options, fieldExtension)) {
+      return undefined;
+    }
+    const constraints = getExtension(options, fieldExtension) as { type?: { case?: string; value?: object } };
+    return constraints?.type?.case ? constraints.type.value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the CEL rules of a message ((buf.validate.message).cel and cel_expression)
+ */
+export function getMessageCelRules(message: DescMessage): CelRule[] {
+  try {
+    const options = message.proto.options;
+    if (!options || !hasExtension(options, messageExtension)) {
+      return [];
+    }
+    return toCelRules(getExtension(options, messageExtension));
+  } catch {
+    return [];
+  }
+}
+
+function toCelRules(constraints: { cel?: Omit<CelRule, "path">[]; celExpression?: string[] } | undefined): CelRule[] {
+  const rules = (constraints?.cel ?? []).map((rule, index) => ({
+    id: rule.id,
+    message: rule.message,
+    expression: rule.expression,
+    path: `cel[${index}]`,
+  }));
+  // cel_expression is shorthand for a rule whose id is the expression itself
+  (constraints?.celExpression ?? []).forEach((expression, index) => {
+    rules.push({ id: expression, message: "", expression, path: `cel_expression[${index}]` });
+  });
+  return rules;
+}
+
+/**
+ * Get the defined numbers of an enum for the defined_only constraint
+ * The zero value is defined like any other; rejecting it is left to `required`.
  */
 export function getDefinedEnumValues(enumType: DescEnum): number[] {
-  return enumType.values.filter(v => v.number !== 0).map(v => v.number);
+  return Array.from(new Set(enumType.values.map(v => v.number)));
 }
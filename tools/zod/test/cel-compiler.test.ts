@@ -0,0 +1,241 @@
+/**
+ * Tests of the CEL compiler: each supported operator, function and macro,
+ * evaluated on golden.v1.UploadSampleRequest, and each error path
+ *
+ * Run with `npm run test:zod`.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createFileRegistry, fromBinary } from "@bufbuild/protobuf";
+import { FileDescriptorSetSchema } from "@bufbuild/protobuf/wkt";
+import type { GeneratedFile } from "@bufbuild/protoplugin";
+import ts from "typescript";
+import {
+  CelUnsupportedError,
+  compileCelExpression,
+  createFieldEnvironment,
+  createMessageEnvironment,
+} from "../src/cel-compiler.js";
+import { printFormatHelpers, type FormatHelper } from "../src/format-helpers.js";
+import type { PluginOptions } from "../src/generator.js";
+import { printPatternConstants, type PatternTable } from "../src/patterns.js";
+
+// Compiled to tools/zod/dist/test/test, the images are read from the repository
+const IMAGE = join(__dirname, "../../../../../tools/zod/test/images/fixtures.binpb");
+const registry = createFileRegistry(fromBinary(FileDescriptorSetSchema, readFileSync(IMAGE)));
+const sample = registry.getMessage("golden.v1.UploadSampleRequest")!;
+
+// Same defaults as the plugin
+const options: PluginOptions = {
+  includeResponses: false,
+  oneof: "properties",
+  runtime: "ts-proto",
+  forceLong: "string",
+  useDate: "true",
+  jsonSchema: "none",
+  clients: false,
+  servers: false,
+  forms: false,
+  fixtures: false,
+  arbitraries: false,
+};
+
+interface Compiled {
+  js: string;
+  patterns: PatternTable;
+  /** Evaluates the expression with `v` bound to a message */
+  evaluate: (v: object) => unknown;
+}
+
+/**
+ * Compiles an expression on the message, or on one of its fields with the given typed rules,
+ * along with the helpers and regex constants a generated file would declare
+ */
+function compile(expression: string, field?: string, rules?: object): Compiled {
+  const patterns: PatternTable = new Map();
+  const helpers = new Set<FormatHelper>();
+  const desc = field === undefined ? undefined : sample.fields.find((candidate) => candidate.name === field)!;
+  const env = desc
+    ? createFieldEnvironment(desc, "v", options, patterns, helpers, rules)
+    : createMessageEnvironment(sample, "v", options, patterns, helpers);
+  const { js } = compileCelExpression(expression, env);
+
+  const lines: string[] = [];
+  const f = { print: (...parts: unknown[]) => lines.push(parts.join("")) } as unknown as GeneratedFile;
+  printFormatHelpers(f, helpers);
+  printPatternConstants(f, patterns);
+  const declarations = ts.transpileModule(lines.join("\n"), { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+  const evaluate = new Function("v", `${declarations}\nreturn ${js};`) as (v: object) => unknown;
+  return { js, patterns, evaluate };
+}
+
+const evaluate = (expression: string, v: object = {}) => compile(expression).evaluate(v);
+const evaluateField = (field: string, expression: string, v: object, rules?: object) => compile(expression, field, rules).evaluate(v);
+
+const unsupported = (expression: string, message: RegExp) =>
+  assert.throws(() => compile(expression), (error) => error instanceof CelUnsupportedError && message.test(error.message), expression);
+
+describe("compileCelExpression", () => {
+  it("compiles literals and arithmetic", () => {
+    for (const expression of [
+      "1 + 2 * 3 == 7",
+      "7 / 2 == 3 && -7 / 2 == -3",
+      "7 % 3 == 1 && -7 % 3 == -1",
+      "3u - 1u == 2u",
+      "0x10 == 16",
+      "2.5 * 2.0 == 5.0 && 1.0 / 4.0 == 0.25",
+      "-(1 - 3) == 2",
+      '"a" + "b" == "ab"',
+      "'\\x41\\u00e9' == r'Aé'",
+      "size([1, 2] + [3]) == 3",
+      "1 == 1.0 && 1u < 2",
+    ]) {
+      assert.equal(evaluate(expression), true, expression);
+    }
+  });
+
+  it("compiles comparisons, logical operators and the conditional", () => {
+    const message = { count: 5, size: "9007199254740993", score: 0.5, tags: ["a", "b"], accepted: true };
+    assert.equal(evaluate("this.count < 10 && this.count >= 5 && this.count != 4", message), true);
+    assert.equal(evaluate("this.size > 9007199254740992", message), true);
+    assert.equal(evaluate("this.score > 0 || false", message), true);
+    assert.equal(evaluate('!this.accepted || this.tags[0] <= "b"', message), true);
+    assert.equal(evaluate('this.count > 5 ? "too many" : ""', message), "");
+    assert.equal(evaluate('this.count > 4 ? "too many" : ""', message), "too many");
+  });
+
+  it("substitutes zero values for unset fields", () => {
+    assert.equal(evaluate('this.count == 0 && this.ref == "" && !this.accepted && size(this.tags) == 0 && size(this.limits) == 0'), true);
+    assert.equal(evaluate('this.owner.name == ""'), true);
+  });
+
+  it("compiles in on lists and maps", () => {
+    const message = { tags: ["a"], limits: { x: 1 }, history: [1] };
+    assert.equal(evaluate('"a" in this.tags && !("b" in this.tags)', message), true);
+    assert.equal(evaluate('"x" in this.limits && !("y" in this.limits)', message), true);
+    assert.equal(evaluate("1 in this.history", message), true);
+  });
+
+  it("compiles indexing and map selection", () => {
+    const message = { tags: ["a", "b"], limits: { x: 1 } };
+    assert.equal(evaluate('this.tags[1] == "b" && this.tags[1u] == "b"', message), true);
+    assert.equal(evaluate('this.limits["x"] == 1 && this.limits.x == 1', message), true);
+  });
+
+  it("compiles has() following proto3 presence", () => {
+    assert.equal(evaluate("has(this.created_at) || has(this.count) || has(this.tags) || has(this.limits)", { count: 0, tags: [] }), false);
+    assert.equal(evaluate("has(this.created_at) && has(this.count) && has(this.tags)", { createdAt: new Date(0), count: 1, tags: ["a"] }), true);
+    assert.equal(evaluate('has(this.limits.x)', { limits: { x: 0 } }), true);
+  });
+
+  it("compiles the string and list functions", () => {
+    const message = { ref: "refs/heads/main", tags: ["a", "b"], digest: new Uint8Array([1, 2]) };
+    assert.equal(evaluate('this.ref.startsWith("refs/") && this.ref.endsWith("main") && this.ref.contains("heads")', message), true);
+    assert.equal(evaluate('size("😀") == 1 && size(this.ref) == 15 && this.tags.size() == 2 && size(this.digest) == 2', message), true);
+    assert.equal(evaluate("this.tags.unique() && ![1, 1].unique()", message), true);
+    assert.equal(evaluate("(0.0 / 0.0).isNan() && isInf(1.0 / 0.0) && !isInf(1.0)"), true);
+  });
+
+  it("compiles the conversions", () => {
+    assert.equal(evaluate('int("42") == 42 && uint(3) == 3u && int(2.9) == 2 && int(-2.9) == -2'), true);
+    assert.equal(evaluate('double(2) == 2.0 && double("1.5") == 1.5'), true);
+    assert.equal(evaluate('string(5) == "5" && string(true) == "true"'), true);
+    assert.equal(evaluate('duration("1m30s") == duration("90s") && duration("1.5s") == duration("1500ms")'), true);
+    assert.equal(evaluate('int(timestamp("2024-01-01T00:00:00Z")) == 1704067200'), true);
+  });
+
+  it("compiles timestamp and duration arithmetic", () => {
+    const message = { createdAt: new Date("2024-01-01T00:00:00Z"), timeout: { seconds: "2", nanos: 500_000_000 } };
+    assert.equal(evaluate('this.created_at + duration("1h") > this.created_at && this.created_at < now', message), true);
+    assert.equal(evaluate('this.created_at - timestamp("2023-12-31T23:00:00Z") == duration("1h")', message), true);
+    assert.equal(evaluate('this.timeout == duration("2.5s") && this.timeout - duration("1s") > duration("1s")', message), true);
+    assert.equal(evaluate('this.created_at - duration("1h") == timestamp("2023-12-31T23:00:00Z")', message), true);
+  });
+
+  it("compiles the comprehension macros on lists and map keys", () => {
+    const message = { tags: ["a", "bb", "cc"], limits: { x: 1, y: 2 } };
+    assert.equal(evaluate("this.tags.all(t, size(t) > 0)", message), true);
+    assert.equal(evaluate("this.tags.all(t, size(t) > 1)", message), false);
+    assert.equal(evaluate('this.tags.exists(t, t == "bb")', message), true);
+    assert.equal(evaluate("this.tags.exists_one(t, size(t) == 2)", message), false);
+    assert.equal(evaluate("this.tags.exists_one(t, size(t) == 1)", message), true);
+    assert.equal(evaluate('this.limits.all(k, this.limits[k] > 0) && this.limits.exists(k, k == "y")', message), true);
+    assert.equal(evaluate("this.tags.all(t, this.tags.exists(t, size(t) > 1))", message), true);
+  });
+
+  it("compiles field rules with this bound to the field and rules to the typed rules", () => {
+    assert.equal(evaluateField("ref", "size(this) <= rules.max_len", { ref: "main" }, { maxLen: 4n }), true);
+    assert.equal(evaluateField("tags", "this.all(t, t.matches(rules.pattern))", { tags: ["a1"] }, { pattern: "^[a-z0-9]+$" }), true);
+    assert.equal(evaluateField("tags", "this[0] == 'a'", { tags: ["a"] }), true);
+  });
+
+  it("declares each matches() pattern once, with its RE2 flags", () => {
+    const { js, patterns, evaluate: run } = compile('this.ref.matches("(?i)^[a-z]+$") && matches(this.slug, "(?i)^[a-z]+$")');
+    assert.equal(patterns.size, 1);
+    assert.match(js, /^\(PATTERN_1\.test\(/);
+    assert.equal(run({ ref: "Main", slug: "dev" }), true);
+    assert.equal(run({ ref: "main", slug: "" }), false);
+  });
+
+  it("raises the CEL evaluation errors", () => {
+    assert.throws(() => evaluate("1 / this.count == 0", { count: 0 }), /^Error: division by zero$/);
+    assert.throws(() => evaluate("this.offset % 0u == 0u"), /^Error: modulus by zero$/);
+    assert.throws(() => evaluate('this.tags[1] == "a"', { tags: ["a"] }), /^Error: index out of range: 1$/);
+    assert.throws(() => evaluate('this.tags[-1] == "a"', { tags: ["a"] }), /^Error: index out of range: -1$/);
+    assert.throws(() => evaluate('this.limits["y"] == 1', { limits: { x: 1 } }), /^Error: no such key: y$/);
+    assert.throws(() => evaluate("this.limits.y == 1", { limits: { x: 1 } }), /^Error: no such key: y$/);
+    assert.throws(() => evaluate('int("forty-two") == 42'), SyntaxError);
+    // Double division by zero is not an error
+    assert.equal(evaluate("1.0 / 0.0 > 0.0"), true);
+  });
+
+  it("rejects syntax outside the CEL grammar", () => {
+    unsupported("1 +", /syntax error: unexpected end of expression/);
+    unsupported("(1 == 1", /syntax error: expected "\)"/);
+    unsupported("1 == 1 1", /syntax error: unexpected "1"/);
+    unsupported('"abc', /unterminated string literal/);
+    unsupported('"""abc"""', /triple-quoted strings/);
+    unsupported('"\\q" == ""', /invalid escape sequence/);
+    unsupported("1 # 1", /unexpected character "#"/);
+    unsupported("{} == {}", /map and message literals/);
+  });
+
+  it("rejects expressions outside the supported subset", () => {
+    unsupported("1 + 2", /must evaluate to bool or string, got int/);
+    unsupported("other == 1", /unknown identifier "other"/);
+    unsupported("this.missing == 1", /no field "missing" in golden.v1.UploadSampleRequest/);
+    unsupported('1 + "a" == 1', /operator "\+" is not defined for int and string/);
+    unsupported("1 + 1u == 2", /operator "\+" is not defined for int and uint/);
+    unsupported("1.0 % 2.0 == 1.0", /operator "%" is not defined for double and double/);
+    unsupported("!1", /operand of ! must be bool, got int/);
+    unsupported("1 in 2", /operator "in" is not defined/);
+    unsupported("this.count.size() == 1", /size\(\) is not defined for int/);
+    unsupported("this.ref.startsWith() ", /startsWith\(\) expects 1 argument/);
+    unsupported("this.ref.upperAscii() == 'A'", /function "upperAscii" is not supported/);
+    unsupported("has(this)", /has\(\) expects a single field selection/);
+    unsupported("this.tags.all(1, true)", /all\(\) expects a variable name and a predicate/);
+    unsupported("this.count.all(t, true)", /all\(\) is not defined for int/);
+    unsupported("this.tags.all(t, t)", /all\(\) predicate must be bool, got string/);
+    unsupported("this.tags['a'] == 'a'", /list index must be int or uint, got string/);
+    unsupported("this.count[0] == 1", /cannot index int/);
+    unsupported("this.count.x == 1", /cannot select "x" from int/);
+    unsupported("duration(this.ref) == duration('1s')", /duration\(\) only supports string literals/);
+    unsupported("duration('1 day') == duration('1s')", /invalid duration "1 day"/);
+    unsupported("timestamp('yesterday') < now", /invalid timestamp "yesterday"/);
+    unsupported("rules == 1", /`rules` can only be used to select a rule value/);
+    unsupported("rules.max_len == 1", /`rules` is only available in field rules/);
+  });
+
+  it("rejects matches() patterns that are not constant or that JavaScript cannot match", () => {
+    unsupported("this.ref.matches(this.slug)", /matches\(\) only supports constant patterns/);
+    unsupported('this.ref.matches("^\\\\pL+$")', /pattern "\^\\pL\+\$" of matches\(\): Unicode classes/);
+    unsupported('this.ref.matches("^a(?i)b$")', /inline flags are only supported at the start/);
+    assert.throws(
+      () => compile("this.matches(rules.pattern)", "ref", {}),
+      (error) => error instanceof CelUnsupportedError && /cannot resolve rules.pattern/.test(error.message)
+    );
+  });
+});
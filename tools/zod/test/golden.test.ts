@@ -0,0 +1,765 @@
+/**
+ * Golden-file tests for protoc-gen-zod
+ *
+ * Each variant reads a checked-in descriptor set of protos, hands the resulting
+ * CodeGeneratorRequest to protocGenZod in-process and compares the output with
+ * the checked-in files in ./golden/<variant>. The output is then type-checked
+ * together with the ts-proto or protobuf-es code it imports, generated from the
+ * same request.
+ *
+ * Run with `npm run test:golden`. Set UPDATE_GOLDEN=1 to rewrite the golden
+ * files after an intended change, and review the diff. The descriptor sets in
+ * ./images pin the protos and their imports (buf/validate/validate.proto
+ * included), so the tests need no buf registry: rebuild them with
+ * `npm run test:golden:images` after changing proto/ or ./fixtures.
+ */
+
+import { after, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { EventEmitter, once } from "node:events";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import {
+  CodeGeneratorRequestSchema,
+  CodeGeneratorResponseSchema,
+  FileDescriptorSetSchema,
+  type CodeGeneratorRequest,
+  type FileDescriptorSet,
+} from "@bufbuild/protobuf/wkt";
+import { BinaryReader, WireType } from "@bufbuild/protobuf/wire";
+import {
+  credentials,
+  Server,
+  ServerCredentials,
+  status,
+  type sendUnaryData,
+  type ServerUnaryCall,
+  type StatusObject,
+} from "@grpc/grpc-js";
+import ts from "typescript";
+import fc from "fast-check";
+import type { z } from "zod";
+import Ajv2020 from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import type { Runtime } from "../src/generator.js";
+import { protocGenZod } from "../src/plugin.js";
+
+// Compiled to tools/zod/dist/test/test, the sources are read from the repository
+const ROOT = join(__dirname, "../../../../..");
+const GOLDEN_DIR = join(ROOT, "tools/zod/test/golden");
+const IMAGES_DIR = join(ROOT, "tools/zod/test/images");
+const TYPECHECK_DIR = join(ROOT, "tools/zod/dist/test/typecheck");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+// Same options as buf.gen.ts.yaml
+const TS_PROTO_PARAMETER = [
+  "outputServices=grpc-js",
+  "outputClientImpl=grpc-js",
+  "env=node",
+  "esModuleInterop=true",
+  "exportCommonSymbols=false",
+  "useOptionals=messages",
+  "useDate=true",
+  "forceLong=string",
+  "importSuffix=.js",
+  "snakeToCamel=keys",
+  "esLintDisable=true",
+].join(",");
+
+// Same import style as the ts-proto options
+const PROTOC_GEN_ES_PARAMETER = "target=ts,import_extension=js";
+
+interface Variant {
+  /** Directory of the golden files, under ./golden */
+  name: string;
+  /** Descriptor set of the protos, under ./images */
+  image: "proto" | "fixtures";
+  /** Files to generate, by path prefix */
+  generate: string[];
+  /** protoc-gen-zod parameter */
+  parameter: string;
+  /** Runtime the schemas are generated for, ts-proto by default */
+  runtime?: Runtime;
+  /** Extra ts-proto options, to keep both sides in agreement (e.g. the oneof style) */
+  tsProtoParameter?: string;
+}
+
+const VARIANTS: Variant[] = [
+  {
+    name: "agentic_mesh_protocol",
+    image: "proto",
+    generate: ["agentic_mesh_protocol/"],
+    // Same options as buf.gen.ts.yaml
+    parameter: "target=ts,include_responses=true,clients=true,servers=true",
+  },
+  {
+    name: "fixtures",
+    image: "fixtures",
+    generate: ["golden/"],
+    parameter: "target=ts",
+  },
+  {
+    name: "fixtures_include_responses",
+    image: "fixtures",
+    generate: ["golden/v1/oneofs.proto"],
+    parameter: "target=ts,include_responses=true",
+  },
+  {
+    name: "fixtures_oneof_unions",
+    image: "fixtures",
+    generate: ["golden/v1/oneofs.proto"],
+    parameter: "target=ts,oneof=unions",
+    tsProtoParameter: "oneof=unions",
+  },
+  {
+    name: "fixtures_oneof_unions_value",
+    image: "fixtures",
+    generate: ["golden/v1/oneofs.proto"],
+    parameter: "target=ts,oneof=unions-value",
+    tsProtoParameter: "oneof=unions-value",
+  },
+  {
+    name: "fixtures_long_number_date_string",
+    image: "fixtures",
+    generate: ["golden/v1/longs.proto", "golden/v1/recursive.proto"],
+    parameter: "target=ts,forceLong=number,useDate=string",
+    tsProtoParameter: "forceLong=number,useDate=string",
+  },
+  {
+    name: "fixtures_long_long_date_false",
+    image: "fixtures",
+    generate: ["golden/v1/longs.proto", "golden/v1/recursive.proto"],
+    parameter: "target=ts,forceLong=long,useDate=false",
+    tsProtoParameter: "forceLong=long,useDate=false",
+  },
+  {
+    name: "fixtures_long_bigint",
+    image: "fixtures",
+    generate: ["golden/v1/longs.proto", "golden/v1/recursive.proto"],
+    parameter: "target=ts,forceLong=bigint",
+    tsProtoParameter: "forceLong=bigint",
+  },
+  {
+    name: "fixtures_json_schema",
+    image: "fixtures",
+    generate: ["golden/"],
+    parameter: "target=ts,json_schema=json",
+  },
+  {
+    name: "fixtures_json_schema_ts",
+    image: "fixtures",
+    generate: ["golden/v1/recursive.proto"],
+    parameter: "target=ts,json_schema=ts",
+  },
+  {
+    name: "fixtures_clients",
+    image: "fixtures",
+    generate: ["golden/v1/oneofs.proto", "golden/v1/repeated.proto", "golden/v1/services.proto"],
+    parameter: "target=ts,clients=true",
+  },
+  {
+    name: "fixtures_servers",
+    image: "fixtures",
+    generate: ["golden/v1/oneofs.proto", "golden/v1/repeated.proto", "golden/v1/services.proto"],
+    parameter: "target=ts,include_responses=true,servers=true",
+  },
+  {
+    name: "fixtures_forms",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/forms.proto"],
+    parameter: "target=ts,forms=true",
+  },
+  {
+    name: "fixtures_fixtures",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto"],
+    parameter: "target=ts,fixtures=true",
+  },
+  {
+    name: "fixtures_fixtures_unions_long",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto"],
+    parameter: "target=ts,fixtures=true,oneof=unions,forceLong=long,useDate=false",
+    tsProtoParameter: "oneof=unions,forceLong=long,useDate=false",
+  },
+  {
+    name: "fixtures_fixtures_protobuf_es",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto"],
+    parameter: "target=ts,fixtures=true,runtime=protobuf-es",
+    runtime: "protobuf-es",
+  },
+  {
+    name: "fixtures_arbitraries",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto", "golden/v1/longs.proto"],
+    parameter: "target=ts,arbitraries=true",
+  },
+  {
+    name: "fixtures_arbitraries_unions_long",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto", "golden/v1/longs.proto"],
+    parameter: "target=ts,arbitraries=true,oneof=unions,forceLong=long,useDate=false",
+    tsProtoParameter: "oneof=unions,forceLong=long,useDate=false",
+  },
+  {
+    name: "fixtures_arbitraries_protobuf_es",
+    image: "fixtures",
+    generate: ["golden/v1/enums.proto", "golden/v1/samples.proto", "golden/v1/recursive.proto", "golden/v1/maps.proto", "golden/v1/longs.proto"],
+    parameter: "target=ts,arbitraries=true,runtime=protobuf-es",
+    runtime: "protobuf-es",
+  },
+  {
+    name: "fixtures_protobuf_es",
+    image: "fixtures",
+    generate: ["golden/"],
+    parameter: "target=ts,include_responses=true,runtime=protobuf-es",
+    runtime: "protobuf-es",
+  },
+];
+
+const images = new Map<string, FileDescriptorSet>();
+
+/**
+ * Reads a descriptor set of ./images, imports included
+ */
+function loadImage(name: Variant["image"]): FileDescriptorSet {
+  let image = images.get(name);
+  if (!image) {
+    // A buf image is a FileDescriptorSet with extra fields on its files
+    image = fromBinary(FileDescriptorSetSchema, readFileSync(join(IMAGES_DIR, `${name}.binpb`)));
+    images.set(name, image);
+  }
+  return image;
+}
+
+function createRequest(variant: Variant, parameter: string, generate = variant.generate): CodeGeneratorRequest {
+  const image = loadImage(variant.image);
+  return create(CodeGeneratorRequestSchema, {
+    fileToGenerate: image.file
+      .map((file) => file.name)
+      .filter((name) => generate.some((prefix) => name.startsWith(prefix))),
+    parameter,
+    protoFile: image.file,
+  });
+}
+
+/**
+ * Runs protocGenZod in-process, returns the generated files by name
+ */
+function generateZod(variant: Variant): Map<string, string> {
+  const response = protocGenZod.run(createRequest(variant, variant.parameter));
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return new Map(response.file.map((file) => [file.name, file.content]));
+}
+
+/**
+ * ts-proto options of a variant, its own replacing the defaults of the same key
+ * (ts-proto reads repeated options as a list, which matches no value)
+ */
+function tsProtoParameter(variant: Variant): string {
+  const own = variant.tsProtoParameter?.split(",") ?? [];
+  const keys = own.map((option) => option.split("=")[0]);
+  return [...TS_PROTO_PARAMETER.split(",").filter((option) => !keys.includes(option.split("=")[0])), ...own].join(",");
+}
+
+/**
+ * Runs ts-proto or protoc-gen-es on the same request, for the types and enums
+ * the schemas import
+ */
+function generateRuntime(variant: Variant): Map<string, string> {
+  const runtime = variant.runtime ?? "ts-proto";
+  const request = runtime === "protobuf-es"
+    // protobuf-es code imports the descriptors of its dependencies
+    ? createRequest(variant, PROTOC_GEN_ES_PARAMETER, [...variant.generate, "buf/validate/"])
+    : createRequest(variant, tsProtoParameter(variant));
+  const plugin = runtime === "protobuf-es"
+    ? require.resolve("@bufbuild/protoc-gen-es/bin/protoc-gen-es")
+    : require.resolve("ts-proto");
+  const result = spawnSync(process.execPath, [plugin], {
+    input: toBinary(CodeGeneratorRequestSchema, request),
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  if (result.error || result.status !== 0) {
+    throw new Error(`${runtime} failed: ${result.error?.message ?? result.stderr.toString()}`);
+  }
+  const response = fromBinary(CodeGeneratorResponseSchema, result.stdout);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return new Map(response.file.map((file) => [file.name, file.content]));
+}
+
+/**
+ * Lists the files under a directory, as paths relative to it
+ */
+function listFiles(dir: string, root = dir): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => entry.isDirectory()
+      ? listFiles(join(dir, entry.name), root)
+      : [relative(root, join(dir, entry.name))])
+    .sort();
+}
+
+function writeFiles(dir: string, files: Map<string, string>): void {
+  for (const [name, content] of files) {
+    mkdirSync(dirname(join(dir, name)), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+}
+
+/**
+ * Emits the output of a variant as CommonJS next to the runtime code, to be
+ * loaded by the tests, and returns the generated files
+ */
+function emitCommonJs(variant: Variant, dir: string): Map<string, string> {
+  rmSync(dir, { recursive: true, force: true });
+  const zodFiles = generateZod(variant);
+  const runtimeFiles = generateRuntime(variant);
+  writeFiles(dir, runtimeFiles);
+  writeFiles(dir, zodFiles);
+  const program = ts.createProgram(
+    [...runtimeFiles.keys(), ...zodFiles.keys()].map((name) => join(dir, name)),
+    {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      outDir: dir,
+      rootDir: dir,
+    }
+  );
+  assert.equal(program.emit().emitSkipped, false);
+  return zodFiles;
+}
+
+/**
+ * Type-checks files with the compiler options of tsconfig.gen.json
+ */
+function typeCheck(dir: string, files: string[]): string {
+  const program = ts.createProgram(
+    files.map((name) => join(dir, name)),
+    {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      lib: ["lib.es2020.d.ts"],
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      isolatedModules: true,
+      noEmit: true,
+    }
+  );
+  const diagnostics = ts.getPreEmitDiagnostics(program);
+  return ts.formatDiagnostics(diagnostics, {
+    getCanonicalFileName: (name) => name,
+    getCurrentDirectory: () => dir,
+    getNewLine: () => "\n",
+  });
+}
+
+for (const variant of VARIANTS) {
+  describe(variant.name, () => {
+    const goldenDir = join(GOLDEN_DIR, variant.name);
+
+    it("matches the golden files", () => {
+      const generated = generateZod(variant);
+
+      if (UPDATE) {
+        rmSync(goldenDir, { recursive: true, force: true });
+        writeFiles(goldenDir, generated);
+        return;
+      }
+
+      assert.deepEqual(
+        Array.from(generated.keys()).sort(),
+        listFiles(goldenDir),
+        "generated files differ from the golden files (UPDATE_GOLDEN=1 to update)"
+      );
+      for (const [name, content] of generated) {
+        assert.equal(
+          content,
+          readFileSync(join(goldenDir, name), "utf8"),
+          `${name} differs from its golden file (UPDATE_GOLDEN=1 to update)`
+        );
+      }
+    });
+
+    it(`type-checks with the ${variant.runtime ?? "ts-proto"} output`, () => {
+      const dir = join(TYPECHECK_DIR, variant.name);
+      rmSync(dir, { recursive: true, force: true });
+      const zodFiles = generateZod(variant);
+      writeFiles(dir, generateRuntime(variant));
+      writeFiles(dir, zodFiles);
+
+      const tsFiles = Array.from(zodFiles.keys()).filter((name) => name.endsWith(".ts"));
+      assert.equal(typeCheck(dir, tsFiles), "");
+    });
+  });
+}
+
+describe("json schema", () => {
+  const variant = VARIANTS.find((v) => v.name === "fixtures_json_schema")!;
+  // Oneof alternatives list required properties declared by the enclosing object
+  const ajv = new Ajv2020({ strict: true, strictRequired: false });
+  addFormats(ajv);
+  const schemas = new Map<string, object>();
+  for (const [name, content] of generateZod(variant)) {
+    if (name.endsWith(".json")) {
+      for (const [typeName, schema] of Object.entries(JSON.parse(content))) {
+        schemas.set(typeName, schema as object);
+      }
+    }
+  }
+  const validate = (typeName: string, value: unknown) => ajv.validate(schemas.get(typeName)!, value);
+
+  it("compiles every message schema as draft 2020-12", () => {
+    assert.ok(schemas.size > 0);
+    for (const [typeName, schema] of schemas) {
+      assert.doesNotThrow(() => ajv.compile(schema), typeName);
+    }
+  });
+
+  it("validates the proto3 JSON form of messages", () => {
+    assert.equal(validate("golden.v1.Expr", { binary: { op: "+", left: { literal: "1" }, right: { literal: "-2" } } }), true);
+    assert.equal(validate("golden.v1.Expr", { binary: { op: "*", left: {}, right: {} } }), false);
+    assert.equal(validate("golden.v1.Expr", { literal: "1", binary: { op: "+", left: {}, right: {} } }), false);
+    assert.equal(validate("golden.v1.Expr", { literal: 1 }), false);
+
+    assert.equal(validate("golden.v1.GetItemRequest", { name: "a" }), true);
+    assert.equal(validate("golden.v1.GetItemRequest", { name: "" }), false);
+    assert.equal(validate("golden.v1.GetItemRequest", {}), false);
+    assert.equal(validate("golden.v1.GetItemRequest", { name: "a", unknownField: 1 }), false);
+  });
+});
+
+describe("fixtures", () => {
+  const RUN_DIR = join(ROOT, "tools/zod/dist/test/fixtures");
+
+  /**
+   * Rule ids of the issues of a ZodError, with the codes of the issues without one
+   */
+  const ruleIds = (issues: readonly z.core.$ZodIssue[]): string[] => issues.flatMap((issue) => {
+    switch (issue.code) {
+      case "custom":
+        return [issue.params?.ruleId];
+      case "invalid_union":
+        return [issue.code, ...issue.errors.flatMap(ruleIds)];
+      case "invalid_key":
+      case "invalid_element":
+        return [issue.code, ...ruleIds(issue.issues)];
+      default:
+        return [issue.code];
+    }
+  });
+
+  for (const variant of VARIANTS.filter((v) => v.parameter.includes("fixtures=true"))) {
+    it(`${variant.name}: samples pass and invalid fixtures fail their rule`, () => {
+      const dir = join(RUN_DIR, variant.name);
+      const zodFiles = emitCommonJs(variant, dir);
+
+      let checked = 0;
+      for (const name of zodFiles.keys()) {
+        if (!name.endsWith("_fixtures.ts")) {
+          continue;
+        }
+        const fixtures = require(join(dir, name.replace(/\.ts$/, ".js")));
+        const schemas = require(join(dir, name.replace(/_fixtures\.ts$/, "_zod.js")));
+        for (const [exported, sample] of Object.entries<(seed?: number) => unknown>(fixtures)) {
+          const message = /^sample(.+)$/.exec(exported)?.[1];
+          if (!message) {
+            continue;
+          }
+          const schema = schemas[`${message}Schema`];
+          for (const seed of [1, 2, 3]) {
+            const result = schema.safeParse(sample(seed));
+            assert.ok(result.success, `sample${message}(${seed}): ${result.error?.message}`);
+          }
+          assert.deepEqual(sample(7), sample(7), `sample${message} is deterministic`);
+
+          for (const fixture of fixtures[`invalid${message}Fixtures`]()) {
+            const result = schema.safeParse(fixture.value);
+            const ids = result.success ? [] : ruleIds(result.error.issues);
+            // Zod reports a missing value by the kind of the schema, and protobuf-es
+            // enums (without UNRECOGNIZED) reject undefined numbers before the rule
+            const expected =
+              fixture.ruleId === "required" ? ["required", "invalid_type", "invalid_value", "custom"]
+              : fixture.ruleId === "enum.defined_only" ? ["enum.defined_only", "invalid_value"]
+              : [fixture.ruleId];
+            assert.ok(
+              ids.some((id) => expected.includes(id)),
+              `${message} ${fixture.field} should fail ${fixture.ruleId}, got ${ids.join(", ") || "no issues"}`
+            );
+            checked++;
+          }
+        }
+      }
+      assert.ok(checked > 0);
+    });
+  }
+});
+
+describe("arbitraries", () => {
+  const RUN_DIR = join(ROOT, "tools/zod/dist/test/arbitraries");
+
+  for (const variant of VARIANTS.filter((v) => v.parameter.includes("arbitraries=true"))) {
+    it(`${variant.name}: arbitrary messages pass their schema`, () => {
+      const dir = join(RUN_DIR, variant.name);
+      const zodFiles = emitCommonJs(variant, dir);
+
+      let checked = 0;
+      for (const name of zodFiles.keys()) {
+        if (!name.endsWith("_arbitraries.ts")) {
+          continue;
+        }
+        const arbitraries = require(join(dir, name.replace(/\.ts$/, ".js")));
+        const schemas = require(join(dir, name.replace(/_arbitraries\.ts$/, "_zod.js")));
+        // ts-proto messages are encoded by the objects of their name
+        const codecs = variant.runtime === "protobuf-es" ? {} : require(join(dir, name.replace(/_arbitraries\.ts$/, ".js")));
+        for (const [exported, arbitrary] of Object.entries<() => fc.Arbitrary<unknown>>(arbitraries)) {
+          const type = /^arbitrary(.+)$/.exec(exported)?.[1];
+          const schema = type && schemas[`${type}Schema`];
+          if (!schema) {
+            continue;
+          }
+          fc.assert(
+            fc.property(arbitrary(), (value) => {
+              const result = schema.safeParse(value);
+              assert.ok(result.success, `${exported}: ${result.error?.message}`);
+            }),
+            { seed: 1, numRuns: 30, includeErrorInReport: true }
+          );
+          // and survive a round trip through the wire format, unset scalars taking their default.
+          // ts-proto holds bool-keyed maps in a Map, which the schemas type as records
+          const codec = codecs[type];
+          const holdsMaps = typeof codec?.fromPartial === "function" &&
+            Object.values(codec.fromPartial({})).some((value) => value instanceof Map);
+          if (typeof codec?.encode === "function" && !holdsMaps) {
+            fc.assert(
+              fc.property(arbitrary(), (value) => {
+                const bytes = codec.encode(codec.fromPartial(value)).finish();
+                assert.deepEqual(codec.encode(codec.decode(bytes)).finish(), bytes, `${exported} round trip`);
+              }),
+              { seed: 1, numRuns: 30, includeErrorInReport: true }
+            );
+          }
+          checked++;
+        }
+      }
+      assert.ok(checked > 0);
+    });
+  }
+});
+
+describe("clients", () => {
+  const RUN_DIR = join(ROOT, "tools/zod/dist/test/clients");
+  // The clients, with the response schemas
+  const variant = { ...VARIANTS.find((v) => v.name === "fixtures_clients")!, parameter: "target=ts,include_responses=true,clients=true" };
+
+  it("validates requests and responses around a grpc-js server, and cancels calls", async () => {
+    const dir = join(RUN_DIR, variant.name);
+    emitCommonJs(variant, dir);
+    const { ItemServiceClient, ItemServiceService } = require(join(dir, "golden/v1/services.js"));
+    const { createItemServicePromiseClient } = require(join(dir, "golden/v1/services_client.js"));
+
+    // The server records the requests it receives, and leaves the "hang" ones unanswered
+    const requests: unknown[] = [];
+    const hanging = new EventEmitter();
+    const server = new Server();
+    server.addService(ItemServiceService, {
+      getItem: (call: ServerUnaryCall<{ name?: string }, unknown>, callback: sendUnaryData<unknown>) => {
+        requests.push(call.request);
+        if (call.request.name === "hang") {
+          hanging.emit("call", call);
+          return;
+        }
+        // Missing the required item unless asked for a valid response
+        callback(null, call.request.name === "valid" ? { item: { id: randomUUID() } } : {});
+      },
+    });
+    after(() => server.forceShutdown());
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync("127.0.0.1:0", ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)))
+    );
+    const client = new ItemServiceClient(`127.0.0.1:${port}`, credentials.createInsecure());
+    after(() => client.close());
+
+    // Invalid requests are rejected before they are sent
+    const items = createItemServicePromiseClient(client);
+    await assert.rejects(items.getItem({ name: "" }), { name: "ZodError" });
+    assert.deepEqual(requests, []);
+
+    // Responses are only validated when asked for
+    assert.deepEqual(await items.getItem({ name: "invalid" }), { item: undefined });
+    const validating = createItemServicePromiseClient(client, { validateResponses: true });
+    await assert.rejects(validating.getItem({ name: "invalid" }), { name: "ZodError" });
+    assert.ok((await validating.getItem({ name: "valid" })).item);
+
+    // Aborting cancels the call, and rejects with the reason
+    const controller = new AbortController();
+    const received = once(hanging, "call");
+    const call = items.getItem({ name: "hang" }, { signal: controller.signal });
+    const [serverCall] = await received;
+    const cancelled = once(serverCall, "cancelled");
+    controller.abort(new Error("stop"));
+    await assert.rejects(call, { message: "stop" });
+    await cancelled;
+  });
+});
+
+describe("servers", () => {
+  const RUN_DIR = join(ROOT, "tools/zod/dist/test/servers");
+  const variant = VARIANTS.find((v) => v.name === "fixtures_servers")!;
+
+  /**
+   * Reads the fields of a protobuf message: varints as numbers, length-delimited fields as bytes
+   */
+  const readFields = (bytes: Uint8Array): [number, number | Uint8Array][] => {
+    const reader = new BinaryReader(bytes);
+    const fields: [number, number | Uint8Array][] = [];
+    while (reader.pos < reader.len) {
+      const [fieldNo, wireType] = reader.tag();
+      fields.push([fieldNo, wireType === WireType.Varint ? reader.int32() : reader.bytes()]);
+    }
+    return fields;
+  };
+  const text = (value: number | Uint8Array | undefined) => new TextDecoder().decode(value as Uint8Array);
+
+  /**
+   * Decodes the google.rpc.Status of grpc-status-details-bin, with its google.rpc.BadRequest detail
+   */
+  const decodeStatusDetails = (error: Partial<StatusObject>) => {
+    const [details] = error.metadata?.get("grpc-status-details-bin") ?? [];
+    const status = readFields(details as Buffer);
+    const any = readFields(status.find(([fieldNo]) => fieldNo === 3)?.[1] as Uint8Array);
+    const badRequest = readFields(any.find(([fieldNo]) => fieldNo === 2)?.[1] as Uint8Array);
+    return {
+      code: status.find(([fieldNo]) => fieldNo === 1)?.[1],
+      typeUrl: text(any.find(([fieldNo]) => fieldNo === 1)?.[1]),
+      fieldViolations: badRequest.map(([, violation]) => {
+        const fields = new Map(readFields(violation as Uint8Array));
+        return { field: text(fields.get(1)), description: text(fields.get(2)), reason: text(fields.get(3)) };
+      }),
+    };
+  };
+
+  it("answers invalid requests with a BadRequest naming the proto fields", async () => {
+    const dir = join(RUN_DIR, variant.name);
+    emitCommonJs(variant, dir);
+    const { withItemServiceValidation } = require(join(dir, "golden/v1/services_server.js"));
+    let handled = 0;
+    const service = withItemServiceValidation({
+      getItem: () => handled++,
+      watchItems: () => handled++,
+      uploadItems: () => handled++,
+      ping: () => handled++,
+    });
+
+    const unary = await new Promise<Partial<StatusObject>>((resolve) =>
+      service.getItem({ request: { ref: { id: "not a uuid" } } }, resolve)
+    );
+    assert.equal(unary.code, status.INVALID_ARGUMENT);
+    assert.deepEqual(decodeStatusDetails(unary), {
+      code: status.INVALID_ARGUMENT,
+      typeUrl: "type.googleapis.com/google.rpc.BadRequest",
+      fieldViolations: [{ field: "ref.id", description: "Must be a valid UUID", reason: "string.uuid" }],
+    });
+
+    // Server-streaming calls end with the error event
+    const call = Object.assign(new EventEmitter(), { request: { itemIds: [randomUUID(), "not a uuid"] }, write: () => true });
+    const streaming = new Promise<Partial<StatusObject>>((resolve) => call.once("error", resolve));
+    service.watchItems(call);
+    assert.deepEqual(decodeStatusDetails(await streaming).fieldViolations, [
+      { field: "item_ids[1]", description: "Must be a valid UUID", reason: "string.uuid" },
+    ]);
+    assert.equal(handled, 0);
+  });
+});
+
+describe("options", () => {
+  const fixtures = VARIANTS.find((v) => v.name === "fixtures")!;
+
+  it("rejects an unknown oneof style", () => {
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,oneof=bogus" }),
+      /invalid oneof option "bogus", expected one of: properties, unions, unions-value/
+    );
+  });
+
+  it("rejects an unknown runtime and ts-proto options for protobuf-es", () => {
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,runtime=bogus" }),
+      /invalid runtime option "bogus", expected one of: ts-proto, protobuf-es/
+    );
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,runtime=protobuf-es,oneof=unions" }),
+      /the oneof option only applies to runtime=ts-proto/
+    );
+  });
+
+  it("rejects an unknown forceLong or useDate and their use with protobuf-es", () => {
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,forceLong=int" }),
+      /invalid forceLong option "int", expected one of: string, number, long, bigint/
+    );
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,useDate=iso" }),
+      /invalid useDate option "iso", expected one of: true, false, string/
+    );
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,runtime=protobuf-es,useDate=false" }),
+      /the useDate option only applies to runtime=ts-proto/
+    );
+  });
+
+  it("rejects an unknown json_schema output", () => {
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,json_schema=yaml" }),
+      /invalid json_schema option "yaml", expected one of: none, json, ts/
+    );
+  });
+
+  it("rejects clients and servers for protobuf-es", () => {
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,runtime=protobuf-es,clients=true" }),
+      /the clients option only applies to runtime=ts-proto/
+    );
+    assert.throws(
+      () => generateZod({ ...fixtures, parameter: "target=ts,runtime=protobuf-es,servers=true" }),
+      /the servers option only applies to runtime=ts-proto/
+    );
+  });
+
+  it("skips responses unless include_responses=true", () => {
+    const isResponseSchema = (files: Map<string, string>) =>
+      Array.from(files.values()).some((content) => content.includes("GetItemResponseSchema"));
+
+    assert.equal(isResponseSchema(generateZod(fixtures)), false);
+    assert.equal(isResponseSchema(generateZod({ ...fixtures, parameter: "target=ts,include_responses=true" })), true);
+    assert.equal(isResponseSchema(generateZod({ ...fixtures, parameter: "target=ts,include_responses=false" })), false);
+  });
+
+  it("warns once per skipped method when generating clients and servers", () => {
+    const clients = VARIANTS.find((v) => v.name === "fixtures_clients")!;
+    const warn = mock.method(console, "error", () => {});
+    try {
+      generateZod({ ...clients, parameter: "target=ts,clients=true,servers=true" });
+    } finally {
+      warn.mock.restore();
+    }
+    assert.deepEqual(
+      warn.mock.calls.map((call) => call.arguments[0]),
+      ["Warning: Skipping golden.v1.ItemService.UploadItems in the promise client and validation wrapper: client_streaming calls are not supported"]
+    );
+  });
+});
@@ -0,0 +1,115 @@
+// @generated from file agentic_mesh_protocol/cost/v1/cost_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { CostServiceClient } from "./cost_service.js";
+import type { AddCostRequest, AddCostResponse, GetCostConfigRequest, GetCostConfigResponse, GetCostRequest, GetCostResponse, GetCostsRequest, GetCostsResponse, SetCostConfigRequest, SetCostConfigResponse } from "./cost.js";
+import { AddCostRequestSchema, AddCostResponseSchema, GetCostConfigRequestSchema, GetCostConfigResponseSchema, GetCostRequestSchema, GetCostResponseSchema, GetCostsRequestSchema, GetCostsResponseSchema, SetCostConfigRequestSchema, SetCostConfigResponseSchema } from "./cost_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based CostService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.cost.v1.CostService
+ */
+export interface CostServicePromiseClient {
+  /**
+   * Calls CostService.AddCost
+   * @generated from rpc agentic_mesh_protocol.cost.v1.CostService.AddCost
+   */
+  addCost(request: AddCostRequest, settings?: CallSettings): Promise<AddCostResponse>;
+  /**
+   * Calls CostService.GetCost
+   * @generated from rpc agentic_mesh_protocol.cost.v1.CostService.GetCost
+   */
+  getCost(request: GetCostRequest, settings?: CallSettings): Promise<GetCostResponse>;
+  /**
+   * Calls CostService.GetCosts
+   * @generated from rpc agentic_mesh_protocol.cost.v1.CostService.GetCosts
+   */
+  getCosts(request: GetCostsRequest, settings?: CallSettings): Promise<GetCostsResponse>;
+  /**
+   * Calls CostService.GetCostConfig
+   * @generated from rpc agentic_mesh_protocol.cost.v1.CostService.GetCostConfig
+   */
+  getCostConfig(request: GetCostConfigRequest, settings?: CallSettings): Promise<GetCostConfigResponse>;
+  /**
+   * Calls CostService.SetCostConfig
+   * @generated from rpc agentic_mesh_protocol.cost.v1.CostService.SetCostConfig
+   */
+  setCostConfig(request: SetCostConfigRequest, settings?: CallSettings): Promise<SetCostConfigResponse>;
+}
+
+/**
+ * Wraps a ts-proto CostServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.cost.v1.CostService
+ */
+export function createCostServicePromiseClient(
+  client: CostServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): CostServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    addCost: (request, settings = {}) =>
+      unaryCall(request, AddCostRequestSchema, validateResponses ? AddCostResponseSchema : undefined, settings, (metadata, options, callback) => client.addCost(request, metadata, options, callback)),
+    getCost: (request, settings = {}) =>
+      unaryCall(request, GetCostRequestSchema, validateResponses ? GetCostResponseSchema : undefined, settings, (metadata, options, callback) => client.getCost(request, metadata, options, callback)),
+    getCosts: (request, settings = {}) =>
+      unaryCall(request, GetCostsRequestSchema, validateResponses ? GetCostsResponseSchema : undefined, settings, (metadata, options, callback) => client.getCosts(request, metadata, options, callback)),
+    getCostConfig: (request, settings = {}) =>
+      unaryCall(request, GetCostConfigRequestSchema, validateResponses ? GetCostConfigResponseSchema : undefined, settings, (metadata, options, callback) => client.getCostConfig(request, metadata, options, callback)),
+    setCostConfig: (request, settings = {}) =>
+      unaryCall(request, SetCostConfigRequestSchema, validateResponses ? SetCostConfigResponseSchema : undefined, settings, (metadata, options, callback) => client.setCostConfig(request, metadata, options, callback)),
+  };
+}
+
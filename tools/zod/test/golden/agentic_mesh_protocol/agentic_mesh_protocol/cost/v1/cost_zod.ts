@@ -0,0 +1,254 @@
+// @generated from file agentic_mesh_protocol/cost/v1/cost.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { CostType } from "./cost.js";
+
+/**
+ * CostType represents the classification of cost types in the system.
+ * @generated from enum agentic_mesh_protocol.cost.v1.CostType
+ */
+export const CostTypeSchema = z.enum(CostType).describe("CostType represents the classification of cost types in the system.");
+export type CostTypeType = z.infer<typeof CostTypeSchema>;
+
+/**
+ * Map of CostType enum values to string representations
+ * @generated from enum agentic_mesh_protocol.cost.v1.CostType
+ */
+export const COST_TYPE_MAP: Record<number, string> = {
+  /** UNSPECIFIED is the default unspecified value. */
+  0: "UNSPECIFIED",
+  /** TOKEN_INPUT represents token input costs. */
+  1: "TOKEN_INPUT",
+  /** TOKEN_OUTPUT represents token output costs. */
+  2: "TOKEN_OUTPUT",
+  /** API_CALL represents API call costs. */
+  3: "API_CALL",
+  /** STORAGE represents storage costs. */
+  4: "STORAGE",
+  /** TIME represents time-based costs. */
+  5: "TIME",
+  /** OTHER represents other types of costs. */
+  6: "OTHER",
+};
+
+/**
+ * Map of string representations to CostType enum values
+ * @generated from enum agentic_mesh_protocol.cost.v1.CostType
+ */
+export const STRING_TO_COST_TYPE: Record<string, CostType> = {
+  /** TOKEN_INPUT represents token input costs. */
+  TOKEN_INPUT: CostType.TOKEN_INPUT,
+  /** TOKEN_OUTPUT represents token output costs. */
+  TOKEN_OUTPUT: CostType.TOKEN_OUTPUT,
+  /** API_CALL represents API call costs. */
+  API_CALL: CostType.API_CALL,
+  /** STORAGE represents storage costs. */
+  STORAGE: CostType.STORAGE,
+  /** TIME represents time-based costs. */
+  TIME: CostType.TIME,
+  /** OTHER represents other types of costs. */
+  OTHER: CostType.OTHER,
+};
+
+/**
+ * Cost represents a cost entry with comprehensive tracking information.
+ * @generated from message agentic_mesh_protocol.cost.v1.Cost
+ */
+export const CostSchema = z.object({
+  /** cost is the total cost value. */
+  cost: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("cost is the total cost value."),
+  /** mission_id is the mission ID linked to this cost. */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id is the mission ID linked to this cost."),
+  /** name is the descriptive name of the cost. */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name is the descriptive name of the cost."),
+  /** cost_type is the classification of the cost. */
+  costType: z.enum(CostType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("cost_type is the classification of the cost."),
+  /** unit is the unit of measurement for the cost (e.g., "tokens", "calls", "GB"). */
+  unit: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("unit is the unit of measurement for the cost (e.g., \"tokens\", \"calls\", \"GB\")."),
+  /** rate is the cost per unit. */
+  rate: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("rate is the cost per unit."),
+  /** setup_version_id is the setup version ID associated with this cost. */
+  setupVersionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix" } }).describe("setup_version_id is the setup version ID associated with this cost."),
+  /** quantity is the number of units consumed. */
+  quantity: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("quantity is the number of units consumed."),
+}).describe("Cost represents a cost entry with comprehensive tracking information.");
+
+export type Cost = z.infer<typeof CostSchema>;
+
+/**
+ * AddCostRequest is the request message for adding a cost entry.
+ * @generated from message agentic_mesh_protocol.cost.v1.AddCostRequest
+ */
+export const AddCostRequestSchema = z.object({
+  /** cost is the total cost value. */
+  cost: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("cost is the total cost value."),
+  /** mission_id is the mission ID to link this cost to. */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id is the mission ID to link this cost to."),
+  /** name is the descriptive name for this cost. */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name is the descriptive name for this cost."),
+  /** cost_type is the classification of the cost. */
+  costType: z.enum(CostType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("cost_type is the classification of the cost."),
+  /** unit is the unit of measurement (e.g., "tokens", "calls", "GB"). */
+  unit: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("unit is the unit of measurement (e.g., \"tokens\", \"calls\", \"GB\")."),
+  /** rate is the cost per unit. */
+  rate: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("rate is the cost per unit."),
+  /** setup_version_id is the setup version ID to associate with this cost. */
+  setupVersionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix" } }).describe("setup_version_id is the setup version ID to associate with this cost."),
+  /** quantity is the number of units consumed. */
+  quantity: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).describe("quantity is the number of units consumed."),
+}).describe("AddCostRequest is the request message for adding a cost entry.");
+
+export type AddCostRequest = z.infer<typeof AddCostRequestSchema>;
+
+/**
+ * AddCostResponse is the response message for adding a cost entry.
+ * @generated from message agentic_mesh_protocol.cost.v1.AddCostResponse
+ */
+export const AddCostResponseSchema = z.object({
+  /** success indicates whether the cost was successfully added. */
+  success: z.boolean().optional().describe("success indicates whether the cost was successfully added."),
+}).describe("AddCostResponse is the response message for adding a cost entry.");
+
+export type AddCostResponse = z.infer<typeof AddCostResponseSchema>;
+
+/**
+ * CostFilter contains criteria for filtering cost queries.
+ * @generated from message agentic_mesh_protocol.cost.v1.CostFilter
+ */
+export const CostFilterSchema = z.object({
+  /** names filters costs by one or more names. */
+  names: z.array(z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len", rule: "repeated.items.string.min_len" } })).optional().describe("names filters costs by one or more names."),
+  /** cost_types filters costs by cost type classifications. */
+  costTypes: z.array(z.enum(CostType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("cost_types filters costs by cost type classifications."),
+  /** setup_version_ids filters costs by setup version IDs. */
+  setupVersionIds: z.array(z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len", rule: "repeated.items.string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix", rule: "repeated.items.string.prefix" } })).optional().describe("setup_version_ids filters costs by setup version IDs."),
+}).describe("CostFilter contains criteria for filtering cost queries.");
+
+export type CostFilter = z.infer<typeof CostFilterSchema>;
+
+/**
+ * GetCostRequest is the request message for retrieving costs by name.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostRequest
+ */
+export const GetCostRequestSchema = z.object({
+  /** mission_id is the mission ID to query costs for. */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id is the mission ID to query costs for."),
+  /** name is the specific cost name to retrieve. */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name is the specific cost name to retrieve."),
+}).describe("GetCostRequest is the request message for retrieving costs by name.");
+
+export type GetCostRequest = z.infer<typeof GetCostRequestSchema>;
+
+/**
+ * CostConfig represents a cost configuration entry defining pricing structure.
+ * @generated from message agentic_mesh_protocol.cost.v1.CostConfig
+ */
+export const CostConfigSchema = z.object({
+  /** name is the unique identifier for this cost configuration. */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name is the unique identifier for this cost configuration."),
+  /** cost_type is the classification of this cost configuration. */
+  costType: z.enum(CostType).refine((v) => [0, 1, 2, 3, 4, 5, 6].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).describe("cost_type is the classification of this cost configuration."),
+  /** description provides context about this cost configuration. */
+  description: z.string().optional().describe("description provides context about this cost configuration."),
+  /** unit is the measurement unit (e.g., "tokens", "calls", "MB"). */
+  unit: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("unit is the measurement unit (e.g., \"tokens\", \"calls\", \"MB\")."),
+  /** rate is the cost per unit in dollars. */
+  rate: z.number().refine((n) => n > 0, { message: "Must be > 0", params: { ruleId: "double.gt" } }).describe("rate is the cost per unit in dollars."),
+}).describe("CostConfig represents a cost configuration entry defining pricing structure.");
+
+export type CostConfig = z.infer<typeof CostConfigSchema>;
+
+/**
+ * GetCostConfigRequest is the request for retrieving cost configurations.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostConfigRequest
+ */
+export const GetCostConfigRequestSchema = z.object({
+  /** setup_version_id identifies the setup version to get cost config for. */
+  setupVersionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix" } }).describe("setup_version_id identifies the setup version to get cost config for."),
+}).describe("GetCostConfigRequest is the request for retrieving cost configurations.");
+
+export type GetCostConfigRequest = z.infer<typeof GetCostConfigRequestSchema>;
+
+/**
+ * SetCostConfigResponse is the response for storing cost configurations.
+ * @generated from message agentic_mesh_protocol.cost.v1.SetCostConfigResponse
+ */
+export const SetCostConfigResponseSchema = z.object({
+  /** success indicates whether the storage was successful. */
+  success: z.boolean().optional().describe("success indicates whether the storage was successful."),
+}).describe("SetCostConfigResponse is the response for storing cost configurations.");
+
+export type SetCostConfigResponse = z.infer<typeof SetCostConfigResponseSchema>;
+
+/**
+ * GetCostsResponse is the response message containing multiple costs.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostsResponse
+ */
+export const GetCostsResponseSchema = z.object({
+  /** costs is the list of matching cost entries. */
+  costs: z.array(CostSchema).optional().describe("costs is the list of matching cost entries."),
+  /** total_count is the total number of costs matching the criteria. */
+  totalCount: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_count is the total number of costs matching the criteria."),
+  /** total_cost is the sum of all matching cost values. */
+  totalCost: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).optional().describe("total_cost is the sum of all matching cost values."),
+}).describe("GetCostsResponse is the response message containing multiple costs.");
+
+export type GetCostsResponse = z.infer<typeof GetCostsResponseSchema>;
+
+/**
+ * GetCostResponse is the response message for cost retrieval by name.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostResponse
+ */
+export const GetCostResponseSchema = z.object({
+  /** costs is the list of cost entries matching the name. */
+  costs: z.array(CostSchema).optional().describe("costs is the list of cost entries matching the name."),
+  /** total_cost is the sum of all matching cost values. */
+  totalCost: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).optional().describe("total_cost is the sum of all matching cost values."),
+}).describe("GetCostResponse is the response message for cost retrieval by name.");
+
+export type GetCostResponse = z.infer<typeof GetCostResponseSchema>;
+
+/**
+ * GetCostsRequest is the request message for retrieving multiple costs.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostsRequest
+ */
+export const GetCostsRequestSchema = z.object({
+  /** mission_id is the mission ID to query costs for. */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id is the mission ID to query costs for."),
+  /** filter contains optional filtering criteria. */
+  filter: CostFilterSchema.optional().describe("filter contains optional filtering criteria."),
+  /** limit is the maximum number of costs to return. */
+  limit: z.number().int().refine((n) => n >= 1 && n <= 1000, { message: "Must be >= 1 and <= 1000", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("limit is the maximum number of costs to return."),
+  /** offset is the number of costs to skip for pagination. */
+  offset: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("offset is the number of costs to skip for pagination."),
+}).describe("GetCostsRequest is the request message for retrieving multiple costs.");
+
+export type GetCostsRequest = z.infer<typeof GetCostsRequestSchema>;
+
+/**
+ * GetCostConfigResponse is the response containing cost configurations.
+ * @generated from message agentic_mesh_protocol.cost.v1.GetCostConfigResponse
+ */
+export const GetCostConfigResponseSchema = z.object({
+  /** success indicates whether the retrieval was successful. */
+  success: z.boolean().optional().describe("success indicates whether the retrieval was successful."),
+  /** configs is the list of cost configuration entries. */
+  configs: z.array(CostConfigSchema).optional().describe("configs is the list of cost configuration entries."),
+}).describe("GetCostConfigResponse is the response containing cost configurations.");
+
+export type GetCostConfigResponse = z.infer<typeof GetCostConfigResponseSchema>;
+
+/**
+ * SetCostConfigRequest is the request for storing cost configurations.
+ * @generated from message agentic_mesh_protocol.cost.v1.SetCostConfigRequest
+ */
+export const SetCostConfigRequestSchema = z.object({
+  /** setup_version_id identifies the setup version to set cost config for. */
+  setupVersionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix" } }).describe("setup_version_id identifies the setup version to set cost config for."),
+  /** configs is the list of cost configuration entries to store. */
+  configs: z.array(CostConfigSchema).describe("configs is the list of cost configuration entries to store."),
+}).describe("SetCostConfigRequest is the request for storing cost configurations.");
+
+export type SetCostConfigRequest = z.infer<typeof SetCostConfigRequestSchema>;
+
@@ -0,0 +1,115 @@
+// @generated from file agentic_mesh_protocol/filesystem/v1/filesystem_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { FilesystemServiceClient } from "./filesystem_service.js";
+import type { DeleteFilesRequest, DeleteFilesResponse, GetFileRequest, GetFileResponse, GetFilesRequest, GetFilesResponse, UpdateFileRequest, UpdateFileResponse, UploadFilesRequest, UploadFilesResponse } from "./filesystem.js";
+import { DeleteFilesRequestSchema, DeleteFilesResponseSchema, GetFileRequestSchema, GetFileResponseSchema, GetFilesRequestSchema, GetFilesResponseSchema, UpdateFileRequestSchema, UpdateFileResponseSchema, UploadFilesRequestSchema, UploadFilesResponseSchema } from "./filesystem_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based FilesystemService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.filesystem.v1.FilesystemService
+ */
+export interface FilesystemServicePromiseClient {
+  /**
+   * Calls FilesystemService.UploadFiles
+   * @generated from rpc agentic_mesh_protocol.filesystem.v1.FilesystemService.UploadFiles
+   */
+  uploadFiles(request: UploadFilesRequest, settings?: CallSettings): Promise<UploadFilesResponse>;
+  /**
+   * Calls FilesystemService.GetFile
+   * @generated from rpc agentic_mesh_protocol.filesystem.v1.FilesystemService.GetFile
+   */
+  getFile(request: GetFileRequest, settings?: CallSettings): Promise<GetFileResponse>;
+  /**
+   * Calls FilesystemService.GetFiles
+   * @generated from rpc agentic_mesh_protocol.filesystem.v1.FilesystemService.GetFiles
+   */
+  getFiles(request: GetFilesRequest, settings?: CallSettings): Promise<GetFilesResponse>;
+  /**
+   * Calls FilesystemService.UpdateFile
+   * @generated from rpc agentic_mesh_protocol.filesystem.v1.FilesystemService.UpdateFile
+   */
+  updateFile(request: UpdateFileRequest, settings?: CallSettings): Promise<UpdateFileResponse>;
+  /**
+   * Calls FilesystemService.DeleteFiles
+   * @generated from rpc agentic_mesh_protocol.filesystem.v1.FilesystemService.DeleteFiles
+   */
+  deleteFiles(request: DeleteFilesRequest, settings?: CallSettings): Promise<DeleteFilesResponse>;
+}
+
+/**
+ * Wraps a ts-proto FilesystemServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.filesystem.v1.FilesystemService
+ */
+export function createFilesystemServicePromiseClient(
+  client: FilesystemServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): FilesystemServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    uploadFiles: (request, settings = {}) =>
+      unaryCall(request, UploadFilesRequestSchema, validateResponses ? UploadFilesResponseSchema : undefined, settings, (metadata, options, callback) => client.uploadFiles(request, metadata, options, callback)),
+    getFile: (request, settings = {}) =>
+      unaryCall(request, GetFileRequestSchema, validateResponses ? GetFileResponseSchema : undefined, settings, (metadata, options, callback) => client.getFile(request, metadata, options, callback)),
+    getFiles: (request, settings = {}) =>
+      unaryCall(request, GetFilesRequestSchema, validateResponses ? GetFilesResponseSchema : undefined, settings, (metadata, options, callback) => client.getFiles(request, metadata, options, callback)),
+    updateFile: (request, settings = {}) =>
+      unaryCall(request, UpdateFileRequestSchema, validateResponses ? UpdateFileResponseSchema : undefined, settings, (metadata, options, callback) => client.updateFile(request, metadata, options, callback)),
+    deleteFiles: (request, settings = {}) =>
+      unaryCall(request, DeleteFilesRequestSchema, validateResponses ? DeleteFilesResponseSchema : undefined, settings, (metadata, options, callback) => client.deleteFiles(request, metadata, options, callback)),
+  };
+}
+
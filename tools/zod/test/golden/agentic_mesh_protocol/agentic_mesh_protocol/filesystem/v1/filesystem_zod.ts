@@ -0,0 +1,378 @@
+// @generated from file agentic_mesh_protocol/filesystem/v1/filesystem.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { FileStatus, FileType } from "./filesystem.js";
+
+/** ^files:.*$ */
+const PATTERN_1 = /^files:[^\n]*$/;
+/** ^(missions:|setups:).*$ */
+const PATTERN_2 = /^(missions:|setups:)[^\n]*$/;
+/** ^[^.]*([.][^.]+)*[.]?$ */
+const PATTERN_3 = /^[^.]*([.][^.]+)*[.]?$/;
+/** (^(missions:|setups:).*$|^default$) */
+const PATTERN_4 = /(^(missions:|setups:)[^\n]*$|^default$)/;
+
+/**
+ * FileType represents the classification of file types in the system.
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileType
+ */
+export const FileTypeSchema = z.enum(FileType).describe("FileType represents the classification of file types in the system.");
+export type FileTypeType = z.infer<typeof FileTypeSchema>;
+
+/**
+ * Map of FileType enum values to string representations
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileType
+ */
+export const FILE_TYPE_MAP: Record<number, string> = {
+  /** FILE_TYPE_UNSPECIFIED is the default unspecified value. */
+  0: "UNSPECIFIED",
+  /** FILE_TYPE_DOCUMENT represents document files (PDF, DOC, TXT, etc.). */
+  1: "DOCUMENT",
+  /** FILE_TYPE_IMAGE represents image files (PNG, JPG, GIF, etc.). */
+  2: "IMAGE",
+  /** FILE_TYPE_VIDEO represents video files (MP4, AVI, MOV, etc.). */
+  3: "VIDEO",
+  /** FILE_TYPE_AUDIO represents audio files (MP3, WAV, etc.). */
+  4: "AUDIO",
+  /** FILE_TYPE_ARCHIVE represents archive files (ZIP, TAR, etc.). */
+  5: "ARCHIVE",
+  /** FILE_TYPE_CODE represents source code files. */
+  6: "CODE",
+  /** FILE_TYPE_OTHER represents other file types. */
+  7: "OTHER",
+};
+
+/**
+ * Map of string representations to FileType enum values
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileType
+ */
+export const STRING_TO_FILE_TYPE: Record<string, FileType> = {
+  /** FILE_TYPE_DOCUMENT represents document files (PDF, DOC, TXT, etc.). */
+  DOCUMENT: FileType.FILE_TYPE_DOCUMENT,
+  /** FILE_TYPE_IMAGE represents image files (PNG, JPG, GIF, etc.). */
+  IMAGE: FileType.FILE_TYPE_IMAGE,
+  /** FILE_TYPE_VIDEO represents video files (MP4, AVI, MOV, etc.). */
+  VIDEO: FileType.FILE_TYPE_VIDEO,
+  /** FILE_TYPE_AUDIO represents audio files (MP3, WAV, etc.). */
+  AUDIO: FileType.FILE_TYPE_AUDIO,
+  /** FILE_TYPE_ARCHIVE represents archive files (ZIP, TAR, etc.). */
+  ARCHIVE: FileType.FILE_TYPE_ARCHIVE,
+  /** FILE_TYPE_CODE represents source code files. */
+  CODE: FileType.FILE_TYPE_CODE,
+  /** FILE_TYPE_OTHER represents other file types. */
+  OTHER: FileType.FILE_TYPE_OTHER,
+};
+
+/**
+ * FileStatus represents the lifecycle status of a file in the system.
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileStatus
+ */
+export const FileStatusSchema = z.enum(FileStatus).describe("FileStatus represents the lifecycle status of a file in the system.");
+export type FileStatusType = z.infer<typeof FileStatusSchema>;
+
+/**
+ * Map of FileStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileStatus
+ */
+export const FILE_STATUS_MAP: Record<number, string> = {
+  /** FILE_STATUS_UNSPECIFIED is the default unspecified value. */
+  0: "UNSPECIFIED",
+  /** FILE_STATUS_UPLOADING indicates the file is currently being uploaded. */
+  1: "UPLOADING",
+  /** FILE_STATUS_ACTIVE indicates the file is active and available for use. */
+  2: "ACTIVE",
+  /** FILE_STATUS_PROCESSING indicates the file is being processed. */
+  3: "PROCESSING",
+  /** FILE_STATUS_ARCHIVED indicates the file has been archived. */
+  4: "ARCHIVED",
+  /** FILE_STATUS_DELETED indicates the file is marked for deletion. */
+  5: "DELETED",
+};
+
+/**
+ * Map of string representations to FileStatus enum values
+ * @generated from enum agentic_mesh_protocol.filesystem.v1.FileStatus
+ */
+export const STRING_TO_FILE_STATUS: Record<string, FileStatus> = {
+  /** FILE_STATUS_UPLOADING indicates the file is currently being uploaded. */
+  UPLOADING: FileStatus.FILE_STATUS_UPLOADING,
+  /** FILE_STATUS_ACTIVE indicates the file is active and available for use. */
+  ACTIVE: FileStatus.FILE_STATUS_ACTIVE,
+  /** FILE_STATUS_PROCESSING indicates the file is being processed. */
+  PROCESSING: FileStatus.FILE_STATUS_PROCESSING,
+  /** FILE_STATUS_ARCHIVED indicates the file has been archived. */
+  ARCHIVED: FileStatus.FILE_STATUS_ARCHIVED,
+  /** FILE_STATUS_DELETED indicates the file is marked for deletion. */
+  DELETED: FileStatus.FILE_STATUS_DELETED,
+};
+
+/**
+ * File represents a stored file with comprehensive metadata.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.File
+ */
+export const FileSchema = z.object({
+  /** file_id: Unique identifier for the file */
+  fileId: z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^files:.*$", params: { ruleId: "string.pattern" } }).describe("file_id: Unique identifier for the file"),
+  /** context: Context ID linked to the file */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).describe("context: Context ID linked to the file"),
+  /** name: Name of the file (unique within context) */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name: Name of the file (unique within context)"),
+  /** file_type: Type classification of the file */
+  fileType: z.enum(FileType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("file_type: Type classification of the file"),
+  /** content_type: MIME type of the file */
+  contentType: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("content_type: MIME type of the file"),
+  /** size_bytes: Size of the file in bytes */
+  sizeBytes: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).refine((v) => BigInt(v) >= 0n, { message: "Must be >= 0", params: { ruleId: "int64.gte" } }).describe("size_bytes: Size of the file in bytes"),
+  /** checksum: SHA-256 checksum of the file content (SHA-256 format) */
+  checksum: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("checksum: SHA-256 checksum of the file content (SHA-256 format)"),
+  /** metadata: Flexible metadata for additional file properties */
+  metadata: z.record(z.string(), z.any()).optional().describe("metadata: Flexible metadata for additional file properties"),
+  /** storage_uri: Internal URI for accessing the file content */
+  storageUri: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("storage_uri: Internal URI for accessing the file content"),
+  /** file_url: External URL for accessing the file content */
+  fileUrl: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("file_url: External URL for accessing the file content"),
+  /** status: Current status of the file */
+  status: z.enum(FileStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("status: Current status of the file"),
+  /** content: The content of the file */
+  content: z.instanceof(Uint8Array).optional().describe("content: The content of the file"),
+}).describe("File represents a stored file with comprehensive metadata.");
+
+export type File = z.infer<typeof FileSchema>;
+
+/**
+ * FileFilter contains criteria for querying and filtering files.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.FileFilter
+ */
+export const FileFilterSchema = z.object({
+  /** names: Filter by file names (exact matches) */
+  names: z.array(z.string()).optional().describe("names: Filter by file names (exact matches)"),
+  /** file_ids: Filter by file IDs */
+  fileIds: z.array(z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^files:.*$", params: { ruleId: "string.pattern", rule: "repeated.items.string.pattern" } })).optional().describe("file_ids: Filter by file IDs"),
+  /** file_types: Filter by file types */
+  fileTypes: z.array(z.enum(FileType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("file_types: Filter by file types"),
+  /** context: Filter by context (required for scoping) */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).describe("context: Filter by context (required for scoping)"),
+  /** created_after: Filter files created after this timestamp */
+  createdAfter: z.coerce.date().optional().describe("created_after: Filter files created after this timestamp"),
+  /** created_before: Filter files created before this timestamp */
+  createdBefore: z.coerce.date().optional().describe("created_before: Filter files created before this timestamp"),
+  /** updated_after: Filter files updated after this timestamp */
+  updatedAfter: z.coerce.date().optional().describe("updated_after: Filter files updated after this timestamp"),
+  /** updated_before: Filter files updated before this timestamp */
+  updatedBefore: z.coerce.date().optional().describe("updated_before: Filter files updated before this timestamp"),
+  /** status: Filter by file status */
+  status: z.enum(FileStatus).optional().describe("status: Filter by file status"),
+  /** content_type_prefix: Filter by content type prefix (e.g., "image/") */
+  contentTypePrefix: z.string().optional().describe("content_type_prefix: Filter by content type prefix (e.g., \"image/\")"),
+  /** min_size_bytes: Filter files with minimum size */
+  minSizeBytes: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).refine((v) => BigInt(v) >= 0n, { message: "Must be >= 0", params: { ruleId: "int64.gte" } }).optional().describe("min_size_bytes: Filter files with minimum size"),
+  /** max_size_bytes: Filter files with maximum size */
+  maxSizeBytes: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).refine((v) => BigInt(v) >= 0n, { message: "Must be >= 0", params: { ruleId: "int64.gte" } }).optional().describe("max_size_bytes: Filter files with maximum size"),
+  /** prefix: Filter by path prefix (e.g., "/folder1/"). Prevents path traversal (no ".." allowed). */
+  prefix: z.string().refine((v) => PATTERN_3.test(v), { message: "Must match pattern: ^[^.]*([.][^.]+)*[.]?$", params: { ruleId: "string.pattern" } }).optional().describe("prefix: Filter by path prefix (e.g., \"/folder1/\"). Prevents path traversal (no \"..\" allowed)."),
+  /** content_type: Filter by content type */
+  contentType: z.string().optional().describe("content_type: Filter by content type"),
+}).describe("FileFilter contains criteria for querying and filtering files.");
+
+export type FileFilter = z.infer<typeof FileFilterSchema>;
+
+/**
+ * UploadFileData contains the data required for uploading a single file.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.UploadFileData
+ */
+export const UploadFileDataSchema = z.object({
+  /** context: Context ID for the file */
+  context: z.string().refine((v) => PATTERN_4.test(v), { message: "Must match pattern: (^(missions:|setups:).*$|^default$)", params: { ruleId: "string.pattern" } }).describe("context: Context ID for the file"),
+  /** name: Name of the file */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => PATTERN_3.test(v), { message: "Must match pattern: ^[^.]*([.][^.]+)*[.]?$", params: { ruleId: "string.pattern" } }).describe("name: Name of the file"),
+  /** file_type: Type classification of the file */
+  fileType: z.enum(FileType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("file_type: Type classification of the file"),
+  /** content_type: MIME type of the file */
+  contentType: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("content_type: MIME type of the file"),
+  /** content: File content */
+  content: z.instanceof(Uint8Array).refine((b) => b.length >= 1, { message: "Bytes must be at least 1 bytes", params: { ruleId: "bytes.min_len" } }).describe("content: File content"),
+  /** metadata: Additional metadata for the file */
+  metadata: z.record(z.string(), z.any()).optional().describe("metadata: Additional metadata for the file"),
+  /** status: Status of the file */
+  status: z.enum(FileStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("status: Status of the file"),
+  /** replace_if_exists: Whether to replace existing file with same name */
+  replaceIfExists: z.boolean().optional().describe("replace_if_exists: Whether to replace existing file with same name"),
+}).describe("UploadFileData contains the data required for uploading a single file.");
+
+export type UploadFileData = z.infer<typeof UploadFileDataSchema>;
+
+/**
+ * GetFileRequest is the request message for retrieving a specific file.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.GetFileRequest
+ */
+export const GetFileRequestSchema = z.object({
+  /** context: Context ID for the file */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).optional().describe("context: Context ID for the file"),
+  /** file_id: File ID */
+  fileId: z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^files:.*$", params: { ruleId: "string.pattern" } }).describe("file_id: File ID"),
+  /** include_content: Whether to include file content in response */
+  includeContent: z.boolean().optional().describe("include_content: Whether to include file content in response"),
+}).describe("GetFileRequest is the request message for retrieving a specific file.");
+
+export type GetFileRequest = z.infer<typeof GetFileRequestSchema>;
+
+/**
+ * UpdateFileRequest is the request message for updating a file.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.UpdateFileRequest
+ */
+export const UpdateFileRequestSchema = z.object({
+  /** context: Context ID for the file */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).describe("context: Context ID for the file"),
+  /** file_id: Current id of the file */
+  fileId: z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^files:.*$", params: { ruleId: "string.pattern" } }).describe("file_id: Current id of the file"),
+  /** new_name: New name for the file (optional) */
+  newName: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional().describe("new_name: New name for the file (optional)"),
+  /** file_type: New file type (optional, cannot be UNSPECIFIED) */
+  fileType: z.enum(FileType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).optional().describe("file_type: New file type (optional, cannot be UNSPECIFIED)"),
+  /** content_type: New content type (optional) */
+  contentType: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional().describe("content_type: New content type (optional)"),
+  /** content: New file content (optional) */
+  content: z.instanceof(Uint8Array).optional().describe("content: New file content (optional)"),
+  /** status: New status of the file */
+  status: z.enum(FileStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("status: New status of the file"),
+  /** metadata: New metadata (optional, will merge with existing) */
+  metadata: z.record(z.string(), z.any()).optional().describe("metadata: New metadata (optional, will merge with existing)"),
+}).describe("UpdateFileRequest is the request message for updating a file.");
+
+export type UpdateFileRequest = z.infer<typeof UpdateFileRequestSchema>;
+
+/**
+ * DeleteFilesResponse is the response message for file deletion operations.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.DeleteFilesResponse
+ */
+export const DeleteFilesResponseSchema = z.object({
+  /** results: Results for each file deletion attempt */
+  results: z.record(z.string(), z.boolean()).optional().describe("results: Results for each file deletion attempt"),
+  /** total_deleted: Number of successfully deleted files */
+  totalDeleted: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_deleted: Number of successfully deleted files"),
+  /** total_failed: Number of failed deletions */
+  totalFailed: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_failed: Number of failed deletions"),
+}).describe("DeleteFilesResponse is the response message for file deletion operations.");
+
+export type DeleteFilesResponse = z.infer<typeof DeleteFilesResponseSchema>;
+
+/**
+ * FileResult wraps the result of a file operation which may succeed or fail.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.FileResult
+ */
+export const FileResultSchema = z.object({
+  /** file: Successfully processed file */
+  file: FileSchema.optional().describe("file: Successfully processed file"),
+  /** error: Error information if operation failed */
+  error: z.string().optional().describe("error: Error information if operation failed"),
+}).superRefine((v, ctx) => {
+  const resultCount = [v.file, v.error].filter((m) => m !== undefined).length;
+  if (resultCount > 1) {
+    ctx.addIssue({ code: "custom", message: "Only one of file, error may be set", path: ["result"] });
+  }
+}).describe("FileResult wraps the result of a file operation which may succeed or fail.");
+
+export type FileResult = z.infer<typeof FileResultSchema>;
+
+/**
+ * GetFileResponse is the response message containing file information.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.GetFileResponse
+ */
+export const GetFileResponseSchema = z.object({
+  /** file: The requested file */
+  file: FileSchema.describe("file: The requested file"),
+  /** content: File content (only if requested) */
+  content: z.instanceof(Uint8Array).optional().describe("content: File content (only if requested)"),
+}).describe("GetFileResponse is the response message containing file information.");
+
+export type GetFileResponse = z.infer<typeof GetFileResponseSchema>;
+
+/**
+ * GetFilesResponse is the response message containing multiple files.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.GetFilesResponse
+ */
+export const GetFilesResponseSchema = z.object({
+  /** files: List of files matching the criteria */
+  files: z.array(FileSchema).optional().describe("files: List of files matching the criteria"),
+  /** total_count: Total number of files matching the criteria */
+  totalCount: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_count: Total number of files matching the criteria"),
+}).describe("GetFilesResponse is the response message containing multiple files.");
+
+export type GetFilesResponse = z.infer<typeof GetFilesResponseSchema>;
+
+/**
+ * GetFilesRequest is the request message for retrieving multiple files by various criteria.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.GetFilesRequest
+ */
+export const GetFilesRequestSchema = z.object({
+  /** context: Context ID for the files */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).describe("context: Context ID for the files"),
+  /** filters: How to identify the files */
+  filters: FileFilterSchema.describe("filters: How to identify the files"),
+  /** list_size: Number of files to return per page */
+  listSize: z.number().int().refine((n) => n >= 1 && n <= 1000, { message: "Must be >= 1 and <= 1000", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("list_size: Number of files to return per page"),
+  /** offset: Offset of the first file in the list */
+  offset: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("offset: Offset of the first file in the list"),
+  /** order: Field to order results by */
+  order: z.string().optional().describe("order: Field to order results by"),
+  /** include_content: Whether to include file content in response */
+  includeContent: z.boolean().optional().describe("include_content: Whether to include file content in response"),
+}).describe("GetFilesRequest is the request message for retrieving multiple files by various criteria.");
+
+export type GetFilesRequest = z.infer<typeof GetFilesRequestSchema>;
+
+/**
+ * DeleteFilesRequest is the request message for deleting multiple files.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.DeleteFilesRequest
+ */
+export const DeleteFilesRequestSchema = z.object({
+  /** context: Context ID for the files */
+  context: z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^(missions:|setups:).*$", params: { ruleId: "string.pattern" } }).describe("context: Context ID for the files"),
+  /** filters: How to identify the files */
+  filters: FileFilterSchema.describe("filters: How to identify the files"),
+  /** force: Whether to force delete even if file is in use */
+  force: z.boolean().optional().describe("force: Whether to force delete even if file is in use"),
+  /** permanent: Whether to permanently delete (vs mark as deleted) */
+  permanent: z.boolean().optional().describe("permanent: Whether to permanently delete (vs mark as deleted)"),
+}).describe("DeleteFilesRequest is the request message for deleting multiple files.");
+
+export type DeleteFilesRequest = z.infer<typeof DeleteFilesRequestSchema>;
+
+/**
+ * UploadFilesRequest is the request message for uploading multiple files.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.UploadFilesRequest
+ */
+export const UploadFilesRequestSchema = z.object({
+  /** files: List of files to upload */
+  files: z.array(UploadFileDataSchema).refine((arr) => arr.length >= 1, { message: "Must have at least 1 items", params: { ruleId: "repeated.min_items" } }).describe("files: List of files to upload"),
+}).describe("UploadFilesRequest is the request message for uploading multiple files.");
+
+export type UploadFilesRequest = z.infer<typeof UploadFilesRequestSchema>;
+
+/**
+ * UploadFilesResponse is the response message for file upload operations.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.UploadFilesResponse
+ */
+export const UploadFilesResponseSchema = z.object({
+  /** results: Results for each uploaded file */
+  results: z.array(FileResultSchema).optional().describe("results: Results for each uploaded file"),
+  /** total_uploaded: Number of successfully uploaded files */
+  totalUploaded: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_uploaded: Number of successfully uploaded files"),
+  /** total_failed: Number of failed uploads */
+  totalFailed: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_failed: Number of failed uploads"),
+}).describe("UploadFilesResponse is the response message for file upload operations.");
+
+export type UploadFilesResponse = z.infer<typeof UploadFilesResponseSchema>;
+
+/**
+ * UpdateFileResponse is the response message for file update operations.
+ * @generated from message agentic_mesh_protocol.filesystem.v1.UpdateFileResponse
+ */
+export const UpdateFileResponseSchema = z.object({
+  /** result: Result of the file update operation */
+  result: FileResultSchema.optional().describe("result: Result of the file update operation"),
+}).describe("UpdateFileResponse is the response message for file update operations.");
+
+export type UpdateFileResponse = z.infer<typeof UpdateFileResponseSchema>;
+
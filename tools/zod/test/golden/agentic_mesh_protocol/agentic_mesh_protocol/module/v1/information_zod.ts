@@ -0,0 +1,255 @@
+// @generated from file agentic_mesh_protocol/module/v1/information.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * GetModuleInputRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get input schema
+ * - llm_format: Define if the input schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleInputRequest
+ */
+export const GetModuleInputRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get input schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get input schema"),
+  /** llm_format: Define if the input schema should be in LLM format or raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: Define if the input schema should be in LLM format or raw pydantic format"),
+}).describe("GetModuleInputRequest\n\nFields:\n\n- module_id: Database ID of the Module to get input schema\n- llm_format: Define if the input schema should be in LLM format or raw pydantic format");
+
+export type GetModuleInputRequest = z.infer<typeof GetModuleInputRequestSchema>;
+
+/**
+ * GetModuleSelectSchemaRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get select schema
+ * - llm_format: Define if the select schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSelectInputRequest
+ */
+export const GetModuleSelectInputRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get select input schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get select input schema"),
+}).describe("GetModuleSelectSchemaRequest\n\nFields:\n\n- module_id: Database ID of the Module to get select schema\n- llm_format: Define if the select schema should be in LLM format or raw pydantic format");
+
+export type GetModuleSelectInputRequest = z.infer<typeof GetModuleSelectInputRequestSchema>;
+
+/**
+ * GetModuleOutputRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get output schema
+ * - llm_format: Define if the output schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleOutputRequest
+ */
+export const GetModuleOutputRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get output schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get output schema"),
+  /** llm_format: Define if the output schema should be in LLM format or raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: Define if the output schema should be in LLM format or raw pydantic format"),
+}).describe("GetModuleOutputRequest\n\nFields:\n\n- module_id: Database ID of the Module to get output schema\n- llm_format: Define if the output schema should be in LLM format or raw pydantic format");
+
+export type GetModuleOutputRequest = z.infer<typeof GetModuleOutputRequestSchema>;
+
+/**
+ * GetModuleSetupRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get setup schema
+ * - llm_format: Define if the setup schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSetupRequest
+ */
+export const GetModuleSetupRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get setup schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get setup schema"),
+  /** llm_format: Define if the setup schema should be in LLM format or raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: Define if the setup schema should be in LLM format or raw pydantic format"),
+}).describe("GetModuleSetupRequest\n\nFields:\n\n- module_id: Database ID of the Module to get setup schema\n- llm_format: Define if the setup schema should be in LLM format or raw pydantic format");
+
+export type GetModuleSetupRequest = z.infer<typeof GetModuleSetupRequestSchema>;
+
+/**
+ * GetModuleSecretRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get secret schema
+ * - llm_format: Define if the secret schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSecretRequest
+ */
+export const GetModuleSecretRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get secret schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get secret schema"),
+  /** llm_format: Define if the secret schema should be in LLM format or raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: Define if the secret schema should be in LLM format or raw pydantic format"),
+}).describe("GetModuleSecretRequest\n\nFields:\n\n- module_id: Database ID of the Module to get secret schema\n- llm_format: Define if the secret schema should be in LLM format or raw pydantic format");
+
+export type GetModuleSecretRequest = z.infer<typeof GetModuleSecretRequestSchema>;
+
+/**
+ * GetModuleInputResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the input schema request was successful
+ * - input_schema: Input schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleInputResponse
+ */
+export const GetModuleInputResponseSchema = z.object({
+  /** success: Flag to indicate if the input schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the input schema request was successful"),
+  /** input_schema: Input schema of the Module */
+  inputSchema: z.record(z.string(), z.any()).describe("input_schema: Input schema of the Module"),
+}).describe("GetModuleInputResponse\n\nReturns:\n\n- success: Flag to indicate if the input schema request was successful\n- input_schema: Input schema of the Module");
+
+export type GetModuleInputResponse = z.infer<typeof GetModuleInputResponseSchema>;
+
+/**
+ * GetModuleInputSelectResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the input schema request was successful
+ * - input_schema: Input schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSelectInputResponse
+ */
+export const GetModuleSelectInputResponseSchema = z.object({
+  /** success: Flag to indicate if the input schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the input schema request was successful"),
+  /** input_schema: Input schema of the Module */
+  selectInputSchema: z.record(z.string(), z.any()).describe("input_schema: Input schema of the Module"),
+}).describe("GetModuleInputSelectResponse\n\nReturns:\n\n- success: Flag to indicate if the input schema request was successful\n- input_schema: Input schema of the Module");
+
+export type GetModuleSelectInputResponse = z.infer<typeof GetModuleSelectInputResponseSchema>;
+
+/**
+ * GetModuleOutputResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the output schema request was successful
+ * - output_schema: Output schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleOutputResponse
+ */
+export const GetModuleOutputResponseSchema = z.object({
+  /** success: Flag to indicate if the output schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the output schema request was successful"),
+  /** output_schema: Output schema of the Module */
+  outputSchema: z.record(z.string(), z.any()).describe("output_schema: Output schema of the Module"),
+}).describe("GetModuleOutputResponse\n\nReturns:\n\n- success: Flag to indicate if the output schema request was successful\n- output_schema: Output schema of the Module");
+
+export type GetModuleOutputResponse = z.infer<typeof GetModuleOutputResponseSchema>;
+
+/**
+ * GetModuleSetupResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the setup schema request was successful
+ * - setup_schema: Setup schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSetupResponse
+ */
+export const GetModuleSetupResponseSchema = z.object({
+  /** success: Flag to indicate if the setup schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the setup schema request was successful"),
+  /** setup_schema: Setup schema of the Module */
+  setupSchema: z.record(z.string(), z.any()).describe("setup_schema: Setup schema of the Module"),
+}).describe("GetModuleSetupResponse\n\nReturns:\n\n- success: Flag to indicate if the setup schema request was successful\n- setup_schema: Setup schema of the Module");
+
+export type GetModuleSetupResponse = z.infer<typeof GetModuleSetupResponseSchema>;
+
+/**
+ * GetModuleSecretResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the secret schema request was successful
+ * - setup_schema: Secret schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleSecretResponse
+ */
+export const GetModuleSecretResponseSchema = z.object({
+  /** success: Flag to indicate if the secret schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the secret schema request was successful"),
+  /** secret_schema: Secret schema of the Module */
+  secretSchema: z.record(z.string(), z.any()).describe("secret_schema: Secret schema of the Module"),
+}).describe("GetModuleSecretResponse\n\nReturns:\n\n- success: Flag to indicate if the secret schema request was successful\n- setup_schema: Secret schema of the Module");
+
+export type GetModuleSecretResponse = z.infer<typeof GetModuleSecretResponseSchema>;
+
+/**
+ * GetConfigSetupModuleRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get config setup schema
+ * - llm_format: Define if the setup schema should be in LLM format or raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetConfigSetupModuleRequest
+ */
+export const GetConfigSetupModuleRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get setup schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get setup schema"),
+  /** llm_format: Define if the setup schema should be in LLM format or raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: Define if the setup schema should be in LLM format or raw pydantic format"),
+}).describe("GetConfigSetupModuleRequest\n\nFields:\n\n- module_id: Database ID of the Module to get config setup schema\n- llm_format: Define if the setup schema should be in LLM format or raw pydantic format");
+
+export type GetConfigSetupModuleRequest = z.infer<typeof GetConfigSetupModuleRequestSchema>;
+
+/**
+ * GetConfigSetupModuleResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the config setup schema request was successful
+ * - config_setup_schema: Config setup schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetConfigSetupModuleResponse
+ */
+export const GetConfigSetupModuleResponseSchema = z.object({
+  /** success: Flag to indicate if the setup schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the setup schema request was successful"),
+  /** config_setup_schema: Setup schema of the Module */
+  configSetupSchema: z.record(z.string(), z.any()).describe("config_setup_schema: Setup schema of the Module"),
+}).describe("GetConfigSetupModuleResponse\n\nReturns:\n\n- success: Flag to indicate if the config setup schema request was successful\n- config_setup_schema: Config setup schema of the Module");
+
+export type GetConfigSetupModuleResponse = z.infer<typeof GetConfigSetupModuleResponseSchema>;
+
+/**
+ * GetModuleCostRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to get cost schema
+ * - llm_format: If true, return LLM format; else raw pydantic format
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleCostRequest
+ */
+export const GetModuleCostRequestSchema = z.object({
+  /** module_id: Database ID of the Module to get cost schema */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the Module to get cost schema"),
+  /** llm_format: If true, return LLM format; else raw pydantic format */
+  llmFormat: z.boolean().optional().describe("llm_format: If true, return LLM format; else raw pydantic format"),
+}).describe("GetModuleCostRequest\n\nFields:\n\n- module_id: Database ID of the Module to get cost schema\n- llm_format: If true, return LLM format; else raw pydantic format");
+
+export type GetModuleCostRequest = z.infer<typeof GetModuleCostRequestSchema>;
+
+/**
+ * GetModuleCostResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the cost schema request was successful
+ * - cost_schema: Cost configuration schema of the Module
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleCostResponse
+ */
+export const GetModuleCostResponseSchema = z.object({
+  /** success: Flag to indicate if the cost schema request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the cost schema request was successful"),
+  /** cost_schema: Cost configuration schema of the Module */
+  costSchema: z.record(z.string(), z.any()).describe("cost_schema: Cost configuration schema of the Module"),
+}).describe("GetModuleCostResponse\n\nReturns:\n\n- success: Flag to indicate if the cost schema request was successful\n- cost_schema: Cost configuration schema of the Module");
+
+export type GetModuleCostResponse = z.infer<typeof GetModuleCostResponseSchema>;
+
@@ -0,0 +1,121 @@
+// @generated from file agentic_mesh_protocol/module/v1/lifecycle.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { SetupVersionSchema } from "../../setup/v1/setup_zod.js";
+
+/**
+ * ConfigSetupModuleRequest
+ * This request is used to configure an existing setup version.
+ *
+ * Fields:
+ * - setup_version: The setup version to configure.
+ * - content: The new content to compute and/or configure.
+ * - mission_id: Database ID of the Module to start
+ * @generated from message agentic_mesh_protocol.module.v1.ConfigSetupModuleRequest
+ */
+export const ConfigSetupModuleRequestSchema = z.object({
+  /** setup_version: The setup version to configure. */
+  setupVersion: SetupVersionSchema.describe("setup_version: The setup version to configure."),
+  /** content: The new content to compute and/or configure. */
+  content: z.record(z.string(), z.any()).describe("content: The new content to compute and/or configure."),
+  /** mission_id: Database ID of the Module to start */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Database ID of the Module to start"),
+}).describe("ConfigSetupModuleRequest\nThis request is used to configure an existing setup version.\n\nFields:\n- setup_version: The setup version to configure.\n- content: The new content to compute and/or configure.\n- mission_id: Database ID of the Module to start");
+
+export type ConfigSetupModuleRequest = z.infer<typeof ConfigSetupModuleRequestSchema>;
+
+/**
+ * ConfigSetupModuleResponse
+ * Returns the configured setup version.
+ *
+ * Fields:
+ * - success: description flag of the operation.
+ * - setup_version: The updated setup version entity.
+ * @generated from message agentic_mesh_protocol.module.v1.ConfigSetupModuleResponse
+ */
+export const ConfigSetupModuleResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+  /** setup_version: The updated setup version entity. */
+  setupVersion: SetupVersionSchema.optional().describe("setup_version: The updated setup version entity."),
+}).describe("ConfigSetupModuleResponse\nReturns the configured setup version.\n\nFields:\n- success: description flag of the operation.\n- setup_version: The updated setup version entity.");
+
+export type ConfigSetupModuleResponse = z.infer<typeof ConfigSetupModuleResponseSchema>;
+
+/**
+ * StartModuleRequest
+ * TODO: do we have to add secret_id ?
+ *
+ * Fields:
+ *
+ * - input: Structured input data for the module
+ * - setup_id: Database ID of the setupused to start the module
+ * - mission_id: Database ID of the Module to start
+ * @generated from message agentic_mesh_protocol.module.v1.StartModuleRequest
+ */
+export const StartModuleRequestSchema = z.object({
+  /** input: Structured input data for the module */
+  input: z.record(z.string(), z.any()).describe("input: Structured input data for the module"),
+  /** setup_id: Database ID of the setup used to start the module */
+  setupId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setups:"), { message: "Must start with setups:", params: { ruleId: "string.prefix" } }).describe("setup_id: Database ID of the setup used to start the module"),
+  /** mission_id: Database ID of the Module to start */
+  missionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Database ID of the Module to start"),
+}).describe("StartModuleRequest\nTODO: do we have to add secret_id ?\n\nFields:\n\n- input: Structured input data for the module\n- setup_id: Database ID of the setupused to start the module\n- mission_id: Database ID of the Module to start");
+
+export type StartModuleRequest = z.infer<typeof StartModuleRequestSchema>;
+
+/**
+ * StopModuleRequest
+ *
+ * Fields:
+ *
+ * - module_id: Database ID of the Module to stop
+ * @generated from message agentic_mesh_protocol.module.v1.StopModuleRequest
+ */
+export const StopModuleRequestSchema = z.object({
+  /** job_id: Database ID of the job to stop */
+  jobId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).describe("job_id: Database ID of the job to stop"),
+}).describe("StopModuleRequest\n\nFields:\n\n- module_id: Database ID of the Module to stop");
+
+export type StopModuleRequest = z.infer<typeof StopModuleRequestSchema>;
+
+/**
+ * StartModuleResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the started/stopped request was successful
+ * - output: Structured output data a job
+ * - job_id: Database ID of the job  inside the Module that was queried
+ * @generated from message agentic_mesh_protocol.module.v1.StartModuleResponse
+ */
+export const StartModuleResponseSchema = z.object({
+  /** success: Flag to indicate if the started request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the started request was successful"),
+  /** output: Structured output data of a started job (streamed) */
+  output: z.record(z.string(), z.any()).describe("output: Structured output data of a started job (streamed)"),
+  /** job_id: Database ID of the job  inside the Module that was queried */
+  jobId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).describe("job_id: Database ID of the job  inside the Module that was queried"),
+}).describe("StartModuleResponse\n\nReturns:\n\n- success: Flag to indicate if the started/stopped request was successful\n- output: Structured output data a job\n- job_id: Database ID of the job  inside the Module that was queried");
+
+export type StartModuleResponse = z.infer<typeof StartModuleResponseSchema>;
+
+/**
+ * StopModuleResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the started/stopped request was successful
+ * - module_id: Database ID of the Module that was started/stopped
+ * @generated from message agentic_mesh_protocol.module.v1.StopModuleResponse
+ */
+export const StopModuleResponseSchema = z.object({
+  /** success: Flag to indicate if the started/stopped request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the started/stopped request was successful"),
+  /** job_id: Database ID of the Module that was started/stopped */
+  jobId: z.string().refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).optional().describe("job_id: Database ID of the Module that was started/stopped"),
+}).describe("StopModuleResponse\n\nReturns:\n\n- success: Flag to indicate if the started/stopped request was successful\n- module_id: Database ID of the Module that was started/stopped");
+
+export type StopModuleResponse = z.infer<typeof StopModuleResponseSchema>;
+
@@ -0,0 +1,196 @@
+// @generated from file agentic_mesh_protocol/module/v1/module_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientReadableStream, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { ModuleServiceClient } from "./module_service.js";
+import type { ConfigSetupModuleRequest, ConfigSetupModuleResponse, StartModuleRequest, StartModuleResponse, StopModuleRequest, StopModuleResponse } from "./lifecycle.js";
+import type { GetModuleJobsRequest, GetModuleJobsResponse, GetModuleStatusRequest, GetModuleStatusResponse } from "./monitoring.js";
+import type { GetConfigSetupModuleRequest, GetConfigSetupModuleResponse, GetModuleCostRequest, GetModuleCostResponse, GetModuleInputRequest, GetModuleInputResponse, GetModuleOutputRequest, GetModuleOutputResponse, GetModuleSecretRequest, GetModuleSecretResponse, GetModuleSelectInputRequest, GetModuleSelectInputResponse, GetModuleSetupRequest, GetModuleSetupResponse } from "./information.js";
+import { ConfigSetupModuleRequestSchema, ConfigSetupModuleResponseSchema, StartModuleRequestSchema, StartModuleResponseSchema, StopModuleRequestSchema, StopModuleResponseSchema } from "./lifecycle_zod.js";
+import { GetModuleJobsRequestSchema, GetModuleJobsResponseSchema, GetModuleStatusRequestSchema, GetModuleStatusResponseSchema } from "./monitoring_zod.js";
+import { GetConfigSetupModuleRequestSchema, GetConfigSetupModuleResponseSchema, GetModuleCostRequestSchema, GetModuleCostResponseSchema, GetModuleInputRequestSchema, GetModuleInputResponseSchema, GetModuleOutputRequestSchema, GetModuleOutputResponseSchema, GetModuleSecretRequestSchema, GetModuleSecretResponseSchema, GetModuleSelectInputRequestSchema, GetModuleSelectInputResponseSchema, GetModuleSetupRequestSchema, GetModuleSetupResponseSchema } from "./information_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/** Validates the request, then yields the messages of a server-streaming call */
+async function* serverStreamingCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (metadata: Metadata, options: Partial<CallOptions>) => ClientReadableStream<Res>,
+): AsyncGenerator<Res, void, undefined> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const stream = start(settings.metadata ?? new Metadata(), settings.options ?? {});
+  const cancel = () => stream.cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    for await (const message of stream as AsyncIterable<Res>) {
+      responseSchema?.parse(message);
+      yield message;
+    }
+  } catch (error) {
+    throw signal?.aborted ? signal.reason : error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // Ends the call when the consumer stops iterating early
+    stream.cancel();
+  }
+}
+
+/**
+ * Promise-based ModuleService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.module.v1.ModuleService
+ */
+export interface ModuleServicePromiseClient {
+  /**
+   * Calls ModuleService.StartModule, yielding the streamed responses
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.StartModule
+   */
+  startModule(request: StartModuleRequest, settings?: CallSettings): AsyncIterable<StartModuleResponse>;
+  /**
+   * Calls ModuleService.StopModule
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.StopModule
+   */
+  stopModule(request: StopModuleRequest, settings?: CallSettings): Promise<StopModuleResponse>;
+  /**
+   * Calls ModuleService.GetModuleStatus
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleStatus
+   */
+  getModuleStatus(request: GetModuleStatusRequest, settings?: CallSettings): Promise<GetModuleStatusResponse>;
+  /**
+   * Calls ModuleService.GetModuleJobs
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleJobs
+   */
+  getModuleJobs(request: GetModuleJobsRequest, settings?: CallSettings): Promise<GetModuleJobsResponse>;
+  /**
+   * Calls ModuleService.GetModuleInput
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleInput
+   */
+  getModuleInput(request: GetModuleInputRequest, settings?: CallSettings): Promise<GetModuleInputResponse>;
+  /**
+   * Calls ModuleService.GetModuleSelectInput
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleSelectInput
+   */
+  getModuleSelectInput(request: GetModuleSelectInputRequest, settings?: CallSettings): Promise<GetModuleSelectInputResponse>;
+  /**
+   * Calls ModuleService.GetModuleOutput
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleOutput
+   */
+  getModuleOutput(request: GetModuleOutputRequest, settings?: CallSettings): Promise<GetModuleOutputResponse>;
+  /**
+   * Calls ModuleService.GetModuleSetup
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleSetup
+   */
+  getModuleSetup(request: GetModuleSetupRequest, settings?: CallSettings): Promise<GetModuleSetupResponse>;
+  /**
+   * Calls ModuleService.GetModuleSecret
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleSecret
+   */
+  getModuleSecret(request: GetModuleSecretRequest, settings?: CallSettings): Promise<GetModuleSecretResponse>;
+  /**
+   * Calls ModuleService.GetConfigSetupModule
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetConfigSetupModule
+   */
+  getConfigSetupModule(request: GetConfigSetupModuleRequest, settings?: CallSettings): Promise<GetConfigSetupModuleResponse>;
+  /**
+   * Calls ModuleService.ConfigSetupModule
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.ConfigSetupModule
+   */
+  configSetupModule(request: ConfigSetupModuleRequest, settings?: CallSettings): Promise<ConfigSetupModuleResponse>;
+  /**
+   * Calls ModuleService.GetModuleCost
+   * @generated from rpc agentic_mesh_protocol.module.v1.ModuleService.GetModuleCost
+   */
+  getModuleCost(request: GetModuleCostRequest, settings?: CallSettings): Promise<GetModuleCostResponse>;
+}
+
+/**
+ * Wraps a ts-proto ModuleServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.module.v1.ModuleService
+ */
+export function createModuleServicePromiseClient(
+  client: ModuleServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): ModuleServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    startModule: (request, settings = {}) =>
+      serverStreamingCall(request, StartModuleRequestSchema, validateResponses ? StartModuleResponseSchema : undefined, settings, (metadata, options) => client.startModule(request, metadata, options)),
+    stopModule: (request, settings = {}) =>
+      unaryCall(request, StopModuleRequestSchema, validateResponses ? StopModuleResponseSchema : undefined, settings, (metadata, options, callback) => client.stopModule(request, metadata, options, callback)),
+    getModuleStatus: (request, settings = {}) =>
+      unaryCall(request, GetModuleStatusRequestSchema, validateResponses ? GetModuleStatusResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleStatus(request, metadata, options, callback)),
+    getModuleJobs: (request, settings = {}) =>
+      unaryCall(request, GetModuleJobsRequestSchema, validateResponses ? GetModuleJobsResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleJobs(request, metadata, options, callback)),
+    getModuleInput: (request, settings = {}) =>
+      unaryCall(request, GetModuleInputRequestSchema, validateResponses ? GetModuleInputResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleInput(request, metadata, options, callback)),
+    getModuleSelectInput: (request, settings = {}) =>
+      unaryCall(request, GetModuleSelectInputRequestSchema, validateResponses ? GetModuleSelectInputResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleSelectInput(request, metadata, options, callback)),
+    getModuleOutput: (request, settings = {}) =>
+      unaryCall(request, GetModuleOutputRequestSchema, validateResponses ? GetModuleOutputResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleOutput(request, metadata, options, callback)),
+    getModuleSetup: (request, settings = {}) =>
+      unaryCall(request, GetModuleSetupRequestSchema, validateResponses ? GetModuleSetupResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleSetup(request, metadata, options, callback)),
+    getModuleSecret: (request, settings = {}) =>
+      unaryCall(request, GetModuleSecretRequestSchema, validateResponses ? GetModuleSecretResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleSecret(request, metadata, options, callback)),
+    getConfigSetupModule: (request, settings = {}) =>
+      unaryCall(request, GetConfigSetupModuleRequestSchema, validateResponses ? GetConfigSetupModuleResponseSchema : undefined, settings, (metadata, options, callback) => client.getConfigSetupModule(request, metadata, options, callback)),
+    configSetupModule: (request, settings = {}) =>
+      unaryCall(request, ConfigSetupModuleRequestSchema, validateResponses ? ConfigSetupModuleResponseSchema : undefined, settings, (metadata, options, callback) => client.configSetupModule(request, metadata, options, callback)),
+    getModuleCost: (request, settings = {}) =>
+      unaryCall(request, GetModuleCostRequestSchema, validateResponses ? GetModuleCostResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleCost(request, metadata, options, callback)),
+  };
+}
+
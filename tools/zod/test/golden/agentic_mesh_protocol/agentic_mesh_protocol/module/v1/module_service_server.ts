@@ -0,0 +1,155 @@
+// @generated from file agentic_mesh_protocol/module/v1/module_service.proto
+/* eslint-disable */
+
+import { Metadata, status, type StatusObject, type handleServerStreamingCall, type handleUnaryCall } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { ModuleServiceServer } from "./module_service.js";
+import { ConfigSetupModuleRequestSchema, ConfigSetupModuleResponseSchema, StartModuleRequestSchema, StartModuleResponseSchema, StopModuleRequestSchema, StopModuleResponseSchema } from "./lifecycle_zod.js";
+import { GetModuleJobsRequestSchema, GetModuleJobsResponseSchema, GetModuleStatusRequestSchema, GetModuleStatusResponseSchema } from "./monitoring_zod.js";
+import { GetConfigSetupModuleRequestSchema, GetConfigSetupModuleResponseSchema, GetModuleCostRequestSchema, GetModuleCostResponseSchema, GetModuleInputRequestSchema, GetModuleInputResponseSchema, GetModuleOutputRequestSchema, GetModuleOutputResponseSchema, GetModuleSecretRequestSchema, GetModuleSecretResponseSchema, GetModuleSelectInputRequestSchema, GetModuleSelectInputResponseSchema, GetModuleSetupRequestSchema, GetModuleSetupResponseSchema } from "./information_zod.js";
+import { formatFieldPath, toViolations } from "../../../buf/validate/violations.js";
+
+/**
+ * Options of the validation wrappers
+ */
+export interface ServerValidationOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Protobuf encoding of a length-delimited field (string or message) */
+function lengthDelimited(fieldNumber: number, value: string | Buffer): Buffer {
+  const bytes = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+  return Buffer.concat([varint((fieldNumber << 3) | 2), varint(bytes.length), bytes]);
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  for (; value > 0x7f; value >>>= 7) {
+    bytes.push((value & 0x7f) | 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+/** INVALID_ARGUMENT status with a google.rpc.BadRequest detail listing the violations */
+function invalidArgument(schema: z.ZodType, request: unknown, error: z.ZodError): Partial<StatusObject> {
+  // The reason is the protovalidate rule id the generated checks carry
+  const violations = toViolations(schema, request, error).violations.map((violation) => ({
+    field: violation.field ? formatFieldPath(violation.field) : "",
+    description: violation.message,
+    reason: violation.ruleId,
+  }));
+  const details = "invalid request: " + violations.map((v) => (v.field ? v.field + ": " : "") + v.description).join("; ");
+  // google.rpc.BadRequest { repeated FieldViolation field_violations = 1 }
+  // google.rpc.BadRequest.FieldViolation { string field = 1; string description = 2; string reason = 3 }
+  const badRequest = Buffer.concat(
+    violations.map((v) =>
+      lengthDelimited(1, Buffer.concat([lengthDelimited(1, v.field), lengthDelimited(2, v.description), lengthDelimited(3, v.reason)])),
+    ),
+  );
+  // google.rpc.Status { int32 code = 1; string message = 2; repeated google.protobuf.Any details = 3 }
+  const statusDetails = Buffer.concat([
+    Buffer.from([0x08, status.INVALID_ARGUMENT]),
+    lengthDelimited(2, details),
+    lengthDelimited(3, Buffer.concat([lengthDelimited(1, "type.googleapis.com/google.rpc.BadRequest"), lengthDelimited(2, badRequest)])),
+  ]);
+  const metadata = new Metadata();
+  metadata.set("grpc-status-details-bin", statusDetails);
+  return { code: status.INVALID_ARGUMENT, details, metadata };
+}
+
+/** INTERNAL status for a response the handler should not have sent */
+function invalidResponse(schema: z.ZodType, response: unknown, error: z.ZodError): Partial<StatusObject> {
+  const violations = toViolations(schema, response, error).violations.map(
+    (violation) => (violation.field ? formatFieldPath(violation.field) + ": " : "") + violation.message,
+  );
+  return { code: status.INTERNAL, details: "invalid response: " + violations.join("; ") };
+}
+
+/** Validates the request before the handler runs, and its response when a schema is given */
+function validateUnaryCall<Req, Res>(
+  handler: handleUnaryCall<Req, Res>,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+): handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    const request = requestSchema?.safeParse(call.request);
+    if (requestSchema && request && !request.success) {
+      callback(invalidArgument(requestSchema, call.request, request.error));
+      return;
+    }
+    if (!responseSchema) {
+      handler(call, callback);
+      return;
+    }
+    handler(call, (error, value, ...rest) => {
+      const response = error ? undefined : responseSchema.safeParse(value);
+      if (response && !response.success) {
+        callback(invalidResponse(responseSchema, value, response.error));
+        return;
+      }
+      callback(error, value, ...rest);
+    });
+  };
+}
+
+/** Validates the request before the handler runs, and each message written when a schema is given */
+function validateServerStreamingCall<Req, Res>(
+  handler: handleServerStreamingCall<Req, Res>,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+): handleServerStreamingCall<Req, Res> {
+  return (call) => {
+    const request = requestSchema?.safeParse(call.request);
+    if (requestSchema && request && !request.success) {
+      call.emit("error", invalidArgument(requestSchema, call.request, request.error));
+      return;
+    }
+    if (responseSchema) {
+      const write = call.write.bind(call) as (...args: unknown[]) => boolean;
+      let failed = false;
+      call.write = ((message: Res, ...rest: unknown[]) => {
+        if (failed) {
+          return false;
+        }
+        const response = responseSchema.safeParse(message);
+        if (!response.success) {
+          // The call ends with the first invalid message, later writes are dropped
+          failed = true;
+          call.emit("error", invalidResponse(responseSchema, message, response.error));
+          return false;
+        }
+        return write(message, ...rest);
+      }) as typeof call.write;
+    }
+    handler(call);
+  };
+}
+
+/**
+ * Wraps a ModuleService implementation so its handlers only receive valid requests
+ * @generated from service agentic_mesh_protocol.module.v1.ModuleService
+ */
+export function withModuleServiceValidation(
+  impl: ModuleServiceServer,
+  validationOptions: ServerValidationOptions = {},
+): ModuleServiceServer {
+  const validateResponses = validationOptions.validateResponses ?? false;
+  return {
+    ...impl,
+    startModule: validateServerStreamingCall(impl.startModule, StartModuleRequestSchema, validateResponses ? StartModuleResponseSchema : undefined),
+    stopModule: validateUnaryCall(impl.stopModule, StopModuleRequestSchema, validateResponses ? StopModuleResponseSchema : undefined),
+    getModuleStatus: validateUnaryCall(impl.getModuleStatus, GetModuleStatusRequestSchema, validateResponses ? GetModuleStatusResponseSchema : undefined),
+    getModuleJobs: validateUnaryCall(impl.getModuleJobs, GetModuleJobsRequestSchema, validateResponses ? GetModuleJobsResponseSchema : undefined),
+    getModuleInput: validateUnaryCall(impl.getModuleInput, GetModuleInputRequestSchema, validateResponses ? GetModuleInputResponseSchema : undefined),
+    getModuleSelectInput: validateUnaryCall(impl.getModuleSelectInput, GetModuleSelectInputRequestSchema, validateResponses ? GetModuleSelectInputResponseSchema : undefined),
+    getModuleOutput: validateUnaryCall(impl.getModuleOutput, GetModuleOutputRequestSchema, validateResponses ? GetModuleOutputResponseSchema : undefined),
+    getModuleSetup: validateUnaryCall(impl.getModuleSetup, GetModuleSetupRequestSchema, validateResponses ? GetModuleSetupResponseSchema : undefined),
+    getModuleSecret: validateUnaryCall(impl.getModuleSecret, GetModuleSecretRequestSchema, validateResponses ? GetModuleSecretResponseSchema : undefined),
+    getConfigSetupModule: validateUnaryCall(impl.getConfigSetupModule, GetConfigSetupModuleRequestSchema, validateResponses ? GetConfigSetupModuleResponseSchema : undefined),
+    configSetupModule: validateUnaryCall(impl.configSetupModule, ConfigSetupModuleRequestSchema, validateResponses ? ConfigSetupModuleResponseSchema : undefined),
+    getModuleCost: validateUnaryCall(impl.getModuleCost, GetModuleCostRequestSchema, validateResponses ? GetModuleCostResponseSchema : undefined),
+  };
+}
+
@@ -0,0 +1,141 @@
+// @generated from file agentic_mesh_protocol/module/v1/monitoring.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { ModuleStatus } from "./monitoring.js";
+
+/**
+ * ModuleStatus
+ * TODO: adapt to the real status of the module
+ * @generated from enum agentic_mesh_protocol.module.v1.ModuleStatus
+ */
+export const ModuleStatusSchema = z.enum(ModuleStatus).describe("ModuleStatus\nTODO: adapt to the real status of the module");
+export type ModuleStatusType = z.infer<typeof ModuleStatusSchema>;
+
+/**
+ * Map of ModuleStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.module.v1.ModuleStatus
+ */
+export const MODULE_STATUS_MAP: Record<number, string> = {
+  /** MODULE_STATUS_UNSPECIFIED is the default unspecified value */
+  0: "UNSPECIFIED",
+  /** MODULE_STATUS_STARTING is the status when the module is starting */
+  1: "STARTING",
+  /** MODULE_STATUS_PROCESSING is the status when the module is processing */
+  2: "PROCESSING",
+  /** MODULE_STATUS_CANCELED is the status when the module is canceled */
+  3: "CANCELED",
+  /** MODULE_STATUS_FAILED is the status when the module is failed */
+  4: "FAILED",
+  /** MODULE_STATUS_EXPIRED is the status when the module is expired */
+  5: "EXPIRED",
+  /** MODULE_STATUS_SUCCESS is the status when the module is successful */
+  6: "SUCCESS",
+  /** MODULE_STATUS_STOPPED is the status when the module is stopped */
+  7: "STOPPED",
+};
+
+/**
+ * Map of string representations to ModuleStatus enum values
+ * @generated from enum agentic_mesh_protocol.module.v1.ModuleStatus
+ */
+export const STRING_TO_MODULE_STATUS: Record<string, ModuleStatus> = {
+  /** MODULE_STATUS_STARTING is the status when the module is starting */
+  STARTING: ModuleStatus.MODULE_STATUS_STARTING,
+  /** MODULE_STATUS_PROCESSING is the status when the module is processing */
+  PROCESSING: ModuleStatus.MODULE_STATUS_PROCESSING,
+  /** MODULE_STATUS_CANCELED is the status when the module is canceled */
+  CANCELED: ModuleStatus.MODULE_STATUS_CANCELED,
+  /** MODULE_STATUS_FAILED is the status when the module is failed */
+  FAILED: ModuleStatus.MODULE_STATUS_FAILED,
+  /** MODULE_STATUS_EXPIRED is the status when the module is expired */
+  EXPIRED: ModuleStatus.MODULE_STATUS_EXPIRED,
+  /** MODULE_STATUS_SUCCESS is the status when the module is successful */
+  SUCCESS: ModuleStatus.MODULE_STATUS_SUCCESS,
+  /** MODULE_STATUS_STOPPED is the status when the module is stopped */
+  STOPPED: ModuleStatus.MODULE_STATUS_STOPPED,
+};
+
+/**
+ * JobInfo
+ *
+ * Represents information about a single job
+ * @generated from message agentic_mesh_protocol.module.v1.JobInfo
+ */
+export const JobInfoSchema = z.object({
+  /** job_id: Database ID of the job inside the Module */
+  jobId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).describe("job_id: Database ID of the job inside the Module"),
+  /** job_status: Status of the individual job */
+  jobStatus: z.enum(ModuleStatus).refine((v) => [0, 1, 2, 3, 4, 5, 6, 7].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).describe("job_status: Status of the individual job"),
+}).describe("JobInfo\n\nRepresents information about a single job");
+
+export type JobInfo = z.infer<typeof JobInfoSchema>;
+
+/**
+ * GetModuleStatusRequest
+ *
+ * Fields:
+ *
+ * - job_id: Database ID of the Job Module to get status
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleStatusRequest
+ */
+export const GetModuleStatusRequestSchema = z.object({
+  /** job_id: Database ID of the Job Module to get status */
+  jobId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).describe("job_id: Database ID of the Job Module to get status"),
+}).describe("GetModuleStatusRequest\n\nFields:\n\n- job_id: Database ID of the Job Module to get status");
+
+export type GetModuleStatusRequest = z.infer<typeof GetModuleStatusRequestSchema>;
+
+/**
+ * GetModuleStatusResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the status request was successful
+ * - status: Status of the Module
+ * - job_id: Database ID of the job inside the Module that was queried
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleStatusResponse
+ */
+export const GetModuleStatusResponseSchema = z.object({
+  /** success: Flag to indicate if the status request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the status request was successful"),
+  /** status: Status of the Module */
+  status: z.enum(ModuleStatus).refine((v) => [0, 1, 2, 3, 4, 5, 6, 7].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).describe("status: Status of the Module"),
+  /** job_id: Database ID of the job inside the Module that was queried */
+  jobId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("jobs:"), { message: "Must start with jobs:", params: { ruleId: "string.prefix" } }).describe("job_id: Database ID of the job inside the Module that was queried"),
+}).describe("GetModuleStatusResponse\n\nReturns:\n\n- success: Flag to indicate if the status request was successful\n- status: Status of the Module\n- job_id: Database ID of the job inside the Module that was queried");
+
+export type GetModuleStatusResponse = z.infer<typeof GetModuleStatusResponseSchema>;
+
+/**
+ * GetModuleJobsRequest
+ * TODO: adapt depending on the real way we will get the jobs
+ *
+ * Fields:
+ *
+ * - job_id: Database ID of the Job Module to get status
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleJobsRequest
+ */
+export const GetModuleJobsRequestSchema = z.object({
+}).describe("GetModuleJobsRequest\nTODO: adapt depending on the real way we will get the jobs\n\nFields:\n\n- job_id: Database ID of the Job Module to get status");
+
+export type GetModuleJobsRequest = z.infer<typeof GetModuleJobsRequestSchema>;
+
+/**
+ * GetModuleJobsResponse
+ *
+ * Returns:
+ *
+ * - success: Flag to indicate if the status request was successful
+ * - jobs: List of jobs with their respective IDs and statuses
+ * @generated from message agentic_mesh_protocol.module.v1.GetModuleJobsResponse
+ */
+export const GetModuleJobsResponseSchema = z.object({
+  /** success: Flag to indicate if the status request was successful */
+  success: z.boolean().optional().describe("success: Flag to indicate if the status request was successful"),
+  /** jobs: List of jobs with their respective IDs and statuses */
+  jobs: z.array(JobInfoSchema).optional().describe("jobs: List of jobs with their respective IDs and statuses"),
+}).describe("GetModuleJobsResponse\n\nReturns:\n\n- success: Flag to indicate if the status request was successful\n- jobs: List of jobs with their respective IDs and statuses");
+
+export type GetModuleJobsResponse = z.infer<typeof GetModuleJobsResponseSchema>;
+
@@ -0,0 +1,66 @@
+// @generated from file agentic_mesh_protocol/module_registry/v1/discover.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { MetadataSchema, TagSchema } from "./metadata_zod.js";
+
+/**
+ * DiscoverSearchRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DiscoverSearchRequest
+ */
+export const DiscoverSearchRequestSchema = z.object({
+  /** module_type: Type of the module to search for (trigger, tool, kin, view). */
+  moduleType: z.string().refine((v) => ["trigger", "tool", "kin", "view"].includes(v), { message: "Must be one of: trigger, tool, kin, view", params: { ruleId: "string.in" } }).describe("module_type: Type of the module to search for (trigger, tool, kin, view)."),
+  /** name: Module's name to search */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name: Module's name to search"),
+  /** tags: List of tags to filter modules with. */
+  tags: z.array(TagSchema).optional().describe("tags: List of tags to filter modules with."),
+  /** description: Module's description to search. */
+  description: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("description: Module's description to search."),
+}).describe("DiscoverSearchRequest");
+
+export type DiscoverSearchRequest = z.infer<typeof DiscoverSearchRequestSchema>;
+
+/**
+ * DiscoverInfoRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DiscoverInfoRequest
+ */
+export const DiscoverInfoRequestSchema = z.object({
+  /** module_id: Id of the module. */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("module_id: Id of the module."),
+}).describe("DiscoverInfoRequest");
+
+export type DiscoverInfoRequest = z.infer<typeof DiscoverInfoRequestSchema>;
+
+/**
+ * DiscoverInfoResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DiscoverInfoResponse
+ */
+export const DiscoverInfoResponseSchema = z.object({
+  /** module_id: Id of the module. */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("module_id: Id of the module."),
+  /** module_type: Type of the module (trigger, tool, kin, view). */
+  moduleType: z.string().refine((v) => ["trigger", "tool", "kin", "view"].includes(v), { message: "Must be one of: trigger, tool, kin, view", params: { ruleId: "string.in" } }).describe("module_type: Type of the module (trigger, tool, kin, view)."),
+  /** address: Address used to communicate with the module. */
+  address: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("address: Address used to communicate with the module."),
+  /** port: Port used to communicate with the module. */
+  port: z.number().int().refine((n) => n >= 1 && n <= 65535, { message: "Must be >= 1 and <= 65535", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).describe("port: Port used to communicate with the module."),
+  /** version: Current module version. */
+  version: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("version: Current module version."),
+  /** metadata: user defined module name, description and tags */
+  metadata: MetadataSchema.optional().describe("metadata: user defined module name, description and tags"),
+}).describe("DiscoverInfoResponse");
+
+export type DiscoverInfoResponse = z.infer<typeof DiscoverInfoResponseSchema>;
+
+/**
+ * DiscoverSearchResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DiscoverSearchResponse
+ */
+export const DiscoverSearchResponseSchema = z.object({
+  /** modules: List of matching modules. */
+  modules: z.array(DiscoverInfoResponseSchema).optional().describe("modules: List of matching modules."),
+}).describe("DiscoverSearchResponse");
+
+export type DiscoverSearchResponse = z.infer<typeof DiscoverSearchResponseSchema>;
+
@@ -0,0 +1,31 @@
+// @generated from file agentic_mesh_protocol/module_registry/v1/metadata.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * Tag
+ * @generated from message agentic_mesh_protocol.module_registry.v1.Tag
+ */
+export const TagSchema = z.object({
+  /** tag: Describe a Module function. */
+  tag: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("tag: Describe a Module function."),
+}).describe("Tag");
+
+export type Tag = z.infer<typeof TagSchema>;
+
+/**
+ * Metadata
+ * @generated from message agentic_mesh_protocol.module_registry.v1.Metadata
+ */
+export const MetadataSchema = z.object({
+  /** name: Module's name */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("name: Module's name"),
+  /** tags: List of tag to describe a module functionalities. */
+  tags: z.array(TagSchema).optional().describe("tags: List of tag to describe a module functionalities."),
+  /** description: Module's description for search and indexing */
+  description: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("description: Module's description for search and indexing"),
+}).describe("Metadata");
+
+export type Metadata = z.infer<typeof MetadataSchema>;
+
@@ -0,0 +1,168 @@
+// @generated from file agentic_mesh_protocol/module_registry/v1/module_registry_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientReadableStream, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { ModuleRegistryServiceClient } from "./module_registry_service.js";
+import type { DeregisterRequest, DeregisterResponse, RegisterRequest, RegisterResponse } from "./registration.js";
+import type { DiscoverInfoRequest, DiscoverInfoResponse, DiscoverSearchRequest, DiscoverSearchResponse } from "./discover.js";
+import type { GetAllModulesStatusRequest, ListModulesStatusRequest, ListModulesStatusResponse, ModuleStatusRequest, ModuleStatusResponse, UpdateStatusRequest, UpdateStatusResponse } from "./status.js";
+import { DeregisterRequestSchema, DeregisterResponseSchema, RegisterRequestSchema, RegisterResponseSchema } from "./registration_zod.js";
+import { DiscoverInfoRequestSchema, DiscoverInfoResponseSchema, DiscoverSearchRequestSchema, DiscoverSearchResponseSchema } from "./discover_zod.js";
+import { GetAllModulesStatusRequestSchema, ListModulesStatusRequestSchema, ListModulesStatusResponseSchema, ModuleStatusRequestSchema, ModuleStatusResponseSchema, UpdateStatusRequestSchema, UpdateStatusResponseSchema } from "./status_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/** Validates the request, then yields the messages of a server-streaming call */
+async function* serverStreamingCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (metadata: Metadata, options: Partial<CallOptions>) => ClientReadableStream<Res>,
+): AsyncGenerator<Res, void, undefined> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const stream = start(settings.metadata ?? new Metadata(), settings.options ?? {});
+  const cancel = () => stream.cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    for await (const message of stream as AsyncIterable<Res>) {
+      responseSchema?.parse(message);
+      yield message;
+    }
+  } catch (error) {
+    throw signal?.aborted ? signal.reason : error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // Ends the call when the consumer stops iterating early
+    stream.cancel();
+  }
+}
+
+/**
+ * Promise-based ModuleRegistryService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.module_registry.v1.ModuleRegistryService
+ */
+export interface ModuleRegistryServicePromiseClient {
+  /**
+   * Calls ModuleRegistryService.RegisterModule
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.RegisterModule
+   */
+  registerModule(request: RegisterRequest, settings?: CallSettings): Promise<RegisterResponse>;
+  /**
+   * Calls ModuleRegistryService.DeregisterModule
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.DeregisterModule
+   */
+  deregisterModule(request: DeregisterRequest, settings?: CallSettings): Promise<DeregisterResponse>;
+  /**
+   * Calls ModuleRegistryService.DiscoverInfoModule
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.DiscoverInfoModule
+   */
+  discoverInfoModule(request: DiscoverInfoRequest, settings?: CallSettings): Promise<DiscoverInfoResponse>;
+  /**
+   * Calls ModuleRegistryService.DiscoverSearchModule
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.DiscoverSearchModule
+   */
+  discoverSearchModule(request: DiscoverSearchRequest, settings?: CallSettings): Promise<DiscoverSearchResponse>;
+  /**
+   * Calls ModuleRegistryService.GetModuleStatus
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.GetModuleStatus
+   */
+  getModuleStatus(request: ModuleStatusRequest, settings?: CallSettings): Promise<ModuleStatusResponse>;
+  /**
+   * Calls ModuleRegistryService.ListModuleStatus
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.ListModuleStatus
+   */
+  listModuleStatus(request: ListModulesStatusRequest, settings?: CallSettings): Promise<ListModulesStatusResponse>;
+  /**
+   * Calls ModuleRegistryService.GetAllModuleStatus, yielding the streamed responses
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.GetAllModuleStatus
+   */
+  getAllModuleStatus(request: GetAllModulesStatusRequest, settings?: CallSettings): AsyncIterable<ModuleStatusResponse>;
+  /**
+   * Calls ModuleRegistryService.UpdateModuleStatus
+   * @generated from rpc agentic_mesh_protocol.module_registry.v1.ModuleRegistryService.UpdateModuleStatus
+   */
+  updateModuleStatus(request: UpdateStatusRequest, settings?: CallSettings): Promise<UpdateStatusResponse>;
+}
+
+/**
+ * Wraps a ts-proto ModuleRegistryServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.module_registry.v1.ModuleRegistryService
+ */
+export function createModuleRegistryServicePromiseClient(
+  client: ModuleRegistryServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): ModuleRegistryServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    registerModule: (request, settings = {}) =>
+      unaryCall(request, RegisterRequestSchema, validateResponses ? RegisterResponseSchema : undefined, settings, (metadata, options, callback) => client.registerModule(request, metadata, options, callback)),
+    deregisterModule: (request, settings = {}) =>
+      unaryCall(request, DeregisterRequestSchema, validateResponses ? DeregisterResponseSchema : undefined, settings, (metadata, options, callback) => client.deregisterModule(request, metadata, options, callback)),
+    discoverInfoModule: (request, settings = {}) =>
+      unaryCall(request, DiscoverInfoRequestSchema, validateResponses ? DiscoverInfoResponseSchema : undefined, settings, (metadata, options, callback) => client.discoverInfoModule(request, metadata, options, callback)),
+    discoverSearchModule: (request, settings = {}) =>
+      unaryCall(request, DiscoverSearchRequestSchema, validateResponses ? DiscoverSearchResponseSchema : undefined, settings, (metadata, options, callback) => client.discoverSearchModule(request, metadata, options, callback)),
+    getModuleStatus: (request, settings = {}) =>
+      unaryCall(request, ModuleStatusRequestSchema, validateResponses ? ModuleStatusResponseSchema : undefined, settings, (metadata, options, callback) => client.getModuleStatus(request, metadata, options, callback)),
+    listModuleStatus: (request, settings = {}) =>
+      unaryCall(request, ListModulesStatusRequestSchema, validateResponses ? ListModulesStatusResponseSchema : undefined, settings, (metadata, options, callback) => client.listModuleStatus(request, metadata, options, callback)),
+    getAllModuleStatus: (request, settings = {}) =>
+      serverStreamingCall(request, GetAllModulesStatusRequestSchema, validateResponses ? ModuleStatusResponseSchema : undefined, settings, (metadata, options) => client.getAllModuleStatus(request, metadata, options)),
+    updateModuleStatus: (request, settings = {}) =>
+      unaryCall(request, UpdateStatusRequestSchema, validateResponses ? UpdateStatusResponseSchema : undefined, settings, (metadata, options, callback) => client.updateModuleStatus(request, metadata, options, callback)),
+  };
+}
+
@@ -0,0 +1,60 @@
+// @generated from file agentic_mesh_protocol/module_registry/v1/registration.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { MetadataSchema } from "./metadata_zod.js";
+
+/**
+ * RegisterRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.RegisterRequest
+ */
+export const RegisterRequestSchema = z.object({
+  /** module_id: Id of the module */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("module_id: Id of the module"),
+  /** module_type: Type of the module (trigger, tool, kin, view) */
+  moduleType: z.string().refine((v) => ["trigger", "tool", "kin", "view"].includes(v), { message: "Must be one of: trigger, tool, kin, view", params: { ruleId: "string.in" } }).describe("module_type: Type of the module (trigger, tool, kin, view)"),
+  /** address: Address used to communicate with the module */
+  address: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("address: Address used to communicate with the module"),
+  /** port: Port used to communicate with the module */
+  port: z.number().int().refine((n) => n >= 1 && n <= 65535, { message: "Must be >= 1 and <= 65535", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("port: Port used to communicate with the module"),
+  /** version: Current module version. */
+  version: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("version: Current module version."),
+  /** metadata: user defined module name, description and tags */
+  metadata: MetadataSchema.optional().describe("metadata: user defined module name, description and tags"),
+}).describe("RegisterRequest");
+
+export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
+
+/**
+ * RegisterResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.RegisterResponse
+ */
+export const RegisterResponseSchema = z.object({
+  /** success: True if the registration was successful */
+  success: z.boolean().optional().describe("success: True if the registration was successful"),
+}).describe("RegisterResponse");
+
+export type RegisterResponse = z.infer<typeof RegisterResponseSchema>;
+
+/**
+ * DeregisterRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DeregisterRequest
+ */
+export const DeregisterRequestSchema = z.object({
+  /** module_id: Id of the module */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("module_id: Id of the module"),
+}).describe("DeregisterRequest");
+
+export type DeregisterRequest = z.infer<typeof DeregisterRequestSchema>;
+
+/**
+ * DeregisterResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.DeregisterResponse
+ */
+export const DeregisterResponseSchema = z.object({
+  /** success: True if the registration was successful */
+  success: z.boolean().optional().describe("success: True if the registration was successful"),
+}).describe("DeregisterResponse");
+
+export type DeregisterResponse = z.infer<typeof DeregisterResponseSchema>;
+
@@ -0,0 +1,126 @@
+// @generated from file agentic_mesh_protocol/module_registry/v1/status.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { ModuleStatus } from "./status.js";
+
+/**
+ * ModuleStatus mirroring a module instance state,
+ * @generated from enum agentic_mesh_protocol.module_registry.v1.ModuleStatus
+ */
+export const ModuleStatusSchema = z.enum(ModuleStatus).describe("ModuleStatus mirroring a module instance state,");
+export type ModuleStatusType = z.infer<typeof ModuleStatusSchema>;
+
+/**
+ * Map of ModuleStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.module_registry.v1.ModuleStatus
+ */
+export const MODULE_STATUS_MAP: Record<number, string> = {
+  /** MODULE_STATUS_UNSPECIFIED is the default unspecified value. */
+  0: "UNSPECIFIED",
+  /** MODULE_STATUS_RUNNING indicates the module is alive. */
+  1: "RUNNING",
+  /** MODULE_STATUS_IDLE indicates the module is waiting for an event / update. */
+  2: "IDLE",
+  /** MODULE_STATUS_ENDED indicates the module signals the end of task or have been killed. */
+  3: "ENDED",
+};
+
+/**
+ * Map of string representations to ModuleStatus enum values
+ * @generated from enum agentic_mesh_protocol.module_registry.v1.ModuleStatus
+ */
+export const STRING_TO_MODULE_STATUS: Record<string, ModuleStatus> = {
+  /** MODULE_STATUS_RUNNING indicates the module is alive. */
+  RUNNING: ModuleStatus.MODULE_STATUS_RUNNING,
+  /** MODULE_STATUS_IDLE indicates the module is waiting for an event / update. */
+  IDLE: ModuleStatus.MODULE_STATUS_IDLE,
+  /** MODULE_STATUS_ENDED indicates the module signals the end of task or have been killed. */
+  ENDED: ModuleStatus.MODULE_STATUS_ENDED,
+};
+
+/**
+ * ModuleStatusRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.ModuleStatusRequest
+ */
+export const ModuleStatusRequestSchema = z.object({
+  /** module_id: Database ID of the job inside the Module. */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the job inside the Module."),
+}).describe("ModuleStatusRequest");
+
+export type ModuleStatusRequest = z.infer<typeof ModuleStatusRequestSchema>;
+
+/**
+ * ModuleStatusResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.ModuleStatusResponse
+ */
+export const ModuleStatusResponseSchema = z.object({
+  /** module_id: Database ID of the job inside the Module. */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("module_id: Database ID of the job inside the Module."),
+  /** status: Representation of the Module current state (running, idle, ended...). */
+  status: z.enum(ModuleStatus).optional().describe("status: Representation of the Module current state (running, idle, ended...)."),
+  /** message: (Optional) Details about the status. */
+  message: z.string().optional().describe("message: (Optional) Details about the status."),
+}).describe("ModuleStatusResponse");
+
+export type ModuleStatusResponse = z.infer<typeof ModuleStatusResponseSchema>;
+
+/**
+ * GetAllModulesStatusRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.GetAllModulesStatusRequest
+ */
+export const GetAllModulesStatusRequestSchema = z.object({
+}).describe("GetAllModulesStatusRequest");
+
+export type GetAllModulesStatusRequest = z.infer<typeof GetAllModulesStatusRequestSchema>;
+
+/**
+ * ListModulesStatusRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.ListModulesStatusRequest
+ */
+export const ListModulesStatusRequestSchema = z.object({
+  /** list_size: (Optional) The maximum number of module status to return in the response. */
+  listSize: z.number().int().optional().describe("list_size: (Optional) The maximum number of module status to return in the response."),
+  /** offset: (Optional) define the start index to start the list. */
+  offset: z.number().int().optional().describe("offset: (Optional) define the start index to start the list."),
+}).describe("ListModulesStatusRequest");
+
+export type ListModulesStatusRequest = z.infer<typeof ListModulesStatusRequestSchema>;
+
+/**
+ * UpdateStatusRequest
+ * @generated from message agentic_mesh_protocol.module_registry.v1.UpdateStatusRequest
+ */
+export const UpdateStatusRequestSchema = z.object({
+  /** module_id: Id of the module */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("module_id: Id of the module"),
+  /** status: Set new fixed value for the current module. */
+  status: z.enum(ModuleStatus).optional().describe("status: Set new fixed value for the current module."),
+}).describe("UpdateStatusRequest");
+
+export type UpdateStatusRequest = z.infer<typeof UpdateStatusRequestSchema>;
+
+/**
+ * UpdateStatusResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.UpdateStatusResponse
+ */
+export const UpdateStatusResponseSchema = z.object({
+  /** success: True if the status was updated */
+  success: z.boolean().optional().describe("success: True if the status was updated"),
+}).describe("UpdateStatusResponse");
+
+export type UpdateStatusResponse = z.infer<typeof UpdateStatusResponseSchema>;
+
+/**
+ * ListModulesStatusResponse
+ * @generated from message agentic_mesh_protocol.module_registry.v1.ListModulesStatusResponse
+ */
+export const ListModulesStatusResponseSchema = z.object({
+  /** list_size: length of the modules_status list. */
+  listSize: z.number().int().optional().describe("list_size: length of the modules_status list."),
+  /** modules_statuses: List of modules with their respective IDs and statuses. */
+  modulesStatuses: z.array(ModuleStatusResponseSchema).optional().describe("modules_statuses: List of modules with their respective IDs and statuses."),
+}).describe("ListModulesStatusResponse");
+
+export type ListModulesStatusResponse = z.infer<typeof ListModulesStatusResponseSchema>;
+
@@ -0,0 +1,166 @@
+// @generated from file agentic_mesh_protocol/registry/v1/registry_enums.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { ModuleStatus, ModuleType, SetupStatus, Visibility } from "./registry_enums.js";
+
+/**
+ * ModuleStatus
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleStatus
+ */
+export const ModuleStatusSchema = z.enum(ModuleStatus).describe("ModuleStatus");
+export type ModuleStatusType = z.infer<typeof ModuleStatusSchema>;
+
+/**
+ * Map of ModuleStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleStatus
+ */
+export const MODULE_STATUS_MAP: Record<number, string> = {
+  /** Unspecified */
+  0: "UNSPECIFIED",
+  /** Ready */
+  1: "READY",
+  /** Active */
+  2: "ACTIVE",
+  /** Archived */
+  3: "ARCHIVED",
+};
+
+/**
+ * Map of string representations to ModuleStatus enum values
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleStatus
+ */
+export const STRING_TO_MODULE_STATUS: Record<string, ModuleStatus> = {
+  /** Ready */
+  READY: ModuleStatus.MODULE_STATUS_READY,
+  /** Active */
+  ACTIVE: ModuleStatus.MODULE_STATUS_ACTIVE,
+  /** Archived */
+  ARCHIVED: ModuleStatus.MODULE_STATUS_ARCHIVED,
+};
+
+/**
+ * SetupStatus
+ * @generated from enum agentic_mesh_protocol.registry.v1.SetupStatus
+ */
+export const SetupStatusSchema = z.enum(SetupStatus).describe("SetupStatus");
+export type SetupStatusType = z.infer<typeof SetupStatusSchema>;
+
+/**
+ * Map of SetupStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.registry.v1.SetupStatus
+ */
+export const SETUP_STATUS_MAP: Record<number, string> = {
+  /** Unspecified */
+  0: "UNSPECIFIED",
+  /** Draft */
+  1: "DRAFT",
+  /** Waiting for approval */
+  2: "WAITING_FOR_APPROVAL",
+  /** Ready */
+  3: "READY",
+  /** Paused */
+  4: "PAUSED",
+  /** Failed */
+  5: "FAILED",
+  /** Archived */
+  6: "ARCHIVED",
+  /** Needs configuration */
+  7: "NEEDS_CONFIGURATION",
+  /** Configuration failed */
+  8: "CONFIGURATION_FAILED",
+  /** Configuration succeeded */
+  9: "CONFIGURATION_SUCCEEDED",
+};
+
+/**
+ * Map of string representations to SetupStatus enum values
+ * @generated from enum agentic_mesh_protocol.registry.v1.SetupStatus
+ */
+export const STRING_TO_SETUP_STATUS: Record<string, SetupStatus> = {
+  /** Draft */
+  DRAFT: SetupStatus.SETUP_STATUS_DRAFT,
+  /** Waiting for approval */
+  WAITING_FOR_APPROVAL: SetupStatus.SETUP_STATUS_WAITING_FOR_APPROVAL,
+  /** Ready */
+  READY: SetupStatus.SETUP_STATUS_READY,
+  /** Paused */
+  PAUSED: SetupStatus.SETUP_STATUS_PAUSED,
+  /** Failed */
+  FAILED: SetupStatus.SETUP_STATUS_FAILED,
+  /** Archived */
+  ARCHIVED: SetupStatus.SETUP_STATUS_ARCHIVED,
+  /** Needs configuration */
+  NEEDS_CONFIGURATION: SetupStatus.SETUP_STATUS_NEEDS_CONFIGURATION,
+  /** Configuration failed */
+  CONFIGURATION_FAILED: SetupStatus.SETUP_STATUS_CONFIGURATION_FAILED,
+  /** Configuration succeeded */
+  CONFIGURATION_SUCCEEDED: SetupStatus.SETUP_STATUS_CONFIGURATION_SUCCEEDED,
+};
+
+/**
+ * Visibility
+ * @generated from enum agentic_mesh_protocol.registry.v1.Visibility
+ */
+export const VisibilitySchema = z.enum(Visibility).describe("Visibility");
+export type VisibilityType = z.infer<typeof VisibilitySchema>;
+
+/**
+ * Map of Visibility enum values to string representations
+ * @generated from enum agentic_mesh_protocol.registry.v1.Visibility
+ */
+export const VISIBILITY_MAP: Record<number, string> = {
+  /** Unspecified */
+  0: "UNSPECIFIED",
+  /** Public */
+  1: "PUBLIC",
+  /** Private */
+  2: "PRIVATE",
+  /** Internal */
+  3: "INTERNAL",
+};
+
+/**
+ * Map of string representations to Visibility enum values
+ * @generated from enum agentic_mesh_protocol.registry.v1.Visibility
+ */
+export const STRING_TO_VISIBILITY: Record<string, Visibility> = {
+  /** Public */
+  PUBLIC: Visibility.VISIBILITY_PUBLIC,
+  /** Private */
+  PRIVATE: Visibility.VISIBILITY_PRIVATE,
+  /** Internal */
+  INTERNAL: Visibility.VISIBILITY_INTERNAL,
+};
+
+/**
+ * ModuleType
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleType
+ */
+export const ModuleTypeSchema = z.enum(ModuleType).describe("ModuleType");
+export type ModuleTypeType = z.infer<typeof ModuleTypeSchema>;
+
+/**
+ * Map of ModuleType enum values to string representations
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleType
+ */
+export const MODULE_TYPE_MAP: Record<number, string> = {
+  /** Unspecified */
+  0: "UNSPECIFIED",
+  /** Archetype */
+  1: "ARCHETYPE",
+  /** Tool */
+  2: "TOOL",
+};
+
+/**
+ * Map of string representations to ModuleType enum values
+ * @generated from enum agentic_mesh_protocol.registry.v1.ModuleType
+ */
+export const STRING_TO_MODULE_TYPE: Record<string, ModuleType> = {
+  /** Archetype */
+  ARCHETYPE: ModuleType.MODULE_TYPE_ARCHETYPE,
+  /** Tool */
+  TOOL: ModuleType.MODULE_TYPE_TOOL,
+};
+
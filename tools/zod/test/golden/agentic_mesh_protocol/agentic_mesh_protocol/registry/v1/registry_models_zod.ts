@@ -0,0 +1,95 @@
+// @generated from file agentic_mesh_protocol/registry/v1/registry_models.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { ModuleStatus, ModuleType, SetupStatus, Visibility } from "./registry_enums.js";
+
+/**
+ * Represents your "modules" table as seen by the network.
+ * @generated from message agentic_mesh_protocol.registry.v1.ModuleDescriptor
+ */
+export const ModuleDescriptorSchema = z.object({
+  /** ID */
+  id: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("ID"),
+  /** Name */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Name"),
+  /** Module type */
+  moduleType: z.enum(ModuleType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Module type"),
+  /** Version */
+  version: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Version"),
+  /**
+   * Network endpoint
+   * Address used to communicate with the module
+   */
+  address: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Network endpoint\nAddress used to communicate with the module"),
+  /** Port used to communicate with the module */
+  port: z.number().int().refine((n) => n >= 1 && n <= 65535, { message: "Must be >= 1 and <= 65535", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).describe("Port used to communicate with the module"),
+  /** Status */
+  status: z.enum(ModuleStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Status"),
+  /** Visibility */
+  visibility: z.enum(Visibility).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Visibility"),
+  /** Organization ID */
+  organizationId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("organizations:"), { message: "Must start with organizations:", params: { ruleId: "string.prefix" } }).describe("Organization ID"),
+  /** Owner ID */
+  ownerId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("users:"), { message: "Must start with users:", params: { ruleId: "string.prefix" } }).describe("Owner ID"),
+  /**
+   * Schemas for machine introspection
+   * Input schema
+   */
+  inputSchema: z.record(z.string(), z.any()).describe("Schemas for machine introspection\nInput schema"),
+  /** Output schema */
+  outputSchema: z.record(z.string(), z.any()).describe("Output schema"),
+  /** Setup schema */
+  setupSchema: z.record(z.string(), z.any()).describe("Setup schema"),
+  /** Secret schema */
+  secretSchema: z.record(z.string(), z.any()).describe("Secret schema"),
+  /** Cost schema */
+  costSchema: z.record(z.string(), z.any()).describe("Cost schema"),
+  /** Documentation */
+  documentation: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Documentation"),
+  /** Created at */
+  createdAt: z.coerce.date().describe("Created at"),
+  /** Updated at */
+  updatedAt: z.coerce.date().describe("Updated at"),
+}).describe("Represents your \"modules\" table as seen by the network.");
+
+export type ModuleDescriptor = z.infer<typeof ModuleDescriptorSchema>;
+
+/**
+ * Represents your "setups" + current "setup_versions"
+ * @generated from message agentic_mesh_protocol.registry.v1.SetupDescriptor
+ */
+export const SetupDescriptorSchema = z.object({
+  /** ID */
+  id: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setups:"), { message: "Must start with setups:", params: { ruleId: "string.prefix" } }).describe("ID"),
+  /** Name */
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Name"),
+  /** Documentation */
+  documentation: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Documentation"),
+  /** Status */
+  status: z.enum(SetupStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Status"),
+  /** Visibility */
+  visibility: z.enum(Visibility).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Visibility"),
+  /** Organization ID */
+  organizationId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("organizations:"), { message: "Must start with organizations:", params: { ruleId: "string.prefix" } }).describe("Organization ID"),
+  /** Owner ID */
+  ownerId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("users:"), { message: "Must start with users:", params: { ruleId: "string.prefix" } }).describe("Owner ID"),
+  /** Card ID */
+  cardId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("cards:"), { message: "Must start with cards:", params: { ruleId: "string.prefix" } }).optional().describe("Card ID"),
+  /** Link to the module */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("Link to the module"),
+  /**
+   * Current version (setup_versions)
+   * ID
+   */
+  setupVersionId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setup_versions:"), { message: "Must start with setup_versions:", params: { ruleId: "string.prefix" } }).describe("Current version (setup_versions)\nID"),
+  /** Version */
+  setupVersion: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Version"),
+  /** Configuration */
+  config: z.record(z.string(), z.any()).describe("Configuration"),
+  /** Resolved module info (so agents don't need another round-trip) */
+  module: ModuleDescriptorSchema.describe("Resolved module info (so agents don't need another round-trip)"),
+}).describe("Represents your \"setups\" + current \"setup_versions\"");
+
+export type SetupDescriptor = z.infer<typeof SetupDescriptorSchema>;
+
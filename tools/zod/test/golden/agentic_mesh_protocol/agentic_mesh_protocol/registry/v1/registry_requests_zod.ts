@@ -0,0 +1,159 @@
+// @generated from file agentic_mesh_protocol/registry/v1/registry_requests.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { ModuleDescriptorSchema, SetupDescriptorSchema } from "./registry_models_zod.js";
+import { ModuleStatus, ModuleType, SetupStatus, Visibility } from "./registry_enums.js";
+
+/**
+ * Called by a module gRPC at startup to declare itself in the network.
+ * NOTE: module_id is expected to already exist in the platform database.
+ * @generated from message agentic_mesh_protocol.registry.v1.RegisterModuleRequest
+ */
+export const RegisterModuleRequestSchema = z.object({
+  /** ID */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("ID"),
+  /** Address */
+  address: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Address"),
+  /** Port */
+  port: z.number().int().refine((n) => n >= 1 && n <= 65535, { message: "Must be >= 1 and <= 65535", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).describe("Port"),
+  /** Version */
+  version: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).describe("Version"),
+}).describe("Called by a module gRPC at startup to declare itself in the network.\nNOTE: module_id is expected to already exist in the platform database.");
+
+export type RegisterModuleRequest = z.infer<typeof RegisterModuleRequestSchema>;
+
+/**
+ * RegisterModuleResponse
+ * @generated from message agentic_mesh_protocol.registry.v1.RegisterModuleResponse
+ */
+export const RegisterModuleResponseSchema = z.object({
+  /** Module descriptor */
+  module: ModuleDescriptorSchema.describe("Module descriptor"),
+}).describe("RegisterModuleResponse");
+
+export type RegisterModuleResponse = z.infer<typeof RegisterModuleResponseSchema>;
+
+/**
+ * HeartbeatRequest
+ * @generated from message agentic_mesh_protocol.registry.v1.HeartbeatRequest
+ */
+export const HeartbeatRequestSchema = z.object({
+  /** ID */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("ID"),
+}).describe("HeartbeatRequest");
+
+export type HeartbeatRequest = z.infer<typeof HeartbeatRequestSchema>;
+
+/**
+ * HeartbeatResponse
+ * @generated from message agentic_mesh_protocol.registry.v1.HeartbeatResponse
+ */
+export const HeartbeatResponseSchema = z.object({
+  /** Status */
+  status: z.enum(ModuleStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).describe("Status"),
+}).describe("HeartbeatResponse");
+
+export type HeartbeatResponse = z.infer<typeof HeartbeatResponseSchema>;
+
+/**
+ * Discover setups that are available (agents / tools).
+ * @generated from message agentic_mesh_protocol.registry.v1.DiscoverSetupsRequest
+ */
+export const DiscoverSetupsRequestSchema = z.object({
+  /**
+   * Basic filtering
+   * Organization ID
+   */
+  organizationId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("organizations:"), { message: "Must start with organizations:", params: { ruleId: "string.prefix" } }).optional().describe("Basic filtering\nOrganization ID"),
+  /** Visibility */
+  visibility: z.array(z.enum(Visibility).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("Visibility"),
+  /** Status */
+  status: z.array(z.enum(SetupStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("Status"),
+  /** e.g. agent, tool */
+  moduleTypes: z.array(z.enum(ModuleType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("e.g. agent, tool"),
+  /** Simple text search */
+  query: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional().describe("Simple text search"),
+  /** Filter on specific modules if needed */
+  moduleIds: z.array(z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len", rule: "repeated.items.string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix", rule: "repeated.items.string.prefix" } })).optional().describe("Filter on specific modules if needed"),
+  /**
+   * Pagination
+   * Limit
+   */
+  limit: z.number().int().refine((n) => n >= 1 && n <= 100, { message: "Must be >= 1 and <= 100", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("Pagination\nLimit"),
+  /** Offset */
+  offset: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("Offset"),
+}).describe("Discover setups that are available (agents / tools).");
+
+export type DiscoverSetupsRequest = z.infer<typeof DiscoverSetupsRequestSchema>;
+
+/**
+ * DiscoverSetupsResponse
+ * @generated from message agentic_mesh_protocol.registry.v1.DiscoverSetupsResponse
+ */
+export const DiscoverSetupsResponseSchema = z.object({
+  /** Setups */
+  setups: z.array(SetupDescriptorSchema).optional().describe("Setups"),
+}).describe("DiscoverSetupsResponse");
+
+export type DiscoverSetupsResponse = z.infer<typeof DiscoverSetupsResponseSchema>;
+
+/**
+ * Discover raw modules (rarely used by agents directly).
+ * @generated from message agentic_mesh_protocol.registry.v1.DiscoverModulesRequest
+ */
+export const DiscoverModulesRequestSchema = z.object({
+  /** Organization ID */
+  organizationId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("organizations:"), { message: "Must start with organizations:", params: { ruleId: "string.prefix" } }).optional().describe("Organization ID"),
+  /** Module types */
+  moduleTypes: z.array(z.enum(ModuleType).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("Module types"),
+  /** Status */
+  status: z.array(z.enum(ModuleStatus).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("Status"),
+  /** Visibility */
+  visibility: z.array(z.enum(Visibility).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional().describe("Visibility"),
+  /** Simple text search */
+  query: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional().describe("Simple text search"),
+  /**
+   * Pagination
+   * Limit
+   */
+  limit: z.number().int().refine((n) => n >= 1 && n <= 100, { message: "Must be >= 1 and <= 100", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("Pagination\nLimit"),
+  /** Offset */
+  offset: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("Offset"),
+}).describe("Discover raw modules (rarely used by agents directly).");
+
+export type DiscoverModulesRequest = z.infer<typeof DiscoverModulesRequestSchema>;
+
+/**
+ * DiscoverModulesResponse
+ * @generated from message agentic_mesh_protocol.registry.v1.DiscoverModulesResponse
+ */
+export const DiscoverModulesResponseSchema = z.object({
+  /** Modules */
+  modules: z.array(ModuleDescriptorSchema).optional().describe("Modules"),
+}).describe("DiscoverModulesResponse");
+
+export type DiscoverModulesResponse = z.infer<typeof DiscoverModulesResponseSchema>;
+
+/**
+ * Resolve a setup_id into a complete descriptor (config + endpoint module).
+ * @generated from message agentic_mesh_protocol.registry.v1.GetSetupRequest
+ */
+export const GetSetupRequestSchema = z.object({
+  /** ID */
+  setupId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("setups:"), { message: "Must start with setups:", params: { ruleId: "string.prefix" } }).describe("ID"),
+}).describe("Resolve a setup_id into a complete descriptor (config + endpoint module).");
+
+export type GetSetupRequest = z.infer<typeof GetSetupRequestSchema>;
+
+/**
+ * Resolve a module_id into a complete descriptor.
+ * @generated from message agentic_mesh_protocol.registry.v1.GetModuleRequest
+ */
+export const GetModuleRequestSchema = z.object({
+  /** ID */
+  moduleId: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => v.startsWith("modules:"), { message: "Must start with modules:", params: { ruleId: "string.prefix" } }).describe("ID"),
+}).describe("Resolve a module_id into a complete descriptor.");
+
+export type GetModuleRequest = z.infer<typeof GetModuleRequestSchema>;
+
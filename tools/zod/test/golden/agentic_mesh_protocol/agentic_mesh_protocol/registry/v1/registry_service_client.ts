@@ -0,0 +1,124 @@
+// @generated from file agentic_mesh_protocol/registry/v1/registry_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { RegistryServiceClient } from "./registry_service.js";
+import type { DiscoverModulesRequest, DiscoverModulesResponse, DiscoverSetupsRequest, DiscoverSetupsResponse, GetModuleRequest, GetSetupRequest, HeartbeatRequest, HeartbeatResponse, RegisterModuleRequest, RegisterModuleResponse } from "./registry_requests.js";
+import type { ModuleDescriptor, SetupDescriptor } from "./registry_models.js";
+import { DiscoverModulesRequestSchema, DiscoverModulesResponseSchema, DiscoverSetupsRequestSchema, DiscoverSetupsResponseSchema, GetModuleRequestSchema, GetSetupRequestSchema, HeartbeatRequestSchema, HeartbeatResponseSchema, RegisterModuleRequestSchema, RegisterModuleResponseSchema } from "./registry_requests_zod.js";
+import { ModuleDescriptorSchema, SetupDescriptorSchema } from "./registry_models_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based RegistryService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.registry.v1.RegistryService
+ */
+export interface RegistryServicePromiseClient {
+  /**
+   * Calls RegistryService.RegisterModule
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.RegisterModule
+   */
+  registerModule(request: RegisterModuleRequest, settings?: CallSettings): Promise<RegisterModuleResponse>;
+  /**
+   * Calls RegistryService.Heartbeat
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.Heartbeat
+   */
+  heartbeat(request: HeartbeatRequest, settings?: CallSettings): Promise<HeartbeatResponse>;
+  /**
+   * Calls RegistryService.DiscoverSetups
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.DiscoverSetups
+   */
+  discoverSetups(request: DiscoverSetupsRequest, settings?: CallSettings): Promise<DiscoverSetupsResponse>;
+  /**
+   * Calls RegistryService.DiscoverModules
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.DiscoverModules
+   */
+  discoverModules(request: DiscoverModulesRequest, settings?: CallSettings): Promise<DiscoverModulesResponse>;
+  /**
+   * Calls RegistryService.GetSetup
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.GetSetup
+   */
+  getSetup(request: GetSetupRequest, settings?: CallSettings): Promise<SetupDescriptor>;
+  /**
+   * Calls RegistryService.GetModule
+   * @generated from rpc agentic_mesh_protocol.registry.v1.RegistryService.GetModule
+   */
+  getModule(request: GetModuleRequest, settings?: CallSettings): Promise<ModuleDescriptor>;
+}
+
+/**
+ * Wraps a ts-proto RegistryServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.registry.v1.RegistryService
+ */
+export function createRegistryServicePromiseClient(
+  client: RegistryServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): RegistryServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    registerModule: (request, settings = {}) =>
+      unaryCall(request, RegisterModuleRequestSchema, validateResponses ? RegisterModuleResponseSchema : undefined, settings, (metadata, options, callback) => client.registerModule(request, metadata, options, callback)),
+    heartbeat: (request, settings = {}) =>
+      unaryCall(request, HeartbeatRequestSchema, validateResponses ? HeartbeatResponseSchema : undefined, settings, (metadata, options, callback) => client.heartbeat(request, metadata, options, callback)),
+    discoverSetups: (request, settings = {}) =>
+      unaryCall(request, DiscoverSetupsRequestSchema, validateResponses ? DiscoverSetupsResponseSchema : undefined, settings, (metadata, options, callback) => client.discoverSetups(request, metadata, options, callback)),
+    discoverModules: (request, settings = {}) =>
+      unaryCall(request, DiscoverModulesRequestSchema, validateResponses ? DiscoverModulesResponseSchema : undefined, settings, (metadata, options, callback) => client.discoverModules(request, metadata, options, callback)),
+    getSetup: (request, settings = {}) =>
+      unaryCall(request, GetSetupRequestSchema, validateResponses ? SetupDescriptorSchema : undefined, settings, (metadata, options, callback) => client.getSetup(request, metadata, options, callback)),
+    getModule: (request, settings = {}) =>
+      unaryCall(request, GetModuleRequestSchema, validateResponses ? ModuleDescriptorSchema : undefined, settings, (metadata, options, callback) => client.getModule(request, metadata, options, callback)),
+  };
+}
+
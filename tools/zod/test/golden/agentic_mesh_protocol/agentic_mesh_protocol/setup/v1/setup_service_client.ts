@@ -0,0 +1,150 @@
+// @generated from file agentic_mesh_protocol/setup/v1/setup_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { SetupServiceClient } from "./setup_service.js";
+import type { CreateSetupRequest, CreateSetupResponse, CreateSetupVersionRequest, CreateSetupVersionResponse, DeleteSetupRequest, DeleteSetupResponse, DeleteSetupVersionRequest, DeleteSetupVersionResponse, GetSetupRequest, GetSetupResponse, GetSetupVersionRequest, GetSetupVersionResponse, ListSetupsRequest, ListSetupsResponse, SearchSetupVersionsRequest, SearchSetupVersionsResponse, UpdateSetupRequest, UpdateSetupResponse, UpdateSetupVersionRequest, UpdateSetupVersionResponse } from "./setup.js";
+import { CreateSetupRequestSchema, CreateSetupResponseSchema, CreateSetupVersionRequestSchema, CreateSetupVersionResponseSchema, DeleteSetupRequestSchema, DeleteSetupResponseSchema, DeleteSetupVersionRequestSchema, DeleteSetupVersionResponseSchema, GetSetupRequestSchema, GetSetupResponseSchema, GetSetupVersionRequestSchema, GetSetupVersionResponseSchema, ListSetupsRequestSchema, ListSetupsResponseSchema, SearchSetupVersionsRequestSchema, SearchSetupVersionsResponseSchema, UpdateSetupRequestSchema, UpdateSetupResponseSchema, UpdateSetupVersionRequestSchema, UpdateSetupVersionResponseSchema } from "./setup_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based SetupService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.setup.v1.SetupService
+ */
+export interface SetupServicePromiseClient {
+  /**
+   * Calls SetupService.CreateSetup
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.CreateSetup
+   */
+  createSetup(request: CreateSetupRequest, settings?: CallSettings): Promise<CreateSetupResponse>;
+  /**
+   * Calls SetupService.GetSetup
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.GetSetup
+   */
+  getSetup(request: GetSetupRequest, settings?: CallSettings): Promise<GetSetupResponse>;
+  /**
+   * Calls SetupService.UpdateSetup
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.UpdateSetup
+   */
+  updateSetup(request: UpdateSetupRequest, settings?: CallSettings): Promise<UpdateSetupResponse>;
+  /**
+   * Calls SetupService.DeleteSetup
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.DeleteSetup
+   */
+  deleteSetup(request: DeleteSetupRequest, settings?: CallSettings): Promise<DeleteSetupResponse>;
+  /**
+   * Calls SetupService.CreateSetupVersion
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.CreateSetupVersion
+   */
+  createSetupVersion(request: CreateSetupVersionRequest, settings?: CallSettings): Promise<CreateSetupVersionResponse>;
+  /**
+   * Calls SetupService.GetSetupVersion
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.GetSetupVersion
+   */
+  getSetupVersion(request: GetSetupVersionRequest, settings?: CallSettings): Promise<GetSetupVersionResponse>;
+  /**
+   * Calls SetupService.SearchSetupVersions
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.SearchSetupVersions
+   */
+  searchSetupVersions(request: SearchSetupVersionsRequest, settings?: CallSettings): Promise<SearchSetupVersionsResponse>;
+  /**
+   * Calls SetupService.UpdateSetupVersion
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.UpdateSetupVersion
+   */
+  updateSetupVersion(request: UpdateSetupVersionRequest, settings?: CallSettings): Promise<UpdateSetupVersionResponse>;
+  /**
+   * Calls SetupService.DeleteSetupVersion
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.DeleteSetupVersion
+   */
+  deleteSetupVersion(request: DeleteSetupVersionRequest, settings?: CallSettings): Promise<DeleteSetupVersionResponse>;
+  /**
+   * Calls SetupService.ListSetups
+   * @generated from rpc agentic_mesh_protocol.setup.v1.SetupService.ListSetups
+   */
+  listSetups(request: ListSetupsRequest, settings?: CallSettings): Promise<ListSetupsResponse>;
+}
+
+/**
+ * Wraps a ts-proto SetupServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.setup.v1.SetupService
+ */
+export function createSetupServicePromiseClient(
+  client: SetupServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): SetupServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    createSetup: (request, settings = {}) =>
+      unaryCall(request, CreateSetupRequestSchema, validateResponses ? CreateSetupResponseSchema : undefined, settings, (metadata, options, callback) => client.createSetup(request, metadata, options, callback)),
+    getSetup: (request, settings = {}) =>
+      unaryCall(request, GetSetupRequestSchema, validateResponses ? GetSetupResponseSchema : undefined, settings, (metadata, options, callback) => client.getSetup(request, metadata, options, callback)),
+    updateSetup: (request, settings = {}) =>
+      unaryCall(request, UpdateSetupRequestSchema, validateResponses ? UpdateSetupResponseSchema : undefined, settings, (metadata, options, callback) => client.updateSetup(request, metadata, options, callback)),
+    deleteSetup: (request, settings = {}) =>
+      unaryCall(request, DeleteSetupRequestSchema, validateResponses ? DeleteSetupResponseSchema : undefined, settings, (metadata, options, callback) => client.deleteSetup(request, metadata, options, callback)),
+    createSetupVersion: (request, settings = {}) =>
+      unaryCall(request, CreateSetupVersionRequestSchema, validateResponses ? CreateSetupVersionResponseSchema : undefined, settings, (metadata, options, callback) => client.createSetupVersion(request, metadata, options, callback)),
+    getSetupVersion: (request, settings = {}) =>
+      unaryCall(request, GetSetupVersionRequestSchema, validateResponses ? GetSetupVersionResponseSchema : undefined, settings, (metadata, options, callback) => client.getSetupVersion(request, metadata, options, callback)),
+    searchSetupVersions: (request, settings = {}) =>
+      unaryCall(request, SearchSetupVersionsRequestSchema, validateResponses ? SearchSetupVersionsResponseSchema : undefined, settings, (metadata, options, callback) => client.searchSetupVersions(request, metadata, options, callback)),
+    updateSetupVersion: (request, settings = {}) =>
+      unaryCall(request, UpdateSetupVersionRequestSchema, validateResponses ? UpdateSetupVersionResponseSchema : undefined, settings, (metadata, options, callback) => client.updateSetupVersion(request, metadata, options, callback)),
+    deleteSetupVersion: (request, settings = {}) =>
+      unaryCall(request, DeleteSetupVersionRequestSchema, validateResponses ? DeleteSetupVersionResponseSchema : undefined, settings, (metadata, options, callback) => client.deleteSetupVersion(request, metadata, options, callback)),
+    listSetups: (request, settings = {}) =>
+      unaryCall(request, ListSetupsRequestSchema, validateResponses ? ListSetupsResponseSchema : undefined, settings, (metadata, options, callback) => client.listSetups(request, metadata, options, callback)),
+  };
+}
+
@@ -0,0 +1,481 @@
+// @generated from file agentic_mesh_protocol/setup/v1/setup.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { SetupStatus } from "./setup.js";
+
+/**
+ * SetupStatus
+ * Represents the status of a setup.
+ *
+ * Fields:
+ * - DRAFT: Setup is a draft
+ * - VALIDATING: Setup is being validated
+ * - READY: Setup is ready
+ * - PAUSED: Setup is paused
+ * - FAILED: Setup failed
+ * - ARCHIVED: Setup has been archived
+ * - NEEDS_CONFIGURATION: Setup needs configuration
+ * - CONFIGURATION_FAILED: Setup configuration failed
+ * - CONFIGURATION_SUCCEEDED: Setup configuration succeeded
+ * @generated from enum agentic_mesh_protocol.setup.v1.SetupStatus
+ */
+export const SetupStatusSchema = z.enum(SetupStatus).describe("SetupStatus\nRepresents the status of a setup.\n\nFields:\n- DRAFT: Setup is a draft\n- VALIDATING: Setup is being validated\n- READY: Setup is ready\n- PAUSED: Setup is paused\n- FAILED: Setup failed\n- ARCHIVED: Setup has been archived\n- NEEDS_CONFIGURATION: Setup needs configuration\n- CONFIGURATION_FAILED: Setup configuration failed\n- CONFIGURATION_SUCCEEDED: Setup configuration succeeded");
+export type SetupStatusType = z.infer<typeof SetupStatusSchema>;
+
+/**
+ * Map of SetupStatus enum values to string representations
+ * @generated from enum agentic_mesh_protocol.setup.v1.SetupStatus
+ */
+export const SETUP_STATUS_MAP: Record<number, string> = {
+  /** DRAFT: Setup is a draft */
+  0: "DRAFT",
+  /** VALIDATING: Setup is being validated */
+  1: "VALIDATING",
+  /** READY: Setup is ready */
+  2: "READY",
+  /** PAUSED: Setup is paused */
+  4: "PAUSED",
+  /** FAILED: Setup failed */
+  5: "FAILED",
+  /** ARCHIVED: Setup has been archived */
+  6: "ARCHIVED",
+  /** NEEDS_CONFIGURATION: Setup needs configuration */
+  7: "NEEDS_CONFIGURATION",
+  /** CONFIGURATION_FAILED: Setup configuration failed */
+  8: "CONFIGURATION_FAILED",
+  /** CONFIGURATION_SUCCEEDED: Setup configuration succeeded */
+  9: "CONFIGURATION_SUCCEEDED",
+};
+
+/**
+ * Map of string representations to SetupStatus enum values
+ * @generated from enum agentic_mesh_protocol.setup.v1.SetupStatus
+ */
+export const STRING_TO_SETUP_STATUS: Record<string, SetupStatus> = {
+  /** VALIDATING: Setup is being validated */
+  VALIDATING: SetupStatus.VALIDATING,
+  /** READY: Setup is ready */
+  READY: SetupStatus.READY,
+  /** PAUSED: Setup is paused */
+  PAUSED: SetupStatus.PAUSED,
+  /** FAILED: Setup failed */
+  FAILED: SetupStatus.FAILED,
+  /** ARCHIVED: Setup has been archived */
+  ARCHIVED: SetupStatus.ARCHIVED,
+  /** NEEDS_CONFIGURATION: Setup needs configuration */
+  NEEDS_CONFIGURATION: SetupStatus.NEEDS_CONFIGURATION,
+  /** CONFIGURATION_FAILED: Setup configuration failed */
+  CONFIGURATION_FAILED: SetupStatus.CONFIGURATION_FAILED,
+  /** CONFIGURATION_SUCCEEDED: Setup configuration succeeded */
+  CONFIGURATION_SUCCEEDED: SetupStatus.CONFIGURATION_SUCCEEDED,
+};
+
+/**
+ * SetupVersion
+ * Represents a version of a setup's configuration.
+ *
+ * Fields:
+ * - id: The unique identifier of the setup version.
+ * - setup_id: The unique identifier of the parent setup.
+ * - name: The identifier of the parent setup.
+ * - version: A label for the version (e.g., "v1", "v2").
+ * - content: Key-value pairs containing configuration content.
+ * - creation_date: setup version creation date
+ * @generated from message agentic_mesh_protocol.setup.v1.SetupVersion
+ */
+export const SetupVersionSchema = z.object({
+  /** id: The unique identifier of the setup version. */
+  id: z.string().describe("id: The unique identifier of the setup version."),
+  /** setup_id: The unique identifier of the parent setup. */
+  setupId: z.string().describe("setup_id: The unique identifier of the parent setup."),
+  /** version: The label for this version. */
+  version: z.string().describe("version: The label for this version."),
+  /** content: Key-value pairs for configuration content. */
+  content: z.record(z.string(), z.any()).describe("content: Key-value pairs for configuration content."),
+  /** creation_date: setup version creation date */
+  creationDate: z.coerce.date().optional().describe("creation_date: setup version creation date"),
+}).describe("SetupVersion\nRepresents a version of a setup's configuration.\n\nFields:\n- id: The unique identifier of the setup version.\n- setup_id: The unique identifier of the parent setup.\n- name: The identifier of the parent setup.\n- version: A label for the version (e.g., \"v1\", \"v2\").\n- content: Key-value pairs containing configuration content.\n- creation_date: setup version creation date");
+
+export type SetupVersion = z.infer<typeof SetupVersionSchema>;
+
+/**
+ * GetSetupRequest
+ * This request is used to retrieve a setup by its unique identifier.
+ *
+ * Fields:
+ * - setup_id: The unique identifier of the setup.
+ * - version: (Optional) The unique identifier of the active setup version.
+ * @generated from message agentic_mesh_protocol.setup.v1.GetSetupRequest
+ */
+export const GetSetupRequestSchema = z.object({
+  /** setup_id: The unique identifier of the setup. */
+  setupId: z.string().describe("setup_id: The unique identifier of the setup."),
+  /** version: The unique identifier of the active setup version. */
+  version: z.string().optional().describe("version: The unique identifier of the active setup version."),
+}).describe("GetSetupRequest\nThis request is used to retrieve a setup by its unique identifier.\n\nFields:\n- setup_id: The unique identifier of the setup.\n- version: (Optional) The unique identifier of the active setup version.");
+
+export type GetSetupRequest = z.infer<typeof GetSetupRequestSchema>;
+
+/**
+ * DeleteSetupRequest
+ * This request is used to delete a setup by its unique identifier.
+ *
+ * Fields:
+ * - setup_id: The unique identifier of the setup to delete.
+ * @generated from message agentic_mesh_protocol.setup.v1.DeleteSetupRequest
+ */
+export const DeleteSetupRequestSchema = z.object({
+  /** setup_id: The unique identifier of the setup. */
+  setupId: z.string().describe("setup_id: The unique identifier of the setup."),
+}).describe("DeleteSetupRequest\nThis request is used to delete a setup by its unique identifier.\n\nFields:\n- setup_id: The unique identifier of the setup to delete.");
+
+export type DeleteSetupRequest = z.infer<typeof DeleteSetupRequestSchema>;
+
+/**
+ * DeleteSetupResponse
+ * Indicates that the setup has been successfully deleted.
+ * @generated from message agentic_mesh_protocol.setup.v1.DeleteSetupResponse
+ */
+export const DeleteSetupResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+}).describe("DeleteSetupResponse\nIndicates that the setup has been successfully deleted.");
+
+export type DeleteSetupResponse = z.infer<typeof DeleteSetupResponseSchema>;
+
+/**
+ * CreateSetupVersionRequest
+ * This request is used to create a new setup version.
+ *
+ * Fields:
+ * - setup_id: The unique identifier of the parent setup.
+ * - version: The label for the new version.
+ * - content: The configuration content for this version.
+ * @generated from message agentic_mesh_protocol.setup.v1.CreateSetupVersionRequest
+ */
+export const CreateSetupVersionRequestSchema = z.object({
+  /** setup_id: The unique identifier of the parent setup. */
+  setupId: z.string().describe("setup_id: The unique identifier of the parent setup."),
+  /** version: The version label (e.g., "v1", "v2"). */
+  version: z.string().describe("version: The version label (e.g., \"v1\", \"v2\")."),
+  /** content: Key-value pairs for configuration content. */
+  content: z.record(z.string(), z.any()).optional().describe("content: Key-value pairs for configuration content."),
+}).describe("CreateSetupVersionRequest\nThis request is used to create a new setup version.\n\nFields:\n- setup_id: The unique identifier of the parent setup.\n- version: The label for the new version.\n- content: The configuration content for this version.");
+
+export type CreateSetupVersionRequest = z.infer<typeof CreateSetupVersionRequestSchema>;
+
+/**
+ * GetSetupVersionRequest
+ * This request is used to retrieve a setup version by its unique identifier.
+ *
+ * Fields:
+ * - setup_version_id: The unique identifier of the setup version.
+ * @generated from message agentic_mesh_protocol.setup.v1.GetSetupVersionRequest
+ */
+export const GetSetupVersionRequestSchema = z.object({
+  /** setup_version_id: The unique identifier of the setup version. */
+  setupVersionId: z.string().optional().describe("setup_version_id: The unique identifier of the setup version."),
+}).describe("GetSetupVersionRequest\nThis request is used to retrieve a setup version by its unique identifier.\n\nFields:\n- setup_version_id: The unique identifier of the setup version.");
+
+export type GetSetupVersionRequest = z.infer<typeof GetSetupVersionRequestSchema>;
+
+/**
+ * SearchSetupVersionsRequest
+ * This request is used to search for setup versions using filters.
+ *
+ * Fields:
+ * - setup_id: (Optional) Filter by the parent setup identifier.
+ * - version: (Optional) Filter by the version label.
+ * @generated from message agentic_mesh_protocol.setup.v1.SearchSetupVersionsRequest
+ */
+export const SearchSetupVersionsRequestSchema = z.object({
+  /** setup_id: The unique identifier of the parent setup. */
+  setupId: z.string().optional().describe("setup_id: The unique identifier of the parent setup."),
+  /** version: The version label to filter wirh. */
+  version: z.string().optional().describe("version: The version label to filter wirh."),
+}).describe("SearchSetupVersionsRequest\nThis request is used to search for setup versions using filters.\n\nFields:\n- setup_id: (Optional) Filter by the parent setup identifier.\n- version: (Optional) Filter by the version label.");
+
+export type SearchSetupVersionsRequest = z.infer<typeof SearchSetupVersionsRequestSchema>;
+
+/**
+ * UpdateSetupVersionRequest
+ * This request is used to update an existing setup version.
+ *
+ * Fields:
+ * - setup_version_id: The unique identifier of the setup version to update.
+ * - version: (Optional) The new version label.
+ * - content: (Optional) The new configuration content.
+ * @generated from message agentic_mesh_protocol.setup.v1.UpdateSetupVersionRequest
+ */
+export const UpdateSetupVersionRequestSchema = z.object({
+  /** setup_version_id: The unique identifier of the setup version to update. */
+  setupVersionId: z.string().describe("setup_version_id: The unique identifier of the setup version to update."),
+  /** version: The version label. */
+  version: z.string().describe("version: The version label."),
+  /** content: Key-value pairs for configuration content. */
+  content: z.record(z.string(), z.any()).describe("content: Key-value pairs for configuration content."),
+}).describe("UpdateSetupVersionRequest\nThis request is used to update an existing setup version.\n\nFields:\n- setup_version_id: The unique identifier of the setup version to update.\n- version: (Optional) The new version label.\n- content: (Optional) The new configuration content.");
+
+export type UpdateSetupVersionRequest = z.infer<typeof UpdateSetupVersionRequestSchema>;
+
+/**
+ * DeleteSetupVersionRequest
+ * This request is used to delete a setup version by its unique identifier.
+ *
+ * Fields:
+ * - setup_version_id: The unique identifier of the setup version to delete.
+ * @generated from message agentic_mesh_protocol.setup.v1.DeleteSetupVersionRequest
+ */
+export const DeleteSetupVersionRequestSchema = z.object({
+  /** setup_version_id: The unique identifier of the setup version. */
+  setupVersionId: z.string().describe("setup_version_id: The unique identifier of the setup version."),
+}).describe("DeleteSetupVersionRequest\nThis request is used to delete a setup version by its unique identifier.\n\nFields:\n- setup_version_id: The unique identifier of the setup version to delete.");
+
+export type DeleteSetupVersionRequest = z.infer<typeof DeleteSetupVersionRequestSchema>;
+
+/**
+ * DeleteSetupVersionResponse
+ * Indicates that the setup version has been successfully deleted.
+ * @generated from message agentic_mesh_protocol.setup.v1.DeleteSetupVersionResponse
+ */
+export const DeleteSetupVersionResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+}).describe("DeleteSetupVersionResponse\nIndicates that the setup version has been successfully deleted.");
+
+export type DeleteSetupVersionResponse = z.infer<typeof DeleteSetupVersionResponseSchema>;
+
+/**
+ * ListSetupsRequest is the request message for listing setups.
+ * @generated from message agentic_mesh_protocol.setup.v1.ListSetupsRequest
+ */
+export const ListSetupsRequestSchema = z.object({
+  /** organisation_id: Filter by organisation ID. */
+  organisationId: z.string().optional().describe("organisation_id: Filter by organisation ID."),
+  /** owner_id: Filter by owner ID. */
+  ownerId: z.string().optional().describe("owner_id: Filter by owner ID."),
+  /** limit: Maximum number of setups to return. */
+  limit: z.number().int().refine((n) => n >= 1 && n <= 1000, { message: "Must be >= 1 and <= 1000", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional().describe("limit: Maximum number of setups to return."),
+  /** offset: Number of setups to skip. */
+  offset: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("offset: Number of setups to skip."),
+}).describe("ListSetupsRequest is the request message for listing setups.");
+
+export type ListSetupsRequest = z.infer<typeof ListSetupsRequestSchema>;
+
+/**
+ * Setup
+ * Represents a configuration associated with a mission.
+ *
+ * Fields:
+ * - id: unique id used in database
+ * - name: The name of the setup.
+ * - organisation_id: The unique identifier of the organisation.
+ * - owner_id: The owner_id of the setup.
+ * - module_id: The module identifier associated with the setup.
+ * - current_setup_version: The identifier of the active setup version.
+ * @generated from message agentic_mesh_protocol.setup.v1.Setup
+ */
+export const SetupSchema = z.object({
+  /** id: The unique identifier of the setup. */
+  id: z.string().describe("id: The unique identifier of the setup."),
+  /** name: The name of the setup. */
+  name: z.string().describe("name: The name of the setup."),
+  /** organisation_id: The unique identifier of the organisation. */
+  organisationId: z.string().describe("organisation_id: The unique identifier of the organisation."),
+  /** owner_id: The owner_id of the setup. */
+  ownerId: z.string().describe("owner_id: The owner_id of the setup."),
+  /** module_id: The module identifier associated with the setup. */
+  moduleId: z.string().describe("module_id: The module identifier associated with the setup."),
+  /** current_setup_version: The unique identifier of the active setup version. */
+  currentSetupVersion: SetupVersionSchema.optional().describe("current_setup_version: The unique identifier of the active setup version."),
+  /** status: The status of the setup. */
+  status: z.enum(SetupStatus).describe("status: The status of the setup."),
+}).describe("Setup\nRepresents a configuration associated with a mission.\n\nFields:\n- id: unique id used in database\n- name: The name of the setup.\n- organisation_id: The unique identifier of the organisation.\n- owner_id: The owner_id of the setup.\n- module_id: The module identifier associated with the setup.\n- current_setup_version: The identifier of the active setup version.");
+
+export type Setup = z.infer<typeof SetupSchema>;
+
+/**
+ * CreateSetupRequest
+ * This request is used to create a new setup.
+ *
+ * Fields:
+ * - name: The name of the setup.
+ * - organisation_id: The unique identifier of the organisation.
+ * - owner_id: The owner_id of the setup.
+ * - module_id: The module identifier associated with the setup.
+ * - current_setup_version: The unique identifier of the active setup version.
+ * @generated from message agentic_mesh_protocol.setup.v1.CreateSetupRequest
+ */
+export const CreateSetupRequestSchema = z.object({
+  /** name: The name of the setup. */
+  name: z.string().describe("name: The name of the setup."),
+  /** organisation_id: The unique identifier of the organisation. */
+  organisationId: z.string().describe("organisation_id: The unique identifier of the organisation."),
+  /** owner_id: The owner_id of the setup. */
+  ownerId: z.string().describe("owner_id: The owner_id of the setup."),
+  /** module_id: The module identifier associated with the setup. */
+  moduleId: z.string().describe("module_id: The module identifier associated with the setup."),
+  /** current_setup_version: The unique identifier of the active setup version. */
+  currentSetupVersion: SetupVersionSchema.optional().describe("current_setup_version: The unique identifier of the active setup version."),
+  /** status: The status of the setup. */
+  status: z.enum(SetupStatus).describe("status: The status of the setup."),
+}).describe("CreateSetupRequest\nThis request is used to create a new setup.\n\nFields:\n- name: The name of the setup.\n- organisation_id: The unique identifier of the organisation.\n- owner_id: The owner_id of the setup.\n- module_id: The module identifier associated with the setup.\n- current_setup_version: The unique identifier of the active setup version.");
+
+export type CreateSetupRequest = z.infer<typeof CreateSetupRequestSchema>;
+
+/**
+ * UpdateSetupRequest
+ * This request is used to update an existing setup.
+ *
+ * Fields:
+ * - name: The unique identifier of the setup to update.
+ * - owner_id: (Optional) The new owner_id.
+ * - current_setup_version: (Optional) The new active setup version identifier.
+ * @generated from message agentic_mesh_protocol.setup.v1.UpdateSetupRequest
+ */
+export const UpdateSetupRequestSchema = z.object({
+  /** setup_id: The unique identifier of the setup. */
+  setupId: z.string().describe("setup_id: The unique identifier of the setup."),
+  /** name: The unique identifier of the setup to update. */
+  name: z.string().describe("name: The unique identifier of the setup to update."),
+  /** owner_id: The owner_id of the setup. */
+  ownerId: z.string().optional().describe("owner_id: The owner_id of the setup."),
+  /** current_setup_version: The unique identifier of the active setup version. */
+  currentSetupVersion: SetupVersionSchema.optional().describe("current_setup_version: The unique identifier of the active setup version."),
+  /** status: The status of the setup. */
+  status: z.enum(SetupStatus).describe("status: The status of the setup."),
+}).describe("UpdateSetupRequest\nThis request is used to update an existing setup.\n\nFields:\n- name: The unique identifier of the setup to update.\n- owner_id: (Optional) The new owner_id.\n- current_setup_version: (Optional) The new active setup version identifier.");
+
+export type UpdateSetupRequest = z.infer<typeof UpdateSetupRequestSchema>;
+
+/**
+ * CreateSetupVersionResponse
+ * Returns the newly created setup version status flag.
+ *
+ * Fields:
+ * - success: description flag of the operation.
+ * - setup_version: The newly created setup version entity.
+ * @generated from message agentic_mesh_protocol.setup.v1.CreateSetupVersionResponse
+ */
+export const CreateSetupVersionResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+  /** setup_version: The newly created setup version entity. */
+  setupVersion: SetupVersionSchema.optional().describe("setup_version: The newly created setup version entity."),
+}).describe("CreateSetupVersionResponse\nReturns the newly created setup version status flag.\n\nFields:\n- success: description flag of the operation.\n- setup_version: The newly created setup version entity.");
+
+export type CreateSetupVersionResponse = z.infer<typeof CreateSetupVersionResponseSchema>;
+
+/**
+ * GetSetupVersionResponse
+ * Returns the setup version corresponding to the setup_version_id.
+ *
+ * Fields:
+ * - setup_version: The retrieved setup version entity.
+ * @generated from message agentic_mesh_protocol.setup.v1.GetSetupVersionResponse
+ */
+export const GetSetupVersionResponseSchema = z.object({
+  /** setup_version: The retrieved setup version entity. */
+  setupVersion: SetupVersionSchema.optional().describe("setup_version: The retrieved setup version entity."),
+}).describe("GetSetupVersionResponse\nReturns the setup version corresponding to the setup_version_id.\n\nFields:\n- setup_version: The retrieved setup version entity.");
+
+export type GetSetupVersionResponse = z.infer<typeof GetSetupVersionResponseSchema>;
+
+/**
+ * SearchSetupVersionsResponse
+ * Returns a list of setup versions that match the search criteria.
+ * @generated from message agentic_mesh_protocol.setup.v1.SearchSetupVersionsResponse
+ */
+export const SearchSetupVersionsResponseSchema = z.object({
+  /** setup_versions: A list of setup versions matching the criteria. */
+  setupVersions: z.array(SetupVersionSchema).optional().describe("setup_versions: A list of setup versions matching the criteria."),
+}).describe("SearchSetupVersionsResponse\nReturns a list of setup versions that match the search criteria.");
+
+export type SearchSetupVersionsResponse = z.infer<typeof SearchSetupVersionsResponseSchema>;
+
+/**
+ * UpdateSetupVersionResponse
+ * Returns the updated setup version.
+ *
+ * Fields:
+ * - success: description flag of the operation.
+ * - setup_version: The updated setup version entity.
+ * @generated from message agentic_mesh_protocol.setup.v1.UpdateSetupVersionResponse
+ */
+export const UpdateSetupVersionResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+  /** setup_version: The updated setup version entity. */
+  setupVersion: SetupVersionSchema.optional().describe("setup_version: The updated setup version entity."),
+}).describe("UpdateSetupVersionResponse\nReturns the updated setup version.\n\nFields:\n- success: description flag of the operation.\n- setup_version: The updated setup version entity.");
+
+export type UpdateSetupVersionResponse = z.infer<typeof UpdateSetupVersionResponseSchema>;
+
+/**
+ * CreateSetupResponse
+ * Returns the newly created setup status flag.
+ *
+ * Fields:
+ * - success: description flag of the operation.
+ * - setup: The newly created setup entity.
+ * @generated from message agentic_mesh_protocol.setup.v1.CreateSetupResponse
+ */
+export const CreateSetupResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+  /** setup: The newly created setup entity. */
+  setup: SetupSchema.optional().describe("setup: The newly created setup entity."),
+}).describe("CreateSetupResponse\nReturns the newly created setup status flag.\n\nFields:\n- success: description flag of the operation.\n- setup: The newly created setup entity.");
+
+export type CreateSetupResponse = z.infer<typeof CreateSetupResponseSchema>;
+
+/**
+ * GetSetupResponse
+ * Returns the setup corresponding to the requested identifier.
+ *
+ * Fields:
+ * - setup: The retrieved setup entity.
+ * - setup_version: The retrieved setup_version if exists.
+ * @generated from message agentic_mesh_protocol.setup.v1.GetSetupResponse
+ */
+export const GetSetupResponseSchema = z.object({
+  /** setup: The retrieved setup entity. */
+  setup: SetupSchema.optional().describe("setup: The retrieved setup entity."),
+  /** setup_version: The retrieved setup_version if exists. */
+  setupVersion: SetupVersionSchema.optional().describe("setup_version: The retrieved setup_version if exists."),
+}).describe("GetSetupResponse\nReturns the setup corresponding to the requested identifier.\n\nFields:\n- setup: The retrieved setup entity.\n- setup_version: The retrieved setup_version if exists.");
+
+export type GetSetupResponse = z.infer<typeof GetSetupResponseSchema>;
+
+/**
+ * UpdateSetupResponse
+ * Returns the updated setup status flag.
+ *
+ * Fields:
+ * - success: description flag of the operation.
+ * - setup: The updated setup entity.
+ * @generated from message agentic_mesh_protocol.setup.v1.UpdateSetupResponse
+ */
+export const UpdateSetupResponseSchema = z.object({
+  /** success: description flag of the operation. */
+  success: z.boolean().optional().describe("success: description flag of the operation."),
+  /** setup: The updated setup entity. */
+  setup: SetupSchema.optional().describe("setup: The updated setup entity."),
+}).describe("UpdateSetupResponse\nReturns the updated setup status flag.\n\nFields:\n- success: description flag of the operation.\n- setup: The updated setup entity.");
+
+export type UpdateSetupResponse = z.infer<typeof UpdateSetupResponseSchema>;
+
+/**
+ * ListSetupsResponse is the response message containing a list of setups.
+ * @generated from message agentic_mesh_protocol.setup.v1.ListSetupsResponse
+ */
+export const ListSetupsResponseSchema = z.object({
+  /** setups: List of setups matching the criteria. */
+  setups: z.array(SetupSchema).optional().describe("setups: List of setups matching the criteria."),
+  /** total_count: Total number of setups matching the criteria. */
+  totalCount: z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte" } }).optional().describe("total_count: Total number of setups matching the criteria."),
+}).describe("ListSetupsResponse is the response message containing a list of setups.");
+
+export type ListSetupsResponse = z.infer<typeof ListSetupsResponseSchema>;
+
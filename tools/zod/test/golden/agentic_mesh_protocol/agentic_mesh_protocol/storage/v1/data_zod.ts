@@ -0,0 +1,232 @@
+// @generated from file agentic_mesh_protocol/storage/v1/data.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { DataType } from "./data.js";
+
+/**
+ * DataType: Enum to categorize the type of data being stored
+ * @generated from enum agentic_mesh_protocol.storage.v1.DataType
+ */
+export const DataTypeSchema = z.enum(DataType).describe("DataType: Enum to categorize the type of data being stored");
+export type DataTypeType = z.infer<typeof DataTypeSchema>;
+
+/**
+ * Map of DataType enum values to string representations
+ * @generated from enum agentic_mesh_protocol.storage.v1.DataType
+ */
+export const DATA_TYPE_MAP: Record<number, string> = {
+  /** UNSPECIFIED: Default unspecified data type */
+  0: "UNSPECIFIED",
+  /** OUTPUT: Data generated by the system as output */
+  1: "OUTPUT",
+  /** VIEW: Data intended for display/UI purposes */
+  2: "VIEW",
+  /** LOGS: Log entries and debugging information */
+  3: "LOGS",
+  /** OTHER: Other miscellaneous data types */
+  4: "OTHER",
+};
+
+/**
+ * Map of string representations to DataType enum values
+ * @generated from enum agentic_mesh_protocol.storage.v1.DataType
+ */
+export const STRING_TO_DATA_TYPE: Record<string, DataType> = {
+  /** OUTPUT: Data generated by the system as output */
+  OUTPUT: DataType.OUTPUT,
+  /** VIEW: Data intended for display/UI purposes */
+  VIEW: DataType.VIEW,
+  /** LOGS: Log entries and debugging information */
+  LOGS: DataType.LOGS,
+  /** OTHER: Other miscellaneous data types */
+  OTHER: DataType.OTHER,
+};
+
+/**
+ * StorageRecord: Message to represent stored data
+ * @generated from message agentic_mesh_protocol.storage.v1.StorageRecord
+ */
+export const StorageRecordSchema = z.object({
+  /** data: JSON Object to store */
+  data: z.record(z.string(), z.any()).describe("data: JSON Object to store"),
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+  /** record_id: Unique identifier for the record within collection */
+  recordId: z.string().describe("record_id: Unique identifier for the record within collection"),
+  /** creation_date: Creation date of the data */
+  creationDate: z.coerce.date().describe("creation_date: Creation date of the data"),
+  /** update_date: Update date of the data */
+  updateDate: z.coerce.date().describe("update_date: Update date of the data"),
+  /** data_type: Type of the data */
+  dataType: z.enum(DataType).describe("data_type: Type of the data"),
+}).describe("StorageRecord: Message to represent stored data");
+
+export type StorageRecord = z.infer<typeof StorageRecordSchema>;
+
+/**
+ * StoreRecordRequest: Request to store record
+ * @generated from message agentic_mesh_protocol.storage.v1.StoreRecordRequest
+ */
+export const StoreRecordRequestSchema = z.object({
+  /** data: Data to store or to retrieve */
+  data: z.record(z.string(), z.any()).describe("data: Data to store or to retrieve"),
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+  /** record_id: Unique identifier for the record within collection */
+  recordId: z.string().describe("record_id: Unique identifier for the record within collection"),
+  /** data_type: Type of the data */
+  dataType: z.enum(DataType).describe("data_type: Type of the data"),
+}).describe("StoreRecordRequest: Request to store record");
+
+export type StoreRecordRequest = z.infer<typeof StoreRecordRequestSchema>;
+
+/**
+ * ReadRecordRequest: Request to read a record
+ * @generated from message agentic_mesh_protocol.storage.v1.ReadRecordRequest
+ */
+export const ReadRecordRequestSchema = z.object({
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+  /** record_id: Unique identifier for the record within collection */
+  recordId: z.string().describe("record_id: Unique identifier for the record within collection"),
+}).describe("ReadRecordRequest: Request to read a record");
+
+export type ReadRecordRequest = z.infer<typeof ReadRecordRequestSchema>;
+
+/**
+ * UpdateRecordRequest: Request to modify record
+ * @generated from message agentic_mesh_protocol.storage.v1.UpdateRecordRequest
+ */
+export const UpdateRecordRequestSchema = z.object({
+  /** data: Data to store or to retrieve */
+  data: z.record(z.string(), z.any()).describe("data: Data to store or to retrieve"),
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+  /** record_id: Unique identifier for the record within collection */
+  recordId: z.string().describe("record_id: Unique identifier for the record within collection"),
+}).describe("UpdateRecordRequest: Request to modify record");
+
+export type UpdateRecordRequest = z.infer<typeof UpdateRecordRequestSchema>;
+
+/**
+ * RemoveRecordRequest: Request to remove a record
+ * @generated from message agentic_mesh_protocol.storage.v1.RemoveRecordRequest
+ */
+export const RemoveRecordRequestSchema = z.object({
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+  /** record_id: Unique identifier for the record within collection */
+  recordId: z.string().describe("record_id: Unique identifier for the record within collection"),
+}).describe("RemoveRecordRequest: Request to remove a record");
+
+export type RemoveRecordRequest = z.infer<typeof RemoveRecordRequestSchema>;
+
+/**
+ * RemoveRecordResponse: Response to removed record
+ * @generated from message agentic_mesh_protocol.storage.v1.RemoveRecordResponse
+ */
+export const RemoveRecordResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+}).describe("RemoveRecordResponse: Response to removed record");
+
+export type RemoveRecordResponse = z.infer<typeof RemoveRecordResponseSchema>;
+
+/**
+ * ListRecordsRequest: Request to list all records in a given collection
+ * @generated from message agentic_mesh_protocol.storage.v1.ListRecordsRequest
+ */
+export const ListRecordsRequestSchema = z.object({
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+}).describe("ListRecordsRequest: Request to list all records in a given collection");
+
+export type ListRecordsRequest = z.infer<typeof ListRecordsRequestSchema>;
+
+/**
+ * RemoveCollectionRequest: Request to remove a collection
+ * @generated from message agentic_mesh_protocol.storage.v1.RemoveCollectionRequest
+ */
+export const RemoveCollectionRequestSchema = z.object({
+  /** mission_id: Mission ID linked to the data */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Mission ID linked to the data"),
+  /** collection: Name of a group of records (unique by mission_id) */
+  collection: z.string().describe("collection: Name of a group of records (unique by mission_id)"),
+}).describe("RemoveCollectionRequest: Request to remove a collection");
+
+export type RemoveCollectionRequest = z.infer<typeof RemoveCollectionRequestSchema>;
+
+/**
+ * RemoveCollectionResponse: Response to removed collection
+ * @generated from message agentic_mesh_protocol.storage.v1.RemoveCollectionResponse
+ */
+export const RemoveCollectionResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+}).describe("RemoveCollectionResponse: Response to removed collection");
+
+export type RemoveCollectionResponse = z.infer<typeof RemoveCollectionResponseSchema>;
+
+/**
+ * StoreRecordResponse: Response to stored record
+ * @generated from message agentic_mesh_protocol.storage.v1.StoreRecordResponse
+ */
+export const StoreRecordResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+  /** stored_data: Stored data */
+  storedData: StorageRecordSchema.describe("stored_data: Stored data"),
+}).describe("StoreRecordResponse: Response to stored record");
+
+export type StoreRecordResponse = z.infer<typeof StoreRecordResponseSchema>;
+
+/**
+ * ReadRecordResponse: Response after read a record
+ * @generated from message agentic_mesh_protocol.storage.v1.ReadRecordResponse
+ */
+export const ReadRecordResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+  /** stored_data: Stored data */
+  storedData: StorageRecordSchema.describe("stored_data: Stored data"),
+}).describe("ReadRecordResponse: Response after read a record");
+
+export type ReadRecordResponse = z.infer<typeof ReadRecordResponseSchema>;
+
+/**
+ * UpdateRecordResponse: Response to record modification
+ * @generated from message agentic_mesh_protocol.storage.v1.UpdateRecordResponse
+ */
+export const UpdateRecordResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+  /** stored_data: Stored data */
+  storedData: StorageRecordSchema.describe("stored_data: Stored data"),
+}).describe("UpdateRecordResponse: Response to record modification");
+
+export type UpdateRecordResponse = z.infer<typeof UpdateRecordResponseSchema>;
+
+/**
+ * ListRecordsResponse: Response to list all records in a given collection
+ * @generated from message agentic_mesh_protocol.storage.v1.ListRecordsResponse
+ */
+export const ListRecordsResponseSchema = z.object({
+  /** records: List of records */
+  records: z.array(StorageRecordSchema).describe("records: List of records"),
+}).describe("ListRecordsResponse: Response to list all records in a given collection");
+
+export type ListRecordsResponse = z.infer<typeof ListRecordsResponseSchema>;
+
@@ -0,0 +1,122 @@
+// @generated from file agentic_mesh_protocol/storage/v1/storage_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { StorageServiceClient } from "./storage_service.js";
+import type { ListRecordsRequest, ListRecordsResponse, ReadRecordRequest, ReadRecordResponse, RemoveCollectionRequest, RemoveCollectionResponse, RemoveRecordRequest, RemoveRecordResponse, StoreRecordRequest, StoreRecordResponse, UpdateRecordRequest, UpdateRecordResponse } from "./data.js";
+import { ListRecordsRequestSchema, ListRecordsResponseSchema, ReadRecordRequestSchema, ReadRecordResponseSchema, RemoveCollectionRequestSchema, RemoveCollectionResponseSchema, RemoveRecordRequestSchema, RemoveRecordResponseSchema, StoreRecordRequestSchema, StoreRecordResponseSchema, UpdateRecordRequestSchema, UpdateRecordResponseSchema } from "./data_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based StorageService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.storage.v1.StorageService
+ */
+export interface StorageServicePromiseClient {
+  /**
+   * Calls StorageService.StoreRecord
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.StoreRecord
+   */
+  storeRecord(request: StoreRecordRequest, settings?: CallSettings): Promise<StoreRecordResponse>;
+  /**
+   * Calls StorageService.ReadRecord
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.ReadRecord
+   */
+  readRecord(request: ReadRecordRequest, settings?: CallSettings): Promise<ReadRecordResponse>;
+  /**
+   * Calls StorageService.UpdateRecord
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.UpdateRecord
+   */
+  updateRecord(request: UpdateRecordRequest, settings?: CallSettings): Promise<UpdateRecordResponse>;
+  /**
+   * Calls StorageService.RemoveRecord
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.RemoveRecord
+   */
+  removeRecord(request: RemoveRecordRequest, settings?: CallSettings): Promise<RemoveRecordResponse>;
+  /**
+   * Calls StorageService.ListRecords
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.ListRecords
+   */
+  listRecords(request: ListRecordsRequest, settings?: CallSettings): Promise<ListRecordsResponse>;
+  /**
+   * Calls StorageService.RemoveCollection
+   * @generated from rpc agentic_mesh_protocol.storage.v1.StorageService.RemoveCollection
+   */
+  removeCollection(request: RemoveCollectionRequest, settings?: CallSettings): Promise<RemoveCollectionResponse>;
+}
+
+/**
+ * Wraps a ts-proto StorageServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.storage.v1.StorageService
+ */
+export function createStorageServicePromiseClient(
+  client: StorageServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): StorageServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    storeRecord: (request, settings = {}) =>
+      unaryCall(request, StoreRecordRequestSchema, validateResponses ? StoreRecordResponseSchema : undefined, settings, (metadata, options, callback) => client.storeRecord(request, metadata, options, callback)),
+    readRecord: (request, settings = {}) =>
+      unaryCall(request, ReadRecordRequestSchema, validateResponses ? ReadRecordResponseSchema : undefined, settings, (metadata, options, callback) => client.readRecord(request, metadata, options, callback)),
+    updateRecord: (request, settings = {}) =>
+      unaryCall(request, UpdateRecordRequestSchema, validateResponses ? UpdateRecordResponseSchema : undefined, settings, (metadata, options, callback) => client.updateRecord(request, metadata, options, callback)),
+    removeRecord: (request, settings = {}) =>
+      unaryCall(request, RemoveRecordRequestSchema, validateResponses ? RemoveRecordResponseSchema : undefined, settings, (metadata, options, callback) => client.removeRecord(request, metadata, options, callback)),
+    listRecords: (request, settings = {}) =>
+      unaryCall(request, ListRecordsRequestSchema, validateResponses ? ListRecordsResponseSchema : undefined, settings, (metadata, options, callback) => client.listRecords(request, metadata, options, callback)),
+    removeCollection: (request, settings = {}) =>
+      unaryCall(request, RemoveCollectionRequestSchema, validateResponses ? RemoveCollectionResponseSchema : undefined, settings, (metadata, options, callback) => client.removeCollection(request, metadata, options, callback)),
+  };
+}
+
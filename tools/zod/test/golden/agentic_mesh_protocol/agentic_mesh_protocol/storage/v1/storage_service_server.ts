@@ -0,0 +1,114 @@
+// @generated from file agentic_mesh_protocol/storage/v1/storage_service.proto
+/* eslint-disable */
+
+import { Metadata, status, type StatusObject, type handleUnaryCall } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { StorageServiceServer } from "./storage_service.js";
+import { ListRecordsRequestSchema, ListRecordsResponseSchema, ReadRecordRequestSchema, ReadRecordResponseSchema, RemoveCollectionRequestSchema, RemoveCollectionResponseSchema, RemoveRecordRequestSchema, RemoveRecordResponseSchema, StoreRecordRequestSchema, StoreRecordResponseSchema, UpdateRecordRequestSchema, UpdateRecordResponseSchema } from "./data_zod.js";
+import { formatFieldPath, toViolations } from "../../../buf/validate/violations.js";
+
+/**
+ * Options of the validation wrappers
+ */
+export interface ServerValidationOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Protobuf encoding of a length-delimited field (string or message) */
+function lengthDelimited(fieldNumber: number, value: string | Buffer): Buffer {
+  const bytes = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+  return Buffer.concat([varint((fieldNumber << 3) | 2), varint(bytes.length), bytes]);
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  for (; value > 0x7f; value >>>= 7) {
+    bytes.push((value & 0x7f) | 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+/** INVALID_ARGUMENT status with a google.rpc.BadRequest detail listing the violations */
+function invalidArgument(schema: z.ZodType, request: unknown, error: z.ZodError): Partial<StatusObject> {
+  // The reason is the protovalidate rule id the generated checks carry
+  const violations = toViolations(schema, request, error).violations.map((violation) => ({
+    field: violation.field ? formatFieldPath(violation.field) : "",
+    description: violation.message,
+    reason: violation.ruleId,
+  }));
+  const details = "invalid request: " + violations.map((v) => (v.field ? v.field + ": " : "") + v.description).join("; ");
+  // google.rpc.BadRequest { repeated FieldViolation field_violations = 1 }
+  // google.rpc.BadRequest.FieldViolation { string field = 1; string description = 2; string reason = 3 }
+  const badRequest = Buffer.concat(
+    violations.map((v) =>
+      lengthDelimited(1, Buffer.concat([lengthDelimited(1, v.field), lengthDelimited(2, v.description), lengthDelimited(3, v.reason)])),
+    ),
+  );
+  // google.rpc.Status { int32 code = 1; string message = 2; repeated google.protobuf.Any details = 3 }
+  const statusDetails = Buffer.concat([
+    Buffer.from([0x08, status.INVALID_ARGUMENT]),
+    lengthDelimited(2, details),
+    lengthDelimited(3, Buffer.concat([lengthDelimited(1, "type.googleapis.com/google.rpc.BadRequest"), lengthDelimited(2, badRequest)])),
+  ]);
+  const metadata = new Metadata();
+  metadata.set("grpc-status-details-bin", statusDetails);
+  return { code: status.INVALID_ARGUMENT, details, metadata };
+}
+
+/** INTERNAL status for a response the handler should not have sent */
+function invalidResponse(schema: z.ZodType, response: unknown, error: z.ZodError): Partial<StatusObject> {
+  const violations = toViolations(schema, response, error).violations.map(
+    (violation) => (violation.field ? formatFieldPath(violation.field) + ": " : "") + violation.message,
+  );
+  return { code: status.INTERNAL, details: "invalid response: " + violations.join("; ") };
+}
+
+/** Validates the request before the handler runs, and its response when a schema is given */
+function validateUnaryCall<Req, Res>(
+  handler: handleUnaryCall<Req, Res>,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+): handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    const request = requestSchema?.safeParse(call.request);
+    if (requestSchema && request && !request.success) {
+      callback(invalidArgument(requestSchema, call.request, request.error));
+      return;
+    }
+    if (!responseSchema) {
+      handler(call, callback);
+      return;
+    }
+    handler(call, (error, value, ...rest) => {
+      const response = error ? undefined : responseSchema.safeParse(value);
+      if (response && !response.success) {
+        callback(invalidResponse(responseSchema, value, response.error));
+        return;
+      }
+      callback(error, value, ...rest);
+    });
+  };
+}
+
+/**
+ * Wraps a StorageService implementation so its handlers only receive valid requests
+ * @generated from service agentic_mesh_protocol.storage.v1.StorageService
+ */
+export function withStorageServiceValidation(
+  impl: StorageServiceServer,
+  validationOptions: ServerValidationOptions = {},
+): StorageServiceServer {
+  const validateResponses = validationOptions.validateResponses ?? false;
+  return {
+    ...impl,
+    storeRecord: validateUnaryCall(impl.storeRecord, StoreRecordRequestSchema, validateResponses ? StoreRecordResponseSchema : undefined),
+    readRecord: validateUnaryCall(impl.readRecord, ReadRecordRequestSchema, validateResponses ? ReadRecordResponseSchema : undefined),
+    updateRecord: validateUnaryCall(impl.updateRecord, UpdateRecordRequestSchema, validateResponses ? UpdateRecordResponseSchema : undefined),
+    removeRecord: validateUnaryCall(impl.removeRecord, RemoveRecordRequestSchema, validateResponses ? RemoveRecordResponseSchema : undefined),
+    listRecords: validateUnaryCall(impl.listRecords, ListRecordsRequestSchema, validateResponses ? ListRecordsResponseSchema : undefined),
+    removeCollection: validateUnaryCall(impl.removeCollection, RemoveCollectionRequestSchema, validateResponses ? RemoveCollectionResponseSchema : undefined),
+  };
+}
+
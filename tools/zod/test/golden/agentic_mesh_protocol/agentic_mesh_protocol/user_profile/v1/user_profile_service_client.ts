@@ -0,0 +1,87 @@
+// @generated from file agentic_mesh_protocol/user_profile/v1/user_profile_service.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { UserProfileServiceClient } from "./user_profile_service.js";
+import type { GetUserProfileRequest, GetUserProfileResponse } from "./user_profile.js";
+import { GetUserProfileRequestSchema, GetUserProfileResponseSchema } from "./user_profile_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/**
+ * Promise-based UserProfileService client, validating requests with the Zod schemas
+ * @generated from service agentic_mesh_protocol.user_profile.v1.UserProfileService
+ */
+export interface UserProfileServicePromiseClient {
+  /**
+   * Calls UserProfileService.GetUserProfile
+   * @generated from rpc agentic_mesh_protocol.user_profile.v1.UserProfileService.GetUserProfile
+   */
+  getUserProfile(request: GetUserProfileRequest, settings?: CallSettings): Promise<GetUserProfileResponse>;
+}
+
+/**
+ * Wraps a ts-proto UserProfileServiceClient, which owns the channel
+ * @generated from service agentic_mesh_protocol.user_profile.v1.UserProfileService
+ */
+export function createUserProfileServicePromiseClient(
+  client: UserProfileServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): UserProfileServicePromiseClient {
+  const validateResponses = clientOptions.validateResponses ?? false;
+  return {
+    getUserProfile: (request, settings = {}) =>
+      unaryCall(request, GetUserProfileRequestSchema, validateResponses ? GetUserProfileResponseSchema : undefined, settings, (metadata, options, callback) => client.getUserProfile(request, metadata, options, callback)),
+  };
+}
+
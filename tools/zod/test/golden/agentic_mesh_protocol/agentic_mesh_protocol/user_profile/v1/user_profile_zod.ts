@@ -0,0 +1,105 @@
+// @generated from file agentic_mesh_protocol/user_profile/v1/user_profile.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * Metadata: Message to represent user metadata (security keys, etc.)
+ * @generated from message agentic_mesh_protocol.user_profile.v1.Metadata
+ */
+export const MetadataSchema = z.object({
+  /** security_key: Security key for the user */
+  securityKey: z.string().optional().describe("security_key: Security key for the user"),
+}).describe("Metadata: Message to represent user metadata (security keys, etc.)");
+
+export type Metadata = z.infer<typeof MetadataSchema>;
+
+/**
+ * Subscription: Message to represent user subscription information
+ * @generated from message agentic_mesh_protocol.user_profile.v1.Subscription
+ */
+export const SubscriptionSchema = z.object({
+  /** tier: Subscription tier level */
+  tier: z.string().optional().describe("tier: Subscription tier level"),
+  /** status: Current subscription status */
+  status: z.string().optional().describe("status: Current subscription status"),
+  /** start: Subscription start date */
+  start: z.coerce.date().optional().describe("start: Subscription start date"),
+  /** end: Subscription end date */
+  end: z.coerce.date().optional().describe("end: Subscription end date"),
+}).describe("Subscription: Message to represent user subscription information");
+
+export type Subscription = z.infer<typeof SubscriptionSchema>;
+
+/**
+ * CreditLot: Message to represent user credit allocation and usage
+ * @generated from message agentic_mesh_protocol.user_profile.v1.CreditLot
+ */
+export const CreditLotSchema = z.object({
+  /** source: Source of the credit lot (e.g., "top-up", "subs", "free plan"...) */
+  source: z.string().optional().describe("source: Source of the credit lot (e.g., \"top-up\", \"subs\", \"free plan\"...)"),
+  /** total: Total credit lot total to the user */
+  total: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).optional().describe("total: Total credit lot total to the user"),
+  /** remaining: credit lot remaining by the user */
+  remaining: z.number().optional().describe("remaining: credit lot remaining by the user"),
+  /** timestamp: Last update timestamp for creditLot */
+  timestamp: z.coerce.date().optional().describe("timestamp: Last update timestamp for creditLot"),
+}).describe("CreditLot: Message to represent user credit allocation and usage");
+
+export type CreditLot = z.infer<typeof CreditLotSchema>;
+
+/**
+ * GetUserProfileRequest: Request to get a user profile
+ * @generated from message agentic_mesh_protocol.user_profile.v1.GetUserProfileRequest
+ */
+export const GetUserProfileRequestSchema = z.object({
+  /** mission_id: Unique identifier for the mission */
+  missionId: z.string().refine((v) => v.startsWith("missions:"), { message: "Must start with missions:", params: { ruleId: "string.prefix" } }).describe("mission_id: Unique identifier for the mission"),
+}).describe("GetUserProfileRequest: Request to get a user profile");
+
+export type GetUserProfileRequest = z.infer<typeof GetUserProfileRequestSchema>;
+
+/**
+ * UserProfile: Message to represent a user profile
+ * @generated from message agentic_mesh_protocol.user_profile.v1.UserProfile
+ */
+export const UserProfileSchema = z.object({
+  /** user_id: Unique identifier for the user */
+  userId: z.string().refine((v) => v.startsWith("users:"), { message: "Must start with users:", params: { ruleId: "string.prefix" } }).describe("user_id: Unique identifier for the user"),
+  /** organisation_id: Organisation ID linked to the user */
+  organisationId: z.string().refine((v) => v.startsWith("organisations:"), { message: "Must start with organisations:", params: { ruleId: "string.prefix" } }).describe("organisation_id: Organisation ID linked to the user"),
+  /** email: User email address */
+  email: z.string().refine((v) => v !== "", { message: "Must be a valid email address", params: { ruleId: "string.email_empty", rule: "string.email" } }).refine((v) => v === "" || z.regexes.html5Email.test(v), { message: "Must be a valid email address", params: { ruleId: "string.email" } }).describe("email: User email address"),
+  /** first_name: User first name */
+  firstName: z.string().describe("first_name: User first name"),
+  /** last_name: User last name */
+  lastName: z.string().describe("last_name: User last name"),
+  /** creation_date: Profile creation date */
+  creationDate: z.coerce.date().describe("creation_date: Profile creation date"),
+  /** update_date: Profile last update date */
+  updateDate: z.coerce.date().describe("update_date: Profile last update date"),
+  /** locale: User locale preference */
+  locale: z.string().describe("locale: User locale preference"),
+  /** subscription: User subscription information */
+  subscription: SubscriptionSchema.optional().describe("subscription: User subscription information"),
+  /** credits: User credit allocation and usage */
+  credits: z.array(CreditLotSchema).optional().describe("credits: User credit allocation and usage"),
+  /** metadata: Additional user metadata (preferences, settings, etc.) */
+  metadata: z.record(z.string(), z.any()).optional().describe("metadata: Additional user metadata (preferences, settings, etc.)"),
+}).describe("UserProfile: Message to represent a user profile");
+
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+/**
+ * GetUserProfileResponse: Response after getting a user profile
+ * @generated from message agentic_mesh_protocol.user_profile.v1.GetUserProfileResponse
+ */
+export const GetUserProfileResponseSchema = z.object({
+  /** success: Success of the operation */
+  success: z.boolean().describe("success: Success of the operation"),
+  /** user_profile: Retrieved user profile */
+  userProfile: UserProfileSchema.describe("user_profile: Retrieved user profile"),
+}).describe("GetUserProfileResponse: Response after getting a user profile");
+
+export type GetUserProfileResponse = z.infer<typeof GetUserProfileResponseSchema>;
+
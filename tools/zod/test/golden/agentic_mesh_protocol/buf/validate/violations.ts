@@ -0,0 +1,312 @@
+// @generated from tools/runtime/src/violations.ts
+/* eslint-disable */
+
+/**
+ * Converts the errors of the generated Zod schemas to protovalidate Violations
+ *
+ * The checks generated from buf.validate rules carry their protovalidate rule
+ * id in the issue params (`{ ruleId: "string.min_len" }`), and the path of the
+ * rule when it is nested (`rule: "repeated.items.string.min_len"`) or a CEL
+ * rule of a field (`rule: "cel[0]"`). Together with the Zod issue path, this is enough to report a `buf.validate.Violations`
+ * that matches what protovalidate reports for the same message in another
+ * language. The violations are shaped like the ts-proto (forceLong=string) and
+ * JSON forms of the buf.validate messages.
+ *
+ * The Zod schemas do not know about field numbers and types, so the path
+ * elements only have field names. Field names are converted back to snake_case,
+ * and record keys are string keys unless the key schema is a number (ts-proto
+ * represents int64 and bool keys of objects as strings).
+ */
+
+import type { z } from "zod";
+
+/**
+ * buf.validate.FieldPathElement (the subscript is one of index, boolKey, intKey, stringKey)
+ */
+export interface FieldPathElement {
+  fieldName?: string;
+  /** Index in a repeated field (uint64) */
+  index?: string;
+  boolKey?: boolean;
+  /** Key of a map with integer keys (int64) */
+  intKey?: string;
+  stringKey?: string;
+}
+
+/**
+ * buf.validate.FieldPath
+ */
+export interface FieldPath {
+  elements: FieldPathElement[];
+}
+
+/**
+ * buf.validate.Violation
+ */
+export interface Violation {
+  /** Path of the invalid field, unset for message rules */
+  field?: FieldPath;
+  /** Path of the rule in the field's rules, e.g. repeated.items.string.min_len */
+  rule?: FieldPath;
+  /** protovalidate id of the rule, "" for type errors outside of buf.validate */
+  ruleId: string;
+  message: string;
+  /** Whether the violation is on the key of a map entry rather than its value */
+  forKey: boolean;
+}
+
+/**
+ * buf.validate.Violations
+ */
+export interface Violations {
+  violations: Violation[];
+}
+
+interface IssueParams {
+  ruleId?: string;
+  rule?: string;
+}
+
+// Definitions of the schemas walked along an issue path
+type ArrayDef = z.core.$ZodArrayDef;
+type RecordDef = z.core.$ZodRecordDef;
+type MapDef = z.core.$ZodMapDef;
+type UnionDef = z.core.$ZodUnionDef;
+type ObjectDef = z.core.$ZodObjectDef;
+type LiteralDef = z.core.$ZodLiteralDef<z.core.util.Literal>;
+type LazyDef = z.core.$ZodLazyDef;
+type PipeDef = z.core.$ZodPipeDef;
+
+/**
+ * Validates a value with a generated schema, returning no violations when it is valid
+ */
+export function checkViolations(schema: z.ZodType, value: unknown): Violations {
+  const result = schema.safeParse(value);
+  return result.success ? { violations: [] } : toViolations(schema, value, result.error);
+}
+
+/**
+ * Converts the error of a generated schema, with the value it was parsed from
+ */
+export function toViolations(schema: z.ZodType, value: unknown, error: z.ZodError): Violations {
+  return { violations: flattenIssues(error.issues, [], false).map((issue) => toViolation(schema, value, issue)) };
+}
+
+interface FlatIssue {
+  issue: z.core.$ZodIssue;
+  path: PropertyKey[];
+  forKey: boolean;
+}
+
+/**
+ * Replaces the issues wrapping other issues by the issues they wrap
+ */
+function flattenIssues(issues: readonly z.core.$ZodIssue[], prefix: PropertyKey[], forKey: boolean): FlatIssue[] {
+  return issues.flatMap((issue): FlatIssue[] => {
+    const path = [...prefix, ...issue.path];
+    if (issue.code === "invalid_key") {
+      return flattenIssues(issue.issues, path, true);
+    }
+    // The rules are on the last option: the zero value comes first in IGNORE_IF_ZERO_VALUE unions
+    if (issue.code === "invalid_union" && issue.errors.length > 0) {
+      const nested = issue.errors[issue.errors.length - 1];
+      if (nested.length > 0) {
+        return flattenIssues(nested, path, forKey);
+      }
+    }
+    return [{ issue, path, forKey }];
+  });
+}
+
+function toViolation(schema: z.ZodType, value: unknown, { issue, path, forKey }: FlatIssue): Violation {
+  const { elements, value: invalid } = toFieldPath(schema, value, path);
+  const params = issueParams(issue);
+
+  let ruleId = params.ruleId ?? "";
+  let rule = params.rule ?? (elements.length > 0 && ruleId ? ruleId : undefined);
+  // A missing value fails the type check of the field, which is a required field
+  if (!params.ruleId && issue.code === "invalid_type" && invalid === undefined && !forKey) {
+    ruleId = "required";
+    rule = "required";
+  }
+
+  return {
+    ...(elements.length > 0 && { field: { elements } }),
+    ...(rule && { rule: { elements: rule.split(".").map(toRuleElement) } }),
+    ruleId,
+    message: issue.message,
+    forKey: forKey || (rule?.startsWith("map.keys.") ?? false),
+  };
+}
+
+/**
+ * Reads the rule of a generated check from the params of its issue
+ */
+function issueParams(issue: z.core.$ZodIssue): IssueParams {
+  const params: Record<string, unknown> = issue.code === "custom" ? (issue.params ?? {}) : {};
+  return {
+    ...(typeof params.ruleId === "string" && { ruleId: params.ruleId }),
+    ...(typeof params.rule === "string" && { rule: params.rule }),
+  };
+}
+
+/**
+ * Converts an element of a rule path, e.g. `min_len` or `cel[0]`
+ */
+function toRuleElement(element: string): FieldPathElement {
+  const match = /^(\w+)\[(\d+)\]$/.exec(element);
+  return match ? { fieldName: match[1], index: match[2] } : { fieldName: element };
+}
+
+/**
+ * Walks the schema and the value along a Zod issue path
+ * Returns the field path and the value found at the end of the path.
+ */
+function toFieldPath(schema: z.ZodType, value: unknown, path: readonly PropertyKey[]): { elements: FieldPathElement[]; value: unknown } {
+  const elements: FieldPathElement[] = [];
+  let current: z.core.$ZodType | undefined = schema;
+  let node = value;
+
+  for (const segment of path) {
+    current = current && unwrapUnion(unwrap(current), node);
+    const def: z.core.$ZodTypeDef | undefined = current?._zod.def;
+    const last = elements[elements.length - 1];
+
+    if (isDef<ArrayDef>(def, "array") || (!def && typeof segment === "number")) {
+      if (last) {
+        last.index = String(segment);
+      }
+      current = def?.element;
+    } else if (isDef<RecordDef>(def, "record")) {
+      if (last) {
+        const keyType = unwrap(def.keyType)._zod.def.type;
+        Object.assign(last, keyType === "number" ? { intKey: String(segment) } : { stringKey: String(segment) });
+      }
+      current = def.valueType;
+    } else if (isDef<MapDef>(def, "map")) {
+      if (last) {
+        Object.assign(last, toMapKey(segment));
+      }
+      current = def.valueType;
+    } else if (isDef<UnionDef>(def, "union")) {
+      // oneof=unions: the group is not part of the path, the member is ({ $case: "id", id } or { $case: "id", value })
+      const caseName = isRecord(node) ? node.$case : undefined;
+      const option: z.core.$ZodType | undefined = def.options.find((o) => oneofCases(o)?.includes(caseName));
+      if (segment !== "$case" && last) {
+        last.fieldName = toSnakeCase(segment === "value" && typeof caseName === "string" ? caseName : String(segment));
+      }
+      // A value matching no case (it failed the union) has no schema to follow
+      current = option && objectShape(option)?.[String(segment)];
+    } else {
+      elements.push({ fieldName: toSnakeCase(String(segment)) });
+      current = isDef<ObjectDef>(def, "object") ? def.shape[String(segment)] : undefined;
+    }
+    node = node instanceof Map ? node.get(segment) : isRecord(node) ? node[segment] : undefined;
+  }
+
+  return { elements, value: node };
+}
+
+/**
+ * Whether a schema definition is of the given type
+ */
+function isDef<D extends z.core.$ZodTypeDef>(def: z.core.$ZodTypeDef | undefined, type: D["type"]): def is D {
+  return def?.type === type;
+}
+
+/**
+ * Whether a schema wraps another (optional, nullable, default, readonly, ...)
+ */
+function hasInnerType(def: z.core.$ZodTypeDef): def is z.core.$ZodTypeDef & { innerType: z.core.$ZodType } {
+  return "innerType" in def && typeof def.innerType === "object" && def.innerType !== null;
+}
+
+function isRecord(value: unknown): value is Record<PropertyKey, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Strips the wrappers around the schema of a value (optional, lazy, ...)
+ */
+function unwrap(schema: z.core.$ZodType): z.core.$ZodType {
+  let current = schema;
+  for (;;) {
+    const def = current._zod.def;
+    if (hasInnerType(def)) {
+      current = def.innerType;
+    } else if (isDef<LazyDef>(def, "lazy")) {
+      current = def.getter();
+    } else if (isDef<PipeDef>(def, "pipe")) {
+      current = def.in;
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Selects the option of a union the value is validated with, unless the union is a oneof
+ * (IGNORE_IF_ZERO_VALUE unions put the rules on the last option)
+ */
+function unwrapUnion(schema: z.core.$ZodType, node: unknown): z.core.$ZodType {
+  let current = schema;
+  for (;;) {
+    const def = current._zod.def;
+    if (!isDef<UnionDef>(def, "union") || def.options.length === 0 || def.options.some((o) => oneofCases(o))) {
+      return current;
+    }
+    current = unwrap(def.options[def.options.length - 1]);
+  }
+}
+
+/**
+ * Returns the properties of an object schema
+ */
+function objectShape(schema: z.core.$ZodType): Record<string, z.core.$ZodType> | undefined {
+  const def = unwrap(schema)._zod.def;
+  return isDef<ObjectDef>(def, "object") ? def.shape : undefined;
+}
+
+/**
+ * Returns the $case values of an option of a oneof union, undefined for other schemas
+ */
+function oneofCases(option: z.core.$ZodType): readonly unknown[] | undefined {
+  const caseSchema = objectShape(option)?.$case;
+  const def = caseSchema && unwrap(caseSchema)._zod.def;
+  return isDef<LiteralDef>(def, "literal") ? def.values : undefined;
+}
+
+function toMapKey(key: PropertyKey | unknown): FieldPathElement {
+  switch (typeof key) {
+    case "boolean":
+      return { boolKey: key };
+    case "number":
+    case "bigint":
+      return { intKey: String(key) };
+    case "string":
+      return { stringKey: key };
+    default:
+      // Long values
+      return { intKey: String(key) };
+  }
+}
+
+/**
+ * Formats a field path as protovalidate does, e.g. `items[0].labels["en"]`
+ */
+export function formatFieldPath(path: FieldPath): string {
+  return path.elements
+    .map((element) => {
+      const subscript = element.index ?? element.intKey ?? (element.boolKey !== undefined ? String(element.boolKey) : undefined);
+      const key = element.stringKey !== undefined ? `[${JSON.stringify(element.stringKey)}]` : subscript !== undefined ? `[${subscript}]` : "";
+      return (element.fieldName ?? "") + key;
+    })
+    .join(".");
+}
+
+/**
+ * Converts a camelCase property name back to its snake_case field name
+ */
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
@@ -0,0 +1,22 @@
+// @generated from file golden/v1/forest.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { LabelSchema, TreeNodeSchema, type Label, type TreeNode } from "./recursive_zod.js";
+
+/**
+ * Forest references recursive messages of another file.
+ * @generated from message golden.v1.Forest
+ */
+export type Forest = {
+  trees?: TreeNode[];
+  label?: Label;
+  next?: Forest;
+};
+
+export const ForestSchema: z.ZodType<Forest> = z.lazy(() => z.object({
+  trees: z.array(TreeNodeSchema).optional(),
+  label: LabelSchema.optional(),
+  next: z.lazy(() => ForestSchema).optional(),
+}).describe("Forest references recursive messages of another file."));
+
@@ -0,0 +1,31 @@
+// @generated from file golden/v1/wkt.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/** Total nanoseconds of a google.protobuf.Duration */
+function durationNanos(value: { seconds: { toString(): string }; nanos: number }): bigint {
+  return BigInt(value.seconds.toString()) * 1000000000n + BigInt(value.nanos);
+}
+
+/**
+ * WellKnown covers the well-known types.
+ * @generated from message golden.v1.WellKnown
+ */
+export const WellKnownSchema = z.object({
+  createdAt: z.coerce.date().refine((d) => d.getTime() < Date.now(), { message: "Must be in the past", params: { ruleId: "timestamp.lt_now" } }),
+  timeout: z.object({ seconds: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }), nanos: z.number().int() }).refine((d) => durationNanos(d) > 0n && durationNanos(d) <= 60000000000n, { message: "Must be > 0s and <= 60s", params: { ruleId: "duration.gt_lte", rule: "duration.gt" } }).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  value: z.any().optional(),
+  list: z.array(z.any()).optional(),
+  payload: z.unknown().optional(),
+  empty: z.object({}).optional(),
+  nickname: z.string().refine((v) => [...v].length <= 16, { message: "Must be at most 16 characters", params: { ruleId: "string.max_len" } }).optional(),
+  retries: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  blob: z.instanceof(Uint8Array).optional(),
+  checkpoints: z.array(z.coerce.date()).optional(),
+}).describe("WellKnown covers the well-known types.");
+
+export type WellKnown = z.infer<typeof WellKnownSchema>;
+
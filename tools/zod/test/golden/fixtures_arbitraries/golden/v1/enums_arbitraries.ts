@@ -0,0 +1,38 @@
+// @generated from file golden/v1/enums.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { Task } from "./enums_zod.js";
+import { Status, Task_Priority } from "./enums.js";
+
+/**
+ * Values of Task_Priority
+ * @generated from enum golden.v1.Task.Priority
+ */
+export function arbitraryTask_Priority(): fc.Arbitrary<Task_Priority> {
+  return fc.constantFrom(Task_Priority.PRIORITY_UNSPECIFIED, Task_Priority.PRIORITY_LOW, Task_Priority.PRIORITY_HIGH);
+}
+
+/**
+ * Values of Status
+ * @generated from enum golden.v1.Status
+ */
+export function arbitraryStatus(): fc.Arbitrary<Status> {
+  return fc.constantFrom(Status.STATUS_UNSPECIFIED, Status.STATUS_ACTIVE, Status.STATUS_INACTIVE);
+}
+
+/**
+ * Task messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Task
+ */
+export function arbitraryTask(maxDepth = 2): fc.Arbitrary<Task> {
+  return fc.record({
+    status: fc.constantFrom(Status.STATUS_UNSPECIFIED, Status.STATUS_ACTIVE, Status.STATUS_INACTIVE),
+    priority: fc.constantFrom(Task_Priority.PRIORITY_LOW, Task_Priority.PRIORITY_HIGH),
+    previous: fc.constantFrom(Status.STATUS_ACTIVE, Status.STATUS_INACTIVE),
+    history: fc.array(fc.constantFrom(Status.STATUS_UNSPECIFIED, Status.STATUS_ACTIVE, Status.STATUS_INACTIVE)),
+    priorities: fc.dictionary(fc.string({ maxLength: 16 }), fc.constantFrom(Task_Priority.PRIORITY_UNSPECIFIED, Task_Priority.PRIORITY_LOW, Task_Priority.PRIORITY_HIGH), { noNullPrototype: true }),
+  }, { requiredKeys: [] });
+}
+
@@ -0,0 +1,51 @@
+// @generated from file golden/v1/longs.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { Quota, Window } from "./longs_zod.js";
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  return new Date(ms);
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { seconds: String(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/**
+ * Quota messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Quota
+ */
+export function arbitraryQuota(maxDepth = 2): fc.Arbitrary<Quota> {
+  return fc.record({
+    fileSize: fc.bigInt({ min: 0n, max: 9007199254740993n }).map(String),
+    maxTokens: fc.bigInt({ min: 18446744073709551001n, max: 18446744073709551615n }).map(String),
+    delta: fc.constantFrom("-1", "1"),
+    version: fc.constant("2"),
+    offset: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map(String),
+    costs: fc.array(fc.bigInt({ min: -9223372036854775808n, max: 999999n }).map(String)),
+    byId: fc.dictionary(fc.bigInt({ min: 1n, max: 9223372036854775807n }).map(String).map(String), fc.string({ maxLength: 16 }), { noNullPrototype: true }),
+    limit: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map(String),
+    budget: fc.bigInt({ min: 0n, max: 18446744073709551615n }).map(String),
+    reserved: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).filter((n) => n !== 0n).map(String),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * Window messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Window
+ */
+export function arbitraryWindow(maxDepth = 2): fc.Arbitrary<Window> {
+  return fc.record({
+    start: fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    end: fc.date({ min: new Date(946684800001), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    length: fc.integer({ min: 0, max: 86400000 }).map(toDuration),
+    marks: fc.array(fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))),
+  }, { requiredKeys: ["start"] });
+}
+
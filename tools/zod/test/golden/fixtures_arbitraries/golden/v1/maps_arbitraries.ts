@@ -0,0 +1,57 @@
+// @generated from file golden/v1/maps.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { Maps, Maps_Entry } from "./maps_zod.js";
+
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** Strings matching a parsed pattern */
+function matching(node: RegexNode): fc.Arbitrary<string> {
+  if (typeof node === "string") {
+    return fc.constant(node);
+  }
+  if (Array.isArray(node)) {
+    return fc.tuple(...node.map(matching)).map((parts) => parts.join(""));
+  }
+  if ("oneOf" in node) {
+    return fc.oneof(...node.oneOf.map(matching));
+  }
+  if ("set" in node) {
+    return fc.constantFrom(...Array.from(node.set));
+  }
+  return fc.array(matching(node.repeat), { minLength: node.min, maxLength: node.max }).map((parts) => parts.join(""));
+}
+
+const PATTERN_1: RegexNode = {"repeat":{"set":"abcdefghijklmnopqrstuvwxyz"},"min":1,"max":9};
+
+/**
+ * Maps messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Maps
+ */
+export function arbitraryMaps(maxDepth = 2): fc.Arbitrary<Maps> {
+  return fc.record({
+    labels: fc.dictionary(matching(PATTERN_1), fc.string({ maxLength: 16 }), { noNullPrototype: true }),
+    entries: fc.dictionary(fc.integer().map(String), arbitraryMaps_Entry(maxDepth), { minKeys: 1, noNullPrototype: true }),
+    byId: fc.dictionary(fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map(String).map(String), fc.string({ maxLength: 16 }), { maxKeys: 10, noNullPrototype: true }),
+    flags: fc.dictionary(fc.boolean().map(String), fc.string({ maxLength: 16 }), { noNullPrototype: true }),
+    counts: fc.dictionary(fc.string({ maxLength: 16 }), fc.integer({ min: 0, max: 2147483647 }), { noNullPrototype: true }),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * Maps_Entry messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Maps.Entry
+ */
+export function arbitraryMaps_Entry(maxDepth = 2): fc.Arbitrary<Maps_Entry> {
+  return fc.record({
+    value: fc.string({ minLength: 1, maxLength: 17 }),
+  }, { requiredKeys: [] });
+}
+
@@ -0,0 +1,39 @@
+// @generated from file golden/v1/enums.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { Task } from "./enums_zod.js";
+import { Status, Task_Priority } from "./enums_pb.js";
+
+/**
+ * Values of Task_Priority
+ * @generated from enum golden.v1.Task.Priority
+ */
+export function arbitraryTask_Priority(): fc.Arbitrary<Task_Priority> {
+  return fc.constantFrom(Task_Priority.UNSPECIFIED, Task_Priority.LOW, Task_Priority.HIGH);
+}
+
+/**
+ * Values of Status
+ * @generated from enum golden.v1.Status
+ */
+export function arbitraryStatus(): fc.Arbitrary<Status> {
+  return fc.constantFrom(Status.UNSPECIFIED, Status.ACTIVE, Status.INACTIVE);
+}
+
+/**
+ * Task messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Task
+ */
+export function arbitraryTask(maxDepth = 2): fc.Arbitrary<Task> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Task" as const),
+    status: fc.constantFrom(Status.UNSPECIFIED, Status.ACTIVE, Status.INACTIVE),
+    priority: fc.constantFrom(Task_Priority.LOW, Task_Priority.HIGH),
+    previous: fc.constantFrom(Status.ACTIVE, Status.INACTIVE),
+    history: fc.array(fc.constantFrom(Status.UNSPECIFIED, Status.ACTIVE, Status.INACTIVE)),
+    priorities: fc.dictionary(fc.string({ maxLength: 16 }), fc.constantFrom(Task_Priority.UNSPECIFIED, Task_Priority.LOW, Task_Priority.HIGH), { noNullPrototype: true }),
+  }, { requiredKeys: ["$typeName"] });
+}
+
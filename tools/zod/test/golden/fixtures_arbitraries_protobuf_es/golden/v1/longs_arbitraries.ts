@@ -0,0 +1,54 @@
+// @generated from file golden/v1/longs.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { Quota, Window } from "./longs_zod.js";
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { $typeName: "google.protobuf.Timestamp" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { $typeName: "google.protobuf.Duration" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/**
+ * Quota messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Quota
+ */
+export function arbitraryQuota(maxDepth = 2): fc.Arbitrary<Quota> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Quota" as const),
+    fileSize: fc.bigInt({ min: 0n, max: 9007199254740993n }),
+    maxTokens: fc.bigInt({ min: 18446744073709551001n, max: 18446744073709551615n }),
+    delta: fc.constantFrom(-1n, 1n),
+    version: fc.constant(2n),
+    offset: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }),
+    costs: fc.array(fc.bigInt({ min: -9223372036854775808n, max: 999999n })),
+    byId: fc.dictionary(fc.bigInt({ min: 1n, max: 9223372036854775807n }).map(String), fc.string({ maxLength: 16 }), { noNullPrototype: true }),
+    limit: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }),
+    budget: fc.bigInt({ min: 0n, max: 18446744073709551615n }),
+    reserved: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).filter((n) => n !== 0n),
+  }, { requiredKeys: ["$typeName"] });
+}
+
+/**
+ * Window messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Window
+ */
+export function arbitraryWindow(maxDepth = 2): fc.Arbitrary<Window> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Window" as const),
+    start: fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    end: fc.date({ min: new Date(946684800001), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    length: fc.integer({ min: 0, max: 86400000 }).map(toDuration),
+    marks: fc.array(fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))),
+  }, { requiredKeys: ["$typeName", "start"] });
+}
+
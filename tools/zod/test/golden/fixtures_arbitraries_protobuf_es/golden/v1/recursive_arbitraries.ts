@@ -0,0 +1,104 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { BinaryOp, Expr, Label, Section, TreeNode } from "./recursive_zod.js";
+import { Visibility } from "./recursive_pb.js";
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { $typeName: "google.protobuf.Timestamp" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { $typeName: "google.protobuf.Duration" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/**
+ * Values of Visibility
+ * @generated from enum golden.v1.Visibility
+ */
+export function arbitraryVisibility(): fc.Arbitrary<Visibility> {
+  return fc.constantFrom(Visibility.UNSPECIFIED, Visibility.PUBLIC, Visibility.PRIVATE);
+}
+
+/**
+ * TreeNode messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.TreeNode
+ */
+export function arbitraryTreeNode(maxDepth = 2): fc.Arbitrary<TreeNode> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.TreeNode" as const),
+    name: fc.string({ minLength: 1, maxLength: 17 }),
+    children: maxDepth > 0 ? fc.array(arbitraryTreeNode(maxDepth - 1)) : fc.constant(undefined),
+    parent: maxDepth > 0 ? arbitraryTreeNode(maxDepth - 1) : fc.constant(undefined),
+  }, { requiredKeys: ["$typeName"] });
+}
+
+/**
+ * Expr messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Expr
+ */
+export function arbitraryExpr(maxDepth = 2): fc.Arbitrary<Expr> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Expr" as const),
+    kind: fc.oneof(fc.record({ case: fc.constant("literal" as const), value: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }) }), fc.constant({ case: undefined }), ...(maxDepth > 0 ? [fc.record({ case: fc.constant("binary" as const), value: arbitraryBinaryOp(maxDepth - 1) })] : [])),
+  });
+}
+
+/**
+ * BinaryOp messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.BinaryOp
+ */
+export function arbitraryBinaryOp(maxDepth = 2): fc.Arbitrary<BinaryOp> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.BinaryOp" as const),
+    op: fc.constantFrom("+", "-"),
+    left: arbitraryExpr(maxDepth - 1),
+    right: arbitraryExpr(maxDepth - 1),
+  }, { requiredKeys: ["$typeName", "left", "right"] });
+}
+
+/**
+ * Label messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Label
+ */
+export function arbitraryLabel(maxDepth = 2): fc.Arbitrary<Label> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Label" as const),
+    value: fc.string({ maxLength: 16 }),
+  }, { requiredKeys: ["$typeName"] });
+}
+
+/**
+ * Section messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Section
+ */
+export function arbitrarySection(maxDepth = 2): fc.Arbitrary<Section> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.Section" as const),
+    title: fc.string({ minLength: 1, maxLength: 17 }),
+    level: fc.integer(),
+    updatedAt: fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    children: maxDepth > 0 ? fc.dictionary(fc.string({ maxLength: 16 }), arbitrarySection(maxDepth - 1), { noNullPrototype: true }) : fc.constant(undefined),
+    refs: fc.dictionary(fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map(String), fc.string({ maxLength: 16 }), { noNullPrototype: true }),
+    summary: fc.string({ maxLength: 16 }),
+    metadata: fc.dictionary(fc.string(), fc.jsonValue(), { noNullPrototype: true }),
+    ttl: fc.integer({ min: -86400000, max: 86400000 }).map(toDuration),
+    checksum: fc.uint8Array({ maxLength: 16 }),
+    revisions: fc.array(fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))),
+    label: arbitraryLabel(maxDepth),
+    visibility: fc.constantFrom(Visibility.UNSPECIFIED, Visibility.PUBLIC, Visibility.PRIVATE),
+    extra: fc.constant({}),
+    budget: fc.bigInt({ min: 0n, max: 18446744073709551615n }),
+  }, { requiredKeys: ["$typeName", "title"] });
+}
+
@@ -0,0 +1,94 @@
+// @generated from file golden/v1/samples.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import type { SampleOwner, UploadSampleRequest } from "./samples_zod.js";
+import { Status } from "./enums_pb.js";
+
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** Strings matching a parsed pattern */
+function matching(node: RegexNode): fc.Arbitrary<string> {
+  if (typeof node === "string") {
+    return fc.constant(node);
+  }
+  if (Array.isArray(node)) {
+    return fc.tuple(...node.map(matching)).map((parts) => parts.join(""));
+  }
+  if ("oneOf" in node) {
+    return fc.oneof(...node.oneOf.map(matching));
+  }
+  if ("set" in node) {
+    return fc.constantFrom(...Array.from(node.set));
+  }
+  return fc.array(matching(node.repeat), { minLength: node.min, maxLength: node.max }).map((parts) => parts.join(""));
+}
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { $typeName: "google.protobuf.Timestamp" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { $typeName: "google.protobuf.Duration" as const, seconds: BigInt(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+const PATTERN_1: RegexNode = [{"oneOf":["missions:","setups:"]},{"repeat":{"set":"abcdefghijklmnopqrstuvwxyz0123456789_-"},"min":3,"max":11}];
+const PATTERN_2: RegexNode = [{"repeat":{"set":"0123456789abcdef"},"min":8,"max":8},"-",{"repeat":{"set":"0123456789abcdef"},"min":4,"max":4},"-4",{"repeat":{"set":"0123456789abcdef"},"min":3,"max":3},"-",{"set":"89ab"},{"repeat":{"set":"0123456789abcdef"},"min":3,"max":3},"-",{"repeat":{"set":"0123456789abcdef"},"min":12,"max":12}];
+const PATTERN_3: RegexNode = [{"set":"abcdefghijklmnopqrstuvwxyz"},{"repeat":{"set":"abcdefghijklmnopqrstuvwxyz0123456789"},"min":2,"max":7},"@example.com"];
+const PATTERN_4: RegexNode = {"repeat":{"set":"abcdefghijklmnopqrstuvwxyz"},"min":1,"max":9};
+const PATTERN_5: RegexNode = ["https://example.com/",{"repeat":{"set":"abcdefghijklmnopqrstuvwxyz0123456789"},"min":0,"max":8}];
+const PATTERN_6: RegexNode = [{"set":"abcdefghijklmnopqrstuvwxyz"},{"repeat":{"set":"abcdefghijklmnopqrstuvwxyz0123456789"},"min":2,"max":7},".example.com"];
+
+/**
+ * UploadSampleRequest messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.UploadSampleRequest
+ */
+export function arbitraryUploadSampleRequest(maxDepth = 2): fc.Arbitrary<UploadSampleRequest> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.UploadSampleRequest" as const),
+    ref: matching(PATTERN_1).filter((v) => v.length >= 1),
+    id: matching(PATTERN_2),
+    email: matching(PATTERN_3),
+    slug: fc.string({ minLength: 3, maxLength: 13 }).map((s) => "sample-" + s),
+    kind: fc.constantFrom("image", "text"),
+    status: fc.constantFrom(Status.UNSPECIFIED, Status.ACTIVE),
+    count: fc.integer({ min: 1, max: 10 }),
+    size: fc.bigInt({ min: 1n, max: 9223372036854775807n }).filter((n) => n !== 13n),
+    offset: fc.oneof(fc.integer({ min: 0, max: 9 }), fc.bigInt({ min: 20n, max: 4294967295n }).map(Number)),
+    score: fc.double({ min: 0, noNaN: true, noDefaultInfinity: true }),
+    accepted: fc.constant(true),
+    digest: fc.uint8Array({ minLength: 32, maxLength: 32 }),
+    tags: fc.uniqueArray(matching(PATTERN_4).filter((v) => v.length >= 2), { minLength: 1, maxLength: 3 }),
+    history: fc.array(fc.constantFrom(Status.ACTIVE, Status.INACTIVE)),
+    limits: fc.dictionary(matching(PATTERN_4), fc.integer({ min: 0, max: 2147483647 }), { minKeys: 1, noNullPrototype: true }),
+    createdAt: fc.date({ min: new Date(1577836800001), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    timeout: fc.integer({ min: 1000, max: 300000 }).map(toDuration),
+    note: fc.string({ maxLength: 10 }),
+    owner: arbitrarySampleOwner(maxDepth),
+    nickname: fc.string({ minLength: 3, maxLength: 19 }),
+    source: fc.oneof(fc.record({ case: fc.constant("url" as const), value: matching(PATTERN_5) }), fc.record({ case: fc.constant("origin" as const), value: arbitrarySampleOwner(maxDepth) })),
+  }, { requiredKeys: ["$typeName", "ref", "owner", "source"] });
+}
+
+/**
+ * SampleOwner messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.SampleOwner
+ */
+export function arbitrarySampleOwner(maxDepth = 2): fc.Arbitrary<SampleOwner> {
+  return fc.record({
+    $typeName: fc.constant("golden.v1.SampleOwner" as const),
+    name: fc.string({ minLength: 1, maxLength: 17 }),
+    host: matching(PATTERN_6),
+  }, { requiredKeys: ["$typeName"] });
+}
+
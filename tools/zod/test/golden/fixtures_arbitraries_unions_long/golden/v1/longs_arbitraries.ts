@@ -0,0 +1,53 @@
+// @generated from file golden/v1/longs.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import Long from "long";
+import type { Quota, Window } from "./longs_zod.js";
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/**
+ * Quota messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Quota
+ */
+export function arbitraryQuota(maxDepth = 2): fc.Arbitrary<Quota> {
+  return fc.record({
+    fileSize: fc.bigInt({ min: 0n, max: 9007199254740993n }).map((n) => Long.fromString(n.toString())),
+    maxTokens: fc.bigInt({ min: 18446744073709551001n, max: 18446744073709551615n }).map((n) => Long.fromString(n.toString(), true)),
+    delta: fc.constantFrom(Long.fromString("-1"), Long.fromString("1")),
+    version: fc.constant(Long.fromString("2", true)),
+    offset: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map((n) => Long.fromString(n.toString())),
+    costs: fc.array(fc.bigInt({ min: -9223372036854775808n, max: 999999n }).map((n) => Long.fromString(n.toString()))),
+    byId: fc.uniqueArray(fc.tuple(fc.bigInt({ min: 1n, max: 9223372036854775807n }).map((n) => Long.fromString(n.toString())), fc.string({ maxLength: 16 })), { selector: ([key]) => String(key) }).map((entries) => new Map(entries)),
+    limit: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map((n) => Long.fromString(n.toString())),
+    budget: fc.bigInt({ min: 0n, max: 18446744073709551615n }).map((n) => Long.fromString(n.toString(), true)),
+    reserved: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).filter((n) => n !== 0n).map((n) => Long.fromString(n.toString())),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * Window messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Window
+ */
+export function arbitraryWindow(maxDepth = 2): fc.Arbitrary<Window> {
+  return fc.record({
+    start: fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    end: fc.date({ min: new Date(946684800001), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    length: fc.integer({ min: 0, max: 86400000 }).map(toDuration),
+    marks: fc.array(fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))),
+  }, { requiredKeys: ["start"] });
+}
+
@@ -0,0 +1,100 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+import fc from "fast-check";
+import Long from "long";
+import type { BinaryOp, Expr, Label, Section, TreeNode } from "./recursive_zod.js";
+import { Visibility } from "./recursive.js";
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/**
+ * Values of Visibility
+ * @generated from enum golden.v1.Visibility
+ */
+export function arbitraryVisibility(): fc.Arbitrary<Visibility> {
+  return fc.constantFrom(Visibility.VISIBILITY_UNSPECIFIED, Visibility.VISIBILITY_PUBLIC, Visibility.VISIBILITY_PRIVATE);
+}
+
+/**
+ * TreeNode messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.TreeNode
+ */
+export function arbitraryTreeNode(maxDepth = 2): fc.Arbitrary<TreeNode> {
+  return fc.record({
+    name: fc.string({ minLength: 1, maxLength: 17 }),
+    children: maxDepth > 0 ? fc.array(arbitraryTreeNode(maxDepth - 1)) : fc.constant(undefined),
+    parent: maxDepth > 0 ? arbitraryTreeNode(maxDepth - 1) : fc.constant(undefined),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * Expr messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Expr
+ */
+export function arbitraryExpr(maxDepth = 2): fc.Arbitrary<Expr> {
+  return fc.record({
+    kind: fc.oneof(fc.record({ $case: fc.constant("literal" as const), literal: fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map((n) => Long.fromString(n.toString())) }), ...(maxDepth > 0 ? [fc.record({ $case: fc.constant("binary" as const), binary: arbitraryBinaryOp(maxDepth - 1) })] : [])),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * BinaryOp messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.BinaryOp
+ */
+export function arbitraryBinaryOp(maxDepth = 2): fc.Arbitrary<BinaryOp> {
+  return fc.record({
+    op: fc.constantFrom("+", "-"),
+    left: arbitraryExpr(maxDepth - 1),
+    right: arbitraryExpr(maxDepth - 1),
+  }, { requiredKeys: ["left", "right"] });
+}
+
+/**
+ * Label messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Label
+ */
+export function arbitraryLabel(maxDepth = 2): fc.Arbitrary<Label> {
+  return fc.record({
+    value: fc.string({ maxLength: 16 }),
+  }, { requiredKeys: [] });
+}
+
+/**
+ * Section messages that satisfy their buf.validate rules, following references
+ * along a cycle at most maxDepth times
+ * @generated from message golden.v1.Section
+ */
+export function arbitrarySection(maxDepth = 2): fc.Arbitrary<Section> {
+  return fc.record({
+    title: fc.string({ minLength: 1, maxLength: 17 }),
+    level: fc.integer(),
+    updatedAt: fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime())),
+    children: maxDepth > 0 ? fc.dictionary(fc.string({ maxLength: 16 }), arbitrarySection(maxDepth - 1), { noNullPrototype: true }) : fc.constant(undefined),
+    refs: fc.uniqueArray(fc.tuple(fc.bigInt({ min: -9223372036854775808n, max: 9223372036854775807n }).map((n) => Long.fromString(n.toString())), fc.string({ maxLength: 16 })), { selector: ([key]) => String(key) }).map((entries) => new Map(entries)),
+    summary: fc.string({ maxLength: 16 }),
+    metadata: fc.dictionary(fc.string(), fc.jsonValue(), { noNullPrototype: true }),
+    ttl: fc.integer({ min: -86400000, max: 86400000 }).map(toDuration),
+    checksum: fc.uint8Array({ maxLength: 16 }),
+    revisions: fc.array(fc.date({ min: new Date(946684800000), max: new Date(4102444800000), noInvalidDate: true }).map((date) => toTimestamp(date.getTime()))),
+    label: arbitraryLabel(maxDepth),
+    visibility: fc.constantFrom(Visibility.VISIBILITY_UNSPECIFIED, Visibility.VISIBILITY_PUBLIC, Visibility.VISIBILITY_PRIVATE),
+    extra: fc.constant({}),
+    budget: fc.bigInt({ min: 0n, max: 18446744073709551615n }).map((n) => Long.fromString(n.toString(), true)),
+  }, { requiredKeys: ["title"] });
+}
+
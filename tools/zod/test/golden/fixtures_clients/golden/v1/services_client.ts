@@ -0,0 +1,130 @@
+// @generated from file golden/v1/services.proto
+/* eslint-disable */
+
+import { Metadata, type CallOptions, type ClientReadableStream, type ClientUnaryCall, type ServiceError } from "@grpc/grpc-js";
+import type { z } from "zod";
+import type { ItemServiceClient, WatchItemsRequest } from "./services.js";
+import type { GetItemRequest, GetItemResponse } from "./oneofs.js";
+import type { Empty } from "../../google/protobuf/empty.js";
+import { GetItemRequestSchema } from "./oneofs_zod.js";
+import { WatchItemsRequestSchema } from "./services_zod.js";
+
+/**
+ * Settings of a single call
+ */
+export interface CallSettings {
+  /** Metadata sent with the request */
+  metadata?: Metadata;
+  /** grpc-js call options, e.g. the deadline */
+  options?: Partial<CallOptions>;
+  /** Cancels the call when aborted, which then rejects with the abort reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of the promise clients
+ */
+export interface PromiseClientOptions {
+  /** Whether to validate responses as well, for the responses with a generated schema */
+  validateResponses?: boolean;
+}
+
+/** Validates the request, then resolves with the response of a unary call */
+async function unaryCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: Res) => void,
+  ) => ClientUnaryCall,
+): Promise<Res> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const response = await new Promise<Res>((resolve, reject) => {
+    const call = start(settings.metadata ?? new Metadata(), settings.options ?? {}, (error, response) => {
+      signal?.removeEventListener("abort", cancel);
+      if (error) {
+        reject(signal?.aborted ? signal.reason : error);
+      } else {
+        resolve(response);
+      }
+    });
+    const cancel = () => call.cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+  responseSchema?.parse(response);
+  return response;
+}
+
+/** Validates the request, then yields the messages of a server-streaming call */
+async function* serverStreamingCall<Req, Res>(
+  request: Req,
+  requestSchema: z.ZodType | undefined,
+  responseSchema: z.ZodType | undefined,
+  settings: CallSettings,
+  start: (metadata: Metadata, options: Partial<CallOptions>) => ClientReadableStream<Res>,
+): AsyncGenerator<Res, void, undefined> {
+  requestSchema?.parse(request);
+  const signal = settings.signal;
+  signal?.throwIfAborted();
+  const stream = start(settings.metadata ?? new Metadata(), settings.options ?? {});
+  const cancel = () => stream.cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    for await (const message of stream as AsyncIterable<Res>) {
+      responseSchema?.parse(message);
+      yield message;
+    }
+  } catch (error) {
+    throw signal?.aborted ? signal.reason : error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // Ends the call when the consumer stops iterating early
+    stream.cancel();
+  }
+}
+
+/**
+ * Promise-based ItemService client, validating requests with the Zod schemas
+ * @generated from service golden.v1.ItemService
+ */
+export interface ItemServicePromiseClient {
+  /**
+   * Calls ItemService.GetItem
+   * @generated from rpc golden.v1.ItemService.GetItem
+   */
+  getItem(request: GetItemRequest, settings?: CallSettings): Promise<GetItemResponse>;
+  /**
+   * Calls ItemService.WatchItems, yielding the streamed responses
+   * @generated from rpc golden.v1.ItemService.WatchItems
+   */
+  watchItems(request: WatchItemsRequest, settings?: CallSettings): AsyncIterable<GetItemResponse>;
+  /**
+   * Calls ItemService.Ping
+   * @generated from rpc golden.v1.ItemService.Ping
+   */
+  ping(request: Empty, settings?: CallSettings): Promise<Empty>;
+}
+
+/**
+ * Wraps a ts-proto ItemServiceClient, which owns the channel
+ * @generated from service golden.v1.ItemService
+ */
+export function createItemServicePromiseClient(
+  client: ItemServiceClient,
+  clientOptions: PromiseClientOptions = {},
+): ItemServicePromiseClient {
+  return {
+    getItem: (request, settings = {}) =>
+      unaryCall(request, GetItemRequestSchema, undefined, settings, (metadata, options, callback) => client.getItem(request, metadata, options, callback)),
+    watchItems: (request, settings = {}) =>
+      serverStreamingCall(request, WatchItemsRequestSchema, undefined, settings, (metadata, options) => client.watchItems(request, metadata, options)),
+    ping: (request, settings = {}) =>
+      unaryCall(request, undefined, undefined, settings, (metadata, options, callback) => client.ping(request, metadata, options, callback)),
+  };
+}
+
@@ -0,0 +1,122 @@
+// @generated from file golden/v1/enums.proto
+/* eslint-disable */
+
+import type { Task } from "./enums_zod.js";
+import { Status, Task_Priority } from "./enums.js";
+
+/**
+ * Source of pseudo-random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * A message that breaks one buf.validate rule
+ */
+export interface InvalidFixture<T> {
+  /** protovalidate id of the broken rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Path of the invalid field, as protovalidate formats it, e.g. "items[0].name" */
+  field: string;
+  value: T;
+}
+
+/**
+ * Pseudo-random numbers, the same sequence for the same seed (mulberry32)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer between min and max, both included */
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/** Lowercase letters and digits, between minLength and maxLength characters */
+function randomText(random: Random, minLength: number, maxLength: number): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: randomInt(random, minLength, maxLength) }, () => chars[randomInt(random, 0, chars.length - 1)]).join("");
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[randomInt(random, 0, values.length - 1)];
+}
+
+/** Draws values until one passes the check, for rules that are not satisfied by construction */
+function draw<T>(next: () => T, check: (value: T) => boolean): T {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const value = next();
+    if (check(value)) {
+      return value;
+    }
+  }
+  throw new Error("Could not draw a value satisfying the rules");
+}
+
+/** Between min and max items, all different when unique */
+function randomList<T>(random: Random, min: number, max: number, item: () => T, unique = false): T[] {
+  const items: T[] = [];
+  const length = randomInt(random, min, max);
+  while (items.length < length) {
+    items.push(unique ? draw(item, (value) => !items.includes(value)) : item());
+  }
+  return items;
+}
+
+/** Between min and max map entries, with different keys */
+function randomEntries<K, V>(random: Random, min: number, max: number, key: () => K, value: () => V): [K, V][] {
+  const entries: [K, V][] = [];
+  const length = randomInt(random, min, max);
+  while (entries.length < length) {
+    // Keys compare as strings, which covers Long keys
+    const k = draw(key, (candidate) => entries.every(([other]) => String(other) !== String(candidate)));
+    entries.push([k, value()]);
+  }
+  return entries;
+}
+
+/**
+ * Builds a valid Task from a source of random numbers
+ * @generated from message golden.v1.Task
+ */
+export function buildTask(random: Random): Task {
+  return {
+    status: pick(random, [Status.STATUS_ACTIVE, Status.STATUS_INACTIVE]),
+    priority: pick(random, [Task_Priority.PRIORITY_LOW, Task_Priority.PRIORITY_HIGH]),
+    previous: pick(random, [Status.STATUS_ACTIVE, Status.STATUS_INACTIVE]),
+    history: randomList(random, 1, 3, () => pick(random, [Status.STATUS_ACTIVE, Status.STATUS_INACTIVE])),
+    priorities: Object.fromEntries(randomEntries(random, 1, 3, () => randomText(random, 1, 8), () => pick(random, [Task_Priority.PRIORITY_LOW, Task_Priority.PRIORITY_HIGH]))),
+  };
+}
+
+/**
+ * Valid Task, the same for the same seed
+ * @generated from message golden.v1.Task
+ */
+export function sampleTask(seed = 1): Task {
+  return buildTask(createRandom(seed));
+}
+
+/**
+ * Variants of sampleTask(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Task
+ */
+export function invalidTaskFixtures(seed = 1): InvalidFixture<Task>[] {
+  const random = createRandom(seed);
+  const valid = buildTask(random);
+  const fixtures: InvalidFixture<Task>[] = [
+    { ruleId: "enum.defined_only", field: "status", value: { ...valid, status: -1 as never } },
+    { ruleId: "enum.in", field: "priority", value: { ...valid, priority: Task_Priority.PRIORITY_UNSPECIFIED } },
+    { ruleId: "enum.not_in", field: "previous", value: { ...valid, previous: Status.STATUS_UNSPECIFIED } },
+    { ruleId: "enum.defined_only", field: "history[0]", value: { ...valid, history: [-1 as never, ...(valid.history ?? []).slice(1)] } },
+  ];
+  return fixtures;
+}
+
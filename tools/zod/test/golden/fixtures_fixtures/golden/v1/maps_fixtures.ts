@@ -0,0 +1,176 @@
+// @generated from file golden/v1/maps.proto
+/* eslint-disable */
+
+import type { Maps, Maps_Entry } from "./maps_zod.js";
+
+/**
+ * Source of pseudo-random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * A message that breaks one buf.validate rule
+ */
+export interface InvalidFixture<T> {
+  /** protovalidate id of the broken rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Path of the invalid field, as protovalidate formats it, e.g. "items[0].name" */
+  field: string;
+  value: T;
+}
+
+/**
+ * Pseudo-random numbers, the same sequence for the same seed (mulberry32)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer between min and max, both included */
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/** Lowercase letters and digits, between minLength and maxLength characters */
+function randomText(random: Random, minLength: number, maxLength: number): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: randomInt(random, minLength, maxLength) }, () => chars[randomInt(random, 0, chars.length - 1)]).join("");
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[randomInt(random, 0, values.length - 1)];
+}
+
+/** Draws values until one passes the check, for rules that are not satisfied by construction */
+function draw<T>(next: () => T, check: (value: T) => boolean): T {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const value = next();
+    if (check(value)) {
+      return value;
+    }
+  }
+  throw new Error("Could not draw a value satisfying the rules");
+}
+
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** A string matching a parsed pattern */
+function sampleRegex(random: Random, node: RegexNode): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (Array.isArray(node)) {
+    return node.map((child) => sampleRegex(random, child)).join("");
+  }
+  if ("oneOf" in node) {
+    return sampleRegex(random, pick(random, node.oneOf));
+  }
+  if ("set" in node) {
+    return pick(random, Array.from(node.set));
+  }
+  return Array.from({ length: randomInt(random, node.min, node.max) }, () => sampleRegex(random, node.repeat)).join("");
+}
+
+/** Between min and max map entries, with different keys */
+function randomEntries<K, V>(random: Random, min: number, max: number, key: () => K, value: () => V): [K, V][] {
+  const entries: [K, V][] = [];
+  const length = randomInt(random, min, max);
+  while (entries.length < length) {
+    // Keys compare as strings, which covers Long keys
+    const k = draw(key, (candidate) => entries.every(([other]) => String(other) !== String(candidate)));
+    entries.push([k, value()]);
+  }
+  return entries;
+}
+
+/** Map entries with the first one replaced, which keeps the number of entries */
+function replaceFirstEntry<K, V>(entries: Iterable<[K, V]>, replace: (first: [K, V]) => [K, V]): [K, V][] {
+  const [first, ...rest] = Array.from(entries);
+  return [replace(first), ...rest];
+}
+
+const PATTERN_1: RegexNode = {"repeat":{"set":"abcdefghijklmnopqrstuvwxyz"},"min":1,"max":9};
+
+/**
+ * Builds a valid Maps from a source of random numbers
+ * @generated from message golden.v1.Maps
+ */
+export function buildMaps(random: Random): Maps {
+  return {
+    labels: Object.fromEntries(randomEntries(random, 1, 3, () => sampleRegex(random, PATTERN_1), () => randomText(random, 1, 8))),
+    entries: Object.fromEntries(randomEntries(random, 1, 3, () => randomInt(random, 1, 100), () => buildMaps_Entry(random))),
+    byId: Object.fromEntries(randomEntries(random, 1, 3, () => String(randomInt(random, 1, 100)), () => randomText(random, 1, 8))),
+    flags: Object.fromEntries(randomEntries(random, 1, 2, () => pick(random, ["true", "false"]), () => randomText(random, 1, 8))),
+    counts: Object.fromEntries(randomEntries(random, 1, 3, () => randomText(random, 1, 8), () => randomInt(random, 0, 99))),
+  };
+}
+
+/**
+ * Valid Maps, the same for the same seed
+ * @generated from message golden.v1.Maps
+ */
+export function sampleMaps(seed = 1): Maps {
+  return buildMaps(createRandom(seed));
+}
+
+/**
+ * Variants of sampleMaps(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Maps
+ */
+export function invalidMapsFixtures(seed = 1): InvalidFixture<Maps>[] {
+  const random = createRandom(seed);
+  const valid = buildMaps(random);
+  const labelsKey = Object.entries(valid.labels ?? {})[0][0];
+  const countsKey = Object.entries(valid.counts ?? {})[0][0];
+  const fixtures: InvalidFixture<Maps>[] = [
+    { ruleId: "string.pattern", field: "labels[\"!\"]", value: { ...valid, labels: Object.fromEntries(replaceFirstEntry(Object.entries(valid.labels ?? {}), ([, value]) => ["!", value])) } },
+    { ruleId: "string.max_len", field: `labels[${JSON.stringify(labelsKey)}]`, value: { ...valid, labels: Object.fromEntries(replaceFirstEntry(Object.entries(valid.labels ?? {}), ([key]) => [key, "a".repeat(33)])) } },
+    { ruleId: "map.min_pairs", field: "entries", value: { ...valid, entries: {} } },
+    { ruleId: "map.max_pairs", field: "by_id", value: { ...valid, byId: Object.fromEntries(randomEntries(random, 11, 11, () => String(randomInt(random, 1, 100)), () => randomText(random, 1, 8))) } },
+    { ruleId: "int32.gte", field: `counts[${JSON.stringify(countsKey)}]`, value: { ...valid, counts: Object.fromEntries(replaceFirstEntry(Object.entries(valid.counts ?? {}), ([key]) => [key, -1])) } },
+  ];
+  return fixtures;
+}
+
+/**
+ * Builds a valid Maps_Entry from a source of random numbers
+ * @generated from message golden.v1.Maps.Entry
+ */
+export function buildMaps_Entry(random: Random): Maps_Entry {
+  return {
+    value: randomText(random, 1, 8),
+  };
+}
+
+/**
+ * Valid Maps_Entry, the same for the same seed
+ * @generated from message golden.v1.Maps.Entry
+ */
+export function sampleMaps_Entry(seed = 1): Maps_Entry {
+  return buildMaps_Entry(createRandom(seed));
+}
+
+/**
+ * Variants of sampleMaps_Entry(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Maps.Entry
+ */
+export function invalidMaps_EntryFixtures(seed = 1): InvalidFixture<Maps_Entry>[] {
+  const random = createRandom(seed);
+  const valid = buildMaps_Entry(random);
+  const fixtures: InvalidFixture<Maps_Entry>[] = [
+    { ruleId: "string.min_len", field: "value", value: { ...valid, value: "" } },
+  ];
+  return fixtures;
+}
+
@@ -0,0 +1,272 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+import type { BinaryOp, Expr, Label, Section, TreeNode } from "./recursive_zod.js";
+import { Visibility } from "./recursive.js";
+
+/**
+ * Source of pseudo-random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * A message that breaks one buf.validate rule
+ */
+export interface InvalidFixture<T> {
+  /** protovalidate id of the broken rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Path of the invalid field, as protovalidate formats it, e.g. "items[0].name" */
+  field: string;
+  value: T;
+}
+
+/**
+ * Pseudo-random numbers, the same sequence for the same seed (mulberry32)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer between min and max, both included */
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/** Lowercase letters and digits, between minLength and maxLength characters */
+function randomText(random: Random, minLength: number, maxLength: number): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: randomInt(random, minLength, maxLength) }, () => chars[randomInt(random, 0, chars.length - 1)]).join("");
+}
+
+/** Between minLength and maxLength random bytes */
+function randomBytes(random: Random, minLength: number, maxLength: number) {
+  return Uint8Array.from({ length: randomInt(random, minLength, maxLength) }, () => randomInt(random, 0, 255));
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[randomInt(random, 0, values.length - 1)];
+}
+
+/** Draws values until one passes the check, for rules that are not satisfied by construction */
+function draw<T>(next: () => T, check: (value: T) => boolean): T {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const value = next();
+    if (check(value)) {
+      return value;
+    }
+  }
+  throw new Error("Could not draw a value satisfying the rules");
+}
+
+/** Between min and max items, all different when unique */
+function randomList<T>(random: Random, min: number, max: number, item: () => T, unique = false): T[] {
+  const items: T[] = [];
+  const length = randomInt(random, min, max);
+  while (items.length < length) {
+    items.push(unique ? draw(item, (value) => !items.includes(value)) : item());
+  }
+  return items;
+}
+
+/** Between min and max map entries, with different keys */
+function randomEntries<K, V>(random: Random, min: number, max: number, key: () => K, value: () => V): [K, V][] {
+  const entries: [K, V][] = [];
+  const length = randomInt(random, min, max);
+  while (entries.length < length) {
+    // Keys compare as strings, which covers Long keys
+    const k = draw(key, (candidate) => entries.every(([other]) => String(other) !== String(candidate)));
+    entries.push([k, value()]);
+  }
+  return entries;
+}
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  return new Date(ms);
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { seconds: String(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** Copy of a message without one of its fields */
+function omit<T extends object>(value: T, key: keyof T): T {
+  const copy = { ...value };
+  delete copy[key];
+  return copy;
+}
+
+/**
+ * Builds a valid TreeNode from a source of random numbers
+ * @generated from message golden.v1.TreeNode
+ */
+export function buildTreeNode(random: Random): TreeNode {
+  return {
+    name: randomText(random, 1, 8),
+  };
+}
+
+/**
+ * Valid TreeNode, the same for the same seed
+ * @generated from message golden.v1.TreeNode
+ */
+export function sampleTreeNode(seed = 1): TreeNode {
+  return buildTreeNode(createRandom(seed));
+}
+
+/**
+ * Variants of sampleTreeNode(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.TreeNode
+ */
+export function invalidTreeNodeFixtures(seed = 1): InvalidFixture<TreeNode>[] {
+  const random = createRandom(seed);
+  const valid = buildTreeNode(random);
+  const fixtures: InvalidFixture<TreeNode>[] = [
+    { ruleId: "string.min_len", field: "name", value: { ...valid, name: "" } },
+  ];
+  return fixtures;
+}
+
+/**
+ * Builds a valid Expr from a source of random numbers
+ * @generated from message golden.v1.Expr
+ */
+export function buildExpr(random: Random): Expr {
+  return {
+    literal: String(randomInt(random, 1, 100)),
+  };
+}
+
+/**
+ * Valid Expr, the same for the same seed
+ * @generated from message golden.v1.Expr
+ */
+export function sampleExpr(seed = 1): Expr {
+  return buildExpr(createRandom(seed));
+}
+
+/**
+ * Variants of sampleExpr(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Expr
+ */
+export function invalidExprFixtures(seed = 1): InvalidFixture<Expr>[] {
+  return [];
+}
+
+/**
+ * Builds a valid BinaryOp from a source of random numbers
+ * @generated from message golden.v1.BinaryOp
+ */
+export function buildBinaryOp(random: Random): BinaryOp {
+  return {
+    op: pick(random, ["+", "-"]),
+    left: buildExpr(random),
+    right: buildExpr(random),
+  };
+}
+
+/**
+ * Valid BinaryOp, the same for the same seed
+ * @generated from message golden.v1.BinaryOp
+ */
+export function sampleBinaryOp(seed = 1): BinaryOp {
+  return buildBinaryOp(createRandom(seed));
+}
+
+/**
+ * Variants of sampleBinaryOp(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.BinaryOp
+ */
+export function invalidBinaryOpFixtures(seed = 1): InvalidFixture<BinaryOp>[] {
+  const random = createRandom(seed);
+  const valid = buildBinaryOp(random);
+  const fixtures: InvalidFixture<BinaryOp>[] = [
+    { ruleId: "string.in", field: "op", value: { ...valid, op: "_" } },
+    { ruleId: "required", field: "left", value: omit(valid, "left") },
+    { ruleId: "required", field: "right", value: omit(valid, "right") },
+  ];
+  return fixtures;
+}
+
+/**
+ * Builds a valid Label from a source of random numbers
+ * @generated from message golden.v1.Label
+ */
+export function buildLabel(random: Random): Label {
+  return {
+    value: randomText(random, 1, 8),
+  };
+}
+
+/**
+ * Valid Label, the same for the same seed
+ * @generated from message golden.v1.Label
+ */
+export function sampleLabel(seed = 1): Label {
+  return buildLabel(createRandom(seed));
+}
+
+/**
+ * Variants of sampleLabel(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Label
+ */
+export function invalidLabelFixtures(seed = 1): InvalidFixture<Label>[] {
+  return [];
+}
+
+/**
+ * Builds a valid Section from a source of random numbers
+ * @generated from message golden.v1.Section
+ */
+export function buildSection(random: Random): Section {
+  return {
+    title: randomText(random, 1, 8),
+    level: randomInt(random, 1, 100),
+    updatedAt: toTimestamp(randomInt(random, 1704067200000, 1735603200000)),
+    refs: Object.fromEntries(randomEntries(random, 1, 3, () => String(randomInt(random, 1, 100)), () => randomText(random, 1, 8))),
+    summary: randomText(random, 1, 8),
+    metadata: {},
+    ttl: toDuration(randomInt(random, 1000, 3601000)),
+    checksum: randomBytes(random, 1, 8),
+    revisions: randomList(random, 1, 3, () => toTimestamp(randomInt(random, 1704067200000, 1735603200000))),
+    label: buildLabel(random),
+    visibility: pick(random, [Visibility.VISIBILITY_PUBLIC, Visibility.VISIBILITY_PRIVATE]),
+    extra: {},
+    budget: String(randomInt(random, 1, 100)),
+  };
+}
+
+/**
+ * Valid Section, the same for the same seed
+ * @generated from message golden.v1.Section
+ */
+export function sampleSection(seed = 1): Section {
+  return buildSection(createRandom(seed));
+}
+
+/**
+ * Variants of sampleSection(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.Section
+ */
+export function invalidSectionFixtures(seed = 1): InvalidFixture<Section>[] {
+  const random = createRandom(seed);
+  const valid = buildSection(random);
+  const fixtures: InvalidFixture<Section>[] = [
+    { ruleId: "required", field: "title", value: omit(valid, "title") },
+    { ruleId: "enum.defined_only", field: "visibility", value: { ...valid, visibility: -1 as never } },
+  ];
+  for (const fixture of invalidLabelFixtures(seed)) {
+    fixtures.push({ ...fixture, field: `label.${fixture.field}`, value: { ...valid, label: fixture.value } });
+  }
+  return fixtures;
+}
+
@@ -0,0 +1,33 @@
+// @generated from file golden/v1/maps.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import Long from "long";
+
+/** ^[a-z]+$ */
+const PATTERN_1 = /^[a-z]+$/;
+
+/**
+ * Entry is a map value message.
+ * @generated from message golden.v1.Maps.Entry
+ */
+export const Maps_EntrySchema = z.object({
+  value: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional(),
+}).describe("Entry is a map value message.");
+
+export type Maps_Entry = z.infer<typeof Maps_EntrySchema>;
+
+/**
+ * Maps covers map keys, values and pair counts.
+ * @generated from message golden.v1.Maps
+ */
+export const MapsSchema = z.object({
+  labels: z.record(z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^[a-z]+$", params: { ruleId: "string.pattern", rule: "map.keys.string.pattern" } }), z.string().refine((v) => [...v].length <= 32, { message: "Must be at most 32 characters", params: { ruleId: "string.max_len", rule: "map.values.string.max_len" } })).optional(),
+  entries: z.record(z.number().int(), Maps_EntrySchema).refine((m) => Object.keys(m).length >= 1, { message: "Map must have at least 1 entries", params: { ruleId: "map.min_pairs" } }).optional(),
+  byId: z.map(z.custom<Long>((v) => Long.isLong(v), { message: "Must be a Long" }), z.string()).refine((m) => m.size <= 10, { message: "Map must have at most 10 entries", params: { ruleId: "map.max_pairs" } }).optional(),
+  flags: z.record(z.string(), z.string()).optional(),
+  counts: z.record(z.string(), z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte", rule: "map.values.int32.gte" } })).optional(),
+}).describe("Maps covers map keys, values and pair counts.");
+
+export type Maps = z.infer<typeof MapsSchema>;
+
@@ -0,0 +1,279 @@
+// @generated from file golden/v1/samples.proto
+/* eslint-disable */
+
+import Long from "long";
+import type { SampleOwner, UploadSampleRequest } from "./samples_zod.js";
+import { Status } from "./enums.js";
+
+/**
+ * Source of pseudo-random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * A message that breaks one buf.validate rule
+ */
+export interface InvalidFixture<T> {
+  /** protovalidate id of the broken rule, e.g. "string.min_len" */
+  ruleId: string;
+  /** Path of the invalid field, as protovalidate formats it, e.g. "items[0].name" */
+  field: string;
+  value: T;
+}
+
+/**
+ * Pseudo-random numbers, the same sequence for the same seed (mulberry32)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Integer between min and max, both included */
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/** Number strictly between min and max, rounded to two decimals when that keeps it inside */
+function randomFloat(random: Random, min: number, max: number): number {
+  const value = min + (max - min) * (0.05 + 0.9 * random());
+  const rounded = Math.round(value * 100) / 100;
+  return rounded > min && rounded < max ? rounded : value;
+}
+
+/** Lowercase letters and digits, between minLength and maxLength characters */
+function randomText(random: Random, minLength: number, maxLength: number): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: randomInt(random, minLength, maxLength) }, () => chars[randomInt(random, 0, chars.length - 1)]).join("");
+}
+
+/** Lowercase hexadecimal digits */
+function randomHex(random: Random, length: number): string {
+  return Array.from({ length }, () => randomInt(random, 0, 15).toString(16)).join("");
+}
+
+/** Between minLength and maxLength random bytes */
+function randomBytes(random: Random, minLength: number, maxLength: number) {
+  return Uint8Array.from({ length: randomInt(random, minLength, maxLength) }, () => randomInt(random, 0, 255));
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[randomInt(random, 0, values.length - 1)];
+}
+
+/** Draws values until one passes the check, for rules that are not satisfied by construction */
+function draw<T>(next: () => T, check: (value: T) => boolean): T {
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const value = next();
+    if (check(value)) {
+      return value;
+    }
+  }
+  throw new Error("Could not draw a value satisfying the rules");
+}
+
+/**
+ * A parsed pattern: a literal, a sequence, alternatives, a character out of a
+ * set, or a repetition
+ */
+type RegexNode = string | RegexNode[] | { oneOf: RegexNode[] } | { set: string } | { repeat: RegexNode; min: number; max: number };
+
+/** A string matching a parsed pattern */
+function sampleRegex(random: Random, node: RegexNode): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (Array.isArray(node)) {
+    return node.map((child) => sampleRegex(random, child)).join("");
+  }
+  if ("oneOf" in node) {
+    return sampleRegex(random, pick(random, node.oneOf));
+  }
+  if ("set" in node) {
+    return pick(random, Array.from(node.set));
+  }
+  return Array.from({ length: randomInt(random, node.min, node.max) }, () => sampleRegex(random, node.repeat)).join("");
+}
+
+/** Between min and max items, all different when unique */
+function randomList<T>(random: Random, min: number, max: number, item: () => T, unique = false): T[] {
+  const items: T[] = [];
+  const length = randomInt(random, min, max);
+  while (items.length < length) {
+    items.push(unique ? draw(item, (value) => !items.includes(value)) : item());
+  }
+  return items;
+}
+
+/** Between min and max map entries, with different keys */
+function randomEntries<K, V>(random: Random, min: number, max: number, key: () => K, value: () => V): [K, V][] {
+  const entries: [K, V][] = [];
+  const length = randomInt(random, min, max);
+  while (entries.length < length) {
+    // Keys compare as strings, which covers Long keys
+    const k = draw(key, (candidate) => entries.every(([other]) => String(other) !== String(candidate)));
+    entries.push([k, value()]);
+  }
+  return entries;
+}
+
+/** Map entries with the first one replaced, which keeps the number of entries */
+function replaceFirstEntry<K, V>(entries: Iterable<[K, V]>, replace: (first: [K, V]) => [K, V]): [K, V][] {
+  const [first, ...rest] = Array.from(entries);
+  return [replace(first), ...rest];
+}
+
+/** google.protobuf.Timestamp of milliseconds since the epoch */
+function toTimestamp(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** google.protobuf.Duration of milliseconds */
+function toDuration(ms: number) {
+  const seconds = Math.trunc(ms / 1000);
+  return { seconds: Long.fromNumber(seconds), nanos: (ms - seconds * 1000) * 1000000 };
+}
+
+/** Copy of a message without one of its fields */
+function omit<T extends object>(value: T, key: keyof T): T {
+  const copy = { ...value };
+  delete copy[key];
+  return copy;
+}
+
+const PATTERN_1: RegexNode = [{"oneOf":["missions:","setups:"]},{"repeat":{"set":"abcdefghijklmnopqrstuvwxyz0123456789_-"},"min":3,"max":11}];
+const PATTERN_2: RegexNode = {"repeat":{"set":"abcdefghijklmnopqrstuvwxyz"},"min":1,"max":9};
+
+/**
+ * Builds a valid UploadSampleRequest from a source of random numbers
+ * @generated from message golden.v1.UploadSampleRequest
+ */
+export function buildUploadSampleRequest(random: Random): UploadSampleRequest {
+  return {
+    ref: sampleRegex(random, PATTERN_1),
+    id: `${randomHex(random, 8)}-${randomHex(random, 4)}-4${randomHex(random, 3)}-8${randomHex(random, 3)}-${randomHex(random, 12)}`,
+    email: `${randomText(random, 3, 8)}@example.com`,
+    slug: "sample-" + randomText(random, 3, 10),
+    kind: pick(random, ["image", "text"]),
+    status: Status.STATUS_ACTIVE,
+    count: randomInt(random, 1, 10),
+    size: Long.fromNumber(draw(() => randomInt(random, 1, 100), (n) => ![13].includes(n))),
+    offset: randomInt(random, 20, 119),
+    score: randomFloat(random, 0, 100),
+    accepted: true,
+    digest: randomBytes(random, 32, 32),
+    tags: randomList(random, 1, 3, () => draw(() => sampleRegex(random, PATTERN_2), (v) => v.length >= 2), true),
+    history: randomList(random, 1, 3, () => pick(random, [Status.STATUS_ACTIVE, Status.STATUS_INACTIVE])),
+    limits: Object.fromEntries(randomEntries(random, 1, 3, () => sampleRegex(random, PATTERN_2), () => randomInt(random, 0, 99))),
+    createdAt: toTimestamp(randomInt(random, 1577836800001, 1609372800001)),
+    timeout: toDuration(randomInt(random, 1000, 300000)),
+    note: randomText(random, 1, 8),
+    owner: buildSampleOwner(random),
+    nickname: randomText(random, 3, 10),
+    source: pick(random, [() => ({ $case: "url" as const, url: `https://example.com/${randomText(random, 1, 8)}` }), () => ({ $case: "origin" as const, origin: buildSampleOwner(random) })])(),
+  };
+}
+
+/**
+ * Valid UploadSampleRequest, the same for the same seed
+ * @generated from message golden.v1.UploadSampleRequest
+ */
+export function sampleUploadSampleRequest(seed = 1): UploadSampleRequest {
+  return buildUploadSampleRequest(createRandom(seed));
+}
+
+/**
+ * Variants of sampleUploadSampleRequest(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.UploadSampleRequest
+ */
+export function invalidUploadSampleRequestFixtures(seed = 1): InvalidFixture<UploadSampleRequest>[] {
+  const random = createRandom(seed);
+  const valid = buildUploadSampleRequest(random);
+  const limitsKey = Object.entries(valid.limits ?? {})[0][0];
+  const fixtures: InvalidFixture<UploadSampleRequest>[] = [
+    { ruleId: "required", field: "ref", value: omit(valid, "ref") },
+    { ruleId: "string.pattern", field: "ref", value: { ...valid, ref: "!" } },
+    { ruleId: "string.uuid", field: "id", value: { ...valid, id: "not a valid value" } },
+    { ruleId: "string.email", field: "email", value: { ...valid, email: "not a valid value" } },
+    { ruleId: "string.min_len", field: "slug", value: { ...valid, slug: "a".repeat(9) } },
+    { ruleId: "string.max_len", field: "slug", value: { ...valid, slug: "a".repeat(21) } },
+    { ruleId: "string.prefix", field: "slug", value: { ...valid, slug: "_sample-" } },
+    { ruleId: "string.in", field: "kind", value: { ...valid, kind: "_" } },
+    { ruleId: "enum.defined_only", field: "status", value: { ...valid, status: -1 as never } },
+    { ruleId: "enum.not_in", field: "status", value: { ...valid, status: Status.STATUS_INACTIVE } },
+    { ruleId: "int32.gte_lte", field: "count", value: { ...valid, count: 0 } },
+    { ruleId: "int32.gte_lte", field: "count", value: { ...valid, count: 11 } },
+    { ruleId: "int64.gt", field: "size", value: { ...valid, size: Long.fromString("0") } },
+    { ruleId: "int64.not_in", field: "size", value: { ...valid, size: Long.fromString("13") } },
+    { ruleId: "uint32.gte_lt_exclusive", field: "offset", value: { ...valid, offset: 10 } },
+    { ruleId: "double.gte", field: "score", value: { ...valid, score: -1 } },
+    { ruleId: "bool.const", field: "accepted", value: { ...valid, accepted: false } },
+    { ruleId: "bytes.len", field: "digest", value: { ...valid, digest: new Uint8Array(33) } },
+    { ruleId: "repeated.min_items", field: "tags", value: { ...valid, tags: [] } },
+    { ruleId: "repeated.max_items", field: "tags", value: { ...valid, tags: randomList(random, 4, 4, () => draw(() => sampleRegex(random, PATTERN_2), (v) => v.length >= 2)) } },
+    { ruleId: "repeated.unique", field: "tags", value: { ...valid, tags: Array(2).fill(draw(() => sampleRegex(random, PATTERN_2), (v) => v.length >= 2)) } },
+    { ruleId: "string.min_len", field: "tags[0]", value: { ...valid, tags: ["a", ...(valid.tags ?? []).slice(1)] } },
+    { ruleId: "string.pattern", field: "tags[0]", value: { ...valid, tags: ["!", ...(valid.tags ?? []).slice(1)] } },
+    { ruleId: "enum.not_in", field: "history[0]", value: { ...valid, history: [Status.STATUS_UNSPECIFIED, ...(valid.history ?? []).slice(1)] } },
+    { ruleId: "map.min_pairs", field: "limits", value: { ...valid, limits: {} } },
+    { ruleId: "string.pattern", field: "limits[\"!\"]", value: { ...valid, limits: Object.fromEntries(replaceFirstEntry(Object.entries(valid.limits ?? {}), ([, value]) => ["!", value])) } },
+    { ruleId: "int32.gte", field: `limits[${JSON.stringify(limitsKey)}]`, value: { ...valid, limits: Object.fromEntries(replaceFirstEntry(Object.entries(valid.limits ?? {}), ([key]) => [key, -1])) } },
+    { ruleId: "timestamp.gt", field: "created_at", value: { ...valid, createdAt: toTimestamp(1577836800000) } },
+    { ruleId: "duration.gte_lte", field: "timeout", value: { ...valid, timeout: { seconds: Long.fromString("0"), nanos: 999999999 } } },
+    { ruleId: "duration.gte_lte", field: "timeout", value: { ...valid, timeout: { seconds: Long.fromString("300"), nanos: 1 } } },
+    { ruleId: "string.max_len", field: "note", value: { ...valid, note: "a".repeat(11) } },
+    { ruleId: "required", field: "owner", value: omit(valid, "owner") },
+    { ruleId: "string.min_len", field: "nickname", value: { ...valid, nickname: "aa" } },
+    { ruleId: "required", field: "source", value: omit(valid, "source") },
+    { ruleId: "string.uri", field: "url", value: { ...valid, source: { $case: "url" as const, url: "not a valid value" } } },
+  ];
+  for (const fixture of invalidSampleOwnerFixtures(seed)) {
+    fixtures.push({ ...fixture, field: `owner.${fixture.field}`, value: { ...valid, owner: fixture.value } });
+  }
+  for (const fixture of invalidSampleOwnerFixtures(seed)) {
+    fixtures.push({ ...fixture, field: `origin.${fixture.field}`, value: { ...valid, source: { $case: "origin" as const, origin: fixture.value } } });
+  }
+  return fixtures;
+}
+
+/**
+ * Builds a valid SampleOwner from a source of random numbers
+ * @generated from message golden.v1.SampleOwner
+ */
+export function buildSampleOwner(random: Random): SampleOwner {
+  return {
+    name: randomText(random, 1, 8),
+    host: `${randomText(random, 3, 8)}.example.com`,
+  };
+}
+
+/**
+ * Valid SampleOwner, the same for the same seed
+ * @generated from message golden.v1.SampleOwner
+ */
+export function sampleSampleOwner(seed = 1): SampleOwner {
+  return buildSampleOwner(createRandom(seed));
+}
+
+/**
+ * Variants of sampleSampleOwner(seed) that each break one buf.validate rule
+ * @generated from message golden.v1.SampleOwner
+ */
+export function invalidSampleOwnerFixtures(seed = 1): InvalidFixture<SampleOwner>[] {
+  const random = createRandom(seed);
+  const valid = buildSampleOwner(random);
+  const fixtures: InvalidFixture<SampleOwner>[] = [
+    { ruleId: "string.min_len", field: "name", value: { ...valid, name: "" } },
+    { ruleId: "string.max_len", field: "name", value: { ...valid, name: "a".repeat(41) } },
+    { ruleId: "string.hostname", field: "host", value: { ...valid, host: "not a valid value" } },
+  ];
+  return fixtures;
+}
+
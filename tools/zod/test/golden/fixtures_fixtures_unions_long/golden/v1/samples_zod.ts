@@ -0,0 +1,145 @@
+// @generated from file golden/v1/samples.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import Long from "long";
+import { Status } from "./enums.js";
+
+/** Total nanoseconds of a google.protobuf.Duration */
+function durationNanos(value: { seconds: { toString(): string }; nanos: number }): bigint {
+  return BigInt(value.seconds.toString()) * 1000000000n + BigInt(value.nanos);
+}
+
+/** Milliseconds since the epoch of a google.protobuf.Timestamp message (useDate=false) */
+function timestampMillis(value: { seconds: { toString(): string }; nanos: number }): number {
+  return Number(value.seconds.toString()) * 1000 + Math.floor(value.nanos / 1000000);
+}
+
+/** RFC 1123 hostname: labels of 1-63 alphanumerics or inner hyphens, last label not all digits */
+function isHostname(value: string): boolean {
+  if (value.length > 253) {
+    return false;
+  }
+  const labels = (value.endsWith(".") ? value.slice(0, -1) : value).split(".");
+  return labels.every((label) => /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(label))
+    && !/^[0-9]+$/.test(labels[labels.length - 1]);
+}
+
+/** Parses an RFC 4291 IPv6 address (without zone) into its eight 16-bit pieces */
+function parseIpv6(value: string): number[] | undefined {
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const pieces: number[][] = [];
+  for (let h = 0; h < halves.length; h++) {
+    const part: number[] = [];
+    const groups = halves[h] === "" ? [] : halves[h].split(":");
+    for (let g = 0; g < groups.length; g++) {
+      const group = groups[g];
+      const last = h === halves.length - 1 && g === groups.length - 1;
+      if (last && /^(?:(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])$/.test(group)) {
+        const octets = group.split(".").map(Number);
+        part.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+      } else if (/^[0-9A-Fa-f]{1,4}$/.test(group)) {
+        part.push(parseInt(group, 16));
+      } else {
+        return undefined;
+      }
+    }
+    pieces.push(part);
+  }
+  if (pieces.length === 1) {
+    return pieces[0].length === 8 ? pieces[0] : undefined;
+  }
+  // "::" stands for at least one piece of zeros
+  const missing = 8 - pieces[0].length - pieces[1].length;
+  return missing >= 1 ? [...pieces[0], ...new Array<number>(missing).fill(0), ...pieces[1]] : undefined;
+}
+
+/** RFC 3986 URI, or when the scheme is optional a URI reference such as "./foo?bar" */
+function isUriReference(value: string, schemeRequired: boolean): boolean {
+  const match = /^(?:([^:/?#]+):)?(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, scheme, authority, path, query, fragment] = match;
+  if (scheme === undefined ? schemeRequired || /^[^/]*:/.test(path) : !/^[A-Za-z][A-Za-z0-9+.-]*$/.test(scheme)) {
+    return false;
+  }
+  const pathChars = /^(?:[A-Za-z0-9\-._~!$&'()*+,;=:@/]|%[0-9A-Fa-f]{2})*$/;
+  const queryChars = /^(?:[A-Za-z0-9\-._~!$&'()*+,;=:@/?]|%[0-9A-Fa-f]{2})*$/;
+  if (!pathChars.test(path) || !queryChars.test(query ?? "") || !queryChars.test(fragment ?? "")) {
+    return false;
+  }
+  if (authority === undefined) {
+    return true;
+  }
+  const parts = /^(?:([^@]*)@)?(\[[^\]]*\]|[^:]*)(?::[0-9]*)?$/.exec(authority);
+  if (!parts || !/^(?:[A-Za-z0-9\-._~!$&'()*+,;=:]|%[0-9A-Fa-f]{2})*$/.test(parts[1] ?? "")) {
+    return false;
+  }
+  const host = parts[2];
+  if (!host.startsWith("[")) {
+    return /^(?:[A-Za-z0-9\-._~!$&'()*+,;=]|%[0-9A-Fa-f]{2})*$/.test(host);
+  }
+  const literal = host.slice(1, -1);
+  if (/^[vV][0-9A-Fa-f]+\.[A-Za-z0-9\-._~!$&'()*+,;=:]+$/.test(literal)) {
+    return true;
+  }
+  // RFC 6874 zone identifiers are introduced by an encoded "%"
+  const zone = literal.indexOf("%25");
+  if (zone === -1) {
+    return parseIpv6(literal) !== undefined;
+  }
+  return parseIpv6(literal.slice(0, zone)) !== undefined
+    && /^(?:[A-Za-z0-9\-._~]|%[0-9A-Fa-f]{2})+$/.test(literal.slice(zone + 3));
+}
+
+/** ^(missions:|setups:)[a-z0-9_-]{3,}$ */
+const PATTERN_1 = /^(missions:|setups:)[a-z0-9_-]{3,}$/;
+/** ^[a-z]+$ */
+const PATTERN_2 = /^[a-z]+$/;
+
+/**
+ * SampleOwner is nested in UploadSampleRequest.
+ * @generated from message golden.v1.SampleOwner
+ */
+export const SampleOwnerSchema = z.object({
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).refine((v) => [...v].length <= 40, { message: "Must be at most 40 characters", params: { ruleId: "string.max_len" } }).optional(),
+  host: z.string().refine((v) => v !== "", { message: "Must be a valid hostname", params: { ruleId: "string.hostname_empty", rule: "string.hostname" } }).refine((v) => v === "" || isHostname(v), { message: "Must be a valid hostname", params: { ruleId: "string.hostname" } }).optional(),
+}).describe("SampleOwner is nested in UploadSampleRequest.");
+
+export type SampleOwner = z.infer<typeof SampleOwnerSchema>;
+
+/**
+ * UploadSampleRequest covers the rules the fixtures satisfy and break.
+ * @generated from message golden.v1.UploadSampleRequest
+ */
+export const UploadSampleRequestSchema = z.object({
+  ref: z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^(missions:|setups:)[a-z0-9_-]{3,}$", params: { ruleId: "string.pattern" } }),
+  id: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }).optional(),
+  email: z.string().refine((v) => v !== "", { message: "Must be a valid email address", params: { ruleId: "string.email_empty", rule: "string.email" } }).refine((v) => v === "" || z.regexes.html5Email.test(v), { message: "Must be a valid email address", params: { ruleId: "string.email" } }).optional(),
+  slug: z.string().refine((v) => [...v].length >= 10, { message: "Must be at least 10 characters", params: { ruleId: "string.min_len" } }).refine((v) => [...v].length <= 20, { message: "Must be at most 20 characters", params: { ruleId: "string.max_len" } }).refine((v) => v.startsWith("sample-"), { message: "Must start with sample-", params: { ruleId: "string.prefix" } }).optional(),
+  kind: z.string().refine((v) => ["image", "text"].includes(v), { message: "Must be one of: image, text", params: { ruleId: "string.in" } }).optional(),
+  status: z.enum(Status).refine((e) => ![2].includes(e), { message: "Must not be one of: 2", params: { ruleId: "enum.not_in" } }).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).optional(),
+  count: z.number().int().refine((n) => n >= 1 && n <= 10, { message: "Must be >= 1 and <= 10", params: { ruleId: "int32.gte_lte", rule: "int32.gte" } }).optional(),
+  size: z.custom<Long>((v) => Long.isLong(v), { message: "Must be a Long" }).refine((v) => BigInt(v.toString()) > 0n, { message: "Must be > 0", params: { ruleId: "int64.gt" } }).refine((v) => ![13n].includes(BigInt(v.toString())), { message: "Must not be one of: 13", params: { ruleId: "int64.not_in" } }).optional(),
+  /** Outside of [10, 20) */
+  offset: z.number().int().nonnegative().refine((n) => n < 10 || n >= 20, { message: "Must be < 10 or >= 20", params: { ruleId: "uint32.gte_lt_exclusive", rule: "uint32.gte" } }).optional().describe("Outside of [10, 20)"),
+  score: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).refine((n) => Number.isFinite(n), { message: "Must be finite", params: { ruleId: "double.finite" } }).optional(),
+  accepted: z.boolean().refine((b) => b === true, { message: "Must be true", params: { ruleId: "bool.const" } }).optional(),
+  digest: z.instanceof(Uint8Array).refine((b) => b.length === 32, { message: "Bytes must be exactly 32 bytes", params: { ruleId: "bytes.len" } }).optional(),
+  tags: z.array(z.string().refine((v) => [...v].length >= 2, { message: "Must be at least 2 characters", params: { ruleId: "string.min_len", rule: "repeated.items.string.min_len" } }).refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^[a-z]+$", params: { ruleId: "string.pattern", rule: "repeated.items.string.pattern" } })).refine((arr) => arr.length >= 1, { message: "Must have at least 1 items", params: { ruleId: "repeated.min_items" } }).refine((arr) => arr.length <= 3, { message: "Must have at most 3 items", params: { ruleId: "repeated.max_items" } }).refine((arr) => new Set(arr).size === arr.length, { message: "Items must be unique", params: { ruleId: "repeated.unique" } }).optional(),
+  history: z.array(z.enum(Status).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in", rule: "repeated.items.enum.not_in" } })).optional(),
+  limits: z.record(z.string().refine((v) => PATTERN_2.test(v), { message: "Must match pattern: ^[a-z]+$", params: { ruleId: "string.pattern", rule: "map.keys.string.pattern" } }), z.number().int().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "int32.gte", rule: "map.values.int32.gte" } })).refine((m) => Object.keys(m).length >= 1, { message: "Map must have at least 1 entries", params: { ruleId: "map.min_pairs" } }).optional(),
+  createdAt: z.object({ seconds: z.custom<Long>((v) => Long.isLong(v), { message: "Must be a Long" }), nanos: z.number().int() }).refine((d) => timestampMillis(d) > 1577836800000, { message: "Must be > 2020-01-01T00:00:00.000Z", params: { ruleId: "timestamp.gt" } }).optional(),
+  timeout: z.object({ seconds: z.custom<Long>((v) => Long.isLong(v), { message: "Must be a Long" }), nanos: z.number().int() }).refine((d) => durationNanos(d) >= 1000000000n && durationNanos(d) <= 300000000000n, { message: "Must be >= 1s and <= 300s", params: { ruleId: "duration.gte_lte", rule: "duration.gte" } }).optional(),
+  note: z.string().refine((v) => [...v].length <= 10, { message: "Must be at most 10 characters", params: { ruleId: "string.max_len" } }).optional(),
+  owner: SampleOwnerSchema,
+  nickname: z.union([z.literal(""), z.string().refine((v) => [...v].length >= 3, { message: "Must be at least 3 characters", params: { ruleId: "string.min_len" } })]).optional(),
+  source: z.discriminatedUnion("$case", [z.object({ $case: z.literal("url"), url: z.string().refine((v) => v !== "", { message: "Must be a valid URI", params: { ruleId: "string.uri_empty", rule: "string.uri" } }).refine((v) => v === "" || isUriReference(v, true), { message: "Must be a valid URI", params: { ruleId: "string.uri" } }) }), z.object({ $case: z.literal("origin"), origin: SampleOwnerSchema })]),
+}).describe("UploadSampleRequest covers the rules the fixtures satisfy and break.");
+
+export type UploadSampleRequest = z.infer<typeof UploadSampleRequestSchema>;
+
@@ -0,0 +1,208 @@
+// @generated from file golden/v1/forms.proto
+/* eslint-disable */
+
+import { STATUS_MAP } from "./enums_zod.js";
+
+/**
+ * Input of a form field, from the type of its values
+ * - text, integer, number, checkbox: string, integer, float and bool scalars (and their wrappers)
+ * - select: enums, with the options of the enum's *_MAP helper
+ * - file: bytes
+ * - datetime, duration: google.protobuf.Timestamp and Duration
+ * - json: google.protobuf.Struct, Value and ListValue
+ * - group: other messages, described by the form of `message`
+ */
+export type FormInput = "text" | "integer" | "number" | "checkbox" | "select" | "file" | "datetime" | "duration" | "json" | "group";
+
+/**
+ * Bounds of the buf.validate rules of a value
+ */
+export interface FormConstraints {
+  min?: number;
+  exclusiveMin?: boolean;
+  max?: number;
+  exclusiveMax?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  /** RE2 syntax, as in the proto */
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface FormField {
+  /** Property of the field on the message */
+  name: string;
+  label: string;
+  /** Leading comment of the field */
+  help?: string;
+  /** Input of the value, or of each item or map value */
+  input: FormInput;
+  /** Lists and maps take several values */
+  container?: "list" | "map";
+  /** Input of the keys of a map */
+  keyInput?: FormInput;
+  required: boolean;
+  /** Values and labels of an enum, including the zero value */
+  options?: Record<number, string>;
+  /** Full name of the message of a group input */
+  message?: string;
+  /** oneof group the field belongs to */
+  oneof?: string;
+  constraints?: FormConstraints;
+  /** Constraints on each item or map value */
+  itemConstraints?: FormConstraints;
+}
+
+export interface FormOneof {
+  name: string;
+  label: string;
+  help?: string;
+  /** Whether one of the fields must be set */
+  required: boolean;
+  /** Names of the member fields */
+  fields: string[];
+}
+
+export interface FormModel {
+  /** Full name of the message */
+  typeName: string;
+  /** Leading comment of the message */
+  help?: string;
+  fields: FormField[];
+  oneofs: FormOneof[];
+}
+
+/**
+ * Form model of CreateTaskRequest
+ * @generated from message golden.v1.CreateTaskRequest
+ */
+export const CreateTaskRequestForm: FormModel = {
+  typeName: "golden.v1.CreateTaskRequest",
+  help: "CreateTaskRequest covers the inputs of the form models.",
+  fields: [
+    {
+      name: "title",
+      label: "Title",
+      help: "Short name of the task",
+      input: "text",
+      required: true,
+      constraints: { minLength: 3, maxLength: 80 },
+    },
+    {
+      name: "attempts",
+      label: "Attempts",
+      help: "Number of attempts before the task fails",
+      input: "integer",
+      required: false,
+      constraints: { min: 0, exclusiveMin: true, max: 10, exclusiveMax: false },
+    },
+    {
+      name: "weight",
+      label: "Weight",
+      input: "number",
+      required: false,
+      constraints: { min: 0, exclusiveMin: false },
+    },
+    {
+      name: "urgent",
+      label: "Urgent",
+      input: "checkbox",
+      required: false,
+    },
+    {
+      name: "status",
+      label: "Status",
+      input: "select",
+      required: false,
+      options: STATUS_MAP,
+    },
+    {
+      name: "tags",
+      label: "Tags",
+      input: "text",
+      container: "list",
+      required: false,
+      constraints: { maxItems: 5 },
+      itemConstraints: { pattern: "^[a-z]+$" },
+    },
+    {
+      name: "limits",
+      label: "Limits",
+      input: "integer",
+      container: "map",
+      keyInput: "text",
+      required: false,
+    },
+    {
+      name: "due",
+      label: "Due",
+      input: "datetime",
+      required: false,
+    },
+    {
+      name: "input",
+      label: "Input",
+      input: "json",
+      required: false,
+    },
+    {
+      name: "attachment",
+      label: "Attachment",
+      input: "file",
+      required: false,
+      constraints: { maxLength: 1024 },
+    },
+    {
+      name: "schedule",
+      label: "Schedule",
+      help: "Schedule of the task, when it repeats.",
+      input: "group",
+      required: false,
+      message: "golden.v1.TaskSchedule",
+    },
+    {
+      name: "host",
+      label: "Host",
+      input: "text",
+      required: false,
+      oneof: "target",
+    },
+    {
+      name: "port",
+      label: "Port",
+      input: "integer",
+      required: false,
+      oneof: "target",
+    },
+  ],
+  oneofs: [
+    {
+      name: "target",
+      label: "Target",
+      help: "Where the task runs",
+      required: true,
+      fields: ["host", "port"],
+    },
+  ],
+};
+
+/**
+ * Form model of TaskSchedule
+ * @generated from message golden.v1.TaskSchedule
+ */
+export const TaskScheduleForm: FormModel = {
+  typeName: "golden.v1.TaskSchedule",
+  help: "TaskSchedule is embedded in CreateTaskRequest.",
+  fields: [
+    {
+      name: "cron",
+      label: "Cron",
+      input: "text",
+      required: false,
+      constraints: { minLength: 1 },
+    },
+  ],
+  oneofs: [],
+};
+
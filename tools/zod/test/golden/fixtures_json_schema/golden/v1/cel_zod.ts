@@ -0,0 +1,108 @@
+// @generated from file golden/v1/cel.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/** CEL integer modulo, an evaluation error for a zero divisor */
+function celModulo(left: bigint, right: bigint): bigint {
+  if (right === 0n) {
+    throw new Error("modulus by zero");
+  }
+  return left % right;
+}
+
+/** Element of a CEL list, an evaluation error out of range */
+function celIndex<T>(list: readonly T[], index: bigint): T {
+  if (index < 0n || index >= BigInt(list.length)) {
+    throw new Error("index out of range: " + index);
+  }
+  return list[Number(index)];
+}
+
+/** Violation message of a CEL rule whose evaluation failed */
+function celErrorMessage(error: unknown): string {
+  return "evaluation error: " + (error instanceof Error ? error.message : String(error));
+}
+
+/** (?i)^[a-z]+$ */
+const PATTERN_1 = /^[a-z]+$/i;
+
+/**
+ * RangeFilter covers message-level CEL rules relating its fields.
+ * @generated from message golden.v1.RangeFilter
+ */
+export const RangeFilterSchema = z.object({
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  updatedAfter: z.coerce.date().optional(),
+  updatedBefore: z.coerce.date().optional(),
+  minSizeBytes: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).refine((v) => BigInt(v) >= 0n, { message: "Must be >= 0", params: { ruleId: "int64.gte" } }).optional(),
+  maxSizeBytes: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).refine((v) => BigInt(v) >= 0n, { message: "Must be >= 0", params: { ruleId: "int64.gte" } }).optional(),
+}).superRefine((v, ctx) => {
+  // range_filter.size_range
+  try {
+    if (!((BigInt(v.maxSizeBytes ?? 0) === 0n) || (BigInt(v.minSizeBytes ?? 0) <= BigInt(v.maxSizeBytes ?? 0)))) {
+      ctx.addIssue({ code: "custom", message: "min_size_bytes must be less than or equal to max_size_bytes", path: [], params: { ruleId: "range_filter.size_range" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: [], params: { ruleId: "range_filter.size_range" } });
+  }
+  // range_filter.created_range
+  try {
+    if (!((!(v.createdAfter !== undefined) || !(v.createdBefore !== undefined)) || ((v.createdAfter?.getTime() ?? 0) < (v.createdBefore?.getTime() ?? 0)))) {
+      ctx.addIssue({ code: "custom", message: "created_after must be before created_before", path: [], params: { ruleId: "range_filter.created_range" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: [], params: { ruleId: "range_filter.created_range" } });
+  }
+  // range_filter.updated_range
+  try {
+    if (!((!(v.updatedAfter !== undefined) || !(v.updatedBefore !== undefined)) || ((v.updatedAfter?.getTime() ?? 0) < (v.updatedBefore?.getTime() ?? 0)))) {
+      ctx.addIssue({ code: "custom", message: "updated_after must be before updated_before", path: [], params: { ruleId: "range_filter.updated_range" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: [], params: { ruleId: "range_filter.updated_range" } });
+  }
+}).describe("RangeFilter covers message-level CEL rules relating its fields.");
+
+export type RangeFilter = z.infer<typeof RangeFilterSchema>;
+
+/**
+ * Pages covers CEL rules that can fail to evaluate, which are reported as violations.
+ * @generated from message golden.v1.Pages
+ */
+export const PagesSchema = z.object({
+  pageSize: z.number().int().optional(),
+  total: z.number().int().optional(),
+  cursors: z.array(z.string()).optional(),
+  name: z.string().optional(),
+}).superRefine((v, ctx) => {
+  // pages.first_cursor
+  try {
+    if (!celIndex((v.cursors ?? []), 0n).startsWith("c_")) {
+      ctx.addIssue({ code: "custom", message: "the first cursor must start with c_", path: ["cursors"], params: { ruleId: "pages.first_cursor", rule: "cel[0]" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: ["cursors"], params: { ruleId: "pages.first_cursor", rule: "cel[0]" } });
+  }
+  // pages.name
+  try {
+    const message = (PATTERN_1.test((v.name ?? "")) ? "" : "name must only contain letters");
+    if (message !== "") {
+      ctx.addIssue({ code: "custom", message, path: ["name"], params: { ruleId: "pages.name", rule: "cel[0]" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: ["name"], params: { ruleId: "pages.name", rule: "cel[0]" } });
+  }
+  // pages.total
+  try {
+    if (!(celModulo(BigInt(v.total ?? 0), BigInt(v.pageSize ?? 0)) === 0n)) {
+      ctx.addIssue({ code: "custom", message: "total must be a multiple of page_size", path: [], params: { ruleId: "pages.total" } });
+    }
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: celErrorMessage(error), path: [], params: { ruleId: "pages.total" } });
+  }
+}).describe("Pages covers CEL rules that can fail to evaluate, which are reported as violations.");
+
+export type Pages = z.infer<typeof PagesSchema>;
+
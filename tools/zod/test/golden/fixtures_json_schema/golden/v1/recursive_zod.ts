@@ -0,0 +1,131 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { Visibility } from "./recursive.js";
+
+/**
+ * Visibility of a Section.
+ * @generated from enum golden.v1.Visibility
+ */
+export const VisibilitySchema = z.enum(Visibility).describe("Visibility of a Section.");
+export type VisibilityType = z.infer<typeof VisibilitySchema>;
+
+/**
+ * Map of Visibility enum values to string representations
+ * @generated from enum golden.v1.Visibility
+ */
+export const VISIBILITY_MAP: Record<number, string> = {
+  0: "UNSPECIFIED",
+  1: "PUBLIC",
+  2: "PRIVATE",
+};
+
+/**
+ * Map of string representations to Visibility enum values
+ * @generated from enum golden.v1.Visibility
+ */
+export const STRING_TO_VISIBILITY: Record<string, Visibility> = {
+  PUBLIC: Visibility.VISIBILITY_PUBLIC,
+  PRIVATE: Visibility.VISIBILITY_PRIVATE,
+};
+
+/**
+ * TreeNode references itself.
+ * @generated from message golden.v1.TreeNode
+ */
+export type TreeNode = {
+  name?: string;
+  children?: TreeNode[];
+  parent?: TreeNode;
+};
+
+export const TreeNodeSchema: z.ZodType<TreeNode> = z.lazy(() => z.object({
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional(),
+  children: z.array(z.lazy(() => TreeNodeSchema)).optional(),
+  parent: z.lazy(() => TreeNodeSchema).optional(),
+}).describe("TreeNode references itself."));
+
+/**
+ * Expr and BinaryOp reference each other.
+ * @generated from message golden.v1.Expr
+ */
+export type Expr = {
+  literal?: string;
+  binary?: BinaryOp;
+};
+
+export const ExprSchema: z.ZodType<Expr> = z.lazy(() => z.object({
+  literal: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }).optional(),
+  binary: z.lazy(() => BinaryOpSchema).optional(),
+}).superRefine((v, ctx) => {
+  const kindCount = [v.literal, v.binary].filter((m) => m !== undefined).length;
+  if (kindCount > 1) {
+    ctx.addIssue({ code: "custom", message: "Only one of literal, binary may be set", path: ["kind"] });
+  }
+}).describe("Expr and BinaryOp reference each other."));
+
+/**
+ * BinaryOp is an operator applied to two expressions.
+ * @generated from message golden.v1.BinaryOp
+ */
+export type BinaryOp = {
+  op?: string;
+  left: Expr;
+  right: Expr;
+};
+
+export const BinaryOpSchema: z.ZodType<BinaryOp> = z.lazy(() => z.object({
+  op: z.string().refine((v) => ["+", "-"].includes(v), { message: "Must be one of: +, -", params: { ruleId: "string.in" } }).optional(),
+  left: z.lazy(() => ExprSchema),
+  right: z.lazy(() => ExprSchema),
+}).describe("BinaryOp is an operator applied to two expressions."));
+
+/**
+ * Label is referenced by recursive messages without being on a cycle.
+ * @generated from message golden.v1.Label
+ */
+export const LabelSchema = z.object({
+  value: z.string().optional(),
+}).describe("Label is referenced by recursive messages without being on a cycle.");
+
+export type Label = z.infer<typeof LabelSchema>;
+
+/**
+ * Section is recursive through a map, with fields of every kind.
+ * @generated from message golden.v1.Section
+ */
+export type Section = {
+  title: string;
+  level?: number;
+  updatedAt?: Date;
+  children?: Record<string, Section>;
+  refs?: Record<string, string>;
+  summary?: string;
+  metadata?: Record<string, any>;
+  ttl?: { seconds: string; nanos: number };
+  checksum?: Uint8Array;
+  revisions?: Date[];
+  label?: Label;
+  visibility?: Visibility;
+  extra?: unknown;
+  budget?: string;
+};
+
+export const SectionSchema: z.ZodType<Section> = z.lazy(() => z.object({
+  title: z.string(),
+  level: z.number().int().optional(),
+  updatedAt: z.coerce.date().optional(),
+  children: z.record(z.string(), z.lazy(() => SectionSchema)).optional(),
+  refs: z.record(z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }), z.string()).optional(),
+  summary: z.string().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  ttl: z.object({ seconds: z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }), nanos: z.number().int() }).optional(),
+  checksum: z.instanceof(Uint8Array).optional(),
+  revisions: z.array(z.coerce.date()).optional(),
+  label: LabelSchema.optional(),
+  visibility: z.enum(Visibility).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).optional(),
+  extra: z.unknown().optional(),
+  budget: z.string().regex(/^[0-9]+$/, { message: "Must be a non-negative integer", abort: true }).refine((s) => BigInt.asUintN(64, BigInt(s)) === BigInt(s), { message: "Must be an unsigned 64-bit integer" }).optional(),
+}).describe("Section is recursive through a map, with fields of every kind."));
+
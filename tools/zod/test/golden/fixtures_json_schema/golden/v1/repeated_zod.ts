@@ -0,0 +1,32 @@
+// @generated from file golden/v1/repeated.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/** ^[a-z-]+$ */
+const PATTERN_1 = /^[a-z-]+$/;
+
+/**
+ * Item is a repeated message.
+ * @generated from message golden.v1.Item
+ */
+export const ItemSchema = z.object({
+  id: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }).optional(),
+}).describe("Item is a repeated message.");
+
+export type Item = z.infer<typeof ItemSchema>;
+
+/**
+ * Lists covers repeated fields and their item rules.
+ * @generated from message golden.v1.Lists
+ */
+export const ListsSchema = z.object({
+  emails: z.array(z.string().refine((v) => v !== "", { message: "Must be a valid email address", params: { ruleId: "string.email_empty", rule: "repeated.items.string.email" } }).refine((v) => v === "" || z.regexes.html5Email.test(v), { message: "Must be a valid email address", params: { ruleId: "string.email", rule: "repeated.items.string.email" } })).optional(),
+  scores: z.array(z.number().int().refine((n) => n >= 0 && n <= 100, { message: "Must be >= 0 and <= 100", params: { ruleId: "int32.gte_lte", rule: "repeated.items.int32.gte" } })).refine((arr) => arr.length >= 1, { message: "Must have at least 1 items", params: { ruleId: "repeated.min_items" } }).refine((arr) => arr.length <= 5, { message: "Must have at most 5 items", params: { ruleId: "repeated.max_items" } }).optional(),
+  items: z.array(ItemSchema).refine((arr) => arr.length >= 1, { message: "Must have at least 1 items", params: { ruleId: "repeated.min_items" } }).optional(),
+  tags: z.array(z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^[a-z-]+$", params: { ruleId: "string.pattern", rule: "repeated.items.string.pattern" } })).refine((arr) => new Set(arr).size === arr.length, { message: "Items must be unique", params: { ruleId: "repeated.unique" } }).optional(),
+  chunks: z.array(z.instanceof(Uint8Array).refine((b) => b.length <= 1024, { message: "Bytes must be at most 1024 bytes", params: { ruleId: "bytes.max_len", rule: "repeated.items.bytes.max_len" } })).optional(),
+}).describe("Lists covers repeated fields and their item rules.");
+
+export type Lists = z.infer<typeof ListsSchema>;
+
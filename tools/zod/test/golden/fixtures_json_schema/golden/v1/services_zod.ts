@@ -0,0 +1,15 @@
+// @generated from file golden/v1/services.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * WatchItemsRequest is the request of a server-streaming method.
+ * @generated from message golden.v1.WatchItemsRequest
+ */
+export const WatchItemsRequestSchema = z.object({
+  itemIds: z.array(z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "repeated.items.string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid", rule: "repeated.items.string.uuid" } })).refine((arr) => arr.length >= 1, { message: "Must have at least 1 items", params: { ruleId: "repeated.min_items" } }).optional(),
+}).describe("WatchItemsRequest is the request of a server-streaming method.");
+
+export type WatchItemsRequest = z.infer<typeof WatchItemsRequestSchema>;
+
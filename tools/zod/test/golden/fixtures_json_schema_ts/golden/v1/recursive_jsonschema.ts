@@ -0,0 +1,311 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+/**
+ * JSON Schema for TreeNode
+ * @generated from message golden.v1.TreeNode
+ */
+export const TreeNodeJsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "TreeNode",
+  "description": "TreeNode references itself.",
+  "type": "object",
+  "properties": {
+    "name": {
+      "type": "string",
+      "minLength": 1
+    },
+    "children": {
+      "type": "array",
+      "items": {
+        "$ref": "#"
+      }
+    },
+    "parent": {
+      "$ref": "#"
+    }
+  },
+  "additionalProperties": false
+} as const;
+
+/**
+ * JSON Schema for Expr
+ * @generated from message golden.v1.Expr
+ */
+export const ExprJsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "Expr",
+  "description": "Expr and BinaryOp reference each other.",
+  "type": "object",
+  "properties": {
+    "literal": {
+      "type": "string",
+      "pattern": "^-?[0-9]+$"
+    },
+    "binary": {
+      "$ref": "#/$defs/golden.v1.BinaryOp"
+    }
+  },
+  "oneOf": [
+    {
+      "required": [
+        "literal"
+      ]
+    },
+    {
+      "required": [
+        "binary"
+      ]
+    },
+    {
+      "not": {
+        "anyOf": [
+          {
+            "required": [
+              "literal"
+            ]
+          },
+          {
+            "required": [
+              "binary"
+            ]
+          }
+        ]
+      }
+    }
+  ],
+  "additionalProperties": false,
+  "$defs": {
+    "golden.v1.BinaryOp": {
+      "title": "BinaryOp",
+      "description": "BinaryOp is an operator applied to two expressions.",
+      "type": "object",
+      "properties": {
+        "op": {
+          "type": "string",
+          "enum": [
+            "+",
+            "-"
+          ]
+        },
+        "left": {
+          "$ref": "#"
+        },
+        "right": {
+          "$ref": "#"
+        }
+      },
+      "required": [
+        "left",
+        "right"
+      ],
+      "additionalProperties": false
+    }
+  }
+} as const;
+
+/**
+ * JSON Schema for BinaryOp
+ * @generated from message golden.v1.BinaryOp
+ */
+export const BinaryOpJsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "BinaryOp",
+  "description": "BinaryOp is an operator applied to two expressions.",
+  "type": "object",
+  "properties": {
+    "op": {
+      "type": "string",
+      "enum": [
+        "+",
+        "-"
+      ]
+    },
+    "left": {
+      "$ref": "#/$defs/golden.v1.Expr"
+    },
+    "right": {
+      "$ref": "#/$defs/golden.v1.Expr"
+    }
+  },
+  "required": [
+    "left",
+    "right"
+  ],
+  "additionalProperties": false,
+  "$defs": {
+    "golden.v1.Expr": {
+      "title": "Expr",
+      "description": "Expr and BinaryOp reference each other.",
+      "type": "object",
+      "properties": {
+        "literal": {
+          "type": "string",
+          "pattern": "^-?[0-9]+$"
+        },
+        "binary": {
+          "$ref": "#"
+        }
+      },
+      "oneOf": [
+        {
+          "required": [
+            "literal"
+          ]
+        },
+        {
+          "required": [
+            "binary"
+          ]
+        },
+        {
+          "not": {
+            "anyOf": [
+              {
+                "required": [
+                  "literal"
+                ]
+              },
+              {
+                "required": [
+                  "binary"
+                ]
+              }
+            ]
+          }
+        }
+      ],
+      "additionalProperties": false
+    }
+  }
+} as const;
+
+/**
+ * JSON Schema for Label
+ * @generated from message golden.v1.Label
+ */
+export const LabelJsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "Label",
+  "description": "Label is referenced by recursive messages without being on a cycle.",
+  "type": "object",
+  "properties": {
+    "value": {
+      "type": "string"
+    }
+  },
+  "additionalProperties": false
+} as const;
+
+/**
+ * JSON Schema for Section
+ * @generated from message golden.v1.Section
+ */
+export const SectionJsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "Section",
+  "description": "Section is recursive through a map, with fields of every kind.",
+  "type": "object",
+  "properties": {
+    "title": {
+      "type": "string"
+    },
+    "level": {
+      "type": "integer",
+      "minimum": -2147483648,
+      "maximum": 2147483647
+    },
+    "updatedAt": {
+      "type": "string",
+      "format": "date-time"
+    },
+    "children": {
+      "type": "object",
+      "propertyNames": {
+        "type": "string"
+      },
+      "additionalProperties": {
+        "$ref": "#"
+      }
+    },
+    "refs": {
+      "type": "object",
+      "propertyNames": {
+        "type": "string",
+        "pattern": "^-?[0-9]+$"
+      },
+      "additionalProperties": {
+        "type": "string"
+      }
+    },
+    "summary": {
+      "type": "string"
+    },
+    "metadata": {
+      "type": "object"
+    },
+    "ttl": {
+      "type": "string",
+      "pattern": "^-?[0-9]+(\\.[0-9]{1,9})?s$"
+    },
+    "checksum": {
+      "type": "string",
+      "contentEncoding": "base64"
+    },
+    "revisions": {
+      "type": "array",
+      "items": {
+        "type": "string",
+        "format": "date-time"
+      }
+    },
+    "label": {
+      "$ref": "#/$defs/golden.v1.Label"
+    },
+    "visibility": {
+      "$ref": "#/$defs/golden.v1.Visibility"
+    },
+    "extra": {
+      "type": "object",
+      "properties": {
+        "@type": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "@type"
+      ]
+    },
+    "budget": {
+      "type": "string",
+      "pattern": "^[0-9]+$"
+    }
+  },
+  "required": [
+    "title"
+  ],
+  "additionalProperties": false,
+  "$defs": {
+    "golden.v1.Label": {
+      "title": "Label",
+      "description": "Label is referenced by recursive messages without being on a cycle.",
+      "type": "object",
+      "properties": {
+        "value": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "golden.v1.Visibility": {
+      "title": "Visibility",
+      "description": "Visibility of a Section.",
+      "type": "string",
+      "enum": [
+        "VISIBILITY_UNSPECIFIED",
+        "VISIBILITY_PUBLIC",
+        "VISIBILITY_PRIVATE"
+      ]
+    }
+  }
+} as const;
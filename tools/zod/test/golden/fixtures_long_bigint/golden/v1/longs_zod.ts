@@ -0,0 +1,42 @@
+// @generated from file golden/v1/longs.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/** Total nanoseconds of a google.protobuf.Duration */
+function durationNanos(value: { seconds: { toString(): string }; nanos: number }): bigint {
+  return BigInt(value.seconds.toString()) * 1000000000n + BigInt(value.nanos);
+}
+
+/**
+ * Quota covers 64-bit integers, whose type follows the forceLong option.
+ * @generated from message golden.v1.Quota
+ */
+export const QuotaSchema = z.object({
+  fileSize: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).refine((v) => BigInt(v) >= 0n && BigInt(v) <= 9007199254740993n, { message: "Must be >= 0 and <= 9007199254740993", params: { ruleId: "int64.gte_lte", rule: "int64.gte" } }).optional(),
+  maxTokens: z.bigint().gte(0n).lte(18446744073709551615n).refine((v) => BigInt(v) > 18446744073709551000n, { message: "Must be > 18446744073709551000", params: { ruleId: "uint64.gt" } }).optional(),
+  delta: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).refine((v) => [-1n, 1n].includes(BigInt(v)), { message: "Must be one of: -1, 1", params: { ruleId: "sint64.in" } }).optional(),
+  version: z.bigint().gte(0n).lte(18446744073709551615n).refine((v) => BigInt(v) === 2n, { message: "Must equal 2", params: { ruleId: "fixed64.const" } }).optional(),
+  offset: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).optional(),
+  costs: z.array(z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).refine((v) => BigInt(v) < 1000000n, { message: "Must be < 1000000", params: { ruleId: "int64.lt", rule: "repeated.items.int64.lt" } })).optional(),
+  byId: z.map(z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).refine((v) => BigInt(v) > 0n, { message: "Must be > 0", params: { ruleId: "int64.gt", rule: "map.keys.int64.gt" } }), z.string()).optional(),
+  limit: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).optional(),
+  budget: z.bigint().gte(0n).lte(18446744073709551615n).optional(),
+  reserved: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n).refine((v) => ![0n].includes(BigInt(v)), { message: "Must not be one of: 0", params: { ruleId: "int64.not_in" } }).optional(),
+}).describe("Quota covers 64-bit integers, whose type follows the forceLong option.");
+
+export type Quota = z.infer<typeof QuotaSchema>;
+
+/**
+ * Window covers Timestamps, whose type follows the useDate option.
+ * @generated from message golden.v1.Window
+ */
+export const WindowSchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date().refine((d) => d.getTime() > 946684800000, { message: "Must be > 2000-01-01T00:00:00.000Z", params: { ruleId: "timestamp.gt" } }).optional(),
+  length: z.object({ seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).refine((d) => durationNanos(d) <= 86400000000000n, { message: "Must be <= 86400s", params: { ruleId: "duration.lte" } }).optional(),
+  marks: z.array(z.coerce.date()).optional(),
+}).describe("Window covers Timestamps, whose type follows the useDate option.");
+
+export type Window = z.infer<typeof WindowSchema>;
+
@@ -0,0 +1,73 @@
+// @generated from file golden/v1/enums.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { Status, Task_Priority } from "./enums_pb.js";
+
+/**
+ * Priority is a nested enum.
+ * @generated from enum golden.v1.Task.Priority
+ */
+export const Task_PrioritySchema = z.enum(Task_Priority).describe("Priority is a nested enum.");
+export type Task_PriorityType = z.infer<typeof Task_PrioritySchema>;
+
+/**
+ * Map of Task_Priority enum values to string representations
+ * @generated from enum golden.v1.Task.Priority
+ */
+export const TASK_PRIORITY_MAP: Record<number, string> = {
+  0: "UNSPECIFIED",
+  1: "LOW",
+  2: "HIGH",
+};
+
+/**
+ * Map of string representations to Task_Priority enum values
+ * @generated from enum golden.v1.Task.Priority
+ */
+export const STRING_TO_TASK_PRIORITY: Record<string, Task_Priority> = {
+  LOW: Task_Priority.LOW,
+  HIGH: Task_Priority.HIGH,
+};
+
+/**
+ * Status is a top-level enum.
+ * @generated from enum golden.v1.Status
+ */
+export const StatusSchema = z.enum(Status).describe("Status is a top-level enum.");
+export type StatusType = z.infer<typeof StatusSchema>;
+
+/**
+ * Map of Status enum values to string representations
+ * @generated from enum golden.v1.Status
+ */
+export const STATUS_MAP: Record<number, string> = {
+  0: "UNSPECIFIED",
+  1: "ACTIVE",
+  2: "INACTIVE",
+};
+
+/**
+ * Map of string representations to Status enum values
+ * @generated from enum golden.v1.Status
+ */
+export const STRING_TO_STATUS: Record<string, Status> = {
+  ACTIVE: Status.ACTIVE,
+  INACTIVE: Status.INACTIVE,
+};
+
+/**
+ * Task uses top-level and nested enums.
+ * @generated from message golden.v1.Task
+ */
+export const TaskSchema = z.object({
+  $typeName: z.literal("golden.v1.Task"),
+  status: z.enum(Status).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).optional(),
+  priority: z.enum(Task_Priority).refine((e) => [1, 2].includes(e), { message: "Must be one of: 1, 2", params: { ruleId: "enum.in" } }).optional(),
+  previous: z.enum(Status).refine((e) => ![0].includes(e), { message: "Must not be one of: 0", params: { ruleId: "enum.not_in" } }).optional(),
+  history: z.array(z.enum(Status).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only", rule: "repeated.items.enum.defined_only" } })).optional(),
+  priorities: z.record(z.string(), z.enum(Task_Priority)).optional(),
+}).describe("Task uses top-level and nested enums.");
+
+export type Task = z.infer<typeof TaskSchema>;
+
@@ -0,0 +1,57 @@
+// @generated from file golden/v1/forms.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { Status } from "./enums_pb.js";
+
+/** ^[a-z]+$ */
+const PATTERN_1 = /^[a-z]+$/;
+
+/**
+ * TaskSchedule is embedded in CreateTaskRequest.
+ * @generated from message golden.v1.TaskSchedule
+ */
+export const TaskScheduleSchema = z.object({
+  $typeName: z.literal("golden.v1.TaskSchedule"),
+  cron: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional(),
+}).describe("TaskSchedule is embedded in CreateTaskRequest.");
+
+export type TaskSchedule = z.infer<typeof TaskScheduleSchema>;
+
+/**
+ * TaskSummary is neither a request nor embedded in one.
+ * @generated from message golden.v1.TaskSummary
+ */
+export const TaskSummarySchema = z.object({
+  $typeName: z.literal("golden.v1.TaskSummary"),
+  title: z.string().optional(),
+}).describe("TaskSummary is neither a request nor embedded in one.");
+
+export type TaskSummary = z.infer<typeof TaskSummarySchema>;
+
+/**
+ * CreateTaskRequest covers the inputs of the form models.
+ * @generated from message golden.v1.CreateTaskRequest
+ */
+export const CreateTaskRequestSchema = z.object({
+  $typeName: z.literal("golden.v1.CreateTaskRequest"),
+  /** title: Short name of the task */
+  title: z.string().refine((v) => [...v].length >= 3, { message: "Must be at least 3 characters", params: { ruleId: "string.min_len" } }).refine((v) => [...v].length <= 80, { message: "Must be at most 80 characters", params: { ruleId: "string.max_len" } }).describe("title: Short name of the task"),
+  /** Number of attempts before the task fails */
+  attempts: z.number().int().refine((n) => n > 0 && n <= 10, { message: "Must be > 0 and <= 10", params: { ruleId: "int32.gt_lte", rule: "int32.gt" } }).optional().describe("Number of attempts before the task fails"),
+  weight: z.number().refine((n) => n >= 0, { message: "Must be >= 0", params: { ruleId: "double.gte" } }).optional(),
+  urgent: z.boolean().optional(),
+  status: z.enum(Status).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).optional(),
+  tags: z.array(z.string().refine((v) => PATTERN_1.test(v), { message: "Must match pattern: ^[a-z]+$", params: { ruleId: "string.pattern", rule: "repeated.items.string.pattern" } })).refine((arr) => arr.length <= 5, { message: "Must have at most 5 items", params: { ruleId: "repeated.max_items" } }).optional(),
+  limits: z.record(z.string(), z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n)).optional(),
+  due: z.object({ $typeName: z.literal("google.protobuf.Timestamp"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).optional(),
+  input: z.record(z.string(), z.any()).optional(),
+  attachment: z.instanceof(Uint8Array).refine((b) => b.length <= 1024, { message: "Bytes must be at most 1024 bytes", params: { ruleId: "bytes.max_len" } }).optional(),
+  /** Schedule of the task, when it repeats. */
+  schedule: TaskScheduleSchema.optional().describe("Schedule of the task, when it repeats."),
+  /** target: Where the task runs */
+  target: z.discriminatedUnion("case", [z.object({ case: z.literal("host"), value: z.string() }), z.object({ case: z.literal("port"), value: z.number().int().nonnegative() })]).describe("target: Where the task runs"),
+}).describe("CreateTaskRequest covers the inputs of the form models.");
+
+export type CreateTaskRequest = z.infer<typeof CreateTaskRequestSchema>;
+
@@ -0,0 +1,39 @@
+// @generated from file golden/v1/oneofs.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * ItemRef points to an item by id.
+ * @generated from message golden.v1.ItemRef
+ */
+export const ItemRefSchema = z.object({
+  $typeName: z.literal("golden.v1.ItemRef"),
+  id: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }).optional(),
+}).describe("ItemRef points to an item by id.");
+
+export type ItemRef = z.infer<typeof ItemRefSchema>;
+
+/**
+ * GetItemRequest selects an item by one of its keys.
+ * @generated from message golden.v1.GetItemRequest
+ */
+export const GetItemRequestSchema = z.object({
+  $typeName: z.literal("golden.v1.GetItemRequest"),
+  key: z.discriminatedUnion("case", [z.object({ case: z.literal("id"), value: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }) }), z.object({ case: z.literal("name"), value: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }) }), z.object({ case: z.literal("ref"), value: ItemRefSchema })]),
+  format: z.discriminatedUnion("case", [z.object({ case: z.literal("json"), value: z.string() }), z.object({ case: z.literal("binary"), value: z.instanceof(Uint8Array) }), z.object({ case: z.undefined(), value: z.undefined().optional() })]),
+}).describe("GetItemRequest selects an item by one of its keys.");
+
+export type GetItemRequest = z.infer<typeof GetItemRequestSchema>;
+
+/**
+ * GetItemResponse is only generated with include_responses=true.
+ * @generated from message golden.v1.GetItemResponse
+ */
+export const GetItemResponseSchema = z.object({
+  $typeName: z.literal("golden.v1.GetItemResponse"),
+  item: ItemRefSchema,
+}).describe("GetItemResponse is only generated with include_responses=true.");
+
+export type GetItemResponse = z.infer<typeof GetItemResponseSchema>;
+
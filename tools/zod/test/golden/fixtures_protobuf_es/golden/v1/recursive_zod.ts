@@ -0,0 +1,133 @@
+// @generated from file golden/v1/recursive.proto
+/* eslint-disable */
+
+import { z } from "zod";
+import { Visibility } from "./recursive_pb.js";
+
+/**
+ * Visibility of a Section.
+ * @generated from enum golden.v1.Visibility
+ */
+export const VisibilitySchema = z.enum(Visibility).describe("Visibility of a Section.");
+export type VisibilityType = z.infer<typeof VisibilitySchema>;
+
+/**
+ * Map of Visibility enum values to string representations
+ * @generated from enum golden.v1.Visibility
+ */
+export const VISIBILITY_MAP: Record<number, string> = {
+  0: "UNSPECIFIED",
+  1: "PUBLIC",
+  2: "PRIVATE",
+};
+
+/**
+ * Map of string representations to Visibility enum values
+ * @generated from enum golden.v1.Visibility
+ */
+export const STRING_TO_VISIBILITY: Record<string, Visibility> = {
+  PUBLIC: Visibility.PUBLIC,
+  PRIVATE: Visibility.PRIVATE,
+};
+
+/**
+ * TreeNode references itself.
+ * @generated from message golden.v1.TreeNode
+ */
+export type TreeNode = {
+  $typeName: "golden.v1.TreeNode";
+  name?: string;
+  children?: TreeNode[];
+  parent?: TreeNode;
+};
+
+export const TreeNodeSchema: z.ZodType<TreeNode> = z.lazy(() => z.object({
+  $typeName: z.literal("golden.v1.TreeNode"),
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional(),
+  children: z.array(z.lazy(() => TreeNodeSchema)).optional(),
+  parent: z.lazy(() => TreeNodeSchema).optional(),
+}).describe("TreeNode references itself."));
+
+/**
+ * Expr and BinaryOp reference each other.
+ * @generated from message golden.v1.Expr
+ */
+export type Expr = {
+  $typeName: "golden.v1.Expr";
+  kind: { case: "literal"; value: bigint } | { case: "binary"; value: BinaryOp } | { case: undefined; value?: undefined };
+};
+
+export const ExprSchema: z.ZodType<Expr> = z.lazy(() => z.object({
+  $typeName: z.literal("golden.v1.Expr"),
+  kind: z.discriminatedUnion("case", [z.object({ case: z.literal("literal"), value: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n) }), z.object({ case: z.literal("binary"), value: z.lazy(() => BinaryOpSchema) }), z.object({ case: z.undefined(), value: z.undefined().optional() })]),
+}).describe("Expr and BinaryOp reference each other."));
+
+/**
+ * BinaryOp is an operator applied to two expressions.
+ * @generated from message golden.v1.BinaryOp
+ */
+export type BinaryOp = {
+  $typeName: "golden.v1.BinaryOp";
+  op?: string;
+  left: Expr;
+  right: Expr;
+};
+
+export const BinaryOpSchema: z.ZodType<BinaryOp> = z.lazy(() => z.object({
+  $typeName: z.literal("golden.v1.BinaryOp"),
+  op: z.string().refine((v) => ["+", "-"].includes(v), { message: "Must be one of: +, -", params: { ruleId: "string.in" } }).optional(),
+  left: z.lazy(() => ExprSchema),
+  right: z.lazy(() => ExprSchema),
+}).describe("BinaryOp is an operator applied to two expressions."));
+
+/**
+ * Label is referenced by recursive messages without being on a cycle.
+ * @generated from message golden.v1.Label
+ */
+export const LabelSchema = z.object({
+  $typeName: z.literal("golden.v1.Label"),
+  value: z.string().optional(),
+}).describe("Label is referenced by recursive messages without being on a cycle.");
+
+export type Label = z.infer<typeof LabelSchema>;
+
+/**
+ * Section is recursive through a map, with fields of every kind.
+ * @generated from message golden.v1.Section
+ */
+export type Section = {
+  $typeName: "golden.v1.Section";
+  title: string;
+  level?: number;
+  updatedAt?: { $typeName: "google.protobuf.Timestamp"; seconds: bigint; nanos: number };
+  children?: Record<string, Section>;
+  refs?: Record<string, string>;
+  summary?: string;
+  metadata?: Record<string, any>;
+  ttl?: { $typeName: "google.protobuf.Duration"; seconds: bigint; nanos: number };
+  checksum?: Uint8Array;
+  revisions?: { $typeName: "google.protobuf.Timestamp"; seconds: bigint; nanos: number }[];
+  label?: Label;
+  visibility?: Visibility;
+  extra?: unknown;
+  budget?: bigint;
+};
+
+export const SectionSchema: z.ZodType<Section> = z.lazy(() => z.object({
+  $typeName: z.literal("golden.v1.Section"),
+  title: z.string(),
+  level: z.number().int().optional(),
+  updatedAt: z.object({ $typeName: z.literal("google.protobuf.Timestamp"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).optional(),
+  children: z.record(z.string(), z.lazy(() => SectionSchema)).optional(),
+  refs: z.record(z.string().regex(/^-?[0-9]+$/, { message: "Must be an integer", abort: true }).refine((s) => BigInt.asIntN(64, BigInt(s)) === BigInt(s), { message: "Must be a signed 64-bit integer" }), z.string()).optional(),
+  summary: z.string().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  ttl: z.object({ $typeName: z.literal("google.protobuf.Duration"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).optional(),
+  checksum: z.instanceof(Uint8Array).optional(),
+  revisions: z.array(z.object({ $typeName: z.literal("google.protobuf.Timestamp"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() })).optional(),
+  label: LabelSchema.optional(),
+  visibility: z.enum(Visibility).refine((v) => [0, 1, 2].includes(v), { message: "Must be a defined enum value", params: { ruleId: "enum.defined_only" } }).optional(),
+  extra: z.unknown().optional(),
+  budget: z.bigint().gte(0n).lte(18446744073709551615n).optional(),
+}).describe("Section is recursive through a map, with fields of every kind."));
+
@@ -0,0 +1,37 @@
+// @generated from file golden/v1/wkt.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/** Total nanoseconds of a google.protobuf.Duration */
+function durationNanos(value: { seconds: { toString(): string }; nanos: number }): bigint {
+  return BigInt(value.seconds.toString()) * 1000000000n + BigInt(value.nanos);
+}
+
+/** Milliseconds since the epoch of a google.protobuf.Timestamp message (useDate=false) */
+function timestampMillis(value: { seconds: { toString(): string }; nanos: number }): number {
+  return Number(value.seconds.toString()) * 1000 + Math.floor(value.nanos / 1000000);
+}
+
+/**
+ * WellKnown covers the well-known types.
+ * @generated from message golden.v1.WellKnown
+ */
+export const WellKnownSchema = z.object({
+  $typeName: z.literal("golden.v1.WellKnown"),
+  createdAt: z.object({ $typeName: z.literal("google.protobuf.Timestamp"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).refine((d) => timestampMillis(d) < Date.now(), { message: "Must be in the past", params: { ruleId: "timestamp.lt_now" } }),
+  timeout: z.object({ $typeName: z.literal("google.protobuf.Duration"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() }).refine((d) => durationNanos(d) > 0n && durationNanos(d) <= 60000000000n, { message: "Must be > 0s and <= 60s", params: { ruleId: "duration.gt_lte", rule: "duration.gt" } }).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  value: z.any().optional(),
+  list: z.object({ $typeName: z.literal("google.protobuf.ListValue"), values: z.array(z.any()) }).optional(),
+  payload: z.unknown().optional(),
+  empty: z.object({ $typeName: z.literal("google.protobuf.Empty") }).optional(),
+  nickname: z.string().refine((v) => [...v].length <= 16, { message: "Must be at most 16 characters", params: { ruleId: "string.max_len" } }).optional(),
+  retries: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  blob: z.instanceof(Uint8Array).optional(),
+  checkpoints: z.array(z.object({ $typeName: z.literal("google.protobuf.Timestamp"), seconds: z.bigint().gte(-9223372036854775808n).lte(9223372036854775807n), nanos: z.number().int() })).optional(),
+}).describe("WellKnown covers the well-known types.");
+
+export type WellKnown = z.infer<typeof WellKnownSchema>;
+
@@ -0,0 +1,51 @@
+// @generated from file golden/v1/oneofs.proto
+/* eslint-disable */
+
+import { z } from "zod";
+
+/**
+ * ItemRef points to an item by id.
+ * @generated from message golden.v1.ItemRef
+ */
+export const ItemRefSchema = z.object({
+  id: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }).optional(),
+}).describe("ItemRef points to an item by id.");
+
+export type ItemRef = z.infer<typeof ItemRefSchema>;
+
+/**
+ * GetItemRequest selects an item by one of its keys.
+ * @generated from message golden.v1.GetItemRequest
+ */
+export const GetItemRequestSchema = z.object({
+  id: z.string().refine((v) => v !== "", { message: "Must be a valid UUID", params: { ruleId: "string.uuid_empty", rule: "string.uuid" } }).refine((v) => v === "" || z.regexes.guid.test(v), { message: "Must be a valid UUID", params: { ruleId: "string.uuid" } }).optional(),
+  name: z.string().refine((v) => [...v].length >= 1, { message: "Must be at least 1 characters", params: { ruleId: "string.min_len" } }).optional(),
+  ref: ItemRefSchema.optional(),
+  json: z.string().optional(),
+  binary: z.instanceof(Uint8Array).optional(),
+}).superRefine((v, ctx) => {
+  const keyCount = [v.id, v.name, v.ref].filter((m) => m !== undefined).length;
+  if (keyCount > 1) {
+    ctx.addIssue({ code: "custom", message: "Only one of id, name, ref may be set", path: ["key"] });
+  }
+  if (keyCount === 0) {
+    ctx.addIssue({ code: "custom", message: "Exactly one of id, name, ref must be set", path: ["key"], params: { ruleId: "required" } });
+  }
+  const formatCount = [v.json, v.binary].filter((m) => m !== undefined).length;
+  if (formatCount > 1) {
+    ctx.addIssue({ code: "custom", message: "Only one of json, binary may be set", path: ["format"] });
+  }
+}).describe("GetItemRequest selects an item by one of its keys.");
+
+export type GetItemRequest = z.infer<typeof GetItemRequestSchema>;
+
+/**
+ * GetItemResponse is only generated with include_responses=true.
+ * @generated from message golden.v1.GetItemResponse
+ */
+export const GetItemResponseSchema = z.object({
+  item: ItemRefSchema,
+}).describe("GetItemResponse is only generated with include_responses=true.");
+
+export type GetItemResponse = z.infer<typeof GetItemResponseSchema>;
+
@@ -0,0 +1,63 @@
+/**
+ * Tests of the RE2 to JavaScript pattern translation
+ *
+ * Run with `npm run test:zod`.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { patternConstant, PatternUnsupportedError, toRegExp, type PatternTable } from "../src/patterns.js";
+
+const matches = (pattern: string, value: string) => toRegExp(pattern).test(value);
+
+describe("toRegExp", () => {
+  it("turns leading inline flags into JavaScript flags", () => {
+    assert.equal(toRegExp("(?i)^[a-z0-9]+$").flags, "i");
+    assert.ok(matches("(?i)^[a-z0-9]+$", "Foo123"));
+    assert.ok(!matches("(?i)^[a-z0-9]+$", "foo bar"));
+    assert.equal(toRegExp("(?s)(?im)^a.b$").flags, "ims");
+    assert.ok(matches("(?s)^a.b$", "a\nb"));
+  });
+
+  it("tests the empty string against the pattern", () => {
+    assert.ok(!matches("^[a-z]+$", ""));
+    assert.ok(matches("^[a-z]*$", ""));
+  });
+
+  it("matches RE2 dots, anchors and escapes as RE2 does", () => {
+    assert.ok(!matches("^a.b$", "a\nb"));
+    assert.ok(matches("^a.b$", "a\rb"));
+    assert.ok(matches("\\Aab\\z", "ab"));
+    assert.ok(!matches("(?m)\\Aab\\z", "ab\n"));
+    assert.ok(matches("(?m)^ab$", "x\nab"));
+    assert.ok(matches("^\\x{41}\\x42\\a$", "AB\x07"));
+    assert.ok(matches("^\\* \\\\ \\w$", "* \\ x"));
+  });
+
+  it("translates quoting, POSIX classes and named groups", () => {
+    assert.ok(matches("^\\Qa.b*\\E$", "a.b*"));
+    assert.ok(!matches("^\\Qa.b*\\E$", "axbb"));
+    assert.ok(matches("^[[:alpha:]_]+$", "Abc_"));
+    assert.ok(!matches("^[[:alpha:]]+$", "ab1"));
+    assert.ok(matches("^[]a]+$", "]a"));
+    assert.equal(toRegExp("^(?P<year>\\d{4})$").exec("2024")?.groups?.year, "2024");
+  });
+
+  it("rejects syntax JavaScript cannot match", () => {
+    for (const pattern of ["\\pL", "\\p{Greek}", "a(?i)b", "(?U)a+", "(?=a)", "[[:^alpha:]]", "[\\z]", "\\x{1F600}", "\\C", "(", "a\\"]) {
+      assert.throws(() => toRegExp(pattern), PatternUnsupportedError, pattern);
+    }
+  });
+});
+
+describe("patternConstant", () => {
+  it("names each pattern once", () => {
+    const table: PatternTable = new Map();
+    assert.equal(patternConstant(table, "^a$"), "PATTERN_1");
+    assert.equal(patternConstant(table, "^b$"), "PATTERN_2");
+    assert.equal(patternConstant(table, "^a$"), "PATTERN_1");
+    assert.equal(table.size, 2);
+    assert.throws(() => patternConstant(table, "\\pL"), PatternUnsupportedError);
+    assert.equal(table.size, 2);
+  });
+});